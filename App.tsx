@@ -15,6 +15,7 @@ import { loadOrDefault } from './utils/storage';
 import { migrateExistingRecordsToCompany } from './utils/storage';
 import { loadCompanyState, getActiveCompanyId, getActiveCompany } from './services/companyStore';
 import { loadBrand, applyBrand } from './services/branding';
+import { onSyncFailure } from './services/recordSync';
 import { UserProfile, PlanId } from './types';
 
 const USER_PROFILE_KEY = 'primus_user_profile';
@@ -53,6 +54,12 @@ const App: React.FC = () => {
     }
   }, []);
 
+  // Tell the user when the server refused a change; the screens have already reloaded its copy
+  useEffect(() => onSyncFailure(({ collection, errors, records }) => {
+    const undone = records ? 'It has been undone here.' : 'It may be lost when the page reloads.';
+    alert(`Some ${collection} changes weren't saved to the server. ${undone}\n\n${Array.from(new Set(errors)).join('\n')}`);
+  }), []);
+
   const handleProfileUpdate = (updatedProfile: UserProfile) => {
     setUserProfile(updatedProfile);
   };
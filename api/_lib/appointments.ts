@@ -0,0 +1,17 @@
+import { getStorage } from './storage';
+import { DEFAULT_APPOINTMENT_SETTINGS, type AppointmentSettings } from '../../services/appointmentBooking';
+
+// Appointment settings live in the company's settings partition under their own record
+export const APPOINTMENT_SETTINGS_ID = 'appointmentSettings';
+
+export async function getCompanyAppointmentSettings(companyId: string): Promise<AppointmentSettings> {
+  const stored = await getStorage().get<AppointmentSettings & { id: string }>('settings', companyId, APPOINTMENT_SETTINGS_ID);
+  if (!stored) return DEFAULT_APPOINTMENT_SETTINGS;
+  const { id: _id, ...settings } = stored;
+  return { ...DEFAULT_APPOINTMENT_SETTINGS, ...settings };
+}
+
+export async function saveCompanyAppointmentSettings(companyId: string, settings: AppointmentSettings): Promise<AppointmentSettings> {
+  await getStorage().put('settings', companyId, { ...settings, id: APPOINTMENT_SETTINGS_ID });
+  return settings;
+}
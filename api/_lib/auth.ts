@@ -0,0 +1,129 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createHmac, randomBytes, scryptSync, timingSafeEqual } from 'node:crypto';
+import { can, type Permission, type Role } from '../../services/rbac';
+import { sendError } from './http';
+
+// ============================================================================
+// REQUEST CONTEXT
+// ============================================================================
+
+// Identity attached to every authenticated api/ request
+export interface RequestContext {
+  userId: string;
+  companyId: string;
+  role: Role;
+}
+
+interface TokenPayload extends RequestContext {
+  exp: number; // Unix timestamp (seconds)
+}
+
+const TOKEN_TTL_SECONDS = 12 * 60 * 60; // 12 hours
+
+function getSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error("AUTH_SECRET environment variable is not set");
+  }
+  return secret;
+}
+
+function sign(data: string): string {
+  return createHmac('sha256', getSecret()).update(data).digest('base64url');
+}
+
+// ============================================================================
+// TOKENS
+// ============================================================================
+
+/**
+ * Issue a signed bearer token for a user session
+ */
+export function issueToken(context: RequestContext): { token: string; expiresAt: string } {
+  const exp = Math.floor(Date.now() / 1000) + TOKEN_TTL_SECONDS;
+  const payload: TokenPayload = { ...context, exp };
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return {
+    token: `${body}.${sign(body)}`,
+    expiresAt: new Date(exp * 1000).toISOString(),
+  };
+}
+
+/**
+ * Verify a bearer token; returns null when missing, tampered with or expired
+ */
+export function verifyToken(token: string): RequestContext | null {
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  const expected = Buffer.from(sign(body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload: TokenPayload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    if (!payload.exp || payload.exp * 1000 < Date.now()) return null;
+    if (!payload.userId || !payload.companyId || !payload.role) return null;
+    return { userId: payload.userId, companyId: payload.companyId, role: payload.role };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the request context from the Authorization header
+ */
+export function getRequestContext(req: VercelRequest): RequestContext | null {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) return null;
+  return verifyToken(header.slice('Bearer '.length).trim());
+}
+
+/**
+ * Authenticate the request and enforce an RBAC permission.
+ * Sends 401/403 and returns null when the caller may not proceed.
+ */
+export function requireAuth(
+  req: VercelRequest,
+  res: VercelResponse,
+  permission?: Permission
+): RequestContext | null {
+  let context: RequestContext | null;
+  try {
+    context = getRequestContext(req);
+  } catch (error) {
+    console.error('Auth configuration error:', error);
+    sendError(res, 500, 'Authentication is not configured');
+    return null;
+  }
+  if (!context) {
+    sendError(res, 401, 'Authentication required');
+    return null;
+  }
+  if (permission && !can(context.role, permission)) {
+    sendError(res, 403, `Missing permission: ${permission}`);
+    return null;
+  }
+  return context;
+}
+
+// ============================================================================
+// PASSWORDS
+// ============================================================================
+
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString('hex');
+  const hash = scryptSync(password, salt, 64).toString('hex');
+  return `${salt}:${hash}`;
+}
+
+export function verifyPassword(password: string, stored: string | undefined): boolean {
+  if (!stored) return false;
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+  return timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,21 @@
+import { getStorage } from './storage';
+import { addRuleVersion, normalizeRuleVersions, rulesInForce, type CommissionRules } from '../../services/commissionRules';
+
+// Every version of the commission rules lives in the company's settings partition under one record
+export const COMMISSION_RULES_ID = 'commissionRules';
+
+export async function getCompanyRuleVersions(companyId: string): Promise<CommissionRules[]> {
+  const stored = await getStorage().get<{ id: string; versions: CommissionRules[] }>('settings', companyId, COMMISSION_RULES_ID);
+  return normalizeRuleVersions(companyId, stored?.versions || []);
+}
+
+// Rules in force on a date; deals stay on the rules in force when they were signed
+export async function getCompanyRulesAt(companyId: string, date: string): Promise<CommissionRules> {
+  return rulesInForce(await getCompanyRuleVersions(companyId), date, companyId);
+}
+
+export async function saveCompanyRuleVersion(companyId: string, rules: CommissionRules): Promise<CommissionRules[]> {
+  const versions = addRuleVersion(await getCompanyRuleVersions(companyId), companyId, rules);
+  await getStorage().put('settings', companyId, { id: COMMISSION_RULES_ID, versions });
+  return versions;
+}
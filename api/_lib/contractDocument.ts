@@ -0,0 +1,186 @@
+// Contract rendering - the agreement every signer sees and the signed copy
+// The agreement pages depend only on fields fixed when the contract is created,
+// so re-rendering always reproduces the bytes behind documentSha256.
+
+import type { Contract, ContractEvent, ContractSigner, ContractSignerRole } from '../../types';
+import { PdfDocument, PAGE_WIDTH, wrapText } from './pdf';
+import { formatIssuedDate } from './proposalDocument';
+
+const MARGIN = 54;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const BODY_BOTTOM = 720;
+const MUTED = '#64748b';
+
+// Signature pad size in components/SignatureModal.tsx
+const PAD_WIDTH = 600;
+const PAD_HEIGHT = 200;
+
+export const SIGNER_ROLE_LABELS: Record<ContractSignerRole, string> = {
+  homeowner: 'Homeowner',
+  co_homeowner: 'Co-Homeowner',
+  rep: 'Sales Representative',
+};
+
+const EVENT_LABELS: Record<ContractEvent['type'], string> = {
+  created: 'Sent for signature',
+  consented: 'Consented to e-sign',
+  signed: 'Signed',
+  completed: 'Completed',
+  voided: 'Voided',
+};
+
+const formatTimestamp = (iso: string) => iso.replace('T', ' ').replace(/\.\d+Z$/, 'Z').replace(/Z$/, ' UTC');
+
+function pdfFooter(doc: PdfDocument, contract: Contract) {
+  doc.line(MARGIN, 750, PAGE_WIDTH - MARGIN, 750);
+  doc.text(MARGIN, 764, `${contract.title} • Envelope ${contract.id}`, { size: 7, color: MUTED });
+  doc.text(PAGE_WIDTH - MARGIN, 764, `Page ${doc.pageCount}`, { size: 7, color: MUTED, align: 'right' });
+}
+
+/**
+ * Start a new page when the next block won't fit above the footer
+ */
+function ensureSpace(doc: PdfDocument, contract: Contract, y: number, height: number): number {
+  if (y + height <= BODY_BOTTOM) return y;
+  pdfFooter(doc, contract);
+  doc.addPage();
+  return 72;
+}
+
+function drawSignature(doc: PdfDocument, signer: ContractSigner, x: number, y: number, width: number, height: number) {
+  const scale = Math.min(width / PAD_WIDTH, height / PAD_HEIGHT);
+  (signer.strokes || []).forEach(stroke => {
+    doc.polyline(stroke.map(([px, py]) => [x + px * scale, y + py * scale] as [number, number]), '#1e3a8a');
+  });
+}
+
+/**
+ * Agreement text plus one signature block per signer. With `signed`, the
+ * blocks carry each signer's strokes and the certificate page is appended.
+ */
+function renderContract(contract: Contract, signed: boolean): Buffer {
+  const doc = new PdfDocument({ title: contract.title, author: 'Primus Home Pro', createdAt: contract.createdAt });
+
+  // AGREEMENT
+  doc.text(MARGIN, 72, contract.title, { size: 18, bold: true });
+  doc.text(MARGIN, 90, `Envelope ${contract.id} • Prepared ${formatIssuedDate(contract.createdAt)}`, { size: 8, color: MUTED });
+  let y = 120;
+  contract.body.split(/\n\s*\n/).forEach(paragraph => {
+    wrapText(paragraph, CONTENT_WIDTH, { size: 10 }).forEach(line => {
+      y = ensureSpace(doc, contract, y, 14);
+      doc.text(MARGIN, y, line, { size: 10, color: '#1e293b' });
+      y += 14;
+    });
+    y += 8;
+  });
+
+  // SIGNATURES
+  y = ensureSpace(doc, contract, y + 12, 40);
+  doc.text(MARGIN, y, 'Signatures', { size: 12, bold: true });
+  y += 16;
+  contract.signers.forEach(signer => {
+    y = ensureSpace(doc, contract, y, 104);
+    const boxHeight = 64;
+    doc.rect(MARGIN, y, 240, boxHeight, '#f8fafc');
+    if (signed) drawSignature(doc, signer, MARGIN, y, 240, boxHeight);
+    doc.line(MARGIN, y + boxHeight, MARGIN + 240, y + boxHeight, '#0f172a');
+    doc.text(MARGIN, y + boxHeight + 12, `${signer.name} (${SIGNER_ROLE_LABELS[signer.role]})`, { size: 9, bold: true });
+    if (signed && signer.signedAt) {
+      doc.text(MARGIN + 260, y + 20, `Signed electronically as "${signer.typedName}"`, { size: 9 });
+      doc.text(MARGIN + 260, y + 34, formatTimestamp(signer.signedAt), { size: 9, color: MUTED });
+    } else {
+      doc.text(MARGIN + 260, y + boxHeight, 'Date: ____________________', { size: 9, color: MUTED });
+    }
+    y += boxHeight + 32;
+  });
+  pdfFooter(doc, contract);
+
+  if (signed) renderCertificate(doc, contract);
+  return doc.toBuffer();
+}
+
+/**
+ * Certificate of completion: who signed, when, from where, and against which
+ * document hash
+ */
+function renderCertificate(doc: PdfDocument, contract: Contract) {
+  doc.addPage();
+  doc.rect(0, 0, PAGE_WIDTH, 8, '#0f172a');
+  doc.text(MARGIN, 72, 'Certificate of Completion', { size: 20, bold: true });
+
+  const summary: [string, string][] = [
+    ['Envelope ID', contract.id],
+    ['Document', contract.title],
+    ['Document SHA-256', contract.documentSha256],
+    ['Status', contract.status === 'completed' ? 'Completed' : contract.status],
+    ['Sent', formatTimestamp(contract.createdAt)],
+    ['Completed', contract.completedAt ? formatTimestamp(contract.completedAt) : '—'],
+  ];
+  let y = 104;
+  summary.forEach(([label, value]) => {
+    doc.text(MARGIN, y, label, { size: 8, bold: true, color: MUTED });
+    doc.text(MARGIN + 110, y, value, { size: label === 'Document SHA-256' ? 7.5 : 9 });
+    y += 16;
+  });
+  y = doc.paragraph(
+    MARGIN,
+    y + 4,
+    CONTENT_WIDTH,
+    'The SHA-256 above fingerprints the unsigned agreement. Each signer was shown this value, consented to electronic records and signatures, and signed against it.',
+    { size: 8, color: MUTED }
+  );
+
+  y += 12;
+  doc.text(MARGIN, y, 'Signers', { size: 12, bold: true });
+  y += 8;
+  contract.signers.forEach(signer => {
+    y = ensureSpace(doc, contract, y, 120);
+    y += 14;
+    doc.line(MARGIN, y - 10, PAGE_WIDTH - MARGIN, y - 10, '#e2e8f0');
+    doc.text(MARGIN, y + 4, `${signer.name} — ${SIGNER_ROLE_LABELS[signer.role]}`, { size: 10, bold: true });
+    doc.rect(PAGE_WIDTH - MARGIN - 150, y - 4, 150, 50, '#f8fafc');
+    drawSignature(doc, signer, PAGE_WIDTH - MARGIN - 150, y - 4, 150, 50);
+    const rows: [string, string][] = [
+      ['Email', signer.email || '—'],
+      ['E-sign consent', signer.consentedAt ? formatTimestamp(signer.consentedAt) : '—'],
+      ['Signed', signer.signedAt ? `${formatTimestamp(signer.signedAt)} as "${signer.typedName}"` : '—'],
+      ['IP address', signer.ip || 'Not recorded'],
+    ];
+    rows.forEach(([label, value]) => {
+      y += 13;
+      doc.text(MARGIN, y + 4, label, { size: 8, color: MUTED });
+      doc.text(MARGIN + 90, y + 4, value, { size: 8 });
+    });
+    y += 13;
+    doc.text(MARGIN, y + 4, 'User agent', { size: 8, color: MUTED });
+    y = doc.paragraph(MARGIN + 90, y + 4, CONTENT_WIDTH - 250, signer.userAgent || 'Not recorded', { size: 7 }) + 6;
+  });
+
+  y = ensureSpace(doc, contract, y + 10, 40);
+  doc.text(MARGIN, y, 'Event History', { size: 12, bold: true });
+  y += 18;
+  contract.events.forEach(event => {
+    y = ensureSpace(doc, contract, y, 14);
+    const signer = contract.signers.find(s => s.id === event.signerId);
+    doc.text(MARGIN, y, formatTimestamp(event.at), { size: 8, color: MUTED });
+    doc.text(MARGIN + 130, y, EVENT_LABELS[event.type], { size: 8, bold: true });
+    doc.text(MARGIN + 240, y, signer?.name || '', { size: 8 });
+    doc.text(PAGE_WIDTH - MARGIN, y, event.ip || '', { size: 8, color: MUTED, align: 'right' });
+    y += 14;
+  });
+  pdfFooter(doc, contract);
+}
+
+/**
+ * The unsigned agreement; its SHA-256 is the contract's documentSha256
+ */
+export function renderContractPdf(contract: Contract): Buffer {
+  return renderContract(contract, false);
+}
+
+/**
+ * Agreement with every signature and the certificate of completion appended
+ */
+export function renderSignedContractPdf(contract: Contract): Buffer {
+  return renderContract(contract, true);
+}
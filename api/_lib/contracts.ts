@@ -0,0 +1,17 @@
+import { getStorage } from './storage';
+import { DEFAULT_CONTRACT_TEMPLATES, type ContractTemplateConfig } from '../../services/contractTemplates';
+
+// Contract templates live in the company's settings partition under their own record
+export const CONTRACT_TEMPLATES_ID = 'contractTemplates';
+
+export async function getCompanyContractTemplates(companyId: string): Promise<ContractTemplateConfig> {
+  const stored = await getStorage().get<ContractTemplateConfig & { id: string }>('settings', companyId, CONTRACT_TEMPLATES_ID);
+  if (!stored) return DEFAULT_CONTRACT_TEMPLATES;
+  const { id: _id, ...config } = stored;
+  return { ...DEFAULT_CONTRACT_TEMPLATES, ...config };
+}
+
+export async function saveCompanyContractTemplates(companyId: string, config: ContractTemplateConfig): Promise<ContractTemplateConfig> {
+  await getStorage().put('settings', companyId, { ...config, id: CONTRACT_TEMPLATES_ID });
+  return config;
+}
@@ -0,0 +1,17 @@
+import { getStorage } from './storage';
+import { DEFAULT_EQUIPMENT_CATALOG, type EquipmentCatalog } from '../../services/equipmentCatalog';
+
+// The equipment catalog lives in the company's settings partition under its own record
+export const EQUIPMENT_ID = 'equipment';
+
+export async function getCompanyEquipment(companyId: string): Promise<EquipmentCatalog> {
+  const stored = await getStorage().get<EquipmentCatalog & { id: string }>('settings', companyId, EQUIPMENT_ID);
+  if (!stored) return DEFAULT_EQUIPMENT_CATALOG;
+  const { id: _id, ...catalog } = stored;
+  return { ...DEFAULT_EQUIPMENT_CATALOG, ...catalog };
+}
+
+export async function saveCompanyEquipment(companyId: string, catalog: EquipmentCatalog): Promise<EquipmentCatalog> {
+  await getStorage().put('settings', companyId, { ...catalog, id: EQUIPMENT_ID });
+  return catalog;
+}
@@ -26,41 +26,3 @@ export async function callGemini(prompt: string): Promise<string> {
     throw new Error("AI Service Unavailable");
   }
 }
-
-// Financial computation helper (mirrored from frontend for backend use)
-export function computeFinancials(
-  systemSizeKw: number,
-  estimatedBill?: number
-): {
-  systemCost: number;
-  taxCredit30: number;
-  netCost: number;
-  estimatedMonthlyPayment: number;
-  estimatedMonthlySavings: number;
-  estimatedUtilityBillBefore: number;
-} {
-  const costPerWatt = 2.85;
-  const systemCost = systemSizeKw * 1000 * costPerWatt;
-  const taxCredit30 = systemCost * 0.3;
-  const netCost = systemCost - taxCredit30;
-
-  const years = 20;
-  const annualRate = 0.0499;
-  const n = years * 12;
-  const r = annualRate / 12;
-  
-  const estimatedMonthlyPayment = (netCost * r) / (1 - Math.pow(1 + r, -n));
-
-  const baselineBill = estimatedBill ?? 220;
-  const offset = 0.85;
-  const estimatedMonthlySavings = Math.max(0, baselineBill - estimatedMonthlyPayment - (baselineBill * (1 - offset)));
-
-  return {
-    systemCost: Math.round(systemCost),
-    taxCredit30: Math.round(taxCredit30),
-    netCost: Math.round(netCost),
-    estimatedMonthlyPayment: Math.round(estimatedMonthlyPayment),
-    estimatedMonthlySavings: Math.round(estimatedMonthlySavings),
-    estimatedUtilityBillBefore: baselineBill,
-  };
-}
@@ -0,0 +1,78 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { randomUUID } from 'node:crypto';
+import { validate, type FieldError, type Validator } from '../../schema';
+import type { DuplicateMatch } from '../../services/leadDedup';
+
+// ApiResponse envelope shared with services/api.ts on the client
+export interface ApiMeta {
+  total?: number;
+  page?: number;
+  pageSize?: number;
+  timestamp: string;
+  duplicates?: DuplicateMatch[];
+}
+
+export function sendData<T>(res: VercelResponse, data: T, meta?: Partial<ApiMeta>, status = 200) {
+  return res.status(status).json({
+    success: true,
+    data,
+    meta: { timestamp: new Date().toISOString(), ...meta },
+  });
+}
+
+export function sendError(res: VercelResponse, status: number, error: string, errors?: FieldError[]) {
+  return res.status(status).json({
+    success: false,
+    error,
+    ...(errors ? { errors } : {}),
+    meta: { timestamp: new Date().toISOString() },
+  });
+}
+
+/**
+ * Validate a request payload against a schema from schema.ts.
+ * Sends 400 with field-level errors and returns null when it doesn't match.
+ */
+export function parseBody<T>(res: VercelResponse, schema: Validator<T>, input: unknown): T | null {
+  const result = validate(schema, input);
+  if (!result.ok) {
+    sendError(res, 400, 'Validation failed', result.errors);
+    return null;
+  }
+  return result.value;
+}
+
+// Read a single query-string value
+export function queryParam(req: VercelRequest, name: string): string | undefined {
+  const value = req.query?.[name];
+  if (Array.isArray(value)) return value[0];
+  return value || undefined;
+}
+
+// Apply page/pageSize query params, returning the slice plus pagination meta
+export function paginate<T>(req: VercelRequest, items: T[]): { data: T[]; meta: Partial<ApiMeta> } {
+  const total = items.length;
+  const page = Number(queryParam(req, 'page')) || 1;
+  const pageSize = Number(queryParam(req, 'pageSize')) || 50;
+  const start = (page - 1) * pageSize;
+  return { data: items.slice(start, start + pageSize), meta: { total, page, pageSize } };
+}
+
+export function generateId(): string {
+  return randomUUID();
+}
+
+// ID for a new record: the app creates records locally and syncs them, so it
+// sends its own ID; web forms and other callers get a generated one
+export function newRecordId(body: { id?: unknown }): string {
+  return typeof body.id === 'string' && body.id.trim() ? body.id : generateId();
+}
+
+// Drop the fields named in the comma-separated `clear` query param. Updates
+// merge into the stored record, so this is how a client removes a field.
+export function clearFields<T extends Record<string, unknown>>(req: VercelRequest, record: T): T {
+  const fields = (queryParam(req, 'clear') || '').split(',').filter(Boolean);
+  const cleared: Record<string, unknown> = { ...record };
+  fields.forEach(field => { if (field !== 'id' && field !== 'companyId') delete cleared[field]; });
+  return cleared as T;
+}
@@ -0,0 +1,17 @@
+import { getStorage } from './storage';
+import { EMPTY_SCHEDULE, type InstallSchedule } from '../../services/installSchedule';
+
+// The install schedule lives in the company's settings partition under its own record
+export const INSTALL_SCHEDULE_ID = 'installSchedule';
+
+export async function getCompanyInstallSchedule(companyId: string): Promise<InstallSchedule> {
+  const stored = await getStorage().get<InstallSchedule & { id: string }>('settings', companyId, INSTALL_SCHEDULE_ID);
+  if (!stored) return EMPTY_SCHEDULE;
+  const { id: _id, ...schedule } = stored;
+  return { ...EMPTY_SCHEDULE, ...schedule };
+}
+
+export async function saveCompanyInstallSchedule(companyId: string, schedule: InstallSchedule): Promise<InstallSchedule> {
+  await getStorage().put('settings', companyId, { ...schedule, id: INSTALL_SCHEDULE_ID });
+  return schedule;
+}
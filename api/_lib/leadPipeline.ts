@@ -0,0 +1,17 @@
+import { getStorage } from './storage';
+import { DEFAULT_LEAD_PIPELINE, type LeadPipelineConfig } from '../../services/leadStatuses';
+
+// The lead pipeline lives in the company's settings partition under its own record
+export const LEAD_PIPELINE_ID = 'leadPipeline';
+
+export async function getCompanyLeadPipeline(companyId: string): Promise<LeadPipelineConfig> {
+  const stored = await getStorage().get<LeadPipelineConfig & { id: string }>('settings', companyId, LEAD_PIPELINE_ID);
+  if (!stored) return DEFAULT_LEAD_PIPELINE;
+  const { id: _id, ...pipeline } = stored;
+  return { ...DEFAULT_LEAD_PIPELINE, ...pipeline };
+}
+
+export async function saveCompanyLeadPipeline(companyId: string, pipeline: LeadPipelineConfig): Promise<LeadPipelineConfig> {
+  await getStorage().put('settings', companyId, { ...pipeline, id: LEAD_PIPELINE_ID });
+  return pipeline;
+}
@@ -0,0 +1,17 @@
+import { getStorage } from './storage';
+import { DEFAULT_ACH_ORIGINATOR, type AchOriginator } from '../../services/payoutBatches';
+
+// The ACH originator lives in the company's settings partition under its own record
+export const ACH_ORIGINATOR_ID = 'achOriginator';
+
+export async function getCompanyAchOriginator(companyId: string): Promise<AchOriginator> {
+  const stored = await getStorage().get<AchOriginator & { id: string }>('settings', companyId, ACH_ORIGINATOR_ID);
+  if (!stored) return DEFAULT_ACH_ORIGINATOR;
+  const { id: _id, ...originator } = stored;
+  return { ...DEFAULT_ACH_ORIGINATOR, ...originator };
+}
+
+export async function saveCompanyAchOriginator(companyId: string, originator: AchOriginator): Promise<AchOriginator> {
+  await getStorage().put('settings', companyId, { ...originator, id: ACH_ORIGINATOR_ID });
+  return originator;
+}
@@ -0,0 +1,185 @@
+// Minimal PDF writer - text, filled rectangles, rules and strokes on Letter pages
+// Uses the standard Helvetica fonts (no embedding), so output is small and
+// byte-for-byte reproducible for the same input.
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: string; // #rrggbb
+  align?: 'left' | 'right' | 'center';
+}
+
+export const PAGE_WIDTH = 612; // 8.5in at 72pt
+export const PAGE_HEIGHT = 792; // 11in
+
+// Helvetica advance widths (1/1000 em) for ASCII 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const BOLD_WIDTH_FACTOR = 1.06; // Helvetica-Bold runs slightly wider
+
+// Characters outside ASCII that WinAnsiEncoding can still show
+const WIN_ANSI: Record<string, number> = { '•': 0x95, '—': 0x97, '–': 0x96, '’': 0x92, '“': 0x93, '”': 0x94, '×': 0xd7, '©': 0xa9 };
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function encodeText(text: string): string {
+  let out = '';
+  for (const ch of text) {
+    const code = ch.charCodeAt(0);
+    const mapped = code >= 32 && code < 127 ? code : WIN_ANSI[ch] ?? 63; // '?'
+    const c = String.fromCharCode(mapped);
+    out += c === '(' || c === ')' || c === '\\' ? `\\${c}` : c;
+  }
+  return out;
+}
+
+export function textWidth(text: string, size: number, bold = false): number {
+  let units = 0;
+  for (const ch of text) {
+    const code = ch.charCodeAt(0);
+    units += code >= 32 && code < 127 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  return (units / 1000) * size * (bold ? BOLD_WIDTH_FACTOR : 1);
+}
+
+/**
+ * Split text into lines that fit a width, breaking between words
+ */
+export function wrapText(value: string, maxWidth: number, options: TextOptions = {}): string[] {
+  const size = options.size ?? 10;
+  const lines: string[] = [];
+  let line = '';
+  for (const word of value.split(/\s+/).filter(Boolean)) {
+    const next = line ? `${line} ${word}` : word;
+    if (line && textWidth(next, size, options.bold) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = next;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+function rgb(color: string): string {
+  const hex = /^#?([0-9a-f]{6})$/i.exec(color.trim())?.[1] || '000000';
+  return [0, 2, 4].map(i => (parseInt(hex.slice(i, i + 2), 16) / 255).toFixed(3)).join(' ');
+}
+
+const n = (value: number) => (Math.round(value * 100) / 100).toString();
+
+// ============================================================================
+// DOCUMENT
+// ============================================================================
+
+/**
+ * Coordinates are points from the top-left corner of the page (converted to
+ * PDF's bottom-left origin on output)
+ */
+export class PdfDocument {
+  private pages: string[][] = [];
+
+  constructor(private info: { title: string; author: string; createdAt: string }) {
+    this.addPage();
+  }
+
+  private get ops(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  text(x: number, y: number, value: string, options: TextOptions = {}): void {
+    const size = options.size ?? 10;
+    const width = textWidth(value, size, options.bold);
+    const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x;
+    this.ops.push(
+      `BT ${rgb(options.color ?? '#0f172a')} rg /${options.bold ? 'F2' : 'F1'} ${size} Tf ${n(left)} ${n(PAGE_HEIGHT - y)} Td (${encodeText(value)}) Tj ET`
+    );
+  }
+
+  /**
+   * Word-wrap a paragraph to a width; returns the y below the last line
+   */
+  paragraph(x: number, y: number, maxWidth: number, value: string, options: TextOptions = {}): number {
+    const lineHeight = (options.size ?? 10) * 1.4;
+    let cursor = y;
+    for (const line of wrapText(value, maxWidth, options)) {
+      this.text(x, cursor, line, options);
+      cursor += lineHeight;
+    }
+    return cursor;
+  }
+
+  rect(x: number, y: number, width: number, height: number, fill: string): void {
+    this.ops.push(`${rgb(fill)} rg ${n(x)} ${n(PAGE_HEIGHT - y - height)} ${n(width)} ${n(height)} re f`);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color = '#cbd5e1', width = 0.75): void {
+    this.ops.push(`${rgb(color)} RG ${n(width)} w ${n(x1)} ${n(PAGE_HEIGHT - y1)} m ${n(x2)} ${n(PAGE_HEIGHT - y2)} l S`);
+  }
+
+  /**
+   * Open stroked path through the points, e.g. a captured pen signature
+   */
+  polyline(points: [number, number][], color = '#0f172a', width = 1.25): void {
+    if (points.length < 2) return;
+    const [first, ...rest] = points;
+    const path = [`${n(first[0])} ${n(PAGE_HEIGHT - first[1])} m`, ...rest.map(([x, y]) => `${n(x)} ${n(PAGE_HEIGHT - y)} l`)];
+    this.ops.push(`${rgb(color)} RG ${n(width)} w 1 J 1 j ${path.join(' ')} S`);
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /**
+   * Serialize to PDF 1.4 bytes
+   */
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const add = (body: string) => objects.push(body);
+
+    // 1: catalog, 2: page tree, 3-4: fonts, 5: info, then content + page pairs
+    const pageIds = this.pages.map((_, i) => 7 + i * 2);
+    add('<< /Type /Catalog /Pages 2 0 R >>');
+    add(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    const pdfDate = this.info.createdAt.replace(/[-:T]/g, '').slice(0, 14);
+    add(`<< /Title (${encodeText(this.info.title)}) /Author (${encodeText(this.info.author)}) /Producer (Primus Home Pro) /CreationDate (D:${pdfDate}Z) >>`);
+    this.pages.forEach((ops, i) => {
+      const stream = ops.join('\n');
+      add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+      add(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] - 1} 0 R >>`);
+    });
+
+    let out = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(out.length);
+      out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+    const xref = out.length;
+    out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    out += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+    out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+    // Every character is a single byte (WinAnsi), so string offsets are byte offsets
+    return Buffer.from(out, 'latin1');
+  }
+}
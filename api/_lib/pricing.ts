@@ -0,0 +1,17 @@
+import { getStorage } from './storage';
+import { DEFAULT_PRICING_CONFIG, type PricingConfig } from '../../services/financialEngine';
+
+// Pricing lives in the company's settings partition under its own record
+export const PRICING_ID = 'pricing';
+
+export async function getCompanyPricing(companyId: string): Promise<PricingConfig> {
+  const stored = await getStorage().get<PricingConfig & { id: string }>('settings', companyId, PRICING_ID);
+  if (!stored) return DEFAULT_PRICING_CONFIG;
+  const { id: _id, ...pricing } = stored;
+  return { ...DEFAULT_PRICING_CONFIG, ...pricing };
+}
+
+export async function saveCompanyPricing(companyId: string, pricing: PricingConfig): Promise<PricingConfig> {
+  await getStorage().put('settings', companyId, { ...pricing, id: PRICING_ID });
+  return pricing;
+}
@@ -0,0 +1,42 @@
+import { getStorage } from './storage';
+import { getCompanyRulesAt } from './commissionRules';
+import { getCompanyStageOrder } from './projectPipeline';
+import { generateDealCommissions, applyCancellation } from '../../services/commissionEngine';
+import type { Commission, Lead, Project } from '../../types';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Pay the milestones a new or moved project has reached, or settle its lines
+ * when it is cancelled, against the stored commissions. Stores and returns the
+ * lines it created or changed.
+ */
+export async function settleProjectCommissions(companyId: string, before: Project | null, project: Project): Promise<Commission[]> {
+  const cancelled = !!project.cancelledAt && !before?.cancelledAt;
+  if (!cancelled && before && before.stage === project.stage) return [];
+
+  const storage = getStorage();
+  const commissions = await storage.list<Commission>('commissions', companyId);
+  // Deals stay on the rules in force when they were signed
+  const rules = await getCompanyRulesAt(companyId, project.createdAt);
+
+  let changed: Commission[];
+  if (cancelled) {
+    const stored = new Set(commissions);
+    changed = applyCancellation(project, commissions, rules).filter(c => !stored.has(c));
+  } else {
+    const lead = await storage.get<Lead>('leads', companyId, project.leadId);
+    // A new project is the signing, so the lead's age is its days to close
+    const daysToClose = !before && lead ? Math.floor((Date.now() - new Date(lead.createdAt).getTime()) / DAY_MS) : undefined;
+    changed = generateDealCommissions(project, rules, commissions, {
+      estimatedBill: lead?.estimatedBill,
+      daysToClose,
+      deals: await storage.list<Project>('projects', companyId),
+      stageOrder: await getCompanyStageOrder(companyId),
+    });
+  }
+  if (changed.length > 0) {
+    await storage.putMany('commissions', companyId, changed);
+  }
+  return changed;
+}
@@ -0,0 +1,20 @@
+import { getStorage } from './storage';
+import { DEFAULT_PIPELINE_STAGES, stageOrder, type PipelineStage } from '../../services/pipelineStages';
+
+// The project pipeline lives in the company's settings partition under its own record
+export const PIPELINE_ID = 'pipeline';
+
+export async function getCompanyPipeline(companyId: string): Promise<PipelineStage[]> {
+  const stored = await getStorage().get<{ id: string; stages: PipelineStage[] }>('settings', companyId, PIPELINE_ID);
+  return stored?.stages || DEFAULT_PIPELINE_STAGES;
+}
+
+export async function saveCompanyPipeline(companyId: string, stages: PipelineStage[]): Promise<PipelineStage[]> {
+  await getStorage().put('settings', companyId, { id: PIPELINE_ID, stages });
+  return stages;
+}
+
+// Stage IDs in pipeline order
+export async function getCompanyStageOrder(companyId: string): Promise<string[]> {
+  return stageOrder(await getCompanyPipeline(companyId));
+}
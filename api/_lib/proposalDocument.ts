@@ -0,0 +1,294 @@
+// Proposal rendering - the issued PDF and the read-only customer view
+// Both are built from the same figures so the link and the PDF always agree.
+
+import type { FinancingOption, ProposalSnapshot, ProposalVersion } from '../../types';
+import { PdfDocument, PAGE_WIDTH } from './pdf';
+
+// ============================================================================
+// FIGURES
+// ============================================================================
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const FINANCING_TYPE_LABELS: Record<FinancingOption['type'], string> = {
+  cash: 'Cash',
+  loan: 'Loan',
+  lease: 'Lease',
+  ppa: 'PPA',
+};
+
+interface Figure {
+  label: string;
+  value: string;
+}
+
+interface ProposalFigures {
+  headline: Figure[];
+  investment: Figure[];
+  equipment?: string;
+  narrative: string;
+  financing: string[][]; // Rows of the financing table, header first
+  bills?: string[][]; // Month, without solar, with solar
+}
+
+const formatUsd = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(Math.round(value)).toLocaleString('en-US')}`;
+
+export function formatIssuedDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+}
+
+function proposalFigures(snapshot: ProposalSnapshot): ProposalFigures {
+  const { lead, analysis, financingOptions } = snapshot;
+  const offsetPct = analysis.annualProductionKwh && analysis.annualUsageKwh
+    ? Math.round((analysis.annualProductionKwh / analysis.annualUsageKwh) * 100)
+    : null;
+  const equipment = analysis.equipment;
+
+  const headline: Figure[] = [
+    { label: 'System Size', value: `${analysis.systemSizeKw} kW` },
+    { label: 'Year 1 Production', value: analysis.annualProductionKwh ? `${analysis.annualProductionKwh.toLocaleString('en-US')} kWh` : '—' },
+    { label: 'Usage Offset', value: offsetPct === null ? '—' : `${offsetPct}%` },
+    { label: 'Year 1 Savings', value: formatUsd(analysis.estimatedMonthlySavings * 12) },
+  ];
+
+  const investment: Figure[] = [
+    { label: 'Gross System Cost', value: formatUsd(analysis.systemCost) },
+    { label: 'Federal Tax Credit (30% ITC)', value: formatUsd(-analysis.taxCredit30) },
+    { label: 'Net System Cost', value: formatUsd(analysis.netCost) },
+    { label: 'Estimated Monthly Payment', value: formatUsd(analysis.estimatedMonthlyPayment) },
+    { label: 'Estimated Monthly Savings', value: formatUsd(analysis.estimatedMonthlySavings) },
+  ];
+  const billBefore = analysis.estimatedUtilityBillBefore ?? lead.estimatedBill;
+  if (billBefore !== undefined) {
+    investment.push({ label: 'Average Utility Bill Today', value: formatUsd(billBefore) });
+  }
+  if (analysis.estimatedUtilityBillAfter !== undefined) {
+    investment.push({ label: 'Average Utility Bill With Solar', value: formatUsd(analysis.estimatedUtilityBillAfter) });
+  }
+
+  const financing = [
+    ['Option', 'Upfront', 'Monthly (Yr 1)', 'Escalator', '25-Yr Cost', '25-Yr Savings', 'Payback'],
+    ...financingOptions.map(option => [
+      `${option.name} (${FINANCING_TYPE_LABELS[option.type]}${option.termYears > 0 ? `, ${option.termYears} yrs` : ''})`,
+      formatUsd(option.upfrontCost),
+      formatUsd(option.monthlyPayment),
+      `${option.escalatorPct}%`,
+      formatUsd(option.totalCost25),
+      formatUsd(option.netSavings25),
+      option.paybackYear === null ? '—' : `Yr ${option.paybackYear}`,
+    ]),
+  ];
+
+  const bills = analysis.monthlyBillsBefore && analysis.monthlyBillsAfter
+    ? MONTH_LABELS.map((month, i) => [month, formatUsd(analysis.monthlyBillsBefore![i]), formatUsd(analysis.monthlyBillsAfter![i])])
+    : undefined;
+
+  return {
+    headline,
+    investment,
+    equipment: equipment
+      ? [
+          `${equipment.moduleQty} × ${equipment.moduleName} (${equipment.moduleWatts} W)`,
+          `${equipment.inverterQty} × ${equipment.inverterName}`,
+          ...(equipment.batteryQty > 0 ? [`${equipment.batteryQty} × ${equipment.batteryName}`] : []),
+        ].join(' • ')
+      : undefined,
+    narrative: `We have designed a ${analysis.systemSizeKw} kW system for ${lead.address} (${analysis.roofPitch} pitch, ${analysis.sunHoursPerDay} peak sun hours)${
+      analysis.annualProductionKwh ? ` that is projected to produce about ${analysis.annualProductionKwh.toLocaleString('en-US')} kWh in its first year` : ''
+    }. Figures below are the ones issued in this version of the proposal.`,
+    financing,
+    bills,
+  };
+}
+
+const FOOTNOTES = [
+  '25-year cost includes payments to the installer or financier plus the projected remaining utility bill, net of the federal tax credit where the homeowner owns the system.',
+  'Projections assume utility rate increases and panel degradation and are not a guarantee of savings.',
+];
+
+// ============================================================================
+// PDF
+// ============================================================================
+
+const MARGIN = 54;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const MUTED = '#64748b';
+
+function pdfFooter(doc: PdfDocument, version: Omit<ProposalVersion, 'pdfBase64' | 'pdfSha256'>, page: number, pages: number) {
+  doc.line(MARGIN, 750, PAGE_WIDTH - MARGIN, 750);
+  doc.text(
+    MARGIN,
+    764,
+    `${version.snapshot.brand.name} • Proposal ${version.id} • Version ${version.version} • Issued ${formatIssuedDate(version.issuedAt)}`,
+    { size: 7, color: MUTED }
+  );
+  doc.text(PAGE_WIDTH - MARGIN, 764, `Page ${page} of ${pages}`, { size: 7, color: MUTED, align: 'right' });
+}
+
+/**
+ * Render a version to PDF. Everything comes from the snapshot and version
+ * metadata, so the same version always produces the same bytes.
+ */
+export function renderProposalPdf(version: Omit<ProposalVersion, 'pdfBase64' | 'pdfSha256'>): Buffer {
+  const { snapshot } = version;
+  const { brand, lead } = snapshot;
+  const figures = proposalFigures(snapshot);
+  const doc = new PdfDocument({ title: `Solar Proposal - ${lead.name}`, author: brand.name, createdAt: version.issuedAt });
+
+  // PAGE 1: SUMMARY
+  doc.rect(0, 0, PAGE_WIDTH, 8, brand.primaryColor);
+  doc.text(MARGIN, 72, 'Solar Proposal', { size: 26, bold: true });
+  doc.text(MARGIN, 94, `Prepared for ${lead.name}`, { size: 11, color: MUTED });
+  doc.text(MARGIN, 110, lead.address, { size: 10, color: MUTED });
+  doc.text(PAGE_WIDTH - MARGIN, 66, brand.name, { size: 14, bold: true, align: 'right', color: brand.accentColor });
+  doc.text(PAGE_WIDTH - MARGIN, 84, formatIssuedDate(version.issuedAt), { size: 9, color: MUTED, align: 'right' });
+  doc.text(PAGE_WIDTH - MARGIN, 98, `Rep: ${snapshot.repName}`, { size: 9, color: MUTED, align: 'right' });
+  doc.text(PAGE_WIDTH - MARGIN, 112, `Version ${version.version}`, { size: 9, color: MUTED, align: 'right' });
+
+  const boxWidth = (CONTENT_WIDTH - 3 * 12) / 4;
+  figures.headline.forEach((figure, i) => {
+    const x = MARGIN + i * (boxWidth + 12);
+    doc.rect(x, 140, boxWidth, 64, '#f1f5f9');
+    doc.text(x + boxWidth / 2, 162, figure.label.toUpperCase(), { size: 7, bold: true, color: MUTED, align: 'center' });
+    doc.text(x + boxWidth / 2, 188, figure.value, { size: 15, bold: true, align: 'center' });
+  });
+
+  let y = doc.paragraph(MARGIN, 236, CONTENT_WIDTH, figures.narrative, { size: 10, color: '#334155' });
+
+  if (figures.equipment) {
+    y += 8;
+    doc.text(MARGIN, y, 'EQUIPMENT', { size: 8, bold: true, color: MUTED });
+    y = doc.paragraph(MARGIN, y + 14, CONTENT_WIDTH, figures.equipment, { size: 10 });
+  }
+
+  y += 16;
+  doc.text(MARGIN, y, 'Investment Summary', { size: 14, bold: true });
+  y += 10;
+  figures.investment.forEach(figure => {
+    y += 22;
+    doc.text(MARGIN, y, figure.label, { size: 10, color: '#334155' });
+    doc.text(PAGE_WIDTH - MARGIN, y, figure.value, { size: 10, bold: true, align: 'right' });
+    doc.line(MARGIN, y + 8, PAGE_WIDTH - MARGIN, y + 8, '#e2e8f0');
+  });
+  pdfFooter(doc, version, 1, 2);
+
+  // PAGE 2: FINANCING AND BILLS
+  doc.addPage();
+  doc.rect(0, 0, PAGE_WIDTH, 8, brand.primaryColor);
+  doc.text(MARGIN, 72, 'Financing Options', { size: 20, bold: true });
+  doc.text(MARGIN, 92, `Every way to pay for your ${snapshot.analysis.systemSizeKw} kW system, compared over 25 years.`, { size: 10, color: MUTED });
+
+  const columns = [MARGIN, 282, 336, 404, 452, 512, PAGE_WIDTH - MARGIN];
+  y = 124;
+  figures.financing.forEach((row, rowIndex) => {
+    const header = rowIndex === 0;
+    row.forEach((cell, i) => {
+      const options = { size: header ? 7 : 9, bold: header || i === 5, color: header ? MUTED : undefined };
+      if (i === 0) doc.text(columns[0], y, cell, options);
+      else doc.text(columns[i], y, cell, { ...options, align: 'right' });
+    });
+    doc.line(MARGIN, y + 7, PAGE_WIDTH - MARGIN, y + 7, header ? '#0f172a' : '#e2e8f0');
+    y += header ? 18 : 22;
+  });
+
+  if (figures.bills) {
+    y += 24;
+    doc.text(MARGIN, y, 'Your Utility Bill, Month by Month', { size: 12, bold: true });
+    y += 20;
+    const monthWidth = (CONTENT_WIDTH - 80) / 12;
+    doc.text(MARGIN, y + 16, 'Without solar', { size: 8, color: MUTED });
+    doc.text(MARGIN, y + 32, 'With solar', { size: 8, bold: true });
+    figures.bills.forEach(([month, before, after], i) => {
+      const x = MARGIN + 80 + (i + 1) * monthWidth;
+      doc.text(x, y, month, { size: 7, color: MUTED, align: 'right' });
+      doc.text(x, y + 16, before, { size: 8, align: 'right' });
+      doc.text(x, y + 32, after, { size: 8, bold: true, color: '#059669', align: 'right' });
+    });
+    y += 40;
+  }
+
+  y = Math.max(y + 32, 660);
+  FOOTNOTES.forEach(note => {
+    y = doc.paragraph(MARGIN, y, CONTENT_WIDTH, note, { size: 7, color: MUTED });
+  });
+  pdfFooter(doc, version, 2, 2);
+
+  return doc.toBuffer();
+}
+
+// ============================================================================
+// CUSTOMER VIEW
+// ============================================================================
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const safeColor = (color: string, fallback: string) => (/^#[0-9a-f]{6}$/i.test(color) ? color : fallback);
+
+/**
+ * Read-only page behind the customer link; `pdfUrl` downloads the issued PDF
+ */
+export function renderProposalHtml(version: ProposalVersion, pdfUrl: string): string {
+  const { snapshot } = version;
+  const figures = proposalFigures(snapshot);
+  const primary = safeColor(snapshot.brand.primaryColor, '#00ff99');
+  const accent = safeColor(snapshot.brand.accentColor, '#0044ff');
+  const table = (rows: string[][]) => `<table>${rows
+    .map((row, i) => `<tr>${row.map(cell => (i === 0 ? `<th>${escapeHtml(cell)}</th>` : `<td>${escapeHtml(cell)}</td>`)).join('')}</tr>`)
+    .join('')}</table>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>Solar Proposal - ${escapeHtml(snapshot.lead.name)}</title>
+<style>
+  body { font-family: Helvetica, Arial, sans-serif; color: #0f172a; margin: 0; background: #f1f5f9; }
+  main { max-width: 760px; margin: 0 auto; background: #fff; padding: 40px; border-top: 8px solid ${primary}; }
+  h1 { margin: 0; font-size: 28px; } h2 { font-size: 18px; margin-top: 32px; }
+  .muted { color: #64748b; font-size: 14px; } .brand { color: ${accent}; font-weight: bold; }
+  .grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(150px, 1fr)); gap: 12px; margin: 24px 0; }
+  .card { background: #f1f5f9; border-radius: 8px; padding: 16px; text-align: center; }
+  .card span { display: block; font-size: 11px; color: #64748b; text-transform: uppercase; font-weight: bold; }
+  .card strong { font-size: 20px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { padding: 8px 4px; border-bottom: 1px solid #e2e8f0; text-align: right; }
+  th:first-child, td:first-child { text-align: left; }
+  th { font-size: 11px; color: #64748b; text-transform: uppercase; border-bottom: 2px solid #0f172a; }
+  .download { display: inline-block; margin-top: 24px; padding: 10px 18px; background: ${accent}; color: #fff; border-radius: 6px; text-decoration: none; font-weight: bold; }
+  footer { margin-top: 32px; font-size: 11px; color: #94a3b8; word-break: break-all; }
+</style>
+</head>
+<body>
+<main>
+  <p class="brand">${escapeHtml(snapshot.brand.name)}</p>
+  <h1>Solar Proposal</h1>
+  <p class="muted">Prepared for ${escapeHtml(snapshot.lead.name)} • ${escapeHtml(snapshot.lead.address)}<br>
+  Issued ${escapeHtml(formatIssuedDate(version.issuedAt))} by ${escapeHtml(snapshot.repName)} • Version ${version.version}</p>
+  <div class="grid">${figures.headline
+    .map(f => `<div class="card"><span>${escapeHtml(f.label)}</span><strong>${escapeHtml(f.value)}</strong></div>`)
+    .join('')}</div>
+  <p>${escapeHtml(figures.narrative)}</p>
+  ${figures.equipment ? `<p class="muted"><strong>Equipment:</strong> ${escapeHtml(figures.equipment)}</p>` : ''}
+  <h2>Investment Summary</h2>
+  ${table([['Item', 'Amount'], ...figures.investment.map(f => [f.label, f.value])])}
+  <h2>Financing Options</h2>
+  ${table(figures.financing)}
+  ${figures.bills ? `<h2>Your Utility Bill, Month by Month</h2>${table([['Month', 'Without Solar', 'With Solar'], ...figures.bills])}` : ''}
+  <a class="download" href="${escapeHtml(pdfUrl)}">Download PDF</a>
+  <footer>
+    ${FOOTNOTES.map(note => `<p>${escapeHtml(note)}</p>`).join('')}
+    <p>Proposal ${escapeHtml(version.id)} • Version ${version.version} • PDF SHA-256 ${escapeHtml(version.pdfSha256)}</p>
+  </footer>
+</main>
+</body>
+</html>`;
+}
@@ -0,0 +1,193 @@
+// Server-side persistence - pluggable storage adapter behind every api/ handler
+// Records are stored as JSON documents keyed by (collection, companyId, id)
+
+import fs from 'node:fs';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type Collection =
+  | 'leads'
+  | 'projects'
+  | 'commissions'
+  | 'reps'
+  | 'installers'
+  | 'companies'
+  | 'settings'
+  | 'proposals'
+  | 'proposalViews'
+  | 'proposalLinks'
+  | 'contracts'
+  | 'payoutRuns'
+  | 'appointments'
+  | 'files';
+
+// Partition for records that are not owned by a single company (e.g. companies)
+export const GLOBAL_SCOPE = '_global';
+
+export interface StoredRecord {
+  id: string;
+  [key: string]: any;
+}
+
+export interface StorageAdapter {
+  list<T extends StoredRecord>(collection: Collection, companyId: string): Promise<T[]>;
+  get<T extends StoredRecord>(collection: Collection, companyId: string, id: string): Promise<T | null>;
+  put<T extends StoredRecord>(collection: Collection, companyId: string, record: T): Promise<T>;
+  putMany<T extends StoredRecord>(collection: Collection, companyId: string, records: T[]): Promise<T[]>;
+  replaceAll<T extends StoredRecord>(collection: Collection, companyId: string, records: T[]): Promise<T[]>;
+  remove(collection: Collection, companyId: string, id: string): Promise<boolean>;
+}
+
+// ============================================================================
+// SQLITE ADAPTER (default for local development)
+// ============================================================================
+
+export class SqliteStorageAdapter implements StorageAdapter {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS records (
+        collection TEXT NOT NULL,
+        company_id TEXT NOT NULL,
+        id TEXT NOT NULL,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (collection, company_id, id)
+      )
+    `);
+  }
+
+  async list<T extends StoredRecord>(collection: Collection, companyId: string): Promise<T[]> {
+    const rows = this.db
+      .prepare('SELECT data FROM records WHERE collection = ? AND company_id = ? ORDER BY rowid')
+      .all(collection, companyId) as { data: string }[];
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  async get<T extends StoredRecord>(collection: Collection, companyId: string, id: string): Promise<T | null> {
+    const row = this.db
+      .prepare('SELECT data FROM records WHERE collection = ? AND company_id = ? AND id = ?')
+      .get(collection, companyId, id) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async put<T extends StoredRecord>(collection: Collection, companyId: string, record: T): Promise<T> {
+    this.db
+      .prepare(`
+        INSERT INTO records (collection, company_id, id, data, updated_at)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT (collection, company_id, id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+      `)
+      .run(collection, companyId, record.id, JSON.stringify(record), new Date().toISOString());
+    return record;
+  }
+
+  async putMany<T extends StoredRecord>(collection: Collection, companyId: string, records: T[]): Promise<T[]> {
+    const insertAll = this.db.transaction((items: T[]) => {
+      items.forEach(record => this.put(collection, companyId, record));
+    });
+    insertAll(records);
+    return records;
+  }
+
+  async replaceAll<T extends StoredRecord>(collection: Collection, companyId: string, records: T[]): Promise<T[]> {
+    const replace = this.db.transaction((items: T[]) => {
+      this.db.prepare('DELETE FROM records WHERE collection = ? AND company_id = ?').run(collection, companyId);
+      items.forEach(record => this.put(collection, companyId, record));
+    });
+    replace(records);
+    return records;
+  }
+
+  async remove(collection: Collection, companyId: string, id: string): Promise<boolean> {
+    const result = this.db
+      .prepare('DELETE FROM records WHERE collection = ? AND company_id = ? AND id = ?')
+      .run(collection, companyId, id);
+    return result.changes > 0;
+  }
+}
+
+// ============================================================================
+// MEMORY ADAPTER (tests and ephemeral previews)
+// ============================================================================
+
+export class MemoryStorageAdapter implements StorageAdapter {
+  private data = new Map<string, Map<string, StoredRecord>>();
+
+  private bucket(collection: Collection, companyId: string): Map<string, StoredRecord> {
+    const key = `${collection}:${companyId}`;
+    if (!this.data.has(key)) {
+      this.data.set(key, new Map());
+    }
+    return this.data.get(key)!;
+  }
+
+  async list<T extends StoredRecord>(collection: Collection, companyId: string): Promise<T[]> {
+    return Array.from(this.bucket(collection, companyId).values()) as T[];
+  }
+
+  async get<T extends StoredRecord>(collection: Collection, companyId: string, id: string): Promise<T | null> {
+    return (this.bucket(collection, companyId).get(id) as T) || null;
+  }
+
+  async put<T extends StoredRecord>(collection: Collection, companyId: string, record: T): Promise<T> {
+    this.bucket(collection, companyId).set(record.id, record);
+    return record;
+  }
+
+  async putMany<T extends StoredRecord>(collection: Collection, companyId: string, records: T[]): Promise<T[]> {
+    records.forEach(record => this.bucket(collection, companyId).set(record.id, record));
+    return records;
+  }
+
+  async replaceAll<T extends StoredRecord>(collection: Collection, companyId: string, records: T[]): Promise<T[]> {
+    this.bucket(collection, companyId).clear();
+    return this.putMany(collection, companyId, records);
+  }
+
+  async remove(collection: Collection, companyId: string, id: string): Promise<boolean> {
+    return this.bucket(collection, companyId).delete(id);
+  }
+}
+
+// ============================================================================
+// ADAPTER SELECTION
+// ============================================================================
+
+// STORAGE_DRIVER: 'sqlite' (default) | 'memory'
+// SQLITE_PATH: database file, defaults to ./data/primus.sqlite
+const DEFAULT_SQLITE_PATH = path.join(process.cwd(), 'data', 'primus.sqlite');
+
+let storage: StorageAdapter | null = null;
+
+export function getStorage(): StorageAdapter {
+  if (!storage) {
+    const driver = process.env.STORAGE_DRIVER || 'sqlite';
+    switch (driver) {
+      case 'memory':
+        storage = new MemoryStorageAdapter();
+        break;
+      case 'sqlite':
+        storage = new SqliteStorageAdapter(process.env.SQLITE_PATH || DEFAULT_SQLITE_PATH);
+        break;
+      default:
+        throw new Error(`Unknown STORAGE_DRIVER "${driver}"`);
+    }
+  }
+  return storage;
+}
+
+// Swap the adapter (e.g. a hosted database in production)
+export function setStorage(adapter: StorageAdapter): void {
+  storage = adapter;
+}
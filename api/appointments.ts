@@ -0,0 +1,137 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getStorage } from './_lib/storage';
+import { sendData, sendError, queryParam, parseBody } from './_lib/http';
+import { requireAuth } from './_lib/auth';
+import { getCompanyAppointmentSettings, saveCompanyAppointmentSettings } from './_lib/appointments';
+import type { Permission } from '../services/rbac';
+import type { Lead, Rep } from '../types';
+import type { FieldError } from '../schema';
+import { AppointmentSettingsSchema, AppointmentBookingSchema, AppointmentOutcomeSchema } from '../schema';
+import { bookSlot, dueReminders, recordOutcome, type Appointment } from '../services/appointmentBooking';
+
+function permissionFor(req: VercelRequest): Permission {
+  const action = queryParam(req, 'action');
+  switch (req.method) {
+    case 'GET': return 'VIEW_LEADS';
+    case 'POST': return 'CREATE_LEADS';
+    default:
+      if (action === 'settings') return 'COMPANY_SETTINGS';
+      return 'VIEW_LEADS';
+  }
+}
+
+// Bookings are checked here against every setter's appointments, so two
+// setters can't give a closer the same time
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const context = requireAuth(req, res, permissionFor(req));
+  if (!context) return;
+
+  const storage = getStorage();
+  const { companyId } = context;
+  const id = queryParam(req, 'id');
+  const action = queryParam(req, 'action');
+  const body = req.body || {};
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        if (action === 'settings') {
+          return sendData(res, await getCompanyAppointmentSettings(companyId));
+        }
+        const appointments = (await storage.list<Appointment>('appointments', companyId))
+          .sort((a, b) => a.startAt.localeCompare(b.startAt));
+        return sendData(res, appointments, { total: appointments.length });
+      }
+
+      case 'POST': {
+        const request = parseBody(res, AppointmentBookingSchema, body);
+        if (!request) return;
+        const lead = await storage.get<Lead>('leads', companyId, request.leadId);
+        if (!lead) {
+          return sendError(res, 404, 'Lead not found');
+        }
+        const settings = await getCompanyAppointmentSettings(companyId);
+        const closer = await storage.get<Rep>('reps', companyId, request.slot.repId);
+        if (!closer) {
+          return sendError(res, 404, 'Closer not found');
+        }
+        if (!closer.isActive || !settings.windows.some(w => w.repId === closer.id)) {
+          return sendError(res, 400, `${closer.name} isn't taking appointments`);
+        }
+        // The user is credited as setter when they're one of the company's reps
+        const setter = await storage.get<Rep>('reps', companyId, context.userId);
+        let booked: ReturnType<typeof bookSlot>;
+        try {
+          booked = bookSlot(
+            await storage.list<Appointment>('appointments', companyId),
+            lead,
+            request.slot,
+            closer,
+            setter ? setter.id : null
+          );
+        } catch (error) {
+          return sendError(res, 409, error instanceof Error ? error.message : 'Invalid booking');
+        }
+        await storage.putMany('appointments', companyId, booked.changed);
+        // The round-robin moves on to the closer
+        await saveCompanyAppointmentSettings(companyId, { ...settings, lastAssignedRepId: closer.id });
+        return sendData(res, { appointment: booked.appointment, appointments: booked.changed }, undefined, 201);
+      }
+
+      case 'PUT':
+      case 'PATCH': {
+        if (action === 'settings') {
+          const settings = parseBody(res, AppointmentSettingsSchema, body);
+          if (!settings) return;
+          const invalid: FieldError[] = [
+            ...settings.windows.flatMap((w, i) => (w.end <= w.start ? [{ path: `windows[${i}].end`, message: 'Window ends before it starts' }] : [])),
+            ...settings.rules.flatMap((r, i) => (r.repIds.length === 0 ? [{ path: `rules[${i}].repIds`, message: 'Rule has no closers' }] : [])),
+          ];
+          if (invalid.length > 0) {
+            return sendError(res, 400, 'Validation failed', invalid);
+          }
+          // Keep the round-robin position, which moves as appointments are booked
+          const current = await getCompanyAppointmentSettings(companyId);
+          return sendData(res, await saveCompanyAppointmentSettings(companyId, { ...settings, lastAssignedRepId: current.lastAssignedRepId }));
+        }
+
+        if (action === 'reminders') {
+          // Stamped here so each appointment is reminded once, whichever device asks
+          const now = new Date();
+          const settings = await getCompanyAppointmentSettings(companyId);
+          const due = dueReminders(await storage.list<Appointment>('appointments', companyId), settings, now)
+            .map(a => ({ ...a, reminderSentAt: now.toISOString() }));
+          await storage.putMany('appointments', companyId, due);
+          return sendData(res, due);
+        }
+
+        if (action !== 'status') {
+          return sendError(res, 400, 'Invalid action');
+        }
+        if (!id) {
+          return sendError(res, 400, 'Appointment ID is required');
+        }
+        const outcome = parseBody(res, AppointmentOutcomeSchema, body);
+        if (!outcome) return;
+        const existing = await storage.get<Appointment>('appointments', companyId, id);
+        if (!existing) {
+          return sendError(res, 404, 'Appointment not found');
+        }
+        let updated: Appointment;
+        try {
+          updated = recordOutcome(existing, outcome.status);
+        } catch (error) {
+          return sendError(res, 409, error instanceof Error ? error.message : 'Invalid outcome');
+        }
+        await storage.put('appointments', companyId, updated);
+        return sendData(res, updated);
+      }
+
+      default:
+        return sendError(res, 405, `Method ${req.method} not allowed`);
+    }
+  } catch (error) {
+    console.error('Appointments API error:', error);
+    return sendError(res, 500, 'Failed to process appointments request');
+  }
+}
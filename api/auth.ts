@@ -0,0 +1,86 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getStorage, GLOBAL_SCOPE } from './_lib/storage';
+import { sendData, sendError, queryParam, generateId } from './_lib/http';
+import { issueToken, verifyPassword, hashPassword, getRequestContext } from './_lib/auth';
+import type { Rep } from '../types';
+
+type StoredRep = Rep & { passwordHash?: string };
+
+function createSession(rep: StoredRep, companyId: string) {
+  const { token, expiresAt } = issueToken({ userId: rep.id, companyId, role: rep.role });
+  return {
+    token,
+    expiresAt,
+    user: { id: rep.id, name: rep.name, email: rep.email, role: rep.role, companyId },
+  };
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const storage = getStorage();
+  const action = queryParam(req, 'action');
+  const body = req.body || {};
+
+  try {
+    switch (req.method) {
+      // GET /api/auth - current session context
+      case 'GET': {
+        const context = getRequestContext(req);
+        if (!context) {
+          return sendError(res, 401, 'Authentication required');
+        }
+        const rep = await storage.get<StoredRep>('reps', context.companyId, context.userId);
+        if (!rep || !rep.isActive) {
+          return sendError(res, 401, 'User is no longer active');
+        }
+        return sendData(res, { ...context, name: rep.name, email: rep.email });
+      }
+
+      case 'POST': {
+        const { companyId, email, password } = body;
+        if (!companyId || !email || !password) {
+          return sendError(res, 400, 'companyId, email and password are required');
+        }
+        const reps = await storage.list<StoredRep>('reps', companyId);
+
+        // POST /api/auth?action=register - first admin of a new company
+        if (action === 'register') {
+          if (reps.length > 0) {
+            return sendError(res, 409, 'Company already has users; ask an admin for an invite');
+          }
+          const admin: StoredRep = {
+            id: generateId(),
+            name: body.name || 'Admin User',
+            email: String(email).toLowerCase(),
+            phone: '',
+            role: 'admin',
+            teamId: null,
+            hireDate: new Date().toISOString(),
+            isActive: true,
+            passwordHash: hashPassword(String(password)),
+          };
+          await storage.put('reps', companyId, admin);
+          await storage.put('companies', GLOBAL_SCOPE, {
+            id: companyId,
+            name: body.companyName || 'My Solar Company',
+            createdAt: new Date().toISOString(),
+            updatedAt: new Date().toISOString(),
+          });
+          return sendData(res, createSession(admin, companyId), undefined, 201);
+        }
+
+        // POST /api/auth - login
+        const rep = reps.find(r => r.email?.toLowerCase() === String(email).toLowerCase());
+        if (!rep || !rep.isActive || !verifyPassword(String(password), rep.passwordHash)) {
+          return sendError(res, 401, 'Invalid email or password');
+        }
+        return sendData(res, createSession(rep, companyId));
+      }
+
+      default:
+        return sendError(res, 405, `Method ${req.method} not allowed`);
+    }
+  } catch (error) {
+    console.error('Auth API error:', error);
+    return sendError(res, 500, 'Failed to process auth request');
+  }
+}
@@ -1,26 +1,25 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-
-interface BusinessInsight {
-  id: string;
-  type: "OPPORTUNITY" | "RISK" | "TREND";
-  title: string;
-  description: string;
-  actionItem: string;
-  impactScore: number;
-}
+import { requireAuth } from './_lib/auth';
+import type { BusinessInsight } from '../types';
+import { getCompanyLeadPipeline } from './_lib/leadPipeline';
+import { leadStatusOutcome } from '../services/leadStatuses';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  const context = requireAuth(req, res, 'VIEW_ANALYTICS');
+  if (!context) return;
+
   try {
     const body = req.body || {};
     const leads = body.leads || [];
     const commissions = body.commissions || [];
 
     const totalPipeline = leads.length;
-    const won = leads.filter((l: any) => l.status === 'CLOSED_WON').length;
+    const pipeline = await getCompanyLeadPipeline(context.companyId);
+    const won = leads.filter((l: any) => leadStatusOutcome(l.status, pipeline) === 'won').length;
     const revenue = commissions.reduce((sum: number, c: any) => sum + (c.amountUsd || 0), 0);
 
     // Generate static insights based on data
@@ -0,0 +1,143 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getStorage } from './_lib/storage';
+import { sendData, sendError, queryParam, paginate, newRecordId, clearFields, parseBody } from './_lib/http';
+import { requireAuth } from './_lib/auth';
+import type { Permission } from '../services/rbac';
+import type { Commission } from '../types';
+import { CommissionSchema, array } from '../schema';
+
+function applyFilters(req: VercelRequest, commissions: Commission[]): Commission[] {
+  const repId = queryParam(req, 'repId');
+  const status = queryParam(req, 'status');
+  const dateFrom = queryParam(req, 'dateFrom');
+  const dateTo = queryParam(req, 'dateTo');
+
+  return commissions.filter(c => {
+    if (repId && c.repId !== repId) return false;
+    if (status && c.status !== status) return false;
+    if (dateFrom && (!c.createdAt || new Date(c.createdAt) < new Date(dateFrom))) return false;
+    if (dateTo && (!c.createdAt || new Date(c.createdAt) > new Date(dateTo))) return false;
+    return true;
+  });
+}
+
+function permissionFor(req: VercelRequest): Permission {
+  if (req.method === 'GET') return 'VIEW_COMMISSIONS';
+  switch (queryParam(req, 'action')) {
+    case 'approve':
+    case 'bulkApprove':
+      return 'APPROVE_COMMISSIONS';
+    case 'markPaid':
+      return 'PAY_COMMISSIONS';
+    default:
+      return 'MODIFY_COMMISSIONS';
+  }
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const context = requireAuth(req, res, permissionFor(req));
+  if (!context) return;
+
+  const storage = getStorage();
+  const { companyId } = context;
+  const id = queryParam(req, 'id');
+  const action = queryParam(req, 'action');
+  const body = req.body || {};
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        if (id) {
+          const commission = await storage.get<Commission>('commissions', companyId, id);
+          return commission ? sendData(res, commission) : sendError(res, 404, 'Commission not found');
+        }
+        const commissions = applyFilters(req, await storage.list<Commission>('commissions', companyId));
+        const { data, meta } = paginate(req, commissions);
+        return sendData(res, data, meta);
+      }
+
+      case 'POST': {
+        const commission = parseBody(res, CommissionSchema, {
+          status: 'PENDING',
+          createdAt: new Date().toISOString(),
+          ...body,
+          id: newRecordId(body),
+          companyId,
+        });
+        if (!commission) return;
+        if (await storage.get('commissions', companyId, commission.id)) {
+          return sendError(res, 409, 'A commission with this ID already exists');
+        }
+        await storage.put('commissions', companyId, commission);
+        return sendData(res, commission, undefined, 201);
+      }
+
+      case 'PUT':
+      case 'PATCH': {
+        const now = new Date().toISOString();
+        // Lines in a payout run change status only through api/payout-runs
+        const locked = () => sendError(res, 409, 'Commission is locked in a payout run; pay or void the run instead');
+
+        if (action === 'replace') {
+          const incoming = (body.commissions || []).map((c: Commission) => ({ ...c, companyId }));
+          const commissions = parseBody(res, array(CommissionSchema), incoming);
+          if (!commissions) return;
+          const replacing = new Map(commissions.map(c => [c.id, c]));
+          const lockedLines = (await storage.list<Commission>('commissions', companyId)).filter(c => c.payoutRunId);
+          if (lockedLines.some(c => replacing.get(c.id)?.status !== c.status || replacing.get(c.id)?.payoutRunId !== c.payoutRunId)) {
+            return locked();
+          }
+          await storage.replaceAll('commissions', companyId, commissions);
+          return sendData(res, commissions, { total: commissions.length });
+        }
+
+        if (action === 'bulkApprove') {
+          const ids: string[] = Array.isArray(body.ids) ? body.ids : [];
+          const commissions = await storage.list<Commission>('commissions', companyId);
+          const approved = commissions
+            .filter(c => ids.includes(c.id) && c.status === 'PENDING')
+            .map(c => ({ ...c, status: 'APPROVED' as const, approvedAt: now }));
+          await storage.putMany('commissions', companyId, approved);
+          return sendData(res, approved);
+        }
+
+        if (!id) {
+          return sendError(res, 400, 'Commission ID is required');
+        }
+        const existing = await storage.get<Commission>('commissions', companyId, id);
+        if (!existing) {
+          return sendError(res, 404, 'Commission not found');
+        }
+
+        let commission: Commission;
+        if (!action) {
+          const updated = parseBody(res, CommissionSchema, clearFields(req, { ...existing, ...body, id, companyId }));
+          if (!updated) return;
+          if (updated.payoutRunId !== existing.payoutRunId) {
+            return sendError(res, 409, 'Commissions join and leave payout runs through the run');
+          }
+          if (existing.payoutRunId && updated.status !== existing.status) return locked();
+          commission = updated;
+        } else if (action === 'approve') {
+          if (existing.status !== 'PENDING') {
+            return sendError(res, 409, `Only pending commissions can be approved (this one is ${existing.status})`);
+          }
+          commission = { ...existing, status: 'APPROVED', approvedAt: now };
+        } else if (action === 'markPaid') {
+          if (existing.payoutRunId) return locked();
+          commission = { ...existing, status: 'PAID', paidAt: now };
+        } else {
+          return sendError(res, 400, 'Invalid action');
+        }
+        await storage.put('commissions', companyId, commission);
+        return sendData(res, commission);
+      }
+
+      default:
+        return sendError(res, 405, `Method ${req.method} not allowed`);
+    }
+  } catch (error) {
+    console.error('Commissions API error:', error);
+    return sendError(res, 500, 'Failed to process commissions request');
+  }
+}
@@ -0,0 +1,143 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getStorage, GLOBAL_SCOPE } from './_lib/storage';
+import { sendData, sendError, queryParam, parseBody } from './_lib/http';
+import { requireAuth } from './_lib/auth';
+import { getCompanyPricing, saveCompanyPricing } from './_lib/pricing';
+import { getCompanyEquipment, saveCompanyEquipment } from './_lib/equipment';
+import { getCompanyContractTemplates, saveCompanyContractTemplates } from './_lib/contracts';
+import { getCompanyRuleVersions, saveCompanyRuleVersion } from './_lib/commissionRules';
+import { getCompanyLeadPipeline, saveCompanyLeadPipeline } from './_lib/leadPipeline';
+import { getCompanyPipeline, saveCompanyPipeline } from './_lib/projectPipeline';
+import { unknownMergeFields } from '../services/contractTemplates';
+import { validateCondition } from '../services/commissionRules';
+import { validateLeadPipeline } from '../services/leadStatuses';
+import { PricingConfigSchema, EquipmentCatalogSchema, ContractTemplateConfigSchema, CommissionRulesSchema, LeadPipelineConfigSchema, PipelineStagesSchema } from '../schema';
+
+const SETTINGS_ID = 'settings';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const context = requireAuth(req, res, req.method === 'GET' ? undefined : 'COMPANY_SETTINGS');
+  if (!context) return;
+
+  // Callers are always scoped to the company in their session
+  const { companyId } = context;
+  const requestedId = queryParam(req, 'id');
+  if (requestedId && requestedId !== companyId) {
+    return sendError(res, 403, 'Access to this company is not allowed');
+  }
+
+  const storage = getStorage();
+  const action = queryParam(req, 'action');
+  const body = req.body || {};
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        if (action === 'all') {
+          const company = await storage.get('companies', GLOBAL_SCOPE, companyId);
+          const companies = company ? [company] : [];
+          return sendData(res, companies, { total: companies.length });
+        }
+        if (action === 'settings') {
+          const stored = await storage.get('settings', companyId, SETTINGS_ID);
+          const { id: _id, ...settings } = stored || { id: SETTINGS_ID };
+          return sendData(res, settings);
+        }
+        if (action === 'pricing') {
+          return sendData(res, await getCompanyPricing(companyId));
+        }
+        if (action === 'equipment') {
+          return sendData(res, await getCompanyEquipment(companyId));
+        }
+        if (action === 'contractTemplates') {
+          return sendData(res, await getCompanyContractTemplates(companyId));
+        }
+        if (action === 'commissionRules') {
+          return sendData(res, await getCompanyRuleVersions(companyId));
+        }
+        if (action === 'leadPipeline') {
+          return sendData(res, await getCompanyLeadPipeline(companyId));
+        }
+        if (action === 'pipeline') {
+          return sendData(res, await getCompanyPipeline(companyId));
+        }
+        const company = await storage.get('companies', GLOBAL_SCOPE, companyId);
+        return company ? sendData(res, company) : sendError(res, 404, 'No company selected');
+      }
+
+      case 'PUT':
+      case 'PATCH': {
+        if (action === 'settings') {
+          await storage.put('settings', companyId, { ...body, id: SETTINGS_ID });
+          return sendData(res, body);
+        }
+        if (action === 'pricing') {
+          const pricing = parseBody(res, PricingConfigSchema, body);
+          if (!pricing) return;
+          return sendData(res, await saveCompanyPricing(companyId, pricing));
+        }
+        if (action === 'equipment') {
+          const catalog = parseBody(res, EquipmentCatalogSchema, body);
+          if (!catalog) return;
+          return sendData(res, await saveCompanyEquipment(companyId, catalog));
+        }
+        if (action === 'contractTemplates') {
+          const config = parseBody(res, ContractTemplateConfigSchema, body);
+          if (!config) return;
+          const unknown = config.templates.flatMap((template, i) => unknownMergeFields(`${template.title}\n${template.body}`)
+            .map(field => ({ path: `templates[${i}]`, message: `Unknown merge field {{${field}}}` })));
+          if (unknown.length > 0) {
+            return sendError(res, 400, 'Validation failed', unknown);
+          }
+          return sendData(res, await saveCompanyContractTemplates(companyId, config));
+        }
+        if (action === 'commissionRules') {
+          const rules = parseBody(res, CommissionRulesSchema, body);
+          if (!rules) return;
+          const invalid = rules.bonuses.flatMap((bonus, i) => {
+            const message = bonus.condition && typeof bonus.condition === 'object'
+              ? validateCondition(bonus.condition)
+              : 'Expected a condition';
+            return message ? [{ path: `bonuses[${i}].condition`, message }] : [];
+          });
+          if (invalid.length > 0) {
+            return sendError(res, 400, 'Validation failed', invalid);
+          }
+          return sendData(res, await saveCompanyRuleVersion(companyId, rules));
+        }
+        if (action === 'leadPipeline') {
+          const pipeline = parseBody(res, LeadPipelineConfigSchema, body);
+          if (!pipeline) return;
+          const problems = validateLeadPipeline(pipeline);
+          if (problems.length > 0) {
+            return sendError(res, 400, 'Validation failed', problems.map(message => ({ path: 'statuses', message })));
+          }
+          return sendData(res, await saveCompanyLeadPipeline(companyId, pipeline));
+        }
+        if (action === 'pipeline') {
+          const stages = parseBody(res, PipelineStagesSchema, body);
+          if (!stages) return;
+          if (stages.length === 0) {
+            return sendError(res, 400, 'Validation failed', [{ path: '(root)', message: 'Add at least one stage' }]);
+          }
+          return sendData(res, await saveCompanyPipeline(companyId, stages));
+        }
+        const existing = await storage.get('companies', GLOBAL_SCOPE, companyId);
+        const company = {
+          ...existing,
+          ...body,
+          id: companyId,
+          updatedAt: new Date().toISOString(),
+        };
+        await storage.put('companies', GLOBAL_SCOPE, company);
+        return sendData(res, company);
+      }
+
+      default:
+        return sendError(res, 405, `Method ${req.method} not allowed`);
+    }
+  } catch (error) {
+    console.error('Company API error:', error);
+    return sendError(res, 500, 'Failed to process company request');
+  }
+}
@@ -1,26 +1,23 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-
-interface ComplianceAnalysis {
-  score: number;
-  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
-  flags: string[];
-  recommendations: string[];
-  disclaimerRequired: boolean;
-}
+import { requireAuth } from './_lib/auth';
+import type { ComplianceAnalysis } from '../types';
+import { AnalysisRequestSchema, validate } from '../schema';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  if (!requireAuth(req, res, 'USE_BLINDSPOT_DETECTOR')) return;
+
   try {
     const body = req.body || {};
-    const lead = body.lead;
-    const analysis = body.analysis;
+    const parsed = validate(AnalysisRequestSchema, body);
 
-    if (!lead || !analysis) {
-      return res.status(400).json({ error: 'Invalid request: lead and analysis required' });
+    if (!parsed.ok) {
+      return res.status(400).json({ error: 'Invalid request: lead and analysis required', errors: parsed.errors });
     }
+    const { lead, analysis } = parsed.value;
 
     const flags: string[] = [];
     const recommendations: string[] = [];
@@ -0,0 +1,221 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createHash } from 'node:crypto';
+import { getStorage } from './_lib/storage';
+import { sendData, sendError, queryParam, parseBody, generateId } from './_lib/http';
+import { requireAuth } from './_lib/auth';
+import { getCompanyContractTemplates } from './_lib/contracts';
+import { renderContractPdf, renderSignedContractPdf } from './_lib/contractDocument';
+import type { Contract, ContractEvent, ContractSigner, Lead, ProposalVersion } from '../types';
+import { ContractRequestSchema, ContractSignRequestSchema } from '../schema';
+import { buildMergeData, getContractTemplate, mergeTemplate } from '../services/contractTemplates';
+
+// Upper bound on captured pen points per signature, to keep records small
+const MAX_SIGNATURE_POINTS = 5000;
+
+function requestEvidence(req: VercelRequest): Pick<ContractEvent, 'ip' | 'userAgent'> {
+  const forwarded = req.headers['x-forwarded-for'];
+  return {
+    ip: (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim() || req.socket?.remoteAddress,
+    userAgent: typeof req.headers['user-agent'] === 'string' ? req.headers['user-agent'].slice(0, 300) : undefined,
+  };
+}
+
+const sha256 = (pdf: Buffer) => createHash('sha256').update(pdf).digest('hex');
+
+// The signed PDF is only sent on request
+function withoutPdf(contract: Contract): Contract {
+  const { signedPdfBase64: _pdf, ...rest } = contract;
+  return rest;
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const action = queryParam(req, 'action');
+  const permission = req.method === 'GET' ? 'VIEW_LEADS' : action === 'void' ? 'VOID_CONTRACTS' : 'SEND_CONTRACTS';
+  const context = requireAuth(req, res, permission);
+  if (!context) return;
+
+  const storage = getStorage();
+  const { companyId } = context;
+  const id = queryParam(req, 'id');
+  const leadId = queryParam(req, 'leadId');
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        if (id) {
+          const contract = await storage.get<Contract>('contracts', companyId, id);
+          if (!contract) return sendError(res, 404, 'Contract not found');
+          if (queryParam(req, 'format') === 'pdf') {
+            const pdf = contract.signedPdfBase64 ? Buffer.from(contract.signedPdfBase64, 'base64') : renderContractPdf(contract);
+            res.setHeader('Content-Type', 'application/pdf');
+            res.setHeader('Content-Disposition', `inline; filename="contract-${contract.leadId}${contract.signedPdfBase64 ? '-signed' : ''}.pdf"`);
+            return res.status(200).send(pdf);
+          }
+          return sendData(res, withoutPdf(contract));
+        }
+        const contracts = (await storage.list<Contract>('contracts', companyId))
+          .filter(c => !leadId || c.leadId === leadId)
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+        return sendData(res, contracts.map(withoutPdf), { total: contracts.length });
+      }
+
+      case 'POST': {
+        if (action === 'sign') return await handleSign(req, res, companyId, context.userId);
+        if (action === 'void') {
+          const contract = id && await storage.get<Contract>('contracts', companyId, id);
+          if (!contract) return sendError(res, 404, 'Contract not found');
+          if (contract.status !== 'out_for_signature') {
+            return sendError(res, 409, `A ${contract.status.replace(/_/g, ' ')} contract cannot be voided`);
+          }
+          const voided: Contract = {
+            ...contract,
+            status: 'voided',
+            events: [...contract.events, { at: new Date().toISOString(), type: 'voided', userId: context.userId, ...requestEvidence(req) }],
+          };
+          await storage.put('contracts', companyId, voided);
+          return sendData(res, withoutPdf(voided));
+        }
+
+        const request = parseBody(res, ContractRequestSchema, req.body || {});
+        if (!request) return;
+        // Price and terms are the ones the homeowner was shown in the issued
+        // proposal; name and contact details are the lead's as stored now
+        const proposal = await storage.get<ProposalVersion>('proposals', companyId, request.proposalId);
+        if (!proposal) {
+          return sendError(res, 404, 'Proposal not found');
+        }
+        const lead = await storage.get<Lead>('leads', companyId, proposal.leadId);
+        if (!lead) {
+          return sendError(res, 404, 'Lead not found');
+        }
+        const { analysis } = proposal.snapshot;
+        const template = getContractTemplate(await getCompanyContractTemplates(companyId), request.templateId);
+        if (!template || (request.templateId && template.id !== request.templateId)) {
+          return sendError(res, 400, 'Contract template not found');
+        }
+        const financing = request.financingOptionId
+          ? proposal.snapshot.financingOptions.find(option => option.id === request.financingOptionId)
+          : undefined;
+        if (request.financingOptionId && !financing) {
+          return sendError(res, 400, 'Financing option not found in the proposal');
+        }
+
+        const now = new Date();
+        const mergeData = buildMergeData(lead, analysis, {
+          coHomeownerName: request.coHomeowner?.name,
+          repName: request.rep.name,
+          companyName: request.companyName || 'Primus Home Pro',
+        }, now);
+        let title: string;
+        let body: string;
+        try {
+          title = mergeTemplate(template.title, mergeData);
+          body = mergeTemplate(template.body, mergeData);
+        } catch (error) {
+          return sendError(res, 400, error instanceof Error ? error.message : 'Template could not be merged');
+        }
+
+        const signers: ContractSigner[] = [
+          { id: generateId(), role: 'homeowner', name: lead.name, email: lead.email },
+          ...(request.coHomeowner ? [{ id: generateId(), role: 'co_homeowner' as const, ...request.coHomeowner }] : []),
+          { id: generateId(), role: 'rep', ...request.rep },
+        ];
+        const draft: Contract = {
+          id: generateId(),
+          leadId: lead.id,
+          templateId: template.id,
+          title,
+          body,
+          proposalId: proposal.id,
+          proposalVersion: proposal.version,
+          financingOptionId: financing?.id,
+          financingType: financing?.type,
+          documentSha256: '',
+          signers,
+          status: 'out_for_signature',
+          events: [{ at: now.toISOString(), type: 'created', userId: context.userId, ...requestEvidence(req) }],
+          createdAt: now.toISOString(),
+          createdBy: context.userId,
+          companyId,
+        };
+        const contract: Contract = { ...draft, documentSha256: sha256(renderContractPdf(draft)) };
+        await storage.put('contracts', companyId, contract);
+        return sendData(res, contract, undefined, 201);
+      }
+
+      default:
+        return sendError(res, 405, `Method ${req.method} not allowed`);
+    }
+  } catch (error) {
+    console.error('Contracts API error:', error);
+    return sendError(res, 500, 'Failed to process contracts request');
+  }
+}
+
+/**
+ * Record one signer's consent and signature. Signers go in order; the last
+ * signature completes the contract and renders the signed PDF.
+ */
+async function handleSign(req: VercelRequest, res: VercelResponse, companyId: string, userId: string) {
+  const storage = getStorage();
+  const id = queryParam(req, 'id');
+  const contract = id && await storage.get<Contract>('contracts', companyId, id);
+  if (!contract) return sendError(res, 404, 'Contract not found');
+  if (contract.status !== 'out_for_signature') {
+    return sendError(res, 409, `This contract is ${contract.status.replace(/_/g, ' ')}`);
+  }
+
+  const request = parseBody(res, ContractSignRequestSchema, req.body || {});
+  if (!request) return;
+  if (!request.consent) {
+    return sendError(res, 400, 'Consent to sign electronically is required');
+  }
+  if (request.documentSha256 !== contract.documentSha256) {
+    return sendError(res, 409, 'The document has changed since it was shown to the signer');
+  }
+  const points = request.strokes.reduce((sum, stroke) => sum + stroke.length, 0);
+  if (points === 0 || points > MAX_SIGNATURE_POINTS) {
+    return sendError(res, 400, points === 0 ? 'A drawn signature is required' : 'Signature is too large');
+  }
+
+  const next = contract.signers.find(s => !s.signedAt);
+  if (!next || next.id !== request.signerId) {
+    return sendError(res, 409, next ? `Waiting on ${next.name} to sign first` : 'Every signer has already signed');
+  }
+
+  const at = new Date().toISOString();
+  const evidence = requestEvidence(req);
+  const signer: ContractSigner = {
+    ...next,
+    consentedAt: at,
+    signedAt: at,
+    typedName: request.typedName.trim(),
+    strokes: request.strokes,
+    ...evidence,
+  };
+  const signers = contract.signers.map(s => (s.id === signer.id ? signer : s));
+  const events: ContractEvent[] = [
+    ...contract.events,
+    { at, type: 'consented', signerId: signer.id, userId, ...evidence },
+    { at, type: 'signed', signerId: signer.id, userId, ...evidence },
+  ];
+  let updated: Contract = { ...contract, signers, events };
+
+  if (signers.every(s => s.signedAt)) {
+    updated = {
+      ...updated,
+      status: 'completed',
+      completedAt: at,
+      events: [...events, { at, type: 'completed' }],
+    };
+    const pdf = renderSignedContractPdf(updated);
+    updated = { ...updated, signedPdfBase64: pdf.toString('base64'), signedPdfSha256: sha256(pdf) };
+  }
+
+  await storage.put('contracts', companyId, updated);
+  if (updated.status === 'completed') {
+    const lead = await storage.get<Lead>('leads', companyId, updated.leadId);
+    if (lead) await storage.put('leads', companyId, { ...lead, signedContractId: updated.id });
+  }
+  return sendData(res, withoutPdf(updated));
+}
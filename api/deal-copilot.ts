@@ -1,6 +1,6 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-
-type ProjectStage = 'SITE_SURVEY' | 'DESIGN' | 'PERMITTING' | 'INSTALL' | 'INSPECTION' | 'PTO';
+import { requireAuth } from './_lib/auth';
+import type { ProjectStage } from '../types';
 
 interface ObjectionRebuttal {
   objection: string;
@@ -50,6 +50,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  if (!requireAuth(req, res, 'USE_DEAL_COACHING')) return;
+
   try {
     const body = req.body || {};
     const lead = body.lead;
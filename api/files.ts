@@ -0,0 +1,73 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getStorage } from './_lib/storage';
+import { sendData, sendError, queryParam, generateId, parseBody } from './_lib/http';
+import { requireAuth } from './_lib/auth';
+import type { StoredFile } from '../types';
+import { FileUploadSchema } from '../schema';
+
+// Survey photos and utility letters; comfortably under the request body limit
+// once base64-encoded
+const MAX_FILE_BYTES = 3 * 1024 * 1024;
+
+const DATA_URL = /^data:[^;,]*;base64,/;
+
+// Size of a base64 data URL's content once decoded
+function decodedBytes(dataUrl: string): number {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
+
+// Projects keep only the file ID, so the files don't travel with every
+// project change or fill the browser's storage
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const context = requireAuth(req, res, 'VIEW_PROJECTS');
+  if (!context) return;
+
+  const storage = getStorage();
+  const { companyId } = context;
+  const id = queryParam(req, 'id');
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        if (!id) {
+          return sendError(res, 400, 'File ID is required');
+        }
+        const file = await storage.get<StoredFile>('files', companyId, id);
+        return file ? sendData(res, file) : sendError(res, 404, 'File not found');
+      }
+
+      case 'POST': {
+        const upload = parseBody(res, FileUploadSchema, req.body || {});
+        if (!upload) return;
+        if (!DATA_URL.test(upload.dataUrl)) {
+          return sendError(res, 400, 'Validation failed', [{ path: 'dataUrl', message: 'Expected a base64 data URL' }]);
+        }
+        const sizeBytes = decodedBytes(upload.dataUrl);
+        if (sizeBytes > MAX_FILE_BYTES) {
+          return sendError(res, 413, `${upload.fileName} is larger than ${MAX_FILE_BYTES / (1024 * 1024)} MB`);
+        }
+        const file: StoredFile = {
+          id: generateId(),
+          companyId,
+          fileName: upload.fileName,
+          mimeType: upload.mimeType,
+          sizeBytes,
+          uploadedAt: new Date().toISOString(),
+          uploadedBy: context.userId,
+          dataUrl: upload.dataUrl,
+        };
+        await storage.put('files', companyId, file);
+        const { dataUrl: _content, ...stored } = file;
+        return sendData(res, stored, undefined, 201);
+      }
+
+      default:
+        return sendError(res, 405, `Method ${req.method} not allowed`);
+    }
+  } catch (error) {
+    console.error('Files API error:', error);
+    return sendError(res, 500, 'Failed to process files request');
+  }
+}
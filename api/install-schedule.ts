@@ -0,0 +1,71 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getStorage } from './_lib/storage';
+import { sendData, sendError, queryParam, parseBody } from './_lib/http';
+import { requireAuth } from './_lib/auth';
+import { getCompanyInstallSchedule, saveCompanyInstallSchedule } from './_lib/installSchedule';
+import type { Installer, Project } from '../types';
+import { InstallBookingRequestSchema, WeatherHoldSchema } from '../schema';
+import { findCrew, scheduleInstall, toggleWeatherHold, unscheduleInstall } from '../services/installSchedule';
+
+// Each change is applied here to the stored schedule, so two people planning
+// installs at once don't overwrite each other's bookings
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const context = requireAuth(req, res, req.method === 'GET' ? 'VIEW_PROJECTS' : 'EDIT_PROJECTS');
+  if (!context) return;
+
+  const storage = getStorage();
+  const { companyId } = context;
+  const id = queryParam(req, 'id');
+  const action = queryParam(req, 'action');
+  const body = req.body || {};
+
+  try {
+    switch (req.method) {
+      case 'GET':
+        return sendData(res, await getCompanyInstallSchedule(companyId));
+
+      case 'PUT':
+      case 'PATCH': {
+        const schedule = await getCompanyInstallSchedule(companyId);
+        if (action === 'book') {
+          const booking = parseBody(res, InstallBookingRequestSchema, body);
+          if (!booking) return;
+          const project = await storage.get<Project>('projects', companyId, booking.projectId);
+          if (!project) {
+            return sendError(res, 404, 'Project not found');
+          }
+          const installers = await storage.list<Installer>('installers', companyId);
+          if (!findCrew(installers, booking.installerId, booking.crewId)) {
+            return sendError(res, 404, 'Crew not found');
+          }
+          const next = scheduleInstall(schedule, project, booking.installerId, booking.crewId, booking.startDate.slice(0, 10));
+          return sendData(res, await saveCompanyInstallSchedule(companyId, next));
+        }
+        if (action === 'weatherHold') {
+          const hold = parseBody(res, WeatherHoldSchema, body);
+          if (!hold) return;
+          const next = toggleWeatherHold(schedule, { ...hold, date: hold.date.slice(0, 10) });
+          return sendData(res, await saveCompanyInstallSchedule(companyId, next));
+        }
+        return sendError(res, 400, 'Invalid action');
+      }
+
+      case 'DELETE': {
+        if (!id) {
+          return sendError(res, 400, 'Appointment ID is required');
+        }
+        const schedule = await getCompanyInstallSchedule(companyId);
+        if (!schedule.appointments.some(a => a.id === id)) {
+          return sendError(res, 404, 'Install appointment not found');
+        }
+        return sendData(res, await saveCompanyInstallSchedule(companyId, unscheduleInstall(schedule, id)));
+      }
+
+      default:
+        return sendError(res, 405, `Method ${req.method} not allowed`);
+    }
+  } catch (error) {
+    console.error('Install schedule API error:', error);
+    return sendError(res, 500, 'Failed to process install schedule request');
+  }
+}
@@ -0,0 +1,116 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getStorage } from './_lib/storage';
+import { sendData, sendError, queryParam, generateId, parseBody } from './_lib/http';
+import { requireAuth } from './_lib/auth';
+import type { Permission } from '../services/rbac';
+import type { Installer } from '../types';
+import { InstallerSchema, array } from '../schema';
+
+async function getInstallerPerformance(companyId: string, installerId: string) {
+  const projects = await getStorage().list('projects', companyId);
+
+  const installerProjects = projects.filter(p => p.installerId === installerId);
+  const completedProjects = installerProjects.filter(p => p.stage === 'PTO');
+
+  // Average days from project creation to PTO
+  let totalDays = 0;
+  let countWithDates = 0;
+  completedProjects.forEach(p => {
+    const completedAt = p.actualDates?.PTO;
+    if (p.createdAt && completedAt) {
+      const days = Math.ceil((new Date(completedAt).getTime() - new Date(p.createdAt).getTime()) / (1000 * 60 * 60 * 24));
+      totalDays += days;
+      countWithDates++;
+    }
+  });
+
+  return {
+    totalProjects: installerProjects.length,
+    completedProjects: completedProjects.length,
+    inProgressProjects: installerProjects.length - completedProjects.length,
+    avgDaysToComplete: countWithDates > 0 ? Math.round(totalDays / countWithDates) : null,
+    totalKW: installerProjects.reduce((sum, p) => sum + (p.kW || 0), 0)
+  };
+}
+
+function permissionFor(req: VercelRequest): Permission {
+  if (req.method !== 'GET') return 'MANAGE_INSTALLERS';
+  return queryParam(req, 'action') === 'performance' ? 'VIEW_INSTALLER_METRICS' : 'VIEW_PROJECTS';
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const context = requireAuth(req, res, permissionFor(req));
+  if (!context) return;
+
+  const storage = getStorage();
+  const { companyId } = context;
+  const id = queryParam(req, 'id');
+  const action = queryParam(req, 'action');
+  const body = req.body || {};
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        if (id && action === 'performance') {
+          return sendData(res, await getInstallerPerformance(companyId, id));
+        }
+        if (id) {
+          const installer = await storage.get<Installer>('installers', companyId, id);
+          return installer ? sendData(res, installer) : sendError(res, 404, 'Installer not found');
+        }
+        const installers = await storage.list<Installer>('installers', companyId);
+        return sendData(res, installers, { total: installers.length });
+      }
+
+      case 'POST': {
+        const installer = parseBody(res, InstallerSchema, {
+          phone: '',
+          email: '',
+          rating: 5,
+          totalInstalls: 0,
+          isActive: true,
+          ...body,
+          id: body.id || generateId(),
+        });
+        if (!installer) return;
+        await storage.put('installers', companyId, installer);
+        return sendData(res, installer, undefined, 201);
+      }
+
+      case 'PUT':
+      case 'PATCH': {
+        if (action === 'replace') {
+          const installers = parseBody(res, array(InstallerSchema), body.installers || []);
+          if (!installers) return;
+          await storage.replaceAll('installers', companyId, installers);
+          return sendData(res, installers, { total: installers.length });
+        }
+        if (!id) {
+          return sendError(res, 400, 'Installer ID is required');
+        }
+        const existing = await storage.get<Installer>('installers', companyId, id);
+        if (!existing) {
+          return sendError(res, 404, 'Installer not found');
+        }
+        const installer = parseBody(res, InstallerSchema, { ...existing, ...body, id });
+        if (!installer) return;
+        await storage.put('installers', companyId, installer);
+        return sendData(res, installer);
+      }
+
+      case 'DELETE': {
+        if (!id) {
+          return sendError(res, 400, 'Installer ID is required');
+        }
+        const removed = await storage.remove('installers', companyId, id);
+        return removed ? sendData(res, true) : sendError(res, 404, 'Installer not found');
+      }
+
+      default:
+        return sendError(res, 405, `Method ${req.method} not allowed`);
+    }
+  } catch (error) {
+    console.error('Installers API error:', error);
+    return sendError(res, 500, 'Failed to process installers request');
+  }
+}
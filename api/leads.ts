@@ -0,0 +1,198 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getStorage } from './_lib/storage';
+import { sendData, sendError, queryParam, paginate, newRecordId, clearFields, parseBody, generateId } from './_lib/http';
+import { requireAuth } from './_lib/auth';
+import type { Permission } from '../services/rbac';
+import type { Lead, Rep } from '../types';
+import { LeadSchema, LeadMergeSchema, array } from '../schema';
+import { findDuplicates, mergeLeadFields, mergeNote } from '../services/leadDedup';
+
+function applyFilters(req: VercelRequest, leads: Lead[]): Lead[] {
+  const status = queryParam(req, 'status');
+  const repId = queryParam(req, 'repId');
+  const dateFrom = queryParam(req, 'dateFrom');
+  const dateTo = queryParam(req, 'dateTo');
+  const search = queryParam(req, 'search')?.toLowerCase();
+
+  return leads.filter(l => {
+    if (status && l.status !== status) return false;
+    if (repId && l.assignedTo !== repId) return false;
+    if (dateFrom && new Date(l.createdAt) < new Date(dateFrom)) return false;
+    if (dateTo && new Date(l.createdAt) > new Date(dateTo)) return false;
+    if (search) {
+      return l.name.toLowerCase().includes(search) ||
+        l.address.toLowerCase().includes(search) ||
+        !!l.email?.toLowerCase().includes(search);
+    }
+    return true;
+  });
+}
+
+function permissionFor(req: VercelRequest): Permission {
+  switch (req.method) {
+    case 'GET': return 'VIEW_LEADS';
+    case 'POST': return queryParam(req, 'action') === 'merge' ? 'DELETE_LEADS' : 'CREATE_LEADS';
+    case 'DELETE': return 'DELETE_LEADS';
+    default: return queryParam(req, 'action') === 'replace' ? 'DELETE_LEADS' : 'EDIT_LEADS';
+  }
+}
+
+// Records that point at a lead and move with it when it's merged away
+const LEAD_RECORDS = ['projects', 'commissions', 'contracts', 'proposals', 'appointments'] as const;
+
+/**
+ * Fold duplicate leads into the survivor and delete them. Everything stored
+ * against a duplicate is moved here in the same request, so no device's
+ * cached copy can leave records pointing at a deleted lead.
+ */
+async function handleMerge(req: VercelRequest, res: VercelResponse, companyId: string, userId: string) {
+  const storage = getStorage();
+  const request = parseBody(res, LeadMergeSchema, req.body || {});
+  if (!request) return;
+  const survivor = await storage.get<Lead>('leads', companyId, request.survivorId);
+  if (!survivor) {
+    return sendError(res, 404, 'Lead not found');
+  }
+  const ids = Array.from(new Set(request.duplicateIds.filter(id => id !== survivor.id)));
+  if (ids.length === 0) {
+    return sendError(res, 400, 'Pick at least one duplicate to merge');
+  }
+  const duplicates: Lead[] = [];
+  for (const id of ids) {
+    const lead = await storage.get<Lead>('leads', companyId, id);
+    if (!lead) {
+      return sendError(res, 404, `Lead ${id} not found`);
+    }
+    duplicates.push(lead);
+  }
+
+  const author = await storage.get<Rep>('reps', companyId, userId);
+  const fields = mergeLeadFields(survivor, duplicates);
+  const lead: Lead = {
+    ...fields,
+    activities: [...(fields.activities || []), {
+      id: generateId(),
+      type: 'note' as const,
+      occurredAt: new Date().toISOString(),
+      authorId: userId,
+      authorName: author?.name || 'System',
+      body: mergeNote(duplicates),
+    }],
+  };
+  await storage.put('leads', companyId, lead);
+
+  const moved: Record<typeof LEAD_RECORDS[number], number> = { projects: 0, commissions: 0, contracts: 0, proposals: 0, appointments: 0 };
+  for (const collection of LEAD_RECORDS) {
+    const records = (await storage.list<{ id: string; leadId: string }>(collection, companyId))
+      .filter(r => ids.includes(r.leadId))
+      .map(r => ({ ...r, leadId: lead.id }));
+    await storage.putMany(collection, companyId, records);
+    moved[collection] = records.length;
+  }
+  for (const id of ids) {
+    await storage.remove('leads', companyId, id);
+  }
+
+  return sendData(res, {
+    lead,
+    projectsMoved: moved.projects,
+    commissionsMoved: moved.commissions,
+    contractsMoved: moved.contracts,
+    proposalsMoved: moved.proposals,
+    appointmentsMoved: moved.appointments,
+  });
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const context = requireAuth(req, res, permissionFor(req));
+  if (!context) return;
+
+  const storage = getStorage();
+  const { companyId } = context;
+  const id = queryParam(req, 'id');
+  const action = queryParam(req, 'action');
+  const body = req.body || {};
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        if (id) {
+          const lead = await storage.get<Lead>('leads', companyId, id);
+          return lead ? sendData(res, lead) : sendError(res, 404, 'Lead not found');
+        }
+        const leads = applyFilters(req, await storage.list<Lead>('leads', companyId));
+        const { data, meta } = paginate(req, leads);
+        return sendData(res, data, meta);
+      }
+
+      case 'POST': {
+        if (action === 'merge') return await handleMerge(req, res, companyId, context.userId);
+        const lead = parseBody(res, LeadSchema, {
+          createdAt: new Date().toISOString(),
+          ...body,
+          id: newRecordId(body),
+          companyId,
+        });
+        if (!lead) return;
+        if (await storage.get('leads', companyId, lead.id)) {
+          return sendError(res, 409, 'A lead with this ID already exists');
+        }
+        // Web forms resubmit the same household; the lead is still saved, and
+        // the caller is told which leads it probably duplicates
+        const duplicates = findDuplicates(lead, await storage.list<Lead>('leads', companyId));
+        await storage.put('leads', companyId, lead);
+        return sendData(res, lead, duplicates.length > 0 ? { duplicates } : undefined, 201);
+      }
+
+      case 'PUT':
+      case 'PATCH': {
+        // Import: replace the company's leads wholesale
+        if (action === 'replace') {
+          const incoming = (body.leads || []).map((l: Lead) => ({ ...l, companyId }));
+          const leads = parseBody(res, array(LeadSchema), incoming);
+          if (!leads) return;
+          await storage.replaceAll('leads', companyId, leads);
+          return sendData(res, leads, { total: leads.length });
+        }
+
+        // Bulk update: { ids, updates }
+        if (Array.isArray(body.ids)) {
+          const updates = parseBody(res, LeadSchema.partial(), body.updates);
+          if (!updates) return;
+          const leads = await storage.list<Lead>('leads', companyId);
+          const updated = leads
+            .filter(l => body.ids.includes(l.id))
+            .map(l => ({ ...l, ...updates, id: l.id, companyId }));
+          await storage.putMany('leads', companyId, updated);
+          return sendData(res, updated);
+        }
+
+        if (!id) {
+          return sendError(res, 400, 'Lead ID is required');
+        }
+        const existing = await storage.get<Lead>('leads', companyId, id);
+        if (!existing) {
+          return sendError(res, 404, 'Lead not found');
+        }
+        const lead = parseBody(res, LeadSchema, clearFields(req, { ...existing, ...body, id, companyId }));
+        if (!lead) return;
+        await storage.put('leads', companyId, lead);
+        return sendData(res, lead);
+      }
+
+      case 'DELETE': {
+        if (!id) {
+          return sendError(res, 400, 'Lead ID is required');
+        }
+        const removed = await storage.remove('leads', companyId, id);
+        return removed ? sendData(res, true) : sendError(res, 404, 'Lead not found');
+      }
+
+      default:
+        return sendError(res, 405, `Method ${req.method} not allowed`);
+    }
+  } catch (error) {
+    console.error('Leads API error:', error);
+    return sendError(res, 500, 'Failed to process leads request');
+  }
+}
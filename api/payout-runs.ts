@@ -0,0 +1,117 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getStorage } from './_lib/storage';
+import { sendData, sendError, queryParam, parseBody } from './_lib/http';
+import { requireAuth } from './_lib/auth';
+import { getCompanyAchOriginator, saveCompanyAchOriginator } from './_lib/payouts';
+import type { Commission, PayoutRun, Rep } from '../types';
+import { AchOriginatorSchema, PayoutRunRequestSchema, PayoutRunPaymentSchema } from '../schema';
+import { buildPayoutRun } from '../services/payoutBatches';
+
+// Runs are created and settled here, together with the commission lines they
+// lock, so a run and its lines never disagree
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const context = requireAuth(req, res, 'PAY_COMMISSIONS');
+  if (!context) return;
+
+  const storage = getStorage();
+  const { companyId } = context;
+  const id = queryParam(req, 'id');
+  const action = queryParam(req, 'action');
+  const body = req.body || {};
+
+  const lockedRun = async (): Promise<PayoutRun | null> => {
+    if (!id) {
+      sendError(res, 400, 'Payout run ID is required');
+      return null;
+    }
+    const run = await storage.get<PayoutRun>('payoutRuns', companyId, id);
+    if (!run) {
+      sendError(res, 404, 'Payout run not found');
+      return null;
+    }
+    if (run.status !== 'locked') {
+      sendError(res, 409, 'This payout run has already been paid');
+      return null;
+    }
+    return run;
+  };
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        if (action === 'achOriginator') {
+          return sendData(res, await getCompanyAchOriginator(companyId));
+        }
+        const runs = (await storage.list<PayoutRun>('payoutRuns', companyId))
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+        return sendData(res, runs, { total: runs.length });
+      }
+
+      case 'POST': {
+        const request = parseBody(res, PayoutRunRequestSchema, body);
+        if (!request) return;
+        const commissions = await storage.list<Commission>('commissions', companyId);
+        const user = await storage.get<Rep>('reps', companyId, context.userId);
+        let built: ReturnType<typeof buildPayoutRun>;
+        try {
+          built = buildPayoutRun(
+            commissions,
+            request.commissionIds,
+            { start: request.periodStart, end: request.periodEnd },
+            companyId,
+            user?.name || context.userId
+          );
+        } catch (error) {
+          return sendError(res, 400, error instanceof Error ? error.message : 'Invalid payout run');
+        }
+        await storage.putMany('commissions', companyId, built.locked);
+        await storage.put('payoutRuns', companyId, built.run);
+        return sendData(res, { run: built.run, commissions: built.locked }, undefined, 201);
+      }
+
+      case 'PUT':
+      case 'PATCH': {
+        if (action === 'achOriginator') {
+          const originator = parseBody(res, AchOriginatorSchema, body);
+          if (!originator) return;
+          return sendData(res, await saveCompanyAchOriginator(companyId, originator));
+        }
+        if (action !== 'markPaid') {
+          return sendError(res, 400, 'Invalid action');
+        }
+        const payment = parseBody(res, PayoutRunPaymentSchema, body);
+        if (!payment) return;
+        const run = await lockedRun();
+        if (!run) return;
+
+        // Every line in the run becomes PAID
+        const ids = new Set(run.commissionIds);
+        const paidLines = (await storage.list<Commission>('commissions', companyId))
+          .filter(c => ids.has(c.id))
+          .map(c => ({ ...c, status: 'PAID' as const, ...payment }));
+        const paid: PayoutRun = { ...run, status: 'paid', ...payment };
+        await storage.putMany('commissions', companyId, paidLines);
+        await storage.put('payoutRuns', companyId, paid);
+        return sendData(res, { run: paid, commissions: paidLines });
+      }
+
+      case 'DELETE': {
+        // Void an unpaid run and release its lines for another run
+        const run = await lockedRun();
+        if (!run) return;
+        const released = (await storage.list<Commission>('commissions', companyId))
+          .filter(c => c.payoutRunId === run.id)
+          .map(({ payoutRunId: _runId, ...c }) => c as Commission);
+        await storage.putMany('commissions', companyId, released);
+        await storage.remove('payoutRuns', companyId, run.id);
+        return sendData(res, { run, commissions: released });
+      }
+
+      default:
+        return sendError(res, 405, `Method ${req.method} not allowed`);
+    }
+  } catch (error) {
+    console.error('Payout runs API error:', error);
+    return sendError(res, 500, 'Failed to process payout runs request');
+  }
+}
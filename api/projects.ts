@@ -0,0 +1,147 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getStorage } from './_lib/storage';
+import { sendData, sendError, queryParam, paginate, newRecordId, clearFields, parseBody } from './_lib/http';
+import { requireAuth } from './_lib/auth';
+import { settleProjectCommissions } from './_lib/projectCommissions';
+import type { Permission } from '../services/rbac';
+import type { Project } from '../types';
+import { ProjectSchema, array } from '../schema';
+
+function applyFilters(req: VercelRequest, projects: Project[]): Project[] {
+  const stage = queryParam(req, 'stage');
+  const installerId = queryParam(req, 'installerId');
+  const dateFrom = queryParam(req, 'dateFrom');
+  const dateTo = queryParam(req, 'dateTo');
+  const search = queryParam(req, 'search')?.toLowerCase();
+
+  return projects.filter(p => {
+    if (stage && p.stage !== stage) return false;
+    if (installerId && p.installerId !== installerId) return false;
+    if (dateFrom && new Date(p.createdAt) < new Date(dateFrom)) return false;
+    if (dateTo && new Date(p.createdAt) > new Date(dateTo)) return false;
+    if (search) {
+      return p.id.toLowerCase().includes(search) ||
+        p.leadId.toLowerCase().includes(search) ||
+        !!p.installerName?.toLowerCase().includes(search);
+    }
+    return true;
+  });
+}
+
+function permissionFor(req: VercelRequest): Permission {
+  switch (req.method) {
+    case 'GET': return 'VIEW_PROJECTS';
+    case 'POST': return 'EDIT_PROJECTS';
+    case 'DELETE': return 'DELETE_PROJECTS';
+    default: {
+      const action = queryParam(req, 'action');
+      if (action === 'replace') return 'DELETE_PROJECTS';
+      if (action === 'cancel') return 'EDIT_PROJECTS';
+      // Installers may move a project through the pipeline but not edit it;
+      // the app re-plans target dates and SLA status along with each move
+      const derived = ['lastUpdated', 'targetDates', 'slaStatus'];
+      const fields = Object.keys(req.body || {}).filter(key => !derived.includes(key));
+      const statusOnly = fields.length > 0 && fields.every(key => key === 'stage' || key === 'actualDates');
+      return statusOnly ? 'UPDATE_PROJECT_STATUS' : 'EDIT_PROJECTS';
+    }
+  }
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const context = requireAuth(req, res, permissionFor(req));
+  if (!context) return;
+
+  const storage = getStorage();
+  const { companyId } = context;
+  const id = queryParam(req, 'id');
+  const action = queryParam(req, 'action');
+  const body = req.body || {};
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        if (id) {
+          const project = await storage.get<Project>('projects', companyId, id);
+          return project ? sendData(res, project) : sendError(res, 404, 'Project not found');
+        }
+        const projects = applyFilters(req, await storage.list<Project>('projects', companyId));
+        const { data, meta } = paginate(req, projects);
+        return sendData(res, data, meta);
+      }
+
+      case 'POST': {
+        const now = new Date().toISOString();
+        const project = parseBody(res, ProjectSchema, {
+          createdAt: now,
+          lastUpdated: now,
+          ...body,
+          id: newRecordId(body),
+          companyId,
+        });
+        if (!project) return;
+        if (await storage.get('projects', companyId, project.id)) {
+          return sendError(res, 409, 'A project with this ID already exists');
+        }
+        await storage.put('projects', companyId, project);
+        await settleProjectCommissions(companyId, null, project);
+        return sendData(res, project, undefined, 201);
+      }
+
+      case 'PUT':
+      case 'PATCH': {
+        if (action === 'replace') {
+          const incoming = (body.projects || []).map((p: Project) => ({ ...p, companyId }));
+          const projects = parseBody(res, array(ProjectSchema), incoming);
+          if (!projects) return;
+          await storage.replaceAll('projects', companyId, projects);
+          return sendData(res, projects, { total: projects.length });
+        }
+
+        if (!id) {
+          return sendError(res, 400, 'Project ID is required');
+        }
+        const existing = await storage.get<Project>('projects', companyId, id);
+        if (!existing) {
+          return sendError(res, 404, 'Project not found');
+        }
+        if (action === 'cancel' && existing.cancelledAt) {
+          return sendError(res, 409, 'This project is already cancelled');
+        }
+        // Cancelling stamps the time here; a move is an ordinary update
+        const changes = action === 'cancel'
+          ? { cancelledAt: new Date().toISOString(), cancelReason: String(body.cancelReason || '').trim() || undefined }
+          : body;
+        const project = parseBody(res, ProjectSchema, clearFields(req, {
+          ...existing,
+          ...changes,
+          id,
+          companyId,
+          lastUpdated: new Date().toISOString(),
+        }));
+        if (!project) return;
+        await storage.put('projects', companyId, project);
+        // Milestone pay and cancellations are settled here against the stored
+        // commissions, whoever moved the project
+        const commissions = await settleProjectCommissions(companyId, existing, project);
+        if (action === 'move' || action === 'cancel') {
+          return sendData(res, { project, commissions });
+        }
+        return sendData(res, project);
+      }
+
+      case 'DELETE': {
+        if (!id) {
+          return sendError(res, 400, 'Project ID is required');
+        }
+        const removed = await storage.remove('projects', companyId, id);
+        return removed ? sendData(res, true) : sendError(res, 404, 'Project not found');
+      }
+
+      default:
+        return sendError(res, 405, `Method ${req.method} not allowed`);
+    }
+  } catch (error) {
+    console.error('Projects API error:', error);
+    return sendError(res, 500, 'Failed to process projects request');
+  }
+}
@@ -1,18 +1,22 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAuth } from './_lib/auth';
+import { AnalysisRequestSchema, validate } from '../schema';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  if (!requireAuth(req, res, 'USE_BLINDSPOT_DETECTOR')) return;
+
   try {
     const body = req.body || {};
-    const lead = body.lead;
-    const analysis = body.analysis;
+    const parsed = validate(AnalysisRequestSchema, body);
 
-    if (!lead || !analysis) {
-      return res.status(400).json({ error: 'Invalid request: lead and analysis required' });
+    if (!parsed.ok) {
+      return res.status(400).json({ error: 'Invalid request: lead and analysis required', errors: parsed.errors });
     }
+    const { lead, analysis } = parsed.value;
 
     const bill = lead.estimatedBill || 200;
     const savings = analysis.estimatedMonthlySavings || 50;
@@ -0,0 +1,170 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createHash, randomBytes } from 'node:crypto';
+import { getStorage, GLOBAL_SCOPE } from './_lib/storage';
+import { sendData, sendError, queryParam, parseBody, generateId } from './_lib/http';
+import { requireAuth } from './_lib/auth';
+import { getCompanyPricing } from './_lib/pricing';
+import { renderProposalPdf, renderProposalHtml } from './_lib/proposalDocument';
+import type { ProposalSummary, ProposalVersion, ProposalView } from '../types';
+import { ProposalRequestSchema } from '../schema';
+import { compareFinancing, DEFAULT_BILL } from '../services/financialEngine';
+
+// Customer links resolve without a session, so the token index is global
+interface ProposalLink {
+  id: string; // The share token
+  companyId: string;
+  proposalId: string;
+}
+
+const DEFAULT_BRAND = { name: 'Primus Home Pro', logoUrl: '', primaryColor: '#00ff99', accentColor: '#0044ff' };
+
+function summarize(version: ProposalVersion, views: ProposalView[]): ProposalSummary {
+  const { analysis } = version.snapshot;
+  const own = views.filter(v => v.proposalId === version.id);
+  return {
+    id: version.id,
+    leadId: version.leadId,
+    version: version.version,
+    issuedAt: version.issuedAt,
+    issuedBy: version.issuedBy,
+    repName: version.snapshot.repName,
+    systemSizeKw: analysis.systemSizeKw,
+    systemCost: analysis.systemCost,
+    estimatedMonthlyPayment: analysis.estimatedMonthlyPayment,
+    estimatedMonthlySavings: analysis.estimatedMonthlySavings,
+    pdfSha256: version.pdfSha256,
+    shareToken: version.shareToken,
+    viewCount: own.length,
+    lastViewedAt: own.reduce<string | undefined>((latest, v) => (!latest || v.viewedAt > latest ? v.viewedAt : latest), undefined),
+  };
+}
+
+function sendPdf(res: VercelResponse, version: ProposalVersion) {
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `inline; filename="proposal-${version.leadId}-v${version.version}.pdf"`);
+  return res.status(200).send(Buffer.from(version.pdfBase64, 'base64'));
+}
+
+/**
+ * Public customer link: /api/proposals?token=...[&format=pdf]
+ * Read-only; every open is recorded against the version
+ */
+async function handleShareLink(req: VercelRequest, res: VercelResponse, token: string) {
+  const storage = getStorage();
+  const link = await storage.get<ProposalLink>('proposalLinks', GLOBAL_SCOPE, token);
+  const version = link && await storage.get<ProposalVersion>('proposals', link.companyId, link.proposalId);
+  if (!link || !version) {
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    return res.status(404).send('<!DOCTYPE html><p>This proposal link is not valid.</p>');
+  }
+
+  const format = queryParam(req, 'format') === 'pdf' ? 'pdf' : 'html';
+  const forwarded = req.headers['x-forwarded-for'];
+  const view: ProposalView = {
+    id: generateId(),
+    proposalId: version.id,
+    viewedAt: new Date().toISOString(),
+    format,
+    userAgent: typeof req.headers['user-agent'] === 'string' ? req.headers['user-agent'].slice(0, 300) : undefined,
+    ip: (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim(),
+  };
+  await storage.put('proposalViews', link.companyId, view);
+
+  res.setHeader('Cache-Control', 'no-store');
+  if (format === 'pdf') {
+    return sendPdf(res, version);
+  }
+  res.setHeader('Content-Type', 'text/html; charset=utf-8');
+  return res.status(200).send(renderProposalHtml(version, `?token=${encodeURIComponent(token)}&format=pdf`));
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const token = queryParam(req, 'token');
+  if (req.method === 'GET' && token) {
+    try {
+      return await handleShareLink(req, res, token);
+    } catch (error) {
+      console.error('Proposal link error:', error);
+      return res.status(500).send('Failed to load proposal');
+    }
+  }
+
+  const context = requireAuth(req, res, req.method === 'POST' ? 'ISSUE_PROPOSALS' : 'VIEW_LEADS');
+  if (!context) return;
+
+  const storage = getStorage();
+  const { companyId } = context;
+  const id = queryParam(req, 'id');
+  const leadId = queryParam(req, 'leadId');
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        if (id) {
+          const version = await storage.get<ProposalVersion>('proposals', companyId, id);
+          if (!version) return sendError(res, 404, 'Proposal not found');
+          if (queryParam(req, 'format') === 'pdf') return sendPdf(res, version);
+          const views = (await storage.list<ProposalView>('proposalViews', companyId)).filter(v => v.proposalId === id);
+          const { pdfBase64: _pdf, ...rest } = version;
+          return sendData(res, { ...rest, views });
+        }
+        const versions = (await storage.list<ProposalVersion>('proposals', companyId))
+          .filter(v => !leadId || v.leadId === leadId)
+          .sort((a, b) => b.issuedAt.localeCompare(a.issuedAt));
+        const views = await storage.list<ProposalView>('proposalViews', companyId);
+        return sendData(res, versions.map(v => summarize(v, views)), { total: versions.length });
+      }
+
+      case 'POST': {
+        const request = parseBody(res, ProposalRequestSchema, req.body || {});
+        if (!request) return;
+        const { lead, analysis } = request;
+        if (analysis.leadId !== lead.id) {
+          return sendError(res, 400, 'Analysis does not belong to this lead');
+        }
+
+        // Analyses saved before the comparison existed are priced on the company's current pricing
+        const financingOptions = analysis.financingOptions ?? compareFinancing(
+          analysis.systemSizeKw,
+          lead.estimatedBill ?? DEFAULT_BILL,
+          await getCompanyPricing(companyId),
+          { annualProductionKwh: analysis.annualProductionKwh }
+        );
+        const previous = (await storage.list<ProposalVersion>('proposals', companyId)).filter(v => v.leadId === lead.id);
+
+        const issued: Omit<ProposalVersion, 'pdfBase64' | 'pdfSha256'> = {
+          id: generateId(),
+          leadId: lead.id,
+          version: previous.reduce((max, v) => Math.max(max, v.version), 0) + 1,
+          issuedAt: new Date().toISOString(),
+          issuedBy: context.userId,
+          snapshot: {
+            lead,
+            analysis,
+            financingOptions,
+            brand: request.brand ?? DEFAULT_BRAND,
+            repName: request.repName || 'Your Solar Advisor',
+          },
+          shareToken: randomBytes(24).toString('base64url'),
+          companyId,
+        };
+        const pdf = renderProposalPdf(issued);
+        const version: ProposalVersion = {
+          ...issued,
+          pdfBase64: pdf.toString('base64'),
+          pdfSha256: createHash('sha256').update(pdf).digest('hex'),
+        };
+
+        await storage.put('proposals', companyId, version);
+        await storage.put<ProposalLink>('proposalLinks', GLOBAL_SCOPE, { id: version.shareToken, companyId, proposalId: version.id });
+        return sendData(res, summarize(version, []), undefined, 201);
+      }
+
+      default:
+        return sendError(res, 405, 'Issued proposals cannot be changed; issue a new version instead');
+    }
+  } catch (error) {
+    console.error('Proposals API error:', error);
+    return sendError(res, 500, 'Failed to process proposals request');
+  }
+}
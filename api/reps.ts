@@ -0,0 +1,161 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getStorage } from './_lib/storage';
+import { sendData, sendError, queryParam, generateId, parseBody } from './_lib/http';
+import { requireAuth, hashPassword } from './_lib/auth';
+import { can, canManageRole, type Permission, type Role } from '../services/rbac';
+import type { Rep } from '../types';
+import { RepSchema, array } from '../schema';
+import { getCompanyLeadPipeline } from './_lib/leadPipeline';
+import { leadStatusOutcome } from '../services/leadStatuses';
+
+type StoredRep = Rep & { passwordHash?: string };
+
+// Never send password hashes back to the client
+function toPublicRep({ passwordHash: _hash, ...rep }: StoredRep) {
+  return rep;
+}
+
+// Hash a plain `password` from the request body, otherwise keep the previous hash
+function withPasswordHash(rep: Rep, password: unknown, previousHash?: string): StoredRep {
+  if (password) return { ...rep, passwordHash: hashPassword(String(password)) };
+  return previousHash ? { ...rep, passwordHash: previousHash } : rep;
+}
+
+function permissionFor(req: VercelRequest): Permission | undefined {
+  if (req.method !== 'GET') return 'MANAGE_REPS';
+  // Anyone may read their own record and stats; checked in the handler
+  return queryParam(req, 'id') ? undefined : 'VIEW_ALL_REPS';
+}
+
+async function getRepStats(companyId: string, repId: string) {
+  const storage = getStorage();
+  const leads = await storage.list('leads', companyId);
+  const projects = await storage.list('projects', companyId);
+
+  const repLeads = leads.filter(l => l.assignedTo === repId);
+  const repLeadIds = new Set(repLeads.map(l => l.id));
+  const repProjects = projects.filter(p => repLeadIds.has(p.leadId));
+  const pipeline = await getCompanyLeadPipeline(companyId);
+  const closedLeads = repLeads.filter(l => leadStatusOutcome(l.status, pipeline) === 'won').length;
+
+  return {
+    totalLeads: repLeads.length,
+    closedLeads,
+    totalProjects: repProjects.length,
+    totalRevenue: repProjects.reduce((sum, p) => sum + (p.contractValue || 0), 0),
+    conversionRate: repLeads.length > 0
+      ? (closedLeads / repLeads.length * 100).toFixed(1)
+      : 0
+  };
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const context = requireAuth(req, res, permissionFor(req));
+  if (!context) return;
+
+  const storage = getStorage();
+  const { companyId } = context;
+  const id = queryParam(req, 'id');
+  const action = queryParam(req, 'action');
+  const body = req.body || {};
+
+  // Managers cannot create, edit or remove anyone at or above their own role,
+  // nor give anyone such a role
+  const forbiddenRole = (roles: Role[]) =>
+    context.role === 'admin' ? undefined : roles.find(role => !canManageRole(context.role, role));
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        if (id && id !== context.userId && !can(context.role, 'VIEW_ALL_REPS')) {
+          return sendError(res, 403, 'Missing permission: VIEW_ALL_REPS');
+        }
+        if (id && action === 'stats') {
+          return sendData(res, await getRepStats(companyId, id));
+        }
+        if (id) {
+          const rep = await storage.get<StoredRep>('reps', companyId, id);
+          return rep ? sendData(res, toPublicRep(rep)) : sendError(res, 404, 'Rep not found');
+        }
+        const reps = await storage.list<StoredRep>('reps', companyId);
+        return sendData(res, reps.map(toPublicRep), { total: reps.length });
+      }
+
+      case 'POST': {
+        const parsed = parseBody(res, RepSchema, {
+          email: '',
+          phone: '',
+          role: 'rep',
+          teamId: null,
+          hireDate: new Date().toISOString(),
+          isActive: true,
+          ...body,
+          id: body.id || generateId(),
+        });
+        if (!parsed) return;
+        if (forbiddenRole([parsed.role])) {
+          return sendError(res, 403, `Cannot assign role: ${parsed.role}`);
+        }
+        const rep = withPasswordHash(parsed, body.password);
+        await storage.put('reps', companyId, rep);
+        return sendData(res, toPublicRep(rep), undefined, 201);
+      }
+
+      case 'PUT':
+      case 'PATCH': {
+        if (action === 'replace') {
+          const incoming: Record<string, any>[] = body.reps || [];
+          const parsed = parseBody(res, array(RepSchema), incoming);
+          if (!parsed) return;
+          // Replacing the roster rewrites or removes every existing rep
+          const existing = await storage.list<StoredRep>('reps', companyId);
+          const forbidden = forbiddenRole([...existing, ...parsed].map(rep => rep.role));
+          if (forbidden) {
+            return sendError(res, 403, `Cannot manage role: ${forbidden}`);
+          }
+          const previousHashes = new Map(existing.map(rep => [rep.id, rep.passwordHash]));
+          const reps = parsed.map((rep, i) => withPasswordHash(rep, incoming[i].password, previousHashes.get(rep.id)));
+          await storage.replaceAll('reps', companyId, reps);
+          return sendData(res, reps.map(toPublicRep), { total: reps.length });
+        }
+        if (!id) {
+          return sendError(res, 400, 'Rep ID is required');
+        }
+        const existing = await storage.get<StoredRep>('reps', companyId, id);
+        if (!existing) {
+          return sendError(res, 404, 'Rep not found');
+        }
+        const parsed = parseBody(res, RepSchema, { ...existing, ...body, id });
+        if (!parsed) return;
+        const forbidden = forbiddenRole([existing.role, parsed.role]);
+        if (forbidden) {
+          return sendError(res, 403, `Cannot manage role: ${forbidden}`);
+        }
+        const rep = withPasswordHash(parsed, body.password, existing.passwordHash);
+        await storage.put('reps', companyId, rep);
+        return sendData(res, toPublicRep(rep));
+      }
+
+      case 'DELETE': {
+        if (!id) {
+          return sendError(res, 400, 'Rep ID is required');
+        }
+        const existing = await storage.get<StoredRep>('reps', companyId, id);
+        if (!existing) {
+          return sendError(res, 404, 'Rep not found');
+        }
+        if (forbiddenRole([existing.role])) {
+          return sendError(res, 403, `Cannot manage role: ${existing.role}`);
+        }
+        const removed = await storage.remove('reps', companyId, id);
+        return removed ? sendData(res, true) : sendError(res, 404, 'Rep not found');
+      }
+
+      default:
+        return sendError(res, 405, `Method ${req.method} not allowed`);
+    }
+  } catch (error) {
+    console.error('Reps API error:', error);
+    return sendError(res, 500, 'Failed to process reps request');
+  }
+}
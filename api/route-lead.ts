@@ -1,33 +1,23 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-
-interface Lead {
-  id: string;
-  name: string;
-  address: string;
-  estimatedBill?: number;
-  age?: number;
-  notes?: string;
-}
-
-interface LeadRouting {
-  score: number;
-  quality: "HOT" | "WARM" | "COLD";
-  recommendedAgentType: string;
-  reasoning: string;
-}
+import { requireAuth } from './_lib/auth';
+import type { LeadRouting } from '../types';
+import { LeadSchema, validate } from '../schema';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  if (!requireAuth(req, res, 'USE_AI_SCORING')) return;
+
   try {
     const body = req.body || {};
-    const lead: Lead = body.lead;
+    const parsed = validate(LeadSchema, body.lead);
 
-    if (!lead || !lead.id) {
-      return res.status(400).json({ error: 'Invalid lead data' });
+    if (!parsed.ok) {
+      return res.status(400).json({ error: 'Invalid lead data', errors: parsed.errors });
     }
+    const lead = parsed.value;
 
     // Simple rule-based routing
     const bill = lead.estimatedBill ?? 150;
@@ -1,69 +1,61 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-
-interface Lead {
-  id: string;
-  name: string;
-  address: string;
-  status: string;
-  estimatedBill?: number;
-}
-
-interface SolarAnalysis {
-  leadId: string;
-  roofPitch: string;
-  usableAreaSqft: number;
-  sunHoursPerDay: number;
-  systemSizeKw: number;
-  viabilityScore: number;
-  summary: string;
-  systemCost: number;
-  taxCredit30: number;
-  netCost: number;
-  estimatedMonthlyPayment: number;
-  estimatedMonthlySavings: number;
-  estimatedUtilityBillBefore: number;
-}
+import { requireAuth } from './_lib/auth';
+import { getCompanyPricing } from './_lib/pricing';
+import { getCompanyEquipment } from './_lib/equipment';
+import type { SolarAnalysis } from '../types';
+import { LeadSchema, RoofPlaneSchema, SystemDesignSchema, validate } from '../schema';
+import { DEFAULT_BILL } from '../services/financialEngine';
+import { formatAzimuth, DEFAULT_ROOF } from '../services/productionModel';
+import { estimateSolar } from '../services/solarEstimate';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  const context = requireAuth(req, res, 'USE_BLINDSPOT_DETECTOR');
+  if (!context) return;
+
   try {
     const body = req.body || {};
-    const lead: Lead = body.lead;
+    const parsed = validate(LeadSchema, body.lead);
 
-    if (!lead || !lead.id) {
-      return res.status(400).json({ error: 'Invalid lead data', received: body });
+    if (!parsed.ok) {
+      return res.status(400).json({ error: 'Invalid lead data', errors: parsed.errors });
     }
+    const lead = parsed.value;
 
-    const bill = lead.estimatedBill ?? 220;
-    const systemSizeKw = Math.max(4, Math.min(12, Math.round((bill / 35) * 10) / 10));
-    
-    // Financial calculations
-    const costPerWatt = 2.85;
-    const systemCost = Math.round(systemSizeKw * 1000 * costPerWatt);
-    const taxCredit30 = Math.round(systemCost * 0.3);
-    const netCost = systemCost - taxCredit30;
-    const r = 0.0499 / 12;
-    const n = 240;
-    const estimatedMonthlyPayment = Math.round((netCost * r) / (1 - Math.pow(1 + r, -n)));
-    const estimatedMonthlySavings = Math.round(Math.max(0, bill - estimatedMonthlyPayment - (bill * 0.15)));
+    const roofParsed = body.roof === undefined ? null : validate(RoofPlaneSchema, body.roof);
+    if (roofParsed && !roofParsed.ok) {
+      return res.status(400).json({ error: 'Invalid roof data', errors: roofParsed.errors });
+    }
+    const roof = roofParsed ? roofParsed.value : DEFAULT_ROOF;
+
+    const designParsed = body.design === undefined ? null : validate(SystemDesignSchema, body.design);
+    if (designParsed && !designParsed.ok) {
+      return res.status(400).json({ error: 'Invalid roof design', errors: designParsed.errors });
+    }
+
+    const bill = lead.estimatedBill ?? DEFAULT_BILL;
+
+    // Priced against the company's configured price bands, adders and loan products,
+    // and the lead's utility rate plan; equipment comes from the company catalog
+    const pricing = await getCompanyPricing(context.companyId);
+    const catalog = await getCompanyEquipment(context.companyId);
+    const pricingOptions = {
+      adderIds: Array.isArray(body.adderIds) ? body.adderIds.map(String) : [],
+      loanProductId: typeof body.loanProductId === 'string' ? body.loanProductId : undefined,
+    };
+    const { plan, production, fields } = estimateSolar(lead, pricing, pricingOptions, roof, designParsed?.value, catalog);
+    const roofDescription = fields.planeProduction
+      ? `${fields.planeProduction.length} roof face${fields.planeProduction.length === 1 ? '' : 's'} (${fields.roofPitch})`
+      : `a ${fields.roofPitch} ${formatAzimuth(roof.azimuthDeg)}-facing roof`;
 
     const analysis: SolarAnalysis = {
       leadId: lead.id,
-      roofPitch: "Medium",
-      usableAreaSqft: Math.round(systemSizeKw * 65),
-      sunHoursPerDay: 5.5,
-      systemSizeKw,
-      viabilityScore: Math.round(Math.min(98, Math.max(72, 80 + ((bill - 150) / 10)))),
-      summary: `Based on a $${bill}/month utility bill, we recommend a ${systemSizeKw}kW system. This home shows excellent solar potential with good roof orientation.`,
-      systemCost,
-      taxCredit30,
-      netCost,
-      estimatedMonthlyPayment,
-      estimatedMonthlySavings,
-      estimatedUtilityBillBefore: bill,
+      viabilityScore: Math.round(Math.min(98, Math.max(40, 80 + ((bill - 150) / 10) + ((production.specificYield - 1400) / 25)))),
+      summary: `Based on a $${bill}/month utility bill on ${plan.name}, we recommend a ${fields.systemSizeKw}kW system. On ${roofDescription} with ${fields.shadingPct}% shading it should produce about ${production.annualKwh.toLocaleString()} kWh per year (${production.specificYield} kWh/kW, ${production.station.name} TMY data), bringing the average bill to about $${fields.estimatedUtilityBillAfter}/month.`,
+      ...fields,
     };
 
     return res.status(200).json(analysis);
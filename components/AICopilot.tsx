@@ -11,6 +11,12 @@ import {
 } from 'lucide-react';
 import { Lead, Project, Commission } from '../types';
 import { computeRevenueForecast } from '../services/revenueEngine';
+import { loadCommissionRules } from '../services/commissionRulesConfig';
+import { loadPricing } from '../services/pricingConfig';
+import { loadLeadPipeline, isWonStatus, isClosedStatus, getLeadFunnelStage } from '../services/leadPipeline';
+import { loadAppointments } from '../services/appointments';
+import { appointmentStatsByRep } from '../services/appointmentBooking';
+import { getRepByName } from '../services/companyStore';
 
 interface AICopilotProps {
   leads: Lead[];
@@ -27,6 +33,9 @@ interface RepStats {
   avgAiScore: number;
   staleLeads: number;
   qualifiedStuck: number;
+  appointments: number; // Booked as closer, excluding cancellations
+  noShows: number;
+  showRate: number | null; // Percent of held appointments the homeowner showed for
 }
 
 interface InstallerStats {
@@ -52,6 +61,7 @@ interface CoachingInsight {
   rep: string;
   insights: string[];
   priority: 'high' | 'medium' | 'low';
+  metric?: string;
 }
 
 // Priority badge component
@@ -110,16 +120,20 @@ const ActionCard: React.FC<{ action: ActionItem }> = ({ action }) => {
 const AICopilot: React.FC<AICopilotProps> = ({ leads, projects, commissions, healthScore = 70 }) => {
   const [expandedSection, setExpandedSection] = useState<string | null>('actions');
 
+  // Company lead statuses decide which leads are won or closed
+  const leadPipeline = useMemo(() => loadLeadPipeline(), []);
+
   // === COMPUTE REP STATS ===
   const repStats = useMemo<RepStats[]>(() => {
     const reps = Array.from(new Set(leads.map(l => l.assignedTo).filter(Boolean))) as string[];
     const now = Date.now();
     const twoDaysMs = 2 * 24 * 60 * 60 * 1000;
     const fiveDaysMs = 5 * 24 * 60 * 60 * 1000;
+    const appointmentStats = appointmentStatsByRep(loadAppointments());
 
     return reps.map(name => {
       const repLeads = leads.filter(l => l.assignedTo === name);
-      const wonLeads = repLeads.filter(l => l.status === 'CLOSED_WON').length;
+      const wonLeads = repLeads.filter(l => isWonStatus(l.status, leadPipeline)).length;
       const winRate = repLeads.length > 0 ? (wonLeads / repLeads.length) * 100 : 0;
       const avgAiScore = repLeads.length > 0
         ? repLeads.reduce((s, l) => s + (l.aiScore || 50), 0) / repLeads.length
@@ -127,16 +141,20 @@ const AICopilot: React.FC<AICopilotProps> = ({ leads, projects, commissions, hea
       
       // Stale leads (not won/lost, created > 2 days ago)
       const staleLeads = repLeads.filter(l => 
-        !['CLOSED_WON', 'CLOSED_LOST'].includes(l.status) &&
+        !isClosedStatus(l.status, leadPipeline) &&
         (now - new Date(l.createdAt).getTime()) > twoDaysMs
       ).length;
 
       // Stuck in qualified for 5+ days
       const qualifiedStuck = repLeads.filter(l =>
-        l.status === 'QUALIFIED' &&
+        getLeadFunnelStage(l.status, leadPipeline) === 'working' &&
         (now - new Date(l.createdAt).getTime()) > fiveDaysMs
       ).length;
 
+      // Appointments are kept by rep ID; leads name the rep
+      const repId = getRepByName(name)?.id;
+      const appts = appointmentStats.find(s => s.repId === repId);
+
       return {
         name,
         totalLeads: repLeads.length,
@@ -145,9 +163,12 @@ const AICopilot: React.FC<AICopilotProps> = ({ leads, projects, commissions, hea
         avgAiScore,
         staleLeads,
         qualifiedStuck,
+        appointments: appts?.booked || 0,
+        noShows: appts?.noShow || 0,
+        showRate: appts?.showRate ?? null,
       };
     }).sort((a, b) => b.totalLeads - a.totalLeads);
-  }, [leads]);
+  }, [leads, leadPipeline]);
 
   // === COMPUTE INSTALLER STATS ===
   const installerStats = useMemo<InstallerStats[]>(() => {
@@ -171,22 +192,22 @@ const AICopilot: React.FC<AICopilotProps> = ({ leads, projects, commissions, hea
 
   // === COMPUTE FORECAST ===
   const forecast = useMemo(() => {
-    return computeRevenueForecast(leads, projects, commissions);
-  }, [leads, projects, commissions]);
+    return computeRevenueForecast(leads, projects, commissions, loadCommissionRules(), loadPricing(), leadPipeline);
+  }, [leads, projects, commissions, leadPipeline]);
 
   // === ANALYSIS: STALE LEADS ===
   const staleLeads = useMemo(() => {
     const twoDaysMs = 2 * 24 * 60 * 60 * 1000;
     return leads.filter(l =>
-      !['CLOSED_WON', 'CLOSED_LOST'].includes(l.status) &&
+      !isClosedStatus(l.status, leadPipeline) &&
       (Date.now() - new Date(l.createdAt).getTime()) > twoDaysMs
     );
-  }, [leads]);
+  }, [leads, leadPipeline]);
 
   // === ANALYSIS: HIGH-VALUE UNWORKED ===
   const highValueUnworked = useMemo(() => {
-    return leads.filter(l => l.priority === 'high' && l.status === 'NEW');
-  }, [leads]);
+    return leads.filter(l => l.priority === 'high' && getLeadFunnelStage(l.status, leadPipeline) === 'new');
+  }, [leads, leadPipeline]);
 
   // === ANALYSIS: DELAYED PROJECTS ===
   const delayedProjects = useMemo(() => {
@@ -213,9 +234,10 @@ const AICopilot: React.FC<AICopilotProps> = ({ leads, projects, commissions, hea
     const total = leads.length;
     if (total === 0) return { qualifiedRate: 0, proposalRate: 0, winRate: 0, trend: 'stable' };
     
-    const qualified = leads.filter(l => l.status !== 'NEW').length;
-    const proposals = leads.filter(l => ['PROPOSAL_SENT', 'CLOSED_WON', 'CLOSED_LOST'].includes(l.status)).length;
-    const won = leads.filter(l => l.status === 'CLOSED_WON').length;
+    const stages = leads.map(l => getLeadFunnelStage(l.status, leadPipeline));
+    const qualified = stages.filter(s => s !== 'new').length;
+    const proposals = stages.filter(s => s === 'proposal' || s === 'won' || s === 'lost').length;
+    const won = stages.filter(s => s === 'won').length;
 
     return {
       qualifiedRate: (qualified / total) * 100,
@@ -223,7 +245,7 @@ const AICopilot: React.FC<AICopilotProps> = ({ leads, projects, commissions, hea
       winRate: (won / total) * 100,
       trend: won > 0 ? 'positive' : 'needs_attention',
     };
-  }, [leads]);
+  }, [leads, leadPipeline]);
 
   // === GENERATE PRIORITY ACTIONS ===
   const priorityActions = useMemo<ActionItem[]>(() => {
@@ -351,6 +373,12 @@ const AICopilot: React.FC<AICopilotProps> = ({ leads, projects, commissions, hea
         if (priority !== 'high') priority = 'medium';
       }
 
+      // Homeowners not showing
+      if (rep.showRate !== null && rep.showRate < 60 && rep.noShows >= 3) {
+        insights.push(`Only ${rep.showRate.toFixed(0)}% of appointments showed (${rep.noShows} no-shows) — confirm the day before and check setter handoffs.`);
+        if (priority !== 'high') priority = 'medium';
+      }
+
       // High AI score
       if (rep.avgAiScore > 70) {
         insights.push(`AI lead quality is excellent (${rep.avgAiScore.toFixed(0)}) — prioritize this rep for new canvassing.`);
@@ -371,6 +399,9 @@ const AICopilot: React.FC<AICopilotProps> = ({ leads, projects, commissions, hea
         rep: rep.name,
         insights: insights.length > 0 ? insights : ['On track — no immediate actions needed.'],
         priority,
+        metric: rep.appointments > 0
+          ? `${rep.appointments} appts${rep.showRate !== null ? ` • ${rep.showRate.toFixed(0)}% show` : ''}`
+          : undefined,
       };
     }).filter(c => c.insights.length > 0).sort((a, b) => {
       const priorityOrder = { high: 0, medium: 1, low: 2 };
@@ -531,6 +562,9 @@ const AICopilot: React.FC<AICopilotProps> = ({ leads, projects, commissions, hea
                   <div className="flex items-center gap-2 mb-2">
                     <span className="text-sm font-semibold text-blue-400">{coaching.rep}</span>
                     <PriorityBadge priority={coaching.priority} />
+                    {coaching.metric && (
+                      <span className="text-xs font-mono text-slate-500 ml-auto">{coaching.metric}</span>
+                    )}
                   </div>
                   <ul className="space-y-1">
                     {coaching.insights.map((insight, i) => (
@@ -20,6 +20,7 @@ import {
 } from 'lucide-react';
 import { logOverride } from '../services/auditLog';
 import { getActiveCompanyId, getActiveCompany } from '../services/companyStore';
+import { getLeadStatuses } from '../services/leadPipeline';
 import { loadAllLeads, saveLeads, loadAllProjects, saveProjects } from '../utils/storage';
 import type { Lead, Project } from '../types';
 
@@ -47,7 +48,7 @@ interface FieldOverride {
 // =============================================================================
 
 const LEAD_OVERRIDE_FIELDS = [
-  { key: 'status', label: 'Status', type: 'select', options: ['NEW', 'CONTACTED', 'QUALIFIED', 'PROPOSAL', 'NEGOTIATION', 'WON', 'LOST'] },
+  { key: 'status', label: 'Status', type: 'select', options: [] as string[] }, // From the company's lead pipeline
   { key: 'priority', label: 'Priority', type: 'select', options: ['low', 'medium', 'high', 'urgent'] },
   { key: 'assignedRep', label: 'Assigned Rep', type: 'text' },
   { key: 'value', label: 'Estimated Value', type: 'number' },
@@ -138,7 +139,10 @@ export default function AdminOverrideTools() {
   // Get field definitions for record type
   const getFieldDefinitions = () => {
     switch (recordType) {
-      case 'lead': return LEAD_OVERRIDE_FIELDS;
+      case 'lead': {
+        const statuses = getLeadStatuses(companyId).map(s => s.id);
+        return LEAD_OVERRIDE_FIELDS.map(f => (f.key === 'status' ? { ...f, options: statuses } : f));
+      }
       case 'project': return PROJECT_OVERRIDE_FIELDS;
       case 'commission': return COMMISSION_OVERRIDE_FIELDS;
       default: return [];
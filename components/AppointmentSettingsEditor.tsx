@@ -0,0 +1,301 @@
+// components/AppointmentSettingsEditor.tsx
+// Appointment Settings Editor - closer availability, assignment and reminders
+
+import React, { useState, useEffect } from 'react';
+import { CalendarClock, Save, Check, Plus, Trash2, Shuffle, ListFilter } from 'lucide-react';
+import { loadAppointmentSettings, saveAppointmentSettings, syncAppointmentsFromServer } from '../services/appointments';
+import type { AppointmentSettings, AssignmentRule, AvailabilityWindow } from '../services/appointmentBooking';
+import { getActiveCompany, getActiveCompanyId } from '../services/companyStore';
+import { logUpdate } from '../services/auditLog';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const inputClass = 'bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500';
+
+const newId = (prefix: string) => prefix + '_' + Date.now().toString(36) + '_' + Math.random().toString(36).substring(2, 7);
+
+export default function AppointmentSettingsEditor() {
+  const companyId = getActiveCompanyId();
+  const reps = (getActiveCompany()?.reps || []).filter(r => r.isActive);
+  const [settings, setSettings] = useState<AppointmentSettings>(() => loadAppointmentSettings(companyId));
+  const [isSaved, setIsSaved] = useState(false);
+  const [hasChanges, setHasChanges] = useState(false);
+
+  useEffect(() => {
+    syncAppointmentsFromServer(companyId).then(() => setSettings(loadAppointmentSettings(companyId)));
+  }, [companyId]);
+
+  const update = (changes: Partial<AppointmentSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+    setHasChanges(true);
+  };
+
+  const updateWindow = (id: string, changes: Partial<AvailabilityWindow>) =>
+    update({ windows: settings.windows.map(w => (w.id === id ? { ...w, ...changes } : w)) });
+
+  const updateRule = (id: string, changes: Partial<AssignmentRule>) =>
+    update({ rules: settings.rules.map(r => (r.id === id ? { ...r, ...changes } : r)) });
+
+  const errors: string[] = [];
+  settings.windows.forEach(w => {
+    if (w.end <= w.start) {
+      const rep = reps.find(r => r.id === w.repId);
+      errors.push(`${rep?.name || 'A closer'}'s ${WEEKDAYS[w.weekday]} window ends before it starts`);
+    }
+  });
+  settings.rules.forEach(r => {
+    if (r.repIds.length === 0) errors.push(`Rule "${r.name || 'Untitled'}" has no closers`);
+  });
+
+  const handleSave = async () => {
+    if (errors.length > 0) {
+      alert('Please fix validation errors before saving');
+      return;
+    }
+    const before = loadAppointmentSettings(companyId);
+    // Keep the round-robin position, which moves as appointments are booked
+    const next = { ...settings, lastAssignedRepId: before.lastAssignedRepId };
+    const serverError = await saveAppointmentSettings(companyId, next);
+    logUpdate('Settings', 'appointments', before, next);
+    if (serverError) {
+      alert(`Saved locally, but the server rejected it: ${serverError}`);
+      return;
+    }
+    setSettings(loadAppointmentSettings(companyId));
+    setIsSaved(true);
+    setHasChanges(false);
+    setTimeout(() => setIsSaved(false), 2000);
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-bold text-white">Appointments</h3>
+          <p className="text-sm text-slate-400 mt-1">
+            When closers take appointments, how leads are assigned and when closers are reminded
+          </p>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={!hasChanges}
+          className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold transition-all ${
+            hasChanges
+              ? 'bg-emerald-600 hover:bg-emerald-500 text-white'
+              : 'bg-slate-700 text-slate-500 cursor-not-allowed'
+          }`}
+        >
+          {isSaved ? <Check size={16} /> : <Save size={16} />}
+          {isSaved ? 'Saved!' : 'Save Changes'}
+        </button>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="p-3 bg-red-900/20 border border-red-800 rounded-lg text-sm text-red-300 space-y-1">
+          {errors.map(e => <p key={e}>{e}</p>)}
+        </div>
+      )}
+
+      {/* General */}
+      <div className="glass-panel p-4 rounded-xl grid grid-cols-1 md:grid-cols-4 gap-4">
+        <label className="text-sm text-slate-400">
+          Appointment length (min)
+          <input
+            type="number"
+            min={15}
+            step={15}
+            value={settings.durationMinutes}
+            onChange={e => update({ durationMinutes: Math.max(15, parseInt(e.target.value) || 0) })}
+            className={`${inputClass} w-full mt-1`}
+          />
+        </label>
+        <label className="text-sm text-slate-400">
+          Offer a time every (min)
+          <input
+            type="number"
+            min={15}
+            step={15}
+            value={settings.slotStepMinutes}
+            onChange={e => update({ slotStepMinutes: Math.max(15, parseInt(e.target.value) || 0) })}
+            className={`${inputClass} w-full mt-1`}
+          />
+        </label>
+        <label className="text-sm text-slate-400">
+          Remind closer before (min)
+          <input
+            type="number"
+            min={0}
+            step={15}
+            value={settings.reminderMinutes}
+            onChange={e => update({ reminderMinutes: Math.max(0, parseInt(e.target.value) || 0) })}
+            className={`${inputClass} w-full mt-1`}
+          />
+        </label>
+        <div className="text-sm text-slate-400">
+          Assignment
+          <div className="flex gap-2 mt-1">
+            <button
+              onClick={() => update({ assignment: 'round_robin' })}
+              className={`flex items-center gap-1 px-3 py-2 rounded-lg text-sm ${
+                settings.assignment === 'round_robin' ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
+              }`}
+            >
+              <Shuffle size={14} /> Round-robin
+            </button>
+            <button
+              onClick={() => update({ assignment: 'rules' })}
+              className={`flex items-center gap-1 px-3 py-2 rounded-lg text-sm ${
+                settings.assignment === 'rules' ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
+              }`}
+            >
+              <ListFilter size={14} /> Rules
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Availability */}
+      <div className="glass-panel p-4 rounded-xl space-y-4">
+        <h4 className="text-sm font-bold text-white flex items-center gap-2">
+          <CalendarClock size={16} className="text-purple-400" />
+          Closer Availability
+        </h4>
+        {reps.length === 0 && <p className="text-sm text-slate-500">Add reps in the Reps Directory first.</p>}
+        {reps.map(rep => {
+          const windows = settings.windows
+            .filter(w => w.repId === rep.id)
+            .sort((a, b) => a.weekday - b.weekday || a.start.localeCompare(b.start));
+          return (
+            <div key={rep.id} className="border-t border-slate-800 pt-3 first:border-t-0 first:pt-0">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-slate-200">{rep.name}</span>
+                <button
+                  onClick={() => update({
+                    windows: [...settings.windows, { id: newId('win'), repId: rep.id, weekday: 1, start: '10:00', end: '18:00' }],
+                  })}
+                  className="flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300"
+                >
+                  <Plus size={12} /> Add window
+                </button>
+              </div>
+              {windows.length === 0 ? (
+                <p className="text-xs text-slate-500 mt-1">Not taking appointments</p>
+              ) : (
+                <div className="mt-2 space-y-2">
+                  {windows.map(w => (
+                    <div key={w.id} className="flex items-center gap-2">
+                      <select
+                        value={w.weekday}
+                        onChange={e => updateWindow(w.id, { weekday: parseInt(e.target.value) })}
+                        className={inputClass}
+                        aria-label="Day"
+                      >
+                        {WEEKDAYS.map((day, i) => <option key={day} value={i}>{day}</option>)}
+                      </select>
+                      <input
+                        type="time"
+                        value={w.start}
+                        onChange={e => updateWindow(w.id, { start: e.target.value })}
+                        className={inputClass}
+                        aria-label="From"
+                      />
+                      <span className="text-slate-500 text-sm">to</span>
+                      <input
+                        type="time"
+                        value={w.end}
+                        onChange={e => updateWindow(w.id, { end: e.target.value })}
+                        className={inputClass}
+                        aria-label="To"
+                      />
+                      <button
+                        onClick={() => update({ windows: settings.windows.filter(x => x.id !== w.id) })}
+                        className="p-2 text-slate-500 hover:text-red-400"
+                        aria-label="Remove window"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Assignment rules */}
+      {settings.assignment === 'rules' && (
+        <div className="glass-panel p-4 rounded-xl space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h4 className="text-sm font-bold text-white">Assignment Rules</h4>
+              <p className="text-xs text-slate-500 mt-1">
+                The first matching rule picks the closers; leads matching no rule go to everyone. Closers within a rule rotate.
+              </p>
+            </div>
+            <button
+              onClick={() => update({
+                rules: [...settings.rules, { id: newId('rule'), name: '', zipPrefixes: [], repIds: [] }],
+              })}
+              className="flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300"
+            >
+              <Plus size={12} /> Add rule
+            </button>
+          </div>
+          {settings.rules.map(rule => (
+            <div key={rule.id} className="border-t border-slate-800 pt-3 space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="text"
+                  value={rule.name}
+                  onChange={e => updateRule(rule.id, { name: e.target.value })}
+                  placeholder="Rule name"
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  value={rule.zipPrefixes.join(', ')}
+                  onChange={e => updateRule(rule.id, {
+                    zipPrefixes: e.target.value.split(',').map(z => z.trim()).filter(Boolean),
+                  })}
+                  placeholder="ZIP prefixes, e.g. 850, 852"
+                  className={inputClass}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  value={rule.minBill ?? ''}
+                  onChange={e => updateRule(rule.id, { minBill: e.target.value === '' ? undefined : Math.max(0, parseFloat(e.target.value) || 0) })}
+                  placeholder="Min. bill ($)"
+                  className={`${inputClass} w-32`}
+                />
+                <button
+                  onClick={() => update({ rules: settings.rules.filter(r => r.id !== rule.id) })}
+                  className="p-2 text-slate-500 hover:text-red-400"
+                  aria-label="Remove rule"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-3">
+                {reps.map(rep => (
+                  <label key={rep.id} className="flex items-center gap-1 text-xs text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={rule.repIds.includes(rep.id)}
+                      onChange={e => updateRule(rule.id, {
+                        repIds: e.target.checked ? [...rule.repIds, rep.id] : rule.repIds.filter(id => id !== rep.id),
+                      })}
+                    />
+                    {rep.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
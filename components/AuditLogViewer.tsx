@@ -46,7 +46,7 @@ interface AuditLogViewerProps {
 
 const OBJECT_TYPES: AuditObjectType[] = [
   'Lead', 'Project', 'Commission', 'Settings', 'SLA', 'Stage', 
-  'Pipeline', 'Rep', 'Installer', 'CustomField', 'CommissionRule', 'Team', 'Company'
+  'Pipeline', 'Rep', 'Installer', 'CustomField', 'CommissionRule', 'PayoutRun', 'Appointment', 'Team', 'Company'
 ];
 
 const ACTION_TYPES: AuditActionType[] = ['create', 'update', 'delete', 'override', 'import', 'export'];
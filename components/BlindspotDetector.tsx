@@ -1,16 +1,30 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { SEED_LEADS, SEED_ANALYSES, createProjectForLead, generateMilestoneCommissions } from '../constants';
+import { SEED_LEADS, SEED_ANALYSES, createProjectForLead } from '../constants';
 import { simulateSolarAnalysis, generateProposalStrategy, dealCopilotSuggestions, analyzeCompliance, analyzeSolarImage, generateOutreachMessage } from '../services/geminiService';
-import { SolarAnalysis, ComplianceAnalysis, Lead, Project, Commission, UserProfile, PlanId } from '../types';
-import { Sun, Zap, Loader2, Sparkles, MessageSquare, Calculator, Shield, AlertTriangle, CheckCircle2, PenTool, Lock, Map, Image as ImageIcon, Upload, Globe, Mail, Send, Copy, FileText } from 'lucide-react';
+import { SolarAnalysis, ComplianceAnalysis, Lead, Project, Commission, UserProfile, PlanId, SystemDesign, Contract } from '../types';
+import { Sun, Zap, Loader2, Sparkles, MessageSquare, Calculator, Shield, AlertTriangle, CheckCircle2, PenTool, Lock, Map, Image as ImageIcon, Upload, Globe, Mail, Send, Copy, FileText, LayoutGrid } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import { generateSolarHeatmap } from '../utils/heatmap';
-import { loadOrDefault, save } from '../utils/storage';
+import { loadOrDefault, save, saveLeads, saveProjects, saveCommissions } from '../utils/storage';
+import { onSyncFailure } from '../services/recordSync';
 import { SignatureModal } from './SignatureModal';
 import { ProposalViewer } from './ProposalViewer';
 import { hasAccess, getRequiredPlan } from '../utils/plan';
 import { LockedFeature } from './LockedFeature';
+import { DEFAULT_ROOF, COMPASS_OPTIONS, RoofPlane } from '../services/productionModel';
+import { DEFAULT_MODULE_ID } from '../services/equipmentCatalog';
+import { loadEquipment } from '../services/equipmentConfig';
+import { loadCommissionRules } from '../services/commissionRulesConfig';
+import { generateDealCommissions } from '../services/commissionEngine';
+import { getActiveCompany } from '../services/companyStore';
+import { loadSession } from '../services/auth';
+import { proposalsApi } from '../services/api';
+import { getWonLeadStatus, isWonStatus, getLeadFunnelStage } from '../services/leadPipeline';
+import { designPanelCount, designKw } from '../services/roofDesign';
+import { RoofDesigner } from './RoofDesigner';
+
+const EMPTY_DESIGN: SystemDesign = { moduleId: DEFAULT_MODULE_ID, faces: [] };
 
 const LEADS_KEY = "primus_leads";
 const PROJECTS_KEY = "primus_projects";
@@ -39,13 +53,16 @@ const SolarIntelligence: React.FC<SolarIntelligenceProps> = ({ userProfile, onRe
 
   const [leadId, setLeadId] = useState<string>(leads[0]?.id || "");
   const [currentAnalysis, setCurrentAnalysis] = useState<SolarAnalysis | null>(null);
+  const [roof, setRoof] = useState<RoofPlane>(DEFAULT_ROOF);
+  const [design, setDesign] = useState<SystemDesign>(EMPTY_DESIGN);
+  const hasDesign = designPanelCount(design) > 0;
   
   // UI State
   const [proposal, setProposal] = useState("");
   const [dealHelp, setDealHelp] = useState<{text: string, groundingUrls?: string[]} | null>(null);
   const [compliance, setCompliance] = useState<ComplianceAnalysis | null>(null);
   const [outreach, setOutreach] = useState("");
-  const [activeTab, setActiveTab] = useState<'ANALYSIS' | 'COPILOT' | 'COMPLIANCE' | 'IMAGE' | 'COMMS'>('ANALYSIS');
+  const [activeTab, setActiveTab] = useState<'ANALYSIS' | 'DESIGN' | 'COPILOT' | 'COMPLIANCE' | 'IMAGE' | 'COMMS'>('ANALYSIS');
   const [toast, setToast] = useState<string | null>(null);
   
   // Image Analysis State
@@ -68,10 +85,18 @@ const SolarIntelligence: React.FC<SolarIntelligenceProps> = ({ userProfile, onRe
   const currentPlan = userProfile.plan as PlanId;
 
   // Persistence Effects
-  useEffect(() => { save(LEADS_KEY, leads); }, [leads]);
+  useEffect(() => { saveLeads(leads); }, [leads]);
   useEffect(() => { save(ANALYSES_KEY, analyses); }, [analyses]);
-  useEffect(() => { save(PROJECTS_KEY, projects); }, [projects]);
-  useEffect(() => { save(COMMISSIONS_KEY, commissions); }, [commissions]);
+  useEffect(() => { saveProjects(projects); }, [projects]);
+  useEffect(() => { saveCommissions(commissions); }, [commissions]);
+
+  // A change the server refused has been undone in the local copy
+  useEffect(() => onSyncFailure(failure => {
+    if (!failure.records) return;
+    if (failure.collection === 'leads') setLeads(failure.records as Lead[]);
+    if (failure.collection === 'projects') setProjects(failure.records as Project[]);
+    if (failure.collection === 'commissions') setCommissions(failure.records as Commission[]);
+  }), []);
 
   // Sync analysis when lead changes
   useEffect(() => {
@@ -84,6 +109,7 @@ const SolarIntelligence: React.FC<SolarIntelligenceProps> = ({ userProfile, onRe
     
     const existing = analyses.find(a => a.leadId === leadId);
     setCurrentAnalysis(existing || null);
+    setDesign(existing?.design || EMPTY_DESIGN);
 
     if (existing && selectedLead && hasAccess(currentPlan, 'complianceShield')) {
         runComplianceCheck(selectedLead, existing);
@@ -100,7 +126,7 @@ const SolarIntelligence: React.FC<SolarIntelligenceProps> = ({ userProfile, onRe
     setLoadingAnalysis(true);
     
     try {
-        const newAnalysis = await simulateSolarAnalysis(selectedLead);
+        const newAnalysis = await simulateSolarAnalysis(selectedLead, {}, roof, hasDesign ? design : undefined);
         
         setAnalyses(prev => {
             const filtered = prev.filter(a => a.leadId !== selectedLead.id);
@@ -125,7 +151,7 @@ const SolarIntelligence: React.FC<SolarIntelligenceProps> = ({ userProfile, onRe
   const runDealCopilot = async () => {
     if (!selectedLead) return;
     setLoadingCopilot(true);
-    const stage = selectedLead.status === 'NEW' ? 'NEW' : 'PERMITTING';
+    const stage = getLeadFunnelStage(selectedLead.status) === 'new' ? 'NEW' : 'PERMITTING';
     try {
         const result = await dealCopilotSuggestions(selectedLead, stage);
         setDealHelp({ text: result.text, groundingUrls: result.groundingUrls });
@@ -200,20 +226,30 @@ const SolarIntelligence: React.FC<SolarIntelligenceProps> = ({ userProfile, onRe
       setIsSignModalOpen(true);
   };
 
-  const handleContractSigned = (signatureData: string) => {
+  const handleContractSigned = async (contract: Contract) => {
       if (!selectedLead || !currentAnalysis) return;
       setIsSignModalOpen(false);
-      setLeads(prev => prev.map(l => l.id === selectedLead.id ? {...l, status: 'CLOSED_WON'} : l));
+      setLeads(prev => prev.map(l => l.id === selectedLead.id ? {...l, status: getWonLeadStatus(), signedContractId: contract.id} : l));
 
       if (!projects.some(p => p.leadId === selectedLead.id)) {
-        const newProject = createProjectForLead(selectedLead, currentAnalysis);
+        // The project is priced from the proposal version the homeowner signed
+        const proposal = await proposalsApi.getById(contract.proposalId);
+        const signedAnalysis = proposal.success && proposal.data ? proposal.data.snapshot.analysis : currentAnalysis;
+        const newProject = createProjectForLead(selectedLead, signedAnalysis, loadEquipment(), getActiveCompany()?.reps, contract.financingType);
         setProjects(prev => [...prev, newProject]);
-        const newComms = generateMilestoneCommissions(newProject);
-        const updatedComms = newComms.map(c => 
-            c.milestone === 'SIGNED' ? { ...c, status: 'PAID' as const, expectedPayDate: new Date().toISOString().slice(0,10) } : c
-        );
-        setCommissions(prev => [...prev, ...updatedComms]);
-        showToast("🎉 CONTRACT SIGNED! Project Started & Commission Logged.");
+        // Signed in, the server logs the signing commission when it receives the project
+        if (loadSession()) {
+            showToast("🎉 CONTRACT SIGNED! Project Started.");
+            return;
+        }
+        const daysToClose = Math.floor((Date.now() - new Date(selectedLead.createdAt).getTime()) / (1000 * 60 * 60 * 24));
+        const newComms = generateDealCommissions(newProject, loadCommissionRules(), commissions, {
+            estimatedBill: selectedLead.estimatedBill,
+            daysToClose,
+            deals: projects,
+        });
+        setCommissions(prev => [...prev, ...newComms]);
+        showToast(newComms.length > 0 ? "🎉 CONTRACT SIGNED! Project Started & Commission Logged." : "🎉 CONTRACT SIGNED! Project Started.");
       } else {
         showToast("Contract updated.");
       }
@@ -241,13 +277,10 @@ const SolarIntelligence: React.FC<SolarIntelligenceProps> = ({ userProfile, onRe
         <SignatureModal 
             isOpen={isSignModalOpen}
             onClose={() => setIsSignModalOpen(false)}
-            onConfirm={handleContractSigned}
-            contractDetails={{
-                customerName: selectedLead.name,
-                systemSize: currentAnalysis.systemSizeKw,
-                monthlyPayment: currentAnalysis.estimatedMonthlyPayment,
-                totalCost: currentAnalysis.netCost
-            }}
+            onCompleted={handleContractSigned}
+            lead={selectedLead}
+            analysis={currentAnalysis}
+            repName={userProfile.name}
         />
       )}
 
@@ -293,6 +326,14 @@ const SolarIntelligence: React.FC<SolarIntelligenceProps> = ({ userProfile, onRe
             Roof & Financials
           </button>
           
+          <button 
+            onClick={() => setActiveTab('DESIGN')}
+            className={`px-4 py-2 rounded-lg text-sm font-bold transition-all whitespace-nowrap flex items-center gap-2 ${activeTab === 'DESIGN' ? 'bg-slate-800 text-white border border-slate-600' : 'text-slate-500 hover:text-slate-300'}`}
+          >
+            <LayoutGrid size={14} />
+            Roof Designer
+          </button>
+
           <button 
             onClick={() => setActiveTab('IMAGE')}
             className={`px-4 py-2 rounded-lg text-sm font-bold transition-all whitespace-nowrap flex items-center gap-2 ${activeTab === 'IMAGE' ? 'bg-slate-800 text-white border border-slate-600' : 'text-slate-500 hover:text-slate-300'}`}
@@ -355,7 +396,7 @@ const SolarIntelligence: React.FC<SolarIntelligenceProps> = ({ userProfile, onRe
                                 Proposal
                             </button>
                         )}
-                        {currentAnalysis && selectedLead?.status !== 'CLOSED_WON' && (
+                        {currentAnalysis && selectedLead && !isWonStatus(selectedLead.status) && (
                              <button 
                                 onClick={handleInitiateClose}
                                 className={`text-xs px-4 py-1.5 rounded-lg font-bold transition-all flex items-center gap-2 
@@ -378,6 +419,55 @@ const SolarIntelligence: React.FC<SolarIntelligenceProps> = ({ userProfile, onRe
                     </div>
                 </div>
 
+                {/* Roof inputs for the production model */}
+                {hasDesign ? (
+                    <button
+                        onClick={() => setActiveTab('DESIGN')}
+                        className="w-full mb-4 text-left text-xs bg-blue-500/10 border border-blue-500/30 text-blue-300 rounded-lg px-3 py-2 flex items-center gap-2"
+                    >
+                        <LayoutGrid size={14} />
+                        Using roof design: {design.faces.filter(f => f.panels.length > 0).length} faces, {designPanelCount(design)} panels, {designKw(design, loadEquipment())} kW
+                    </button>
+                ) : (
+                <div className="grid grid-cols-3 gap-2 mb-4">
+                    <label className="text-[10px] text-slate-500 uppercase">
+                        Pitch
+                        <select
+                            value={roof.pitch}
+                            onChange={e => setRoof({ ...roof, pitch: Number(e.target.value) })}
+                            className="mt-1 w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white"
+                        >
+                            {[0, 2, 3, 4, 5, 6, 7, 8, 9, 10, 12].map(p => (
+                                <option key={p} value={p}>{p === 0 ? 'Flat' : `${p}/12`}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="text-[10px] text-slate-500 uppercase">
+                        Facing
+                        <select
+                            value={roof.azimuthDeg}
+                            onChange={e => setRoof({ ...roof, azimuthDeg: Number(e.target.value) })}
+                            className="mt-1 w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white"
+                        >
+                            {COMPASS_OPTIONS.map(o => (
+                                <option key={o.value} value={o.value}>{o.label}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="text-[10px] text-slate-500 uppercase">
+                        Shading %
+                        <input
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={roof.shadingPct}
+                            onChange={e => setRoof({ ...roof, shadingPct: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })}
+                            className="mt-1 w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white"
+                        />
+                    </label>
+                </div>
+                )}
+
                 {currentAnalysis ? (
                     <div className="space-y-6">
                         <div className="grid grid-cols-2 gap-4">
@@ -387,7 +477,7 @@ const SolarIntelligence: React.FC<SolarIntelligenceProps> = ({ userProfile, onRe
                             </div>
                             <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-800">
                                 <div className="text-xs text-slate-500 uppercase">Sun Hours</div>
-                                <div className="text-xl font-mono font-bold text-white">{currentAnalysis.sunHoursPerDay} <span className="text-xs text-slate-500">hrs/day</span></div>
+                                <div className="text-xl font-mono font-bold text-white">{currentAnalysis.sunHoursPerDay} <span className="text-xs text-slate-500">hrs/day · {currentAnalysis.roofPitch}</span></div>
                             </div>
                             <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-800">
                                 <div className="text-xs text-slate-500 uppercase">System Size</div>
@@ -473,6 +563,22 @@ const SolarIntelligence: React.FC<SolarIntelligenceProps> = ({ userProfile, onRe
               </div>
            )}
 
+           {activeTab === 'DESIGN' && (
+              <div className="glass-panel rounded-2xl p-6 border border-slate-700/50 min-h-[400px] animate-fade-in">
+                <h3 className="text-lg font-bold text-slate-200 mb-1 flex items-center gap-2">
+                    <LayoutGrid size={18} className="text-blue-400"/> Roof Designer
+                </h3>
+                <p className="text-xs text-slate-500 mb-4">
+                    Lay out every usable roof face. Re-run the analysis to size, price and save the design with this lead.
+                </p>
+                {selectedLead ? (
+                    <RoofDesigner address={selectedLead.address} design={design} onChange={setDesign} />
+                ) : (
+                    <p className="text-sm text-slate-600">Select a lead to start a design.</p>
+                )}
+              </div>
+           )}
+
            {activeTab === 'IMAGE' && (
               <div className="glass-panel rounded-2xl p-6 border border-slate-700/50 min-h-[400px] animate-fade-in flex flex-col">
                   <h3 className="text-lg font-bold text-slate-200 mb-4 flex items-center gap-2">
@@ -1,12 +1,14 @@
 
 import React, { useEffect, useMemo, useState } from "react";
-import { loadOrDefault, save } from "../utils/storage";
+import { loadOrDefault, saveCommissions, syncCommissionsFromServer } from "../utils/storage";
+import { onSyncFailure } from "../services/recordSync";
 import { SEED_COMMISSIONS, SEED_LEADS } from "../constants";
 import type { Commission, PlanId } from "../types";
-import { DollarSign, Wallet, CalendarClock, CheckCircle2, Download, Clock, BadgeCheck, X } from "lucide-react";
+import { DollarSign, Wallet, CalendarClock, CheckCircle2, Download, Clock, BadgeCheck, X, Ban, Undo2, Lock, Layers } from "lucide-react";
 import { notifyCommissionApproved, notify } from "../services/notifications";
 import { getActiveCompanyId } from "../services/companyStore";
 import { logUpdate } from "../services/auditLog";
+import PayoutRuns from "./PayoutRuns";
 
 const COMMISSIONS_KEY = "primus_commissions";
 
@@ -20,6 +22,7 @@ export const CommissionLog: React.FC<CommissionLogProps> = ({ onRequestUpgrade }
   );
 
   const [leads] = useState(SEED_LEADS);
+  const [view, setView] = useState<"log" | "runs">("log");
 
   // Payment Modal State
   const [paymentModalOpen, setPaymentModalOpen] = useState(false);
@@ -27,10 +30,20 @@ export const CommissionLog: React.FC<CommissionLogProps> = ({ onRequestUpgrade }
   const [payoutMethod, setPayoutMethod] = useState("ACH Transfer");
   const [paidDate, setPaidDate] = useState(new Date().toISOString().slice(0, 10));
 
+  // Signed in, the server's commissions replace the local copy
   useEffect(() => {
-    save(COMMISSIONS_KEY, commissions);
+    syncCommissionsFromServer().then(serverCommissions => { if (serverCommissions) setCommissions(serverCommissions); });
+  }, []);
+
+  useEffect(() => {
+    saveCommissions(commissions);
   }, [commissions]);
 
+  // A change the server refused has been undone in the local copy
+  useEffect(() => onSyncFailure(failure => {
+    if (failure.collection === 'commissions' && failure.records) setCommissions(failure.records as Commission[]);
+  }), []);
+
   const totals = useMemo(() => {
     const pending = commissions
       .filter((c) => c.status === "PENDING")
@@ -51,6 +64,13 @@ export const CommissionLog: React.FC<CommissionLogProps> = ({ onRequestUpgrade }
            new Date(paidAt).getFullYear() === new Date().getFullYear();
   }).length;
 
+  // Approve a pending line so it can go into a payout run
+  const approveCommission = (commission: Commission) => {
+    const updatedCommission = { ...commission, status: "APPROVED" as const, approvedAt: new Date().toISOString() };
+    setCommissions((prev) => prev.map((c) => (c.id === commission.id ? updatedCommission : c)));
+    logUpdate('Commission', commission.id, commission, updatedCommission, { action: 'approve' });
+  };
+
   // Open payment modal
   const openPaymentModal = (commission: Commission) => {
     setSelectedCommission(commission);
@@ -120,10 +140,12 @@ export const CommissionLog: React.FC<CommissionLogProps> = ({ onRequestUpgrade }
 
   // Export CSV
   const exportCSV = () => {
-    const headers = ["Lead", "Milestone", "Amount", "Status", "PaidAt", "PayoutMethod", "ExpectedPayDate"];
+    const headers = ["Lead", "Milestone", "Role", "Type", "Amount", "Status", "PaidAt", "PayoutMethod", "ExpectedPayDate"];
     const rows = commissions.map((c) => [
       leadName(c.leadId),
       c.milestone,
+      c.role || "",
+      c.kind || "commission",
       c.amountUsd.toString(),
       c.status,
       (c as any).paidAt || "",
@@ -163,6 +185,13 @@ export const CommissionLog: React.FC<CommissionLogProps> = ({ onRequestUpgrade }
         </span>
       );
     }
+    if (status === "CANCELLED") {
+      return (
+        <span className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded text-xs font-bold border uppercase tracking-wider bg-slate-500/10 text-slate-400 border-slate-500/20">
+          <Ban size={10} /> Cancelled
+        </span>
+      );
+    }
     return (
       <span className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded text-xs font-bold border uppercase tracking-wider bg-yellow-500/10 text-yellow-400 border-yellow-500/20">
         <Clock size={10} /> Pending
@@ -180,15 +209,29 @@ export const CommissionLog: React.FC<CommissionLogProps> = ({ onRequestUpgrade }
           </h2>
           <p className="text-slate-400 mt-1">Track your earnings and payout schedules.</p>
         </div>
-        <button
-          onClick={exportCSV}
-          className="flex items-center gap-2 px-4 py-2 bg-slate-800 border border-slate-700 text-slate-300 rounded-lg hover:bg-slate-700 hover:text-white transition-colors text-sm font-medium"
-        >
-          <Download size={16} />
-          Export CSV
-        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setView(view === "log" ? "runs" : "log")}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-800 border border-slate-700 text-slate-300 rounded-lg hover:bg-slate-700 hover:text-white transition-colors text-sm font-medium"
+          >
+            <Layers size={16} />
+            {view === "log" ? "Payout Runs" : "Commission Log"}
+          </button>
+          <button
+            onClick={exportCSV}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-800 border border-slate-700 text-slate-300 rounded-lg hover:bg-slate-700 hover:text-white transition-colors text-sm font-medium"
+          >
+            <Download size={16} />
+            Export CSV
+          </button>
+        </div>
       </div>
 
+      {view === "runs" ? (
+        <PayoutRuns commissions={commissions} onCommissionsChange={setCommissions} leadName={leadName} />
+      ) : (
+      <>
+
       {/* Payout Pipeline Summary */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <div className="bg-slate-900 border border-slate-800 rounded-xl p-4">
@@ -250,7 +293,7 @@ export const CommissionLog: React.FC<CommissionLogProps> = ({ onRequestUpgrade }
       <div className="glass-panel border border-slate-800 rounded-xl overflow-hidden">
         {commissions.length === 0 ? (
           <p className="p-8 text-center text-slate-500">
-            No commissions yet. Advance projects to PTO to unlock payouts.
+            No commissions yet. Sign a deal and advance its project to unlock payouts.
           </p>
         ) : (
           <div className="overflow-x-auto">
@@ -276,9 +319,18 @@ export const CommissionLog: React.FC<CommissionLogProps> = ({ onRequestUpgrade }
                         <span className="px-2 py-1 rounded bg-slate-800 border border-slate-700 text-xs font-mono text-slate-300">
                             {c.milestone.replace('_', ' ')}
                         </span>
+                        {c.role && (
+                          <div className="text-[10px] text-slate-500 uppercase tracking-wider mt-1.5 flex items-center gap-1">
+                            {c.kind === 'clawback' && <Undo2 size={10} className="text-red-400" />}
+                            {c.kind === 'clawback' ? 'Clawback' : c.kind === 'override' ? 'Override' : c.role}
+                          </div>
+                        )}
                     </td>
-                    <td className="px-6 py-4 font-mono font-bold text-emerald-400">
-                        ${c.amountUsd.toLocaleString()}
+                    <td
+                      className={`px-6 py-4 font-mono font-bold ${c.amountUsd < 0 ? 'text-red-400' : c.status === 'CANCELLED' ? 'text-slate-500 line-through' : 'text-emerald-400'}`}
+                      title={c.breakdown}
+                    >
+                        {c.amountUsd < 0 ? '-' : ''}${Math.abs(c.amountUsd).toLocaleString()}
                     </td>
                     <td className="px-6 py-4">
                         <StatusBadge status={c.status} />
@@ -296,7 +348,18 @@ export const CommissionLog: React.FC<CommissionLogProps> = ({ onRequestUpgrade }
                         )}
                     </td>
                     <td className="px-6 py-4 text-right">
-                      {c.status !== "PAID" && (
+                      {c.payoutRunId && c.status !== "PAID" ? (
+                        <span className="inline-flex items-center gap-1 text-xs text-blue-400" title={`Locked in payout run ${c.payoutRunId}`}>
+                          <Lock size={10} /> In payout run
+                        </span>
+                      ) : c.status === "PENDING" ? (
+                        <button
+                          className="text-blue-400 hover:text-blue-300 hover:bg-blue-500/10 px-3 py-1.5 rounded-md text-xs font-medium transition-colors border border-transparent hover:border-blue-500/30"
+                          onClick={() => approveCommission(c)}
+                        >
+                          Approve
+                        </button>
+                      ) : c.status === "APPROVED" && (
                         <button
                           className="text-emerald-400 hover:text-emerald-300 hover:bg-emerald-500/10 px-3 py-1.5 rounded-md text-xs font-medium transition-colors border border-transparent hover:border-emerald-500/30"
                           onClick={() => openPaymentModal(c)}
@@ -313,6 +376,9 @@ export const CommissionLog: React.FC<CommissionLogProps> = ({ onRequestUpgrade }
         )}
       </div>
 
+      </>
+      )}
+
       {/* Payment Modal */}
       {paymentModalOpen && selectedCommission && (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50">
@@ -1,7 +1,7 @@
 // components/CommissionRulesEditor.tsx
 // Commission Structure Builder UI - Configure commission tiers and bonuses
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   DollarSign,
   Plus,
@@ -18,11 +18,20 @@ import {
   ToggleRight,
   Info,
   ChevronDown,
+  Users,
+  FlaskConical,
+  History,
+  X,
 } from 'lucide-react';
 import {
   loadCommissionRules,
+  loadCommissionRulesAt,
+  loadCommissionRuleVersions,
   saveCommissionRules,
   resetCommissionRulesToDefaults,
+  syncCommissionRulesFromServer,
+} from '../services/commissionRulesConfig';
+import {
   CommissionRules,
   CommissionTier,
   CommissionBonus,
@@ -30,11 +39,38 @@ import {
   DEAL_TYPE_OPTIONS,
   CONDITION_FIELD_OPTIONS,
   OPERATOR_OPTIONS,
+  ENUM_OPERATOR_OPTIONS,
+  AGGREGATE_METRIC_OPTIONS,
+  AGGREGATE_PERIOD_OPTIONS,
+  MAX_CONDITION_DEPTH,
+  AggregateCondition,
+  AggregateMetric,
+  AggregatePeriod,
   BonusCondition,
+  BonusConditionNode,
+  ConditionGroup,
+  isAggregateCondition,
+  isConditionGroup,
+  describeCondition,
+  validateCondition,
+  PayoutMilestone,
+  PayoutStep,
+  PAYOUT_MILESTONES,
+  DEFAULT_PAYOUT_SCHEDULE,
+  EARLIEST_EFFECTIVE_DATE,
 } from '../services/commissionRules';
-import { getActiveCompanyId } from '../services/companyStore';
+import { simulateRules } from '../services/commissionSimulator';
+import { getActiveCompany, getActiveCompanyId } from '../services/companyStore';
+import { loadOrDefault } from '../utils/storage';
+import { SEED_LEADS, SEED_PROJECTS } from '../constants';
+import type { Lead, Project } from '../types';
+
+type TabType = 'tiers' | 'bonuses' | 'payouts' | 'simulate' | 'versions';
+
+const SIMULATION_MONTHS = [3, 6, 12, 24];
 
-type TabType = 'tiers' | 'bonuses';
+const usd = (value: number) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(Math.round(value)).toLocaleString('en-US')}`;
 
 export default function CommissionRulesEditor() {
   const [rules, setRules] = useState<CommissionRules | null>(null);
@@ -47,30 +83,78 @@ export default function CommissionRulesEditor() {
   const [editingTier, setEditingTier] = useState<CommissionTier | null>(null);
   const [editingBonus, setEditingBonus] = useState<CommissionBonus | null>(null);
 
+  const today = new Date().toISOString().slice(0, 10);
+  const [effectiveFrom, setEffectiveFrom] = useState(today);
+  const [versions, setVersions] = useState<CommissionRules[]>([]);
+  const [simulationMonths, setSimulationMonths] = useState(6);
+
   const companyId = getActiveCompanyId();
 
   useEffect(() => {
     const loaded = loadCommissionRules(companyId);
     setRules(loaded);
+    setVersions(loadCommissionRuleVersions(companyId));
+    syncCommissionRulesFromServer(companyId).then(synced => {
+      setRules(loadCommissionRules(companyId));
+      setVersions(synced);
+    });
   }, [companyId]);
 
-  const handleSave = () => {
+  // Replay recent deals through the draft against the rules each deal was signed under
+  const simulation = useMemo(() => {
+    if (!rules || activeTab !== 'simulate') return null;
+    return simulateRules(
+      loadOrDefault<Project[]>('primus_projects', SEED_PROJECTS),
+      loadOrDefault<Lead[]>('primus_leads', SEED_LEADS),
+      rules,
+      (project) => loadCommissionRulesAt(project.createdAt, companyId),
+      { months: simulationMonths, reps: getActiveCompany()?.reps }
+    );
+  }, [rules, activeTab, simulationMonths, companyId]);
+
+  const handleSave = async () => {
     if (rules) {
-      saveCommissionRules(companyId, rules);
+      const serverError = await saveCommissionRules(companyId, { ...rules, effectiveFrom });
+      if (serverError) {
+        alert(`Saved locally, but the server rejected it: ${serverError}`);
+        return;
+      }
+      const saved = loadCommissionRuleVersions(companyId);
+      setRules(saved.find(v => v.effectiveFrom === effectiveFrom) || rules);
+      setVersions(saved);
       setIsSaved(true);
       setHasChanges(false);
       setTimeout(() => setIsSaved(false), 2000);
     }
   };
 
-  const handleResetDefaults = () => {
+  const handleResetDefaults = async () => {
     if (confirm('Reset all commission rules to defaults?')) {
-      resetCommissionRulesToDefaults(companyId);
+      const serverError = await resetCommissionRulesToDefaults(companyId);
+      if (serverError) {
+        alert(`Saved locally, but the server rejected it: ${serverError}`);
+      }
       setRules(loadCommissionRules(companyId));
-      setHasChanges(true);
+      setVersions(loadCommissionRuleVersions(companyId));
+      setEffectiveFrom(today);
+      setHasChanges(false);
     }
   };
 
+  // Edit a copy of a saved version; past versions are kept and the edit takes effect today
+  const handleLoadVersion = (version: CommissionRules) => {
+    setRules(JSON.parse(JSON.stringify(version)));
+    setEffectiveFrom(version.effectiveFrom > today ? version.effectiveFrom : today);
+    setActiveTab('tiers');
+    setHasChanges(true);
+  };
+
+  const updateRules = (changes: Partial<CommissionRules>) => {
+    if (!rules) return;
+    setRules({ ...rules, ...changes });
+    setHasChanges(true);
+  };
+
   // Tier CRUD
   const handleAddTier = () => {
     setEditingTier(null);
@@ -195,7 +279,17 @@ export default function CommissionRulesEditor() {
             Configure commission tiers and bonus structures for your team
           </p>
         </div>
-        <div className="flex gap-2">
+        <div className="flex gap-2 items-center">
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            Effective from
+            <input
+              type="date"
+              value={effectiveFrom}
+              onChange={(e) => { setEffectiveFrom(e.target.value || today); setHasChanges(true); }}
+              className="bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-white text-sm focus:outline-none focus:border-blue-500"
+              aria-label="Rules effective from"
+            />
+          </label>
           <button
             onClick={handleResetDefaults}
             className="flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-sm font-medium transition-all"
@@ -242,6 +336,39 @@ export default function CommissionRulesEditor() {
           <Gift size={16} />
           Bonuses ({rules.bonuses.length})
         </button>
+        <button
+          onClick={() => setActiveTab('payouts')}
+          className={`flex items-center gap-2 px-4 py-2 rounded-t-lg text-sm font-bold transition-all ${
+            activeTab === 'payouts'
+              ? 'bg-slate-800 text-white border-b-2 border-solar-orange'
+              : 'text-slate-500 hover:text-slate-300'
+          }`}
+        >
+          <Users size={16} />
+          Splits & Payouts
+        </button>
+        <button
+          onClick={() => setActiveTab('simulate')}
+          className={`flex items-center gap-2 px-4 py-2 rounded-t-lg text-sm font-bold transition-all ${
+            activeTab === 'simulate'
+              ? 'bg-slate-800 text-white border-b-2 border-solar-orange'
+              : 'text-slate-500 hover:text-slate-300'
+          }`}
+        >
+          <FlaskConical size={16} />
+          Simulate
+        </button>
+        <button
+          onClick={() => setActiveTab('versions')}
+          className={`flex items-center gap-2 px-4 py-2 rounded-t-lg text-sm font-bold transition-all ${
+            activeTab === 'versions'
+              ? 'bg-slate-800 text-white border-b-2 border-solar-orange'
+              : 'text-slate-500 hover:text-slate-300'
+          }`}
+        >
+          <History size={16} />
+          Versions ({versions.length})
+        </button>
       </div>
 
       {/* TIERS TAB */}
@@ -315,6 +442,16 @@ export default function CommissionRulesEditor() {
                       </span>
                     ))}
                   </div>
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {(tier.payoutSchedule?.length ? tier.payoutSchedule : DEFAULT_PAYOUT_SCHEDULE).map((step) => (
+                      <span
+                        key={step.milestone}
+                        className="px-2 py-0.5 bg-emerald-500/10 text-emerald-300 text-xs rounded font-mono"
+                      >
+                        {step.pct}% at {step.milestone}
+                      </span>
+                    ))}
+                  </div>
                 </div>
               ))
             )}
@@ -359,11 +496,7 @@ export default function CommissionRulesEditor() {
                       <div>
                         <h4 className="text-white font-bold">{bonus.label}</h4>
                         <p className="text-sm text-slate-400 mt-1">
-                          When <span className="text-slate-300">{CONDITION_FIELD_OPTIONS.find(f => f.value === bonus.condition.field)?.label}</span>
-                          {' '}
-                          <span className="text-slate-300">{OPERATOR_OPTIONS.find(o => o.value === bonus.condition.operator)?.label}</span>
-                          {' '}
-                          <span className="text-white font-mono">{bonus.condition.value}</span>
+                          When <span className="text-slate-300">{describeCondition(bonus.condition)}</span>
                         </p>
                       </div>
                     </div>
@@ -405,14 +538,220 @@ export default function CommissionRulesEditor() {
         </div>
       )}
 
+      {/* SPLITS & PAYOUTS TAB */}
+      {activeTab === 'payouts' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <SettingCard
+            title="Setter / Closer Split"
+            description="Setter's share of the base and redline when a deal has a setter; the closer keeps the rest plus bonuses"
+          >
+            <NumberField
+              label="Setter share (%)"
+              value={rules.split.setterPct}
+              min={0}
+              max={100}
+              onChange={(setterPct) => updateRules({ split: { setterPct } })}
+            />
+          </SettingCard>
+
+          <SettingCard
+            title="Manager Override"
+            description="Paid to the closer's team manager on every deal"
+            enabled={rules.managerOverride.enabled}
+            onToggle={() => updateRules({ managerOverride: { ...rules.managerOverride, enabled: !rules.managerOverride.enabled } })}
+          >
+            <NumberField
+              label="Override ($/W)"
+              value={rules.managerOverride.perWatt}
+              min={0}
+              step={0.01}
+              onChange={(perWatt) => updateRules({ managerOverride: { ...rules.managerOverride, perWatt } })}
+            />
+          </SettingCard>
+
+          <SettingCard
+            title="Redline Pay"
+            description="Reps earn a share of the contract price sold above the baseline $/W"
+            enabled={rules.redline.enabled}
+            onToggle={() => updateRules({ redline: { ...rules.redline, enabled: !rules.redline.enabled } })}
+          >
+            <div className="grid grid-cols-2 gap-3">
+              <NumberField
+                label="Baseline ($/W)"
+                value={rules.redline.baselinePricePerWatt}
+                min={0}
+                step={0.05}
+                onChange={(baselinePricePerWatt) => updateRules({ redline: { ...rules.redline, baselinePricePerWatt } })}
+              />
+              <NumberField
+                label="Rep share (%)"
+                value={rules.redline.sharePct}
+                min={0}
+                max={100}
+                onChange={(sharePct) => updateRules({ redline: { ...rules.redline, sharePct } })}
+              />
+            </div>
+          </SettingCard>
+
+          <SettingCard
+            title="Clawbacks"
+            description="Recover paid commissions when a project is cancelled; 0 days means no time limit"
+            enabled={rules.clawback.enabled}
+            onToggle={() => updateRules({ clawback: { ...rules.clawback, enabled: !rules.clawback.enabled } })}
+          >
+            <NumberField
+              label="Window (days after payment)"
+              value={rules.clawback.windowDays}
+              min={0}
+              onChange={(windowDays) => updateRules({ clawback: { ...rules.clawback, windowDays } })}
+            />
+          </SettingCard>
+        </div>
+      )}
+
+      {/* SIMULATE TAB */}
+      {activeTab === 'simulate' && simulation && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-slate-400">
+              Deals signed since {simulation.since}, paid under the rules in force when each was signed,
+              versus the rules as edited here{hasChanges ? ' (unsaved)' : ''}.
+            </p>
+            <select
+              value={simulationMonths}
+              onChange={(e) => setSimulationMonths(Number(e.target.value))}
+              className="bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+              aria-label="Months to replay"
+            >
+              {SIMULATION_MONTHS.map(m => (
+                <option key={m} value={m}>Last {m} months</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: 'Deals Replayed', value: String(simulation.projects), color: 'text-white' },
+              { label: 'Live Rules', value: usd(simulation.live), color: 'text-slate-200' },
+              { label: 'Draft Rules', value: usd(simulation.draft), color: 'text-slate-200' },
+              {
+                label: 'Difference',
+                value: `${simulation.delta > 0 ? '+' : ''}${usd(simulation.delta)}`,
+                color: simulation.delta > 0 ? 'text-red-400' : simulation.delta < 0 ? 'text-emerald-400' : 'text-slate-400',
+              },
+            ].map(card => (
+              <div key={card.label} className="bg-slate-800/30 rounded-xl border border-slate-700/50 p-4">
+                <p className="text-xs text-slate-500 uppercase tracking-wider font-bold">{card.label}</p>
+                <p className={`text-2xl font-mono font-bold mt-1 ${card.color}`}>{card.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {simulation.reps.length === 0 ? (
+            <div className="text-center py-8 text-slate-500">
+              <AlertCircle size={24} className="mx-auto mb-2 opacity-50" />
+              <p>No deals signed in this period</p>
+            </div>
+          ) : (
+            <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 overflow-hidden">
+              <table className="w-full text-left text-sm">
+                <thead className="bg-slate-800/50 text-slate-400 uppercase text-xs tracking-wider">
+                  <tr>
+                    <th className="px-4 py-3">Rep</th>
+                    <th className="px-4 py-3 text-right">Deals</th>
+                    <th className="px-4 py-3 text-right">Live</th>
+                    <th className="px-4 py-3 text-right">Draft</th>
+                    <th className="px-4 py-3 text-right">Change</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-700/50 font-mono">
+                  {simulation.reps.map(rep => (
+                    <tr key={rep.repId || 'unassigned'}>
+                      <td className="px-4 py-3 font-sans text-white">{rep.repName}</td>
+                      <td className="px-4 py-3 text-right text-slate-400">{rep.deals}</td>
+                      <td className="px-4 py-3 text-right text-slate-300">{usd(rep.live)}</td>
+                      <td className="px-4 py-3 text-right text-slate-300">{usd(rep.draft)}</td>
+                      <td className={`px-4 py-3 text-right font-bold ${
+                        rep.delta > 0 ? 'text-emerald-400' : rep.delta < 0 ? 'text-red-400' : 'text-slate-500'
+                      }`}>
+                        {rep.delta > 0 ? '+' : ''}{usd(rep.delta)}
+                        {rep.live > 0 && rep.delta !== 0 && (
+                          <span className="text-xs font-normal ml-1">({((rep.delta / rep.live) * 100).toFixed(1)}%)</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {simulation.missingContractPrice > 0 && (
+            <p className="text-xs text-amber-400">
+              {simulation.missingContractPrice} deal{simulation.missingContractPrice === 1 ? ' has' : 's have'} no contract price
+              and only {simulation.missingContractPrice === 1 ? 'its' : 'their'} overrides and flat bonuses are compared.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* VERSIONS TAB */}
+      {activeTab === 'versions' && (
+        <div className="space-y-3">
+          {versions.length === 0 ? (
+            <div className="text-center py-8 text-slate-500">
+              <AlertCircle size={24} className="mx-auto mb-2 opacity-50" />
+              <p>No saved versions yet; the default rules apply</p>
+            </div>
+          ) : (
+            [...versions].reverse().map(version => {
+              const inForce = loadCommissionRulesAt(today, companyId).effectiveFrom === version.effectiveFrom;
+              return (
+                <div
+                  key={version.effectiveFrom}
+                  className="bg-slate-800/30 rounded-xl border border-slate-700/50 p-4 flex items-center justify-between gap-4"
+                >
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h4 className="text-white font-bold">
+                        {version.effectiveFrom === EARLIEST_EFFECTIVE_DATE ? 'Original rules' : `Effective ${version.effectiveFrom}`}
+                      </h4>
+                      {inForce && (
+                        <span className="px-2 py-0.5 bg-emerald-500/20 text-emerald-400 text-xs rounded">In force</span>
+                      )}
+                      {version.effectiveFrom > today && (
+                        <span className="px-2 py-0.5 bg-blue-500/20 text-blue-400 text-xs rounded">Scheduled</span>
+                      )}
+                    </div>
+                    <p className="text-xs text-slate-500 mt-1">
+                      v{version.version} • saved {new Date(version.updatedAt).toLocaleString()} •{' '}
+                      {version.tiers.length} tiers, {version.bonuses.filter(b => b.isActive).length} active bonuses
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleLoadVersion(version)}
+                    className="flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-sm font-medium transition-all"
+                  >
+                    <Edit2 size={14} />
+                    Edit a Copy
+                  </button>
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+
       {/* Info Box */}
       <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg p-4 flex items-start gap-3">
         <Info size={18} className="text-blue-400 flex-shrink-0 mt-0.5" />
         <div className="text-sm text-blue-300">
           <p className="font-medium mb-1">Commission Calculation</p>
           <p className="text-blue-300/80">
-            Base commission is calculated as: <span className="font-mono">Deal Value × Tier Rate</span>.
-            Bonuses are added on top when conditions are met.
+            Base commission is calculated as: <span className="font-mono">Contract Price × Tier Rate</span>.
+            Redline and bonuses are added on top, then paid out in the tier's schedule as the project
+            reaches each milestone. Cancelled projects cancel unpaid lines and claw back paid ones.
+            Saved rules apply to deals signed on or after their effective date; earlier deals keep the
+            version that was in force when they were signed.
           </p>
         </div>
       </div>
@@ -422,7 +761,7 @@ export default function CommissionRulesEditor() {
         <TierBonusModal
           tier={activeTab === 'tiers' ? editingTier : null}
           bonus={activeTab === 'bonuses' ? editingBonus : null}
-          mode={activeTab}
+          mode={activeTab === 'bonuses' ? 'bonuses' : 'tiers'}
           onSaveTier={handleSaveTier}
           onSaveBonus={handleSaveBonus}
           onClose={() => setIsModalOpen(false)}
@@ -432,6 +771,296 @@ export default function CommissionRulesEditor() {
   );
 }
 
+// ============================================================================
+// SETTING CONTROLS
+// ============================================================================
+
+interface SettingCardProps {
+  title: string;
+  description: string;
+  enabled?: boolean;
+  onToggle?: () => void;
+  children: React.ReactNode;
+}
+
+function SettingCard({ title, description, enabled, onToggle, children }: SettingCardProps) {
+  return (
+    <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 p-4 space-y-3">
+      <div className="flex justify-between items-start gap-3">
+        <div>
+          <h4 className="text-white font-bold">{title}</h4>
+          <p className="text-slate-500 text-xs mt-1">{description}</p>
+        </div>
+        {onToggle && (
+          <button
+            onClick={onToggle}
+            className={`p-2 rounded-lg transition-all ${
+              enabled ? 'text-emerald-400 hover:bg-emerald-500/10' : 'text-slate-500 hover:bg-slate-700'
+            }`}
+            title={enabled ? `Disable ${title.toLowerCase()}` : `Enable ${title.toLowerCase()}`}
+          >
+            {enabled ? <ToggleRight size={20} /> : <ToggleLeft size={20} />}
+          </button>
+        )}
+      </div>
+      <div className={enabled === false ? 'opacity-50' : ''}>{children}</div>
+    </div>
+  );
+}
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  min?: number;
+  max?: number;
+  step?: number;
+  onChange: (value: number) => void;
+}
+
+function NumberField({ label, value, min, max, step, onChange }: NumberFieldProps) {
+  return (
+    <label className="block">
+      <span className="block text-xs font-medium text-slate-400 mb-1">{label}</span>
+      <input
+        type="number"
+        value={value}
+        min={min}
+        max={max}
+        step={step}
+        onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+        className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-white font-mono focus:outline-none focus:border-blue-500"
+      />
+    </label>
+  );
+}
+
+// ============================================================================
+// CONDITION BUILDER
+// ============================================================================
+
+const AGGREGATE_PREFIX = 'aggregate:';
+
+const CONDITION_SELECT_CLASS =
+  'bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-white text-sm focus:outline-none focus:border-blue-500';
+
+// A fresh condition on a field, with an operator and value that suit its type
+function newFieldCondition(field: string): BonusCondition {
+  const option = CONDITION_FIELD_OPTIONS.find(f => f.value === field);
+  return option?.type === 'enum'
+    ? { field, operator: 'in', value: [option.options?.[0]?.value || ''] }
+    : { field, operator: 'gte', value: 0 };
+}
+
+interface ConditionRowProps {
+  node: BonusCondition | AggregateCondition;
+  onChange: (node: BonusConditionNode) => void;
+  onRemove: () => void;
+}
+
+function ConditionRow({ node, onChange, onRemove }: ConditionRowProps) {
+  const aggregate = isAggregateCondition(node) ? node : null;
+  const condition = isAggregateCondition(node) ? null : node;
+  const field = condition ? CONDITION_FIELD_OPTIONS.find(f => f.value === condition.field) : undefined;
+
+  const handleSubjectChange = (value: string) => {
+    if (value.startsWith(AGGREGATE_PREFIX)) {
+      onChange({
+        aggregate: value.slice(AGGREGATE_PREFIX.length) as AggregateMetric,
+        period: aggregate?.period || 'month',
+        operator: 'gte',
+        value: aggregate?.value ?? 0,
+      });
+    } else {
+      onChange(newFieldCondition(value));
+    }
+  };
+
+  const selected = Array.isArray(condition?.value) ? condition.value : [];
+  const toggleOption = (value: string) => {
+    if (!condition) return;
+    onChange({
+      ...condition,
+      value: selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value],
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={aggregate ? AGGREGATE_PREFIX + aggregate.aggregate : condition?.field}
+        onChange={(e) => handleSubjectChange(e.target.value)}
+        className={CONDITION_SELECT_CLASS}
+        aria-label="Condition field"
+      >
+        <optgroup label="This deal">
+          {CONDITION_FIELD_OPTIONS.map((opt) => (
+            <option key={opt.value} value={opt.value}>{opt.label}</option>
+          ))}
+        </optgroup>
+        <optgroup label="Closer's totals">
+          {AGGREGATE_METRIC_OPTIONS.map((opt) => (
+            <option key={opt.value} value={AGGREGATE_PREFIX + opt.value}>{opt.label}</option>
+          ))}
+        </optgroup>
+      </select>
+
+      {aggregate && (
+        <select
+          value={aggregate.period}
+          onChange={(e) => onChange({ ...aggregate, period: e.target.value as AggregatePeriod })}
+          className={CONDITION_SELECT_CLASS}
+          aria-label="Condition period"
+        >
+          {AGGREGATE_PERIOD_OPTIONS.map((opt) => (
+            <option key={opt.value} value={opt.value}>{opt.label}</option>
+          ))}
+        </select>
+      )}
+
+      {field?.type === 'enum' ? (
+        <>
+          <select
+            value={condition!.operator}
+            onChange={(e) => onChange({ ...condition!, operator: e.target.value as BonusCondition['operator'] })}
+            className={CONDITION_SELECT_CLASS}
+            aria-label="Condition operator"
+          >
+            {ENUM_OPERATOR_OPTIONS.map((opt) => (
+              <option key={opt.value} value={opt.value}>{opt.label}</option>
+            ))}
+          </select>
+          <div className="flex flex-wrap gap-1">
+            {field.options?.map((opt) => (
+              <button
+                key={opt.value}
+                type="button"
+                onClick={() => toggleOption(opt.value)}
+                className={`px-2 py-1 rounded text-xs font-medium transition-all ${
+                  selected.includes(opt.value) ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
+                }`}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </div>
+        </>
+      ) : (
+        <>
+          <select
+            value={node.operator}
+            onChange={(e) => onChange({ ...node, operator: e.target.value } as BonusConditionNode)}
+            className={CONDITION_SELECT_CLASS}
+            aria-label="Condition operator"
+          >
+            {OPERATOR_OPTIONS.map((opt) => (
+              <option key={opt.value} value={opt.value}>{opt.label}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            value={typeof node.value === 'number' ? node.value : 0}
+            onChange={(e) => onChange({ ...node, value: parseFloat(e.target.value) || 0 } as BonusConditionNode)}
+            className={`${CONDITION_SELECT_CLASS} w-24 font-mono`}
+            aria-label="Condition value"
+          />
+        </>
+      )}
+
+      <button
+        type="button"
+        onClick={onRemove}
+        className="p-1.5 text-slate-500 hover:text-red-400 transition-colors"
+        title="Remove condition"
+      >
+        <X size={14} />
+      </button>
+    </div>
+  );
+}
+
+interface ConditionGroupEditorProps {
+  group: ConditionGroup;
+  depth?: number;
+  onChange: (group: ConditionGroup) => void;
+  onRemove?: () => void;
+}
+
+function ConditionGroupEditor({ group, depth = 0, onChange, onRemove }: ConditionGroupEditorProps) {
+  const updateChild = (index: number, child: BonusConditionNode) =>
+    onChange({ ...group, conditions: group.conditions.map((c, i) => (i === index ? child : c)) });
+  const removeChild = (index: number) =>
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+  const addChild = (child: BonusConditionNode) => onChange({ ...group, conditions: [...group.conditions, child] });
+
+  return (
+    <div className={`space-y-2 ${depth > 0 ? 'border-l-2 border-blue-500/40 pl-3' : ''}`}>
+      <div className="flex items-center gap-2 text-xs text-slate-400">
+        Match
+        <select
+          value={group.match}
+          onChange={(e) => onChange({ ...group, match: e.target.value as ConditionGroup['match'] })}
+          className={CONDITION_SELECT_CLASS}
+          aria-label="Group match"
+        >
+          <option value="all">all (AND)</option>
+          <option value="any">any (OR)</option>
+        </select>
+        of these
+        {onRemove && (
+          <button
+            type="button"
+            onClick={onRemove}
+            className="ml-auto p-1.5 text-slate-500 hover:text-red-400 transition-colors"
+            title="Remove group"
+          >
+            <X size={14} />
+          </button>
+        )}
+      </div>
+
+      {group.conditions.map((child, index) =>
+        isConditionGroup(child) ? (
+          <ConditionGroupEditor
+            key={index}
+            group={child}
+            depth={depth + 1}
+            onChange={(updated) => updateChild(index, updated)}
+            onRemove={() => removeChild(index)}
+          />
+        ) : (
+          <ConditionRow
+            key={index}
+            node={child}
+            onChange={(updated) => updateChild(index, updated)}
+            onRemove={() => removeChild(index)}
+          />
+        )
+      )}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => addChild(newFieldCondition('kW'))}
+          className="flex items-center gap-1 px-2 py-1 text-xs text-blue-400 hover:text-blue-300 transition-colors"
+        >
+          <Plus size={12} />
+          Condition
+        </button>
+        {depth < MAX_CONDITION_DEPTH - 1 && (
+          <button
+            type="button"
+            onClick={() => addChild({ match: group.match === 'all' ? 'any' : 'all', conditions: [newFieldCondition('kW')] })}
+            className="flex items-center gap-1 px-2 py-1 text-xs text-blue-400 hover:text-blue-300 transition-colors"
+          >
+            <Plus size={12} />
+            Group
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
 // ============================================================================
 // MODAL COMPONENT
 // ============================================================================
@@ -451,38 +1080,51 @@ function TierBonusModal({ tier, bonus, mode, onSaveTier, onSaveBonus, onClose }:
   const [tierRate, setTierRate] = useState((tier?.rate || 0.05) * 100);
   const [tierAppliesTo, setTierAppliesTo] = useState<DealType[]>(tier?.appliesTo || ['install']);
   const [tierIsDefault, setTierIsDefault] = useState(tier?.isDefault || false);
+  const [tierSchedule, setTierSchedule] = useState<Record<PayoutMilestone, number>>(() => {
+    const schedule = tier?.payoutSchedule?.length ? tier.payoutSchedule : DEFAULT_PAYOUT_SCHEDULE;
+    return Object.fromEntries(
+      PAYOUT_MILESTONES.map(m => [m, schedule.find(step => step.milestone === m)?.pct || 0])
+    ) as Record<PayoutMilestone, number>;
+  });
+  const scheduleTotal = PAYOUT_MILESTONES.reduce((sum, m) => sum + tierSchedule[m], 0);
 
   // Bonus form state
   const [bonusLabel, setBonusLabel] = useState(bonus?.label || '');
   const [bonusAmount, setBonusAmount] = useState(bonus?.amount || 100);
   const [bonusIsPercentage, setBonusIsPercentage] = useState(bonus?.isPercentage || false);
-  const [bonusField, setBonusField] = useState(bonus?.condition.field || 'estimatedBill');
-  const [bonusOperator, setBonusOperator] = useState<BonusCondition['operator']>(bonus?.condition.operator || 'gte');
-  const [bonusValue, setBonusValue] = useState(bonus?.condition.value || 200);
+  // The builder always edits a group; single conditions saved earlier are wrapped in one
+  const [bonusCondition, setBonusCondition] = useState<ConditionGroup>(() =>
+    bonus && isConditionGroup(bonus.condition)
+      ? bonus.condition
+      : { match: 'all', conditions: [bonus?.condition || { field: 'estimatedBill', operator: 'gte', value: 200 }] }
+  );
+  const conditionError = validateCondition(bonusCondition);
   const [bonusIsActive, setBonusIsActive] = useState(bonus?.isActive ?? true);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
     if (mode === 'tiers') {
+      if (scheduleTotal !== 100) return;
+      const payoutSchedule: PayoutStep[] = PAYOUT_MILESTONES
+        .filter(m => tierSchedule[m] > 0)
+        .map(m => ({ milestone: m, pct: tierSchedule[m] }));
       onSaveTier({
         id: tier?.id || '',
         label: tierLabel,
         rate: tierRate / 100,
         appliesTo: tierAppliesTo,
         isDefault: tierIsDefault,
+        payoutSchedule,
       });
     } else {
+      if (conditionError) return;
       onSaveBonus({
         id: bonus?.id || '',
         label: bonusLabel,
         amount: bonusAmount,
         isPercentage: bonusIsPercentage,
-        condition: {
-          field: bonusField,
-          operator: bonusOperator,
-          value: bonusValue,
-        },
+        condition: bonusCondition,
         isActive: bonusIsActive,
       });
     }
@@ -498,7 +1140,7 @@ function TierBonusModal({ tier, bonus, mode, onSaveTier, onSaveBonus, onClose }:
 
   return (
     <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
-      <div className="bg-slate-900 rounded-2xl border border-slate-700 w-full max-w-lg">
+      <div className={`bg-slate-900 rounded-2xl border border-slate-700 w-full ${mode === 'bonuses' ? 'max-w-2xl' : 'max-w-lg'} max-h-[90vh] overflow-y-auto`}>
         <div className="p-6 border-b border-slate-800">
           <h3 className="text-lg font-bold text-white">
             {mode === 'tiers'
@@ -567,6 +1209,31 @@ function TierBonusModal({ tier, bonus, mode, onSaveTier, onSaveBonus, onClose }:
                 </div>
               </div>
 
+              {/* Payout Schedule */}
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">
+                  Payout Schedule (% paid at each milestone)
+                </label>
+                <div className="grid grid-cols-3 gap-2">
+                  {PAYOUT_MILESTONES.map((m) => (
+                    <label key={m} className="block">
+                      <span className="block text-xs text-slate-500 mb-1">{m}</span>
+                      <input
+                        type="number"
+                        value={tierSchedule[m]}
+                        onChange={(e) => setTierSchedule({ ...tierSchedule, [m]: parseFloat(e.target.value) || 0 })}
+                        min="0"
+                        max="100"
+                        className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-white font-mono focus:outline-none focus:border-blue-500"
+                      />
+                    </label>
+                  ))}
+                </div>
+                {scheduleTotal !== 100 && (
+                  <p className="text-xs text-red-400 mt-1">Milestones must add up to 100% (currently {scheduleTotal}%)</p>
+                )}
+              </div>
+
               {/* Is Default */}
               <div className="flex items-center justify-between">
                 <div>
@@ -660,41 +1327,16 @@ function TierBonusModal({ tier, bonus, mode, onSaveTier, onSaveBonus, onClose }:
               {/* Condition */}
               <div>
                 <label className="block text-sm font-medium text-slate-300 mb-2">
-                  Condition
+                  Conditions
                 </label>
-                <div className="grid grid-cols-3 gap-2">
-                  <select
-                    value={bonusField}
-                    onChange={(e) => setBonusField(e.target.value)}
-                    className="bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500"
-                    aria-label="Condition field"
-                  >
-                    {CONDITION_FIELD_OPTIONS.map((opt) => (
-                      <option key={opt.value} value={opt.value}>
-                        {opt.label}
-                      </option>
-                    ))}
-                  </select>
-                  <select
-                    value={bonusOperator}
-                    onChange={(e) => setBonusOperator(e.target.value as BonusCondition['operator'])}
-                    className="bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500"
-                    aria-label="Condition operator"
-                  >
-                    {OPERATOR_OPTIONS.map((opt) => (
-                      <option key={opt.value} value={opt.value}>
-                        {opt.label}
-                      </option>
-                    ))}
-                  </select>
-                  <input
-                    type="number"
-                    value={bonusValue}
-                    onChange={(e) => setBonusValue(parseFloat(e.target.value) || 0)}
-                    className="bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-white font-mono focus:outline-none focus:border-blue-500"
-                    aria-label="Condition value"
-                  />
+                <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-3">
+                  <ConditionGroupEditor group={bonusCondition} onChange={setBonusCondition} />
                 </div>
+                {conditionError ? (
+                  <p className="text-xs text-red-400 mt-1">{conditionError}</p>
+                ) : (
+                  <p className="text-xs text-slate-500 mt-1">When {describeCondition(bonusCondition)}</p>
+                )}
               </div>
 
               {/* Is Active */}
@@ -11,6 +11,9 @@ import {
 } from 'lucide-react';
 import { Lead, Project, Commission } from '../types';
 import { computeRevenueForecast } from '../services/revenueEngine';
+import { loadCommissionRules } from '../services/commissionRulesConfig';
+import { loadPricing } from '../services/pricingConfig';
+import { loadLeadPipeline, isWonStatus, getLeadFunnelStage } from '../services/leadPipeline';
 
 interface CompanyHealthScoreProps {
   leads: Lead[];
@@ -138,9 +141,11 @@ const CompanyHealthScore: React.FC<CompanyHealthScoreProps> = ({ leads, projects
     const totalLeads = leads.length;
     if (totalLeads === 0) return { score: 10, details: ['No leads to analyze'], winRate: 0, qualifiedRate: 0, proposalRate: 0 };
 
-    const qualified = leads.filter(l => l.status !== 'NEW').length;
-    const proposals = leads.filter(l => ['PROPOSAL_SENT', 'CLOSED_WON', 'CLOSED_LOST'].includes(l.status)).length;
-    const won = leads.filter(l => l.status === 'CLOSED_WON').length;
+    const leadPipeline = loadLeadPipeline();
+    const stages = leads.map(l => getLeadFunnelStage(l.status, leadPipeline));
+    const qualified = stages.filter(s => s !== 'new').length;
+    const proposals = stages.filter(s => s === 'proposal' || s === 'won' || s === 'lost').length;
+    const won = stages.filter(s => s === 'won').length;
 
     const qualifiedRate = (qualified / totalLeads) * 100;
     const proposalRate = (proposals / totalLeads) * 100;
@@ -208,7 +213,7 @@ const CompanyHealthScore: React.FC<CompanyHealthScoreProps> = ({ leads, projects
 
   // === 4. REVENUE STRENGTH (20 points) ===
   const revenueStrengthData = useMemo(() => {
-    const forecast = computeRevenueForecast(leads, projects, commissions);
+    const forecast = computeRevenueForecast(leads, projects, commissions, loadCommissionRules(), loadPricing(), loadLeadPipeline());
     const { revenue30, revenue60, revenue90, confidence } = forecast;
 
     let score = 0;
@@ -247,7 +252,7 @@ const CompanyHealthScore: React.FC<CompanyHealthScoreProps> = ({ leads, projects
     // Calculate per-rep metrics
     const repStats = reps.map(rep => {
       const repLeads = leads.filter(l => l.assignedTo === rep);
-      const won = repLeads.filter(l => l.status === 'CLOSED_WON').length;
+      const won = repLeads.filter(l => isWonStatus(l.status)).length;
       const winRate = repLeads.length > 0 ? (won / repLeads.length) * 100 : 0;
       const avgAi = repLeads.length > 0 
         ? repLeads.reduce((s, l) => s + (l.aiScore || 50), 0) / repLeads.length 
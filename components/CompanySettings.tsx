@@ -35,11 +35,20 @@ import {
   Upload as UploadIcon,
   FileText,
   RotateCcw,
+  Calculator,
+  Package,
+  FileSignature,
+  CalendarClock,
 } from 'lucide-react';
 import PipelineEditor from './PipelineEditor';
+import LeadPipelineEditor from './LeadPipelineEditor';
 import SLAEditor from './SLAEditor';
 import CustomFieldsEditor from './CustomFieldsEditor';
 import CommissionRulesEditor from './CommissionRulesEditor';
+import PricingEditor from './PricingEditor';
+import EquipmentEditor from './EquipmentEditor';
+import ContractTemplatesEditor from './ContractTemplatesEditor';
+import AppointmentSettingsEditor from './AppointmentSettingsEditor';
 import AuditLogViewer from './AuditLogViewer';
 import DataImportModal from './DataImportModal';
 import DataExportModal from './DataExportModal';
@@ -72,7 +81,8 @@ import {
   getRoleBadgeColor,
   can,
 } from '../services/rbac';
-import { UserProfile } from '../types';
+import { UserProfile, RepPayoutAccount, Crew } from '../types';
+import { isValidRoutingNumber } from '../services/payoutRuns';
 
 interface Props {
   userProfile: UserProfile;
@@ -85,9 +95,14 @@ type TabType =
   | 'installers'
   | 'permissions'
   | 'pipeline'
+  | 'leadStatuses'
   | 'sla'
   | 'customFields'
   | 'commissions'
+  | 'pricing'
+  | 'equipment'
+  | 'contracts'
+  | 'appointments'
   | 'dataExport'
   | 'dataImport'
   | 'auditLog'
@@ -242,9 +257,14 @@ export default function CompanySettings({ userProfile }: Props) {
     { id: 'installers', label: 'Installers', icon: <HardHat size={16} /> },
     { id: 'permissions', label: 'Permissions', icon: <Shield size={16} /> },
     { id: 'pipeline', label: 'Pipeline Stages', icon: <GitBranch size={16} /> },
+    { id: 'leadStatuses', label: 'Lead Statuses', icon: <GitBranch size={16} /> },
     { id: 'sla', label: 'SLA Rules', icon: <Timer size={16} /> },
     { id: 'customFields', label: 'Custom Fields', icon: <Sliders size={16} /> },
     { id: 'commissions', label: 'Commission Rules', icon: <DollarSign size={16} /> },
+    { id: 'pricing', label: 'Pricing', icon: <Calculator size={16} /> },
+    { id: 'equipment', label: 'Equipment', icon: <Package size={16} /> },
+    { id: 'contracts', label: 'Contracts', icon: <FileSignature size={16} /> },
+    { id: 'appointments', label: 'Appointments', icon: <CalendarClock size={16} /> },
     { id: 'branding', label: 'Branding', icon: <Settings size={16} /> },
     { id: 'userDirectory', label: 'User Directory', icon: <Users size={16} /> },
     { id: 'invitations', label: 'Invitations', icon: <Mail size={16} /> },
@@ -863,6 +883,10 @@ export default function CompanySettings({ userProfile }: Props) {
                     <div className="mt-3 pt-3 border-t border-slate-700/50 flex items-center justify-between">
                       <span className="text-xs text-slate-500">
                         {installer.totalInstalls} installs
+                        {installer.crews && installer.crews.length > 0 && (
+                          <> • {installer.crews.length} crew{installer.crews.length === 1 ? '' : 's'},{' '}
+                            {installer.crews.filter(c => c.isActive).reduce((sum, c) => sum + c.capacityKwPerDay, 0)} kW/day</>
+                        )}
                       </span>
                       <span
                         className={`text-xs px-2 py-0.5 rounded ${
@@ -950,6 +974,9 @@ export default function CompanySettings({ userProfile }: Props) {
         {/* PIPELINE STAGES TAB */}
         {activeTab === 'pipeline' && <PipelineEditor />}
 
+        {/* LEAD STATUSES TAB */}
+        {activeTab === 'leadStatuses' && <LeadPipelineEditor />}
+
         {/* SLA RULES TAB */}
         {activeTab === 'sla' && <SLAEditor />}
 
@@ -959,6 +986,18 @@ export default function CompanySettings({ userProfile }: Props) {
         {/* COMMISSION RULES TAB */}
         {activeTab === 'commissions' && <CommissionRulesEditor />}
 
+        {/* PRICING TAB */}
+        {activeTab === 'pricing' && <PricingEditor />}
+
+        {/* EQUIPMENT TAB */}
+        {activeTab === 'equipment' && <EquipmentEditor />}
+
+        {/* CONTRACTS TAB */}
+        {activeTab === 'contracts' && <ContractTemplatesEditor />}
+
+        {/* APPOINTMENTS TAB */}
+        {activeTab === 'appointments' && <AppointmentSettingsEditor />}
+
         {/* BRANDING TAB */}
         {activeTab === 'branding' && (
           <div className="animate-fade-in">
@@ -1043,8 +1082,15 @@ function RepForm({ rep, teams, onSave, onCancel }: RepFormProps) {
     role: rep?.role || 'rep',
     teamId: rep?.teamId || null,
     isActive: rep?.isActive ?? true,
+    payoutAccount: rep?.payoutAccount,
     ...(rep ? { id: rep.id } : {}),
   });
+  const account = formData.payoutAccount || { routingNumber: '', accountNumber: '', accountType: 'checking' as const };
+  const setAccount = (changes: Partial<RepPayoutAccount>) => {
+    const next = { ...account, ...changes };
+    setFormData({ ...formData, payoutAccount: next.routingNumber || next.accountNumber ? next : undefined });
+  };
+  const routingInvalid = !!account.routingNumber && !isValidRoutingNumber(account.routingNumber);
 
   return (
     <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700 animate-fade-in">
@@ -1123,6 +1169,40 @@ function RepForm({ rep, teams, onSave, onCancel }: RepFormProps) {
             <option value="inactive">Inactive</option>
           </select>
         </div>
+        <div className="space-y-2">
+          <label className="text-xs font-bold text-slate-400 uppercase tracking-wider">Direct Deposit Routing #</label>
+          <input
+            type="text"
+            value={account.routingNumber}
+            maxLength={9}
+            onChange={(e) => setAccount({ routingNumber: e.target.value.replace(/\D/g, '') })}
+            className={`w-full bg-slate-950 border rounded-lg px-3 py-2 text-slate-200 font-mono focus:outline-none focus:border-solar-orange ${routingInvalid ? 'border-red-500' : 'border-slate-800'}`}
+            aria-label="Rep bank routing number"
+          />
+          {routingInvalid && <p className="text-xs text-red-400">Not a valid routing number</p>}
+        </div>
+        <div className="space-y-2">
+          <label className="text-xs font-bold text-slate-400 uppercase tracking-wider">Account # / Type</label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={account.accountNumber}
+              maxLength={17}
+              onChange={(e) => setAccount({ accountNumber: e.target.value.replace(/\s/g, '') })}
+              className="flex-1 bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-slate-200 font-mono focus:outline-none focus:border-solar-orange"
+              aria-label="Rep bank account number"
+            />
+            <select
+              value={account.accountType}
+              onChange={(e) => setAccount({ accountType: e.target.value as RepPayoutAccount['accountType'] })}
+              className="bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-slate-200 focus:outline-none focus:border-solar-orange cursor-pointer"
+              aria-label="Rep bank account type"
+            >
+              <option value="checking">Checking</option>
+              <option value="savings">Savings</option>
+            </select>
+          </div>
+        </div>
       </div>
       <div className="flex justify-end gap-3 mt-4 pt-4 border-t border-slate-700">
         <button
@@ -1133,7 +1213,8 @@ function RepForm({ rep, teams, onSave, onCancel }: RepFormProps) {
         </button>
         <button
           onClick={() => onSave(formData)}
-          className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg font-bold transition-all"
+          disabled={routingInvalid}
+          className="px-4 py-2 disabled:opacity-50 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg font-bold transition-all"
         >
           {rep ? 'Update' : 'Add'} Rep
         </button>
@@ -1156,8 +1237,13 @@ function InstallerForm({ installer, onSave, onCancel }: InstallerFormProps) {
     licenseNumber: installer?.licenseNumber || '',
     rating: installer?.rating || 5,
     isActive: installer?.isActive ?? true,
+    crews: installer?.crews || [],
     ...(installer ? { id: installer.id, totalInstalls: installer.totalInstalls } : {}),
   });
+  const crews = formData.crews || [];
+
+  const updateCrew = (crewId: string, changes: Partial<Crew>) =>
+    setFormData({ ...formData, crews: crews.map(c => (c.id === crewId ? { ...c, ...changes } : c)) });
 
   return (
     <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700 animate-fade-in">
@@ -1236,6 +1322,64 @@ function InstallerForm({ installer, onSave, onCancel }: InstallerFormProps) {
           </select>
         </div>
       </div>
+
+      {/* Crews, for the install calendar */}
+      <div className="mt-4 space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="text-xs font-bold text-slate-400 uppercase tracking-wider">Crews</label>
+          <button
+            onClick={() => setFormData({
+              ...formData,
+              crews: [...crews, { id: 'crew_' + Date.now().toString(36), name: `Crew ${crews.length + 1}`, capacityKwPerDay: 8, isActive: true }],
+            })}
+            className="flex items-center gap-1 px-2 py-1 bg-slate-800 hover:bg-slate-700 text-white rounded-lg text-xs font-bold transition-all"
+          >
+            <Plus size={12} /> Add Crew
+          </button>
+        </div>
+        {crews.length === 0 ? (
+          <p className="text-xs text-slate-500">No crews yet. Add one to schedule installs for this installer.</p>
+        ) : (
+          crews.map((crew) => (
+            <div key={crew.id} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={crew.name}
+                onChange={(e) => updateCrew(crew.id, { name: e.target.value })}
+                className="flex-1 bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-slate-200 focus:outline-none focus:border-solar-orange"
+                aria-label="Crew name"
+              />
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={crew.capacityKwPerDay}
+                onChange={(e) => updateCrew(crew.id, { capacityKwPerDay: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className="w-24 bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-slate-200 font-mono focus:outline-none focus:border-solar-orange"
+                aria-label="Crew capacity in kW per day"
+              />
+              <span className="text-xs text-slate-500">kW/day</span>
+              <label className="flex items-center gap-1 text-xs text-slate-400">
+                <input
+                  type="checkbox"
+                  checked={crew.isActive}
+                  onChange={(e) => updateCrew(crew.id, { isActive: e.target.checked })}
+                />
+                Active
+              </label>
+              <button
+                onClick={() => setFormData({ ...formData, crews: crews.filter(c => c.id !== crew.id) })}
+                className="p-1.5 text-slate-500 hover:text-red-400 transition-colors"
+                title="Remove crew"
+                aria-label="Remove crew"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+
       <div className="flex justify-end gap-3 mt-4 pt-4 border-t border-slate-700">
         <button
           onClick={onCancel}
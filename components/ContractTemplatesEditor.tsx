@@ -0,0 +1,269 @@
+// components/ContractTemplatesEditor.tsx
+// Contract Templates Editor - Agreement text with merge fields for e-signature
+
+import React, { useState, useEffect } from 'react';
+import {
+  Plus,
+  Trash2,
+  Save,
+  RotateCcw,
+  Check,
+  Info,
+  AlertCircle,
+  FileSignature,
+} from 'lucide-react';
+import {
+  loadContractTemplates,
+  saveContractTemplates,
+  syncContractTemplatesFromServer,
+  resetContractTemplatesToDefaults,
+} from '../services/contractConfig';
+import {
+  ContractTemplate,
+  ContractTemplateConfig,
+  DEFAULT_CONTRACT_TEMPLATES,
+  MERGE_FIELDS,
+  unknownMergeFields,
+} from '../services/contractTemplates';
+import { ContractTemplateConfigSchema, validate, formatErrors } from '../schema';
+import { getActiveCompanyId } from '../services/companyStore';
+
+const inputClass =
+  'w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-solar-orange';
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+}
+
+export default function ContractTemplatesEditor() {
+  const [config, setConfig] = useState<ContractTemplateConfig>(() => loadContractTemplates());
+  const [selectedId, setSelectedId] = useState(config.defaultTemplateId);
+  const [isSaved, setIsSaved] = useState(false);
+  const [hasChanges, setHasChanges] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const companyId = getActiveCompanyId();
+  const selected = config.templates.find(t => t.id === selectedId) || config.templates[0];
+
+  useEffect(() => {
+    syncContractTemplatesFromServer(companyId).then(setConfig);
+  }, [companyId]);
+
+  const update = (changes: Partial<ContractTemplateConfig>) => {
+    setConfig(prev => ({ ...prev, ...changes }));
+    setHasChanges(true);
+    setError(null);
+  };
+
+  const updateTemplate = (id: string, changes: Partial<ContractTemplate>) => {
+    update({ templates: config.templates.map(t => (t.id === id ? { ...t, ...changes } : t)) });
+  };
+
+  const handleAddTemplate = () => {
+    const template: ContractTemplate = {
+      id: generateId('template'),
+      name: 'New Template',
+      title: 'Solar Installation Agreement',
+      body: 'This agreement is made on {{date}} between {{company.name}} and {{customer.name}}.',
+    };
+    update({
+      templates: [...config.templates, template],
+      defaultTemplateId: config.defaultTemplateId || template.id,
+    });
+    setSelectedId(template.id);
+  };
+
+  const handleRemoveTemplate = (id: string) => {
+    const templates = config.templates.filter(t => t.id !== id);
+    update({
+      templates,
+      defaultTemplateId: config.defaultTemplateId === id ? templates[0]?.id || '' : config.defaultTemplateId,
+    });
+    setSelectedId(templates[0]?.id || '');
+  };
+
+  const handleInsertField = (key: string) => {
+    if (!selected) return;
+    const separator = selected.body && !/\s$/.test(selected.body) ? ' ' : '';
+    updateTemplate(selected.id, { body: `${selected.body}${separator}{{${key}}}` });
+  };
+
+  const handleSave = async () => {
+    const result = validate(ContractTemplateConfigSchema, config);
+    if (!result.ok) {
+      setError(formatErrors(result.errors));
+      return;
+    }
+    if (config.templates.length === 0) {
+      setError('Add at least one template');
+      return;
+    }
+    const invalid = config.templates.find(t => unknownMergeFields(`${t.title}\n${t.body}`).length > 0);
+    if (invalid) {
+      setError(`${invalid.name}: unknown merge field ${unknownMergeFields(`${invalid.title}\n${invalid.body}`).join(', ')}`);
+      return;
+    }
+    const serverError = await saveContractTemplates(companyId, result.value);
+    if (serverError) {
+      setError(serverError);
+      return;
+    }
+    setIsSaved(true);
+    setHasChanges(false);
+    setTimeout(() => setIsSaved(false), 2000);
+  };
+
+  const handleResetDefaults = async () => {
+    if (confirm('Reset contract templates to defaults?')) {
+      const serverError = await resetContractTemplatesToDefaults(companyId);
+      setConfig(JSON.parse(JSON.stringify(DEFAULT_CONTRACT_TEMPLATES)));
+      setSelectedId(DEFAULT_CONTRACT_TEMPLATES.defaultTemplateId);
+      setHasChanges(false);
+      setError(serverError);
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-bold text-white">Contract Templates</h3>
+          <p className="text-sm text-slate-400 mt-1">
+            Agreements sent for e-signature; merge fields are filled from the lead and its solar analysis
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleResetDefaults}
+            className="flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-sm font-medium transition-all"
+          >
+            <RotateCcw size={14} />
+            Reset Defaults
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!hasChanges}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold transition-all ${
+              hasChanges
+                ? 'bg-emerald-600 hover:bg-emerald-500 text-white'
+                : 'bg-slate-700 text-slate-500 cursor-not-allowed'
+            }`}
+          >
+            {isSaved ? <Check size={16} /> : <Save size={16} />}
+            {isSaved ? 'Saved!' : 'Save Changes'}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3 flex items-start gap-2 text-sm text-red-300">
+          <AlertCircle size={16} className="flex-shrink-0 mt-0.5" />
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Template list */}
+        <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 overflow-hidden">
+          <div className="px-4 py-3 border-b border-slate-700/50 bg-slate-800/50 flex items-center justify-between">
+            <h4 className="text-sm font-bold text-white flex items-center gap-2">
+              <FileSignature size={14} className="text-solar-orange" /> Templates
+            </h4>
+            <button onClick={handleAddTemplate} className="flex items-center gap-1 text-xs text-solar-orange hover:text-orange-400">
+              <Plus size={14} /> Add
+            </button>
+          </div>
+          <div className="divide-y divide-slate-700/50">
+            {config.templates.map(template => (
+              <div
+                key={template.id}
+                className={`px-4 py-3 flex items-center gap-2 cursor-pointer ${
+                  template.id === selected?.id ? 'bg-slate-700/40' : 'hover:bg-slate-800/60'
+                }`}
+                onClick={() => setSelectedId(template.id)}
+              >
+                <input
+                  type="radio"
+                  name="defaultTemplate"
+                  checked={config.defaultTemplateId === template.id}
+                  onChange={() => update({ defaultTemplateId: template.id })}
+                  onClick={(e) => e.stopPropagation()}
+                  aria-label={`Make ${template.name} the default template`}
+                />
+                <span className="flex-1 text-sm text-white truncate">{template.name}</span>
+                <button
+                  onClick={(e) => { e.stopPropagation(); handleRemoveTemplate(template.id); }}
+                  className="p-1 text-slate-500 hover:text-red-400"
+                  aria-label="Remove template"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Selected template */}
+        {selected && (
+          <div className="lg:col-span-3 space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">Name</label>
+                <input
+                  type="text"
+                  value={selected.name}
+                  onChange={(e) => updateTemplate(selected.id, { name: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">Document Title</label>
+                <input
+                  type="text"
+                  value={selected.title}
+                  onChange={(e) => updateTemplate(selected.id, { title: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">
+                Agreement Text
+              </label>
+              <textarea
+                value={selected.body}
+                onChange={(e) => updateTemplate(selected.id, { body: e.target.value })}
+                rows={16}
+                className={`${inputClass} font-mono text-xs leading-relaxed`}
+              />
+            </div>
+            <div>
+              <div className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Merge Fields</div>
+              <div className="flex flex-wrap gap-2">
+                {MERGE_FIELDS.map(field => (
+                  <button
+                    key={field.key}
+                    onClick={() => handleInsertField(field.key)}
+                    title={field.label}
+                    className="px-2 py-1 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded text-xs font-mono text-slate-300"
+                  >
+                    {`{{${field.key}}}`}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg p-4 flex items-start gap-3">
+        <Info size={18} className="text-blue-400 flex-shrink-0 mt-0.5" />
+        <div className="text-sm text-blue-200">
+          Separate paragraphs with a blank line. The merged text is frozen and fingerprinted when a contract is
+          sent, so editing a template never changes an agreement that is already out for signature.
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 // components/CustomFieldRenderer.tsx
 // Renders custom fields dynamically based on field configuration
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Type,
   Hash,
@@ -15,12 +15,17 @@ import {
   DollarSign,
   AlignLeft,
   HelpCircle,
+  Camera,
+  X,
 } from 'lucide-react';
 import {
   CustomField,
   CustomFieldType,
   getFieldDisplayValue,
 } from '../services/customFields';
+import { readSurveyPhoto } from '../services/siteSurvey';
+import { loadFileUrl } from '../services/fileUploads';
+import type { SurveyPhoto } from '../types';
 
 interface CustomFieldRendererProps {
   field: CustomField;
@@ -42,8 +47,24 @@ const FIELD_ICONS: Record<CustomFieldType, React.ReactNode> = {
   email: <Mail size={16} />,
   phone: <Phone size={16} />,
   url: <Link size={16} />,
+  photo: <Camera size={16} />,
 };
 
+// Survey photos are fetched from file storage as they're shown
+function SurveyPhotoImage({ photo, alt }: { photo: SurveyPhoto; alt: string }) {
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadFileUrl(photo.fileId).then(setSrc);
+  }, [photo.fileId]);
+
+  return src ? (
+    <img src={src} alt={alt} className="w-full h-full object-cover rounded-lg border border-slate-800" />
+  ) : (
+    <div className="w-full h-full rounded-lg border border-slate-800 bg-slate-900" aria-label={alt} />
+  );
+}
+
 export default function CustomFieldRenderer({
   field,
   value,
@@ -51,10 +72,22 @@ export default function CustomFieldRenderer({
   disabled = false,
   error,
 }: CustomFieldRendererProps) {
+  const [photoError, setPhotoError] = useState<string | null>(null);
+
   const handleChange = (newValue: any) => {
     onChange(field.key, newValue);
   };
 
+  const handlePhotos = (files: FileList) => {
+    const existing: SurveyPhoto[] = Array.isArray(value) ? value : [];
+    Promise.all(Array.from(files).map(readSurveyPhoto))
+      .then(photos => {
+        handleChange([...existing, ...photos]);
+        setPhotoError(null);
+      })
+      .catch(err => setPhotoError(err instanceof Error ? err.message : String(err)));
+  };
+
   const baseInputClass = `w-full bg-slate-950 border rounded-lg px-3 py-2.5 text-slate-200 focus:outline-none focus:border-solar-orange focus:ring-1 focus:ring-solar-orange transition-all disabled:opacity-50 ${
     error ? 'border-red-500' : 'border-slate-800'
   }`;
@@ -238,6 +271,54 @@ export default function CustomFieldRenderer({
           </label>
         );
 
+      case 'photo':
+        const photos: SurveyPhoto[] = Array.isArray(value) ? value : [];
+        return (
+          <div className="space-y-2">
+            {photos.length > 0 && (
+              <div className="grid grid-cols-3 gap-2">
+                {photos.map((photo, index) => (
+                  <div key={`${photo.takenAt}_${index}`} className="relative aspect-square">
+                    <SurveyPhotoImage photo={photo} alt={`${field.name} ${index + 1}`} />
+                    {!disabled && (
+                      <button
+                        type="button"
+                        onClick={() => handleChange(photos.filter((_, i) => i !== index))}
+                        className="absolute top-1 right-1 p-1 bg-slate-950/80 rounded-full text-slate-300 hover:text-red-400"
+                        aria-label={`Remove ${field.name} ${index + 1}`}
+                      >
+                        <X size={12} />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+            <label
+              className={`flex items-center justify-center gap-2 w-full py-3 rounded-lg border border-dashed text-sm font-medium transition-all ${
+                error ? 'border-red-500 text-red-300' : 'border-slate-700 text-slate-300'
+              } ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:border-solar-orange'}`}
+            >
+              <Camera size={16} />
+              {photos.length > 0 ? 'Add Another Photo' : 'Take Photo'}
+              <input
+                type="file"
+                accept="image/*"
+                capture="environment"
+                multiple
+                disabled={disabled}
+                className="hidden"
+                onChange={(e) => {
+                  if (e.target.files?.length) handlePhotos(e.target.files);
+                  e.target.value = '';
+                }}
+                aria-label={field.name}
+              />
+            </label>
+            {photoError && <p className="text-red-400 text-xs">{photoError}</p>}
+          </div>
+        );
+
       default:
         return (
           <input
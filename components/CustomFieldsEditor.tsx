@@ -25,6 +25,7 @@ import {
   RotateCcw,
   Info,
   AlertCircle,
+  Camera,
 } from 'lucide-react';
 import {
   loadCustomFields,
@@ -57,6 +58,7 @@ const FIELD_ICONS: Record<CustomFieldType, React.ReactNode> = {
   email: <Mail size={16} />,
   phone: <Phone size={16} />,
   url: <Link size={16} />,
+  photo: <Camera size={16} />,
 };
 
 interface FieldFormData {
@@ -97,7 +99,7 @@ export default function CustomFieldsEditor() {
 
   const filteredFields = filterScope === 'all'
     ? fields
-    : fields.filter(f => f.scope === filterScope || f.scope === 'both');
+    : fields.filter(f => f.scope === filterScope || (f.scope === 'both' && filterScope !== 'survey'));
 
   const handleAddField = () => {
     setEditingField(null);
@@ -155,6 +157,10 @@ export default function CustomFieldsEditor() {
       newErrors.options = 'At least one option is required for dropdown fields';
     }
 
+    if (formData.type === 'photo' && formData.scope !== 'survey') {
+      newErrors.scope = 'Photo fields are only available on the site survey';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -224,6 +230,7 @@ export default function CustomFieldsEditor() {
       case 'lead': return 'Leads';
       case 'project': return 'Projects';
       case 'both': return 'Both';
+      case 'survey': return 'Site Survey';
     }
   };
 
@@ -232,6 +239,7 @@ export default function CustomFieldsEditor() {
       case 'lead': return 'bg-blue-500/20 text-blue-400';
       case 'project': return 'bg-purple-500/20 text-purple-400';
       case 'both': return 'bg-emerald-500/20 text-emerald-400';
+      case 'survey': return 'bg-amber-500/20 text-amber-400';
     }
   };
 
@@ -265,7 +273,7 @@ export default function CustomFieldsEditor() {
 
       {/* Filter Tabs */}
       <div className="flex gap-2">
-        {(['all', 'lead', 'project', 'both'] as const).map((scope) => (
+        {(['all', 'lead', 'project', 'both', 'survey'] as const).map((scope) => (
           <button
             key={scope}
             onClick={() => setFilterScope(scope)}
@@ -400,6 +408,7 @@ export default function CustomFieldsEditor() {
           <p className="font-medium mb-1">Custom Fields Tips</p>
           <ul className="list-disc list-inside text-blue-300/80 space-y-1">
             <li>Fields will appear in lead and project forms based on their scope</li>
+            <li>Site Survey fields make up the surveyor's checklist; required ones must be done before a project moves to design</li>
             <li>Hidden fields still retain their data, they just won't show in forms</li>
             <li>The field key is used internally - changing names won't affect stored data</li>
           </ul>
@@ -485,6 +494,7 @@ export default function CustomFieldsEditor() {
                     </button>
                   ))}
                 </div>
+                {errors.scope && <p className="text-red-400 text-xs mt-1">{errors.scope}</p>}
               </div>
 
               {/* Options (for select/multiselect) */}
@@ -11,11 +11,24 @@ import RevenueForecast from './RevenueForecast';
 import InstallerIntelligence from './InstallerIntelligence';
 import CompanyHealthScore from './CompanyHealthScore';
 import AICopilot from './AICopilot';
+import { getLeadStatuses, getLeadStatusName, getLeadStatusColor, loadLeadPipeline, isWonStatus, isClosedStatus } from '../services/leadPipeline';
 
 const LEADS_KEY = "primus_leads";
 const PROJECTS_KEY = "primus_projects";
 const COMMISSIONS_KEY = "primus_commissions";
 
+// Bar fill per lead status color (services/leadPipeline.ts)
+const STATUS_BAR_COLORS: Record<string, string> = {
+  blue: 'bg-blue-500',
+  purple: 'bg-purple-500',
+  amber: 'bg-amber-500',
+  orange: 'bg-orange-500',
+  cyan: 'bg-cyan-500',
+  emerald: 'bg-emerald-500',
+  red: 'bg-red-500',
+  pink: 'bg-pink-500',
+};
+
 interface DashboardProps {
   onRequestUpgrade: (plan: PlanId) => void;
 }
@@ -142,7 +155,8 @@ const Dashboard: React.FC<DashboardProps> = ({ onRequestUpgrade }) => {
   }, [leads.length, commissions.length]);
 
   const totalLeads = leads.length;
-  const closedWon = leads.filter(l => l.status === 'CLOSED_WON').length;
+  const leadPipeline = loadLeadPipeline();
+  const closedWon = leads.filter(l => isWonStatus(l.status, leadPipeline)).length;
   const activeProjects = projects.filter(p => p.stage !== 'PTO').length;
   const totalCommission = commissions.reduce((sum, c) => sum + (c.amountUsd || 0), 0);
 
@@ -180,15 +194,12 @@ const Dashboard: React.FC<DashboardProps> = ({ onRequestUpgrade }) => {
     })
     .reduce((sum, c) => sum + (c.amountUsd || 0), 0);
 
-  // Lead Pipeline Counts
-  const pipelineCounts = {
-    NEW: leads.filter(l => l.status === 'NEW').length,
-    QUALIFIED: leads.filter(l => l.status === 'QUALIFIED').length,
-    PROPOSAL_SENT: leads.filter(l => l.status === 'PROPOSAL_SENT').length,
-    CLOSED_WON: leads.filter(l => l.status === 'CLOSED_WON').length,
-    CLOSED_LOST: leads.filter(l => l.status === 'CLOSED_LOST').length,
-  };
-  const maxPipeline = Math.max(...Object.values(pipelineCounts), 1);
+  // Lead Pipeline Counts, per company lead status
+  const pipelineCounts = getLeadStatuses().map(status => ({
+    status,
+    count: leads.filter(l => l.status === status.id).length,
+  }));
+  const maxPipeline = Math.max(...pipelineCounts.map(p => p.count), 1);
 
   // Commission Status Counts
   const commissionCounts = {
@@ -312,11 +323,15 @@ const Dashboard: React.FC<DashboardProps> = ({ onRequestUpgrade }) => {
         {/* Lead Pipeline Widget */}
         <DashboardCard title="Lead Pipeline" icon={TrendingUp}>
           <div className="space-y-3">
-            <BarChart label="New" value={pipelineCounts.NEW} max={maxPipeline} color="bg-blue-500" />
-            <BarChart label="Qualified" value={pipelineCounts.QUALIFIED} max={maxPipeline} color="bg-cyan-500" />
-            <BarChart label="Proposal Sent" value={pipelineCounts.PROPOSAL_SENT} max={maxPipeline} color="bg-purple-500" />
-            <BarChart label="Closed Won" value={pipelineCounts.CLOSED_WON} max={maxPipeline} color="bg-emerald-500" />
-            <BarChart label="Closed Lost" value={pipelineCounts.CLOSED_LOST} max={maxPipeline} color="bg-red-500" />
+            {pipelineCounts.map(({ status, count }) => (
+              <BarChart
+                key={status.id}
+                label={status.name}
+                value={count}
+                max={maxPipeline}
+                color={STATUS_BAR_COLORS[status.color || ''] || 'bg-slate-500'}
+              />
+            ))}
           </div>
         </DashboardCard>
 
@@ -383,14 +398,8 @@ const Dashboard: React.FC<DashboardProps> = ({ onRequestUpgrade }) => {
                     {lead.priority === 'high' && (
                       <span className="px-2 py-0.5 text-xs bg-red-500/20 text-red-400 rounded">High</span>
                     )}
-                    <span className={`px-2 py-0.5 text-xs rounded ${
-                      lead.status === 'NEW' ? 'bg-blue-500/20 text-blue-400' :
-                      lead.status === 'QUALIFIED' ? 'bg-cyan-500/20 text-cyan-400' :
-                      lead.status === 'PROPOSAL_SENT' ? 'bg-purple-500/20 text-purple-400' :
-                      lead.status === 'CLOSED_WON' ? 'bg-emerald-500/20 text-emerald-400' :
-                      'bg-red-500/20 text-red-400'
-                    }`}>
-                      {lead.status.replace('_', ' ')}
+                    <span className={`px-2 py-0.5 text-xs rounded border ${getLeadStatusColor(lead.status)}`}>
+                      {getLeadStatusName(lead.status)}
                     </span>
                   </div>
                 </div>
@@ -440,7 +449,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onRequestUpgrade }) => {
             <div className="space-y-3">
               <div className="flex justify-between items-center">
                 <span className="text-xs text-slate-500">Active Leads</span>
-                <span className="text-sm font-mono text-blue-400">{leads.filter(l => l.status !== 'CLOSED_WON' && l.status !== 'CLOSED_LOST').length}</span>
+                <span className="text-sm font-mono text-blue-400">{leads.filter(l => !isClosedStatus(l.status, leadPipeline)).length}</span>
               </div>
               <div className="flex justify-between items-center">
                 <span className="text-xs text-slate-500">In Progress Projects</span>
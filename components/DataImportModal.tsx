@@ -3,7 +3,7 @@
  * CSV import wizard for Leads, Projects, Reps, Installers
  */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import {
   Upload,
   FileText,
@@ -26,7 +26,9 @@ import {
 } from '../services/csv';
 import { logImport } from '../services/auditLog';
 import { getActiveCompanyId } from '../services/companyStore';
+import { getInitialLeadStatus } from '../services/leadPipeline';
 import { loadAllLeads, saveLeads, loadAllProjects, saveProjects } from '../utils/storage';
+import { findDuplicates, DedupFields } from '../services/leadDedup';
 
 // =============================================================================
 // Types
@@ -74,6 +76,7 @@ export default function DataImportModal({ isOpen, onClose, onImportComplete }: D
   const [isImporting, setIsImporting] = useState(false);
   const [importResult, setImportResult] = useState<{ success: boolean; count: number; errors: string[] } | null>(null);
   const [fileName, setFileName] = useState('');
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
   
   // Reset state
   const resetState = () => {
@@ -164,7 +167,7 @@ export default function DataImportModal({ isOpen, onClose, onImportComplete }: D
       
       // Set defaults based on type
       if (importType === 'lead') {
-        transformed.status = transformed.status || 'NEW';
+        transformed.status = transformed.status || getInitialLeadStatus();
         transformed.priority = transformed.priority || 'medium';
       }
       
@@ -176,6 +179,31 @@ export default function DataImportModal({ isOpen, onClose, onImportComplete }: D
     });
   };
   
+  // Lead rows that probably duplicate an existing lead or an earlier row in
+  // the file, by row index, with what they look like
+  const findImportDuplicates = (rows: Record<string, any>[]): Record<number, string> => {
+    const companyId = getActiveCompanyId();
+    const seen: DedupFields[] = loadAllLeads().filter(l => !l.companyId || l.companyId === companyId);
+    const duplicates: Record<number, string> = {};
+    rows.forEach((row, idx) => {
+      const candidate: DedupFields = {
+        id: row.id,
+        name: String(row.name ?? ''),
+        address: String(row.address ?? ''),
+        email: row.email ? String(row.email) : undefined,
+        phone: row.phone ? String(row.phone) : undefined,
+      };
+      const [match] = findDuplicates(candidate, seen);
+      if (match) {
+        const existing = seen.find(l => l.id === match.leadId)!;
+        duplicates[idx] = `${existing.name} (${match.reasons.join(', ').toLowerCase()})`;
+      } else {
+        seen.push(candidate);
+      }
+    });
+    return duplicates;
+  };
+
   // Execute import
   const executeImport = async () => {
     setIsImporting(true);
@@ -190,8 +218,16 @@ export default function DataImportModal({ isOpen, onClose, onImportComplete }: D
       switch (importType) {
         case 'lead': {
           const allLeads = loadAllLeads();
+          const rows = skipDuplicates
+            ? transformedData.filter((row, idx) => {
+                if (!importDuplicates[idx]) return true;
+                // +2: CSV rows are numbered from 1, after the header
+                errors.push(`Skipped row ${idx + 2} (${row.name}): looks like ${importDuplicates[idx]}`);
+                return false;
+              })
+            : transformedData;
           // Only save objects that match Lead interface (id, name, address, status, createdAt)
-          const newLeads = transformedData.filter(
+          const newLeads = rows.filter(
             (lead): lead is import('..//types').Lead =>
               typeof lead.id === 'string' &&
               typeof lead.name === 'string' &&
@@ -233,7 +269,7 @@ export default function DataImportModal({ isOpen, onClose, onImportComplete }: D
         importType === 'project' ? 'Project' :
         importType === 'rep' ? 'Rep' : 'Installer',
         importedCount,
-        { fileName, totalRows: parsedData.length }
+        { fileName, totalRows: parsedData.length, ...(importType === 'lead' ? { probableDuplicates: duplicateCount, skippedDuplicates: skipDuplicates } : {}) }
       );
       
       setImportResult({
@@ -263,6 +299,13 @@ export default function DataImportModal({ isOpen, onClose, onImportComplete }: D
     return `${prefix}-${Math.floor(Math.random() * 100000).toString().padStart(5, '0')}`;
   };
   
+  // Checked once when the preview opens; matching is too slow to redo each render
+  const importDuplicates = useMemo(
+    () => (step === 'preview' && importType === 'lead' ? findImportDuplicates(transformData()) : {}),
+    [step, importType, parsedData, columnMapping]
+  );
+  const duplicateCount = Object.keys(importDuplicates).length;
+
   // Validate current step
   const canProceed = () => {
     switch (step) {
@@ -452,7 +495,11 @@ export default function DataImportModal({ isOpen, onClose, onImportComplete }: D
                   </thead>
                   <tbody className="divide-y divide-slate-800">
                     {transformData().slice(0, 10).map((row, idx) => (
-                      <tr key={idx} className="hover:bg-slate-800/30">
+                      <tr
+                        key={idx}
+                        className={`hover:bg-slate-800/30 ${importDuplicates[idx] ? 'bg-yellow-500/5' : ''}`}
+                        title={importDuplicates[idx] ? `Probable duplicate of ${importDuplicates[idx]}` : undefined}
+                      >
                         {Object.values(columnMapping).filter(Boolean).map(field => (
                           <td key={field} className="px-3 py-2 text-slate-300">
                             {String(row[field] ?? '')}
@@ -469,6 +516,25 @@ export default function DataImportModal({ isOpen, onClose, onImportComplete }: D
                   ...and {parsedData.length - 10} more records
                 </p>
               )}
+
+              {duplicateCount > 0 && (
+                <div className="p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-lg space-y-2">
+                  <div className="flex items-center gap-2 text-yellow-400">
+                    <AlertCircle size={18} />
+                    <span>
+                      {duplicateCount} record{duplicateCount === 1 ? ' looks' : 's look'} like leads you already have or repeat an earlier row
+                    </span>
+                  </div>
+                  <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={skipDuplicates}
+                      onChange={(e) => setSkipDuplicates(e.target.checked)}
+                    />
+                    Skip probable duplicates (import them anyway to merge later from the Lead Board)
+                  </label>
+                </div>
+              )}
             </div>
           )}
           
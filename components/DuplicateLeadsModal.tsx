@@ -0,0 +1,182 @@
+/**
+ * Duplicate Leads Modal Component
+ * Review queue of probable duplicate households: pick the lead to keep and
+ * merge the rest into it, or mark the group as different households
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Copy, X, Merge, CheckCircle2, Lock } from 'lucide-react';
+import type { Lead, Project } from '../types';
+import { findDuplicateClusters, suggestSurvivor, DuplicateCluster } from '../services/leadDedup';
+import { mergeLeads, dismissDuplicateCluster, loadDismissedPairs } from '../services/leadMerge';
+import { getLeadStatusColor, getLeadStatusName } from '../services/leadPipeline';
+import { getActiveCompanyId } from '../services/companyStore';
+import { loadAllProjects } from '../utils/storage';
+
+interface DuplicateLeadsModalProps {
+  isOpen: boolean;
+  leads: Lead[];
+  canMerge: boolean;
+  onClose: () => void;
+  onMerged: () => void; // Leads were rewritten in storage
+}
+
+export default function DuplicateLeadsModal({ isOpen, leads, canMerge, onClose, onMerged }: DuplicateLeadsModalProps) {
+  const companyId = getActiveCompanyId();
+  const [dismissed, setDismissed] = useState(() => loadDismissedPairs(companyId));
+  const [survivors, setSurvivors] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState<string | null>(null);
+
+  const companyLeads = useMemo(
+    () => leads.filter(l => !l.companyId || l.companyId === companyId),
+    [leads, companyId]
+  );
+  const clusters = useMemo(() => findDuplicateClusters(companyLeads, dismissed), [companyLeads, dismissed]);
+  const projects: Project[] = isOpen ? loadAllProjects() : [];
+
+  if (!isOpen) return null;
+
+  const leadById = (id: string) => companyLeads.find(l => l.id === id)!;
+
+  const survivorFor = (cluster: DuplicateCluster) =>
+    survivors[cluster.id] || suggestSurvivor(cluster.leadIds.map(leadById), projects);
+
+  const handleMerge = async (cluster: DuplicateCluster) => {
+    const survivorId = survivorFor(cluster);
+    const survivor = leadById(survivorId);
+    if (!confirm(`Merge ${cluster.leadIds.length - 1} lead${cluster.leadIds.length > 2 ? 's' : ''} into ${survivor.name} (${survivorId})? The others will be deleted.`)) return;
+    try {
+      const result = await mergeLeads(survivorId, cluster.leadIds, companyId);
+      const moved = [
+        result.projectsMoved && `${result.projectsMoved} project${result.projectsMoved === 1 ? '' : 's'}`,
+        result.commissionsMoved && `${result.commissionsMoved} commission${result.commissionsMoved === 1 ? '' : 's'}`,
+        result.contractsMoved && `${result.contractsMoved} contract${result.contractsMoved === 1 ? '' : 's'}`,
+        result.proposalsMoved && `${result.proposalsMoved} proposal${result.proposalsMoved === 1 ? '' : 's'}`,
+        result.appointmentsMoved && `${result.appointmentsMoved} appointment${result.appointmentsMoved === 1 ? '' : 's'}`,
+      ].filter(Boolean);
+      setMessage(`Merged into ${result.lead.name}${moved.length > 0 ? `; moved ${moved.join(', ')}` : ''}.`);
+      onMerged();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleDismiss = (cluster: DuplicateCluster) => {
+    dismissDuplicateCluster(cluster, companyId);
+    setDismissed(loadDismissedPairs(companyId));
+    setMessage('Marked as different households.');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-slate-900 rounded-xl border border-slate-800 w-full max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Copy className="text-purple-400" size={24} />
+            <div>
+              <h2 className="text-xl font-bold text-white">Possible Duplicates</h2>
+              <p className="text-xs text-slate-500">
+                {clusters.length} group{clusters.length === 1 ? '' : 's'} matched on email, phone, address or name
+              </p>
+            </div>
+          </div>
+          <button
+            aria-label="Close"
+            onClick={() => { setMessage(null); onClose(); }}
+            className="text-slate-400 hover:text-white p-2 rounded-lg hover:bg-slate-800 transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {message && (
+            <div className="flex items-center gap-2 p-3 bg-emerald-500/10 border border-emerald-500/20 rounded-lg text-sm text-emerald-400">
+              <CheckCircle2 size={16} /> {message}
+            </div>
+          )}
+          {!canMerge && (
+            <p className="text-xs text-slate-500 flex items-center gap-1">
+              <Lock size={12} /> Only admins can merge leads
+            </p>
+          )}
+          {clusters.length === 0 && (
+            <div className="p-10 text-center text-slate-500">
+              <CheckCircle2 className="mx-auto mb-3 opacity-50" size={32} />
+              <p>No probable duplicates.</p>
+            </div>
+          )}
+
+          {clusters.map(cluster => {
+            const survivorId = survivorFor(cluster);
+            return (
+              <div key={cluster.id} className="bg-slate-950 border border-slate-800 rounded-xl">
+                <div className="px-4 py-3 border-b border-slate-800 flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-3 text-sm">
+                    <span className={`px-2 py-0.5 rounded font-mono font-bold text-xs ${
+                      cluster.confidence >= 0.85 ? 'bg-red-500/20 text-red-400' : 'bg-yellow-500/20 text-yellow-400'
+                    }`}>
+                      {Math.round(cluster.confidence * 100)}%
+                    </span>
+                    <span className="text-slate-400">{cluster.reasons.join(' · ')}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleDismiss(cluster)}
+                      className="text-xs px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300"
+                    >
+                      Not Duplicates
+                    </button>
+                    <button
+                      onClick={() => handleMerge(cluster)}
+                      disabled={!canMerge}
+                      className="flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg bg-purple-600 hover:bg-purple-500 text-white font-bold disabled:bg-slate-700 disabled:text-slate-500 disabled:cursor-not-allowed"
+                    >
+                      <Merge size={12} /> Merge
+                    </button>
+                  </div>
+                </div>
+                <div className="divide-y divide-slate-800">
+                  {cluster.leadIds.map(id => {
+                    const lead = leadById(id);
+                    const hasProject = projects.some(p => p.leadId === id);
+                    return (
+                      <label key={id} className="flex items-center gap-3 px-4 py-3 cursor-pointer hover:bg-slate-900/60">
+                        <input
+                          type="radio"
+                          name={`survivor-${cluster.id}`}
+                          checked={survivorId === id}
+                          onChange={() => setSurvivors(prev => ({ ...prev, [cluster.id]: id }))}
+                          aria-label={`Keep ${lead.name}`}
+                        />
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2">
+                            <span className="font-bold text-slate-200 text-sm">{lead.name}</span>
+                            <span className="font-mono text-[10px] text-slate-500">{id}</span>
+                            {survivorId === id && <span className="text-[10px] text-purple-400 uppercase font-bold">Keep</span>}
+                          </div>
+                          <div className="text-xs text-slate-500 truncate">
+                            {[lead.address, lead.phone, lead.email].filter(Boolean).join(' · ')}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2 text-[10px] text-slate-400 shrink-0">
+                          {hasProject && <span className="px-1.5 py-0.5 rounded bg-emerald-900/60 text-emerald-300">Project</span>}
+                          <span>{lead.activities?.length || 0} activities</span>
+                          <span>Added {lead.createdAt.slice(0, 10)}</span>
+                          <span className={`px-2 py-0.5 rounded-full font-bold border ${getLeadStatusColor(lead.status)}`}>
+                            {getLeadStatusName(lead.status)}
+                          </span>
+                        </div>
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
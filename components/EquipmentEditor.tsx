@@ -0,0 +1,458 @@
+// components/EquipmentEditor.tsx
+// Equipment Editor - Modules, inverters and batteries the roof designer and installer board draw from
+
+import React, { useState, useEffect } from 'react';
+import {
+  Plus,
+  Trash2,
+  Save,
+  RotateCcw,
+  Check,
+  Info,
+  AlertCircle,
+  Sun,
+  Zap,
+  BatteryCharging,
+} from 'lucide-react';
+import {
+  loadEquipment,
+  saveEquipment,
+  syncEquipmentFromServer,
+  resetEquipmentToDefaults,
+} from '../services/equipmentConfig';
+import {
+  EquipmentCatalog,
+  PvModule,
+  Inverter,
+  Battery,
+  DEFAULT_EQUIPMENT_CATALOG,
+} from '../services/equipmentCatalog';
+import { EquipmentCatalogSchema, validate, formatErrors } from '../schema';
+import { getActiveCompanyId } from '../services/companyStore';
+
+const inputClass =
+  'w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-solar-orange';
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+}
+
+const NumberCell: React.FC<{ value: number; onChange: (value: number) => void; label: string; step?: string }> = ({
+  value,
+  onChange,
+  label,
+  step = '1',
+}) => (
+  <input
+    type="number"
+    min="0"
+    step={step}
+    value={value}
+    onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+    className={inputClass}
+    aria-label={label}
+  />
+);
+
+export default function EquipmentEditor() {
+  const [catalog, setCatalog] = useState<EquipmentCatalog>(() => loadEquipment());
+  const [isSaved, setIsSaved] = useState(false);
+  const [hasChanges, setHasChanges] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const companyId = getActiveCompanyId();
+
+  useEffect(() => {
+    syncEquipmentFromServer(companyId).then(setCatalog);
+  }, [companyId]);
+
+  const update = (changes: Partial<EquipmentCatalog>) => {
+    setCatalog(prev => ({ ...prev, ...changes }));
+    setHasChanges(true);
+    setError(null);
+  };
+
+  const updateModule = (id: string, changes: Partial<PvModule>) => {
+    update({ modules: catalog.modules.map(m => (m.id === id ? { ...m, ...changes } : m)) });
+  };
+
+  const updateInverter = (id: string, changes: Partial<Inverter>) => {
+    update({ inverters: catalog.inverters.map(i => (i.id === id ? { ...i, ...changes } : i)) });
+  };
+
+  const updateBattery = (id: string, changes: Partial<Battery>) => {
+    update({ batteries: catalog.batteries.map(b => (b.id === id ? { ...b, ...changes } : b)) });
+  };
+
+  const handleAddModule = () => {
+    const module: PvModule = {
+      id: generateId('module'), manufacturer: 'New', model: 'Module', watts: 400,
+      lengthMm: 1722, widthMm: 1134, efficiencyPct: 20.5, unitCost: 0, stockQty: 0,
+    };
+    update({
+      modules: [...catalog.modules, module],
+      defaultModuleId: catalog.defaultModuleId || module.id,
+    });
+  };
+
+  const handleAddInverter = () => {
+    const inverter: Inverter = {
+      id: generateId('inverter'), manufacturer: 'New', model: 'Inverter', kind: 'string',
+      acKw: 7.6, maxDcAcRatio: 1.3, efficiencyPct: 97, unitCost: 0, stockQty: 0,
+    };
+    update({
+      inverters: [...catalog.inverters, inverter],
+      defaultInverterId: catalog.defaultInverterId || inverter.id,
+    });
+  };
+
+  const handleAddBattery = () => {
+    const battery: Battery = {
+      id: generateId('battery'), manufacturer: 'New', model: 'Battery', capacityKwh: 10, powerKw: 5, unitCost: 0, stockQty: 0,
+    };
+    update({ batteries: [...catalog.batteries, battery] });
+  };
+
+  const handleRemoveModule = (id: string) => {
+    const modules = catalog.modules.filter(m => m.id !== id);
+    update({
+      modules,
+      defaultModuleId: catalog.defaultModuleId === id ? modules[0]?.id || '' : catalog.defaultModuleId,
+    });
+  };
+
+  const handleRemoveInverter = (id: string) => {
+    const inverters = catalog.inverters.filter(i => i.id !== id);
+    update({
+      inverters,
+      defaultInverterId: catalog.defaultInverterId === id ? inverters[0]?.id || '' : catalog.defaultInverterId,
+    });
+  };
+
+  const handleSave = async () => {
+    const result = validate(EquipmentCatalogSchema, catalog);
+    if (!result.ok) {
+      setError(formatErrors(result.errors));
+      return;
+    }
+    if (catalog.modules.length === 0 || catalog.inverters.length === 0) {
+      setError('Add at least one module and one inverter');
+      return;
+    }
+    const serverError = await saveEquipment(companyId, result.value);
+    if (serverError) {
+      setError(serverError);
+      return;
+    }
+    setIsSaved(true);
+    setHasChanges(false);
+    setTimeout(() => setIsSaved(false), 2000);
+  };
+
+  const handleResetDefaults = async () => {
+    if (confirm('Reset the equipment catalog to defaults?')) {
+      const serverError = await resetEquipmentToDefaults(companyId);
+      setCatalog(JSON.parse(JSON.stringify(DEFAULT_EQUIPMENT_CATALOG)));
+      setHasChanges(false);
+      setError(serverError);
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-bold text-white">Equipment</h3>
+          <p className="text-sm text-slate-400 mt-1">
+            Modules, inverters and batteries available to the roof designer, with unit cost and stock on hand
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleResetDefaults}
+            className="flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-sm font-medium transition-all"
+          >
+            <RotateCcw size={14} />
+            Reset Defaults
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!hasChanges}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold transition-all ${
+              hasChanges
+                ? 'bg-emerald-600 hover:bg-emerald-500 text-white'
+                : 'bg-slate-700 text-slate-500 cursor-not-allowed'
+            }`}
+          >
+            {isSaved ? <Check size={16} /> : <Save size={16} />}
+            {isSaved ? 'Saved!' : 'Save Changes'}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3 flex items-start gap-2 text-sm text-red-300">
+          <AlertCircle size={16} className="flex-shrink-0 mt-0.5" />
+          {error}
+        </div>
+      )}
+
+      {/* Modules */}
+      <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 overflow-hidden">
+        <div className="px-4 py-3 border-b border-slate-700/50 bg-slate-800/50 flex items-center justify-between">
+          <h4 className="text-sm font-bold text-white flex items-center gap-2">
+            <Sun size={14} className="text-solar-orange" /> Modules
+          </h4>
+          <button onClick={handleAddModule} className="flex items-center gap-1 text-xs text-solar-orange hover:text-orange-400">
+            <Plus size={14} /> Add Module
+          </button>
+        </div>
+        <div className="px-4 py-2 grid grid-cols-12 gap-2 text-xs font-bold text-slate-500 uppercase tracking-wider">
+          <div className="col-span-1">Default</div>
+          <div className="col-span-2">Manufacturer</div>
+          <div className="col-span-2">Model</div>
+          <div className="col-span-1">Watts</div>
+          <div className="col-span-1">Length mm</div>
+          <div className="col-span-1">Width mm</div>
+          <div className="col-span-1">Eff %</div>
+          <div className="col-span-1">$ / Unit</div>
+          <div className="col-span-1">Stock</div>
+        </div>
+        <div className="divide-y divide-slate-700/50">
+          {catalog.modules.map((module) => (
+            <div key={module.id} className="px-4 py-3 grid grid-cols-12 items-center gap-2">
+              <div className="col-span-1">
+                <input
+                  type="radio"
+                  name="defaultModule"
+                  checked={catalog.defaultModuleId === module.id}
+                  onChange={() => update({ defaultModuleId: module.id })}
+                  aria-label={`Make ${module.model} the default module`}
+                />
+              </div>
+              <div className="col-span-2">
+                <input
+                  type="text"
+                  value={module.manufacturer}
+                  onChange={(e) => updateModule(module.id, { manufacturer: e.target.value })}
+                  className={inputClass}
+                  aria-label="Module manufacturer"
+                />
+              </div>
+              <div className="col-span-2">
+                <input
+                  type="text"
+                  value={module.model}
+                  onChange={(e) => updateModule(module.id, { model: e.target.value })}
+                  className={inputClass}
+                  aria-label="Module model"
+                />
+              </div>
+              <div className="col-span-1">
+                <NumberCell value={module.watts} onChange={v => updateModule(module.id, { watts: v })} label="Module watts" step="5" />
+              </div>
+              <div className="col-span-1">
+                <NumberCell value={module.lengthMm} onChange={v => updateModule(module.id, { lengthMm: v })} label="Module length" />
+              </div>
+              <div className="col-span-1">
+                <NumberCell value={module.widthMm} onChange={v => updateModule(module.id, { widthMm: v })} label="Module width" />
+              </div>
+              <div className="col-span-1">
+                <NumberCell value={module.efficiencyPct} onChange={v => updateModule(module.id, { efficiencyPct: v })} label="Module efficiency" step="0.1" />
+              </div>
+              <div className="col-span-1">
+                <NumberCell value={module.unitCost} onChange={v => updateModule(module.id, { unitCost: v })} label="Module unit cost" />
+              </div>
+              <div className="col-span-1">
+                <NumberCell value={module.stockQty} onChange={v => updateModule(module.id, { stockQty: Math.round(v) })} label="Modules in stock" />
+              </div>
+              <div className="col-span-1 text-right">
+                <button
+                  onClick={() => handleRemoveModule(module.id)}
+                  className="p-2 text-slate-500 hover:text-red-400"
+                  aria-label="Remove module"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Inverters */}
+      <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 overflow-hidden">
+        <div className="px-4 py-3 border-b border-slate-700/50 bg-slate-800/50 flex items-center justify-between">
+          <h4 className="text-sm font-bold text-white flex items-center gap-2">
+            <Zap size={14} className="text-yellow-400" /> Inverters
+          </h4>
+          <button onClick={handleAddInverter} className="flex items-center gap-1 text-xs text-solar-orange hover:text-orange-400">
+            <Plus size={14} /> Add Inverter
+          </button>
+        </div>
+        <div className="px-4 py-2 grid grid-cols-12 gap-2 text-xs font-bold text-slate-500 uppercase tracking-wider">
+          <div className="col-span-1">Default</div>
+          <div className="col-span-2">Manufacturer</div>
+          <div className="col-span-2">Model</div>
+          <div className="col-span-1">Type</div>
+          <div className="col-span-1">AC kW</div>
+          <div className="col-span-1">Max DC/AC</div>
+          <div className="col-span-1">Eff %</div>
+          <div className="col-span-1">$ / Unit</div>
+          <div className="col-span-1">Stock</div>
+        </div>
+        <div className="divide-y divide-slate-700/50">
+          {catalog.inverters.map((inverter) => (
+            <div key={inverter.id} className="px-4 py-3 grid grid-cols-12 items-center gap-2">
+              <div className="col-span-1">
+                <input
+                  type="radio"
+                  name="defaultInverter"
+                  checked={catalog.defaultInverterId === inverter.id}
+                  onChange={() => update({ defaultInverterId: inverter.id })}
+                  aria-label={`Make ${inverter.model} the default inverter`}
+                />
+              </div>
+              <div className="col-span-2">
+                <input
+                  type="text"
+                  value={inverter.manufacturer}
+                  onChange={(e) => updateInverter(inverter.id, { manufacturer: e.target.value })}
+                  className={inputClass}
+                  aria-label="Inverter manufacturer"
+                />
+              </div>
+              <div className="col-span-2">
+                <input
+                  type="text"
+                  value={inverter.model}
+                  onChange={(e) => updateInverter(inverter.id, { model: e.target.value })}
+                  className={inputClass}
+                  aria-label="Inverter model"
+                />
+              </div>
+              <div className="col-span-1">
+                <select
+                  value={inverter.kind}
+                  onChange={(e) => updateInverter(inverter.id, { kind: e.target.value as Inverter['kind'] })}
+                  className={inputClass}
+                  aria-label="Inverter type"
+                >
+                  <option value="string">String</option>
+                  <option value="micro">Micro</option>
+                </select>
+              </div>
+              <div className="col-span-1">
+                <NumberCell value={inverter.acKw} onChange={v => updateInverter(inverter.id, { acKw: v })} label="Inverter AC kW" step="0.01" />
+              </div>
+              <div className="col-span-1">
+                <NumberCell value={inverter.maxDcAcRatio} onChange={v => updateInverter(inverter.id, { maxDcAcRatio: v })} label="Maximum DC/AC ratio" step="0.05" />
+              </div>
+              <div className="col-span-1">
+                <NumberCell value={inverter.efficiencyPct} onChange={v => updateInverter(inverter.id, { efficiencyPct: v })} label="Inverter efficiency" step="0.1" />
+              </div>
+              <div className="col-span-1">
+                <NumberCell value={inverter.unitCost} onChange={v => updateInverter(inverter.id, { unitCost: v })} label="Inverter unit cost" />
+              </div>
+              <div className="col-span-1">
+                <NumberCell value={inverter.stockQty} onChange={v => updateInverter(inverter.id, { stockQty: Math.round(v) })} label="Inverters in stock" />
+              </div>
+              <div className="col-span-1 text-right">
+                <button
+                  onClick={() => handleRemoveInverter(inverter.id)}
+                  className="p-2 text-slate-500 hover:text-red-400"
+                  aria-label="Remove inverter"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Batteries */}
+      <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 overflow-hidden">
+        <div className="px-4 py-3 border-b border-slate-700/50 bg-slate-800/50 flex items-center justify-between">
+          <h4 className="text-sm font-bold text-white flex items-center gap-2">
+            <BatteryCharging size={14} className="text-emerald-400" /> Batteries
+          </h4>
+          <button onClick={handleAddBattery} className="flex items-center gap-1 text-xs text-solar-orange hover:text-orange-400">
+            <Plus size={14} /> Add Battery
+          </button>
+        </div>
+        <div className="px-4 py-2 grid grid-cols-12 gap-2 text-xs font-bold text-slate-500 uppercase tracking-wider">
+          <div className="col-span-3">Manufacturer</div>
+          <div className="col-span-3">Model</div>
+          <div className="col-span-1">kWh</div>
+          <div className="col-span-1">kW</div>
+          <div className="col-span-2">$ / Unit</div>
+          <div className="col-span-1">Stock</div>
+        </div>
+        <div className="divide-y divide-slate-700/50">
+          {catalog.batteries.map((battery) => (
+            <div key={battery.id} className="px-4 py-3 grid grid-cols-12 items-center gap-2">
+              <div className="col-span-3">
+                <input
+                  type="text"
+                  value={battery.manufacturer}
+                  onChange={(e) => updateBattery(battery.id, { manufacturer: e.target.value })}
+                  className={inputClass}
+                  aria-label="Battery manufacturer"
+                />
+              </div>
+              <div className="col-span-3">
+                <input
+                  type="text"
+                  value={battery.model}
+                  onChange={(e) => updateBattery(battery.id, { model: e.target.value })}
+                  className={inputClass}
+                  aria-label="Battery model"
+                />
+              </div>
+              <div className="col-span-1">
+                <NumberCell value={battery.capacityKwh} onChange={v => updateBattery(battery.id, { capacityKwh: v })} label="Battery capacity" step="0.1" />
+              </div>
+              <div className="col-span-1">
+                <NumberCell value={battery.powerKw} onChange={v => updateBattery(battery.id, { powerKw: v })} label="Battery power" step="0.1" />
+              </div>
+              <div className="col-span-2">
+                <NumberCell value={battery.unitCost} onChange={v => updateBattery(battery.id, { unitCost: v })} label="Battery unit cost" step="50" />
+              </div>
+              <div className="col-span-1">
+                <NumberCell value={battery.stockQty} onChange={v => updateBattery(battery.id, { stockQty: Math.round(v) })} label="Batteries in stock" />
+              </div>
+              <div className="col-span-1 text-right">
+                <button
+                  onClick={() => update({ batteries: catalog.batteries.filter(b => b.id !== battery.id) })}
+                  className="p-2 text-slate-500 hover:text-red-400"
+                  aria-label="Remove battery"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+          {catalog.batteries.length === 0 && (
+            <p className="px-4 py-6 text-center text-sm text-slate-500">No batteries configured</p>
+          )}
+        </div>
+      </div>
+
+      {/* Info Box */}
+      <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg p-4 flex items-start gap-3">
+        <Info size={18} className="text-blue-400 flex-shrink-0 mt-0.5" />
+        <div className="text-sm text-blue-300">
+          <p className="font-medium mb-1">How Equipment Is Used</p>
+          <ul className="list-disc list-inside text-blue-300/80 space-y-1">
+            <li><strong>Designs:</strong> the roof designer lays out the selected module and sizes inverters to it</li>
+            <li><strong>Microinverters:</strong> one per module; string inverters are added until the array is within the max DC/AC ratio</li>
+            <li><strong>Projects:</strong> a signed deal copies its bill of materials and equipment cost onto the project</li>
+            <li><strong>Stock:</strong> the installer board allocates stock to uninstalled projects, oldest first, and flags shortages</li>
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,354 @@
+// components/InstallCalendar.tsx
+// Install Calendar - drag installs onto crews, hold days for weather, and
+// check the signed backlog against crew capacity
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight, CloudRain, AlertTriangle, CalendarDays, HardHat, X } from 'lucide-react';
+import type { Installer, Lead, Project } from '../types';
+import {
+  InstallSchedule,
+  addDays,
+  appointmentDates,
+  capacityForecast,
+  findConflicts,
+  findCrew,
+  installBacklog,
+  isHeld,
+  listCrews,
+  weekStart,
+} from '../services/installSchedule';
+import { bookInstall, cancelInstall, loadInstallSchedule, setWeatherHold, syncInstallScheduleFromServer } from '../services/installBookings';
+import { getActiveCompanyId } from '../services/companyStore';
+
+// A project's booked install, for the tracker to copy onto the project
+export interface InstallBooking {
+  projectId: string;
+  installer: Installer;
+  installDate: string; // Last day of the install
+}
+
+interface InstallCalendarProps {
+  projects: Project[];
+  leads: Lead[];
+  installers: Installer[];
+  stageOrder: string[];
+  onBookingsChange: (bookings: InstallBooking[]) => void;
+}
+
+const DAYS_SHOWN = 14;
+const FORECAST_WEEK_OPTIONS = [4, 6, 8];
+
+const dayLabel = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const isWeekend = (date: string) => [0, 6].includes(new Date(`${date}T00:00:00Z`).getUTCDay());
+
+export default function InstallCalendar({ projects, leads, installers, stageOrder, onBookingsChange }: InstallCalendarProps) {
+  const companyId = getActiveCompanyId();
+  const today = new Date().toISOString().slice(0, 10);
+
+  const [schedule, setSchedule] = useState<InstallSchedule>(() => loadInstallSchedule(companyId));
+  const [firstDay, setFirstDay] = useState(() => weekStart(today));
+  const [forecastWeeks, setForecastWeeks] = useState(6);
+
+  useEffect(() => {
+    syncInstallScheduleFromServer(companyId).then(setSchedule);
+  }, [companyId]);
+
+  const days = Array.from({ length: DAYS_SHOWN }, (_, i) => addDays(firstDay, i));
+  const crews = listCrews(installers);
+  const backlog = installBacklog(projects, stageOrder);
+  const unscheduled = backlog.filter(p => !schedule.appointments.some(a => a.projectId === p.id));
+
+  const conflicts = useMemo(() => findConflicts(schedule, installers, projects), [schedule, installers, projects]);
+  const forecast = useMemo(
+    () => capacityForecast(installers, projects, schedule, stageOrder, forecastWeeks, today),
+    [installers, projects, schedule, stageOrder, forecastWeeks, today]
+  );
+
+  const customerName = (project: Project) => leads.find(l => l.id === project.leadId)?.name || project.id;
+
+  // Save, then tell the tracker about every install whose crew or end date moved
+  const commit = async (change: Promise<InstallSchedule>) => {
+    let next: InstallSchedule;
+    try {
+      next = await change;
+    } catch (err) {
+      alert(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    const endOf = (s: InstallSchedule, projectId: string) => {
+      const appointment = s.appointments.find(a => a.projectId === projectId);
+      if (!appointment) return null;
+      const dates = appointmentDates(appointment, findCrew(installers, appointment.installerId, appointment.crewId)?.crew, s.weatherHolds);
+      return `${appointment.installerId}|${dates[dates.length - 1] || appointment.startDate}`;
+    };
+    const bookings: InstallBooking[] = [];
+    next.appointments.forEach(appointment => {
+      const end = endOf(next, appointment.projectId);
+      const installer = installers.find(i => i.id === appointment.installerId);
+      if (!end || !installer || end === endOf(schedule, appointment.projectId)) return;
+      bookings.push({ projectId: appointment.projectId, installer, installDate: end.split('|')[1] });
+    });
+
+    setSchedule(next);
+    if (bookings.length > 0) onBookingsChange(bookings);
+  };
+
+  const handleDrop = (e: React.DragEvent, installerId: string, crewId: string, date: string) => {
+    e.preventDefault();
+    const project = projects.find(p => p.id === e.dataTransfer.getData('text/plain'));
+    if (project) commit(bookInstall(companyId, project, installerId, crewId, date));
+  };
+
+  const handleUnscheduleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const appointment = schedule.appointments.find(a => a.projectId === e.dataTransfer.getData('text/plain'));
+    if (appointment) commit(cancelInstall(companyId, appointment.id));
+  };
+
+  const toggleHold = (date: string, installerId: string | null) => {
+    const held = schedule.weatherHolds.some(h => h.date === date && h.installerId === installerId);
+    const reason = held ? undefined : prompt(`Hold installs on ${date}${installerId ? '' : ' for every installer'}? Reason (optional):`);
+    if (!held && reason === null) return;
+    commit(setWeatherHold(companyId, { date, installerId, reason: reason?.trim() || undefined }));
+  };
+
+  const startDrag = (e: React.DragEvent, projectId: string) => {
+    e.dataTransfer.setData('text/plain', projectId);
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const peakWeekKw = Math.max(1, ...forecast.weeks.map(w => Math.max(w.capacityKw, w.scheduledKw)));
+
+  return (
+    <div className="space-y-6">
+      {/* Capacity forecast */}
+      <div className="glass-panel border border-slate-800 rounded-xl p-5 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="font-bold text-white flex items-center gap-2">
+            <HardHat size={16} className="text-solar-orange" />
+            Crew Capacity
+          </h3>
+          <select
+            value={forecastWeeks}
+            onChange={(e) => setForecastWeeks(Number(e.target.value))}
+            className="bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-white text-sm focus:outline-none focus:border-blue-500"
+            aria-label="Forecast horizon"
+          >
+            {FORECAST_WEEK_OPTIONS.map(w => <option key={w} value={w}>Next {w} weeks</option>)}
+          </select>
+        </div>
+
+        {forecast.overCapacity && (
+          <div className="p-3 bg-red-900/30 border border-red-800/60 rounded-lg text-sm text-red-300 flex items-center gap-2">
+            <AlertTriangle size={14} />
+            Signed backlog of {forecast.backlogKw} kW is more than the {forecast.capacityKw} kW your crews can install in the next {forecastWeeks} weeks
+            {forecast.weeksOfBacklog !== null && ` (about ${forecast.weeksOfBacklog} weeks of work)`}.
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-4 text-sm">
+          <div>
+            <p className="text-slate-400">Signed backlog</p>
+            <p className="text-white text-xl font-mono font-bold">{forecast.backlogKw} <span className="text-xs text-slate-500">kW</span></p>
+          </div>
+          <div>
+            <p className="text-slate-400">Crew capacity</p>
+            <p className="text-white text-xl font-mono font-bold">{forecast.capacityKw} <span className="text-xs text-slate-500">kW</span></p>
+          </div>
+          <div>
+            <p className="text-slate-400">Booked</p>
+            <p className="text-white text-xl font-mono font-bold">{forecast.scheduledKw} <span className="text-xs text-slate-500">kW</span></p>
+          </div>
+        </div>
+
+        <div className="space-y-1.5">
+          {forecast.weeks.map(week => (
+            <div key={week.weekStart} className="flex items-center gap-3 text-xs">
+              <span className="w-20 font-mono text-slate-500">{week.weekStart.slice(5)}</span>
+              <div className="flex-1 h-3 bg-slate-800 rounded relative overflow-hidden">
+                <div
+                  className="absolute inset-y-0 left-0 bg-slate-600/60"
+                  style={{ width: `${(week.capacityKw / peakWeekKw) * 100}%` }}
+                />
+                <div
+                  className={`absolute inset-y-0 left-0 ${week.scheduledKw > week.capacityKw ? 'bg-red-500/80' : 'bg-emerald-500/70'}`}
+                  style={{ width: `${(week.scheduledKw / peakWeekKw) * 100}%` }}
+                />
+              </div>
+              <span className="w-28 text-right font-mono text-slate-400">{week.scheduledKw} / {week.capacityKw} kW</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Unscheduled backlog; drop an install here to unschedule it */}
+      <div
+        className="glass-panel border border-slate-800 rounded-xl p-4"
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={handleUnscheduleDrop}
+      >
+        <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">
+          Unscheduled ({unscheduled.length}) • drag onto a crew
+        </p>
+        {unscheduled.length === 0 ? (
+          <p className="text-sm text-slate-500">Every signed project has an install date.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {unscheduled.map(p => (
+              <div
+                key={p.id}
+                draggable
+                onDragStart={(e) => startDrag(e, p.id)}
+                className="px-2 py-1 bg-slate-800 border border-slate-700 rounded text-xs text-slate-200 cursor-grab"
+                title={p.permit && p.permit.status !== 'approved' ? 'Permit not approved yet' : undefined}
+              >
+                <span className="font-mono text-slate-500">{p.id}</span> {customerName(p)} • {p.kW.toFixed(1)} kW
+                {p.permit && p.permit.status !== 'approved' && <AlertTriangle size={10} className="inline ml-1 text-yellow-400" />}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Calendar */}
+      <div className="glass-panel border border-slate-800 rounded-xl overflow-x-auto">
+        <div className="flex items-center justify-between p-4">
+          <h3 className="font-bold text-white flex items-center gap-2">
+            <CalendarDays size={16} className="text-slate-500" />
+            {days[0]} – {days[days.length - 1]}
+          </h3>
+          <div className="flex gap-2">
+            <button className="secondary-btn text-xs" onClick={() => setFirstDay(addDays(firstDay, -7))} aria-label="Previous week">
+              <ChevronLeft size={14} />
+            </button>
+            <button className="secondary-btn text-xs" onClick={() => setFirstDay(weekStart(today))}>
+              Today
+            </button>
+            <button className="secondary-btn text-xs" onClick={() => setFirstDay(addDays(firstDay, 7))} aria-label="Next week">
+              <ChevronRight size={14} />
+            </button>
+          </div>
+        </div>
+
+        {crews.length === 0 ? (
+          <div className="p-10 text-center text-slate-500">
+            <HardHat className="mx-auto mb-3 opacity-50" size={32} />
+            <p>No crews yet. Add crews to your installers in Company Settings.</p>
+          </div>
+        ) : (
+          <table className="w-full text-xs border-collapse">
+            <thead>
+              <tr>
+                <th className="p-2 text-left text-slate-500 font-bold uppercase tracking-wider w-40">Crew</th>
+                {days.map(date => (
+                  <th key={date} className={`p-1 min-w-[72px] ${date === today ? 'text-emerald-400' : 'text-slate-500'}`}>
+                    <button
+                      className={`w-full rounded px-1 py-0.5 ${schedule.weatherHolds.some(h => h.date === date && h.installerId === null) ? 'bg-blue-900/60 text-blue-300' : 'hover:bg-slate-800'}`}
+                      onClick={() => toggleHold(date, null)}
+                      title="Toggle a weather hold for every installer"
+                    >
+                      {dayLabel(date)}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {installers.filter(i => crews.some(c => c.installer.id === i.id)).map(installer => (
+                <React.Fragment key={installer.id}>
+                  <tr className="border-t border-slate-800 bg-slate-900/60">
+                    <td className="p-2 font-bold text-slate-300">{installer.name}</td>
+                    {days.map(date => {
+                      const held = schedule.weatherHolds.find(h => h.date === date && h.installerId === installer.id);
+                      return (
+                        <td key={date} className="p-1 text-center">
+                          <button
+                            className={held ? 'text-blue-300' : 'text-slate-700 hover:text-slate-400'}
+                            onClick={() => toggleHold(date, installer.id)}
+                            title={held ? `Weather hold${held.reason ? `: ${held.reason}` : ''}` : `Hold ${installer.name} on ${date}`}
+                            aria-label={`Toggle weather hold for ${installer.name} on ${date}`}
+                          >
+                            <CloudRain size={12} />
+                          </button>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                  {crews.filter(c => c.installer.id === installer.id).map(({ crew }) => (
+                    <tr key={crew.id} className="border-t border-slate-800/50">
+                      <td className="p-2 text-slate-400">
+                        {crew.name} <span className="font-mono text-slate-600">{crew.capacityKwPerDay} kW/d</span>
+                      </td>
+                      {days.map(date => {
+                        const held = isHeld(date, installer.id, schedule.weatherHolds);
+                        const booked = schedule.appointments.filter(a =>
+                          a.crewId === crew.id && appointmentDates(a, crew, schedule.weatherHolds).includes(date));
+                        return (
+                          <td
+                            key={date}
+                            className={`p-1 align-top h-12 border-l border-slate-800/50 ${held ? 'bg-blue-950/40' : isWeekend(date) ? 'bg-slate-900/60' : ''}`}
+                            onDragOver={(e) => e.preventDefault()}
+                            onDrop={(e) => handleDrop(e, installer.id, crew.id, date)}
+                          >
+                            {booked.map(appointment => {
+                              const project = projects.find(p => p.id === appointment.projectId);
+                              const problems = conflicts.filter(c => c.appointmentId === appointment.id);
+                              return (
+                                <div
+                                  key={appointment.id}
+                                  draggable
+                                  onDragStart={(e) => startDrag(e, appointment.projectId)}
+                                  className={`mb-0.5 px-1 py-0.5 rounded truncate cursor-grab ${problems.length > 0 ? 'bg-red-900/60 text-red-200' : 'bg-emerald-900/60 text-emerald-200'}`}
+                                  title={[
+                                    `${project ? customerName(project) : appointment.projectId} • ${appointment.kW.toFixed(1)} kW`,
+                                    ...problems.map(c => c.message),
+                                  ].join('\n')}
+                                >
+                                  {project ? customerName(project) : appointment.projectId}
+                                </div>
+                              );
+                            })}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Conflicts */}
+      {conflicts.length > 0 && (
+        <div className="glass-panel border border-red-900/50 rounded-xl p-4 space-y-1">
+          <p className="text-xs font-bold text-red-400 uppercase tracking-wider mb-2">Conflicts ({conflicts.length})</p>
+          {conflicts.map((conflict, index) => {
+            const appointment = schedule.appointments.find(a => a.id === conflict.appointmentId);
+            return (
+              <div key={index} className="flex items-center gap-2 text-sm text-slate-300">
+                <AlertTriangle size={12} className="text-red-400" />
+                <span className="font-mono text-slate-500">{appointment?.projectId}</span>
+                <span className="text-slate-500">{appointment?.startDate}</span>
+                {conflict.message}
+                {appointment && (
+                  <button
+                    className="ml-auto text-slate-500 hover:text-red-400"
+                    onClick={() => commit(cancelInstall(companyId, appointment.id))}
+                    title="Unschedule"
+                    aria-label="Unschedule install"
+                  >
+                    <X size={12} />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
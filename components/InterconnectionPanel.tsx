@@ -0,0 +1,260 @@
+// components/InterconnectionPanel.tsx
+// Utility interconnection for one project: application, NEM program, meter
+// swap, and the approval and PTO letters
+
+import React, { useEffect, useState } from 'react';
+import { Zap, Send, Check, XCircle, Upload, FileText, Gauge, AlertTriangle } from 'lucide-react';
+import type { InterconnectionLetter, InterconnectionRecord, InterconnectionStatus, Lead, NemProgram } from '../types';
+import {
+  startInterconnection,
+  transitionInterconnection,
+  readLetter,
+  interconnectionOverdueDays,
+  estimateDaysToPto,
+  UTILITY_TURNAROUND,
+  INTERCONNECTION_STATUS_LABELS,
+  InterconnectionDetails,
+} from '../services/interconnection';
+import { loadFileUrl } from '../services/fileUploads';
+
+interface InterconnectionPanelProps {
+  interconnection?: InterconnectionRecord;
+  lead?: Lead;
+  onChange: (interconnection: InterconnectionRecord) => void;
+}
+
+const INPUT_CLASS =
+  'bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-white text-sm focus:outline-none focus:border-blue-500';
+
+const STATUS_CLASS: Record<InterconnectionStatus, string> = {
+  not_submitted: 'bg-slate-700 text-slate-300',
+  submitted: 'bg-blue-900/60 text-blue-300',
+  rejected: 'bg-red-900/60 text-red-300',
+  approved: 'bg-purple-900/60 text-purple-300',
+  meter_swapped: 'bg-yellow-900/60 text-yellow-300',
+  pto_granted: 'bg-emerald-900/60 text-emerald-300',
+};
+
+const NEM_OPTIONS: { value: NemProgram; label: string }[] = [
+  { value: 'NEM3', label: 'NEM 3 / Net Billing' },
+  { value: 'NEM2', label: 'NEM 2' },
+  { value: 'NONE', label: 'No net metering' },
+];
+
+const LetterField: React.FC<{
+  label: string;
+  letter?: InterconnectionLetter;
+  onUpload: (file: File) => void;
+}> = ({ label, letter, onUpload }) => {
+  // The letter is fetched from file storage for the download link
+  const [href, setHref] = useState<string | undefined>(undefined);
+
+  useEffect(() => {
+    setHref(undefined);
+    if (letter) loadFileUrl(letter.fileId).then(url => setHref(url || undefined));
+  }, [letter?.fileId]);
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-xs text-slate-500 w-28">{label}</span>
+      {letter && (
+        <a
+          href={href}
+          download={letter.fileName}
+          className="flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300"
+        >
+          <FileText size={12} />
+          {letter.fileName}
+        </a>
+      )}
+      <label className="secondary-btn text-xs cursor-pointer">
+        <Upload size={12} />
+        {letter ? 'Replace' : 'Upload'}
+        <input
+          type="file"
+          accept="application/pdf,image/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onUpload(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+    </div>
+  );
+};
+
+const InterconnectionPanel: React.FC<InterconnectionPanelProps> = ({ interconnection, lead, onChange }) => {
+  const [date, setDate] = useState(new Date().toISOString().slice(0, 10));
+  const [error, setError] = useState<string | null>(null);
+
+  if (!interconnection) {
+    return (
+      <div className="mt-4 p-4 bg-slate-900/60 border border-slate-800 rounded-lg flex items-center justify-between gap-4">
+        <p className="text-sm text-slate-400">
+          <Zap size={14} className="inline mr-2 text-slate-500" />
+          No interconnection application yet.
+        </p>
+        <button className="secondary-btn text-xs" onClick={() => onChange(startInterconnection(lead))}>
+          <Zap size={14} />
+          Start Application
+        </button>
+      </div>
+    );
+  }
+
+  const record = interconnection;
+
+  // Transitions throw when a step isn't allowed yet; show why
+  const move = (to: InterconnectionStatus, details?: InterconnectionDetails) => {
+    try {
+      onChange(transitionInterconnection(record, to, date, details));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const upload = (key: 'approvalLetter' | 'ptoLetter') => (file: File) => {
+    readLetter(file)
+      .then(letter => {
+        onChange({ ...record, [key]: letter });
+        setError(null);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  };
+
+  const overdue = interconnectionOverdueDays(record);
+  const editable = record.status === 'not_submitted' || record.status === 'rejected';
+
+  return (
+    <div className="mt-4 p-4 bg-slate-900/60 border border-slate-800 rounded-lg space-y-4 text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <Zap size={14} className="text-slate-500" />
+        <input
+          type="text"
+          list="interconnection-utilities"
+          value={record.utility}
+          disabled={!editable}
+          onChange={(e) => onChange({ ...record, utility: e.target.value })}
+          placeholder="Utility"
+          className={`${INPUT_CLASS} w-36`}
+          aria-label="Utility"
+        />
+        <datalist id="interconnection-utilities">
+          {UTILITY_TURNAROUND.map(u => <option key={u.utility} value={u.utility} />)}
+        </datalist>
+        <input
+          type="text"
+          value={record.applicationId || ''}
+          disabled={!editable}
+          onChange={(e) => onChange({ ...record, applicationId: e.target.value })}
+          placeholder="Application ID"
+          className={`${INPUT_CLASS} w-40 font-mono`}
+          aria-label="Application ID"
+        />
+        <select
+          value={record.nemProgram}
+          disabled={!editable}
+          onChange={(e) => onChange({ ...record, nemProgram: e.target.value as NemProgram })}
+          className={INPUT_CLASS}
+          aria-label="NEM program"
+        >
+          {NEM_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+        </select>
+        <span className={`px-2 py-1 text-xs rounded ${STATUS_CLASS[record.status]}`}>
+          {INTERCONNECTION_STATUS_LABELS[record.status]}
+        </span>
+        {record.status !== 'pto_granted' && (
+          <span className="text-xs text-slate-500 ml-auto">
+            ~<span className="font-mono text-slate-300">{estimateDaysToPto(record)}</span> days to PTO
+          </span>
+        )}
+      </div>
+
+      {overdue > 0 && (
+        <p className="text-xs text-yellow-400 flex items-center gap-1">
+          <AlertTriangle size={12} />
+          {record.utility || 'The utility'} is {overdue} day{overdue === 1 ? '' : 's'} past its typical turnaround
+        </p>
+      )}
+
+      <div className="text-xs text-slate-400 font-mono space-y-0.5">
+        {record.submittedAt && <div>Submitted {record.submittedAt}</div>}
+        {record.rejectedReason && <div className="text-red-400">Rejected: {record.rejectedReason}</div>}
+        {record.approvedAt && <div>Approved {record.approvedAt}</div>}
+        {record.meterSwapDate && (
+          <div>Meter swap {record.status === 'approved' ? 'scheduled' : ''} {record.meterSwapDate}</div>
+        )}
+        {record.ptoGrantedAt && <div className="text-emerald-400">PTO granted {record.ptoGrantedAt}</div>}
+      </div>
+
+      <div className="space-y-2">
+        <LetterField label="Approval letter" letter={record.approvalLetter} onUpload={upload('approvalLetter')} />
+        <LetterField label="PTO letter" letter={record.ptoLetter} onUpload={upload('ptoLetter')} />
+      </div>
+
+      {record.status !== 'pto_granted' && (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className={INPUT_CLASS}
+            aria-label="Event date"
+          />
+          {editable && (
+            <button className="secondary-btn text-xs" onClick={() => move('submitted')}>
+              <Send size={12} />
+              {record.status === 'rejected' ? 'Resubmit' : 'Submit to Utility'}
+            </button>
+          )}
+          {record.status === 'submitted' && (
+            <>
+              <button className="secondary-btn text-xs" onClick={() => move('approved')}>
+                <Check size={12} className="text-emerald-500" />
+                Approved
+              </button>
+              <button
+                className="secondary-btn text-xs"
+                onClick={() => {
+                  const reason = prompt('Why did the utility reject the application?');
+                  if (reason !== null) move('rejected', { rejectedReason: reason });
+                }}
+              >
+                <XCircle size={12} className="text-red-400" />
+                Rejected
+              </button>
+            </>
+          )}
+          {record.status === 'approved' && (
+            <>
+              <button
+                className="secondary-btn text-xs"
+                onClick={() => onChange({ ...record, meterSwapDate: date })}
+                title="Schedule the meter swap on the selected date"
+              >
+                <Gauge size={12} />
+                Schedule Meter Swap
+              </button>
+              <button className="secondary-btn text-xs" onClick={() => move('meter_swapped')}>
+                <Gauge size={12} className="text-emerald-500" />
+                Meter Swapped
+              </button>
+            </>
+          )}
+          {(record.status === 'approved' || record.status === 'meter_swapped') && (
+            <button className="secondary-btn text-xs" onClick={() => move('pto_granted')}>
+              <Check size={12} className="text-emerald-500" />
+              PTO Granted
+            </button>
+          )}
+        </div>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default InterconnectionPanel;
@@ -1,9 +1,10 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { MOCK_LEADS } from '../constants';
 import { LeadStatus, Lead, UserProfile, PlanId } from '../types';
-import { Filter, Search, MapPin, Sparkles, Battery, Plus, X, User, DollarSign, FileText, Calendar, Flame, Loader2, Lock, Edit2, ChevronRight, Phone, Eye, Zap, ArrowUpDown, ArrowUp, ArrowDown, Sliders } from 'lucide-react';
-import { loadOrDefault, save } from '../utils/storage';
+import { Filter, Search, MapPin, Sparkles, Battery, Plus, X, User, DollarSign, FileText, Calendar, Flame, Loader2, Lock, Edit2, ChevronRight, Phone, Eye, Zap, ArrowUpDown, ArrowUp, ArrowDown, Sliders, LayoutGrid, List, Clock, Copy } from 'lucide-react';
+import { loadOrDefault, saveLeads, syncLeadsFromServer } from '../utils/storage';
+import { onSyncFailure } from '../services/recordSync';
 import { routeLead } from '../services/geminiService';
 import { hasAccess } from '../utils/plan';
 import { scoreLead, getScoreColor } from '../services/leadIntelligence';
@@ -14,6 +15,16 @@ import { getActiveCompanyId } from '../services/companyStore';
 import CustomFieldRenderer from './CustomFieldRenderer';
 import { notifyNewHighPriorityLead, notify } from '../services/notifications';
 import { logCreate, logUpdate } from '../services/auditLog';
+import { getLeadStatuses, getLeadStatusColor, getLeadStatusName, getLeadStatusOrder, getInitialLeadStatus, changeLeadStatus, isClosedStatus, loadLeadPipeline } from '../services/leadPipeline';
+import { lastContactedAt } from '../services/leadActivity';
+import { computeFinancials, recommendSystemSizeKw } from '../services/financialEngine';
+import { loadPricing } from '../services/pricingConfig';
+import { can } from '../services/rbac';
+import { getCurrentRole } from '../services/auth';
+import KanbanBoard from './KanbanBoard';
+import DuplicateLeadsModal from './DuplicateLeadsModal';
+import { findDuplicates, findDuplicateClusters } from '../services/leadDedup';
+import { loadDismissedPairs } from '../services/leadMerge';
 
 const LEADS_KEY = "primus_leads";
 
@@ -55,6 +66,11 @@ const LeadBoard: React.FC<LeadBoardProps> = ({ userProfile, onRequestUpgrade })
   const [customFieldValues, setCustomFieldValues] = useState<Record<string, any>>({});
   const [showCustomFields, setShowCustomFields] = useState(false);
 
+  // Company lead statuses, in pipeline order
+  const [leadStatuses] = useState(() => getLeadStatuses());
+  const [view, setView] = useState<'table' | 'board'>('table');
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
+
   // Load custom fields on mount
   useEffect(() => {
     const companyId = getActiveCompanyId();
@@ -79,11 +95,21 @@ const LeadBoard: React.FC<LeadBoardProps> = ({ userProfile, onRequestUpgrade })
   const [previewAiTags, setPreviewAiTags] = useState<string[]>([]);
   const [previewPriority, setPreviewPriority] = useState<'low' | 'medium' | 'high' | null>(null);
 
-  // Sync with LocalStorage
+  // Signed in, the server's leads replace the local copy
   useEffect(() => {
-    save(LEADS_KEY, leads);
+    syncLeadsFromServer().then(serverLeads => { if (serverLeads) setLeads(serverLeads); });
+  }, []);
+
+  // Sync with LocalStorage (and the server, when signed in)
+  useEffect(() => {
+    saveLeads(leads);
   }, [leads]);
 
+  // A change the server refused has been undone in the local copy
+  useEffect(() => onSyncFailure(failure => {
+    if (failure.collection === 'leads' && failure.records) setLeads(failure.records as Lead[]);
+  }), []);
+
   const handleOpenCreate = () => {
       setEditingId(null);
       setFormData({ name: '', address: '', estimatedBill: '', age: '', notes: '' });
@@ -182,13 +208,13 @@ const LeadBoard: React.FC<LeadBoardProps> = ({ userProfile, onRequestUpgrade })
     });
 
     const baseLead: Lead = {
-      id: `L-${Math.floor(Math.random() * 10000).toString().padStart(4, '0')}`,
+      id: `L-${Date.now().toString(36).toUpperCase()}`,
       name: formData.name,
       address: formData.address,
       estimatedBill: Number(formData.estimatedBill) || 0,
       age: formData.age ? Number(formData.age) : undefined,
       notes: formData.notes,
-      status: "NEW",
+      status: getInitialLeadStatus(),
       createdAt: new Date().toISOString().slice(0, 10),
       aiScore: analysis.score,
       aiTags: analysis.tags,
@@ -198,6 +224,17 @@ const LeadBoard: React.FC<LeadBoardProps> = ({ userProfile, onRequestUpgrade })
       companyId: getActiveCompanyId()
     } as Lead;
 
+    // Same household already on the board?
+    const companyLeads = leads.filter(l => !l.companyId || l.companyId === baseLead.companyId);
+    const duplicates = findDuplicates(baseLead, companyLeads);
+    if (duplicates.length > 0) {
+      const lines = duplicates.slice(0, 3).map(d => {
+        const existing = companyLeads.find(l => l.id === d.leadId)!;
+        return `• ${existing.name}, ${existing.address} (${Math.round(d.confidence * 100)}%: ${d.reasons.join(', ').toLowerCase()})`;
+      });
+      if (!confirm(`This looks like a lead you already have:\n\n${lines.join('\n')}\n\nCreate it anyway?`)) return;
+    }
+
     let finalLead = baseLead;
 
     // Run AI Routing ONLY if allowed (EMPIRE+)
@@ -267,6 +304,41 @@ const LeadBoard: React.FC<LeadBoardProps> = ({ userProfile, onRequestUpgrade })
     setLeads(updated);
   };
 
+  // Kanban: dragging a card changes the lead's status
+  const canMoveLeads = can(getCurrentRole(), 'EDIT_LEADS');
+  const pricing = loadPricing();
+  const leadPipeline = loadLeadPipeline();
+  const leadValue = (lead: Lead) =>
+    computeFinancials(recommendSystemSizeKw(lead.estimatedBill), lead.estimatedBill, pricing).systemCost;
+  // Same 48-hour rule as the daily digest
+  const staleDays = (lead: Lead) => {
+    if (isClosedStatus(lead.status, leadPipeline)) return 0;
+    const days = Math.floor((Date.now() - new Date(lastContactedAt(lead) || lead.createdAt).getTime()) / 86400000);
+    return days >= 2 ? days : 0;
+  };
+
+  const handleMoveLead = (lead: Lead, statusId: string) => {
+    // Won and lost are final; moving a closed lead reopens it
+    const reopen = isClosedStatus(lead.status, leadPipeline);
+    if (reopen && !confirm(`${lead.name} is ${getLeadStatusName(lead.status)}. Reopen the lead and move it to ${getLeadStatusName(statusId)}?`)) return;
+    try {
+      const moved = changeLeadStatus(lead, statusId, { reopen });
+      setLeads(prev => prev.map(l => l.id === lead.id ? moved : l));
+      logUpdate('Lead', lead.id, lead, moved, { previousStatus: lead.status, newStatus: statusId, via: 'kanban', reopened: reopen });
+    } catch (err) {
+      // Missing required fields or a lost reason: finish the move in the drawer
+      alert(err instanceof Error ? err.message : String(err));
+      openLeadDetails(lead);
+    }
+  };
+
+  // Probable duplicate households, recounted when the review queue closes
+  const duplicateCount = useMemo(() => {
+    const companyId = getActiveCompanyId();
+    const companyLeads = leads.filter(l => !l.companyId || l.companyId === companyId);
+    return findDuplicateClusters(companyLeads, loadDismissedPairs(companyId)).length;
+  }, [leads, isDuplicatesOpen]);
+
   // Apply filters and sorting pipeline
   let processedLeads = applyFilters(leads, {
     filter,
@@ -275,17 +347,7 @@ const LeadBoard: React.FC<LeadBoardProps> = ({ userProfile, onRequestUpgrade })
     priorityFilter,
     repFilter
   });
-  processedLeads = applySorting(processedLeads, sortField, sortDirection);
-
-  const getStatusColor = (status: string) => {
-      switch(status) {
-          case 'NEW': return 'bg-blue-500/10 text-blue-400 border-blue-500/20';
-          case 'QUALIFIED': return 'bg-purple-500/10 text-purple-400 border-purple-500/20';
-          case 'CLOSED_WON': return 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20';
-          case 'CLOSED_LOST': return 'bg-red-500/10 text-red-400 border-red-500/20';
-          default: return 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20';
-      }
-  };
+  processedLeads = applySorting(processedLeads, sortField, sortDirection, getLeadStatusOrder());
 
   return (
     <div className="space-y-6 animate-fade-in relative">
@@ -294,12 +356,30 @@ const LeadBoard: React.FC<LeadBoardProps> = ({ userProfile, onRequestUpgrade })
           <h2 className="text-3xl font-display font-bold text-slate-100">Lead Board</h2>
           <p className="text-slate-400 mt-1">Manage and track your solar sales pipeline.</p>
         </div>
+        <div className="flex items-center gap-3">
+        {duplicateCount > 0 && (
+          <button
+            onClick={() => setIsDuplicatesOpen(true)}
+            className="flex items-center gap-2 px-4 py-2.5 bg-slate-800 border border-slate-700 text-yellow-400 rounded-lg hover:bg-slate-700 transition-colors text-sm font-medium"
+          >
+            <Copy size={16} />
+            {duplicateCount} Possible Duplicate{duplicateCount === 1 ? '' : 's'}
+          </button>
+        )}
+        <button
+          onClick={() => setView(view === 'table' ? 'board' : 'table')}
+          className="flex items-center gap-2 px-4 py-2.5 bg-slate-800 border border-slate-700 text-slate-300 rounded-lg hover:bg-slate-700 hover:text-white transition-colors text-sm font-medium"
+        >
+          {view === 'table' ? <LayoutGrid size={16} /> : <List size={16} />}
+          {view === 'table' ? 'Board' : 'Table'}
+        </button>
         <button 
           onClick={handleOpenCreate}
           className="bg-solar-orange hover:bg-orange-600 text-white px-5 py-2.5 rounded-lg flex items-center gap-2 font-bold transition-all shadow-lg shadow-orange-500/20 text-sm cursor-pointer hover:scale-105 active:scale-95"
         >
           <Plus size={18} /> New Lead
         </button>
+        </div>
       </div>
 
       <div className="glass-panel rounded-xl overflow-hidden border border-slate-800">
@@ -325,11 +405,9 @@ const LeadBoard: React.FC<LeadBoardProps> = ({ userProfile, onRequestUpgrade })
                 className="w-full md:w-auto bg-slate-950 border border-slate-800 rounded-lg text-sm text-slate-300 py-2.5 px-3 focus:outline-none focus:border-solar-orange cursor-pointer"
             >
                 <option value="ALL">All Statuses</option>
-                <option value="NEW">New</option>
-                <option value="QUALIFIED">Qualified</option>
-                <option value="PROPOSAL_SENT">Proposal Sent</option>
-                <option value="CLOSED_WON">Closed Won</option>
-                <option value="CLOSED_LOST">Closed Lost</option>
+                {leadStatuses.map(status => (
+                  <option key={status.id} value={status.id}>{status.name}</option>
+                ))}
             </select>
           </div>
         </div>
@@ -384,6 +462,48 @@ const LeadBoard: React.FC<LeadBoardProps> = ({ userProfile, onRequestUpgrade })
           </div>
         </div>
 
+        {view === 'board' ? (
+          <div className="p-4 min-h-[400px]">
+            <KanbanBoard
+              columns={leadStatuses}
+              items={processedLeads}
+              getId={(lead) => lead.id}
+              getColumnId={(lead) => lead.status}
+              getValue={leadValue}
+              canMove={canMoveLeads}
+              onMove={handleMoveLead}
+              lockedMessage="Your role can view the board but not change lead statuses"
+              renderCard={(lead) => {
+                const stale = staleDays(lead);
+                return (
+                  <div className="space-y-1.5 cursor-pointer" onClick={() => openLeadDetails(lead)}>
+                    <div className="flex items-start justify-between gap-2">
+                      <span className="font-bold text-slate-200 text-sm">{lead.name}</span>
+                      {lead.aiScore !== undefined && (
+                        <span className={`flex items-center gap-0.5 text-xs font-bold ${getScoreColor(lead.aiScore)}`}>
+                          <Zap size={10} /> {lead.aiScore}
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-slate-500 text-[11px] flex items-center gap-1 truncate">
+                      <MapPin size={10} /> {lead.address}
+                    </div>
+                    <div className="flex items-center justify-between text-[11px]">
+                      <span className="text-slate-400 font-mono">${leadValue(lead).toLocaleString()}</span>
+                      <span className="text-slate-500">{lead.assignedTo || 'Unassigned'}</span>
+                    </div>
+                    {stale > 0 && (
+                      <span className="inline-flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded border bg-amber-500/20 text-amber-400 border-amber-500/30">
+                        <Clock size={10} /> No contact {stale}d
+                      </span>
+                    )}
+                  </div>
+                );
+              }}
+            />
+          </div>
+        ) : (
+        <>
         {/* Desktop Table View */}
         <div className="hidden md:block overflow-x-auto min-h-[400px]">
           <table className="w-full text-left text-sm">
@@ -498,8 +618,8 @@ const LeadBoard: React.FC<LeadBoardProps> = ({ userProfile, onRequestUpgrade })
                       )}
                     </td>
                     <td className="px-6 py-4">
-                      <span className={`px-2.5 py-1 rounded text-xs font-bold border uppercase tracking-wider ${getStatusColor(lead.status)}`}>
-                        {lead.status.replace('_', ' ')}
+                      <span className={`px-2.5 py-1 rounded text-xs font-bold border uppercase tracking-wider ${getLeadStatusColor(lead.status)}`}>
+                        {getLeadStatusName(lead.status)}
                       </span>
                     </td>
                     <td className="px-6 py-4">
@@ -557,8 +677,8 @@ const LeadBoard: React.FC<LeadBoardProps> = ({ userProfile, onRequestUpgrade })
                                  <MapPin size={10} /> {lead.address}
                              </div>
                         </div>
-                        <span className={`px-2 py-0.5 rounded text-[10px] font-bold border uppercase tracking-wider ${getStatusColor(lead.status)}`}>
-                             {lead.status.replace('_', ' ')}
+                        <span className={`px-2 py-0.5 rounded text-[10px] font-bold border uppercase tracking-wider ${getLeadStatusColor(lead.status)}`}>
+                             {getLeadStatusName(lead.status)}
                         </span>
                     </div>
                     
@@ -585,6 +705,8 @@ const LeadBoard: React.FC<LeadBoardProps> = ({ userProfile, onRequestUpgrade })
                  </div>
              ))}
         </div>
+        </>
+        )}
       </div>
 
       {/* Add/Edit Lead Modal */}
@@ -805,11 +927,31 @@ const LeadBoard: React.FC<LeadBoardProps> = ({ userProfile, onRequestUpgrade })
         </div>
       )}
 
+      {/* Duplicate Review Queue */}
+      <DuplicateLeadsModal
+        isOpen={isDuplicatesOpen}
+        leads={leads}
+        canMerge={can(getCurrentRole(), 'DELETE_LEADS')}
+        onClose={() => setIsDuplicatesOpen(false)}
+        onMerged={() => {
+          const merged = loadOrDefault<Lead[]>(LEADS_KEY, []);
+          setLeads(merged);
+          if (selectedLead && !merged.some(l => l.id === selectedLead.id)) {
+            setIsDrawerOpen(false);
+            setSelectedLead(null);
+          }
+        }}
+      />
+
       {/* Lead Details Drawer */}
       <LeadDetailsDrawer
         open={isDrawerOpen}
         lead={selectedLead}
         onClose={() => setIsDrawerOpen(false)}
+        onUpdateLead={(updatedLead) => {
+          setLeads(prev => prev.map(l => l.id === updatedLead.id ? updatedLead : l));
+          setSelectedLead(updatedLead);
+        }}
       />
     </div>
   );
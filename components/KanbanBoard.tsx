@@ -0,0 +1,118 @@
+// components/KanbanBoard.tsx
+// Kanban Board - one column per pipeline stage or lead status, drag a card to
+// move it. Shared by the Lead Board and the Project Tracker; the parent decides
+// what a move means and whether the current user may make it.
+
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+
+export interface KanbanColumn {
+  id: string;
+  name: string;
+  color?: string;
+}
+
+interface KanbanBoardProps<T> {
+  columns: KanbanColumn[];
+  items: T[];
+  getId: (item: T) => string;
+  getColumnId: (item: T) => string;
+  getValue: (item: T) => number; // Summed into the column total
+  renderCard: (item: T) => React.ReactNode;
+  canMove: boolean;
+  onMove: (item: T, columnId: string) => void;
+  lockedMessage?: string;
+}
+
+const COLUMN_ACCENTS: Record<string, string> = {
+  blue: 'border-t-blue-500',
+  purple: 'border-t-purple-500',
+  amber: 'border-t-amber-500',
+  orange: 'border-t-orange-500',
+  cyan: 'border-t-cyan-500',
+  emerald: 'border-t-emerald-500',
+  red: 'border-t-red-500',
+  pink: 'border-t-pink-500',
+};
+
+const formatTotal = (value: number) =>
+  value >= 1000000 ? `$${(value / 1000000).toFixed(1)}M` : value >= 1000 ? `$${(value / 1000).toFixed(0)}k` : `$${Math.round(value)}`;
+
+export default function KanbanBoard<T>({
+  columns,
+  items,
+  getId,
+  getColumnId,
+  getValue,
+  renderCard,
+  canMove,
+  onMove,
+  lockedMessage = "You don't have permission to move cards",
+}: KanbanBoardProps<T>) {
+  const [dragOver, setDragOver] = useState<string | null>(null);
+
+  // Items in a stage or status no longer configured still get a column
+  const known = new Set(columns.map(c => c.id));
+  const orphaned = Array.from(new Set(items.map(getColumnId).filter(id => !known.has(id))));
+  const allColumns: KanbanColumn[] = [...columns, ...orphaned.map(id => ({ id, name: id.replace(/_/g, ' ') }))];
+
+  const handleDrop = (e: React.DragEvent, columnId: string) => {
+    e.preventDefault();
+    setDragOver(null);
+    if (!canMove) return;
+    const item = items.find(i => getId(i) === e.dataTransfer.getData('text/plain'));
+    if (item && getColumnId(item) !== columnId) onMove(item, columnId);
+  };
+
+  return (
+    <div className="space-y-2">
+      {!canMove && (
+        <p className="text-xs text-slate-500 flex items-center gap-1">
+          <Lock size={12} /> {lockedMessage}
+        </p>
+      )}
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {allColumns.map(column => {
+          const cards = items.filter(i => getColumnId(i) === column.id);
+          const total = cards.reduce((sum, i) => sum + getValue(i), 0);
+          return (
+            <div
+              key={column.id}
+              onDragOver={(e) => { if (canMove) { e.preventDefault(); setDragOver(column.id); } }}
+              onDragLeave={() => setDragOver(prev => (prev === column.id ? null : prev))}
+              onDrop={(e) => handleDrop(e, column.id)}
+              className={`flex-shrink-0 w-72 bg-slate-900/60 border border-slate-800 border-t-2 ${
+                COLUMN_ACCENTS[column.color || ''] || 'border-t-slate-600'
+              } rounded-xl flex flex-col max-h-[70vh] transition-colors ${dragOver === column.id ? 'bg-slate-800/60' : ''}`}
+            >
+              <div className="px-3 py-2 border-b border-slate-800 flex items-center justify-between">
+                <span className="text-sm font-bold text-slate-200 truncate">{column.name}</span>
+                <div className="flex items-center gap-2 text-xs">
+                  <span className="font-mono text-slate-400">{formatTotal(total)}</span>
+                  <span className="px-1.5 py-0.5 rounded bg-slate-800 text-slate-300 font-mono" title="Cards in this column">
+                    {cards.length}
+                  </span>
+                </div>
+              </div>
+              <div className="p-2 space-y-2 overflow-y-auto flex-1 min-h-[120px]">
+                {cards.map(item => (
+                  <div
+                    key={getId(item)}
+                    draggable={canMove}
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData('text/plain', getId(item));
+                      e.dataTransfer.effectAllowed = 'move';
+                    }}
+                    className={`bg-slate-800/80 border border-slate-700 rounded-lg p-3 ${canMove ? 'cursor-grab active:cursor-grabbing' : ''}`}
+                  >
+                    {renderCard(item)}
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from 'react';
+import { CalendarClock, Car, Check, X, Ban } from 'lucide-react';
+import { Lead } from '../types';
+import { getActiveCompany } from '../services/companyStore';
+import {
+  bookAppointment,
+  loadAppointments,
+  loadAppointmentSettings,
+  setAppointmentStatus,
+  syncAppointmentsFromServer,
+} from '../services/appointments';
+import { AppointmentSlot, suggestSlots, APPOINTMENT_STATUS_LABELS } from '../services/appointmentBooking';
+
+interface LeadAppointmentsProps {
+  lead: Lead;
+  onUpdateLead?: (lead: Lead) => void;
+}
+
+const STATUS_COLORS = {
+  scheduled: 'bg-blue-900/60 text-blue-300',
+  showed: 'bg-emerald-900/60 text-emerald-300',
+  no_show: 'bg-red-900/60 text-red-300',
+  cancelled: 'bg-slate-800 text-slate-400',
+};
+
+const formatWhen = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+/**
+ * Book the lead with a closer from open, travel-checked times, and record
+ * whether the homeowner showed.
+ */
+export const LeadAppointments: React.FC<LeadAppointmentsProps> = ({ lead, onUpdateLead }) => {
+  const [appointments, setAppointments] = useState(() => loadAppointments());
+  const [slots, setSlots] = useState<AppointmentSlot[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Other setters' bookings, so the times offered are really open
+  useEffect(() => {
+    syncAppointmentsFromServer().then(setAppointments);
+  }, [lead.id]);
+
+  const reps = getActiveCompany()?.reps || [];
+  const repName = (repId: string) => reps.find(r => r.id === repId)?.name || 'Unknown closer';
+  const leadAppointments = appointments
+    .filter(a => a.leadId === lead.id)
+    .sort((a, b) => b.startAt.localeCompare(a.startAt));
+  const hasOpen = leadAppointments.some(a => a.status === 'scheduled');
+
+  const findTimes = (current = appointments) => {
+    const settings = loadAppointmentSettings();
+    if (settings.windows.length === 0) {
+      setError('No closer availability set. Add it in Company Settings → Appointments.');
+      return;
+    }
+    setSlots(suggestSlots(lead, settings, current, reps));
+    setError(null);
+  };
+
+  const book = async (slot: AppointmentSlot) => {
+    if (!onUpdateLead) return;
+    try {
+      const result = await bookAppointment(lead, slot);
+      onUpdateLead(result.lead);
+      setAppointments(loadAppointments());
+      setSlots(null);
+      setError(null);
+    } catch (err) {
+      // Offer times again from the latest calendar
+      const latest = await syncAppointmentsFromServer();
+      setAppointments(latest);
+      findTimes(latest);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const setStatus = async (appointmentId: string, status: 'showed' | 'no_show' | 'cancelled') => {
+    try {
+      await setAppointmentStatus(appointmentId, status);
+      setAppointments(loadAppointments());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="glass-panel p-4 rounded-xl border border-slate-800">
+      <div className="flex items-start gap-3">
+        <div className="p-2 bg-purple-500/10 rounded-lg">
+          <CalendarClock size={16} className="text-purple-400" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between">
+            <p className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Appointments</p>
+            {onUpdateLead && (
+              <button
+                onClick={() => (slots ? setSlots(null) : findTimes())}
+                className="text-[10px] px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-slate-300"
+              >
+                {slots ? 'Close' : hasOpen ? 'Reschedule' : 'Book Closer'}
+              </button>
+            )}
+          </div>
+
+          {error && <p className="text-[10px] text-red-400 mt-2">{error}</p>}
+
+          {/* Open times */}
+          {slots && (
+            slots.length === 0 ? (
+              <p className="text-xs text-slate-500 mt-2">No open times in the next week.</p>
+            ) : (
+              <div className="mt-2 grid grid-cols-1 gap-1">
+                {slots.map(slot => (
+                  <button
+                    key={slot.startAt}
+                    onClick={() => book(slot)}
+                    className="text-left text-xs px-2 py-1.5 rounded bg-slate-800/60 hover:bg-slate-700 text-slate-300 flex items-center gap-2"
+                  >
+                    <span className="font-medium">{formatWhen(slot.startAt)}</span>
+                    <span className="text-slate-500">{repName(slot.repId)}</span>
+                    {slot.travelMinutes > 0 && (
+                      <span className="ml-auto text-[10px] text-slate-500 flex items-center gap-1" title="Drive from the closer's previous appointment">
+                        <Car size={10} /> {slot.travelMinutes} min
+                      </span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            )
+          )}
+
+          {/* Booked */}
+          {leadAppointments.length === 0 ? (
+            !slots && <p className="text-xs text-slate-500 mt-2">No appointments yet.</p>
+          ) : (
+            <ul className="mt-3 space-y-2">
+              {leadAppointments.map(appt => {
+                const started = new Date(appt.startAt).getTime() <= Date.now();
+                return (
+                  <li key={appt.id} className="text-xs text-slate-300">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{formatWhen(appt.startAt)}</span>
+                      <span className={`text-[10px] px-1.5 py-0.5 rounded ${STATUS_COLORS[appt.status]}`}>
+                        {APPOINTMENT_STATUS_LABELS[appt.status]}
+                      </span>
+                    </div>
+                    <p className="text-[10px] text-slate-500 mt-0.5">
+                      {repName(appt.repId)}
+                      {appt.setterId && ` • set by ${repName(appt.setterId)}`}
+                    </p>
+                    {appt.status === 'scheduled' && (
+                      <div className="flex gap-1 mt-1">
+                        {started && (
+                          <>
+                            <button
+                              onClick={() => setStatus(appt.id, 'showed')}
+                              className="text-[10px] px-2 py-0.5 rounded bg-slate-800 hover:bg-emerald-900/60 text-slate-300 flex items-center gap-1"
+                            >
+                              <Check size={10} /> Showed
+                            </button>
+                            <button
+                              onClick={() => setStatus(appt.id, 'no_show')}
+                              className="text-[10px] px-2 py-0.5 rounded bg-slate-800 hover:bg-red-900/60 text-slate-300 flex items-center gap-1"
+                            >
+                              <X size={10} /> No-Show
+                            </button>
+                          </>
+                        )}
+                        <button
+                          onClick={() => setStatus(appt.id, 'cancelled')}
+                          className="text-[10px] px-2 py-0.5 rounded bg-slate-800 hover:bg-slate-700 text-slate-400 flex items-center gap-1"
+                        >
+                          <Ban size={10} /> Cancel
+                        </button>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
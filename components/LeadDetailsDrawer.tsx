@@ -2,28 +2,22 @@ import React from 'react';
 import { X, User, MapPin, DollarSign, Calendar, FileText, Flame, Tag, Brain, Zap, UserCheck } from 'lucide-react';
 import { Lead } from '../types';
 import { getScoreColor, getPriorityColor } from '../services/leadIntelligence';
+import { RATE_PLAN_LIBRARY, DEFAULT_RATE_PLAN_ID } from '../services/tariffEngine';
+import { UsageImportPanel } from './UsageImportPanel';
+import { LeadTimeline } from './LeadTimeline';
+import { LeadAppointments } from './LeadAppointments';
+import { LeadStatusPicker } from './LeadStatusPicker';
 
 interface LeadDetailsDrawerProps {
   open: boolean;
   lead: Lead | null;
   onClose: () => void;
+  onUpdateLead?: (lead: Lead) => void;
 }
 
-const LeadDetailsDrawer: React.FC<LeadDetailsDrawerProps> = ({ open, lead, onClose }) => {
+const LeadDetailsDrawer: React.FC<LeadDetailsDrawerProps> = ({ open, lead, onClose, onUpdateLead }) => {
   if (!open || !lead) return null;
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'NEW': return 'bg-blue-500/20 text-blue-400 border-blue-500/30';
-      case 'CONTACTED': return 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30';
-      case 'QUALIFIED': return 'bg-purple-500/20 text-purple-400 border-purple-500/30';
-      case 'PROPOSAL_SENT': return 'bg-orange-500/20 text-orange-400 border-orange-500/30';
-      case 'CLOSED_WON': return 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30';
-      case 'CLOSED_LOST': return 'bg-red-500/20 text-red-400 border-red-500/30';
-      default: return 'bg-slate-500/20 text-slate-400 border-slate-500/30';
-    }
-  };
-
   const getQualityColor = (quality?: string) => {
     switch (quality) {
       case 'HOT': return 'bg-orange-500/20 text-orange-400 border-orange-500/30';
@@ -65,9 +59,7 @@ const LeadDetailsDrawer: React.FC<LeadDetailsDrawerProps> = ({ open, lead, onClo
           <div className="space-y-3">
             <h3 className="text-2xl font-bold text-white">{lead.name}</h3>
             <div className="flex items-center gap-2 flex-wrap">
-              <span className={`px-2.5 py-1 rounded-full text-xs font-bold border ${getStatusColor(lead.status)}`}>
-                {lead.status.replace('_', ' ')}
-              </span>
+              <LeadStatusPicker key={`status_${lead.id}`} lead={lead} onUpdateLead={onUpdateLead} />
               {lead.routing?.quality && (
                 <span className={`px-2.5 py-1 rounded-full text-xs font-bold border flex items-center gap-1 ${getQualityColor(lead.routing.quality)}`}>
                   <Flame size={12} />
@@ -107,6 +99,32 @@ const LeadDetailsDrawer: React.FC<LeadDetailsDrawerProps> = ({ open, lead, onClo
               </div>
             </div>
 
+            {/* Utility Rate Plan */}
+            <div className="glass-panel p-4 rounded-xl border border-slate-800">
+              <div className="flex items-start gap-3">
+                <div className="p-2 bg-yellow-500/10 rounded-lg">
+                  <Zap size={16} className="text-yellow-400" />
+                </div>
+                <div className="flex-1">
+                  <p className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Utility Rate Plan</p>
+                  <select
+                    value={lead.ratePlanId || DEFAULT_RATE_PLAN_ID}
+                    onChange={e => onUpdateLead?.({ ...lead, ratePlanId: e.target.value })}
+                    disabled={!onUpdateLead}
+                    title="Utility rate plan"
+                    className="mt-1 w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 disabled:opacity-60"
+                  >
+                    {RATE_PLAN_LIBRARY.map(plan => (
+                      <option key={plan.id} value={plan.id}>{plan.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            </div>
+
+            {/* Usage History */}
+            <UsageImportPanel key={lead.id} lead={lead} onUpdateLead={onUpdateLead} />
+
             {/* Age */}
             {lead.age && (
               <div className="glass-panel p-4 rounded-xl border border-slate-800">
@@ -144,6 +162,12 @@ const LeadDetailsDrawer: React.FC<LeadDetailsDrawerProps> = ({ open, lead, onClo
               </div>
             )}
 
+            {/* Appointments */}
+            <LeadAppointments key={`appointments_${lead.id}`} lead={lead} onUpdateLead={onUpdateLead} />
+
+            {/* Activity Timeline */}
+            <LeadTimeline key={`timeline_${lead.id}`} lead={lead} onUpdateLead={onUpdateLead} />
+
             {/* Assigned Rep */}
             <div className="glass-panel p-4 rounded-xl border border-slate-800">
               <div className="flex items-start gap-3">
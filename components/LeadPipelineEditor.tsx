@@ -0,0 +1,437 @@
+// components/LeadPipelineEditor.tsx
+// Lead Pipeline Editor - Customize lead statuses, required fields and lost reasons per company
+
+import React, { useState, useEffect } from 'react';
+import {
+  Plus,
+  Trash2,
+  Save,
+  RotateCcw,
+  Check,
+  X,
+  ArrowUp,
+  ArrowDown,
+  ChevronDown,
+  ChevronRight,
+} from 'lucide-react';
+import {
+  loadLeadPipeline,
+  saveLeadPipeline,
+  resetLeadPipelineToDefaults,
+  syncLeadPipelineFromServer,
+  REQUIRED_FIELD_OPTIONS,
+} from '../services/leadPipeline';
+import { LeadPipelineConfig, LeadStatusConfig, LeadStatusOutcome, DEFAULT_LEAD_STATUSES, DEFAULT_LOST_REASONS, validateLeadPipeline } from '../services/leadStatuses';
+import { getLeadFields } from '../services/customFields';
+import { getActiveCompanyId } from '../services/companyStore';
+
+const STATUS_COLORS = [
+  { id: 'blue', label: 'Blue', class: 'bg-blue-500' },
+  { id: 'purple', label: 'Purple', class: 'bg-purple-500' },
+  { id: 'amber', label: 'Amber', class: 'bg-amber-500' },
+  { id: 'orange', label: 'Orange', class: 'bg-orange-500' },
+  { id: 'cyan', label: 'Cyan', class: 'bg-cyan-500' },
+  { id: 'emerald', label: 'Emerald', class: 'bg-emerald-500' },
+  { id: 'red', label: 'Red', class: 'bg-red-500' },
+  { id: 'pink', label: 'Pink', class: 'bg-pink-500' },
+];
+
+const OUTCOME_OPTIONS: { id: LeadStatusOutcome; label: string }[] = [
+  { id: 'open', label: 'Open' },
+  { id: 'won', label: 'Won (closes lead)' },
+  { id: 'lost', label: 'Lost (closes lead)' },
+];
+
+const inputClass = 'bg-slate-950 border border-slate-700 rounded px-2 py-1 text-white text-sm focus:outline-none focus:border-solar-orange';
+
+export default function LeadPipelineEditor() {
+  const [statuses, setStatuses] = useState<LeadStatusConfig[]>([]);
+  const [lostReasons, setLostReasons] = useState<string[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [newStatusName, setNewStatusName] = useState('');
+  const [newReason, setNewReason] = useState('');
+  const [isSaved, setIsSaved] = useState(false);
+  const [hasChanges, setHasChanges] = useState(false);
+  const [colorPickerOpen, setColorPickerOpen] = useState<string | null>(null);
+
+  const companyId = getActiveCompanyId();
+  const customFields = getLeadFields(companyId);
+  const fieldOptions = [
+    ...REQUIRED_FIELD_OPTIONS,
+    ...customFields.map(f => ({ key: f.id, label: f.name })),
+  ];
+
+  useEffect(() => {
+    const apply = (loaded: LeadPipelineConfig) => {
+      setStatuses([...loaded.statuses].sort((a, b) => a.order - b.order));
+      setLostReasons(loaded.lostReasons);
+    };
+    apply(loadLeadPipeline(companyId));
+    syncLeadPipelineFromServer(companyId).then(apply);
+  }, [companyId]);
+
+  const errors = validateLeadPipeline({ statuses, lostReasons });
+
+  const updateStatus = (statusId: string, changes: Partial<LeadStatusConfig>) => {
+    setStatuses(statuses.map(s => (s.id === statusId ? { ...s, ...changes } : s)));
+    setHasChanges(true);
+  };
+
+  const handleSave = async () => {
+    if (errors.length > 0) {
+      alert('Please fix validation errors before saving');
+      return;
+    }
+    const serverError = await saveLeadPipeline(companyId, { statuses, lostReasons });
+    if (serverError) {
+      alert(`Saved locally, but the server rejected it: ${serverError}`);
+      return;
+    }
+    setIsSaved(true);
+    setHasChanges(false);
+    setTimeout(() => setIsSaved(false), 2000);
+  };
+
+  const handleResetDefaults = async () => {
+    if (confirm('Reset lead statuses and lost reasons to defaults? This will remove any custom statuses.')) {
+      const serverError = await resetLeadPipelineToDefaults(companyId);
+      if (serverError) {
+        alert(`Saved locally, but the server rejected it: ${serverError}`);
+      }
+      setStatuses([...DEFAULT_LEAD_STATUSES]);
+      setLostReasons([...DEFAULT_LOST_REASONS]);
+      setHasChanges(true);
+    }
+  };
+
+  const handleAddStatus = () => {
+    if (!newStatusName.trim()) return;
+    const id = newStatusName.trim().toUpperCase().replace(/\s+/g, '_');
+    if (statuses.some(s => s.id === id)) {
+      alert(`A status with ID ${id} already exists`);
+      return;
+    }
+    // New statuses go before the closed ones
+    const firstClosed = statuses.findIndex(s => s.outcome !== 'open');
+    const insertAt = firstClosed === -1 ? statuses.length : firstClosed;
+    const added: LeadStatusConfig = {
+      id,
+      name: newStatusName.trim(),
+      order: insertAt,
+      color: 'blue',
+      outcome: 'open',
+      probability: 0.25,
+      daysToClose: 30,
+      requiredFields: [],
+    };
+    const updated = [...statuses.slice(0, insertAt), added, ...statuses.slice(insertAt)];
+    setStatuses(updated.map((s, i) => ({ ...s, order: i })));
+    setNewStatusName('');
+    setHasChanges(true);
+  };
+
+  const handleRemoveStatus = (statusId: string) => {
+    if (confirm('Remove this status? Leads in this status keep it until they are moved.')) {
+      const updated = statuses.filter(s => s.id !== statusId);
+      setStatuses(updated.map((s, i) => ({ ...s, order: i })));
+      setHasChanges(true);
+    }
+  };
+
+  const handleMove = (index: number, delta: -1 | 1) => {
+    const target = index + delta;
+    if (target < 0 || target >= statuses.length) return;
+    const updated = [...statuses];
+    [updated[index], updated[target]] = [updated[target], updated[index]];
+    setStatuses(updated.map((s, i) => ({ ...s, order: i })));
+    setHasChanges(true);
+  };
+
+  const toggleRequired = (status: LeadStatusConfig, key: string) => {
+    updateStatus(status.id, {
+      requiredFields: status.requiredFields.includes(key)
+        ? status.requiredFields.filter(k => k !== key)
+        : [...status.requiredFields, key],
+    });
+  };
+
+  const handleAddReason = () => {
+    const reason = newReason.trim();
+    if (!reason || lostReasons.includes(reason)) return;
+    setLostReasons([...lostReasons, reason]);
+    setNewReason('');
+    setHasChanges(true);
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-bold text-white">Lead Statuses</h3>
+          <p className="text-sm text-slate-400 mt-1">
+            Customize the lead pipeline: statuses, what closes a lead, and what a lead needs to move forward
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleResetDefaults}
+            className="flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-sm font-medium transition-all"
+          >
+            <RotateCcw size={14} />
+            Reset Defaults
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!hasChanges}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold transition-all ${
+              hasChanges
+                ? 'bg-emerald-600 hover:bg-emerald-500 text-white'
+                : 'bg-slate-700 text-slate-500 cursor-not-allowed'
+            }`}
+          >
+            {isSaved ? <Check size={16} /> : <Save size={16} />}
+            {isSaved ? 'Saved!' : 'Save Changes'}
+          </button>
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="p-3 bg-red-900/20 border border-red-800 rounded-lg text-sm text-red-300 space-y-1">
+          {errors.map(e => <p key={e}>{e}</p>)}
+        </div>
+      )}
+
+      {/* Statuses List */}
+      <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 overflow-hidden">
+        <div className="px-4 py-3 border-b border-slate-700/50 bg-slate-800/50">
+          <div className="grid grid-cols-12 gap-2 text-xs font-bold text-slate-500 uppercase tracking-wider">
+            <div className="col-span-1">Order</div>
+            <div className="col-span-3">Status Name</div>
+            <div className="col-span-3">Outcome</div>
+            <div className="col-span-2">Close %</div>
+            <div className="col-span-2">Days to Close</div>
+            <div className="col-span-1 text-right">Actions</div>
+          </div>
+        </div>
+
+        <div className="divide-y divide-slate-700/50">
+          {statuses.map((status, index) => (
+            <div key={status.id} className="px-4 py-3 hover:bg-slate-800/30 transition-colors">
+              <div className="grid grid-cols-12 items-center gap-2">
+                {/* Order & Move Buttons */}
+                <div className="col-span-1 flex items-center gap-1">
+                  <div className="flex flex-col">
+                    <button
+                      onClick={() => handleMove(index, -1)}
+                      disabled={index === 0}
+                      className="p-0.5 text-slate-500 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+                      title="Move up"
+                      aria-label="Move up"
+                    >
+                      <ArrowUp size={12} />
+                    </button>
+                    <button
+                      onClick={() => handleMove(index, 1)}
+                      disabled={index === statuses.length - 1}
+                      className="p-0.5 text-slate-500 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+                      title="Move down"
+                      aria-label="Move down"
+                    >
+                      <ArrowDown size={12} />
+                    </button>
+                  </div>
+                  <span className="text-slate-500 text-sm font-mono">{index + 1}</span>
+                </div>
+
+                {/* Name & Color */}
+                <div className="col-span-3 flex items-center gap-2 relative">
+                  <button
+                    onClick={() => setColorPickerOpen(colorPickerOpen === status.id ? null : status.id)}
+                    className={`w-6 h-6 flex-shrink-0 rounded ${STATUS_COLORS.find(c => c.id === status.color)?.class || 'bg-blue-500'} hover:ring-2 hover:ring-white/30 transition-all`}
+                    title="Change color"
+                    aria-label="Change color"
+                  />
+                  {colorPickerOpen === status.id && (
+                    <div className="absolute top-8 left-0 z-10 bg-slate-900 border border-slate-700 rounded-lg p-2 shadow-xl grid grid-cols-4 gap-1">
+                      {STATUS_COLORS.map(color => (
+                        <button
+                          key={color.id}
+                          onClick={() => { updateStatus(status.id, { color: color.id }); setColorPickerOpen(null); }}
+                          className={`w-6 h-6 rounded ${color.class} hover:ring-2 hover:ring-white/50 transition-all ${
+                            status.color === color.id ? 'ring-2 ring-white' : ''
+                          }`}
+                          title={color.label}
+                          aria-label={color.label}
+                        />
+                      ))}
+                    </div>
+                  )}
+                  <input
+                    type="text"
+                    value={status.name}
+                    onChange={(e) => updateStatus(status.id, { name: e.target.value })}
+                    className={`${inputClass} flex-1 min-w-0`}
+                    aria-label="Status name"
+                  />
+                </div>
+
+                {/* Outcome */}
+                <div className="col-span-3">
+                  <select
+                    value={status.outcome}
+                    onChange={(e) => updateStatus(status.id, { outcome: e.target.value as LeadStatusOutcome })}
+                    className={`${inputClass} w-full`}
+                    aria-label="Outcome"
+                  >
+                    {OUTCOME_OPTIONS.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+                  </select>
+                </div>
+
+                {/* Forecast weights */}
+                <div className="col-span-2">
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={Math.round(status.probability * 100)}
+                    onChange={(e) => updateStatus(status.id, {
+                      probability: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) / 100,
+                    })}
+                    className={`${inputClass} w-full`}
+                    aria-label="Close probability percent"
+                  />
+                </div>
+                <div className="col-span-2">
+                  <input
+                    type="number"
+                    min={0}
+                    value={status.daysToClose}
+                    onChange={(e) => updateStatus(status.id, { daysToClose: Math.max(0, parseInt(e.target.value) || 0) })}
+                    className={`${inputClass} w-full`}
+                    aria-label="Days to close"
+                  />
+                </div>
+
+                {/* Actions */}
+                <div className="col-span-1 flex justify-end gap-1">
+                  <button
+                    onClick={() => setExpandedId(expandedId === status.id ? null : status.id)}
+                    className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-700 rounded transition-colors"
+                    title="Required fields"
+                    aria-label="Required fields"
+                  >
+                    {expandedId === status.id ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                  </button>
+                  <button
+                    onClick={() => handleRemoveStatus(status.id)}
+                    className="p-1.5 text-slate-400 hover:text-red-400 hover:bg-slate-700 rounded transition-colors"
+                    title="Remove status"
+                    aria-label="Remove status"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+
+              {/* Required fields */}
+              {expandedId === status.id ? (
+                <div className="mt-3 ml-[8.33%] p-3 bg-slate-900/60 rounded-lg">
+                  <p className="text-xs text-slate-400 mb-2">
+                    A lead needs these filled in to enter {status.name || 'this status'}
+                    {status.outcome === 'lost' && ' (plus a lost reason)'}:
+                  </p>
+                  <div className="flex flex-wrap gap-3">
+                    {fieldOptions.map(option => (
+                      <label key={option.key} className="flex items-center gap-1 text-xs text-slate-300">
+                        <input
+                          type="checkbox"
+                          checked={status.requiredFields.includes(option.key)}
+                          onChange={() => toggleRequired(status, option.key)}
+                        />
+                        {option.label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ) : status.requiredFields.length > 0 && (
+                <p className="mt-1 ml-[8.33%] text-xs text-slate-500">
+                  Requires {status.requiredFields.map(k => fieldOptions.find(o => o.key === k)?.label || k).join(', ')}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Add New Status */}
+      <div className="flex gap-3">
+        <input
+          type="text"
+          value={newStatusName}
+          onChange={(e) => setNewStatusName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAddStatus()}
+          placeholder="New status (e.g., 'Appointment Set')"
+          className="flex-1 bg-slate-950 border border-slate-800 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-solar-orange"
+          aria-label="New status name"
+        />
+        <button
+          onClick={handleAddStatus}
+          disabled={!newStatusName.trim()}
+          className="flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg font-bold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Plus size={16} />
+          Add Status
+        </button>
+      </div>
+
+      {/* Lost Reasons */}
+      <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 p-4 space-y-3">
+        <div>
+          <h4 className="text-sm font-bold text-white">Lost Reasons</h4>
+          <p className="text-xs text-slate-500 mt-1">Reps pick one when they mark a lead lost</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {lostReasons.map(reason => (
+            <span key={reason} className="flex items-center gap-1 px-2 py-1 bg-slate-800 rounded text-xs text-slate-300">
+              {reason}
+              <button
+                onClick={() => { setLostReasons(lostReasons.filter(r => r !== reason)); setHasChanges(true); }}
+                className="text-slate-500 hover:text-red-400"
+                aria-label={`Remove ${reason}`}
+              >
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newReason}
+            onChange={(e) => setNewReason(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddReason()}
+            placeholder="Add a reason"
+            className={`${inputClass} flex-1`}
+            aria-label="New lost reason"
+          />
+          <button
+            onClick={handleAddReason}
+            disabled={!newReason.trim()}
+            className="px-3 py-1 bg-slate-700 hover:bg-slate-600 text-white rounded text-sm disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+      </div>
+
+      {/* Info Box */}
+      <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg p-4">
+        <p className="text-sm text-blue-300">
+          <strong>Note:</strong> Close % and days to close drive the revenue forecast. Leads in a
+          removed status keep it until they're moved to a new one.
+        </p>
+      </div>
+    </div>
+  );
+}
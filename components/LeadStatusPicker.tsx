@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Lead } from '../types';
+import {
+  changeLeadStatus,
+  getLeadStatusById,
+  getLeadStatusColor,
+  getLeadStatusName,
+  getLeadStatuses,
+  isClosedStatus,
+  loadLeadPipeline,
+} from '../services/leadPipeline';
+import { logUpdate } from '../services/auditLog';
+
+interface LeadStatusPickerProps {
+  lead: Lead;
+  onUpdateLead?: (lead: Lead) => void;
+}
+
+const selectClass = 'bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-200';
+
+/**
+ * Lead status badge that moves the lead through the company's lead pipeline.
+ * Picking a lost status asks for the lost reason before it's applied. Won
+ * and lost are final, so moving a closed lead asks to reopen it first.
+ */
+export const LeadStatusPicker: React.FC<LeadStatusPickerProps> = ({ lead, onUpdateLead }) => {
+  const [pendingLost, setPendingLost] = useState<string | null>(null);
+  const [lostReason, setLostReason] = useState(lead.lostReason || '');
+  const [error, setError] = useState<string | null>(null);
+
+  const statuses = getLeadStatuses();
+  const lostReasons = loadLeadPipeline().lostReasons;
+
+  const apply = (statusId: string, reason?: string) => {
+    if (!onUpdateLead) return;
+    const reopen = isClosedStatus(lead.status); // Confirmed in handleSelect
+    try {
+      const moved = changeLeadStatus(lead, statusId, { lostReason: reason, reopen });
+      if (reopen) logUpdate('Lead', lead.id, lead, moved, { previousStatus: lead.status, newStatus: statusId, reopened: true });
+      onUpdateLead(moved);
+      setPendingLost(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleSelect = (statusId: string) => {
+    if (statusId === lead.status) return;
+    if (isClosedStatus(lead.status) && !confirm(`${getLeadStatusName(lead.status)} is final. Reopen this lead and move it to ${getLeadStatusName(statusId)}?`)) return;
+    if (getLeadStatusById(statusId)?.outcome === 'lost') {
+      setPendingLost(statusId);
+      setError(null);
+      return;
+    }
+    apply(statusId);
+  };
+
+  const badge = `px-2.5 py-1 rounded-full text-xs font-bold border ${getLeadStatusColor(lead.status)}`;
+
+  if (!onUpdateLead) {
+    return <span className={badge}>{getLeadStatusName(lead.status)}</span>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 flex-wrap">
+        <select
+          value={pendingLost || lead.status}
+          onChange={e => handleSelect(e.target.value)}
+          className={`${badge} cursor-pointer focus:outline-none`}
+          aria-label="Lead status"
+        >
+          {!statuses.some(s => s.id === lead.status) && (
+            <option value={lead.status}>{getLeadStatusName(lead.status)}</option>
+          )}
+          {statuses.map(s => (
+            <option key={s.id} value={s.id} className="bg-slate-900 text-slate-200">{s.name}</option>
+          ))}
+        </select>
+        {lead.lostReason && !pendingLost && getLeadStatusById(lead.status)?.outcome === 'lost' && (
+          <span className="text-xs text-slate-400">Lost: {lead.lostReason}</span>
+        )}
+      </div>
+
+      {pendingLost && (
+        <div className="flex items-center gap-2">
+          <select
+            value={lostReason}
+            onChange={e => setLostReason(e.target.value)}
+            className={selectClass}
+            aria-label="Lost reason"
+          >
+            <option value="">Why was it lost?</option>
+            {lostReasons.map(reason => <option key={reason} value={reason}>{reason}</option>)}
+          </select>
+          <button
+            onClick={() => apply(pendingLost, lostReason)}
+            disabled={!lostReason}
+            className="text-[10px] px-2 py-1 rounded bg-red-900/60 hover:bg-red-800/60 text-red-200 disabled:opacity-50"
+          >
+            Mark {getLeadStatusName(pendingLost)}
+          </button>
+          <button
+            onClick={() => { setPendingLost(null); setError(null); }}
+            className="text-[10px] px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-slate-300"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-[10px] text-red-400">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { Phone, MessageSquare, Mail, DoorOpen, CalendarClock, StickyNote, History, Trash2, ArrowDownLeft, ArrowUpRight } from 'lucide-react';
+import { CallOutcome, Lead, LeadActivityType } from '../types';
+import {
+  addLeadActivity,
+  removeLeadActivity,
+  leadTimeline,
+  lastContactedAt,
+  ACTIVITY_TYPE_LABELS,
+  CALL_OUTCOME_LABELS,
+} from '../services/leadActivity';
+
+interface LeadTimelineProps {
+  lead: Lead;
+  onUpdateLead?: (lead: Lead) => void;
+}
+
+const ACTIVITY_ICONS: Record<LeadActivityType, React.ReactNode> = {
+  call: <Phone size={12} />,
+  sms: <MessageSquare size={12} />,
+  email: <Mail size={12} />,
+  door_knock: <DoorOpen size={12} />,
+  appointment: <CalendarClock size={12} />,
+  note: <StickyNote size={12} />,
+};
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200';
+
+// Local date-time for <input type="datetime-local">
+const localDateTime = (date: Date) =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+
+const formatWhen = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+/**
+ * Activity timeline for a lead: log a call, text, email, door knock,
+ * appointment or note, and see every touch newest first.
+ */
+export const LeadTimeline: React.FC<LeadTimelineProps> = ({ lead, onUpdateLead }) => {
+  const [type, setType] = useState<LeadActivityType>('call');
+  const [outcome, setOutcome] = useState<CallOutcome>('connected');
+  const [direction, setDirection] = useState<'inbound' | 'outbound'>('outbound');
+  const [body, setBody] = useState('');
+  const [occurredAt, setOccurredAt] = useState(() => localDateTime(new Date()));
+  const [appointmentAt, setAppointmentAt] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const timeline = leadTimeline(lead);
+  const lastContact = lastContactedAt(lead);
+  const hasDirection = type === 'call' || type === 'sms' || type === 'email';
+
+  const handleLog = () => {
+    if (!onUpdateLead) return;
+    try {
+      onUpdateLead(addLeadActivity(lead, {
+        type,
+        occurredAt: new Date(occurredAt).toISOString(),
+        body,
+        outcome: type === 'call' ? outcome : undefined,
+        direction: hasDirection ? direction : undefined,
+        appointmentAt: type === 'appointment' && appointmentAt ? new Date(appointmentAt).toISOString() : undefined,
+      }));
+      setBody('');
+      setAppointmentAt('');
+      setOccurredAt(localDateTime(new Date()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="glass-panel p-4 rounded-xl border border-slate-800">
+      <div className="flex items-start gap-3">
+        <div className="p-2 bg-blue-500/10 rounded-lg">
+          <History size={16} className="text-blue-400" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between">
+            <p className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Activity</p>
+            <p className="text-[10px] text-slate-500">
+              {lastContact ? `Last contacted ${formatWhen(lastContact)}` : 'Never contacted'}
+            </p>
+          </div>
+
+          {/* Log an activity */}
+          {onUpdateLead && (
+            <div className="mt-2 space-y-2">
+              <div className="flex flex-wrap gap-1">
+                {(Object.keys(ACTIVITY_TYPE_LABELS) as LeadActivityType[]).map(t => (
+                  <button
+                    key={t}
+                    onClick={() => setType(t)}
+                    className={`text-[10px] px-2 py-1 rounded flex items-center gap-1 ${
+                      type === t ? 'bg-blue-600 text-white' : 'bg-slate-800 hover:bg-slate-700 text-slate-300'
+                    }`}
+                  >
+                    {ACTIVITY_ICONS[t]}
+                    {ACTIVITY_TYPE_LABELS[t]}
+                  </button>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <input
+                  type="datetime-local"
+                  value={occurredAt}
+                  onChange={e => setOccurredAt(e.target.value)}
+                  className={inputClass}
+                  title="When it happened"
+                />
+                {type === 'call' && (
+                  <select
+                    value={outcome}
+                    onChange={e => setOutcome(e.target.value as CallOutcome)}
+                    className={inputClass}
+                    title="Call outcome"
+                  >
+                    {(Object.keys(CALL_OUTCOME_LABELS) as CallOutcome[]).map(o => (
+                      <option key={o} value={o}>{CALL_OUTCOME_LABELS[o]}</option>
+                    ))}
+                  </select>
+                )}
+                {type === 'appointment' && (
+                  <input
+                    type="datetime-local"
+                    value={appointmentAt}
+                    onChange={e => setAppointmentAt(e.target.value)}
+                    className={inputClass}
+                    title="Appointment time"
+                  />
+                )}
+                {hasDirection && (
+                  <select
+                    value={direction}
+                    onChange={e => setDirection(e.target.value as 'inbound' | 'outbound')}
+                    className={inputClass}
+                    title="Direction"
+                  >
+                    <option value="outbound">Outbound</option>
+                    <option value="inbound">Inbound</option>
+                  </select>
+                )}
+              </div>
+              <textarea
+                value={body}
+                onChange={e => setBody(e.target.value)}
+                rows={2}
+                placeholder={type === 'note' ? 'Note' : 'Details (optional)'}
+                className={`${inputClass} resize-none`}
+              />
+              {error && <p className="text-[10px] text-red-400">{error}</p>}
+              <button
+                onClick={handleLog}
+                className="text-[10px] px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-slate-300 flex items-center gap-1"
+              >
+                {ACTIVITY_ICONS[type]}
+                Log {ACTIVITY_TYPE_LABELS[type]}
+              </button>
+            </div>
+          )}
+
+          {/* Timeline */}
+          {timeline.length === 0 ? (
+            <p className="text-xs text-slate-500 mt-3">No activity yet.</p>
+          ) : (
+            <ol className="mt-3 space-y-3 border-l border-slate-800 pl-3">
+              {timeline.map(activity => (
+                <li key={activity.id} className="relative group">
+                  <span className="absolute -left-[19px] top-0.5 p-0.5 bg-slate-900 text-slate-400">
+                    {ACTIVITY_ICONS[activity.type]}
+                  </span>
+                  <div className="flex items-center gap-1.5 text-xs text-slate-300">
+                    <span className="font-medium">{ACTIVITY_TYPE_LABELS[activity.type]}</span>
+                    {activity.direction === 'inbound' && <ArrowDownLeft size={10} className="text-emerald-400" />}
+                    {activity.direction === 'outbound' && <ArrowUpRight size={10} className="text-slate-500" />}
+                    {activity.outcome && (
+                      <span className="text-[10px] px-1.5 py-0.5 rounded bg-slate-800 text-slate-400">
+                        {CALL_OUTCOME_LABELS[activity.outcome]}
+                      </span>
+                    )}
+                    {onUpdateLead && (
+                      <button
+                        onClick={() => onUpdateLead(removeLeadActivity(lead, activity.id))}
+                        className="ml-auto opacity-0 group-hover:opacity-100 text-slate-500 hover:text-red-400"
+                        title="Delete activity"
+                        aria-label="Delete activity"
+                      >
+                        <Trash2 size={10} />
+                      </button>
+                    )}
+                  </div>
+                  {activity.appointmentAt && (
+                    <p className="text-xs text-purple-400 mt-0.5">Booked for {formatWhen(activity.appointmentAt)}</p>
+                  )}
+                  {activity.body && <p className="text-xs text-slate-400 mt-0.5 whitespace-pre-wrap">{activity.body}</p>}
+                  <p className="text-[10px] text-slate-600 mt-0.5">
+                    {formatWhen(activity.occurredAt)} • {activity.authorName}
+                  </p>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -35,6 +35,7 @@ import {
   PRIORITY_COLORS,
 } from '../services/notifications';
 import { getActiveCompanyId } from '../services/companyStore';
+import { sendAppointmentReminders } from '../services/appointments';
 
 // Icon mapping
 const TYPE_ICONS: Record<NotificationType, React.ReactNode> = {
@@ -65,6 +66,14 @@ export default function NotificationCenter({ userId }: NotificationCenterProps)
 
   // Load notifications
   const loadData = () => {
+    // Appointment reminders are due-time based, so they go out on each refresh
+    sendAppointmentReminders(companyId).then(sent => {
+      if (sent > 0) loadNotifications();
+    });
+    loadNotifications();
+  };
+
+  const loadNotifications = () => {
     const filterType = filter === 'all' ? undefined : filter;
     const notifs = getNotifications(companyId, {
       type: filterType,
@@ -95,24 +104,24 @@ export default function NotificationCenter({ userId }: NotificationCenterProps)
 
   const handleMarkRead = (id: string) => {
     markRead(id, companyId);
-    loadData();
+    loadNotifications();
   };
 
   const handleMarkAllRead = () => {
     const filterType = filter === 'all' ? undefined : filter;
     markAllRead(companyId, filterType);
-    loadData();
+    loadNotifications();
   };
 
   const handleDelete = (id: string) => {
     deleteNotification(id, companyId);
-    loadData();
+    loadNotifications();
   };
 
   const handleClearOld = () => {
     const removed = clearOldNotifications(7, companyId);
     if (removed > 0) {
-      loadData();
+      loadNotifications();
     }
   };
 
@@ -0,0 +1,407 @@
+// components/PayoutRuns.tsx
+// Payout Runs - lock approved commissions into a pay period and export payroll
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Lock,
+  CheckCircle2,
+  Download,
+  FileText,
+  Landmark,
+  Trash2,
+  AlertCircle,
+  ChevronDown,
+  ChevronRight,
+  Save,
+} from 'lucide-react';
+import type { Commission, PayoutRun } from '../types';
+import {
+  buildNachaFile,
+  buildRepStatements,
+  createPayoutRun,
+  exportPayrollCsv,
+  exportStatementCsv,
+  isValidRoutingNumber,
+  loadAchOriginator,
+  loadPayoutRuns,
+  markPayoutRunPaid,
+  saveAchOriginator,
+  syncAchOriginatorFromServer,
+  syncPayoutRunsFromServer,
+  voidPayoutRun,
+} from '../services/payoutRuns';
+import { AchOriginator, eligibleCommissions } from '../services/payoutBatches';
+import { getActiveCompany, getActiveCompanyId } from '../services/companyStore';
+import { notifyCommissionPaid } from '../services/notifications';
+import { downloadCSV } from '../services/csv';
+import { applyServerCommissions } from '../utils/storage';
+
+interface PayoutRunsProps {
+  commissions: Commission[];
+  onCommissionsChange: (commissions: Commission[]) => void;
+  leadName: (leadId: string) => string;
+}
+
+const inputClass =
+  'w-full bg-slate-950 border border-slate-800 text-white rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-emerald-500';
+const labelClass = 'block text-slate-400 text-xs uppercase tracking-wider font-bold mb-1.5';
+
+const usd = (value: number) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+function downloadText(filename: string, content: string) {
+  const blob = new Blob([content], { type: 'text/plain;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export default function PayoutRuns({ commissions, onCommissionsChange, leadName }: PayoutRunsProps) {
+  const companyId = getActiveCompanyId();
+  const reps = getActiveCompany()?.reps || [];
+  const today = new Date().toISOString().slice(0, 10);
+
+  const [runs, setRuns] = useState<PayoutRun[]>(() => loadPayoutRuns(companyId));
+  const [periodStart, setPeriodStart] = useState(`${today.slice(0, 8)}01`);
+  const [periodEnd, setPeriodEnd] = useState(today);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+  const [paidAt, setPaidAt] = useState(today);
+  const [payoutMethod, setPayoutMethod] = useState('ACH Transfer');
+  const [originator, setOriginator] = useState<AchOriginator>(() => loadAchOriginator(companyId));
+  const [showOriginator, setShowOriginator] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    syncPayoutRunsFromServer(companyId).then(setRuns);
+    syncAchOriginatorFromServer(companyId).then(setOriginator);
+  }, [companyId]);
+
+  const eligible = useMemo(() => eligibleCommissions(commissions, periodEnd), [commissions, periodEnd]);
+  const selected = eligible.filter(c => !excluded.has(c.id));
+  const repName = (repId?: string) => reps.find(r => r.id === repId)?.name || repId || 'Unassigned';
+  const dealName = (c: Commission) => c.dealName || leadName(c.leadId);
+
+  const run = async (action: () => void | Promise<void>) => {
+    setError(null);
+    setNotice(null);
+    setBusy(true);
+    try {
+      await action();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // The server has already saved these lines; update the log without resending them
+  const applyLines = (lines: Commission[]) => {
+    const all = applyServerCommissions(lines);
+    onCommissionsChange(all);
+    return all;
+  };
+
+  const toggleLine = (id: string) => {
+    const next = new Set(excluded);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setExcluded(next);
+  };
+
+  const handleCreateRun = () => run(async () => {
+    const result = await createPayoutRun(selected.map(c => c.id), { start: periodStart, end: periodEnd }, companyId);
+    applyLines(result.commissions);
+    setRuns(loadPayoutRuns(companyId));
+    setExcluded(new Set());
+    setExpandedRunId(result.run.id);
+    if (result.run.carriedForwardIds.length > 0) {
+      setNotice(`${result.run.carriedForwardIds.length} clawback${result.run.carriedForwardIds.length === 1 ? '' : 's'} carried forward so no rep nets below zero.`);
+    }
+  });
+
+  const handleMarkPaid = (payoutRun: PayoutRun) => run(async () => {
+    const result = await markPayoutRunPaid(payoutRun.id, { paidAt, payoutMethod }, companyId);
+    const all = applyLines(result.commissions);
+    setRuns(loadPayoutRuns(companyId));
+    buildRepStatements(result.run, all, reps)
+      .filter(s => s.net > 0)
+      .forEach(s => notifyCommissionPaid({ id: payoutRun.id, repName: s.repName, amount: s.net }, companyId));
+  });
+
+  const handleVoid = (payoutRun: PayoutRun) => {
+    if (!confirm('Void this payout run? Its commissions go back to approved.')) return;
+    run(async () => {
+      applyLines(await voidPayoutRun(payoutRun.id, companyId));
+      setRuns(loadPayoutRuns(companyId));
+    });
+  };
+
+  const handleExportPayroll = (payoutRun: PayoutRun) => run(() => {
+    const csv = exportPayrollCsv(payoutRun, buildRepStatements(payoutRun, commissions, reps));
+    downloadCSV(`payroll_${payoutRun.periodStart}_${payoutRun.periodEnd}.csv`, csv);
+  });
+
+  const handleExportNacha = (payoutRun: PayoutRun) => run(() => {
+    const statements = buildRepStatements(payoutRun, commissions, reps);
+    const { file, skipped } = buildNachaFile(payoutRun, statements, originator, payoutRun.paidAt || paidAt);
+    downloadText(`ach_${payoutRun.periodEnd}_${payoutRun.id}.txt`, file);
+    if (skipped.length > 0) {
+      setNotice(`Not in the ACH file (no bank account on file or nothing to pay): ${skipped.join(', ')}`);
+    }
+  });
+
+  const handleSaveOriginator = async () => {
+    if (originator.originRouting && !isValidRoutingNumber(originator.originRouting)) {
+      setError('Bank routing number is not a valid 9-digit ABA number');
+      return;
+    }
+    const saveError = await saveAchOriginator(companyId, originator);
+    setError(saveError);
+    if (!saveError) setShowOriginator(false);
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3 flex items-start gap-2 text-sm text-red-300">
+          <AlertCircle size={16} className="flex-shrink-0 mt-0.5" />
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg p-3 flex items-start gap-2 text-sm text-blue-200">
+          <AlertCircle size={16} className="flex-shrink-0 mt-0.5" />
+          {notice}
+        </div>
+      )}
+
+      {/* New run */}
+      <div className="glass-panel border border-slate-800 rounded-xl overflow-hidden">
+        <div className="p-4 border-b border-slate-800 flex flex-wrap items-end gap-4">
+          <div>
+            <label className={labelClass}>Period Start</label>
+            <input type="date" value={periodStart} onChange={(e) => setPeriodStart(e.target.value)} className={inputClass} aria-label="Period start" />
+          </div>
+          <div>
+            <label className={labelClass}>Period End</label>
+            <input type="date" value={periodEnd} onChange={(e) => setPeriodEnd(e.target.value)} className={inputClass} aria-label="Period end" />
+          </div>
+          <div className="flex-1 text-sm text-slate-400">
+            {selected.length} of {eligible.length} approved line{eligible.length === 1 ? '' : 's'} selected •{' '}
+            <span className="font-mono text-slate-200">{usd(selected.reduce((sum, c) => sum + c.amountUsd, 0))}</span>
+          </div>
+          <button
+            onClick={handleCreateRun}
+            disabled={selected.length === 0 || busy}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold transition-all ${
+              selected.length > 0 && !busy ? 'bg-emerald-600 hover:bg-emerald-500 text-white' : 'bg-slate-700 text-slate-500 cursor-not-allowed'
+            }`}
+          >
+            <Lock size={14} />
+            Lock Payout Run
+          </button>
+        </div>
+        {eligible.length === 0 ? (
+          <p className="p-6 text-center text-slate-500 text-sm">
+            No approved commissions earned by {periodEnd} are waiting for a run. Approve commissions in the log first.
+          </p>
+        ) : (
+          <table className="w-full text-left text-sm">
+            <tbody className="divide-y divide-slate-800/50">
+              {eligible.map(c => (
+                <tr key={c.id} className="hover:bg-slate-800/20">
+                  <td className="px-4 py-2 w-8">
+                    <input
+                      type="checkbox"
+                      checked={!excluded.has(c.id)}
+                      onChange={() => toggleLine(c.id)}
+                      aria-label={`Include ${dealName(c)} ${c.milestone}`}
+                    />
+                  </td>
+                  <td className="px-4 py-2 text-slate-200">{repName(c.repId)}</td>
+                  <td className="px-4 py-2 text-slate-400">{dealName(c)}</td>
+                  <td className="px-4 py-2 text-xs font-mono text-slate-400">
+                    {c.milestone}{c.kind === 'clawback' ? ' • clawback' : c.role ? ` • ${c.role}` : ''}
+                  </td>
+                  <td className={`px-4 py-2 text-right font-mono ${c.amountUsd < 0 ? 'text-red-400' : 'text-emerald-400'}`}>
+                    {usd(c.amountUsd)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* ACH originator */}
+      <div className="bg-slate-900 border border-slate-800 rounded-xl">
+        <button
+          onClick={() => setShowOriginator(!showOriginator)}
+          className="w-full px-4 py-3 flex items-center gap-2 text-sm font-bold text-slate-300"
+        >
+          {showOriginator ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+          <Landmark size={14} className="text-slate-500" />
+          ACH Originator
+          <span className="text-xs font-normal text-slate-500">
+            {originator.originRouting ? `${originator.companyName} • ${originator.bankName}` : 'Not set up'}
+          </span>
+        </button>
+        {showOriginator && (
+          <div className="px-4 pb-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Company Name</label>
+              <input type="text" value={originator.companyName} onChange={(e) => setOriginator({ ...originator, companyName: e.target.value })} className={inputClass} aria-label="ACH company name" />
+            </div>
+            <div>
+              <label className={labelClass}>ACH Company ID</label>
+              <input type="text" value={originator.companyIdentification} maxLength={10} placeholder="1 + EIN" onChange={(e) => setOriginator({ ...originator, companyIdentification: e.target.value })} className={inputClass} aria-label="ACH company ID" />
+            </div>
+            <div>
+              <label className={labelClass}>Bank Name</label>
+              <input type="text" value={originator.bankName} onChange={(e) => setOriginator({ ...originator, bankName: e.target.value })} className={inputClass} aria-label="Bank name" />
+            </div>
+            <div>
+              <label className={labelClass}>Bank Routing Number</label>
+              <input type="text" value={originator.originRouting} maxLength={9} onChange={(e) => setOriginator({ ...originator, originRouting: e.target.value.replace(/\D/g, '') })} className={`${inputClass} font-mono`} aria-label="Bank routing number" />
+            </div>
+            <div className="md:col-span-2 flex justify-end">
+              <button onClick={handleSaveOriginator} className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-lg text-sm font-medium">
+                <Save size={14} /> Save Originator
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Runs */}
+      <div className="space-y-3">
+        {runs.length === 0 && (
+          <p className="text-center text-slate-500 text-sm py-6">No payout runs yet.</p>
+        )}
+        {runs.map(payoutRun => {
+          const expanded = expandedRunId === payoutRun.id;
+          const statements = expanded ? buildRepStatements(payoutRun, commissions, reps) : [];
+          return (
+            <div key={payoutRun.id} className="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden">
+              <button
+                onClick={() => setExpandedRunId(expanded ? null : payoutRun.id)}
+                className="w-full px-4 py-3 flex items-center gap-3 text-left hover:bg-slate-800/30"
+              >
+                {expanded ? <ChevronDown size={14} className="text-slate-500" /> : <ChevronRight size={14} className="text-slate-500" />}
+                <span className="font-bold text-slate-200">{payoutRun.periodStart} – {payoutRun.periodEnd}</span>
+                {payoutRun.status === 'paid' ? (
+                  <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-bold bg-emerald-500/10 text-emerald-400">
+                    <CheckCircle2 size={10} /> Paid {payoutRun.paidAt}
+                  </span>
+                ) : (
+                  <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-bold bg-blue-500/10 text-blue-400">
+                    <Lock size={10} /> Locked
+                  </span>
+                )}
+                <span className="text-xs text-slate-500">
+                  {payoutRun.commissionIds.length} lines • by {payoutRun.createdBy}
+                </span>
+                <span className="ml-auto font-mono font-bold text-emerald-400">{usd(payoutRun.totalUsd)}</span>
+              </button>
+
+              {expanded && (
+                <div className="border-t border-slate-800 p-4 space-y-4">
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm">
+                      <thead className="text-slate-500 uppercase text-[10px] tracking-wider">
+                        <tr>
+                          <th className="py-2 pr-3">Rep</th>
+                          <th className="py-2 pr-3 text-right">Deals</th>
+                          <th className="py-2 pr-3 text-right">Base</th>
+                          <th className="py-2 pr-3 text-right">Advances</th>
+                          <th className="py-2 pr-3 text-right">Bonuses</th>
+                          <th className="py-2 pr-3 text-right">Overrides</th>
+                          <th className="py-2 pr-3 text-right">Clawbacks</th>
+                          <th className="py-2 pr-3 text-right">Net Pay</th>
+                          <th className="py-2 text-right">Statement</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-800/50 font-mono">
+                        {statements.map(s => (
+                          <tr key={s.repId || 'unassigned'}>
+                            <td className="py-2 pr-3 font-sans text-slate-200">
+                              {s.repName}
+                              {!s.payoutAccount && <span className="ml-2 text-[10px] text-amber-400">no bank account</span>}
+                              {s.carriedForward < 0 && (
+                                <div className="text-[10px] text-slate-500">{usd(s.carriedForward)} carried forward</div>
+                              )}
+                            </td>
+                            <td className="py-2 pr-3 text-right text-slate-400">{s.deals}</td>
+                            <td className="py-2 pr-3 text-right text-slate-300">{usd(s.base)}</td>
+                            <td className="py-2 pr-3 text-right text-slate-300">{usd(s.advances)}</td>
+                            <td className="py-2 pr-3 text-right text-slate-300">{usd(s.bonuses)}</td>
+                            <td className="py-2 pr-3 text-right text-slate-300">{usd(s.overrides)}</td>
+                            <td className="py-2 pr-3 text-right text-red-400">{usd(s.clawbacks)}</td>
+                            <td className="py-2 pr-3 text-right font-bold text-emerald-400">{usd(s.net)}</td>
+                            <td className="py-2 text-right">
+                              <button
+                                onClick={() => run(() => downloadCSV(
+                                  `statement_${s.repName.replace(/\W+/g, '_')}_${payoutRun.periodEnd}.csv`,
+                                  exportStatementCsv(payoutRun, s, dealName)
+                                ))}
+                                className="text-slate-400 hover:text-white"
+                                title="Download statement"
+                                aria-label={`Download ${s.repName}'s statement`}
+                              >
+                                <FileText size={14} />
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <div className="flex flex-wrap items-end gap-3 pt-3 border-t border-slate-800">
+                    <button onClick={() => handleExportPayroll(payoutRun)} className="flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-lg text-sm font-medium">
+                      <Download size={14} /> Payroll CSV
+                    </button>
+                    <button onClick={() => handleExportNacha(payoutRun)} className="flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-lg text-sm font-medium">
+                      <Landmark size={14} /> ACH File
+                    </button>
+                    {payoutRun.status === 'locked' && (
+                      <>
+                        <div className="ml-auto">
+                          <label className={labelClass}>Pay Date</label>
+                          <input type="date" value={paidAt} onChange={(e) => setPaidAt(e.target.value)} className={inputClass} aria-label="Pay date" />
+                        </div>
+                        <div>
+                          <label className={labelClass}>Method</label>
+                          <select value={payoutMethod} onChange={(e) => setPayoutMethod(e.target.value)} className={`${inputClass} cursor-pointer`} aria-label="Payout method">
+                            <option>ACH Transfer</option>
+                            <option>Check</option>
+                            <option>Payroll</option>
+                            <option>Wire Transfer</option>
+                          </select>
+                        </div>
+                        <button onClick={() => handleMarkPaid(payoutRun)} disabled={busy} className="flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg text-sm font-bold">
+                          <CheckCircle2 size={14} /> Mark Run Paid
+                        </button>
+                        <button onClick={() => handleVoid(payoutRun)} className="p-2 text-slate-400 hover:text-red-400" title="Void run" aria-label="Void run">
+                          <Trash2 size={16} />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
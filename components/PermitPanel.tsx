@@ -0,0 +1,261 @@
+// components/PermitPanel.tsx
+// Permit tracking for one project: AHJ, document checklist, submission and
+// corrections cycles, permit number and fees
+
+import React, { useState } from 'react';
+import { FileCheck, Check, Send, AlertTriangle, Plus, Landmark } from 'lucide-react';
+import type { PermitRecord, Project } from '../types';
+import { AHJ_TABLE, findAhjForAddress, getAhj } from '../services/ahjData';
+import {
+  startPermit,
+  submitPermit,
+  requestCorrections,
+  approvePermit,
+  PermitClock,
+  PERMIT_STATUS_LABELS,
+} from '../services/permits';
+
+interface PermitPanelProps {
+  project: Project;
+  address: string;
+  clock: PermitClock | null; // Null until the project reaches permitting
+  onChange: (permit: PermitRecord) => void;
+}
+
+const INPUT_CLASS =
+  'bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-white text-sm focus:outline-none focus:border-blue-500';
+
+const STATUS_CLASS: Record<PermitRecord['status'], string> = {
+  not_submitted: 'bg-slate-700 text-slate-300',
+  submitted: 'bg-blue-900/60 text-blue-300',
+  corrections_requested: 'bg-yellow-900/60 text-yellow-300',
+  approved: 'bg-emerald-900/60 text-emerald-300',
+};
+
+const PermitPanel: React.FC<PermitPanelProps> = ({ project, address, clock, onChange }) => {
+  const permit = project.permit;
+  const [date, setDate] = useState(new Date().toISOString().slice(0, 10));
+  const [newDocument, setNewDocument] = useState('');
+  const [permitNumber, setPermitNumber] = useState(permit?.permitNumber || '');
+  const [fees, setFees] = useState<string>(permit?.feesUsd !== undefined ? String(permit.feesUsd) : '');
+  const [error, setError] = useState<string | null>(null);
+
+  // Lifecycle steps throw on invalid transitions; show why instead of failing silently
+  const apply = (step: () => PermitRecord) => {
+    try {
+      onChange(step());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  if (!permit) {
+    const ahj = findAhjForAddress(address);
+    return (
+      <div className="mt-4 p-4 bg-slate-900/60 border border-slate-800 rounded-lg flex items-center justify-between gap-4">
+        <div className="text-sm text-slate-400">
+          <Landmark size={14} className="inline mr-2 text-slate-500" />
+          {ahj
+            ? <>AHJ: <span className="text-slate-200">{ahj.name}</span> • typical review {ahj.reviewDays} days • ${ahj.feeUsd} fee</>
+            : <>No AHJ on file for {address || 'this address'}; you can enter it once the permit is started.</>}
+        </div>
+        <button className="secondary-btn text-xs" onClick={() => onChange(startPermit(project, address, ahj))}>
+          <FileCheck size={14} />
+          Start Permit
+        </button>
+      </div>
+    );
+  }
+
+  const missing = permit.documents.filter(d => !d.received).length;
+  const canSubmit = permit.status === 'not_submitted' || permit.status === 'corrections_requested';
+
+  return (
+    <div className="mt-4 p-4 bg-slate-900/60 border border-slate-800 rounded-lg space-y-4 text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <Landmark size={14} className="text-slate-500" />
+        <select
+          value={permit.ahjId}
+          onChange={(e) => {
+            const ahj = getAhj(e.target.value);
+            onChange({ ...permit, ahjId: ahj?.id || '', ahjName: ahj?.name || permit.ahjName });
+          }}
+          className={INPUT_CLASS}
+          aria-label="AHJ"
+        >
+          <option value="">Other AHJ…</option>
+          {AHJ_TABLE.map(ahj => (
+            <option key={ahj.id} value={ahj.id}>{ahj.name}, {ahj.state}</option>
+          ))}
+        </select>
+        {!permit.ahjId && (
+          <input
+            type="text"
+            value={permit.ahjName}
+            onChange={(e) => onChange({ ...permit, ahjName: e.target.value })}
+            placeholder="AHJ name"
+            className={INPUT_CLASS}
+            aria-label="AHJ name"
+          />
+        )}
+        <span className={`px-2 py-1 text-xs rounded ${STATUS_CLASS[permit.status]}`}>
+          {PERMIT_STATUS_LABELS[permit.status]}
+          {permit.cycles.length > 1 && ` • cycle ${permit.cycles.length}`}
+        </span>
+        {clock && (
+          <span className="text-xs text-slate-500 ml-auto">
+            On us <span className="font-mono text-slate-300">{clock.ourDays}d</span>
+            {' • '}On AHJ <span className="font-mono text-slate-300">{clock.ahjDays}d</span>
+          </span>
+        )}
+      </div>
+
+      {/* Document checklist */}
+      <div>
+        <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">
+          Required Documents ({permit.documents.length - missing}/{permit.documents.length})
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-1">
+          {permit.documents.map((doc, index) => (
+            <label key={doc.label} className="flex items-center gap-2 text-slate-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={doc.received}
+                disabled={permit.status === 'submitted' || permit.status === 'approved'}
+                onChange={() => onChange({
+                  ...permit,
+                  documents: permit.documents.map((d, i) => (i === index ? { ...d, received: !d.received } : d)),
+                })}
+              />
+              {doc.label}
+            </label>
+          ))}
+        </div>
+        {canSubmit && (
+          <div className="flex gap-2 mt-2">
+            <input
+              type="text"
+              value={newDocument}
+              onChange={(e) => setNewDocument(e.target.value)}
+              placeholder="Add a document the AHJ asked for"
+              className={`${INPUT_CLASS} flex-1`}
+            />
+            <button
+              className="secondary-btn text-xs"
+              disabled={!newDocument.trim() || permit.documents.some(d => d.label === newDocument.trim())}
+              onClick={() => {
+                onChange({ ...permit, documents: [...permit.documents, { label: newDocument.trim(), received: false }] });
+                setNewDocument('');
+              }}
+            >
+              <Plus size={12} />
+              Add
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Submission cycles */}
+      {permit.cycles.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs font-bold text-slate-500 uppercase tracking-wider">Submissions</p>
+          {permit.cycles.map((cycle, index) => (
+            <div key={index} className="text-xs text-slate-400 font-mono">
+              #{index + 1} submitted {cycle.submittedAt}
+              {cycle.correctionsRequestedAt && (
+                <span className="text-yellow-400">
+                  {' '}→ corrections {cycle.correctionsRequestedAt}{cycle.corrections && `: ${cycle.corrections}`}
+                </span>
+              )}
+              {index === permit.cycles.length - 1 && permit.approvedAt && (
+                <span className="text-emerald-400"> → approved {permit.approvedAt}</span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Actions */}
+      {permit.status === 'approved' ? (
+        <div className="flex flex-wrap items-center gap-4 text-slate-300">
+          <span>Permit # <span className="font-mono text-white">{permit.permitNumber}</span></span>
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            Fees $
+            <input
+              type="number"
+              min="0"
+              value={fees}
+              onChange={(e) => setFees(e.target.value)}
+              onBlur={() => onChange({ ...permit, feesUsd: fees === '' ? undefined : Math.max(0, Number(fees) || 0) })}
+              className={`${INPUT_CLASS} w-24 font-mono`}
+            />
+          </label>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className={INPUT_CLASS}
+            aria-label="Event date"
+          />
+          {canSubmit && (
+            <button
+              className="secondary-btn text-xs"
+              disabled={missing > 0}
+              title={missing > 0 ? `${missing} document${missing === 1 ? '' : 's'} still missing` : undefined}
+              onClick={() => apply(() => submitPermit(permit, date))}
+            >
+              <Send size={12} />
+              {permit.status === 'corrections_requested' ? 'Resubmit' : 'Submit to AHJ'}
+            </button>
+          )}
+          {permit.status === 'submitted' && (
+            <>
+              <button
+                className="secondary-btn text-xs"
+                onClick={() => {
+                  const corrections = prompt('What corrections did the AHJ request?');
+                  if (corrections !== null) apply(() => requestCorrections(permit, corrections, date));
+                }}
+              >
+                <AlertTriangle size={12} />
+                Corrections Requested
+              </button>
+              <input
+                type="text"
+                value={permitNumber}
+                onChange={(e) => setPermitNumber(e.target.value)}
+                placeholder="Permit #"
+                className={`${INPUT_CLASS} w-32 font-mono`}
+                aria-label="Permit number"
+              />
+              <input
+                type="number"
+                min="0"
+                value={fees}
+                onChange={(e) => setFees(e.target.value)}
+                placeholder="Fees $"
+                className={`${INPUT_CLASS} w-24 font-mono`}
+                aria-label="Permit fees"
+              />
+              <button
+                className="secondary-btn text-xs"
+                disabled={!permitNumber.trim()}
+                onClick={() => apply(() => approvePermit(permit, permitNumber, fees === '' ? undefined : Number(fees) || 0, date))}
+              >
+                <Check size={12} className="text-emerald-500" />
+                Approved
+              </button>
+            </>
+          )}
+        </div>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default PermitPanel;
@@ -19,9 +19,9 @@ import {
   loadPipeline,
   savePipeline,
   resetPipelineToDefaults,
-  PipelineStage,
-  DEFAULT_PIPELINE_STAGES,
+  syncPipelineFromServer,
 } from '../services/pipelineConfig';
+import { PipelineStage, DEFAULT_PIPELINE_STAGES } from '../services/pipelineStages';
 import { getActiveCompanyId } from '../services/companyStore';
 
 const STAGE_COLORS = [
@@ -50,18 +50,26 @@ export default function PipelineEditor() {
   useEffect(() => {
     const loaded = loadPipeline(companyId);
     setStages(loaded);
+    syncPipelineFromServer(companyId).then(setStages);
   }, [companyId]);
 
-  const handleSave = () => {
-    savePipeline(companyId, stages);
+  const handleSave = async () => {
+    const serverError = await savePipeline(companyId, stages);
+    if (serverError) {
+      alert(`Saved locally, but the server rejected it: ${serverError}`);
+      return;
+    }
     setIsSaved(true);
     setHasChanges(false);
     setTimeout(() => setIsSaved(false), 2000);
   };
 
-  const handleResetDefaults = () => {
+  const handleResetDefaults = async () => {
     if (confirm('Reset pipeline to default stages? This will remove any custom stages.')) {
-      resetPipelineToDefaults(companyId);
+      const serverError = await resetPipelineToDefaults(companyId);
+      if (serverError) {
+        alert(`Saved locally, but the server rejected it: ${serverError}`);
+      }
       setStages([...DEFAULT_PIPELINE_STAGES]);
       setHasChanges(true);
     }
@@ -0,0 +1,664 @@
+// components/PricingEditor.tsx
+// Pricing Editor - Price bands, adders and loan/lease/PPA products used by the financial engine
+
+import React, { useState, useEffect } from 'react';
+import {
+  DollarSign,
+  Plus,
+  Trash2,
+  Save,
+  RotateCcw,
+  Check,
+  Info,
+  AlertCircle,
+  Landmark,
+  Layers,
+  Calculator,
+  FileSignature,
+  Sun,
+} from 'lucide-react';
+import {
+  loadPricing,
+  savePricing,
+  syncPricingFromServer,
+  resetPricingToDefaults,
+} from '../services/pricingConfig';
+import {
+  PricingConfig,
+  PriceBand,
+  PricingAdder,
+  LoanProduct,
+  LeaseProduct,
+  PpaProduct,
+  DEFAULT_PRICING_CONFIG,
+  computeFinancials,
+  calculateSystemPrice,
+} from '../services/financialEngine';
+import { PricingConfigSchema, validate, formatErrors } from '../schema';
+import { getActiveCompanyId } from '../services/companyStore';
+
+const PREVIEW_SYSTEM_KW = 8;
+const PREVIEW_BILL = 220;
+
+const inputClass =
+  'w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-solar-orange';
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+}
+
+export default function PricingEditor() {
+  const [config, setConfig] = useState<PricingConfig>(() => loadPricing());
+  const [isSaved, setIsSaved] = useState(false);
+  const [hasChanges, setHasChanges] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const companyId = getActiveCompanyId();
+
+  useEffect(() => {
+    syncPricingFromServer(companyId).then(setConfig);
+  }, [companyId]);
+
+  const update = (changes: Partial<PricingConfig>) => {
+    setConfig(prev => ({ ...prev, ...changes }));
+    setHasChanges(true);
+    setError(null);
+  };
+
+  const updateBand = (index: number, changes: Partial<PriceBand>) => {
+    update({ priceBands: config.priceBands.map((b, i) => (i === index ? { ...b, ...changes } : b)) });
+  };
+
+  const updateAdder = (id: string, changes: Partial<PricingAdder>) => {
+    update({ adders: config.adders.map(a => (a.id === id ? { ...a, ...changes } : a)) });
+  };
+
+  const updateLoan = (id: string, changes: Partial<LoanProduct>) => {
+    update({ loanProducts: config.loanProducts.map(p => (p.id === id ? { ...p, ...changes } : p)) });
+  };
+
+  const updateLease = (id: string, changes: Partial<LeaseProduct>) => {
+    update({ leaseProducts: config.leaseProducts.map(p => (p.id === id ? { ...p, ...changes } : p)) });
+  };
+
+  const updatePpa = (id: string, changes: Partial<PpaProduct>) => {
+    update({ ppaProducts: config.ppaProducts.map(p => (p.id === id ? { ...p, ...changes } : p)) });
+  };
+
+  const handleAddBand = () => {
+    const last = config.priceBands[config.priceBands.length - 1];
+    const minKw = last?.maxKw ?? (last ? last.minKw + 5 : 0);
+    update({ priceBands: [...config.priceBands, { minKw, maxKw: null, pricePerWatt: last?.pricePerWatt ?? 2.85 }] });
+  };
+
+  const handleAddAdder = () => {
+    update({ adders: [...config.adders, { id: generateId('adder'), name: 'New Adder', type: 'flat', amount: 0 }] });
+  };
+
+  const handleAddLoan = () => {
+    const loan: LoanProduct = { id: generateId('loan'), name: 'New Loan', apr: 5.99, termYears: 25, dealerFeePct: 0 };
+    update({
+      loanProducts: [...config.loanProducts, loan],
+      defaultLoanProductId: config.defaultLoanProductId || loan.id,
+    });
+  };
+
+  const handleAddLease = () => {
+    const lease: LeaseProduct = { id: generateId('lease'), name: 'New Lease', monthlyPerKw: 15, escalatorPct: 2.9, termYears: 25 };
+    update({ leaseProducts: [...config.leaseProducts, lease] });
+  };
+
+  const handleAddPpa = () => {
+    const ppa: PpaProduct = { id: generateId('ppa'), name: 'New PPA', ratePerKwh: 0.2, escalatorPct: 2.9, termYears: 25 };
+    update({ ppaProducts: [...config.ppaProducts, ppa] });
+  };
+
+  const handleRemoveLoan = (id: string) => {
+    const loanProducts = config.loanProducts.filter(p => p.id !== id);
+    update({
+      loanProducts,
+      defaultLoanProductId: config.defaultLoanProductId === id ? loanProducts[0]?.id || '' : config.defaultLoanProductId,
+    });
+  };
+
+  const handleSave = async () => {
+    const result = validate(PricingConfigSchema, config);
+    if (!result.ok) {
+      setError(formatErrors(result.errors));
+      return;
+    }
+    if (config.priceBands.length === 0) {
+      setError('Add at least one price band');
+      return;
+    }
+    const serverError = await savePricing(companyId, result.value);
+    if (serverError) {
+      setError(`Saved locally, but the server rejected it: ${serverError}`);
+      return;
+    }
+    setIsSaved(true);
+    setHasChanges(false);
+    setTimeout(() => setIsSaved(false), 2000);
+  };
+
+  const handleResetDefaults = async () => {
+    if (confirm('Reset pricing to defaults?')) {
+      const serverError = await resetPricingToDefaults(companyId);
+      setConfig(JSON.parse(JSON.stringify(DEFAULT_PRICING_CONFIG)));
+      setHasChanges(false);
+      setError(serverError);
+    }
+  };
+
+  const previewPrice = calculateSystemPrice(config, PREVIEW_SYSTEM_KW);
+  const preview = computeFinancials(PREVIEW_SYSTEM_KW, PREVIEW_BILL, config);
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-bold text-white">Pricing</h3>
+          <p className="text-sm text-slate-400 mt-1">
+            Price per watt, adders and financing products used for every solar analysis and proposal
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleResetDefaults}
+            className="flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-sm font-medium transition-all"
+          >
+            <RotateCcw size={14} />
+            Reset Defaults
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!hasChanges}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold transition-all ${
+              hasChanges
+                ? 'bg-emerald-600 hover:bg-emerald-500 text-white'
+                : 'bg-slate-700 text-slate-500 cursor-not-allowed'
+            }`}
+          >
+            {isSaved ? <Check size={16} /> : <Save size={16} />}
+            {isSaved ? 'Saved!' : 'Save Changes'}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3 flex items-start gap-2 text-sm text-red-300">
+          <AlertCircle size={16} className="flex-shrink-0 mt-0.5" />
+          {error}
+        </div>
+      )}
+
+      {/* Preview Card */}
+      <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 p-4">
+        <div className="flex items-center gap-3 mb-3">
+          <div className="w-10 h-10 bg-emerald-500/20 rounded-lg flex items-center justify-center">
+            <Calculator size={20} className="text-emerald-400" />
+          </div>
+          <div>
+            <p className="text-sm text-slate-400">Preview</p>
+            <p className="text-white font-medium">{PREVIEW_SYSTEM_KW} kW system, ${PREVIEW_BILL}/mo bill</p>
+          </div>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+          <div>
+            <p className="text-slate-500">Price / W</p>
+            <p className="text-white font-bold">${previewPrice.pricePerWatt.toFixed(2)}</p>
+          </div>
+          <div>
+            <p className="text-slate-500">Cash Price</p>
+            <p className="text-white font-bold">${Math.round(previewPrice.cashPrice).toLocaleString()}</p>
+          </div>
+          <div>
+            <p className="text-slate-500">Financed Price</p>
+            <p className="text-white font-bold">${preview.systemCost.toLocaleString()}</p>
+          </div>
+          <div>
+            <p className="text-slate-500">Monthly Payment</p>
+            <p className="text-white font-bold">${preview.estimatedMonthlyPayment.toLocaleString()}</p>
+          </div>
+          <div>
+            <p className="text-slate-500">Monthly Savings</p>
+            <p className="text-emerald-400 font-bold">${preview.estimatedMonthlySavings.toLocaleString()}</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Price Bands */}
+      <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 overflow-hidden">
+        <div className="px-4 py-3 border-b border-slate-700/50 bg-slate-800/50 flex items-center justify-between">
+          <h4 className="text-sm font-bold text-white flex items-center gap-2">
+            <DollarSign size={14} className="text-solar-orange" /> Price per Watt by System Size
+          </h4>
+          <button onClick={handleAddBand} className="flex items-center gap-1 text-xs text-solar-orange hover:text-orange-400">
+            <Plus size={14} /> Add Band
+          </button>
+        </div>
+        <div className="divide-y divide-slate-700/50">
+          {config.priceBands.map((band, index) => (
+            <div key={index} className="px-4 py-3 grid grid-cols-12 items-center gap-4">
+              <div className="col-span-3">
+                <label className="text-xs text-slate-500">From (kW)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={band.minKw}
+                  onChange={(e) => updateBand(index, { minKw: parseFloat(e.target.value) || 0 })}
+                  className={inputClass}
+                  aria-label="Band minimum kW"
+                />
+              </div>
+              <div className="col-span-3">
+                <label className="text-xs text-slate-500">Up to (kW, blank = no limit)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={band.maxKw ?? ''}
+                  onChange={(e) => updateBand(index, { maxKw: e.target.value === '' ? null : parseFloat(e.target.value) })}
+                  className={inputClass}
+                  aria-label="Band maximum kW"
+                />
+              </div>
+              <div className="col-span-4">
+                <label className="text-xs text-slate-500">$ / W</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={band.pricePerWatt}
+                  onChange={(e) => updateBand(index, { pricePerWatt: parseFloat(e.target.value) || 0 })}
+                  className={inputClass}
+                  aria-label="Price per watt"
+                />
+              </div>
+              <div className="col-span-2 text-right">
+                <button
+                  onClick={() => update({ priceBands: config.priceBands.filter((_, i) => i !== index) })}
+                  className="p-2 text-slate-500 hover:text-red-400"
+                  aria-label="Remove band"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Adders */}
+      <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 overflow-hidden">
+        <div className="px-4 py-3 border-b border-slate-700/50 bg-slate-800/50 flex items-center justify-between">
+          <h4 className="text-sm font-bold text-white flex items-center gap-2">
+            <Layers size={14} className="text-blue-400" /> Adders
+          </h4>
+          <button onClick={handleAddAdder} className="flex items-center gap-1 text-xs text-solar-orange hover:text-orange-400">
+            <Plus size={14} /> Add Adder
+          </button>
+        </div>
+        <div className="divide-y divide-slate-700/50">
+          {config.adders.map((adder) => (
+            <div key={adder.id} className="px-4 py-3 grid grid-cols-12 items-center gap-4">
+              <div className="col-span-5">
+                <input
+                  type="text"
+                  value={adder.name}
+                  onChange={(e) => updateAdder(adder.id, { name: e.target.value })}
+                  className={inputClass}
+                  aria-label="Adder name"
+                />
+              </div>
+              <div className="col-span-3">
+                <select
+                  value={adder.type}
+                  onChange={(e) => updateAdder(adder.id, { type: e.target.value as PricingAdder['type'] })}
+                  className={inputClass}
+                  aria-label="Adder type"
+                >
+                  <option value="flat">Flat ($)</option>
+                  <option value="perWatt">Per Watt ($/W)</option>
+                </select>
+              </div>
+              <div className="col-span-3">
+                <input
+                  type="number"
+                  min="0"
+                  step={adder.type === 'perWatt' ? '0.01' : '50'}
+                  value={adder.amount}
+                  onChange={(e) => updateAdder(adder.id, { amount: parseFloat(e.target.value) || 0 })}
+                  className={inputClass}
+                  aria-label="Adder amount"
+                />
+              </div>
+              <div className="col-span-1 text-right">
+                <button
+                  onClick={() => update({ adders: config.adders.filter(a => a.id !== adder.id) })}
+                  className="p-2 text-slate-500 hover:text-red-400"
+                  aria-label="Remove adder"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+          {config.adders.length === 0 && (
+            <p className="px-4 py-6 text-center text-sm text-slate-500">No adders configured</p>
+          )}
+        </div>
+      </div>
+
+      {/* Loan Products */}
+      <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 overflow-hidden">
+        <div className="px-4 py-3 border-b border-slate-700/50 bg-slate-800/50 flex items-center justify-between">
+          <h4 className="text-sm font-bold text-white flex items-center gap-2">
+            <Landmark size={14} className="text-purple-400" /> Loan Products
+          </h4>
+          <button onClick={handleAddLoan} className="flex items-center gap-1 text-xs text-solar-orange hover:text-orange-400">
+            <Plus size={14} /> Add Loan
+          </button>
+        </div>
+        <div className="px-4 py-2 grid grid-cols-12 gap-4 text-xs font-bold text-slate-500 uppercase tracking-wider">
+          <div className="col-span-1">Default</div>
+          <div className="col-span-4">Name</div>
+          <div className="col-span-2">APR %</div>
+          <div className="col-span-2">Term (yrs)</div>
+          <div className="col-span-2">Dealer Fee %</div>
+        </div>
+        <div className="divide-y divide-slate-700/50">
+          {config.loanProducts.map((loan) => (
+            <div key={loan.id} className="px-4 py-3 grid grid-cols-12 items-center gap-4">
+              <div className="col-span-1">
+                <input
+                  type="radio"
+                  name="defaultLoan"
+                  checked={config.defaultLoanProductId === loan.id}
+                  onChange={() => update({ defaultLoanProductId: loan.id })}
+                  aria-label={`Make ${loan.name} the default loan`}
+                />
+              </div>
+              <div className="col-span-4">
+                <input
+                  type="text"
+                  value={loan.name}
+                  onChange={(e) => updateLoan(loan.id, { name: e.target.value })}
+                  className={inputClass}
+                  aria-label="Loan name"
+                />
+              </div>
+              <div className="col-span-2">
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={loan.apr}
+                  onChange={(e) => updateLoan(loan.id, { apr: parseFloat(e.target.value) || 0 })}
+                  className={inputClass}
+                  aria-label="APR"
+                />
+              </div>
+              <div className="col-span-2">
+                <input
+                  type="number"
+                  min="1"
+                  value={loan.termYears}
+                  onChange={(e) => updateLoan(loan.id, { termYears: parseInt(e.target.value) || 1 })}
+                  className={inputClass}
+                  aria-label="Term in years"
+                />
+              </div>
+              <div className="col-span-2">
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={loan.dealerFeePct}
+                  onChange={(e) => updateLoan(loan.id, { dealerFeePct: parseFloat(e.target.value) || 0 })}
+                  className={inputClass}
+                  aria-label="Dealer fee percent"
+                />
+              </div>
+              <div className="col-span-1 text-right">
+                <button
+                  onClick={() => handleRemoveLoan(loan.id)}
+                  className="p-2 text-slate-500 hover:text-red-400"
+                  aria-label="Remove loan"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Leases */}
+      <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 overflow-hidden">
+        <div className="px-4 py-3 border-b border-slate-700/50 bg-slate-800/50 flex items-center justify-between">
+          <h4 className="text-sm font-bold text-white flex items-center gap-2">
+            <FileSignature size={14} className="text-cyan-400" /> Lease Products
+          </h4>
+          <button onClick={handleAddLease} className="flex items-center gap-1 text-xs text-solar-orange hover:text-orange-400">
+            <Plus size={14} /> Add Lease
+          </button>
+        </div>
+        <div className="px-4 py-2 grid grid-cols-12 gap-4 text-xs font-bold text-slate-500 uppercase tracking-wider">
+          <div className="col-span-5">Name</div>
+          <div className="col-span-2">$ / kW / mo</div>
+          <div className="col-span-2">Escalator %</div>
+          <div className="col-span-2">Term (yrs)</div>
+        </div>
+        <div className="divide-y divide-slate-700/50">
+          {config.leaseProducts.map((lease) => (
+            <div key={lease.id} className="px-4 py-3 grid grid-cols-12 items-center gap-4">
+              <div className="col-span-5">
+                <input
+                  type="text"
+                  value={lease.name}
+                  onChange={(e) => updateLease(lease.id, { name: e.target.value })}
+                  className={inputClass}
+                  aria-label="Lease name"
+                />
+              </div>
+              <div className="col-span-2">
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={lease.monthlyPerKw}
+                  onChange={(e) => updateLease(lease.id, { monthlyPerKw: parseFloat(e.target.value) || 0 })}
+                  className={inputClass}
+                  aria-label="Monthly payment per kW"
+                />
+              </div>
+              <div className="col-span-2">
+                <input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={lease.escalatorPct}
+                  onChange={(e) => updateLease(lease.id, { escalatorPct: parseFloat(e.target.value) || 0 })}
+                  className={inputClass}
+                  aria-label="Lease escalator percent"
+                />
+              </div>
+              <div className="col-span-2">
+                <input
+                  type="number"
+                  min="1"
+                  value={lease.termYears}
+                  onChange={(e) => updateLease(lease.id, { termYears: parseInt(e.target.value) || 1 })}
+                  className={inputClass}
+                  aria-label="Lease term in years"
+                />
+              </div>
+              <div className="col-span-1 text-right">
+                <button
+                  onClick={() => update({ leaseProducts: config.leaseProducts.filter(p => p.id !== lease.id) })}
+                  className="p-2 text-slate-500 hover:text-red-400"
+                  aria-label="Remove lease"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* PPAs */}
+      <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 overflow-hidden">
+        <div className="px-4 py-3 border-b border-slate-700/50 bg-slate-800/50 flex items-center justify-between">
+          <h4 className="text-sm font-bold text-white flex items-center gap-2">
+            <Sun size={14} className="text-amber-400" /> PPA Products
+          </h4>
+          <button onClick={handleAddPpa} className="flex items-center gap-1 text-xs text-solar-orange hover:text-orange-400">
+            <Plus size={14} /> Add PPA
+          </button>
+        </div>
+        <div className="px-4 py-2 grid grid-cols-12 gap-4 text-xs font-bold text-slate-500 uppercase tracking-wider">
+          <div className="col-span-5">Name</div>
+          <div className="col-span-2">$ / kWh</div>
+          <div className="col-span-2">Escalator %</div>
+          <div className="col-span-2">Term (yrs)</div>
+        </div>
+        <div className="divide-y divide-slate-700/50">
+          {config.ppaProducts.map((ppa) => (
+            <div key={ppa.id} className="px-4 py-3 grid grid-cols-12 items-center gap-4">
+              <div className="col-span-5">
+                <input
+                  type="text"
+                  value={ppa.name}
+                  onChange={(e) => updatePpa(ppa.id, { name: e.target.value })}
+                  className={inputClass}
+                  aria-label="PPA name"
+                />
+              </div>
+              <div className="col-span-2">
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={ppa.ratePerKwh}
+                  onChange={(e) => updatePpa(ppa.id, { ratePerKwh: parseFloat(e.target.value) || 0 })}
+                  className={inputClass}
+                  aria-label="PPA rate per kWh"
+                />
+              </div>
+              <div className="col-span-2">
+                <input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={ppa.escalatorPct}
+                  onChange={(e) => updatePpa(ppa.id, { escalatorPct: parseFloat(e.target.value) || 0 })}
+                  className={inputClass}
+                  aria-label="PPA escalator percent"
+                />
+              </div>
+              <div className="col-span-2">
+                <input
+                  type="number"
+                  min="1"
+                  value={ppa.termYears}
+                  onChange={(e) => updatePpa(ppa.id, { termYears: parseInt(e.target.value) || 1 })}
+                  className={inputClass}
+                  aria-label="PPA term in years"
+                />
+              </div>
+              <div className="col-span-1 text-right">
+                <button
+                  onClick={() => update({ ppaProducts: config.ppaProducts.filter(p => p.id !== ppa.id) })}
+                  className="p-2 text-slate-500 hover:text-red-400"
+                  aria-label="Remove PPA"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* General */}
+      <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 p-4 grid grid-cols-1 md:grid-cols-5 gap-4">
+        <div>
+          <label className="text-xs text-slate-500">Cash Discount %</label>
+          <input
+            type="number"
+            min="0"
+            step="0.5"
+            value={config.cashDiscountPct}
+            onChange={(e) => update({ cashDiscountPct: parseFloat(e.target.value) || 0 })}
+            className={inputClass}
+            aria-label="Cash discount percent"
+          />
+        </div>
+        <div>
+          <label className="text-xs text-slate-500">Federal Tax Credit %</label>
+          <input
+            type="number"
+            min="0"
+            value={config.taxCreditPct}
+            onChange={(e) => update({ taxCreditPct: parseFloat(e.target.value) || 0 })}
+            className={inputClass}
+            aria-label="Tax credit percent"
+          />
+        </div>
+        <div>
+          <label className="text-xs text-slate-500">Target Bill Offset %</label>
+          <input
+            type="number"
+            min="0"
+            value={config.targetOffsetPct}
+            onChange={(e) => update({ targetOffsetPct: parseFloat(e.target.value) || 0 })}
+            className={inputClass}
+            aria-label="Target offset percent"
+          />
+        </div>
+        <div>
+          <label className="text-xs text-slate-500">Utility Rate Increase %/yr</label>
+          <input
+            type="number"
+            min="0"
+            step="0.1"
+            value={config.utilityEscalatorPct}
+            onChange={(e) => update({ utilityEscalatorPct: parseFloat(e.target.value) || 0 })}
+            className={inputClass}
+            aria-label="Utility escalator percent"
+          />
+        </div>
+        <div>
+          <label className="text-xs text-slate-500">Panel Degradation %/yr</label>
+          <input
+            type="number"
+            min="0"
+            step="0.1"
+            value={config.degradationPct}
+            onChange={(e) => update({ degradationPct: parseFloat(e.target.value) || 0 })}
+            className={inputClass}
+            aria-label="Panel degradation percent"
+          />
+        </div>
+      </div>
+
+      {/* Info Box */}
+      <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg p-4 flex items-start gap-3">
+        <Info size={18} className="text-blue-400 flex-shrink-0 mt-0.5" />
+        <div className="text-sm text-blue-300">
+          <p className="font-medium mb-1">How Pricing Works</p>
+          <ul className="list-disc list-inside text-blue-300/80 space-y-1">
+            <li><strong>Cash price:</strong> system size × band $/W, plus selected adders, less the cash discount</li>
+            <li><strong>Financed price:</strong> grossed up by the loan's dealer fee so you net the same amount</li>
+            <li><strong>Monthly payment:</strong> the loan's APR and term applied to the price after the tax credit</li>
+            <li><strong>Leases and PPAs:</strong> compared side by side with cash and loans on every proposal</li>
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,43 @@
 
 import React, { useEffect, useState } from "react";
-import { loadOrDefault, save } from "../utils/storage";
-import { PROJECT_STAGES, STAGE_LABELS, SEED_PROJECTS, generateMilestoneCommissions, SEED_COMMISSIONS } from "../constants";
-import type { Project, Commission, PlanId, ProjectStage } from "../types";
-import { HardHat, CheckCircle2, ChevronRight, Activity, Clock, AlertTriangle, AlertCircle, Settings } from "lucide-react";
-import { loadPipeline, PipelineStage, getStageDisplayName } from "../services/pipelineConfig";
+import { loadOrDefault, saveProjects, saveCommissions, syncProjectsFromServer, syncLeadsFromServer, applyServerCommissions, applyServerProject } from "../utils/storage";
+import { onSyncFailure } from "../services/recordSync";
+import { PROJECT_STAGES, STAGE_LABELS, SEED_PROJECTS, SEED_COMMISSIONS } from "../constants";
+import type { Project, Commission, InterconnectionRecord, Lead, PermitRecord, PlanId, ProjectStage, SiteSurveyRecord } from "../types";
+import { HardHat, CheckCircle2, ChevronRight, Activity, Clock, AlertTriangle, AlertCircle, Settings, Package, XCircle, FileCheck, Zap, CalendarDays, ClipboardCheck, LayoutGrid, List } from "lucide-react";
+import { loadPipeline, getStageDisplayName, syncPipelineFromServer } from "../services/pipelineConfig";
+import type { PipelineStage } from "../services/pipelineStages";
 import { loadSLA, calculateSLAStatus, getSLARuleForStage, getTotalPipelineDays, SLAStatus } from "../services/slaRules";
-import { getActiveCompanyId } from "../services/companyStore";
+import { getActiveCompany, getActiveCompanyId } from "../services/companyStore";
 import { notifyProjectAtRisk, notifyProjectLate, notify } from "../services/notifications";
 import { logUpdate } from "../services/auditLog";
+import { loadEquipment } from "../services/equipmentConfig";
+import { allocateStock, StockLine } from "../services/equipmentCatalog";
+import { loadCommissionRulesAt } from "../services/commissionRulesConfig";
+import { generateDealCommissions, applyCancellation } from "../services/commissionEngine";
+import { permitClock, PermitClock, PERMIT_STATUS_LABELS } from "../services/permits";
+import { interconnectionOverdueDays, INTERCONNECTION_STATUS_LABELS } from "../services/interconnection";
+import { getSurveyFields } from "../services/customFields";
+import { surveyErrors } from "../services/siteSurvey";
+import PermitPanel from "./PermitPanel";
+import SiteSurveyPanel from "./SiteSurveyPanel";
+import InterconnectionPanel from "./InterconnectionPanel";
+import InstallCalendar, { InstallBooking } from "./InstallCalendar";
+import KanbanBoard from "./KanbanBoard";
+import { computeFinancials } from "../services/financialEngine";
+import { loadPricing } from "../services/pricingConfig";
+import { can } from "../services/rbac";
+import { getCurrentRole, loadSession } from "../services/auth";
+import { projectsApi } from "../services/api";
 
 const PROJECTS_KEY = "primus_projects";
 const COMMISSIONS_KEY = "primus_commissions";
+const LEADS_KEY = "primus_leads";
+
+// Overdue utilities are re-announced at most this often
+const INTERCONNECTION_REMINDER_DAYS = 7;
+
+type PanelKind = 'survey' | 'permit' | 'interconnection';
 
 interface ProjectTrackerProps {
   onRequestUpgrade: (plan: PlanId) => void;
@@ -21,11 +47,15 @@ export const ProjectTracker: React.FC<ProjectTrackerProps> = ({ onRequestUpgrade
   const [projects, setProjects] = useState<Project[]>(() =>
     loadOrDefault<Project[]>(PROJECTS_KEY, SEED_PROJECTS)
   );
+  const [openPanel, setOpenPanel] = useState<{ projectId: string; kind: PanelKind } | null>(null);
+  const [view, setView] = useState<"projects" | "board" | "calendar">("projects");
+  const leads = loadOrDefault<Lead[]>(LEADS_KEY, []);
 
   // Load configurable pipeline stages and SLA rules
   const companyId = getActiveCompanyId();
   const pipelineStages = loadPipeline(companyId);
   const slaConfig = loadSLA(companyId);
+  const surveyFields = getSurveyFields(companyId);
   
   // Get stage IDs in order for pipeline progression
   const stageIds = pipelineStages.sort((a, b) => a.order - b.order).map(s => s.id);
@@ -43,10 +73,25 @@ export const ProjectTracker: React.FC<ProjectTrackerProps> = ({ onRequestUpgrade
     return stage?.name || STAGE_LABELS[stageId as ProjectStage] || stageId;
   };
 
+  const customerName = (project: Project) => leads.find(l => l.id === project.leadId)?.name || project.id;
+
+  // Signed in, the server's projects (and the leads they name) replace the local copy,
+  // and the company's stages are the ones the server pays milestones by
+  useEffect(() => {
+    Promise.all([syncProjectsFromServer(), syncLeadsFromServer(), syncPipelineFromServer(companyId)]).then(([serverProjects]) => {
+      if (serverProjects) setProjects(serverProjects);
+    });
+  }, []);
+
   useEffect(() => {
-    save(PROJECTS_KEY, projects);
+    saveProjects(projects);
   }, [projects]);
 
+  // A change the server refused has been undone in the local copy
+  useEffect(() => onSyncFailure(failure => {
+    if (failure.collection === 'projects' && failure.records) setProjects(failure.records as Project[]);
+  }), []);
+
   // Helper: Get next stage (using configurable pipeline)
   const getNextStage = (stage: ProjectStage | string): string | null => {
     const idx = stageIds.indexOf(stage);
@@ -68,6 +113,16 @@ export const ProjectTracker: React.FC<ProjectTrackerProps> = ({ onRequestUpgrade
     return Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
   };
 
+  // Permit time split between us and the AHJ, once the project is in permitting
+  const getPermitClock = (project: Project): PermitClock | null => {
+    const permitIdx = stageIds.indexOf('PERMITTING');
+    const currentIdx = stageIds.indexOf(project.stage);
+    if (!project.permit || permitIdx === -1 || currentIdx < permitIdx) return null;
+    // The previous stage's completion date is when permitting started
+    const enteredAt = (permitIdx > 0 && project.actualDates?.[stageIds[permitIdx - 1]]) || project.createdAt;
+    return permitClock(project.permit, enteredAt, project.actualDates?.PERMITTING);
+  };
+
   // Compute SLA status for a project (using configurable thresholds)
   const computeSLAStatus = (project: Project): SLAStatus => {
     const today = new Date().toISOString().slice(0, 10);
@@ -75,7 +130,11 @@ export const ProjectTracker: React.FC<ProjectTrackerProps> = ({ onRequestUpgrade
     
     if (!targetDate) return 'onTrack';
     
-    const daysInStage = getDaysBetween(project.actualDates?.[project.stage] || project.createdAt, today);
+    // Time waiting on the AHJ doesn't count against our permitting SLA
+    const clock = project.stage === 'PERMITTING' ? getPermitClock(project) : null;
+    const daysInStage = clock
+      ? clock.ourDays
+      : getDaysBetween(project.actualDates?.[project.stage] || project.createdAt, today);
     
     // Use configurable SLA rules
     return calculateSLAStatus(project.stage, daysInStage, companyId);
@@ -209,11 +268,126 @@ export const ProjectTracker: React.FC<ProjectTrackerProps> = ({ onRequestUpgrade
     }
   }, [projects, companyId]);
 
+  // Remind the team about utilities past their typical interconnection turnaround
+  useEffect(() => {
+    const remindedKey = `primus_interconnection_reminded_${companyId}`;
+    const reminded: Record<string, string> = JSON.parse(localStorage.getItem(remindedKey) || '{}');
+    const today = new Date().toISOString().slice(0, 10);
+
+    let updated = false;
+    projects.forEach(project => {
+      if (!project.interconnection || project.cancelledAt) return;
+      const overdue = interconnectionOverdueDays(project.interconnection, today);
+      if (overdue === 0) return;
+      const last = reminded[project.id];
+      if (last && getDaysBetween(last, today) < INTERCONNECTION_REMINDER_DAYS) return;
+
+      const { utility, status, applicationId } = project.interconnection;
+      notify({
+        companyId,
+        userId: null,
+        type: 'project',
+        title: 'Interconnection Overdue',
+        message: `${utility || 'The utility'} is ${overdue} day${overdue === 1 ? '' : 's'} late on ${project.id} (${INTERCONNECTION_STATUS_LABELS[status]}${applicationId ? `, application ${applicationId}` : ''}).`,
+        priority: 'normal',
+        data: { projectId: project.id, leadId: project.leadId }
+      });
+      reminded[project.id] = today;
+      updated = true;
+    });
+
+    if (updated) {
+      localStorage.setItem(remindedKey, JSON.stringify(reminded));
+    }
+  }, [projects, companyId]);
+
+  // Gates for leaving a stage: a finished site survey, an approved permit and granted PTO
+  const canLeaveStage = (p: Project): boolean => {
+    if (p.stage === 'SITE_SURVEY') {
+      const missing = Object.values(surveyErrors(p.siteSurvey, surveyFields));
+      if (missing.length > 0) {
+        alert(`Finish the site survey for ${p.id} first:\n\n${missing.map(m => `• ${m}`).join('\n')}`);
+        setOpenPanel({ projectId: p.id, kind: 'survey' });
+        return false;
+      }
+    }
+    if (p.stage === 'PERMITTING' && p.permit && p.permit.status !== 'approved' &&
+        !confirm(`The permit for ${p.id} isn't approved yet. Advance anyway?`)) return false;
+    if (getNextStage(p.stage) === 'PTO' && p.interconnection && p.interconnection.status !== 'pto_granted' &&
+        !confirm(`The utility hasn't granted PTO for ${p.id} yet. Advance anyway?`)) return false;
+    return true;
+  };
+
+  // Send a project back to an earlier stage: dates from that stage on are re-planned from today
+  const rewindProjectStage = (project: Project, stageId: string): Project => {
+    const today = new Date().toISOString().slice(0, 10);
+    const targetIdx = stageIds.indexOf(stageId);
+    const actualDates = { ...(project.actualDates || {}) };
+    const targetDates = { ...(project.targetDates || {}) };
+    let lastDate = today;
+    for (let i = targetIdx; i < stageIds.length; i++) {
+      delete actualDates[stageIds[i]];
+      targetDates[stageIds[i]] = addDays(lastDate, SLA_DAYS[stageIds[i]] || 7);
+      lastDate = targetDates[stageIds[i]];
+    }
+    const updated: Project = { ...project, stage: stageId, lastUpdated: today, targetDates, actualDates };
+    return { ...updated, slaStatus: computeSLAStatus(updated) };
+  };
+
   const advanceStage = (p: Project) => {
-    const idx = stageIds.indexOf(p.stage);
-    if (idx === -1 || idx === stageIds.length - 1) return;
-    
-    const updated = updateProjectStage(p);
+    const next = getNextStage(p.stage);
+    if (next) moveToStage(p, next);
+  };
+
+  // Move a project to any stage. Moving forward passes every gate on the way.
+  const moveToStage = async (p: Project, stageId: string) => {
+    const fromIdx = stageIds.indexOf(p.stage);
+    const toIdx = stageIds.indexOf(stageId);
+    if (toIdx === -1 || toIdx === fromIdx) return;
+
+    let updated = p;
+    if (fromIdx !== -1 && toIdx < fromIdx) {
+      if (!confirm(`Move ${p.id} back to ${getStageLabel(stageId)}? Its dates from that stage on will be re-planned.`)) return;
+      updated = rewindProjectStage(p, stageId);
+    } else if (fromIdx === -1) {
+      // Stage no longer in the pipeline: drop the project where it was put
+      updated = rewindProjectStage(p, stageId);
+    } else {
+      while (updated.stage !== stageId) {
+        if (!canLeaveStage(updated)) return;
+        updated = updateProjectStage(updated);
+      }
+    }
+
+    // Pay out any milestone the project just reached (INSTALL, PTO). Signed in,
+    // the server records the move and pays from its own copy of the commissions.
+    if (loadSession()) {
+      const { stage, targetDates, actualDates, slaStatus } = updated;
+      const result = await projectsApi.move(p.id, { stage, targetDates, actualDates, slaStatus });
+      if (!result.success || !result.data) {
+        alert(`Couldn't move ${customerName(p)}: ${result.error || 'the server refused the change'}`);
+        return;
+      }
+      updated = result.data.project;
+      applyServerCommissions(result.data.commissions);
+      setProjects(applyServerProject(updated));
+    } else {
+      const newProjects = projects.map((proj) =>
+        proj.id === p.id ? updated : proj
+      );
+      setProjects(newProjects);
+      const existingCommissions = loadOrDefault<Commission[]>(COMMISSIONS_KEY, SEED_COMMISSIONS);
+      const lead = loadOrDefault<Lead[]>(LEADS_KEY, []).find(l => l.id === p.leadId);
+      // Deals stay on the rules in force when they were signed
+      const newComms = generateDealCommissions(updated, loadCommissionRulesAt(p.createdAt, companyId), existingCommissions, {
+        estimatedBill: lead?.estimatedBill,
+        deals: newProjects,
+        stageOrder: stageIds,
+      });
+      if (newComms.length > 0) {
+        saveCommissions([...existingCommissions, ...newComms]);
+      }
+    }
 
     // Log stage advancement to audit trail
     logUpdate('Project', p.id, p, updated, { 
@@ -221,45 +395,149 @@ export const ProjectTracker: React.FC<ProjectTrackerProps> = ({ onRequestUpgrade
       newStage: updated.stage 
     });
 
-    const newProjects = projects.map((proj) =>
-      proj.id === p.id ? updated : proj
-    );
-    setProjects(newProjects);
-
     // Check if final stage (PTO or custom final stage)
     const finalStageId = stageIds[stageIds.length - 1];
-    if (updated.stage === finalStageId || updated.stage === "PTO") {
-      const existingCommissions = loadOrDefault<Commission[]>(COMMISSIONS_KEY, SEED_COMMISSIONS);
-      const hasPto = existingCommissions.some(c => c.leadId === p.leadId && c.milestone === "PTO");
-      
-      if (!hasPto) {
-        const newComms = generateMilestoneCommissions(updated);
-        save(COMMISSIONS_KEY, [...existingCommissions, ...newComms]);
-      }
-      
+    if (toIdx < fromIdx) {
+      notify({
+        companyId,
+        userId: null,
+        type: 'project',
+        title: 'Project Stage Updated',
+        message: `${customerName(p)} moved back to ${getStageLabel(updated.stage)}.`,
+        priority: 'low'
+      });
+    } else if (updated.stage === finalStageId || updated.stage === "PTO") {
       // Notify project completion
       notify({
         companyId,
+        userId: null,
         type: 'project',
         title: 'Project Completed!',
-        message: `${p.customerName} has reached ${getStageLabel(updated.stage)}. Great job!`,
-        priority: 'medium'
+        message: `${customerName(p)} has reached ${getStageLabel(updated.stage)}. Great job!`,
+        priority: 'normal'
       });
     } else {
       // Notify stage advancement
       notify({
         companyId,
+        userId: null,
         type: 'project',
         title: 'Project Stage Updated',
-        message: `${p.customerName} moved to ${getStageLabel(updated.stage)}.`,
+        message: `${customerName(p)} moved to ${getStageLabel(updated.stage)}.`,
         priority: 'low'
       });
     }
   };
 
+  // Cancel a project: unpaid commissions are cancelled and paid advances clawed back.
+  // Signed in, the server settles them against every line it has, paid or not.
+  const cancelProject = async (p: Project) => {
+    const reason = prompt(`Cancel ${customerName(p)}'s project? Enter a reason:`);
+    if (reason === null) return;
+
+    let cancelled: Project;
+    let clawbacks: number;
+    if (loadSession()) {
+      const result = await projectsApi.cancel(p.id, reason.trim() || undefined);
+      if (!result.success || !result.data) {
+        alert(`Couldn't cancel ${customerName(p)}'s project: ${result.error || 'the server refused the change'}`);
+        return;
+      }
+      cancelled = result.data.project;
+      clawbacks = result.data.commissions.filter(c => c.kind === 'clawback').length;
+      applyServerCommissions(result.data.commissions);
+      setProjects(applyServerProject(cancelled));
+    } else {
+      cancelled = {
+        ...p,
+        cancelledAt: new Date().toISOString(),
+        cancelReason: reason.trim() || undefined,
+        lastUpdated: new Date().toISOString().slice(0, 10),
+      };
+      setProjects(projects.map(proj => (proj.id === p.id ? cancelled : proj)));
+      const existingCommissions = loadOrDefault<Commission[]>(COMMISSIONS_KEY, SEED_COMMISSIONS);
+      const settled = applyCancellation(cancelled, existingCommissions, loadCommissionRulesAt(p.createdAt, companyId));
+      saveCommissions(settled);
+      clawbacks = settled.length - existingCommissions.length;
+    }
+    logUpdate('Project', p.id, p, cancelled, { cancelReason: cancelled.cancelReason });
+
+    notify({
+      companyId,
+      userId: null,
+      type: 'project',
+      title: 'Project Cancelled',
+      message: `${customerName(p)}'s project was cancelled.${clawbacks > 0 ? ` ${clawbacks} paid commission${clawbacks === 1 ? '' : 's'} will be clawed back.` : ''}`,
+      priority: 'high',
+      data: { projectId: p.id, leadId: p.leadId }
+    });
+  };
+
+  const updateSiteSurvey = (p: Project, siteSurvey: SiteSurveyRecord) => {
+    const updated: Project = { ...p, siteSurvey, lastUpdated: new Date().toISOString().slice(0, 10) };
+    // Photos are left out of the audit trail; they'd swamp it
+    logUpdate('Project', p.id, { ...p, siteSurvey: undefined }, { ...updated, siteSurvey: undefined }, {
+      siteSurveyComplete: Boolean(siteSurvey.completedAt),
+    });
+    setProjects(projects.map(proj => (proj.id === p.id ? updated : proj)));
+  };
+
+  const updatePermit = (p: Project, permit: PermitRecord) => {
+    const withPermit: Project = { ...p, permit, lastUpdated: new Date().toISOString().slice(0, 10) };
+    const updated: Project = { ...withPermit, slaStatus: computeSLAStatus(withPermit) };
+    logUpdate('Project', p.id, p, updated, { permitStatus: permit.status });
+    setProjects(projects.map(proj => (proj.id === p.id ? updated : proj)));
+
+    if (permit.status === 'corrections_requested' && p.permit?.status !== 'corrections_requested') {
+      notify({
+        companyId,
+        userId: null,
+        type: 'project',
+        title: 'Permit Corrections Requested',
+        message: `${permit.ahjName || 'The AHJ'} requested corrections on ${p.id}'s permit.`,
+        priority: 'high',
+        data: { projectId: p.id, leadId: p.leadId }
+      });
+    }
+  };
+
+  const updateInterconnection = (p: Project, interconnection: InterconnectionRecord) => {
+    const updated: Project = { ...p, interconnection, lastUpdated: new Date().toISOString().slice(0, 10) };
+    logUpdate('Project', p.id, p, updated, { interconnectionStatus: interconnection.status });
+    setProjects(projects.map(proj => (proj.id === p.id ? updated : proj)));
+  };
+
+  // Installs booked on the calendar set the project's installer and install target date
+  const applyInstallBookings = (bookings: InstallBooking[]) => {
+    setProjects(projects.map(proj => {
+      const booking = bookings.find(b => b.projectId === proj.id);
+      if (!booking) return proj;
+      const updated: Project = {
+        ...proj,
+        installerId: booking.installer.id,
+        installerName: booking.installer.name,
+        targetDates: { ...(proj.targetDates || {}), INSTALL: booking.installDate },
+        lastUpdated: new Date().toISOString().slice(0, 10),
+      };
+      logUpdate('Project', proj.id, proj, updated, { installerId: booking.installer.id, installDate: booking.installDate });
+      return updated;
+    }));
+  };
+
+  const togglePanel = (projectId: string, kind: PanelKind) =>
+    setOpenPanel(openPanel?.projectId === projectId && openPanel.kind === kind ? null : { projectId, kind });
+
+  const activeProjects = projects.filter(p => !p.cancelledAt);
+  const canMoveProjects = can(getCurrentRole(), 'UPDATE_PROJECT_STATUS');
+  const pricing = loadPricing(companyId);
+  const projectValue = (p: Project) => p.contractPrice ?? computeFinancials(p.kW || 8, undefined, pricing).systemCost;
+
   // Compute summary metrics
-  const atRiskCount = projects.filter(p => p.slaStatus === 'atRisk').length;
-  const lateCount = projects.filter(p => p.slaStatus === 'late').length;
+  const atRiskCount = activeProjects.filter(p => p.slaStatus === 'atRisk').length;
+
+  // Warehouse stock allocated to uninstalled projects, oldest first
+  const stockByProject = allocateStock(activeProjects, loadEquipment(companyId));
+  const lateCount = activeProjects.filter(p => p.slaStatus === 'late').length;
   
   // Average days from Close (creation) to Install
   const avgDays = (() => {
@@ -267,7 +545,7 @@ export const ProjectTracker: React.FC<ProjectTrackerProps> = ({ onRequestUpgrade
     const installStageId = stageIds.find(id => id === 'INSTALL' || id.toLowerCase().includes('install')) || stageIds[Math.min(3, stageIds.length - 1)];
     const installIdx = stageIds.indexOf(installStageId);
     
-    const projectsWithInstall = projects.filter(p => {
+    const projectsWithInstall = activeProjects.filter(p => {
       const currentIdx = stageIds.indexOf(p.stage);
       return currentIdx >= installIdx && p.actualDates?.[installStageId];
     });
@@ -308,6 +586,27 @@ export const ProjectTracker: React.FC<ProjectTrackerProps> = ({ onRequestUpgrade
     );
   };
 
+  // Stock badge: only shown for projects still waiting on equipment
+  const StockBadge = ({ lines }: { lines?: StockLine[] }) => {
+    if (!lines) return null;
+    const short = lines.filter(line => line.needed > line.available);
+    if (short.length === 0) {
+      return (
+        <span className="px-2 py-1 text-xs bg-emerald-900/60 text-emerald-300 rounded flex items-center gap-1">
+          <Package size={10} /> In Stock
+        </span>
+      );
+    }
+    return (
+      <span
+        className="px-2 py-1 text-xs bg-red-900/60 text-red-300 rounded flex items-center gap-1"
+        title={short.map(line => `${line.name}: need ${line.needed}, ${line.available} available`).join('\n')}
+      >
+        <Package size={10} /> Short {short.length} item{short.length === 1 ? '' : 's'}
+      </span>
+    );
+  };
+
   return (
     <div className="space-y-6 animate-fade-in">
        <div className="flex justify-between items-end">
@@ -318,8 +617,39 @@ export const ProjectTracker: React.FC<ProjectTrackerProps> = ({ onRequestUpgrade
           </h2>
           <p className="text-slate-400 mt-1">Track installations from Site Survey to PTO.</p>
         </div>
+        <div className="flex items-center gap-2">
+          {([
+            ["projects", "List", List],
+            ["board", "Board", LayoutGrid],
+            ["calendar", "Install Calendar", CalendarDays],
+          ] as const).map(([id, label, Icon]) => (
+            <button
+              key={id}
+              onClick={() => setView(id)}
+              className={`flex items-center gap-2 px-4 py-2 border rounded-lg transition-colors text-sm font-medium ${
+                view === id
+                  ? 'bg-slate-700 border-slate-600 text-white'
+                  : 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700 hover:text-white'
+              }`}
+            >
+              <Icon size={16} />
+              {label}
+            </button>
+          ))}
+        </div>
       </div>
 
+      {view === "calendar" ? (
+        <InstallCalendar
+          projects={activeProjects}
+          leads={leads}
+          installers={getActiveCompany()?.installers || []}
+          stageOrder={stageIds}
+          onBookingsChange={applyInstallBookings}
+        />
+      ) : (
+      <>
+
       {/* SLA Summary Cards */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <div className="bg-slate-900 border border-slate-800 p-4 rounded-xl">
@@ -347,15 +677,48 @@ export const ProjectTracker: React.FC<ProjectTrackerProps> = ({ onRequestUpgrade
         </div>
       </div>
 
+      {view === "board" ? (
+        <KanbanBoard
+          columns={pipelineStages}
+          items={activeProjects}
+          getId={(p) => p.id}
+          getColumnId={(p) => p.stage}
+          getValue={projectValue}
+          canMove={canMoveProjects}
+          onMove={moveToStage}
+          lockedMessage="Your role can view the board but not move projects between stages"
+          renderCard={(p) => (
+            <div className="space-y-1.5">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-mono text-[10px] font-bold text-slate-500">{p.id}</span>
+                <SLABadge status={p.slaStatus} />
+              </div>
+              <div className="font-bold text-slate-200 text-sm">{customerName(p)}</div>
+              <div className="flex items-center justify-between text-[11px] text-slate-400">
+                <span>{p.kW.toFixed(1)} kW</span>
+                <span className="font-mono">${projectValue(p).toLocaleString()}</span>
+              </div>
+              {p.targetDates?.[p.stage] && (
+                <div className="text-[10px] text-slate-500">
+                  Target <span className={`font-mono ${p.slaStatus === 'late' ? 'text-red-400' : p.slaStatus === 'atRisk' ? 'text-yellow-400' : 'text-slate-400'}`}>{p.targetDates[p.stage]}</span>
+                </div>
+              )}
+              <div className="flex">
+                <StockBadge lines={stockByProject[p.id]} />
+              </div>
+            </div>
+          )}
+        />
+      ) : (
       <div className="glass-panel border border-slate-800 rounded-xl overflow-hidden">
-        {projects.length === 0 ? (
+        {activeProjects.length === 0 ? (
           <div className="p-10 text-center text-slate-500">
             <Activity className="mx-auto mb-3 opacity-50" size={32} />
             <p>No active projects yet. Close a deal to create one.</p>
           </div>
         ) : (
           <div className="divide-y divide-slate-800/50">
-            {projects.map((p) => (
+            {activeProjects.map((p) => (
               <div key={p.id} className="p-6 hover:bg-slate-800/20 transition-colors">
                 <div className="flex justify-between items-start mb-4">
                    <div>
@@ -363,6 +726,7 @@ export const ProjectTracker: React.FC<ProjectTrackerProps> = ({ onRequestUpgrade
                         <span className="font-mono text-xs font-bold text-slate-500 border border-slate-700 rounded px-1.5 py-0.5">{p.id}</span>
                         <h3 className="text-lg font-bold text-slate-200">System Installation</h3>
                         <SLABadge status={p.slaStatus} />
+                        <StockBadge lines={stockByProject[p.id]} />
                       </div>
                       <div className="text-sm text-slate-400 mt-1 flex items-center gap-2">
                         <span>{p.kW.toFixed(1)} kW System</span>
@@ -377,7 +741,88 @@ export const ProjectTracker: React.FC<ProjectTrackerProps> = ({ onRequestUpgrade
                           </>
                         )}
                       </div>
+                      {p.stage === 'SITE_SURVEY' && (
+                        <div className="text-xs text-slate-500 mt-1">
+                          Site survey:{' '}
+                          {p.siteSurvey?.completedAt
+                            ? <span className="text-emerald-400">complete</span>
+                            : (() => {
+                                const left = Object.keys(surveyErrors(p.siteSurvey, surveyFields)).length;
+                                return <span className="text-slate-300">{left} item{left === 1 ? '' : 's'} to go</span>;
+                              })()}
+                          {p.siteSurvey?.surveyor && ` • ${p.siteSurvey.surveyor}`}
+                        </div>
+                      )}
+                      {p.permit && (() => {
+                        const clock = getPermitClock(p);
+                        return (
+                          <div className="text-xs text-slate-500 mt-1">
+                            Permit: <span className="text-slate-300">{PERMIT_STATUS_LABELS[p.permit.status]}</span>
+                            {p.permit.ahjName && ` • ${p.permit.ahjName}`}
+                            {p.permit.permitNumber && <> • # <span className="font-mono">{p.permit.permitNumber}</span></>}
+                            {clock?.waitingOn && ` • waiting on ${clock.waitingOn === 'ahj' ? 'AHJ' : 'us'}`}
+                          </div>
+                        );
+                      })()}
+                      {p.interconnection && (
+                        <div className="text-xs text-slate-500 mt-1">
+                          Interconnection: <span className="text-slate-300">{INTERCONNECTION_STATUS_LABELS[p.interconnection.status]}</span>
+                          {p.interconnection.utility && ` • ${p.interconnection.utility}`}
+                          {p.interconnection.applicationId && <> • <span className="font-mono">{p.interconnection.applicationId}</span></>}
+                          {interconnectionOverdueDays(p.interconnection) > 0 && (
+                            <span className="text-yellow-400"> • utility overdue</span>
+                          )}
+                        </div>
+                      )}
+                      {p.installerName && (
+                        <div className="text-xs text-slate-500 mt-1">
+                          Installer: <span className="text-slate-300">{p.installerName}</span>
+                          {p.targetDates?.INSTALL && <> • install by <span className="font-mono">{p.targetDates.INSTALL}</span></>}
+                        </div>
+                      )}
+                      {p.equipment && (
+                        <div className="text-xs text-slate-500 mt-1 font-mono">
+                          {p.equipment.moduleQty} × {p.equipment.moduleName}
+                          {' • '}{p.equipment.inverterQty} × {p.equipment.inverterName}
+                          {p.equipment.batteryQty > 0 && ` • ${p.equipment.batteryQty} × ${p.equipment.batteryName}`}
+                        </div>
+                      )}
                    </div>
+                   <div className="flex items-center gap-2">
+                   <button
+                    className={`secondary-btn text-xs ${openPanel?.projectId === p.id && openPanel.kind === 'survey' ? 'border-slate-500' : ''}`}
+                    onClick={() => togglePanel(p.id, 'survey')}
+                    title="Site survey checklist and photos"
+                  >
+                    <ClipboardCheck size={14} />
+                    Survey
+                  </button>
+                   <button
+                    className={`secondary-btn text-xs ${openPanel?.projectId === p.id && openPanel.kind === 'permit' ? 'border-slate-500' : ''}`}
+                    onClick={() => togglePanel(p.id, 'permit')}
+                    title="Permit and AHJ"
+                  >
+                    <FileCheck size={14} />
+                    Permit
+                  </button>
+                   <button
+                    className={`secondary-btn text-xs ${openPanel?.projectId === p.id && openPanel.kind === 'interconnection' ? 'border-slate-500' : ''}`}
+                    onClick={() => togglePanel(p.id, 'interconnection')}
+                    title="Utility interconnection and PTO"
+                  >
+                    <Zap size={14} />
+                    Interconnection
+                  </button>
+                   {stageIds.indexOf(p.stage) !== stageIds.length - 1 && (
+                     <button
+                      className="secondary-btn text-xs text-slate-400 hover:text-red-400"
+                      onClick={() => cancelProject(p)}
+                      title="Cancel project"
+                    >
+                      <XCircle size={14} />
+                      Cancel
+                    </button>
+                   )}
                    <button
                     className="secondary-btn text-xs"
                     onClick={() => advanceStage(p)}
@@ -395,8 +840,32 @@ export const ProjectTracker: React.FC<ProjectTrackerProps> = ({ onRequestUpgrade
                         </>
                     )}
                   </button>
+                   </div>
                 </div>
 
+                {openPanel?.projectId === p.id && openPanel.kind === 'survey' && (
+                  <SiteSurveyPanel
+                    survey={p.siteSurvey}
+                    fields={surveyFields}
+                    onChange={(siteSurvey) => updateSiteSurvey(p, siteSurvey)}
+                  />
+                )}
+                {openPanel?.projectId === p.id && openPanel.kind === 'permit' && (
+                  <PermitPanel
+                    project={p}
+                    address={leads.find(l => l.id === p.leadId)?.address || ''}
+                    clock={getPermitClock(p)}
+                    onChange={(permit) => updatePermit(p, permit)}
+                  />
+                )}
+                {openPanel?.projectId === p.id && openPanel.kind === 'interconnection' && (
+                  <InterconnectionPanel
+                    interconnection={p.interconnection}
+                    lead={leads.find(l => l.id === p.leadId)}
+                    onChange={(interconnection) => updateInterconnection(p, interconnection)}
+                  />
+                )}
+
                 <div className="relative mt-6">
                   {/* Progress Bar Background */}
                   <div className="absolute top-1/2 left-0 w-full h-1 bg-slate-800 -translate-y-1/2 rounded-full z-0"></div>
@@ -445,6 +914,9 @@ export const ProjectTracker: React.FC<ProjectTrackerProps> = ({ onRequestUpgrade
           </div>
         )}
       </div>
+      )}
+      </>
+      )}
     </div>
   );
 };
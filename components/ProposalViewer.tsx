@@ -1,8 +1,25 @@
 
-import React from 'react';
-import { X, Printer, Download, CheckCircle2, Shield, Zap, Leaf, Home } from 'lucide-react';
-import { Lead, SolarAnalysis, UserProfile } from '../types';
+import React, { useEffect, useState } from 'react';
+import { X, Printer, Download, CheckCircle2, Shield, Zap, Leaf, Home, Landmark, FileCheck, Link2, Eye } from 'lucide-react';
+import { Lead, SolarAnalysis, UserProfile, FinancingOption, ProposalSummary } from '../types';
 import { generateSolarHeatmap } from '../utils/heatmap';
+import { compareFinancing } from '../services/financialEngine';
+import { loadPricing } from '../services/pricingConfig';
+import { getRatePlan } from '../services/tariffEngine';
+import { proposalsApi } from '../services/api';
+import { loadBrand } from '../services/branding';
+import { getActiveCompanyId } from '../services/companyStore';
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const FINANCING_TYPE_LABELS: Record<FinancingOption['type'], string> = {
+  cash: 'Cash',
+  loan: 'Loan',
+  lease: 'Lease',
+  ppa: 'PPA',
+};
+
+const formatUsd = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString()}`;
 
 interface ProposalViewerProps {
   isOpen: boolean;
@@ -19,12 +36,65 @@ export const ProposalViewer: React.FC<ProposalViewerProps> = ({
   analysis,
   userProfile 
 }) => {
+  const [versions, setVersions] = useState<ProposalSummary[]>([]);
+  const [isIssuing, setIsIssuing] = useState(false);
+  const [issueError, setIssueError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    proposalsApi.getForLead(lead.id).then(result => setVersions(result.success ? result.data || [] : []));
+  }, [isOpen, lead.id]);
+
   if (!isOpen) return null;
 
   const handlePrint = () => {
     window.print();
   };
 
+  // Freeze exactly these numbers server-side as a new version with its own customer link
+  const handleIssue = async () => {
+    setIsIssuing(true);
+    setIssueError(null);
+    const { name, logoUrl, primaryColor, accentColor } = loadBrand(getActiveCompanyId());
+    const result = await proposalsApi.issue(lead, analysis, { name, logoUrl, primaryColor, accentColor }, userProfile.name);
+    setIsIssuing(false);
+    if (result.success && result.data) {
+      setVersions(prev => [result.data!, ...prev]);
+    } else {
+      setIssueError(result.error || 'Failed to issue proposal');
+    }
+  };
+
+  const handleCopyLink = async (version: ProposalSummary) => {
+    await navigator.clipboard.writeText(proposalsApi.shareUrl(version.shareToken));
+    setCopiedId(version.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  const handleDownload = async (version: ProposalSummary) => {
+    const blob = await proposalsApi.downloadPdf(version.id);
+    if (!blob) {
+      setIssueError('Failed to download the PDF');
+      return;
+    }
+    const url = URL.createObjectURL(blob);
+    window.open(url, '_blank');
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  };
+
+  // Analyses saved before the comparison existed are priced on the fly
+  const financingOptions = analysis.financingOptions
+    ?? compareFinancing(analysis.systemSizeKw, lead.estimatedBill, loadPricing(), { annualProductionKwh: analysis.annualProductionKwh });
+  const bestOptionId = financingOptions.reduce<FinancingOption | null>(
+    (best, option) => (!best || option.netSavings25 > best.netSavings25 ? option : best),
+    null
+  )?.id;
+
+  const offsetPct = analysis.annualProductionKwh && analysis.annualUsageKwh
+    ? Math.round((analysis.annualProductionKwh / analysis.annualUsageKwh) * 100)
+    : 103;
+
   const currentDate = new Date().toLocaleDateString('en-US', { 
     year: 'numeric', month: 'long', day: 'numeric' 
   });
@@ -40,6 +110,13 @@ export const ProposalViewer: React.FC<ProposalViewerProps> = ({
                 Proposal Preview
             </h2>
             <div className="flex gap-3">
+                <button
+                    onClick={handleIssue}
+                    disabled={isIssuing}
+                    className="flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-white rounded-lg text-sm font-bold transition-colors print:hidden"
+                >
+                    <FileCheck size={16} /> {isIssuing ? 'Issuing...' : 'Issue Version'}
+                </button>
                 <button 
                     onClick={handlePrint}
                     className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-white rounded-lg text-sm font-bold transition-colors print:hidden"
@@ -52,6 +129,31 @@ export const ProposalViewer: React.FC<ProposalViewerProps> = ({
             </div>
         </div>
 
+        {/* Issued Versions */}
+        {(versions.length > 0 || issueError) && (
+            <div className="px-6 py-3 border-b border-slate-800 bg-slate-900/80 space-y-2 max-h-40 overflow-y-auto print:hidden">
+                {issueError && <p className="text-xs text-red-400">{issueError}</p>}
+                {versions.map(version => (
+                    <div key={version.id} className="flex items-center gap-3 text-xs text-slate-300">
+                        <span className="font-mono font-bold text-white">v{version.version}</span>
+                        <span>{new Date(version.issuedAt).toLocaleString()}</span>
+                        <span className="text-slate-500">{version.systemSizeKw} kW • ${version.systemCost.toLocaleString()} • ${version.estimatedMonthlyPayment}/mo</span>
+                        <span className="flex items-center gap-1 text-slate-400" title={version.lastViewedAt ? `Last opened ${new Date(version.lastViewedAt).toLocaleString()}` : 'Not opened yet'}>
+                            <Eye size={12} /> {version.viewCount}
+                        </span>
+                        <div className="ml-auto flex gap-2">
+                            <button onClick={() => handleCopyLink(version)} className="flex items-center gap-1 text-blue-400 hover:text-blue-300">
+                                <Link2 size={12} /> {copiedId === version.id ? 'Copied!' : 'Copy Link'}
+                            </button>
+                            <button onClick={() => handleDownload(version)} className="flex items-center gap-1 text-slate-400 hover:text-white">
+                                <Download size={12} /> PDF
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        )}
+
         {/* Scrollable Document Area - Light Mode for Paper Feel */}
         <div className="flex-1 overflow-y-auto bg-slate-800 p-8 print:p-0 print:overflow-visible">
             <div className="max-w-[8.5in] mx-auto bg-white min-h-[11in] shadow-xl text-slate-900 print:shadow-none print:w-full">
@@ -97,14 +199,14 @@ export const ProposalViewer: React.FC<ProposalViewerProps> = ({
                         <div className="bg-blue-50 p-6 rounded-xl border border-blue-100 text-center">
                             <Shield size={24} className="mx-auto text-blue-500 mb-2" />
                             <p className="text-sm text-slate-600 font-bold uppercase">Offset</p>
-                            <p className="text-3xl font-display font-bold text-slate-900">103%</p>
+                            <p className="text-3xl font-display font-bold text-slate-900">{offsetPct}%</p>
                         </div>
                     </div>
 
                     <div className="bg-slate-50 rounded-2xl p-8 border border-slate-200 flex-1">
                         <h3 className="text-lg font-bold text-slate-900 mb-4">Your Energy Independence Plan</h3>
                         <p className="text-slate-600 leading-relaxed mb-6">
-                            Based on your roof's unique geometry ({analysis.roofPitch} pitch, {analysis.sunHoursPerDay} sun hours), we have designed a {analysis.systemSizeKw} kW system that is projected to offset 100% of your current utility usage.
+                            Based on your roof's unique geometry ({analysis.roofPitch} pitch, {analysis.sunHoursPerDay} sun hours), we have designed a {analysis.systemSizeKw} kW system that is projected to offset 100% of your current utility usage{analysis.annualProductionKwh ? `, producing about ${analysis.annualProductionKwh.toLocaleString()} kWh in its first year` : ''}.
                         </p>
                         <p className="text-slate-600 leading-relaxed">
                             By switching to solar, you lock in your electricity rates, protecting yourself from the average 4-6% annual utility rate hikes. This system pays for itself through monthly savings and the Federal Investment Tax Credit (ITC).
@@ -195,6 +297,83 @@ export const ProposalViewer: React.FC<ProposalViewerProps> = ({
                     </div>
                 </div>
 
+                {/* PAGE 3: FINANCING OPTIONS */}
+                <div className="p-12 flex flex-col h-[11in] relative border-t-2 border-dashed border-slate-200 print:border-none print:break-after-page">
+                    <h2 className="text-2xl font-bold text-slate-900 mb-2 pb-4 border-b border-slate-200 flex items-center gap-2">
+                        <Landmark size={22} className="text-orange-500" /> Financing Options
+                    </h2>
+                    <p className="text-sm text-slate-500 mb-8">
+                        Every way to pay for your {analysis.systemSizeKw} kW system, compared over 25 years including your remaining utility bill.
+                    </p>
+
+                    <table className="w-full text-left text-sm mb-8">
+                        <thead>
+                            <tr className="border-b-2 border-slate-900 text-xs uppercase text-slate-500">
+                                <th className="py-2">Option</th>
+                                <th className="py-2 text-right">Upfront</th>
+                                <th className="py-2 text-right">Monthly (Yr 1)</th>
+                                <th className="py-2 text-right">Escalator</th>
+                                <th className="py-2 text-right">25-Yr Cost</th>
+                                <th className="py-2 text-right">25-Yr Savings</th>
+                                <th className="py-2 text-right">Payback</th>
+                                <th className="py-2 text-right">IRR</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-200">
+                            {financingOptions.map(option => (
+                                <tr key={option.id} className={option.id === bestOptionId ? 'bg-emerald-50' : ''}>
+                                    <td className="py-3 pl-2">
+                                        <p className="font-bold text-slate-900">{option.name}</p>
+                                        <p className="text-xs text-slate-500">
+                                            {FINANCING_TYPE_LABELS[option.type]}{option.termYears > 0 ? ` • ${option.termYears} yrs` : ''}
+                                        </p>
+                                    </td>
+                                    <td className="py-3 text-right font-mono">{formatUsd(option.upfrontCost)}</td>
+                                    <td className="py-3 text-right font-mono">{formatUsd(option.monthlyPayment)}</td>
+                                    <td className="py-3 text-right font-mono">{option.escalatorPct}%</td>
+                                    <td className="py-3 text-right font-mono">{formatUsd(option.totalCost25)}</td>
+                                    <td className={`py-3 text-right font-mono font-bold ${option.netSavings25 >= 0 ? 'text-emerald-600' : 'text-red-500'}`}>
+                                        {formatUsd(option.netSavings25)}
+                                    </td>
+                                    <td className="py-3 text-right font-mono">{option.paybackYear === null ? '—' : `Yr ${option.paybackYear}`}</td>
+                                    <td className="py-3 pr-2 text-right font-mono">{option.irr === null ? '—' : `${option.irr}%`}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+
+                    {analysis.monthlyBillsBefore && analysis.monthlyBillsAfter && (
+                        <div className="mb-8">
+                            <h3 className="text-sm font-bold text-slate-900 mb-1">Your Utility Bill, Month by Month</h3>
+                            <p className="text-xs text-slate-500 mb-3">{getRatePlan(analysis.ratePlanId).name}</p>
+                            <table className="w-full text-xs">
+                                <thead>
+                                    <tr className="text-slate-500">
+                                        <th className="py-1 text-left font-normal"></th>
+                                        {MONTH_LABELS.map(m => <th key={m} className="py-1 text-right font-normal">{m}</th>)}
+                                    </tr>
+                                </thead>
+                                <tbody className="font-mono">
+                                    <tr>
+                                        <td className="py-1 text-slate-500">Without solar</td>
+                                        {analysis.monthlyBillsBefore.map((bill, i) => <td key={i} className="py-1 text-right">${Math.round(bill)}</td>)}
+                                    </tr>
+                                    <tr className="text-emerald-600 font-bold">
+                                        <td className="py-1">With solar</td>
+                                        {analysis.monthlyBillsAfter.map((bill, i) => <td key={i} className="py-1 text-right">${Math.round(bill)}</td>)}
+                                    </tr>
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+
+                    <div className="mt-auto text-xs text-slate-400 space-y-1">
+                        <p>25-year cost includes payments to the installer or financier plus the projected remaining utility bill, net of the federal tax credit where the homeowner owns the system.</p>
+                        {analysis.monthlyBillsAfter && <p>Bills are modeled hour by hour on the selected rate plan, including its net metering export credits.</p>}
+                        <p>IRR applies to options with an upfront investment. Projections assume utility rate increases and panel degradation and are not a guarantee of savings.</p>
+                    </div>
+                </div>
+
             </div>
         </div>
       </div>
@@ -7,6 +7,9 @@ import React, { useMemo } from 'react';
 import { TrendingUp, DollarSign, Calendar, Target, Users, AlertTriangle } from 'lucide-react';
 import { Lead, Project, Commission } from '../types';
 import { computeRevenueForecast, getConfidenceLabel, RevenueForecast as ForecastData } from '../services/revenueEngine';
+import { loadCommissionRules } from '../services/commissionRulesConfig';
+import { loadPricing } from '../services/pricingConfig';
+import { loadLeadPipeline } from '../services/leadPipeline';
 
 interface RevenueForecastProps {
   leads: Lead[];
@@ -67,7 +70,7 @@ const RevenueCard: React.FC<{ label: string; value: number; icon: React.ElementT
 const RevenueForecast: React.FC<RevenueForecastProps> = ({ leads, projects, commissions }) => {
   // Compute forecast
   const forecast = useMemo<ForecastData>(() => {
-    return computeRevenueForecast(leads, projects, commissions);
+    return computeRevenueForecast(leads, projects, commissions, loadCommissionRules(), loadPricing(), loadLeadPipeline());
   }, [leads, projects, commissions]);
 
   // Get max values for bar charts
@@ -0,0 +1,348 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Wand2, LayoutGrid, Ban, AlertTriangle } from 'lucide-react';
+import { RoofFace, SystemDesign } from '../types';
+import {
+  EquipmentCatalog,
+  getModule,
+  getInverter,
+  formatEquipment,
+  sizeInverters,
+  equipmentForSystem,
+} from '../services/equipmentCatalog';
+import { loadEquipment } from '../services/equipmentConfig';
+import { COMPASS_OPTIONS, formatRoofPitch } from '../services/productionModel';
+import {
+  createRoofFace,
+  createObstruction,
+  autoFillFace,
+  autoFillDesign,
+  panelSizeFt,
+  faceKw,
+  designKw,
+  designPanelCount,
+  estimateDesignProduction,
+} from '../services/roofDesign';
+
+interface RoofDesignerProps {
+  address: string;
+  design: SystemDesign;
+  onChange: (design: SystemDesign) => void;
+}
+
+const PITCH_OPTIONS = [0, 2, 3, 4, 5, 6, 7, 8, 9, 10, 12];
+
+const NumberField: React.FC<{ label: string; value: number; onChange: (value: number) => void; step?: number }> = ({
+  label,
+  value,
+  onChange,
+  step = 1,
+}) => (
+  <label className="text-[10px] text-slate-500 uppercase">
+    {label}
+    <input
+      type="number"
+      min={0}
+      step={step}
+      value={value}
+      onChange={e => onChange(Math.max(0, Number(e.target.value) || 0))}
+      className="mt-1 w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white font-mono"
+    />
+  </label>
+);
+
+/**
+ * Plan view of a face: eave at the bottom, setback dashed, obstructions red
+ */
+const FacePreview: React.FC<{ face: RoofFace; moduleId: string; catalog: EquipmentCatalog }> = ({ face, moduleId, catalog }) => {
+  const size = panelSizeFt(getModule(moduleId, catalog), face.orientation);
+  const flipY = (y: number, h: number) => face.heightFt - y - h;
+  return (
+    <svg
+      viewBox={`0 0 ${Math.max(1, face.widthFt)} ${Math.max(1, face.heightFt)}`}
+      className="w-full h-32 bg-slate-950 rounded-lg border border-slate-800"
+      preserveAspectRatio="xMidYMid meet"
+    >
+      <rect x={0} y={0} width={face.widthFt} height={face.heightFt} fill="#1e293b" />
+      <rect
+        x={face.setbackFt}
+        y={face.setbackFt}
+        width={Math.max(0, face.widthFt - 2 * face.setbackFt)}
+        height={Math.max(0, face.heightFt - 2 * face.setbackFt)}
+        fill="none"
+        stroke="#64748b"
+        strokeWidth={0.15}
+        strokeDasharray="0.5 0.5"
+      />
+      {face.obstructions.map(o => (
+        <rect key={o.id} x={o.xFt} y={flipY(o.yFt, o.heightFt)} width={o.widthFt} height={o.heightFt} fill="#ef4444" opacity={0.6} />
+      ))}
+      {face.panels.map((p, i) => (
+        <rect
+          key={i}
+          x={p.xFt}
+          y={flipY(p.yFt, size.heightFt)}
+          width={size.widthFt}
+          height={size.heightFt}
+          fill="#2563eb"
+          stroke="#93c5fd"
+          strokeWidth={0.06}
+        />
+      ))}
+    </svg>
+  );
+};
+
+const selectClass = 'mt-1 w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-white';
+
+/**
+ * Multi-plane system designer: roof faces with their own geometry, setbacks and
+ * obstructions, auto-filled with the selected module, plus the inverter and
+ * battery from the company's equipment catalog
+ */
+export const RoofDesigner: React.FC<RoofDesignerProps> = ({ address, design, onChange }) => {
+  const [catalog] = useState<EquipmentCatalog>(() => loadEquipment());
+  const module = getModule(design.moduleId, catalog);
+  const inverter = getInverter(design.inverterId, catalog);
+  const production = estimateDesignProduction(design, address, catalog);
+  const planeById = new Map((production?.faces || []).map(p => [p.faceId, p]));
+  const dcKw = designKw(design, catalog);
+  const panelCount = designPanelCount(design);
+  const sizing = sizeInverters(dcKw, panelCount, inverter);
+  const equipment = equipmentForSystem(dcKw, design, catalog);
+
+  const updateFace = (faceId: string, changes: Partial<RoofFace>) => {
+    onChange({
+      ...design,
+      faces: design.faces.map(face => (face.id === faceId ? { ...face, ...changes } : face)),
+    });
+  };
+
+  const removeFace = (faceId: string) => {
+    onChange({ ...design, faces: design.faces.filter(face => face.id !== faceId) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-2">
+        <label className="text-[10px] text-slate-500 uppercase flex-1 min-w-[180px]">
+          Module
+          <select
+            value={module.id}
+            onChange={e => onChange(autoFillDesign({ ...design, moduleId: e.target.value }, getModule(e.target.value, catalog)))}
+            className={selectClass}
+          >
+            {catalog.modules.map(m => (
+              <option key={m.id} value={m.id}>{formatEquipment(m)} ({m.watts}W)</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-[10px] text-slate-500 uppercase flex-1 min-w-[160px]">
+          Inverter
+          <select
+            value={inverter.id}
+            onChange={e => onChange({ ...design, inverterId: e.target.value })}
+            className={selectClass}
+          >
+            {catalog.inverters.map(i => (
+              <option key={i.id} value={i.id}>{formatEquipment(i)} ({i.kind === 'micro' ? 'micro' : `${i.acKw} kW`})</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-[10px] text-slate-500 uppercase flex-1 min-w-[160px]">
+          Battery
+          <select
+            value={design.batteryId || ''}
+            onChange={e => onChange({
+              ...design,
+              batteryId: e.target.value || undefined,
+              batteryQty: e.target.value ? design.batteryQty || 1 : undefined,
+            })}
+            className={selectClass}
+          >
+            <option value="">None</option>
+            {catalog.batteries.map(b => (
+              <option key={b.id} value={b.id}>{formatEquipment(b)} ({b.capacityKwh} kWh)</option>
+            ))}
+          </select>
+        </label>
+        {design.batteryId && (
+          <div className="w-16">
+            <NumberField
+              label="Qty"
+              value={design.batteryQty ?? 1}
+              onChange={v => onChange({ ...design, batteryQty: Math.min(10, Math.max(1, Math.round(v))) })}
+            />
+          </div>
+        )}
+        <button
+          onClick={() => onChange({ ...design, faces: [...design.faces, createRoofFace(design.faces.length)] })}
+          className="text-xs px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-200 flex items-center gap-1"
+        >
+          <Plus size={12} /> Add Face
+        </button>
+        <button
+          onClick={() => onChange(autoFillDesign(design, module))}
+          disabled={design.faces.length === 0}
+          className="text-xs px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-500 text-white font-bold flex items-center gap-1 disabled:opacity-50"
+        >
+          <Wand2 size={12} /> Auto-Fill All
+        </button>
+      </div>
+
+      {design.faces.length === 0 && (
+        <div className="text-center text-sm text-slate-500 py-8 border border-dashed border-slate-700 rounded-xl">
+          <LayoutGrid size={24} className="mx-auto mb-2 text-slate-600" />
+          Add each roof face the array can use, then auto-fill panels.
+        </div>
+      )}
+
+      {design.faces.map(face => {
+        const plane = planeById.get(face.id);
+        return (
+          <div key={face.id} className="bg-slate-900/50 p-3 rounded-xl border border-slate-800 space-y-3">
+            <div className="flex items-center gap-2">
+              <input
+                value={face.name}
+                onChange={e => updateFace(face.id, { name: e.target.value })}
+                className="flex-1 bg-transparent text-sm font-bold text-white border-b border-transparent focus:border-slate-600 outline-none"
+              />
+              <button
+                onClick={() => updateFace(face.id, { panels: autoFillFace(face, module) })}
+                className="text-[10px] px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-slate-300 flex items-center gap-1"
+              >
+                <Wand2 size={10} /> Fill
+              </button>
+              <button
+                onClick={() => removeFace(face.id)}
+                title="Remove face"
+                className="p-1 text-slate-500 hover:text-red-400"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-4 gap-2">
+              <NumberField label="Width ft" value={face.widthFt} onChange={v => updateFace(face.id, { widthFt: v })} />
+              <NumberField label="Slope ft" value={face.heightFt} onChange={v => updateFace(face.id, { heightFt: v })} />
+              <NumberField label="Setback ft" value={face.setbackFt} step={0.5} onChange={v => updateFace(face.id, { setbackFt: v })} />
+              <NumberField label="Shading %" value={face.shadingPct} onChange={v => updateFace(face.id, { shadingPct: Math.min(100, v) })} />
+              <label className="text-[10px] text-slate-500 uppercase">
+                Pitch
+                <select
+                  value={face.pitch}
+                  onChange={e => updateFace(face.id, { pitch: Number(e.target.value) })}
+                  className="mt-1 w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white"
+                >
+                  {PITCH_OPTIONS.map(p => <option key={p} value={p}>{formatRoofPitch(p)}</option>)}
+                </select>
+              </label>
+              <label className="text-[10px] text-slate-500 uppercase">
+                Facing
+                <select
+                  value={face.azimuthDeg}
+                  onChange={e => updateFace(face.id, { azimuthDeg: Number(e.target.value) })}
+                  className="mt-1 w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white"
+                >
+                  {COMPASS_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                </select>
+              </label>
+              <label className="text-[10px] text-slate-500 uppercase col-span-2">
+                Orientation
+                <select
+                  value={face.orientation}
+                  onChange={e => updateFace(face.id, { orientation: e.target.value as RoofFace['orientation'] })}
+                  className="mt-1 w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white"
+                >
+                  <option value="portrait">Portrait</option>
+                  <option value="landscape">Landscape</option>
+                </select>
+              </label>
+            </div>
+
+            {/* Obstructions */}
+            <div className="space-y-1.5">
+              {face.obstructions.map(o => (
+                <div key={o.id} className="grid grid-cols-[1fr_repeat(4,3.5rem)_auto] gap-1 items-center">
+                  <input
+                    value={o.label}
+                    onChange={e => updateFace(face.id, {
+                      obstructions: face.obstructions.map(x => (x.id === o.id ? { ...x, label: e.target.value } : x)),
+                    })}
+                    className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white"
+                  />
+                  {(['xFt', 'yFt', 'widthFt', 'heightFt'] as const).map(key => (
+                    <input
+                      key={key}
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      title={key}
+                      value={o[key]}
+                      onChange={e => updateFace(face.id, {
+                        obstructions: face.obstructions.map(x =>
+                          x.id === o.id ? { ...x, [key]: Math.max(0, Number(e.target.value) || 0) } : x
+                        ),
+                      })}
+                      className="bg-slate-900 border border-slate-700 rounded px-1 py-1 text-xs text-white font-mono"
+                    />
+                  ))}
+                  <button
+                    onClick={() => updateFace(face.id, { obstructions: face.obstructions.filter(x => x.id !== o.id) })}
+                    title="Remove obstruction"
+                    className="p-1 text-slate-500 hover:text-red-400"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => updateFace(face.id, { obstructions: [...face.obstructions, createObstruction()] })}
+                className="text-[10px] text-slate-400 hover:text-white flex items-center gap-1"
+              >
+                <Ban size={10} /> Add obstruction (x, y from the eave's left corner; width, height in ft)
+              </button>
+            </div>
+
+            <FacePreview face={face} moduleId={module.id} catalog={catalog} />
+
+            <div className="flex justify-between text-[11px] font-mono text-slate-400">
+              <span>{face.panels.length} panels • {faceKw(face, module)} kW</span>
+              <span>
+                {plane ? `${plane.annualKwh.toLocaleString()} kWh/yr • ${plane.specificYield} kWh/kW` : '—'}
+              </span>
+            </div>
+          </div>
+        );
+      })}
+
+      {design.faces.length > 0 && (
+        <div className="bg-slate-800/50 px-3 py-2 rounded-lg text-xs font-mono space-y-1">
+          <div className="flex justify-between items-center">
+            <span className="text-slate-300">
+              {panelCount} × {module.watts}W = <strong className="text-white">{dcKw} kW</strong>
+            </span>
+            <span className="text-slate-300">
+              {production ? `${production.combined.annualKwh.toLocaleString()} kWh/yr` : 'No panels placed'}
+            </span>
+          </div>
+          {panelCount > 0 && (
+            <>
+              <div className="flex justify-between items-center text-slate-400">
+                <span>
+                  {sizing.qty} × {inverter.model} = {sizing.acKw} kW AC • DC/AC {sizing.dcAcRatio}
+                  {equipment.batteryQty > 0 && ` • ${equipment.batteryQty} × ${equipment.batteryName}`}
+                </span>
+                <span>Equipment ${equipment.equipmentCost.toLocaleString()}</span>
+              </div>
+              {sizing.warnings.map(warning => (
+                <p key={warning} className="text-amber-400 flex items-center gap-1">
+                  <AlertTriangle size={12} /> {warning}
+                </p>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -20,7 +20,8 @@ import {
   DEFAULT_SLA,
   getTotalPipelineDays,
 } from '../services/slaRules';
-import { loadPipeline, PipelineStage } from '../services/pipelineConfig';
+import { loadPipeline } from '../services/pipelineConfig';
+import type { PipelineStage } from '../services/pipelineStages';
 import { getActiveCompanyId } from '../services/companyStore';
 
 export default function SLAEditor() {
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { LogIn, LogOut, Lock, AlertCircle } from 'lucide-react';
+import { loadSession, login, logout, type AuthSession } from '../services/auth';
+import { getActiveCompanyId } from '../services/companyStore';
+import { getRoleBadgeColor, getRoleDisplayName } from '../services/rbac';
+
+export const ServerSessionCard: React.FC = () => {
+  const [session, setSession] = useState<AuthSession | null>(() => loadSession());
+  const [companyId, setCompanyId] = useState(getActiveCompanyId());
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    try {
+      setSession(await login(companyId, email, password));
+      setPassword('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign-in failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLogout = () => {
+    logout();
+    setSession(null);
+  };
+
+  return (
+    <div className="glass-panel p-6 border border-slate-800">
+      <h3 className="text-lg font-bold text-slate-200 mb-4 flex items-center gap-2">
+        <Lock size={18} className="text-solar-orange" /> Server Session
+      </h3>
+
+      {session ? (
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <p className="text-sm text-slate-200 font-medium">{session.user.name} · {session.user.email}</p>
+            <p className="text-xs text-slate-500 font-mono">{session.user.companyId}</p>
+            <span className={`inline-block text-xs px-2 py-0.5 rounded-full border ${getRoleBadgeColor(session.user.role)}`}>
+              {getRoleDisplayName(session.user.role)}
+            </span>
+          </div>
+          <button
+            type="button"
+            onClick={handleLogout}
+            className="px-4 py-2 rounded-lg border border-slate-700 text-slate-300 hover:bg-slate-800 flex items-center gap-2 text-sm"
+          >
+            <LogOut size={16} /> Sign Out
+          </button>
+        </div>
+      ) : (
+        <form onSubmit={handleLogin} className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <input
+            type="text"
+            value={companyId}
+            onChange={(e) => setCompanyId(e.target.value)}
+            placeholder="Company ID"
+            aria-label="Company ID"
+            className="bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-sm text-slate-200 font-mono focus:outline-none focus:border-solar-orange"
+          />
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Email"
+            aria-label="Email"
+            className="bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-solar-orange"
+          />
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password"
+            aria-label="Password"
+            className="bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-solar-orange"
+          />
+          {error && (
+            <p className="md:col-span-3 text-xs text-red-400 flex items-center gap-1">
+              <AlertCircle size={12} /> {error}
+            </p>
+          )}
+          <div className="md:col-span-3 flex justify-end">
+            <button
+              type="submit"
+              disabled={loading || !email || !password}
+              className="bg-solar-orange hover:bg-orange-600 disabled:opacity-50 text-white px-4 py-2 rounded-lg flex items-center gap-2 text-sm font-bold"
+            >
+              <LogIn size={16} /> {loading ? 'Signing in...' : 'Sign In'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default ServerSessionCard;
@@ -1,101 +1,196 @@
-
 import React, { useRef, useState, useEffect } from 'react';
-import { X, Eraser, PenTool, CheckCircle2 } from 'lucide-react';
+import { X, Eraser, PenTool, CheckCircle2, Loader2, ShieldCheck, AlertCircle } from 'lucide-react';
+import { Contract, ContractSignerRole, FinancingOption, Lead, SignatureStroke, SolarAnalysis } from '../types';
+import { contractsApi, proposalsApi } from '../services/api';
+import { loadContractTemplates } from '../services/contractConfig';
+import { ESIGN_CONSENT_TEXT } from '../services/contractTemplates';
+import { loadBrand } from '../services/branding';
+import { getActiveCompanyId } from '../services/companyStore';
 
 interface SignatureModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onConfirm: (signatureData: string) => void;
-  contractDetails: {
-    customerName: string;
-    systemSize: number;
-    monthlyPayment: number;
-    totalCost: number;
-  };
+  onCompleted: (contract: Contract) => void;
+  lead: Lead;
+  analysis: SolarAnalysis;
+  repName: string;
 }
 
-export const SignatureModal: React.FC<SignatureModalProps> = ({ 
-  isOpen, 
-  onClose, 
-  onConfirm,
-  contractDetails 
+const ROLE_LABELS: Record<ContractSignerRole, string> = {
+  homeowner: 'Homeowner',
+  co_homeowner: 'Co-Homeowner',
+  rep: 'Sales Representative',
+};
+
+const inputClass =
+  'w-full border border-slate-300 rounded-lg px-3 py-2 text-sm text-slate-900 focus:outline-none focus:border-blue-500';
+
+export const SignatureModal: React.FC<SignatureModalProps> = ({
+  isOpen,
+  onClose,
+  onCompleted,
+  lead,
+  analysis,
+  repName
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [templates] = useState(() => loadContractTemplates());
+  const [templateId, setTemplateId] = useState(templates.defaultTemplateId);
+  // The contract carries the latest issued proposal's price and financing
+  const [proposal, setProposal] = useState<{ id: string; version: number; financingOptions: FinancingOption[] } | null>(null);
+  const financingOptions = proposal?.financingOptions || [];
+  const [financingOptionId, setFinancingOptionId] = useState('');
+  const [coHomeownerName, setCoHomeownerName] = useState('');
+  const [coHomeownerEmail, setCoHomeownerEmail] = useState('');
+  const [rep, setRep] = useState(repName);
+
+  const [contract, setContract] = useState<Contract | null>(null);
+  const [strokes, setStrokes] = useState<SignatureStroke[]>([]);
   const [isDrawing, setIsDrawing] = useState(false);
-  const [hasSignature, setHasSignature] = useState(false);
+  const [consent, setConsent] = useState(false);
+  const [typedName, setTypedName] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
+  const signer = contract?.signers.find(s => !s.signedAt);
+  const signerIndex = contract && signer ? contract.signers.indexOf(signer) : -1;
+
+  // A fresh envelope every time the modal opens
   useEffect(() => {
     if (isOpen) {
-      setTimeout(clearCanvas, 100);
+      setContract(null);
+      setError(null);
+      setRep(repName);
+    }
+  }, [isOpen, repName]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setProposal(null);
+    proposalsApi.getForLead(lead.id).then(async list => {
+      const latest = list.success ? list.data?.[0] : undefined;
+      if (!latest) {
+        setError(list.success ? 'Issue a proposal before preparing the agreement' : list.error || 'Failed to load proposals');
+        return;
+      }
+      const result = await proposalsApi.getById(latest.id);
+      if (!result.success || !result.data) {
+        setError(result.error || 'Failed to load the proposal');
+        return;
+      }
+      const options = result.data.snapshot.financingOptions;
+      setProposal({ id: result.data.id, version: result.data.version, financingOptions: options });
+      setFinancingOptionId(options[0]?.id || '');
+    });
+  }, [isOpen, lead.id]);
+
+  // Each signer starts from an empty pad
+  useEffect(() => {
+    setConsent(false);
+    setTypedName('');
+    setTimeout(clearCanvas, 100);
+  }, [signer?.id]);
+
+  const getPoint = (e: React.MouseEvent | React.TouchEvent, canvas: HTMLCanvasElement): [number, number] => {
+    let clientX, clientY;
+    if ('touches' in e) {
+      clientX = e.touches[0].clientX;
+      clientY = e.touches[0].clientY;
+    } else {
+      clientX = (e as React.MouseEvent).clientX;
+      clientY = (e as React.MouseEvent).clientY;
     }
-  }, [isOpen]);
+
+    // The pad is scaled with CSS, so map back to its 600×200 drawing space
+    const rect = canvas.getBoundingClientRect();
+    const x = ((clientX - rect.left) * canvas.width) / rect.width;
+    const y = ((clientY - rect.top) * canvas.height) / rect.height;
+    return [Math.round(Math.max(0, x) * 10) / 10, Math.round(Math.max(0, y) * 10) / 10];
+  };
 
   const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
 
     setIsDrawing(true);
-    const { offsetX, offsetY } = getCoordinates(e, canvas);
+    const point = getPoint(e, canvas);
     ctx.beginPath();
-    ctx.moveTo(offsetX, offsetY);
+    ctx.moveTo(point[0], point[1]);
+    setStrokes(prev => [...prev, [point]]);
   };
 
   const draw = (e: React.MouseEvent | React.TouchEvent) => {
     if (!isDrawing) return;
     const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
 
-    const { offsetX, offsetY } = getCoordinates(e, canvas);
-    ctx.lineTo(offsetX, offsetY);
+    const point = getPoint(e, canvas);
+    ctx.lineTo(point[0], point[1]);
     ctx.stroke();
-    setHasSignature(true);
+    setStrokes(prev => [...prev.slice(0, -1), [...prev[prev.length - 1], point]]);
   };
 
   const stopDrawing = () => {
     setIsDrawing(false);
   };
 
-  const getCoordinates = (e: React.MouseEvent | React.TouchEvent, canvas: HTMLCanvasElement) => {
-    let clientX, clientY;
-    if ('touches' in e) {
-      clientX = e.touches[0].clientX;
-      clientY = e.touches[0].clientY;
-    } else {
-      clientX = (e as React.MouseEvent).clientX;
-      clientY = (e as React.MouseEvent).clientY;
+  const clearCanvas = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (canvas && ctx) {
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.strokeStyle = '#000000';
+      ctx.lineWidth = 2;
+      ctx.lineCap = 'round';
     }
-
-    const rect = canvas.getBoundingClientRect();
-    return {
-      offsetX: clientX - rect.left,
-      offsetY: clientY - rect.top
-    };
+    setStrokes([]);
   };
 
-  const clearCanvas = () => {
-    const canvas = canvasRef.current;
-    if (canvas) {
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-        ctx.strokeStyle = '#000000';
-        ctx.lineWidth = 2;
-        ctx.lineCap = 'round';
-        setHasSignature(false);
-      }
+  const hasSignature = strokes.some(stroke => stroke.length > 1);
+
+  const handlePrepare = async () => {
+    if (!proposal) return;
+    setIsBusy(true);
+    setError(null);
+    const result = await contractsApi.create(proposal.id, {
+      templateId,
+      financingOptionId: financingOptionId || undefined,
+      companyName: loadBrand(getActiveCompanyId()).name,
+      coHomeowner: coHomeownerName.trim()
+        ? { name: coHomeownerName.trim(), email: coHomeownerEmail.trim() || undefined }
+        : undefined,
+      rep: { name: rep.trim() },
+    });
+    setIsBusy(false);
+    if (result.success && result.data) {
+      setContract(result.data);
+    } else {
+      setError(result.error || 'Failed to prepare the agreement');
     }
   };
 
-  const handleSave = () => {
-    if (!canvasRef.current || !hasSignature) return;
-    const dataUrl = canvasRef.current.toDataURL();
-    onConfirm(dataUrl);
+  const handleSign = async () => {
+    if (!contract || !signer || !consent || !typedName.trim() || !hasSignature) return;
+    setIsBusy(true);
+    setError(null);
+    const result = await contractsApi.sign(contract.id, {
+      signerId: signer.id,
+      consent,
+      typedName: typedName.trim(),
+      strokes: strokes.filter(stroke => stroke.length > 1),
+      documentSha256: contract.documentSha256,
+    });
+    setIsBusy(false);
+    if (!result.success || !result.data) {
+      setError(result.error || 'Failed to record signature');
+      return;
+    }
+    setContract(result.data);
+    if (result.data.status === 'completed') {
+      onCompleted(result.data);
+    }
   };
 
   if (!isOpen) return null;
@@ -103,84 +198,169 @@ export const SignatureModal: React.FC<SignatureModalProps> = ({
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 animate-fade-in">
       <div className="absolute inset-0 bg-slate-950/90 backdrop-blur-sm" onClick={onClose}></div>
-      
+
       <div className="bg-white rounded-2xl w-full max-w-2xl shadow-2xl relative overflow-hidden flex flex-col max-h-[90vh]">
         <div className="bg-slate-50 border-b border-slate-200 p-6 flex justify-between items-center">
            <div>
-             <h3 className="text-xl font-display font-bold text-slate-900">Installation Agreement</h3>
-             <p className="text-sm text-slate-500">Primus Home Pro • License #9942104</p>
+             <h3 className="text-xl font-display font-bold text-slate-900">{contract?.title || 'Installation Agreement'}</h3>
+             <p className="text-sm text-slate-500">
+               {contract ? `Envelope ${contract.id.slice(0, 8)} • ${contract.signers.length} signers` : `${lead.name} • ${analysis.systemSizeKw} kW${proposal ? ` • Proposal v${proposal.version}` : ''}`}
+             </p>
            </div>
            <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
              <X size={24} />
            </button>
         </div>
 
-        <div className="p-6 bg-slate-50 border-b border-slate-200 space-y-4 overflow-y-auto">
-            <div className="bg-blue-50 border border-blue-100 p-4 rounded-lg">
-                <h4 className="text-xs font-bold text-blue-600 uppercase tracking-wider mb-2">Deal Summary</h4>
-                <div className="grid grid-cols-2 gap-4 text-sm text-slate-700">
-                    <div>Customer: <span className="font-bold">{contractDetails.customerName}</span></div>
-                    <div>System Size: <span className="font-bold">{contractDetails.systemSize} kW</span></div>
-                    <div>Total Cost: <span className="font-bold">${contractDetails.totalCost.toLocaleString()}</span></div>
-                    <div>Monthly Pmt: <span className="font-bold">${contractDetails.monthlyPayment}</span></div>
-                </div>
+        {error && (
+          <div className="mx-6 mt-4 bg-red-50 border border-red-200 rounded-lg p-3 flex items-start gap-2 text-sm text-red-700">
+            <AlertCircle size={16} className="flex-shrink-0 mt-0.5" />
+            {error}
+          </div>
+        )}
+
+        {!contract ? (
+          /* SETUP: template and signers */
+          <div className="p-6 space-y-4 overflow-y-auto">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">Template</label>
+              <select value={templateId} onChange={(e) => setTemplateId(e.target.value)} className={inputClass}>
+                {templates.templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+              </select>
             </div>
-            
-            <div className="text-[10px] text-slate-500 leading-relaxed text-justify">
-                <p><strong>1. AGREEMENT TO INSTALL.</strong> By signing below, Customer agrees to purchase the Solar System described above. Primus Home Pro agrees to install the system in a workmanlike manner.</p>
-                <p className="mt-2"><strong>2. FINANCIAL TERMS.</strong> Customer acknowledges that the Federal Tax Credit (ITC) is a tax incentive and not a guaranteed rebate. Monthly payments are estimated based on 20-year loan terms at 4.99% APR.</p>
-                <p className="mt-2"><strong>3. BINDING EFFECT.</strong> This electronic signature is legally binding and equivalent to a physical signature.</p>
+            {financingOptions.length > 0 && (
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">Financing</label>
+                <select value={financingOptionId} onChange={(e) => setFinancingOptionId(e.target.value)} className={inputClass}>
+                  {financingOptions.map(option => <option key={option.id} value={option.id}>{option.name}</option>)}
+                </select>
+              </div>
+            )}
+            <div className="bg-blue-50 border border-blue-100 p-4 rounded-lg text-sm text-slate-700">
+              <h4 className="text-xs font-bold text-blue-600 uppercase tracking-wider mb-2">Homeowner</h4>
+              <div className="font-bold">{lead.name}</div>
+              <div className="text-slate-500">{lead.email || 'No email on file'} • {lead.address}</div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">Co-Homeowner (optional)</label>
+                <input value={coHomeownerName} onChange={(e) => setCoHomeownerName(e.target.value)} placeholder="Full name" className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">Co-Homeowner Email</label>
+                <input type="email" value={coHomeownerEmail} onChange={(e) => setCoHomeownerEmail(e.target.value)} disabled={!coHomeownerName.trim()} className={inputClass} />
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">Sales Representative</label>
+              <input value={rep} onChange={(e) => setRep(e.target.value)} className={inputClass} />
+            </div>
+          </div>
+        ) : signer ? (
+          /* SIGNING: one signer at a time, in order */
+          <div className="overflow-y-auto">
+            <div className="p-6 bg-slate-50 border-b border-slate-200 space-y-3">
+              <div className="text-[10px] text-slate-600 leading-relaxed text-justify max-h-48 overflow-y-auto space-y-2">
+                {contract.body.split(/\n\s*\n/).map((paragraph, i) => <p key={i}>{paragraph}</p>)}
+              </div>
+              <div className="flex items-center gap-2 text-[10px] text-slate-400 font-mono break-all">
+                <ShieldCheck size={12} className="flex-shrink-0 text-emerald-500" />
+                SHA-256 {contract.documentSha256}
+              </div>
             </div>
-        </div>
 
-        <div className="p-6 bg-white flex-1 flex flex-col items-center justify-center">
-             <div className="w-full relative">
-                 <div className="absolute top-0 left-0 bg-yellow-100 text-yellow-800 text-[10px] font-bold px-2 py-0.5 rounded-br">
-                    SIGN HERE
-                 </div>
-                 <canvas
-                    ref={canvasRef}
-                    width={600}
-                    height={200}
-                    className="border-2 border-dashed border-slate-300 rounded-lg w-full bg-white cursor-crosshair touch-none"
-                    onMouseDown={startDrawing}
-                    onMouseMove={draw}
-                    onMouseUp={stopDrawing}
-                    onMouseLeave={stopDrawing}
-                    onTouchStart={startDrawing}
-                    onTouchMove={draw}
-                    onTouchEnd={stopDrawing}
-                 />
-                 <div className="absolute bottom-4 left-4 text-slate-400 text-xs pointer-events-none select-none">
-                    x ___________________________________________
-                 </div>
-             </div>
-             
-             <div className="flex justify-between w-full mt-4">
-                 <button 
-                   onClick={clearCanvas} 
-                   className="flex items-center gap-2 text-slate-500 hover:text-red-500 text-sm font-medium transition-colors"
-                 >
-                    <Eraser size={16} /> Clear Signature
-                 </button>
-             </div>
-        </div>
+            <div className="p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="text-xs font-bold text-blue-600 uppercase tracking-wider">
+                    Signer {signerIndex + 1} of {contract.signers.length} • {ROLE_LABELS[signer.role]}
+                  </div>
+                  <div className="text-lg font-bold text-slate-900">{signer.name}</div>
+                </div>
+                <div className="flex gap-1">
+                  {contract.signers.map(s => (
+                    <span key={s.id} className={`w-2.5 h-2.5 rounded-full ${s.signedAt ? 'bg-emerald-500' : s.id === signer.id ? 'bg-blue-500' : 'bg-slate-300'}`} />
+                  ))}
+                </div>
+              </div>
+
+              <label className="flex items-start gap-2 text-xs text-slate-600 cursor-pointer">
+                <input type="checkbox" checked={consent} onChange={(e) => setConsent(e.target.checked)} className="mt-0.5" />
+                <span>{ESIGN_CONSENT_TEXT}</span>
+              </label>
+
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">Type your full name</label>
+                <input value={typedName} onChange={(e) => setTypedName(e.target.value)} placeholder={signer.name} className={inputClass} />
+              </div>
+
+              <div className="w-full relative">
+                <div className="absolute top-0 left-0 bg-yellow-100 text-yellow-800 text-[10px] font-bold px-2 py-0.5 rounded-br">
+                  SIGN HERE
+                </div>
+                <canvas
+                  ref={canvasRef}
+                  width={600}
+                  height={200}
+                  className="border-2 border-dashed border-slate-300 rounded-lg w-full bg-white cursor-crosshair touch-none"
+                  onMouseDown={startDrawing}
+                  onMouseMove={draw}
+                  onMouseUp={stopDrawing}
+                  onMouseLeave={stopDrawing}
+                  onTouchStart={startDrawing}
+                  onTouchMove={draw}
+                  onTouchEnd={stopDrawing}
+                />
+                <div className="absolute bottom-4 left-4 text-slate-400 text-xs pointer-events-none select-none">
+                  x ___________________________________________
+                </div>
+              </div>
+
+              <button
+                onClick={clearCanvas}
+                className="flex items-center gap-2 text-slate-500 hover:text-red-500 text-sm font-medium transition-colors"
+              >
+                <Eraser size={16} /> Clear Signature
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="p-10 flex flex-col items-center text-center gap-3">
+            <CheckCircle2 size={40} className="text-emerald-500" />
+            <div className="text-lg font-bold text-slate-900">
+              {contract.status === 'completed' ? 'All parties have signed' : 'This contract is no longer open'}
+            </div>
+            <p className="text-sm text-slate-500">The signed PDF with its certificate of completion is stored with the lead.</p>
+          </div>
+        )}
 
         <div className="p-6 border-t border-slate-200 bg-slate-50 flex justify-end gap-3">
-             <button 
+             <button
                 onClick={onClose}
                 className="px-6 py-3 rounded-lg border border-slate-300 text-slate-600 font-bold hover:bg-white transition-colors"
              >
-                Cancel
-             </button>
-             <button 
-                onClick={handleSave}
-                disabled={!hasSignature}
-                className="px-6 py-3 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-bold shadow-lg shadow-blue-500/20 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 transition-all"
-             >
-                <PenTool size={18} />
-                Confirm & Sign Deal
+                {contract && !signer ? 'Close' : 'Cancel'}
              </button>
+             {!contract && (
+               <button
+                  onClick={handlePrepare}
+                  disabled={isBusy || !proposal || !rep.trim() || templates.templates.length === 0}
+                  className="px-6 py-3 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-bold shadow-lg shadow-blue-500/20 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 transition-all"
+               >
+                  {isBusy ? <Loader2 size={18} className="animate-spin" /> : <ShieldCheck size={18} />}
+                  Prepare Agreement
+               </button>
+             )}
+             {contract && signer && (
+               <button
+                  onClick={handleSign}
+                  disabled={isBusy || !consent || !typedName.trim() || !hasSignature}
+                  className="px-6 py-3 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-bold shadow-lg shadow-blue-500/20 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 transition-all"
+               >
+                  {isBusy ? <Loader2 size={18} className="animate-spin" /> : <PenTool size={18} />}
+                  {signerIndex === contract.signers.length - 1 ? 'Sign & Complete' : 'Sign & Continue'}
+               </button>
+             )}
         </div>
       </div>
     </div>
@@ -0,0 +1,84 @@
+// components/SiteSurveyPanel.tsx
+// Site survey checklist for one project, laid out for a surveyor's phone:
+// one column, large touch targets and camera capture for the required photos
+
+import React from 'react';
+import { ClipboardCheck, CheckCircle2 } from 'lucide-react';
+import type { SiteSurveyRecord } from '../types';
+import type { CustomField } from '../services/customFields';
+import { emptySurvey, setSurveyValue, surveyErrors, surveyValue } from '../services/siteSurvey';
+import CustomFieldRenderer from './CustomFieldRenderer';
+
+interface SiteSurveyPanelProps {
+  survey?: SiteSurveyRecord;
+  fields: CustomField[];
+  onChange: (survey: SiteSurveyRecord) => void;
+}
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const SiteSurveyPanel: React.FC<SiteSurveyPanelProps> = ({ survey, fields, onChange }) => {
+  const errors = surveyErrors(survey, fields);
+  const required = fields.filter(f => f.required);
+  const done = required.filter(f => !errors[f.key]).length;
+
+  if (fields.length === 0) {
+    return (
+      <div className="mt-4 p-4 bg-slate-900/60 border border-slate-800 rounded-lg text-sm text-slate-400">
+        <ClipboardCheck size={14} className="inline mr-2 text-slate-500" />
+        No site survey checklist. Add Site Survey fields in Company Settings → Custom Fields.
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-4 p-4 bg-slate-900/60 border border-slate-800 rounded-lg space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <ClipboardCheck size={14} className="text-slate-500" />
+        <span className="text-sm text-slate-300">
+          {done}/{required.length} required items done
+        </span>
+        {survey?.completedAt && (
+          <span className="px-2 py-1 text-xs rounded bg-emerald-900/60 text-emerald-300 flex items-center gap-1">
+            <CheckCircle2 size={10} /> Complete
+          </span>
+        )}
+        <input
+          type="text"
+          value={survey?.surveyor || ''}
+          onChange={(e) => onChange({ ...(survey || emptySurvey()), surveyor: e.target.value, updatedAt: new Date().toISOString() })}
+          placeholder="Surveyor"
+          className="w-full sm:w-48 sm:ml-auto bg-slate-950 border border-slate-700 rounded-lg px-3 py-2.5 text-white text-sm focus:outline-none focus:border-blue-500"
+          aria-label="Surveyor"
+        />
+      </div>
+
+      <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-emerald-500/70 transition-all"
+          style={{ width: `${required.length > 0 ? (done / required.length) * 100 : 100}%` }}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {fields.map(field => {
+          const value = surveyValue(survey, field);
+          // Missing items are marked required already; only flag bad measurements
+          return (
+            <div key={field.id} className={field.type === 'photo' || field.type === 'textarea' ? 'sm:col-span-2' : ''}>
+              <CustomFieldRenderer
+                field={field}
+                value={value}
+                onChange={(_, next) => onChange(setSurveyValue(survey, fields, field, next))}
+                error={isEmpty(value) ? undefined : errors[field.key]}
+              />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SiteSurveyPanel;
@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { Activity, Upload, Pencil, Save, X, AlertTriangle } from 'lucide-react';
+import { Lead, UsageSource } from '../types';
+import { importGreenButton, toUsageHistory, annualUsageKwh, MONTH_NAMES } from '../services/usageImport';
+
+interface UsageImportPanelProps {
+  lead: Lead;
+  onUpdateLead?: (lead: Lead) => void;
+}
+
+const SOURCE_LABELS: Record<UsageSource, string> = {
+  green_button_xml: 'Green Button XML',
+  green_button_csv: 'Green Button CSV',
+  manual: 'Entered manually',
+};
+
+/**
+ * 12-month usage for a lead: shows what's on file and lets a rep import a
+ * Green Button export or key in monthly kWh. Solar analysis sizes against it.
+ */
+export const UsageImportPanel: React.FC<UsageImportPanelProps> = ({ lead, onUpdateLead }) => {
+  const history = lead.usageHistory;
+  const [editing, setEditing] = useState(false);
+  const [grid, setGrid] = useState<(number | null)[]>(() => history?.monthlyKwh ?? new Array(12).fill(null));
+  const [source, setSource] = useState<UsageSource>(history?.source ?? 'manual');
+  const [period, setPeriod] = useState<{ periodStart: string; periodEnd: string } | undefined>();
+  const [offset, setOffset] = useState<string>(lead.targetOffsetPct?.toString() ?? '');
+  const [error, setError] = useState<string | null>(null);
+
+  const startEditing = () => {
+    setGrid(history?.monthlyKwh ?? new Array(12).fill(null));
+    setSource(history?.source ?? 'manual');
+    setPeriod(undefined);
+    setOffset(lead.targetOffsetPct?.toString() ?? '');
+    setError(null);
+    setEditing(true);
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const result = importGreenButton(event.target?.result as string);
+        setGrid(result.monthlyKwh);
+        setSource(result.source);
+        setPeriod({ periodStart: result.periodStart, periodEnd: result.periodEnd });
+        setError(result.monthlyKwh.includes(null)
+          ? 'Some months had no readings in the export — fill them in before saving.'
+          : null);
+        setEditing(true);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Could not read the file');
+      }
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const handleSave = () => {
+    if (!onUpdateLead) return;
+    try {
+      const usageHistory = toUsageHistory(grid, source, period);
+      const targetOffsetPct = offset.trim() === '' ? undefined : Number(offset);
+      if (targetOffsetPct !== undefined && (Number.isNaN(targetOffsetPct) || targetOffsetPct < 10 || targetOffsetPct > 200)) {
+        setError('Target offset must be between 10% and 200%');
+        return;
+      }
+      onUpdateLead({ ...lead, usageHistory, targetOffsetPct });
+      setEditing(false);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save usage');
+    }
+  };
+
+  const handleClear = () => {
+    if (!onUpdateLead) return;
+    onUpdateLead({ ...lead, usageHistory: undefined, targetOffsetPct: undefined });
+    setEditing(false);
+  };
+
+  const peak = Math.max(1, ...(history?.monthlyKwh ?? []));
+
+  return (
+    <div className="glass-panel p-4 rounded-xl border border-slate-800">
+      <div className="flex items-start gap-3">
+        <div className="p-2 bg-cyan-500/10 rounded-lg">
+          <Activity size={16} className="text-cyan-400" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between">
+            <p className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">12-Month Usage</p>
+            {onUpdateLead && !editing && (
+              <div className="flex items-center gap-1">
+                <label
+                  className="text-[10px] px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-slate-300 cursor-pointer flex items-center gap-1"
+                  title="Import a Green Button XML or CSV export"
+                >
+                  <Upload size={10} /> Import
+                  <input type="file" accept=".xml,.csv" onChange={handleFileUpload} className="hidden" />
+                </label>
+                <button
+                  onClick={startEditing}
+                  className="text-[10px] px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-slate-300 flex items-center gap-1"
+                >
+                  <Pencil size={10} /> {history ? 'Edit' : 'Enter'}
+                </button>
+              </div>
+            )}
+          </div>
+
+          {!editing && history && (
+            <div className="mt-2">
+              <div className="flex items-end gap-0.5 h-10">
+                {history.monthlyKwh.map((kwh, i) => (
+                  <div
+                    key={i}
+                    className="flex-1 bg-cyan-500/60 rounded-t-sm"
+                    style={{ height: `${(kwh / peak) * 100}%` }}
+                    title={`${MONTH_NAMES[i]}: ${kwh.toLocaleString()} kWh`}
+                  />
+                ))}
+              </div>
+              <p className="text-slate-200 font-mono mt-1">
+                {annualUsageKwh(history).toLocaleString()} <span className="text-xs text-slate-500">kWh/yr</span>
+              </p>
+              <p className="text-[10px] text-slate-500">
+                {SOURCE_LABELS[history.source]}
+                {history.periodStart && history.periodEnd && ` • ${history.periodStart.slice(0, 7)} to ${history.periodEnd.slice(0, 7)}`}
+                {lead.targetOffsetPct !== undefined && ` • sizing for ${lead.targetOffsetPct}% offset`}
+              </p>
+            </div>
+          )}
+
+          {!editing && !history && (
+            <p className="text-slate-500 text-sm mt-0.5">No usage on file — sizing is estimated from the monthly bill.</p>
+          )}
+
+          {editing && (
+            <div className="mt-2 space-y-2">
+              <div className="grid grid-cols-4 gap-1.5">
+                {MONTH_NAMES.map((name, i) => (
+                  <label key={name} className="text-[10px] text-slate-500">
+                    {name}
+                    <input
+                      type="number"
+                      min={0}
+                      value={grid[i] ?? ''}
+                      onChange={e => {
+                        const next = [...grid];
+                        next[i] = e.target.value === '' ? null : Number(e.target.value);
+                        setGrid(next);
+                      }}
+                      className="w-full bg-slate-800 border border-slate-700 rounded px-1.5 py-1 text-xs text-slate-200 font-mono"
+                    />
+                  </label>
+                ))}
+              </div>
+              <label className="text-[10px] text-slate-500 block">
+                Target offset % (blank = company default)
+                <input
+                  type="number"
+                  min={10}
+                  max={200}
+                  value={offset}
+                  onChange={e => setOffset(e.target.value)}
+                  className="w-full bg-slate-800 border border-slate-700 rounded px-1.5 py-1 text-xs text-slate-200 font-mono"
+                />
+              </label>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={handleSave}
+                  className="text-xs px-3 py-1.5 rounded-lg bg-cyan-600 hover:bg-cyan-500 text-white font-bold flex items-center gap-1"
+                >
+                  <Save size={12} /> Save
+                </button>
+                <button
+                  onClick={() => { setEditing(false); setError(null); }}
+                  className="text-xs px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 flex items-center gap-1"
+                >
+                  <X size={12} /> Cancel
+                </button>
+                {history && (
+                  <button onClick={handleClear} className="text-xs text-red-400 hover:text-red-300 ml-auto">
+                    Remove usage
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <p className="text-[11px] text-amber-400 mt-2 flex items-start gap-1">
+              <AlertTriangle size={12} className="mt-0.5 shrink-0" /> {error}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -4,6 +4,7 @@ import { User, MapPin, Briefcase, Save, CheckCircle2, Shield, Camera, Key } from
 import { UserProfile } from '../types';
 import { save } from '../utils/storage';
 import { AVATAR_OPTIONS } from '../constants';
+import { ServerSessionCard } from './ServerSessionCard';
 
 interface UserProfileProps {
   profile: UserProfile;
@@ -195,6 +196,8 @@ export const UserProfileView: React.FC<UserProfileProps> = ({ profile, onUpdate
             </form>
         </div>
       </div>
+
+      <ServerSessionCard />
     </div>
   );
 };
@@ -1,12 +1,16 @@
 
 import type {
   Commission,
+  FinancingType,
   Lead,
   Project,
   ProjectStage,
+  Rep,
   SolarAnalysis,
   ChartDataPoint,
 } from "./types";
+import { equipmentForSystem, type EquipmentCatalog } from "./services/equipmentCatalog";
+import { findManagerId } from "./services/commissionEngine";
 
 export const PROJECT_STAGES: ProjectStage[] = [
   "SITE_SURVEY",
@@ -26,16 +30,6 @@ export const STAGE_LABELS: Record<ProjectStage, string> = {
   PTO: "PTO",
 };
 
-export const COMMISSION_SCHEDULE: Record<ProjectStage | "SIGNED", number> = {
-  SIGNED: 200,
-  SITE_SURVEY: 50,
-  DESIGN: 0,
-  PERMITTING: 100,
-  INSTALL: 300,
-  INSPECTION: 150,
-  PTO: 200,
-};
-
 export const AVATAR_OPTIONS = [
   { id: 'avatar-1', gradient: 'bg-gradient-to-br from-blue-500 to-cyan-400', label: 'Cyan' },
   { id: 'avatar-2', gradient: 'bg-gradient-to-br from-emerald-500 to-green-400', label: 'Emerald' },
@@ -213,43 +207,28 @@ export const MOCK_PROJECTS = SEED_PROJECTS;
 export const MOCK_COMMISSIONS = SEED_COMMISSIONS;
 export const MOCK_SOLAR_ANALYSIS = SEED_ANALYSES;
 
-export function createProjectForLead(lead: Lead, analysis: SolarAnalysis): Project {
-  const idSuffix = Math.floor(Math.random() * 999)
-    .toString()
-    .padStart(3, "0");
+export function createProjectForLead(
+  lead: Lead,
+  analysis: SolarAnalysis,
+  catalog?: EquipmentCatalog,
+  reps: Rep[] = [],
+  financingType?: FinancingType // From the signed contract; picks the commission tier
+): Project {
   const today = new Date().toISOString().slice(0, 10);
+  // Leads name their rep; projects and commissions key reps by ID
+  const closerId = reps.find(r => r.name === lead.assignedTo)?.id ?? null;
   return {
-    id: `P-${idSuffix}`,
+    id: `P-${Date.now().toString(36).toUpperCase()}`,
     leadId: lead.id,
     stage: "SITE_SURVEY",
     kW: analysis.systemSizeKw,
+    equipment: analysis.equipment ?? equipmentForSystem(analysis.systemSizeKw, analysis.design, catalog),
+    contractPrice: analysis.systemCost,
+    financingType,
+    closerId,
+    setterId: lead.setterId ?? null,
+    managerId: findManagerId(closerId, reps),
     createdAt: today,
     lastUpdated: today,
   };
 }
-
-export function generateMilestoneCommissions(project: Project): Commission[] {
-  const today = new Date();
-  const baseDate = new Date(today.getTime());
-  const scheduleOrder: (ProjectStage | "SIGNED")[] = [
-    "SIGNED",
-    "SITE_SURVEY",
-    "PERMITTING",
-    "INSTALL",
-    "INSPECTION",
-    "PTO",
-  ];
-
-  return scheduleOrder.map((milestone, index) => {
-    const d = new Date(baseDate.getTime());
-    d.setDate(d.getDate() + index * 3);
-    return {
-      id: `${project.id}-${milestone}`,
-      leadId: project.leadId,
-      amountUsd: COMMISSION_SCHEDULE[milestone],
-      status: "PENDING",
-      milestone,
-      expectedPayDate: d.toISOString().slice(0, 10),
-    };
-  });
-}
@@ -1,8 +1,8 @@
 /**
- * Mock API Endpoint: /api/analytics
+ * API Endpoint: /api/analytics
  * 
- * This file provides mock REST endpoint handlers for analytics data.
- * Designed to mirror a real backend API structure for easy migration.
+ * This file provides REST endpoint handlers for analytics data.
+ * Aggregates data fetched from the api/ handlers via services/api.ts.
  */
 
 import { analyticsApi, ApiResponse } from '../../services/api';
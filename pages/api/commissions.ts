@@ -1,8 +1,8 @@
 /**
- * Mock API Endpoint: /api/commissions
+ * API Endpoint: /api/commissions
  * 
- * This file provides mock REST endpoint handlers for commissions.
- * Designed to mirror a real backend API structure for easy migration.
+ * This file provides REST endpoint handlers for commissions.
+ * Requests are served by the matching api/ handler via services/api.ts.
  */
 
 import { commissionsApi, Commission, ApiResponse, CommissionFilters } from '../../services/api';
@@ -88,13 +88,13 @@ export const commissionsEndpoint = {
   bulkApprove: (ids: string[]) => handleCommissionsRequest({ method: 'PATCH', ids, action: 'bulkApprove' }),
   
   // Convenience: Get pending commissions
-  getPending: () => handleCommissionsRequest({ method: 'GET', params: { status: 'pending' } }),
+  getPending: () => handleCommissionsRequest({ method: 'GET', params: { status: 'PENDING' } }),
   
   // Convenience: Get approved commissions
-  getApproved: () => handleCommissionsRequest({ method: 'GET', params: { status: 'approved' } }),
+  getApproved: () => handleCommissionsRequest({ method: 'GET', params: { status: 'APPROVED' } }),
   
   // Convenience: Get paid commissions
-  getPaid: () => handleCommissionsRequest({ method: 'GET', params: { status: 'paid' } }),
+  getPaid: () => handleCommissionsRequest({ method: 'GET', params: { status: 'PAID' } }),
   
   // Convenience: Get commissions by rep
   getByRep: (repId: string) => handleCommissionsRequest({ method: 'GET', params: { repId } })
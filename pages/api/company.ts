@@ -1,8 +1,8 @@
 /**
- * Mock API Endpoint: /api/company
+ * API Endpoint: /api/company
  * 
- * This file provides mock REST endpoint handlers for company data.
- * Designed to mirror a real backend API structure for easy migration.
+ * This file provides REST endpoint handlers for company data.
+ * Requests are served by the matching api/ handler via services/api.ts.
  */
 
 import { companyApi, ApiResponse } from '../../services/api';
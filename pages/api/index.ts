@@ -1,7 +1,7 @@
 /**
  * API Endpoints Index
  * 
- * Central export for all mock API endpoints.
+ * Central export for all API endpoints.
  * Import from here for a unified API experience.
  * 
  * Usage:
@@ -1,8 +1,8 @@
 /**
- * Mock API Endpoint: /api/installers
+ * API Endpoint: /api/installers
  * 
- * This file provides mock REST endpoint handlers for installers.
- * Designed to mirror a real backend API structure for easy migration.
+ * This file provides REST endpoint handlers for installers.
+ * Requests are served by the matching api/ handler via services/api.ts.
  */
 
 import { installersApi, ApiResponse } from '../../services/api';
@@ -1,8 +1,8 @@
 /**
- * Mock API Endpoint: /api/leads
+ * API Endpoint: /api/leads
  * 
- * This file provides mock REST endpoint handlers for leads.
- * Designed to mirror a real backend API structure for easy migration.
+ * This file provides REST endpoint handlers for leads.
+ * Requests are served by the matching api/ handler via services/api.ts.
  * 
  * Usage in components:
  *   import { handleLeadsRequest } from '../pages/api/leads';
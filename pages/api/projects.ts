@@ -1,8 +1,8 @@
 /**
- * Mock API Endpoint: /api/projects
+ * API Endpoint: /api/projects
  * 
- * This file provides mock REST endpoint handlers for projects.
- * Designed to mirror a real backend API structure for easy migration.
+ * This file provides REST endpoint handlers for projects.
+ * Requests are served by the matching api/ handler via services/api.ts.
  */
 
 import { projectsApi, ApiResponse, ProjectFilters } from '../../services/api';
@@ -1,8 +1,8 @@
 /**
- * Mock API Endpoint: /api/reps
+ * API Endpoint: /api/reps
  * 
- * This file provides mock REST endpoint handlers for sales reps.
- * Designed to mirror a real backend API structure for easy migration.
+ * This file provides REST endpoint handlers for sales reps.
+ * Requests are served by the matching api/ handler via services/api.ts.
  */
 
 import { repsApi, ApiResponse } from '../../services/api';
@@ -0,0 +1,866 @@
+// schema.ts
+// Runtime validators for the shared domain types in types.ts.
+// Used by the React app before sending data and by every api/ handler before
+// persisting it, so a payload that doesn't match the types is rejected with
+// field-level errors instead of being stored as-is.
+
+import type {
+  Lead,
+  LeadRouting,
+  LeadActivity,
+  Project,
+  ProjectStage,
+  SolarAnalysis,
+  ComplianceAnalysis,
+  Commission,
+  CommissionStatus,
+  Rep,
+  RepPayoutAccount,
+  Installer,
+  Crew,
+  FinancingOption,
+  UsageHistory,
+  RoofFace,
+  RoofObstruction,
+  PanelPlacement,
+  SystemDesign,
+  PlaneProduction,
+  ProjectEquipment,
+  PermitRecord,
+  PermitCycle,
+  PermitDocument,
+  InterconnectionRecord,
+  InterconnectionLetter,
+  SiteSurveyRecord,
+  SurveyPhoto,
+  ProposalBrand,
+  SignatureStroke,
+  ContractParty,
+} from './types';
+import type {
+  PricingConfig,
+  PriceBand,
+  PricingAdder,
+  LoanProduct,
+  LeaseProduct,
+  PpaProduct,
+} from './services/financialEngine';
+import type { RoofPlane } from './services/productionModel';
+import type { EquipmentCatalog, PvModule, Inverter, Battery } from './services/equipmentCatalog';
+import type { ContractTemplate, ContractTemplateConfig } from './services/contractTemplates';
+import type { AchOriginator } from './services/payoutBatches';
+import type {
+  CommissionRules,
+  CommissionTier,
+  CommissionBonus,
+  BonusConditionNode,
+  PayoutStep,
+  CommissionSplit,
+  ManagerOverride,
+  RedlinePay,
+  ClawbackPolicy,
+} from './services/commissionRules';
+import type { LeadPipelineConfig, LeadStatusConfig } from './services/leadStatuses';
+import type { PipelineStage } from './services/pipelineStages';
+import type { AppointmentSettings, AssignmentRule, AvailabilityWindow } from './services/appointmentBooking';
+import type { WeatherHold } from './services/installSchedule';
+
+// ============================================================================
+// VALIDATOR PRIMITIVES
+// ============================================================================
+
+export interface FieldError {
+  path: string;
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T; errors?: undefined }
+  | { ok: false; value?: undefined; errors: FieldError[] };
+
+export interface Validator<T> {
+  optional: boolean;
+  // Returns the cleaned value; pushes to `errors` when the input is invalid
+  check(input: unknown, path: string, errors: FieldError[]): T;
+}
+
+// Every key of T must have a validator, so a field added to types.ts without a
+// matching validator fails to compile instead of being dropped at runtime
+export type Shape<T> = { [K in keyof T]-?: Validator<T[K]> };
+
+export interface ObjectValidator<T> extends Validator<T> {
+  shape: Shape<T>;
+  partial(): Validator<Partial<T>>;
+}
+
+function describe(input: unknown): string {
+  if (input === null) return 'null';
+  if (Array.isArray(input)) return 'array';
+  return typeof input;
+}
+
+function validator<T>(check: Validator<T>['check']): Validator<T> {
+  return { optional: false, check };
+}
+
+export function string(options: { nonEmpty?: boolean } = {}): Validator<string> {
+  return validator((input, path, errors) => {
+    if (typeof input !== 'string') {
+      errors.push({ path, message: `Expected string, received ${describe(input)}` });
+    } else if (options.nonEmpty && !input.trim()) {
+      errors.push({ path, message: 'Must not be empty' });
+    }
+    return input as string;
+  });
+}
+
+export function number(options: { min?: number; max?: number } = {}): Validator<number> {
+  return validator((input, path, errors) => {
+    if (typeof input !== 'number' || !Number.isFinite(input)) {
+      errors.push({ path, message: `Expected number, received ${describe(input)}` });
+    } else if (options.min !== undefined && input < options.min) {
+      errors.push({ path, message: `Must be at least ${options.min}` });
+    } else if (options.max !== undefined && input > options.max) {
+      errors.push({ path, message: `Must be at most ${options.max}` });
+    }
+    return input as number;
+  });
+}
+
+export function boolean(): Validator<boolean> {
+  return validator((input, path, errors) => {
+    if (typeof input !== 'boolean') {
+      errors.push({ path, message: `Expected boolean, received ${describe(input)}` });
+    }
+    return input as boolean;
+  });
+}
+
+// ISO-8601 date or date-time string
+export function isoDate(): Validator<string> {
+  return validator((input, path, errors) => {
+    if (typeof input !== 'string' || Number.isNaN(Date.parse(input))) {
+      errors.push({ path, message: 'Expected ISO date string' });
+    }
+    return input as string;
+  });
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Validator<T> {
+  return validator((input, path, errors) => {
+    if (!values.includes(input as T)) {
+      errors.push({ path, message: `Expected one of ${values.join(', ')}` });
+    }
+    return input as T;
+  });
+}
+
+export function unknownValue<T = any>(): Validator<T> {
+  return validator(input => input as T);
+}
+
+export function array<T>(item: Validator<T>, opts: { length?: number } = {}): Validator<T[]> {
+  return validator((input, path, errors) => {
+    if (!Array.isArray(input)) {
+      errors.push({ path, message: `Expected array, received ${describe(input)}` });
+      return input as T[];
+    }
+    if (opts.length !== undefined && input.length !== opts.length) {
+      errors.push({ path, message: `Expected ${opts.length} items, received ${input.length}` });
+    }
+    return input.map((value, index) => item.check(value, `${path}[${index}]`, errors));
+  });
+}
+
+export function record<T>(item: Validator<T>): Validator<Record<string, T>> {
+  return validator((input, path, errors) => {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      errors.push({ path, message: `Expected object, received ${describe(input)}` });
+      return input as Record<string, T>;
+    }
+    const result: Record<string, T> = {};
+    Object.entries(input).forEach(([key, value]) => {
+      result[key] = item.check(value, `${path}.${key}`, errors);
+    });
+    return result;
+  });
+}
+
+export function optional<T>(inner: Validator<T>): Validator<T | undefined> {
+  return {
+    optional: true,
+    check: (input, path, errors) => (input === undefined ? undefined : inner.check(input, path, errors)),
+  };
+}
+
+export function nullable<T>(inner: Validator<T>): Validator<T | null> {
+  return {
+    optional: inner.optional,
+    check: (input, path, errors) => (input === null ? null : inner.check(input, path, errors)),
+  };
+}
+
+function checkObject<T>(shape: Shape<T>, allOptional: boolean) {
+  return (input: unknown, path: string, errors: FieldError[]): T => {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      errors.push({ path: path || '(root)', message: `Expected object, received ${describe(input)}` });
+      return input as T;
+    }
+    // Unknown keys are stripped so stale or injected fields never reach storage
+    const source = input as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    (Object.keys(shape) as (keyof T & string)[]).forEach(key => {
+      const field = shape[key];
+      const fieldPath = path ? `${path}.${key}` : key;
+      if (source[key] === undefined) {
+        if (!field.optional && !allOptional) {
+          errors.push({ path: fieldPath, message: 'Required' });
+        }
+        return;
+      }
+      result[key] = field.check(source[key], fieldPath, errors);
+    });
+    return result as T;
+  };
+}
+
+export function object<T>(shape: Shape<T>): ObjectValidator<T> {
+  return {
+    optional: false,
+    shape,
+    check: checkObject(shape, false),
+    partial: () => validator(checkObject(shape, true) as Validator<Partial<T>>['check']),
+  };
+}
+
+/**
+ * Run a validator against untrusted input
+ */
+export function validate<T>(schema: Validator<T>, input: unknown): ValidationResult<T> {
+  const errors: FieldError[] = [];
+  const value = schema.check(input, '', errors);
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value };
+}
+
+/**
+ * Format field errors as a single line for toasts and logs
+ */
+export function formatErrors(errors: FieldError[]): string {
+  return errors.map(e => `${e.path}: ${e.message}`).join('; ');
+}
+
+// ============================================================================
+// DOMAIN SCHEMAS
+// ============================================================================
+
+export const PROJECT_STAGES: readonly ProjectStage[] = [
+  'SITE_SURVEY',
+  'DESIGN',
+  'PERMITTING',
+  'INSTALL',
+  'INSPECTION',
+  'PTO',
+];
+
+export const COMMISSION_STATUSES: readonly CommissionStatus[] = ['PENDING', 'APPROVED', 'PAID', 'CANCELLED'];
+
+export const LeadRoutingSchema = object<LeadRouting>({
+  score: number({ min: 0, max: 100 }),
+  quality: oneOf(['HOT', 'WARM', 'COLD'] as const),
+  recommendedAgentType: string(),
+  reasoning: string(),
+});
+
+export const UsageHistorySchema = object<UsageHistory>({
+  monthlyKwh: array(number({ min: 0 }), { length: 12 }),
+  source: oneOf(['green_button_xml', 'green_button_csv', 'manual'] as const),
+  importedAt: isoDate(),
+  periodStart: optional(isoDate()),
+  periodEnd: optional(isoDate()),
+});
+
+export const LeadActivitySchema = object<LeadActivity>({
+  id: string({ nonEmpty: true }),
+  type: oneOf(['call', 'sms', 'email', 'door_knock', 'appointment', 'note'] as const),
+  occurredAt: isoDate(),
+  authorId: string(),
+  authorName: string(),
+  body: optional(string()),
+  outcome: optional(oneOf(['connected', 'voicemail', 'no_answer', 'wrong_number', 'do_not_call'] as const)),
+  direction: optional(oneOf(['inbound', 'outbound'] as const)),
+  appointmentAt: optional(isoDate()),
+});
+
+export const LeadSchema = object<Lead>({
+  id: string({ nonEmpty: true }),
+  name: string({ nonEmpty: true }),
+  address: string({ nonEmpty: true }),
+  email: optional(string()),
+  phone: optional(string()),
+  notes: optional(string()),
+  status: string({ nonEmpty: true }), // Per-company statuses, see services/leadPipeline.ts
+  lostReason: optional(string()),
+  estimatedBill: optional(number({ min: 0 })),
+  ratePlanId: optional(string()),
+  usageHistory: optional(UsageHistorySchema),
+  targetOffsetPct: optional(number({ min: 10, max: 200 })),
+  age: optional(number({ min: 0 })),
+  createdAt: isoDate(),
+  routing: optional(LeadRoutingSchema),
+  aiScore: optional(number({ min: 0, max: 100 })),
+  aiTags: optional(array(string())),
+  priority: optional(oneOf(['low', 'medium', 'high'] as const)),
+  assignedTo: optional(nullable(string())),
+  companyId: optional(string()),
+  customFields: optional(record(unknownValue())),
+  signedContractId: optional(string()),
+  setterId: optional(nullable(string())),
+  activities: optional(array(LeadActivitySchema)),
+});
+
+export const ProjectEquipmentSchema = object<ProjectEquipment>({
+  moduleId: string({ nonEmpty: true }),
+  moduleName: string(),
+  moduleWatts: number({ min: 0 }),
+  moduleQty: number({ min: 0 }),
+  inverterId: string({ nonEmpty: true }),
+  inverterName: string(),
+  inverterKind: oneOf(['string', 'micro'] as const),
+  inverterQty: number({ min: 0 }),
+  dcAcRatio: number({ min: 0 }),
+  batteryId: optional(string()),
+  batteryName: optional(string()),
+  batteryQty: number({ min: 0 }),
+  equipmentCost: number({ min: 0 }),
+});
+
+export const PermitRecordSchema = object<PermitRecord>({
+  ahjId: string(),
+  ahjName: string(),
+  status: oneOf(['not_submitted', 'submitted', 'corrections_requested', 'approved'] as const),
+  documents: array(object<PermitDocument>({
+    label: string({ nonEmpty: true }),
+    received: boolean(),
+  })),
+  cycles: array(object<PermitCycle>({
+    submittedAt: isoDate(),
+    correctionsRequestedAt: optional(isoDate()),
+    corrections: optional(string()),
+  })),
+  permitNumber: optional(string()),
+  feesUsd: optional(number({ min: 0 })),
+  approvedAt: optional(isoDate()),
+});
+
+const InterconnectionLetterSchema = object<InterconnectionLetter>({
+  fileName: string({ nonEmpty: true }),
+  mimeType: string(),
+  fileId: string({ nonEmpty: true }),
+  uploadedAt: isoDate(),
+});
+
+export const SiteSurveySchema = object<SiteSurveyRecord>({
+  values: record(unknownValue()),
+  photos: record(array(object<SurveyPhoto>({
+    fileName: string({ nonEmpty: true }),
+    fileId: string({ nonEmpty: true }),
+    takenAt: isoDate(),
+  }))),
+  surveyor: optional(string()),
+  updatedAt: isoDate(),
+  completedAt: optional(isoDate()),
+});
+
+export const InterconnectionRecordSchema = object<InterconnectionRecord>({
+  utility: string(),
+  applicationId: optional(string()),
+  nemProgram: oneOf(['NEM2', 'NEM3', 'NONE'] as const),
+  status: oneOf(['not_submitted', 'submitted', 'rejected', 'approved', 'meter_swapped', 'pto_granted'] as const),
+  submittedAt: optional(isoDate()),
+  rejectedReason: optional(string()),
+  approvedAt: optional(isoDate()),
+  meterSwapDate: optional(isoDate()),
+  ptoGrantedAt: optional(isoDate()),
+  approvalLetter: optional(InterconnectionLetterSchema),
+  ptoLetter: optional(InterconnectionLetterSchema),
+});
+
+export const ProjectSchema = object<Project>({
+  id: string({ nonEmpty: true }),
+  leadId: string({ nonEmpty: true }),
+  stage: string({ nonEmpty: true }), // Per-company stages, see services/pipelineConfig.ts
+  kW: number({ min: 0 }),
+  createdAt: isoDate(),
+  lastUpdated: isoDate(),
+  targetDates: optional(record(isoDate())),
+  actualDates: optional(record(isoDate())),
+  slaStatus: optional(oneOf(['onTrack', 'atRisk', 'late'] as const)),
+  installerName: optional(string()),
+  installerId: optional(string()),
+  equipment: optional(ProjectEquipmentSchema),
+  siteSurvey: optional(SiteSurveySchema),
+  permit: optional(PermitRecordSchema),
+  interconnection: optional(InterconnectionRecordSchema),
+  contractPrice: optional(number({ min: 0 })),
+  financingType: optional(oneOf(['cash', 'loan', 'lease', 'ppa'] as const)),
+  closerId: optional(nullable(string())),
+  setterId: optional(nullable(string())),
+  managerId: optional(nullable(string())),
+  cancelledAt: optional(isoDate()),
+  cancelReason: optional(string()),
+  companyId: optional(string()),
+});
+
+export const FinancingOptionSchema = object<FinancingOption>({
+  id: string({ nonEmpty: true }),
+  type: oneOf(['cash', 'loan', 'lease', 'ppa'] as const),
+  name: string(),
+  upfrontCost: number(),
+  monthlyPayment: number(),
+  escalatorPct: number(),
+  termYears: number({ min: 0 }),
+  totalCost25: number(),
+  netSavings25: number(),
+  paybackYear: nullable(number()),
+  irr: nullable(number()),
+});
+
+export const SystemDesignSchema = object<SystemDesign>({
+  moduleId: string({ nonEmpty: true }),
+  inverterId: optional(string()),
+  batteryId: optional(string()),
+  batteryQty: optional(number({ min: 0, max: 10 })),
+  faces: array(object<RoofFace>({
+    id: string({ nonEmpty: true }),
+    name: string(),
+    widthFt: number({ min: 0, max: 500 }),
+    heightFt: number({ min: 0, max: 500 }),
+    pitch: number({ min: 0, max: 24 }),
+    azimuthDeg: number({ min: 0, max: 360 }),
+    shadingPct: number({ min: 0, max: 100 }),
+    setbackFt: number({ min: 0, max: 50 }),
+    orientation: oneOf(['portrait', 'landscape'] as const),
+    obstructions: array(object<RoofObstruction>({
+      id: string({ nonEmpty: true }),
+      label: string(),
+      xFt: number({ min: 0 }),
+      yFt: number({ min: 0 }),
+      widthFt: number({ min: 0 }),
+      heightFt: number({ min: 0 }),
+    })),
+    panels: array(object<PanelPlacement>({
+      xFt: number({ min: 0 }),
+      yFt: number({ min: 0 }),
+    })),
+  })),
+});
+
+export const SolarAnalysisSchema = object<SolarAnalysis>({
+  leadId: string({ nonEmpty: true }),
+  roofPitch: string(),
+  usableAreaSqft: number({ min: 0 }),
+  sunHoursPerDay: number({ min: 0, max: 24 }),
+  systemSizeKw: number({ min: 0 }),
+  viabilityScore: number({ min: 0, max: 100 }),
+  summary: string(),
+  groundingUrls: optional(array(string())),
+  azimuthDeg: optional(number({ min: 0, max: 360 })),
+  shadingPct: optional(number({ min: 0, max: 100 })),
+  weatherStation: optional(string()),
+  monthlyProductionKwh: optional(array(number({ min: 0 }), { length: 12 })),
+  annualProductionKwh: optional(number({ min: 0 })),
+  specificYield: optional(number({ min: 0 })),
+  design: optional(SystemDesignSchema),
+  planeProduction: optional(array(object<PlaneProduction>({
+    faceId: string({ nonEmpty: true }),
+    panelCount: number({ min: 0 }),
+    kw: number({ min: 0 }),
+    annualKwh: number({ min: 0 }),
+    specificYield: number({ min: 0 }),
+  }))),
+  equipment: optional(ProjectEquipmentSchema),
+  ratePlanId: optional(string()),
+  annualUsageKwh: optional(number({ min: 0 })),
+  monthlyBillsBefore: optional(array(number({ min: 0 }), { length: 12 })),
+  monthlyBillsAfter: optional(array(number({ min: 0 }), { length: 12 })),
+  pricePerWatt: optional(number({ min: 0 })),
+  systemCost: number(),
+  taxCredit30: number(),
+  netCost: number(),
+  estimatedMonthlyPayment: number(),
+  estimatedMonthlySavings: number(),
+  estimatedUtilityBillBefore: optional(number()),
+  estimatedUtilityBillAfter: optional(number()),
+  financingOptions: optional(array(FinancingOptionSchema)),
+});
+
+export const ComplianceAnalysisSchema = object<ComplianceAnalysis>({
+  score: number({ min: 0, max: 100 }),
+  riskLevel: oneOf(['LOW', 'MEDIUM', 'HIGH'] as const),
+  flags: array(string()),
+  recommendations: array(string()),
+  disclaimerRequired: boolean(),
+});
+
+export const CommissionSchema = object<Commission>({
+  id: string({ nonEmpty: true }),
+  leadId: string({ nonEmpty: true }),
+  dealName: optional(string()),
+  amountUsd: number(),
+  status: oneOf(COMMISSION_STATUSES),
+  milestone: oneOf([...PROJECT_STAGES, 'SIGNED'] as const),
+  role: optional(oneOf(['closer', 'setter', 'manager'] as const)),
+  kind: optional(oneOf(['commission', 'override', 'clawback'] as const)),
+  clawbackOf: optional(string()),
+  breakdown: optional(string()),
+  bonusUsd: optional(number()),
+  payoutRunId: optional(string()),
+  expectedPayDate: optional(isoDate()),
+  paidAt: optional(isoDate()),
+  payoutMethod: optional(string()),
+  projectId: optional(string()),
+  repId: optional(string()),
+  createdAt: optional(isoDate()),
+  approvedAt: optional(isoDate()),
+  companyId: optional(string()),
+});
+
+export const RepSchema = object<Rep>({
+  id: string({ nonEmpty: true }),
+  name: string({ nonEmpty: true }),
+  email: string({ nonEmpty: true }),
+  phone: string(),
+  role: oneOf(['admin', 'manager', 'rep', 'installer', 'finance'] as const),
+  teamId: nullable(string()),
+  avatarUrl: optional(string()),
+  hireDate: isoDate(),
+  isActive: boolean(),
+  payoutAccount: optional(object<RepPayoutAccount>({
+    routingNumber: string({ nonEmpty: true }),
+    accountNumber: string({ nonEmpty: true }),
+    accountType: oneOf(['checking', 'savings'] as const),
+  })),
+});
+
+export const InstallerSchema = object<Installer>({
+  id: string({ nonEmpty: true }),
+  name: string({ nonEmpty: true }),
+  phone: string(),
+  email: string(),
+  licenseNumber: optional(string()),
+  rating: number({ min: 0, max: 5 }),
+  totalInstalls: number({ min: 0 }),
+  isActive: boolean(),
+  crews: optional(array(object<Crew>({
+    id: string({ nonEmpty: true }),
+    name: string({ nonEmpty: true }),
+    capacityKwPerDay: number({ min: 0 }),
+    isActive: boolean(),
+  }))),
+});
+
+export const PricingConfigSchema = object<PricingConfig>({
+  priceBands: array(object<PriceBand>({
+    minKw: number({ min: 0 }),
+    maxKw: nullable(number({ min: 0 })),
+    pricePerWatt: number({ min: 0 }),
+  })),
+  adders: array(object<PricingAdder>({
+    id: string({ nonEmpty: true }),
+    name: string({ nonEmpty: true }),
+    type: oneOf(['flat', 'perWatt'] as const),
+    amount: number({ min: 0 }),
+  })),
+  loanProducts: array(object<LoanProduct>({
+    id: string({ nonEmpty: true }),
+    name: string({ nonEmpty: true }),
+    apr: number({ min: 0, max: 100 }),
+    termYears: number({ min: 1, max: 40 }),
+    dealerFeePct: number({ min: 0, max: 99 }),
+  })),
+  defaultLoanProductId: string(),
+  leaseProducts: array(object<LeaseProduct>({
+    id: string({ nonEmpty: true }),
+    name: string({ nonEmpty: true }),
+    monthlyPerKw: number({ min: 0 }),
+    escalatorPct: number({ min: 0, max: 10 }),
+    termYears: number({ min: 1, max: 40 }),
+  })),
+  ppaProducts: array(object<PpaProduct>({
+    id: string({ nonEmpty: true }),
+    name: string({ nonEmpty: true }),
+    ratePerKwh: number({ min: 0 }),
+    escalatorPct: number({ min: 0, max: 10 }),
+    termYears: number({ min: 1, max: 40 }),
+  })),
+  cashDiscountPct: number({ min: 0, max: 100 }),
+  taxCreditPct: number({ min: 0, max: 100 }),
+  targetOffsetPct: number({ min: 0, max: 200 }),
+  utilityEscalatorPct: number({ min: 0, max: 20 }),
+  degradationPct: number({ min: 0, max: 5 }),
+});
+
+export const EquipmentCatalogSchema = object<EquipmentCatalog>({
+  modules: array(object<PvModule>({
+    id: string({ nonEmpty: true }),
+    manufacturer: string({ nonEmpty: true }),
+    model: string({ nonEmpty: true }),
+    watts: number({ min: 1, max: 1000 }),
+    lengthMm: number({ min: 1, max: 3000 }),
+    widthMm: number({ min: 1, max: 2000 }),
+    efficiencyPct: number({ min: 0, max: 30 }),
+    unitCost: number({ min: 0 }),
+    stockQty: number({ min: 0 }),
+  })),
+  inverters: array(object<Inverter>({
+    id: string({ nonEmpty: true }),
+    manufacturer: string({ nonEmpty: true }),
+    model: string({ nonEmpty: true }),
+    kind: oneOf(['string', 'micro'] as const),
+    acKw: number({ min: 0.01 }),
+    maxDcAcRatio: number({ min: 1, max: 2 }),
+    efficiencyPct: number({ min: 0, max: 100 }),
+    unitCost: number({ min: 0 }),
+    stockQty: number({ min: 0 }),
+  })),
+  batteries: array(object<Battery>({
+    id: string({ nonEmpty: true }),
+    manufacturer: string({ nonEmpty: true }),
+    model: string({ nonEmpty: true }),
+    capacityKwh: number({ min: 0 }),
+    powerKw: number({ min: 0 }),
+    unitCost: number({ min: 0 }),
+    stockQty: number({ min: 0 }),
+  })),
+  defaultModuleId: string(),
+  defaultInverterId: string(),
+});
+
+export const RoofPlaneSchema = object<RoofPlane>({
+  pitch: number({ min: 0, max: 24 }),
+  azimuthDeg: number({ min: 0, max: 360 }),
+  shadingPct: number({ min: 0, max: 100 }),
+});
+
+// Body of the AI routes that work on a lead plus its solar analysis
+export const AnalysisRequestSchema = object<{ lead: Lead; analysis: SolarAnalysis }>({
+  lead: LeadSchema,
+  analysis: SolarAnalysisSchema,
+});
+
+export const ProposalBrandSchema = object<ProposalBrand>({
+  name: string({ nonEmpty: true }),
+  logoUrl: string(),
+  primaryColor: string(),
+  accentColor: string(),
+});
+
+// Body of POST /api/proposals; the brand and rep name are printed on the PDF
+export const ProposalRequestSchema = object<{ lead: Lead; analysis: SolarAnalysis; brand?: ProposalBrand; repName?: string }>({
+  lead: LeadSchema,
+  analysis: SolarAnalysisSchema,
+  brand: optional(ProposalBrandSchema),
+  repName: optional(string()),
+});
+
+export const ContractTemplateConfigSchema = object<ContractTemplateConfig>({
+  templates: array(object<ContractTemplate>({
+    id: string({ nonEmpty: true }),
+    name: string({ nonEmpty: true }),
+    title: string({ nonEmpty: true }),
+    body: string({ nonEmpty: true }),
+  })),
+  defaultTemplateId: string(),
+});
+
+// Project stages in the company's pipeline; the array is the whole pipeline
+export const PipelineStagesSchema = array(object<PipelineStage>({
+  id: string({ nonEmpty: true }),
+  name: string({ nonEmpty: true }),
+  order: number(),
+  color: optional(string()),
+  description: optional(string()),
+}));
+
+export const LeadPipelineConfigSchema = object<LeadPipelineConfig>({
+  statuses: array(object<LeadStatusConfig>({
+    id: string({ nonEmpty: true }),
+    name: string({ nonEmpty: true }),
+    order: number(),
+    color: optional(string()),
+    outcome: oneOf(['open', 'won', 'lost'] as const),
+    probability: number({ min: 0, max: 1 }),
+    daysToClose: number({ min: 0 }),
+    requiredFields: array(string()),
+  })),
+  lostReasons: array(string({ nonEmpty: true })),
+});
+
+// Bonus conditions are a tree; api/company checks them with validateCondition
+export const CommissionRulesSchema = object<CommissionRules>({
+  companyId: string(),
+  tiers: array(object<CommissionTier>({
+    id: string({ nonEmpty: true }),
+    label: string({ nonEmpty: true }),
+    rate: number({ min: 0, max: 1 }),
+    appliesTo: array(oneOf(['install', 'bankFinance', 'cash', 'lease', 'ppa', 'loan'] as const)),
+    minDealValue: optional(number({ min: 0 })),
+    maxDealValue: optional(number({ min: 0 })),
+    isDefault: optional(boolean()),
+    payoutSchedule: optional(array(object<PayoutStep>({
+      milestone: oneOf(['SIGNED', 'INSTALL', 'PTO'] as const),
+      pct: number({ min: 0, max: 100 }),
+    }))),
+  })),
+  bonuses: array(object<CommissionBonus>({
+    id: string({ nonEmpty: true }),
+    label: string({ nonEmpty: true }),
+    condition: unknownValue<BonusConditionNode>(),
+    amount: number({ min: 0 }),
+    isPercentage: optional(boolean()),
+    isActive: boolean(),
+  })),
+  split: object<CommissionSplit>({
+    setterPct: number({ min: 0, max: 100 }),
+  }),
+  managerOverride: object<ManagerOverride>({
+    enabled: boolean(),
+    perWatt: number({ min: 0 }),
+  }),
+  redline: object<RedlinePay>({
+    enabled: boolean(),
+    baselinePricePerWatt: number({ min: 0 }),
+    sharePct: number({ min: 0, max: 100 }),
+  }),
+  clawback: object<ClawbackPolicy>({
+    enabled: boolean(),
+    windowDays: number({ min: 0 }),
+  }),
+  effectiveFrom: isoDate(),
+  version: number({ min: 0 }),
+  updatedAt: string(),
+});
+
+const ContractPartySchema = object<ContractParty>({
+  name: string({ nonEmpty: true }),
+  email: optional(string()),
+});
+
+// Body of POST /api/contracts. The price and terms come from the issued
+// proposal version and the homeowner is always its lead, as stored.
+export const ContractRequestSchema = object<{
+  proposalId: string;
+  templateId?: string;
+  financingOptionId?: string;
+  companyName?: string;
+  coHomeowner?: ContractParty;
+  rep: ContractParty;
+}>({
+  proposalId: string({ nonEmpty: true }),
+  templateId: optional(string()),
+  financingOptionId: optional(string()),
+  companyName: optional(string()),
+  coHomeowner: optional(ContractPartySchema),
+  rep: ContractPartySchema,
+});
+
+// Body of POST /api/contracts?action=sign. documentSha256 is the hash the
+// signer was shown, so a signature can't land on a different document.
+export const ContractSignRequestSchema = object<{
+  signerId: string;
+  consent: boolean;
+  typedName: string;
+  strokes: SignatureStroke[];
+  documentSha256: string;
+}>({
+  signerId: string({ nonEmpty: true }),
+  consent: boolean(),
+  typedName: string({ nonEmpty: true }),
+  strokes: array(array(array(number({ min: 0 }), { length: 2 }))) as Validator<SignatureStroke[]>,
+  documentSha256: string({ nonEmpty: true }),
+});
+
+export const AchOriginatorSchema = object<AchOriginator>({
+  companyName: string(),
+  companyIdentification: string(),
+  originRouting: string(),
+  bankName: string(),
+});
+
+// Body of POST /api/payout-runs
+export const PayoutRunRequestSchema = object<{ commissionIds: string[]; periodStart: string; periodEnd: string }>({
+  commissionIds: array(string({ nonEmpty: true })),
+  periodStart: string({ nonEmpty: true }),
+  periodEnd: string({ nonEmpty: true }),
+});
+
+// Body of PUT /api/payout-runs?action=markPaid
+export const PayoutRunPaymentSchema = object<{ paidAt: string; payoutMethod: string }>({
+  paidAt: string({ nonEmpty: true }),
+  payoutMethod: string({ nonEmpty: true }),
+});
+
+export const AppointmentSettingsSchema = object<AppointmentSettings>({
+  durationMinutes: number({ min: 15 }),
+  slotStepMinutes: number({ min: 15 }),
+  reminderMinutes: number({ min: 0 }),
+  assignment: oneOf(['round_robin', 'rules'] as const),
+  rules: array(object<AssignmentRule>({
+    id: string({ nonEmpty: true }),
+    name: string(),
+    zipPrefixes: array(string({ nonEmpty: true })),
+    minBill: optional(number({ min: 0 })),
+    repIds: array(string({ nonEmpty: true })),
+  })),
+  windows: array(object<AvailabilityWindow>({
+    id: string({ nonEmpty: true }),
+    repId: string({ nonEmpty: true }),
+    weekday: number({ min: 0, max: 6 }),
+    start: string({ nonEmpty: true }),
+    end: string({ nonEmpty: true }),
+  })),
+  lastAssignedRepId: nullable(string()),
+});
+
+// Body of POST /api/appointments; the server looks the lead and closer up
+export const AppointmentBookingSchema = object<{ leadId: string; slot: { repId: string; startAt: string; endAt: string } }>({
+  leadId: string({ nonEmpty: true }),
+  slot: object<{ repId: string; startAt: string; endAt: string }>({
+    repId: string({ nonEmpty: true }),
+    startAt: string({ nonEmpty: true }),
+    endAt: string({ nonEmpty: true }),
+  }),
+});
+
+// Body of PUT /api/appointments?action=status
+export const AppointmentOutcomeSchema = object<{ status: 'showed' | 'no_show' | 'cancelled' }>({
+  status: oneOf(['showed', 'no_show', 'cancelled'] as const),
+});
+
+// Body of POST /api/leads?action=merge
+export const LeadMergeSchema = object<{ survivorId: string; duplicateIds: string[] }>({
+  survivorId: string({ nonEmpty: true }),
+  duplicateIds: array(string({ nonEmpty: true })),
+});
+
+// Body of PUT /api/install-schedule?action=book; the server looks the project and crew up
+export const InstallBookingRequestSchema = object<{ projectId: string; installerId: string; crewId: string; startDate: string }>({
+  projectId: string({ nonEmpty: true }),
+  installerId: string({ nonEmpty: true }),
+  crewId: string({ nonEmpty: true }),
+  startDate: isoDate(),
+});
+
+// Body of PUT /api/install-schedule?action=weatherHold, which holds or releases the day
+export const WeatherHoldSchema = object<WeatherHold>({
+  date: isoDate(),
+  installerId: nullable(string({ nonEmpty: true })),
+  reason: optional(string()),
+});
+
+// Body of POST /api/files
+export const FileUploadSchema = object<{ fileName: string; mimeType: string; dataUrl: string }>({
+  fileName: string({ nonEmpty: true }),
+  mimeType: string({ nonEmpty: true }),
+  dataUrl: string({ nonEmpty: true }),
+});
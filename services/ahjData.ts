@@ -0,0 +1,183 @@
+// services/ahjData.ts
+// Bundled AHJ (authority having jurisdiction) table
+// Building departments that issue residential solar permits in the markets we
+// install in, with the documents each one asks for and typical plan-review
+// turnaround. Review days and fees are typical values for planning only;
+// confirm them with the AHJ. California caps residential solar permit fees at
+// $450 up to 15 kW (Gov. Code § 66015). Add rows here as new markets open.
+
+import { extractZip } from './irradianceData';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Ahj {
+  id: string;
+  name: string;
+  state: string;
+  cities: string[]; // Matched against the address before ZIP codes
+  zipPrefixes: string[]; // Fallback when no city matches (3- or 5-digit)
+  reviewDays: number; // Typical plan review turnaround
+  feeUsd: number; // Typical residential solar permit fee
+  documents: string[];
+}
+
+// ============================================================================
+// DOCUMENTS
+// ============================================================================
+
+export const STANDARD_PERMIT_DOCUMENTS = [
+  'Permit application',
+  'Site plan',
+  'Single-line electrical diagram',
+  'Module and inverter spec sheets',
+  'Racking and attachment spec sheets',
+];
+
+export const BATTERY_PERMIT_DOCUMENT = 'Battery (ESS) spec sheet and placement plan';
+
+// California AHJs also check the fire-code roof access setbacks
+const CA_DOCUMENTS = [...STANDARD_PERMIT_DOCUMENTS, 'Fire setback roof plan'];
+
+// ============================================================================
+// AHJ TABLE
+// ============================================================================
+
+export const AHJ_TABLE: Ahj[] = [
+  {
+    id: 'ca_city_sacramento',
+    name: 'City of Sacramento',
+    state: 'CA',
+    cities: ['Sacramento'],
+    zipPrefixes: ['958'],
+    reviewDays: 5,
+    feeUsd: 450,
+    documents: CA_DOCUMENTS,
+  },
+  {
+    id: 'ca_elk_grove',
+    name: 'City of Elk Grove',
+    state: 'CA',
+    cities: ['Elk Grove'],
+    zipPrefixes: ['95624', '95757', '95758'],
+    reviewDays: 5,
+    feeUsd: 450,
+    documents: CA_DOCUMENTS,
+  },
+  {
+    id: 'ca_roseville',
+    name: 'City of Roseville',
+    state: 'CA',
+    cities: ['Roseville'],
+    zipPrefixes: ['95661', '95678', '95747'],
+    reviewDays: 3,
+    feeUsd: 450,
+    documents: CA_DOCUMENTS,
+  },
+  {
+    id: 'ca_folsom',
+    name: 'City of Folsom',
+    state: 'CA',
+    cities: ['Folsom'],
+    zipPrefixes: ['95630'],
+    reviewDays: 5,
+    feeUsd: 450,
+    documents: CA_DOCUMENTS,
+  },
+  {
+    id: 'ca_sacramento_county',
+    name: 'Sacramento County (unincorporated)',
+    state: 'CA',
+    cities: ['Carmichael', 'Fair Oaks', 'Orangevale', 'Antelope', 'North Highlands', 'Rio Linda', 'Elverta'],
+    zipPrefixes: ['956'],
+    reviewDays: 10,
+    feeUsd: 450,
+    documents: [...CA_DOCUMENTS, 'Structural calculations'],
+  },
+  {
+    id: 'ca_los_angeles',
+    name: 'City of Los Angeles (LADBS)',
+    state: 'CA',
+    cities: ['Los Angeles'],
+    zipPrefixes: ['900'],
+    reviewDays: 10,
+    feeUsd: 450,
+    documents: [...CA_DOCUMENTS, 'Structural calculations'],
+  },
+  {
+    id: 'ca_san_diego',
+    name: 'City of San Diego',
+    state: 'CA',
+    cities: ['San Diego'],
+    zipPrefixes: ['921'],
+    reviewDays: 7,
+    feeUsd: 450,
+    documents: CA_DOCUMENTS,
+  },
+  {
+    id: 'az_phoenix',
+    name: 'City of Phoenix',
+    state: 'AZ',
+    cities: ['Phoenix'],
+    zipPrefixes: ['850'],
+    reviewDays: 7,
+    feeUsd: 600,
+    documents: [...STANDARD_PERMIT_DOCUMENTS, 'Structural calculations'],
+  },
+  {
+    id: 'nv_las_vegas',
+    name: 'City of Las Vegas',
+    state: 'NV',
+    cities: ['Las Vegas'],
+    zipPrefixes: ['891'],
+    reviewDays: 10,
+    feeUsd: 500,
+    documents: STANDARD_PERMIT_DOCUMENTS,
+  },
+  {
+    id: 'tx_austin',
+    name: 'City of Austin',
+    state: 'TX',
+    cities: ['Austin'],
+    zipPrefixes: ['787'],
+    reviewDays: 5,
+    feeUsd: 400,
+    documents: STANDARD_PERMIT_DOCUMENTS,
+  },
+];
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+export function getAhj(id: string): Ahj | undefined {
+  return AHJ_TABLE.find(ahj => ahj.id === id);
+}
+
+/**
+ * Find the AHJ for a free-form address ("123 Main St, Sacramento, CA 95814").
+ * A city named in the address wins over the ZIP code, since ZIP codes cross
+ * city limits; longer ZIP prefixes win over shorter ones.
+ */
+export function findAhjForAddress(address: string): Ahj | null {
+  const normalized = address.toLowerCase();
+  const byCity = AHJ_TABLE.find(ahj =>
+    ahj.cities.some(city => new RegExp(`(^|[,\\s])${city.toLowerCase()}(,|\\s+[a-z]{2}\\b|$)`).test(normalized))
+  );
+  if (byCity) return byCity;
+
+  const zip = extractZip(address);
+  if (!zip) return null;
+  let best: Ahj | null = null;
+  let bestLength = 0;
+  for (const ahj of AHJ_TABLE) {
+    for (const prefix of ahj.zipPrefixes) {
+      if (zip.startsWith(prefix) && prefix.length > bestLength) {
+        best = ahj;
+        bestLength = prefix.length;
+      }
+    }
+  }
+  return best;
+}
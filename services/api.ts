@@ -1,61 +1,29 @@
 /**
  * API Foundation Layer
- * Mock API client that simulates REST endpoints.
- * Designed for easy migration to real backend when ready.
+ * Client for the persistence endpoints under api/ (leads, projects, commissions,
+ * reps, installers, company). Data lives in the server-side storage adapter,
+ * so every rep on a company sees the same records.
  */
 
-import { Lead } from '../types';
-import { loadOrDefault, save, loadAllLeads, saveLeads, loadAllProjects, saveProjects } from '../utils/storage';
-import { Project, Rep, Installer } from '../types';
-import { getCompanies, getActiveCompany, getActiveCompanyId } from './companyStore';
+import { Lead, Project, Rep, Installer, Commission, CommissionStatus, SolarAnalysis, ProposalBrand, ProposalSummary, ProposalVersion, Contract, ContractParty, SignatureStroke, PayoutRun, StoredFile } from '../types';
+import { LeadSchema, ProjectSchema, CommissionSchema, validate, formatErrors, type FieldError, type Validator } from '../schema';
+import { getActiveCompany } from './companyStore';
+import { getAuthHeaders } from './auth';
+import type { PricingConfig } from './financialEngine';
+import type { EquipmentCatalog } from './equipmentCatalog';
+import type { ContractTemplateConfig } from './contractTemplates';
+import type { DuplicateMatch } from './leadDedup';
+import type { AchOriginator } from './payoutBatches';
+import type { CommissionRules } from './commissionRules';
+import type { LeadPipelineConfig } from './leadStatuses';
+import type { PipelineStage } from './pipelineStages';
+import type { Appointment, AppointmentSettings, AppointmentSlot } from './appointmentBooking';
+import type { InstallSchedule, WeatherHold } from './installSchedule';
 
 // ============================================================================
 // Helper functions
 // ============================================================================
 
-function loadLeads(companyId: string): Lead[] {
-  const allLeads = loadAllLeads();
-  return allLeads.filter(lead => 
-    (lead as any).companyId === companyId || !(lead as any).companyId
-  );
-}
-
-function saveLeadsForCompany(companyId: string, leads: Lead[]): void {
-  // Load all leads, remove ones for this company, add new ones
-  const allLeads = loadAllLeads();
-  const otherLeads = allLeads.filter(l => (l as any).companyId !== companyId);
-  const updatedLeads = [...otherLeads, ...leads];
-  saveLeads(updatedLeads);
-}
-
-function loadProjects(companyId: string): Project[] {
-  const allProjects = loadAllProjects();
-  return allProjects.filter(project => 
-    (project as any).companyId === companyId || !(project as any).companyId
-  );
-}
-
-function saveProjectsForCompany(companyId: string, projects: Project[]): void {
-  const allProjects = loadAllProjects();
-  const otherProjects = allProjects.filter(p => (p as any).companyId !== companyId);
-  const updatedProjects = [...otherProjects, ...projects];
-  saveProjects(updatedProjects);
-}
-
-function loadReps(companyId: string): Rep[] {
-  const company = getCompanies().find(c => c.id === companyId);
-  return company?.reps || [];
-}
-
-function loadInstallers(companyId: string): Installer[] {
-  const company = getCompanies().find(c => c.id === companyId);
-  return company?.installers || [];
-}
-
-function loadCompanies() {
-  return getCompanies();
-}
-
 function loadCurrentCompany() {
   return getActiveCompany();
 }
@@ -68,11 +36,13 @@ export interface ApiResponse<T> {
   success: boolean;
   data?: T;
   error?: string;
+  errors?: FieldError[]; // Field-level validation errors
   meta?: {
     total?: number;
     page?: number;
     pageSize?: number;
     timestamp: string;
+    duplicates?: DuplicateMatch[]; // Lead create: existing leads it probably duplicates
   };
 }
 
@@ -99,22 +69,22 @@ export interface ProjectFilters extends PaginationParams {
 
 export interface CommissionFilters extends PaginationParams {
   repId?: string;
-  status?: 'pending' | 'approved' | 'paid';
+  status?: CommissionStatus;
   dateFrom?: string;
   dateTo?: string;
 }
 
-// Simulated network delay
-const SIMULATED_DELAY_MS = 100;
+const API_BASE = '/api';
+
+// Page size used when the client needs a full collection (analytics, export)
+const FETCH_ALL_PAGE_SIZE = 10000;
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
 
 // =============================================================================
 // Utility Functions
 // =============================================================================
 
-function delay(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
-
 function createResponse<T>(data: T, meta?: Partial<ApiResponse<T>['meta']>): ApiResponse<T> {
   return {
     success: true,
@@ -126,10 +96,11 @@ function createResponse<T>(data: T, meta?: Partial<ApiResponse<T>['meta']>): Api
   };
 }
 
-function createErrorResponse<T>(error: string): ApiResponse<T> {
+function createErrorResponse<T>(error: string, errors?: FieldError[]): ApiResponse<T> {
   return {
     success: false,
     error,
+    ...(errors ? { errors } : {}),
     meta: {
       timestamp: new Date().toISOString()
     }
@@ -141,157 +112,115 @@ function getCurrentCompanyId(): string {
   return company?.id || 'default';
 }
 
+function buildUrl(path: string, query?: object): string {
+  const params = new URLSearchParams();
+  Object.entries(query || {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') {
+      params.set(key, String(value));
+    }
+  });
+  const qs = params.toString();
+  return `${API_BASE}${path}${qs ? `?${qs}` : ''}`;
+}
+
+/**
+ * Send an authenticated request to an api/ handler. Handlers already reply
+ * with the ApiResponse envelope; network failures are mapped to `errorMessage`.
+ */
+async function request<T>(
+  method: HttpMethod,
+  path: string,
+  options: { query?: object; body?: unknown },
+  errorMessage: string
+): Promise<ApiResponse<T>> {
+  try {
+    const response = await fetch(buildUrl(path, options.query), {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders()
+      },
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined
+    });
+
+    const payload = await response.json().catch(() => null) as ApiResponse<T> | null;
+    if (!payload) {
+      return createErrorResponse(`${errorMessage} (HTTP ${response.status})`);
+    }
+    return payload;
+  } catch (err) {
+    console.error(`API Error (${method} ${path}):`, err);
+    return createErrorResponse(errorMessage);
+  }
+}
+
+/**
+ * Validate a payload before it leaves the browser; the api/ handlers run the
+ * same schema, this just saves a round trip and surfaces field errors early.
+ */
+function checkPayload<T>(schema: Validator<T>, payload: unknown): ApiResponse<never> | null {
+  const result = validate(schema, payload);
+  return result.ok ? null : createErrorResponse(`Validation failed: ${formatErrors(result.errors)}`, result.errors);
+}
+
+async function fetchAll<T>(path: string, errorMessage: string): Promise<T[]> {
+  const result = await request<T[]>('GET', path, { query: { pageSize: FETCH_ALL_PAGE_SIZE } }, errorMessage);
+  if (!result.success) {
+    throw new Error(result.error || errorMessage);
+  }
+  return result.data || [];
+}
+
 // =============================================================================
 // Leads API
 // =============================================================================
 
+// What a merge moved onto the surviving lead
+export interface LeadMergeResult {
+  lead: Lead;
+  projectsMoved: number;
+  commissionsMoved: number;
+  contractsMoved: number;
+  proposalsMoved: number;
+  appointmentsMoved: number;
+}
+
 export const leadsApi = {
   async getAll(filters?: LeadFilters): Promise<ApiResponse<Lead[]>> {
-    await delay(SIMULATED_DELAY_MS);
-    
-    try {
-      const companyId = getCurrentCompanyId();
-      let leads = loadLeads(companyId);
-      
-      // Apply filters
-      if (filters) {
-        if (filters.status) {
-          leads = leads.filter(l => l.status === filters.status);
-        }
-        if (filters.repId) {
-          leads = leads.filter(l => l.repId === filters.repId);
-        }
-        if (filters.dateFrom) {
-          const fromDate = new Date(filters.dateFrom);
-          leads = leads.filter(l => new Date(l.createdAt) >= fromDate);
-        }
-        if (filters.dateTo) {
-          const toDate = new Date(filters.dateTo);
-          leads = leads.filter(l => new Date(l.createdAt) <= toDate);
-        }
-        if (filters.search) {
-          const search = filters.search.toLowerCase();
-          leads = leads.filter(l => 
-            l.name.toLowerCase().includes(search) ||
-            l.address.toLowerCase().includes(search) ||
-            l.email?.toLowerCase().includes(search)
-          );
-        }
-      }
-      
-      // Apply pagination
-      const total = leads.length;
-      const page = filters?.page || 1;
-      const pageSize = filters?.pageSize || 50;
-      const start = (page - 1) * pageSize;
-      const paginatedLeads = leads.slice(start, start + pageSize);
-      
-      return createResponse(paginatedLeads, { total, page, pageSize });
-    } catch (err) {
-      return createErrorResponse('Failed to fetch leads');
-    }
+    return request('GET', '/leads', { query: filters }, 'Failed to fetch leads');
   },
   
   async getById(id: string): Promise<ApiResponse<Lead | null>> {
-    await delay(SIMULATED_DELAY_MS);
-    
-    try {
-      const companyId = getCurrentCompanyId();
-      const leads = loadLeads(companyId);
-      const lead = leads.find(l => l.id === id) || null;
-      
-      if (!lead) {
-        return createErrorResponse('Lead not found');
-      }
-      
-      return createResponse(lead);
-    } catch (err) {
-      return createErrorResponse('Failed to fetch lead');
-    }
+    return request('GET', '/leads', { query: { id } }, 'Failed to fetch lead');
   },
   
-  async create(lead: Omit<Lead, 'id' | 'createdAt'>): Promise<ApiResponse<Lead>> {
-    await delay(SIMULATED_DELAY_MS);
-    
-    try {
-      const companyId = getCurrentCompanyId();
-      const leads = loadLeads(companyId);
-      
-      const newLead: Lead = {
-        ...lead,
-        id: generateUUID(),
-        createdAt: new Date().toISOString()
-      };
-      
-      leads.push(newLead);
-      saveLeadsForCompany(companyId, leads);
-      
-      return createResponse(newLead);
-    } catch (err) {
-      return createErrorResponse('Failed to create lead');
-    }
+  // Records made in the app keep their own id and createdAt
+  async create(lead: Omit<Lead, 'id' | 'createdAt'> & Partial<Pick<Lead, 'id' | 'createdAt'>>): Promise<ApiResponse<Lead>> {
+    const invalid = checkPayload(LeadSchema.partial(), lead);
+    if (invalid) return invalid;
+    return request('POST', '/leads', { body: lead }, 'Failed to create lead');
   },
   
-  async update(id: string, updates: Partial<Lead>): Promise<ApiResponse<Lead>> {
-    await delay(SIMULATED_DELAY_MS);
-    
-    try {
-      const companyId = getCurrentCompanyId();
-      const leads = loadLeads(companyId);
-      const index = leads.findIndex(l => l.id === id);
-      
-      if (index === -1) {
-        return createErrorResponse('Lead not found');
-      }
-      
-      leads[index] = { ...leads[index], ...updates };
-      saveLeadsForCompany(companyId, leads);
-      
-      return createResponse(leads[index]);
-    } catch (err) {
-      return createErrorResponse('Failed to update lead');
-    }
+  // `clear` names fields to remove; the update itself only sets fields
+  async update(id: string, updates: Partial<Lead>, clear: string[] = []): Promise<ApiResponse<Lead>> {
+    const invalid = checkPayload(LeadSchema.partial(), updates);
+    if (invalid) return invalid;
+    return request('PUT', '/leads', { query: { id, clear: clear.join(',') }, body: updates }, 'Failed to update lead');
   },
   
   async delete(id: string): Promise<ApiResponse<boolean>> {
-    await delay(SIMULATED_DELAY_MS);
-    
-    try {
-      const companyId = getCurrentCompanyId();
-      const leads = loadLeads(companyId);
-      const filtered = leads.filter(l => l.id !== id);
-      
-      if (filtered.length === leads.length) {
-        return createErrorResponse('Lead not found');
-      }
-      
-      saveLeadsForCompany(companyId, filtered);
-      return createResponse(true);
-    } catch (err) {
-      return createErrorResponse('Failed to delete lead');
-    }
+    return request('DELETE', '/leads', { query: { id } }, 'Failed to delete lead');
   },
   
   async bulkUpdate(ids: string[], updates: Partial<Lead>): Promise<ApiResponse<Lead[]>> {
-    await delay(SIMULATED_DELAY_MS);
-    
-    try {
-      const companyId = getCurrentCompanyId();
-      const leads = loadLeads(companyId);
-      const updated: Lead[] = [];
-      
-      leads.forEach((lead, index) => {
-        if (ids.includes(lead.id)) {
-          leads[index] = { ...lead, ...updates };
-          updated.push(leads[index]);
-        }
-      });
-      
-      saveLeadsForCompany(companyId, leads);
-      return createResponse(updated);
-    } catch (err) {
-      return createErrorResponse('Failed to bulk update leads');
-    }
+    const invalid = checkPayload(LeadSchema.partial(), updates);
+    if (invalid) return invalid;
+    return request('PATCH', '/leads', { body: { ids, updates } }, 'Failed to bulk update leads');
+  },
+
+  // Deletes the duplicates and moves everything that pointed at them to the survivor
+  async merge(survivorId: string, duplicateIds: string[]): Promise<ApiResponse<LeadMergeResult>> {
+    return request('POST', '/leads', { query: { action: 'merge' }, body: { survivorId, duplicateIds } }, 'Failed to merge leads');
   }
 };
 
@@ -299,133 +228,49 @@ export const leadsApi = {
 // Projects API
 // =============================================================================
 
+// Pipeline moves and cancellations come back with the commission lines they settled
+export interface ProjectChangeResult {
+  project: Project;
+  commissions: Commission[];
+}
+
 export const projectsApi = {
   async getAll(filters?: ProjectFilters): Promise<ApiResponse<Project[]>> {
-    await delay(SIMULATED_DELAY_MS);
-    
-    try {
-      const companyId = getCurrentCompanyId();
-      let projects = loadProjects(companyId);
-      
-      // Apply filters
-      if (filters) {
-        if (filters.stage) {
-          projects = projects.filter(p => p.stage === filters.stage);
-        }
-        if (filters.installerId) {
-          projects = projects.filter(p => p.installerId === filters.installerId);
-        }
-        if (filters.dateFrom) {
-          const fromDate = new Date(filters.dateFrom);
-          projects = projects.filter(p => new Date(p.contractDate) >= fromDate);
-        }
-        if (filters.dateTo) {
-          const toDate = new Date(filters.dateTo);
-          projects = projects.filter(p => new Date(p.contractDate) <= toDate);
-        }
-        if (filters.search) {
-          const search = filters.search.toLowerCase();
-          projects = projects.filter(p => 
-            p.customerName.toLowerCase().includes(search) ||
-            p.address.toLowerCase().includes(search)
-          );
-        }
-      }
-      
-      // Apply pagination
-      const total = projects.length;
-      const page = filters?.page || 1;
-      const pageSize = filters?.pageSize || 50;
-      const start = (page - 1) * pageSize;
-      const paginatedProjects = projects.slice(start, start + pageSize);
-      
-      return createResponse(paginatedProjects, { total, page, pageSize });
-    } catch (err) {
-      return createErrorResponse('Failed to fetch projects');
-    }
+    return request('GET', '/projects', { query: filters }, 'Failed to fetch projects');
   },
   
   async getById(id: string): Promise<ApiResponse<Project | null>> {
-    await delay(SIMULATED_DELAY_MS);
-    
-    try {
-      const companyId = getCurrentCompanyId();
-      const projects = loadProjects(companyId);
-      const project = projects.find(p => p.id === id) || null;
-      
-      if (!project) {
-        return createErrorResponse('Project not found');
-      }
-      
-      return createResponse(project);
-    } catch (err) {
-      return createErrorResponse('Failed to fetch project');
-    }
+    return request('GET', '/projects', { query: { id } }, 'Failed to fetch project');
   },
   
-  async create(project: Omit<Project, 'id'>): Promise<ApiResponse<Project>> {
-    await delay(SIMULATED_DELAY_MS);
-    
-    try {
-      const companyId = getCurrentCompanyId();
-      const projects = loadProjects(companyId);
-      
-      const newProject: Project = {
-        ...project,
-        id: generateUUID()
-      };
-      
-      projects.push(newProject);
-      saveProjectsForCompany(companyId, projects);
-      
-      return createResponse(newProject);
-    } catch (err) {
-      return createErrorResponse('Failed to create project');
-    }
+  async create(project: Omit<Project, 'id'> & { id?: string }): Promise<ApiResponse<Project>> {
+    const invalid = checkPayload(ProjectSchema.partial(), project);
+    if (invalid) return invalid;
+    return request('POST', '/projects', { body: project }, 'Failed to create project');
   },
   
-  async update(id: string, updates: Partial<Project>): Promise<ApiResponse<Project>> {
-    await delay(SIMULATED_DELAY_MS);
-    
-    try {
-      const companyId = getCurrentCompanyId();
-      const projects = loadProjects(companyId);
-      const index = projects.findIndex(p => p.id === id);
-      
-      if (index === -1) {
-        return createErrorResponse('Project not found');
-      }
-      
-      projects[index] = { ...projects[index], ...updates };
-      saveProjectsForCompany(companyId, projects);
-      
-      return createResponse(projects[index]);
-    } catch (err) {
-      return createErrorResponse('Failed to update project');
-    }
+  async update(id: string, updates: Partial<Project>, clear: string[] = []): Promise<ApiResponse<Project>> {
+    const invalid = checkPayload(ProjectSchema.partial(), updates);
+    if (invalid) return invalid;
+    return request('PUT', '/projects', { query: { id, clear: clear.join(',') }, body: updates }, 'Failed to update project');
   },
   
   async updateStage(id: string, stage: string): Promise<ApiResponse<Project>> {
     return this.update(id, { stage });
   },
+
+  // Move through the pipeline; comes back with the milestone lines it created
+  async move(id: string, changes: Pick<Project, 'stage' | 'targetDates' | 'actualDates' | 'slaStatus'>): Promise<ApiResponse<ProjectChangeResult>> {
+    return request('PUT', '/projects', { query: { id, action: 'move' }, body: changes }, 'Failed to move project');
+  },
+
+  // Comes back with the cancelled lines and new clawbacks
+  async cancel(id: string, cancelReason?: string): Promise<ApiResponse<ProjectChangeResult>> {
+    return request('PUT', '/projects', { query: { id, action: 'cancel' }, body: { cancelReason } }, 'Failed to cancel project');
+  },
   
   async delete(id: string): Promise<ApiResponse<boolean>> {
-    await delay(SIMULATED_DELAY_MS);
-    
-    try {
-      const companyId = getCurrentCompanyId();
-      const projects = loadProjects(companyId);
-      const filtered = projects.filter(p => p.id !== id);
-      
-      if (filtered.length === projects.length) {
-        return createErrorResponse('Project not found');
-      }
-      
-      saveProjectsForCompany(companyId, filtered);
-      return createResponse(true);
-    } catch (err) {
-      return createErrorResponse('Failed to delete project');
-    }
+    return request('DELETE', '/projects', { query: { id } }, 'Failed to delete project');
   }
 };
 
@@ -433,186 +278,40 @@ export const projectsApi = {
 // Commissions API
 // =============================================================================
 
-export interface Commission {
-  id: string;
-  projectId: string;
-  repId: string;
-  amount: number;
-  status: 'pending' | 'approved' | 'paid';
-  calculatedAt: string;
-  approvedAt?: string;
-  paidAt?: string;
-  breakdown: {
-    baseAmount: number;
-    tierRate: number;
-    bonuses: { label: string; amount: number }[];
-  };
-}
-
-const COMMISSIONS_KEY = (companyId: string) => `primus_commissions_${companyId}`;
-
-function loadCommissions(companyId: string): Commission[] {
-  const stored = localStorage.getItem(COMMISSIONS_KEY(companyId));
-  return stored ? JSON.parse(stored) : [];
-}
-
-function saveCommissions(companyId: string, commissions: Commission[]): void {
-  localStorage.setItem(COMMISSIONS_KEY(companyId), JSON.stringify(commissions));
-}
+// Shared with the api/ handlers via types.ts
+export type { Commission };
 
 export const commissionsApi = {
   async getAll(filters?: CommissionFilters): Promise<ApiResponse<Commission[]>> {
-    await delay(SIMULATED_DELAY_MS);
-    
-    try {
-      const companyId = getCurrentCompanyId();
-      let commissions = loadCommissions(companyId);
-      
-      // Apply filters
-      if (filters) {
-        if (filters.repId) {
-          commissions = commissions.filter(c => c.repId === filters.repId);
-        }
-        if (filters.status) {
-          commissions = commissions.filter(c => c.status === filters.status);
-        }
-        if (filters.dateFrom) {
-          const fromDate = new Date(filters.dateFrom);
-          commissions = commissions.filter(c => new Date(c.calculatedAt) >= fromDate);
-        }
-        if (filters.dateTo) {
-          const toDate = new Date(filters.dateTo);
-          commissions = commissions.filter(c => new Date(c.calculatedAt) <= toDate);
-        }
-      }
-      
-      // Apply pagination
-      const total = commissions.length;
-      const page = filters?.page || 1;
-      const pageSize = filters?.pageSize || 50;
-      const start = (page - 1) * pageSize;
-      const paginatedCommissions = commissions.slice(start, start + pageSize);
-      
-      return createResponse(paginatedCommissions, { total, page, pageSize });
-    } catch (err) {
-      return createErrorResponse('Failed to fetch commissions');
-    }
+    return request('GET', '/commissions', { query: filters }, 'Failed to fetch commissions');
   },
   
   async getById(id: string): Promise<ApiResponse<Commission | null>> {
-    await delay(SIMULATED_DELAY_MS);
-    
-    try {
-      const companyId = getCurrentCompanyId();
-      const commissions = loadCommissions(companyId);
-      const commission = commissions.find(c => c.id === id) || null;
-      
-      if (!commission) {
-        return createErrorResponse('Commission not found');
-      }
-      
-      return createResponse(commission);
-    } catch (err) {
-      return createErrorResponse('Failed to fetch commission');
-    }
+    return request('GET', '/commissions', { query: { id } }, 'Failed to fetch commission');
   },
   
-  async create(commission: Omit<Commission, 'id'>): Promise<ApiResponse<Commission>> {
-    await delay(SIMULATED_DELAY_MS);
-    
-    try {
-      const companyId = getCurrentCompanyId();
-      const commissions = loadCommissions(companyId);
-      
-      const newCommission: Commission = {
-        ...commission,
-        id: generateUUID()
-      };
-      
-      commissions.push(newCommission);
-      saveCommissions(companyId, commissions);
-      
-      return createResponse(newCommission);
-    } catch (err) {
-      return createErrorResponse('Failed to create commission');
-    }
+  async create(commission: Omit<Commission, 'id'> & { id?: string }): Promise<ApiResponse<Commission>> {
+    const invalid = checkPayload(CommissionSchema.partial(), commission);
+    if (invalid) return invalid;
+    return request('POST', '/commissions', { body: commission }, 'Failed to create commission');
+  },
+
+  async update(id: string, updates: Partial<Commission>, clear: string[] = []): Promise<ApiResponse<Commission>> {
+    const invalid = checkPayload(CommissionSchema.partial(), updates);
+    if (invalid) return invalid;
+    return request('PUT', '/commissions', { query: { id, clear: clear.join(',') }, body: updates }, 'Failed to update commission');
   },
   
   async approve(id: string): Promise<ApiResponse<Commission>> {
-    await delay(SIMULATED_DELAY_MS);
-    
-    try {
-      const companyId = getCurrentCompanyId();
-      const commissions = loadCommissions(companyId);
-      const index = commissions.findIndex(c => c.id === id);
-      
-      if (index === -1) {
-        return createErrorResponse('Commission not found');
-      }
-      
-      commissions[index] = {
-        ...commissions[index],
-        status: 'approved',
-        approvedAt: new Date().toISOString()
-      };
-      
-      saveCommissions(companyId, commissions);
-      return createResponse(commissions[index]);
-    } catch (err) {
-      return createErrorResponse('Failed to approve commission');
-    }
+    return request('PATCH', '/commissions', { query: { id, action: 'approve' } }, 'Failed to approve commission');
   },
   
   async markPaid(id: string): Promise<ApiResponse<Commission>> {
-    await delay(SIMULATED_DELAY_MS);
-    
-    try {
-      const companyId = getCurrentCompanyId();
-      const commissions = loadCommissions(companyId);
-      const index = commissions.findIndex(c => c.id === id);
-      
-      if (index === -1) {
-        return createErrorResponse('Commission not found');
-      }
-      
-      commissions[index] = {
-        ...commissions[index],
-        status: 'paid',
-        paidAt: new Date().toISOString()
-      };
-      
-      saveCommissions(companyId, commissions);
-      return createResponse(commissions[index]);
-    } catch (err) {
-      return createErrorResponse('Failed to mark commission as paid');
-    }
+    return request('PATCH', '/commissions', { query: { id, action: 'markPaid' } }, 'Failed to mark commission as paid');
   },
   
   async bulkApprove(ids: string[]): Promise<ApiResponse<Commission[]>> {
-    await delay(SIMULATED_DELAY_MS);
-    
-    try {
-      const companyId = getCurrentCompanyId();
-      const commissions = loadCommissions(companyId);
-      const approved: Commission[] = [];
-      const now = new Date().toISOString();
-      
-      commissions.forEach((commission, index) => {
-        if (ids.includes(commission.id) && commission.status === 'pending') {
-          commissions[index] = {
-            ...commission,
-            status: 'approved',
-            approvedAt: now
-          };
-          approved.push(commissions[index]);
-        }
-      });
-      
-      saveCommissions(companyId, commissions);
-      return createResponse(approved);
-    } catch (err) {
-      return createErrorResponse('Failed to bulk approve commissions');
-    }
+    return request('PATCH', '/commissions', { query: { action: 'bulkApprove' }, body: { ids } }, 'Failed to bulk approve commissions');
   }
 };
 
@@ -622,116 +321,269 @@ export const commissionsApi = {
 
 export const companyApi = {
   async getCurrent(): Promise<ApiResponse<any>> {
-    await delay(SIMULATED_DELAY_MS);
-    
-    try {
-      const company = loadCurrentCompany();
-      if (!company) {
-        return createErrorResponse('No company selected');
-      }
-      return createResponse(company);
-    } catch (err) {
-      return createErrorResponse('Failed to fetch company');
-    }
+    return request('GET', '/company', {}, 'Failed to fetch company');
   },
   
   async getAll(): Promise<ApiResponse<any[]>> {
-    await delay(SIMULATED_DELAY_MS);
-    
-    try {
-      const companies = loadCompanies();
-      return createResponse(companies);
-    } catch (err) {
-      return createErrorResponse('Failed to fetch companies');
-    }
+    return request('GET', '/company', { query: { action: 'all' } }, 'Failed to fetch companies');
   },
   
   async getSettings(companyId: string): Promise<ApiResponse<any>> {
-    await delay(SIMULATED_DELAY_MS);
-    
+    return request('GET', '/company', { query: { action: 'settings', id: companyId } }, 'Failed to fetch company settings');
+  },
+  
+  async updateSettings(companyId: string, settings: any): Promise<ApiResponse<any>> {
+    return request('PUT', '/company', { query: { action: 'settings', id: companyId }, body: settings }, 'Failed to update company settings');
+  },
+  
+  async getPricing(): Promise<ApiResponse<PricingConfig>> {
+    return request('GET', '/company', { query: { action: 'pricing' } }, 'Failed to fetch pricing');
+  },
+  
+  async updatePricing(pricing: PricingConfig): Promise<ApiResponse<PricingConfig>> {
+    return request('PUT', '/company', { query: { action: 'pricing' }, body: pricing }, 'Failed to update pricing');
+  },
+
+  async getEquipment(): Promise<ApiResponse<EquipmentCatalog>> {
+    return request('GET', '/company', { query: { action: 'equipment' } }, 'Failed to fetch equipment catalog');
+  },
+
+  async updateEquipment(catalog: EquipmentCatalog): Promise<ApiResponse<EquipmentCatalog>> {
+    return request('PUT', '/company', { query: { action: 'equipment' }, body: catalog }, 'Failed to update equipment catalog');
+  },
+
+  async getContractTemplates(): Promise<ApiResponse<ContractTemplateConfig>> {
+    return request('GET', '/company', { query: { action: 'contractTemplates' } }, 'Failed to fetch contract templates');
+  },
+
+  async updateContractTemplates(config: ContractTemplateConfig): Promise<ApiResponse<ContractTemplateConfig>> {
+    return request('PUT', '/company', { query: { action: 'contractTemplates' }, body: config }, 'Failed to update contract templates');
+  },
+
+  // Every version, oldest effective date first
+  async getCommissionRules(): Promise<ApiResponse<CommissionRules[]>> {
+    return request('GET', '/company', { query: { action: 'commissionRules' } }, 'Failed to fetch commission rules');
+  },
+
+  // Saves the rules as the version effective from rules.effectiveFrom; returns every version
+  async updateCommissionRules(rules: CommissionRules): Promise<ApiResponse<CommissionRules[]>> {
+    return request('PUT', '/company', { query: { action: 'commissionRules' }, body: rules }, 'Failed to update commission rules');
+  },
+
+  async getLeadPipeline(): Promise<ApiResponse<LeadPipelineConfig>> {
+    return request('GET', '/company', { query: { action: 'leadPipeline' } }, 'Failed to fetch lead pipeline');
+  },
+
+  async updateLeadPipeline(pipeline: LeadPipelineConfig): Promise<ApiResponse<LeadPipelineConfig>> {
+    return request('PUT', '/company', { query: { action: 'leadPipeline' }, body: pipeline }, 'Failed to update lead pipeline');
+  },
+
+  async getPipeline(): Promise<ApiResponse<PipelineStage[]>> {
+    return request('GET', '/company', { query: { action: 'pipeline' } }, 'Failed to fetch pipeline');
+  },
+
+  async updatePipeline(stages: PipelineStage[]): Promise<ApiResponse<PipelineStage[]>> {
+    return request('PUT', '/company', { query: { action: 'pipeline' }, body: stages }, 'Failed to update pipeline');
+  }
+};
+
+// =============================================================================
+// Proposals API
+// =============================================================================
+
+export const proposalsApi = {
+  async getForLead(leadId: string): Promise<ApiResponse<ProposalSummary[]>> {
+    return request('GET', '/proposals', { query: { leadId } }, 'Failed to fetch proposal versions');
+  },
+
+  // Renders and stores a new immutable version with its customer link
+  async issue(lead: Lead, analysis: SolarAnalysis, brand: ProposalBrand, repName: string): Promise<ApiResponse<ProposalSummary>> {
+    return request('POST', '/proposals', { body: { lead, analysis, brand, repName } }, 'Failed to issue proposal');
+  },
+
+  // One version with its snapshot (no PDF body)
+  async getById(id: string): Promise<ApiResponse<Omit<ProposalVersion, 'pdfBase64'>>> {
+    return request('GET', '/proposals', { query: { id } }, 'Failed to fetch proposal');
+  },
+
+  async downloadPdf(id: string): Promise<Blob | null> {
     try {
-      const key = `primus_company_settings_${companyId}`;
-      const stored = localStorage.getItem(key);
-      const settings = stored ? JSON.parse(stored) : {};
-      return createResponse(settings);
+      const response = await fetch(buildUrl('/proposals', { id, format: 'pdf' }), { headers: getAuthHeaders() });
+      return response.ok ? await response.blob() : null;
     } catch (err) {
-      return createErrorResponse('Failed to fetch company settings');
+      console.error('API Error (GET /proposals pdf):', err);
+      return null;
     }
   },
-  
-  async updateSettings(companyId: string, settings: any): Promise<ApiResponse<any>> {
-    await delay(SIMULATED_DELAY_MS);
-    
+
+  shareUrl(token: string): string {
+    return `${window.location.origin}${buildUrl('/proposals', { token })}`;
+  }
+};
+
+// =============================================================================
+// Contracts API
+// =============================================================================
+
+export const contractsApi = {
+  async getForLead(leadId: string): Promise<ApiResponse<Contract[]>> {
+    return request('GET', '/contracts', { query: { leadId } }, 'Failed to fetch contracts');
+  },
+
+  // Merges the template over an issued proposal version and freezes the
+  // agreement text and its hash
+  async create(
+    proposalId: string,
+    parties: { templateId?: string; financingOptionId?: string; companyName?: string; coHomeowner?: ContractParty; rep: ContractParty }
+  ): Promise<ApiResponse<Contract>> {
+    return request('POST', '/contracts', { body: { proposalId, ...parties } }, 'Failed to create contract');
+  },
+
+  async sign(
+    id: string,
+    signature: { signerId: string; consent: boolean; typedName: string; strokes: SignatureStroke[]; documentSha256: string }
+  ): Promise<ApiResponse<Contract>> {
+    return request('POST', '/contracts', { query: { id, action: 'sign' }, body: signature }, 'Failed to record signature');
+  },
+
+  async void(id: string): Promise<ApiResponse<Contract>> {
+    return request('POST', '/contracts', { query: { id, action: 'void' } }, 'Failed to void contract');
+  },
+
+  async downloadPdf(id: string): Promise<Blob | null> {
     try {
-      const key = `primus_company_settings_${companyId}`;
-      localStorage.setItem(key, JSON.stringify(settings));
-      return createResponse(settings);
+      const response = await fetch(buildUrl('/contracts', { id, format: 'pdf' }), { headers: getAuthHeaders() });
+      return response.ok ? await response.blob() : null;
     } catch (err) {
-      return createErrorResponse('Failed to update company settings');
+      console.error('API Error (GET /contracts pdf):', err);
+      return null;
     }
   }
 };
 
+// =============================================================================
+// Payout Runs API
+// =============================================================================
+
+// Run changes come back with the commission lines they locked, paid or released
+export interface PayoutRunResult {
+  run: PayoutRun;
+  commissions: Commission[];
+}
+
+export const payoutRunsApi = {
+  async getAll(): Promise<ApiResponse<PayoutRun[]>> {
+    return request('GET', '/payout-runs', {}, 'Failed to fetch payout runs');
+  },
+
+  async create(commissionIds: string[], periodStart: string, periodEnd: string): Promise<ApiResponse<PayoutRunResult>> {
+    return request('POST', '/payout-runs', { body: { commissionIds, periodStart, periodEnd } }, 'Failed to create payout run');
+  },
+
+  async markPaid(id: string, payment: { paidAt: string; payoutMethod: string }): Promise<ApiResponse<PayoutRunResult>> {
+    return request('PUT', '/payout-runs', { query: { id, action: 'markPaid' }, body: payment }, 'Failed to mark payout run paid');
+  },
+
+  async void(id: string): Promise<ApiResponse<PayoutRunResult>> {
+    return request('DELETE', '/payout-runs', { query: { id } }, 'Failed to void payout run');
+  },
+
+  async getAchOriginator(): Promise<ApiResponse<AchOriginator>> {
+    return request('GET', '/payout-runs', { query: { action: 'achOriginator' } }, 'Failed to fetch ACH originator');
+  },
+
+  async updateAchOriginator(originator: AchOriginator): Promise<ApiResponse<AchOriginator>> {
+    return request('PUT', '/payout-runs', { query: { action: 'achOriginator' }, body: originator }, 'Failed to update ACH originator');
+  }
+};
+
+// =============================================================================
+// Appointments API
+// =============================================================================
+
+export interface AppointmentBookingResult {
+  appointment: Appointment;
+  appointments: Appointment[]; // Every appointment the booking changed
+}
+
+export const appointmentsApi = {
+  async getAll(): Promise<ApiResponse<Appointment[]>> {
+    return request('GET', '/appointments', {}, 'Failed to fetch appointments');
+  },
+
+  async book(leadId: string, slot: Pick<AppointmentSlot, 'repId' | 'startAt' | 'endAt'>): Promise<ApiResponse<AppointmentBookingResult>> {
+    return request('POST', '/appointments', { body: { leadId, slot } }, 'Failed to book appointment');
+  },
+
+  async setStatus(id: string, status: 'showed' | 'no_show' | 'cancelled'): Promise<ApiResponse<Appointment>> {
+    return request('PUT', '/appointments', { query: { id, action: 'status' }, body: { status } }, 'Failed to update appointment');
+  },
+
+  async sendReminders(): Promise<ApiResponse<Appointment[]>> {
+    return request('PUT', '/appointments', { query: { action: 'reminders' } }, 'Failed to send appointment reminders');
+  },
+
+  async getSettings(): Promise<ApiResponse<AppointmentSettings>> {
+    return request('GET', '/appointments', { query: { action: 'settings' } }, 'Failed to fetch appointment settings');
+  },
+
+  async updateSettings(settings: AppointmentSettings): Promise<ApiResponse<AppointmentSettings>> {
+    return request('PUT', '/appointments', { query: { action: 'settings' }, body: settings }, 'Failed to update appointment settings');
+  }
+};
+
+// =============================================================================
+// Install Schedule API
+// =============================================================================
+
+export const installScheduleApi = {
+  async get(): Promise<ApiResponse<InstallSchedule>> {
+    return request('GET', '/install-schedule', {}, 'Failed to fetch install schedule');
+  },
+
+  async book(projectId: string, installerId: string, crewId: string, startDate: string): Promise<ApiResponse<InstallSchedule>> {
+    return request('PUT', '/install-schedule', { query: { action: 'book' }, body: { projectId, installerId, crewId, startDate } }, 'Failed to schedule install');
+  },
+
+  async unschedule(appointmentId: string): Promise<ApiResponse<InstallSchedule>> {
+    return request('DELETE', '/install-schedule', { query: { id: appointmentId } }, 'Failed to unschedule install');
+  },
+
+  async toggleWeatherHold(hold: WeatherHold): Promise<ApiResponse<InstallSchedule>> {
+    return request('PUT', '/install-schedule', { query: { action: 'weatherHold' }, body: hold }, 'Failed to update weather hold');
+  }
+};
+
+// =============================================================================
+// Files API
+// =============================================================================
+
+export const filesApi = {
+  async upload(fileName: string, mimeType: string, dataUrl: string): Promise<ApiResponse<StoredFile>> {
+    return request('POST', '/files', { body: { fileName, mimeType, dataUrl } }, `Failed to upload ${fileName}`);
+  },
+
+  // The file with its content as a data URL
+  async get(id: string): Promise<ApiResponse<StoredFile>> {
+    return request('GET', '/files', { query: { id } }, 'Failed to fetch file');
+  }
+};
+
 // =============================================================================
 // Reps API
 // =============================================================================
 
 export const repsApi = {
   async getAll(): Promise<ApiResponse<Rep[]>> {
-    await delay(SIMULATED_DELAY_MS);
-    
-    try {
-      const companyId = getCurrentCompanyId();
-      const reps = loadReps(companyId);
-      return createResponse(reps, { total: reps.length });
-    } catch (err) {
-      return createErrorResponse('Failed to fetch reps');
-    }
+    return request('GET', '/reps', {}, 'Failed to fetch reps');
   },
   
   async getById(id: string): Promise<ApiResponse<Rep | null>> {
-    await delay(SIMULATED_DELAY_MS);
-    
-    try {
-      const companyId = getCurrentCompanyId();
-      const reps = loadReps(companyId);
-      const rep = reps.find(r => r.id === id) || null;
-      
-      if (!rep) {
-        return createErrorResponse('Rep not found');
-      }
-      
-      return createResponse(rep);
-    } catch (err) {
-      return createErrorResponse('Failed to fetch rep');
-    }
+    return request('GET', '/reps', { query: { id } }, 'Failed to fetch rep');
   },
   
   async getStats(repId: string): Promise<ApiResponse<any>> {
-    await delay(SIMULATED_DELAY_MS);
-    
-    try {
-      const companyId = getCurrentCompanyId();
-      const leads = loadLeads(companyId);
-      const projects = loadProjects(companyId);
-      
-      const repLeads = leads.filter(l => l.repId === repId);
-      const repProjects = projects.filter(p => p.repId === repId);
-      
-      const stats = {
-        totalLeads: repLeads.length,
-        closedLeads: repLeads.filter(l => l.status === 'closed').length,
-        totalProjects: repProjects.length,
-        totalRevenue: repProjects.reduce((sum, p) => sum + p.contractValue, 0),
-        conversionRate: repLeads.length > 0 
-          ? (repLeads.filter(l => l.status === 'closed').length / repLeads.length * 100).toFixed(1)
-          : 0
-      };
-      
-      return createResponse(stats);
-    } catch (err) {
-      return createErrorResponse('Failed to fetch rep stats');
-    }
+    return request('GET', '/reps', { query: { id: repId, action: 'stats' } }, 'Failed to fetch rep stats');
   }
 };
 
@@ -741,71 +593,15 @@ export const repsApi = {
 
 export const installersApi = {
   async getAll(): Promise<ApiResponse<Installer[]>> {
-    await delay(SIMULATED_DELAY_MS);
-    
-    try {
-      const companyId = getCurrentCompanyId();
-      const installers = loadInstallers(companyId);
-      return createResponse(installers, { total: installers.length });
-    } catch (err) {
-      return createErrorResponse('Failed to fetch installers');
-    }
+    return request('GET', '/installers', {}, 'Failed to fetch installers');
   },
   
   async getById(id: string): Promise<ApiResponse<Installer | null>> {
-    await delay(SIMULATED_DELAY_MS);
-    
-    try {
-      const companyId = getCurrentCompanyId();
-      const installers = loadInstallers(companyId);
-      const installer = installers.find(i => i.id === id) || null;
-      
-      if (!installer) {
-        return createErrorResponse('Installer not found');
-      }
-      
-      return createResponse(installer);
-    } catch (err) {
-      return createErrorResponse('Failed to fetch installer');
-    }
+    return request('GET', '/installers', { query: { id } }, 'Failed to fetch installer');
   },
   
   async getPerformance(installerId: string): Promise<ApiResponse<any>> {
-    await delay(SIMULATED_DELAY_MS);
-    
-    try {
-      const companyId = getCurrentCompanyId();
-      const projects = loadProjects(companyId);
-      
-      const installerProjects = projects.filter(p => p.installerId === installerId);
-      const completedProjects = installerProjects.filter(p => p.stage === 'complete');
-      
-      // Calculate average days to complete
-      let totalDays = 0;
-      let countWithDates = 0;
-      
-      completedProjects.forEach(p => {
-        if (p.contractDate && p.installDate) {
-          const start = new Date(p.contractDate);
-          const end = new Date(p.installDate);
-          const days = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
-          totalDays += days;
-          countWithDates++;
-        }
-      });
-      
-      const performance = {
-        totalProjects: installerProjects.length,
-        completedProjects: completedProjects.length,
-        inProgressProjects: installerProjects.filter(p => p.stage !== 'complete').length,
-        avgDaysToComplete: countWithDates > 0 ? Math.round(totalDays / countWithDates) : null,
-        totalKW: installerProjects.reduce((sum, p) => sum + (p.systemSize || 0), 0)
-      };
-      
-      return createResponse(performance);
-    } catch (err) {
-      return createErrorResponse('Failed to fetch installer performance');
-    }
+    return request('GET', '/installers', { query: { id: installerId, action: 'performance' } }, 'Failed to fetch installer performance');
   }
 };
 
@@ -815,11 +611,8 @@ export const installersApi = {
 
 export const analyticsApi = {
   async getRevenueSummary(dateFrom?: string, dateTo?: string): Promise<ApiResponse<any>> {
-    await delay(SIMULATED_DELAY_MS);
-    
     try {
-      const companyId = getCurrentCompanyId();
-      const projects = loadProjects(companyId);
+      const projects = await fetchAll<Project>('/projects', 'Failed to fetch projects');
       
       let filtered = projects;
       if (dateFrom) {
@@ -858,12 +651,9 @@ export const analyticsApi = {
   },
   
   async getPipelineSummary(): Promise<ApiResponse<any>> {
-    await delay(SIMULATED_DELAY_MS);
-    
     try {
-      const companyId = getCurrentCompanyId();
-      const leads = loadLeads(companyId);
-      const projects = loadProjects(companyId);
+      const leads = await fetchAll<Lead>('/leads', 'Failed to fetch leads');
+      const projects = await fetchAll<Project>('/projects', 'Failed to fetch projects');
       
       const leadsByStatus = {} as Record<string, number>;
       leads.forEach(l => {
@@ -890,12 +680,9 @@ export const analyticsApi = {
   },
   
   async getTeamLeaderboard(): Promise<ApiResponse<any[]>> {
-    await delay(SIMULATED_DELAY_MS);
-    
     try {
-      const companyId = getCurrentCompanyId();
-      const reps = loadReps(companyId);
-      const projects = loadProjects(companyId);
+      const reps = await fetchAll<Rep>('/reps', 'Failed to fetch reps');
+      const projects = await fetchAll<Project>('/projects', 'Failed to fetch projects');
       
       const leaderboard = reps.map(rep => {
         const repProjects = projects.filter(p => p.repId === rep.id);
@@ -924,19 +711,17 @@ export const analyticsApi = {
 
 export const dataApi = {
   async exportAll(): Promise<ApiResponse<any>> {
-    await delay(SIMULATED_DELAY_MS);
-    
     try {
       const companyId = getCurrentCompanyId();
       
       const exportData = {
         exportedAt: new Date().toISOString(),
         companyId,
-        leads: loadLeads(companyId),
-        projects: loadProjects(companyId),
-        reps: loadReps(companyId),
-        installers: loadInstallers(companyId),
-        commissions: loadCommissions(companyId)
+        leads: await fetchAll<Lead>('/leads', 'Failed to fetch leads'),
+        projects: await fetchAll<Project>('/projects', 'Failed to fetch projects'),
+        reps: await fetchAll<Rep>('/reps', 'Failed to fetch reps'),
+        installers: await fetchAll<Installer>('/installers', 'Failed to fetch installers'),
+        commissions: await fetchAll<Commission>('/commissions', 'Failed to fetch commissions')
       };
       
       return createResponse(exportData);
@@ -946,46 +731,27 @@ export const dataApi = {
   },
   
   async importAll(data: any): Promise<ApiResponse<{ imported: Record<string, number> }>> {
-    await delay(SIMULATED_DELAY_MS);
+    const imported: Record<string, number> = {};
+    const collections = ['leads', 'projects', 'commissions'] as const;
     
-    try {
-      const companyId = getCurrentCompanyId();
-      const imported: Record<string, number> = {};
+    for (const collection of collections) {
+      if (!data[collection]?.length) continue;
       
-      if (data.leads?.length) {
-        saveLeadsForCompany(companyId, data.leads);
-        imported.leads = data.leads.length;
-      }
-      
-      if (data.projects?.length) {
-        saveProjectsForCompany(companyId, data.projects);
-        imported.projects = data.projects.length;
-      }
+      const result = await request('PUT', `/${collection}`, {
+        query: { action: 'replace' },
+        body: { [collection]: data[collection] }
+      }, 'Failed to import data');
       
-      if (data.commissions?.length) {
-        saveCommissions(companyId, data.commissions);
-        imported.commissions = data.commissions.length;
+      if (!result.success) {
+        return createErrorResponse(result.error || 'Failed to import data');
       }
-      
-      return createResponse({ imported });
-    } catch (err) {
-      return createErrorResponse('Failed to import data');
+      imported[collection] = data[collection].length;
     }
+    
+    return createResponse({ imported });
   }
 };
 
-// =============================================================================
-// Utility
-// =============================================================================
-
-function generateUUID(): string {
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
-    const r = Math.random() * 16 | 0;
-    const v = c === 'x' ? r : (r & 0x3 | 0x8);
-    return v.toString(16);
-  });
-}
-
 // =============================================================================
 // Unified API Object (for convenience)
 // =============================================================================
@@ -995,6 +761,12 @@ export const api = {
   projects: projectsApi,
   commissions: commissionsApi,
   company: companyApi,
+  proposals: proposalsApi,
+  contracts: contractsApi,
+  payoutRuns: payoutRunsApi,
+  appointments: appointmentsApi,
+  installSchedule: installScheduleApi,
+  files: filesApi,
   reps: repsApi,
   installers: installersApi,
   analytics: analyticsApi,
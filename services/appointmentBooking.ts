@@ -0,0 +1,328 @@
+// services/appointmentBooking.ts
+// Appointment Booking - open times, closer assignment and the booking checks
+// Pure rules shared by api/appointments, which books against every setter's
+// appointments, and the lead screen (services/appointments.ts), which offers
+// the times.
+
+import type { Lead, Rep } from '../types';
+import { extractZip, locateZip, distanceKm } from './irradianceData';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AvailabilityWindow {
+  id: string;
+  repId: string;
+  weekday: number; // 0 = Sunday
+  start: string; // HH:MM, local time
+  end: string;
+}
+
+// Leads matching a rule go to its closers; the first matching rule wins
+export interface AssignmentRule {
+  id: string;
+  name: string;
+  zipPrefixes: string[]; // Empty matches any address
+  minBill?: number; // Minimum estimated monthly bill
+  repIds: string[];
+}
+
+export type AssignmentMode = 'round_robin' | 'rules';
+
+export interface AppointmentSettings {
+  durationMinutes: number;
+  slotStepMinutes: number;
+  reminderMinutes: number; // How long before the appointment the closer is reminded
+  assignment: AssignmentMode;
+  rules: AssignmentRule[];
+  windows: AvailabilityWindow[];
+  lastAssignedRepId: string | null; // Round-robin position
+}
+
+export type AppointmentStatus = 'scheduled' | 'showed' | 'no_show' | 'cancelled';
+
+export interface Appointment {
+  id: string;
+  leadId: string;
+  leadName: string;
+  address: string;
+  repId: string; // Closer
+  setterId: string | null;
+  startAt: string; // ISO date-time
+  endAt: string;
+  status: AppointmentStatus;
+  createdAt: string;
+  reminderSentAt?: string;
+  outcomeAt?: string;
+}
+
+export interface AppointmentSlot {
+  repId: string;
+  startAt: string;
+  endAt: string;
+  travelMinutes: number; // From the closer's previous stop that day, 0 when it's the first
+}
+
+export interface RepAppointmentStats {
+  repId: string;
+  booked: number;
+  showed: number;
+  noShow: number;
+  upcoming: number;
+  showRate: number | null; // Percent of appointments with an outcome; null before the first
+}
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+export const DEFAULT_APPOINTMENT_SETTINGS: AppointmentSettings = {
+  durationMinutes: 90,
+  slotStepMinutes: 30,
+  reminderMinutes: 120,
+  assignment: 'round_robin',
+  rules: [],
+  windows: [],
+  lastAssignedRepId: null,
+};
+
+export const APPOINTMENT_STATUS_LABELS: Record<AppointmentStatus, string> = {
+  scheduled: 'Scheduled',
+  showed: 'Showed',
+  no_show: 'No-Show',
+  cancelled: 'Cancelled',
+};
+
+// Driving estimate: straight-line distance × road factor at an average speed.
+// Addresses are located on the irradiance ZIP3 grid, which is coarse: stops in
+// the same ZIP3 get the minimum, and different ZIP3s that share a grid cell
+// get the same allowance as an address we can't place.
+const ROAD_FACTOR = 1.3;
+const AVERAGE_SPEED_KMH = 50;
+const MIN_TRAVEL_MINUTES = 20;
+const UNKNOWN_TRAVEL_MINUTES = 45;
+
+// ============================================================================
+// TRAVEL
+// ============================================================================
+
+/**
+ * Estimated driving minutes between two addresses, rounded up to 5 minutes
+ */
+export function travelMinutes(from: string, to: string): number {
+  const fromZip = extractZip(from || '');
+  const toZip = extractZip(to || '');
+  const a = fromZip ? locateZip(fromZip) : null;
+  const b = toZip ? locateZip(toZip) : null;
+  if (!fromZip || !toZip || !a || !b) return UNKNOWN_TRAVEL_MINUTES;
+  if (fromZip.slice(0, 3) === toZip.slice(0, 3)) return MIN_TRAVEL_MINUTES;
+  if (a === b) return UNKNOWN_TRAVEL_MINUTES;
+  const minutes = (distanceKm(a, b) * ROAD_FACTOR / AVERAGE_SPEED_KMH) * 60;
+  return Math.max(MIN_TRAVEL_MINUTES, Math.ceil(minutes / 5) * 5);
+}
+
+// ============================================================================
+// ASSIGNMENT AND SLOTTING
+// ============================================================================
+
+const MINUTE_MS = 60 * 1000;
+// Stops further apart than this are on different working days. Compared by
+// time rather than calendar day so the server, in UTC, agrees with the browser.
+const SAME_DAY_GAP_MS = 12 * 60 * MINUTE_MS;
+
+const toMinutes = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + (m || 0);
+};
+
+/**
+ * Closers who could take the lead, in the order they're next up. Rules narrow
+ * the pool when the company assigns by rules; round-robin order breaks ties.
+ */
+export function candidateClosers(lead: Lead, settings: AppointmentSettings, reps: Rep[]): Rep[] {
+  const closers = reps.filter(r => r.isActive && settings.windows.some(w => w.repId === r.id));
+  let pool = closers;
+  if (settings.assignment === 'rules') {
+    const zip = extractZip(lead.address || '') || '';
+    const rule = settings.rules.find(r =>
+      (r.zipPrefixes.length === 0 || r.zipPrefixes.some(prefix => zip.startsWith(prefix))) &&
+      (r.minBill === undefined || (lead.estimatedBill || 0) >= r.minBill)
+    );
+    if (rule) pool = closers.filter(r => rule.repIds.includes(r.id));
+  }
+
+  // Start the rotation just after whoever was assigned last
+  const last = pool.findIndex(r => r.id === settings.lastAssignedRepId);
+  return last === -1 ? pool : [...pool.slice(last + 1), ...pool.slice(0, last + 1)];
+}
+
+/**
+ * Whether the closer can take [start, end) at this address given their other
+ * appointments that day, leaving drive time either side
+ */
+function fitsBetween(start: number, end: number, address: string, booked: Appointment[]): { fits: boolean; travel: number } {
+  const sorted = booked
+    .filter(a => new Date(a.endAt).getTime() > start - SAME_DAY_GAP_MS && new Date(a.startAt).getTime() < end + SAME_DAY_GAP_MS)
+    .sort((a, b) => a.startAt.localeCompare(b.startAt));
+  let travel = 0;
+  for (const appt of sorted) {
+    const apptStart = new Date(appt.startAt).getTime();
+    const apptEnd = new Date(appt.endAt).getTime();
+    if (apptEnd <= start) {
+      const needed = travelMinutes(appt.address, address);
+      if (apptEnd + needed * MINUTE_MS > start) return { fits: false, travel: 0 };
+      travel = needed;
+    } else if (apptStart >= end) {
+      if (end + travelMinutes(address, appt.address) * MINUTE_MS > apptStart) return { fits: false, travel: 0 };
+    } else {
+      return { fits: false, travel: 0 };
+    }
+  }
+  return { fits: true, travel };
+}
+
+/**
+ * Open appointment times for a lead over the coming days. Each time is
+ * offered once, assigned to the first closer in rotation who can make it.
+ */
+export function suggestSlots(
+  lead: Lead,
+  settings: AppointmentSettings,
+  appointments: Appointment[],
+  reps: Rep[],
+  options: { from?: Date; days?: number; limit?: number } = {}
+): AppointmentSlot[] {
+  const from = options.from || new Date();
+  const days = options.days ?? 7;
+  const limit = options.limit ?? 12;
+  const closers = candidateClosers(lead, settings, reps);
+  const active = appointments.filter(a => a.status !== 'cancelled' && a.leadId !== lead.id);
+
+  const byTime = new Map<number, AppointmentSlot>();
+  closers.forEach(closer => {
+    const windows = settings.windows.filter(w => w.repId === closer.id);
+    const booked = active.filter(a => a.repId === closer.id);
+    for (let d = 0; d < days; d++) {
+      const day = new Date(from.getFullYear(), from.getMonth(), from.getDate() + d);
+      windows.filter(w => w.weekday === day.getDay()).forEach(window => {
+        const windowEnd = toMinutes(window.end);
+        for (let m = toMinutes(window.start); m + settings.durationMinutes <= windowEnd; m += settings.slotStepMinutes) {
+          const start = day.getTime() + m * MINUTE_MS;
+          if (start < from.getTime() || byTime.has(start)) continue;
+          const end = start + settings.durationMinutes * MINUTE_MS;
+          const { fits, travel } = fitsBetween(start, end, lead.address, booked);
+          if (fits) {
+            byTime.set(start, {
+              repId: closer.id,
+              startAt: new Date(start).toISOString(),
+              endAt: new Date(end).toISOString(),
+              travelMinutes: travel,
+            });
+          }
+        }
+      });
+    }
+  });
+
+  return Array.from(byTime.entries())
+    .sort(([a], [b]) => a - b)
+    .slice(0, limit)
+    .map(([, slot]) => slot);
+}
+
+// ============================================================================
+// BOOKING AND OUTCOMES
+// ============================================================================
+
+/**
+ * Book a slot against the company's appointments. Rechecks the closer's
+ * calendar, since another setter may have taken the time. A lead has one
+ * open appointment; rebooking cancels it. Returns the new appointment and
+ * every appointment that changed; the caller stores them.
+ */
+export function bookSlot(
+  appointments: Appointment[],
+  lead: Lead,
+  slot: { repId: string; startAt: string; endAt: string },
+  closer: Rep | null | undefined,
+  setterId: string | null
+): { appointment: Appointment; changed: Appointment[] } {
+  if (!closer) throw new Error('Closer not found');
+  const start = new Date(slot.startAt).getTime();
+  const end = new Date(slot.endAt).getTime();
+  if (isNaN(start) || isNaN(end) || end <= start) throw new Error('Pick a time that ends after it starts');
+  const booked = appointments.filter(a => a.repId === slot.repId && a.status !== 'cancelled' && a.leadId !== lead.id);
+  if (!fitsBetween(start, end, lead.address, booked).fits) {
+    throw new Error('That time was just taken; pick another');
+  }
+
+  const previous = appointments.find(a => a.leadId === lead.id && a.status === 'scheduled');
+  const appointment: Appointment = {
+    id: 'appt_' + Date.now().toString(36) + '_' + Math.random().toString(36).substring(2, 7),
+    leadId: lead.id,
+    leadName: lead.name,
+    address: lead.address,
+    repId: slot.repId,
+    setterId,
+    startAt: new Date(start).toISOString(),
+    endAt: new Date(end).toISOString(),
+    status: 'scheduled',
+    createdAt: new Date().toISOString(),
+  };
+  return {
+    appointment,
+    changed: previous ? [{ ...previous, status: 'cancelled' }, appointment] : [appointment],
+  };
+}
+
+/**
+ * Record whether the homeowner showed, or cancel the appointment
+ */
+export function recordOutcome(
+  appointment: Appointment | null | undefined,
+  status: Exclude<AppointmentStatus, 'scheduled'>,
+  now: Date = new Date()
+): Appointment {
+  if (!appointment) throw new Error('Appointment not found');
+  if (appointment.status !== 'scheduled') throw new Error(`Appointment is already ${APPOINTMENT_STATUS_LABELS[appointment.status].toLowerCase()}`);
+  if (status !== 'cancelled' && new Date(appointment.startAt).getTime() > now.getTime()) {
+    throw new Error("The appointment hasn't started yet");
+  }
+  return { ...appointment, status, outcomeAt: now.toISOString() };
+}
+
+/**
+ * Scheduled appointments starting within the reminder lead time that haven't
+ * been reminded yet
+ */
+export function dueReminders(appointments: Appointment[], settings: AppointmentSettings, now: Date = new Date()): Appointment[] {
+  return appointments.filter(a => {
+    if (a.status !== 'scheduled' || a.reminderSentAt) return false;
+    const until = new Date(a.startAt).getTime() - now.getTime();
+    return until > 0 && until <= settings.reminderMinutes * MINUTE_MS;
+  });
+}
+
+// ============================================================================
+// STATS
+// ============================================================================
+
+/**
+ * Booked, showed and no-show counts per closer
+ */
+export function appointmentStatsByRep(appointments: Appointment[]): RepAppointmentStats[] {
+  const byRep = new Map<string, RepAppointmentStats>();
+  appointments.filter(a => a.status !== 'cancelled').forEach(a => {
+    const stats = byRep.get(a.repId) || { repId: a.repId, booked: 0, showed: 0, noShow: 0, upcoming: 0, showRate: null };
+    stats.booked++;
+    if (a.status === 'showed') stats.showed++;
+    if (a.status === 'no_show') stats.noShow++;
+    if (a.status === 'scheduled') stats.upcoming++;
+    byRep.set(a.repId, stats);
+  });
+  return Array.from(byRep.values()).map(s => ({
+    ...s,
+    showRate: s.showed + s.noShow > 0 ? (s.showed / (s.showed + s.noShow)) * 100 : null,
+  }));
+}
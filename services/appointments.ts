@@ -0,0 +1,219 @@
+// services/appointments.ts
+// Appointments - setter-to-closer handoff
+// Closers publish weekly availability windows; a setter booking a lead is
+// offered open times, each already assigned to a closer by round-robin
+// (optionally narrowed by territory and bill rules). Slots leave room to
+// drive from the closer's previous appointment and on to the next one.
+// Reminders go out through notifications, and show / no-show outcomes feed
+// each closer's stats.
+// While signed in, bookings, outcomes and settings go through api/appointments,
+// which checks every booking against the whole company's calendar; the copy
+// here is a cache. Signed out, the app books against local demo data.
+
+import type { Lead } from '../types';
+import { getActiveCompanyId, getRepById } from './companyStore';
+import { logCreate, logUpdate, getCurrentAuditUser } from './auditLog';
+import { loadSession } from './auth';
+import { appointmentsApi } from './api';
+import { notify } from './notifications';
+import { addLeadActivity } from './leadActivity';
+import {
+  DEFAULT_APPOINTMENT_SETTINGS,
+  bookSlot,
+  dueReminders,
+  recordOutcome,
+  type Appointment,
+  type AppointmentSettings,
+  type AppointmentSlot,
+  type AppointmentStatus,
+} from './appointmentBooking';
+import { loadCompanyMap, saveForCompany } from '../utils/storage';
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+const APPOINTMENTS_KEY = 'primus_appointments';
+const APPOINTMENT_SETTINGS_KEY = 'primus_appointment_settings';
+
+export function loadAppointments(companyId?: string): Appointment[] {
+  return loadCompanyMap<Appointment[]>(APPOINTMENTS_KEY)[companyId || getActiveCompanyId()] || [];
+}
+
+function cacheAppointments(companyId: string, appointments: Appointment[]): void {
+  saveForCompany(APPOINTMENTS_KEY, companyId, appointments);
+}
+
+// Merge appointments the server changed into the cache
+function cacheChangedAppointments(companyId: string, changed: Appointment[]): void {
+  const byId = new Map(changed.map(a => [a.id, a]));
+  const cached = loadAppointments(companyId);
+  cacheAppointments(companyId, [
+    ...cached.map(a => byId.get(a.id) || a),
+    ...changed.filter(a => !cached.some(c => c.id === a.id)),
+  ]);
+}
+
+export function loadAppointmentSettings(companyId?: string): AppointmentSettings {
+  return { ...DEFAULT_APPOINTMENT_SETTINGS, ...loadCompanyMap<AppointmentSettings>(APPOINTMENT_SETTINGS_KEY)[companyId || getActiveCompanyId()] };
+}
+
+function cacheAppointmentSettings(companyId: string, settings: AppointmentSettings): void {
+  saveForCompany(APPOINTMENT_SETTINGS_KEY, companyId, settings);
+}
+
+/**
+ * Save availability, assignment and reminder settings (local cache + server).
+ * Returns the server error message, if any.
+ */
+export async function saveAppointmentSettings(companyId: string, settings: AppointmentSettings): Promise<string | null> {
+  cacheAppointmentSettings(companyId, settings);
+  const result = await appointmentsApi.updateSettings(settings);
+  if (!result.success || !result.data) {
+    return result.error || 'Failed to save appointment settings on the server';
+  }
+  cacheAppointmentSettings(companyId, result.data);
+  return null;
+}
+
+/**
+ * Refresh the cached appointments and settings from the server copy
+ */
+export async function syncAppointmentsFromServer(companyId: string = getActiveCompanyId()): Promise<Appointment[]> {
+  if (!loadSession()) return loadAppointments(companyId);
+  const [appointments, settings] = await Promise.all([appointmentsApi.getAll(), appointmentsApi.getSettings()]);
+  if (appointments.success && appointments.data) {
+    cacheAppointments(companyId, appointments.data);
+  }
+  if (settings.success && settings.data) {
+    cacheAppointmentSettings(companyId, settings.data);
+  }
+  return loadAppointments(companyId);
+}
+
+// ============================================================================
+// BOOKING AND OUTCOMES
+// ============================================================================
+
+/**
+ * Book a suggested slot. The closer's calendar is rechecked, since another
+ * setter may have taken the time, and the round-robin moves on to the closer.
+ * The current user is credited as setter when they're one of the company's
+ * reps. Returns the lead assigned to the closer with the booking on its
+ * timeline; the caller saves it.
+ */
+export async function bookAppointment(
+  lead: Lead,
+  slot: AppointmentSlot,
+  companyId: string = getActiveCompanyId()
+): Promise<{ appointment: Appointment; lead: Lead }> {
+  const closer = getRepById(slot.repId);
+  if (!closer) throw new Error('Closer not found');
+  const user = getCurrentAuditUser();
+  const setterId = getRepById(user.userId) ? user.userId : null;
+  const settings = loadAppointmentSettings(companyId);
+
+  let appointment: Appointment;
+  let rescheduled: boolean;
+  if (loadSession()) {
+    const result = await appointmentsApi.book(lead.id, slot);
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Failed to book appointment');
+    }
+    appointment = result.data.appointment;
+    rescheduled = result.data.appointments.length > 1;
+    cacheChangedAppointments(companyId, result.data.appointments);
+  } else {
+    const booked = bookSlot(loadAppointments(companyId), lead, slot, closer, setterId);
+    appointment = booked.appointment;
+    rescheduled = booked.changed.length > 1;
+    cacheChangedAppointments(companyId, booked.changed);
+  }
+  cacheAppointmentSettings(companyId, { ...settings, lastAssignedRepId: slot.repId });
+  logCreate('Appointment', appointment.id, appointment, { leadId: lead.id, rescheduled });
+
+  notify({
+    companyId,
+    userId: slot.repId,
+    type: 'lead',
+    title: 'Appointment Booked',
+    message: `${lead.name} at ${new Date(slot.startAt).toLocaleString()}, ${lead.address}.`,
+    priority: 'normal',
+    data: { leadId: lead.id, appointmentId: appointment.id },
+  });
+
+  const updatedLead = addLeadActivity(lead, {
+    type: 'appointment',
+    appointmentAt: slot.startAt,
+    body: `With ${closer.name}`,
+  });
+  return {
+    appointment,
+    lead: { ...updatedLead, assignedTo: closer.name, setterId: lead.setterId || appointment.setterId },
+  };
+}
+
+/**
+ * Record whether the homeowner showed, or cancel the appointment
+ */
+export async function setAppointmentStatus(
+  appointmentId: string,
+  status: Exclude<AppointmentStatus, 'scheduled'>,
+  companyId: string = getActiveCompanyId()
+): Promise<Appointment> {
+  const appointment = loadAppointments(companyId).find(a => a.id === appointmentId);
+  let updated: Appointment;
+  if (loadSession()) {
+    const result = await appointmentsApi.setStatus(appointmentId, status);
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Failed to update appointment');
+    }
+    updated = result.data;
+  } else {
+    updated = recordOutcome(appointment, status);
+  }
+  cacheChangedAppointments(companyId, [updated]);
+  logUpdate('Appointment', appointmentId, appointment, updated, { status, by: getCurrentAuditUser().userName });
+  return updated;
+}
+
+/**
+ * Move cached appointments from merged duplicate leads onto the surviving
+ * lead. Signed out only; the server moves its own when it merges the leads.
+ */
+export function reassignAppointments(fromLeadIds: string[], toLeadId: string, companyId: string = getActiveCompanyId()): number {
+  const moved = loadAppointments(companyId)
+    .filter(a => fromLeadIds.includes(a.leadId))
+    .map(a => ({ ...a, leadId: toLeadId }));
+  cacheChangedAppointments(companyId, moved);
+  return moved.length;
+}
+
+/**
+ * Remind closers of appointments starting within the reminder lead time;
+ * each appointment is reminded once
+ */
+export async function sendAppointmentReminders(companyId: string = getActiveCompanyId(), now: Date = new Date()): Promise<number> {
+  let due: Appointment[];
+  if (loadSession()) {
+    const result = await appointmentsApi.sendReminders();
+    if (!result.success || !result.data) return 0;
+    due = result.data;
+  } else {
+    due = dueReminders(loadAppointments(companyId), loadAppointmentSettings(companyId), now)
+      .map(a => ({ ...a, reminderSentAt: now.toISOString() }));
+  }
+  if (due.length === 0) return 0;
+
+  due.forEach(a => notify({
+    companyId,
+    userId: a.repId,
+    type: 'lead',
+    title: 'Upcoming Appointment',
+    message: `${a.leadName} at ${new Date(a.startAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}, ${a.address}.`,
+    priority: 'high',
+    data: { leadId: a.leadId, appointmentId: a.id },
+  }));
+  cacheChangedAppointments(companyId, due);
+  return due.length;
+}
@@ -23,6 +23,8 @@ export type AuditObjectType =
   | 'Installer'
   | 'CustomField'
   | 'CommissionRule'
+  | 'PayoutRun'
+  | 'Appointment'
   | 'Team'
   | 'Company';
 
@@ -0,0 +1,107 @@
+/**
+ * Client Session
+ * Holds the bearer token issued by /api/auth and attaches it to api/ requests.
+ * The server derives userId, companyId and role from the token alone.
+ */
+
+import type { Role } from './rbac';
+
+const AUTH_SESSION_KEY = 'primus_auth_session';
+const CURRENT_USER_KEY = 'primus_current_user'; // read by auditLog.getCurrentAuditUser
+
+export interface SessionUser {
+  id: string;
+  name: string;
+  email: string;
+  role: Role;
+  companyId: string;
+}
+
+export interface AuthSession {
+  token: string;
+  expiresAt: string;
+  user: SessionUser;
+}
+
+/**
+ * Load the current session, dropping it once expired
+ */
+export function loadSession(): AuthSession | null {
+  try {
+    const stored = localStorage.getItem(AUTH_SESSION_KEY);
+    if (!stored) return null;
+    const session: AuthSession = JSON.parse(stored);
+    if (new Date(session.expiresAt).getTime() <= Date.now()) {
+      clearSession();
+      return null;
+    }
+    return session;
+  } catch (e) {
+    console.warn('Failed to load auth session', e);
+    return null;
+  }
+}
+
+function saveSession(session: AuthSession): void {
+  localStorage.setItem(AUTH_SESSION_KEY, JSON.stringify(session));
+  localStorage.setItem(CURRENT_USER_KEY, JSON.stringify({ id: session.user.id, name: session.user.name }));
+}
+
+/**
+ * Role of the signed-in user. Without a server session the app runs locally
+ * as the admin, as the audit log does (getCurrentAuditUser).
+ */
+export function getCurrentRole(): Role {
+  return loadSession()?.user.role || 'admin';
+}
+
+export function clearSession(): void {
+  localStorage.removeItem(AUTH_SESSION_KEY);
+  localStorage.removeItem(CURRENT_USER_KEY);
+}
+
+/**
+ * Headers to send with every api/ request
+ */
+export function getAuthHeaders(): Record<string, string> {
+  const session = loadSession();
+  return session ? { Authorization: `Bearer ${session.token}` } : {};
+}
+
+async function postAuth(action: string | null, body: object): Promise<AuthSession> {
+  const response = await fetch(`/api/auth${action ? `?action=${action}` : ''}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const payload = await response.json().catch(() => null);
+  if (!payload?.success) {
+    throw new Error(payload?.error || `Sign-in failed (HTTP ${response.status})`);
+  }
+  saveSession(payload.data);
+  return payload.data;
+}
+
+/**
+ * Sign in with company, email and password
+ */
+export function login(companyId: string, email: string, password: string): Promise<AuthSession> {
+  return postAuth(null, { companyId, email, password });
+}
+
+/**
+ * Create the first admin account for a company with no users yet
+ */
+export function registerCompanyAdmin(
+  companyId: string,
+  companyName: string,
+  name: string,
+  email: string,
+  password: string
+): Promise<AuthSession> {
+  return postAuth('register', { companyId, companyName, name, email, password });
+}
+
+export function logout(): void {
+  clearSession();
+}
@@ -0,0 +1,215 @@
+// services/commissionEngine.ts
+// Commission Engine - commission lines for real deals
+// Pays a project's contract price under the company's commission rules as the
+// project reaches its tier's payout milestones, and claws back advances when a
+// deal is cancelled.
+
+import type { Commission, CommissionRole, Project, ProjectStage, Rep } from '../types';
+import {
+  AggregateDeal,
+  CommissionRules,
+  PayoutMilestone,
+  DEFAULT_PAYOUT_SCHEDULE,
+  calculateCommission,
+  getApplicableTier,
+} from './commissionRules';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DealContext {
+  estimatedBill?: number; // From the lead, for bonus conditions
+  daysToClose?: number;
+  deals?: AggregateDeal[]; // The company's projects, for rep-total bonus conditions
+  stageOrder?: string[]; // Company pipeline; the last stage counts as PTO
+  today?: string; // YYYY-MM-DD
+}
+
+// One person's share of a deal before it is spread over the payout schedule
+export interface DealShare {
+  role: CommissionRole;
+  repId: string | null;
+  amount: number;
+  bonusAmount: number; // Part of amount paid as bonuses
+  breakdown: string;
+}
+
+const DEFAULT_STAGE_ORDER: ProjectStage[] = ['SITE_SURVEY', 'DESIGN', 'PERMITTING', 'INSTALL', 'INSPECTION', 'PTO'];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const usd = (value: number) => `$${round2(value).toLocaleString('en-US')}`;
+
+// ============================================================================
+// PARTICIPANTS
+// ============================================================================
+
+/**
+ * Manager on the same team as the rep, if any
+ */
+export function findManagerId(repId: string | null | undefined, reps: Rep[]): string | null {
+  const rep = reps.find(r => r.id === repId);
+  if (!rep?.teamId) return null;
+  return reps.find(r => r.role === 'manager' && r.isActive && r.teamId === rep.teamId && r.id !== rep.id)?.id ?? null;
+}
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/**
+ * Milestones a project has reached; cancelled projects reach none
+ */
+export function milestonesReached(project: Project, stageOrder: string[] = DEFAULT_STAGE_ORDER): PayoutMilestone[] {
+  if (project.cancelledAt) return [];
+  const current = stageOrder.indexOf(project.stage);
+  const ptoIndex = stageOrder.includes('PTO') ? stageOrder.indexOf('PTO') : stageOrder.length - 1;
+  const installIndex = stageOrder.includes('INSTALL') ? stageOrder.indexOf('INSTALL') : ptoIndex;
+  const reached: PayoutMilestone[] = ['SIGNED'];
+  if (current >= installIndex && current !== -1) reached.push('INSTALL');
+  if (current >= ptoIndex && current !== -1) reached.push('PTO');
+  return reached;
+}
+
+/**
+ * Everyone's total on the deal: the tier rate on the contract price plus
+ * redline and bonuses, split between setter and closer, and the manager override
+ */
+export function calculateDealShares(project: Project, rules: CommissionRules, context: DealContext = {}): DealShare[] {
+  const calc = calculateCommission(
+    { ...project, estimatedBill: context.estimatedBill, daysToClose: context.daysToClose },
+    rules,
+    context.deals
+  );
+  const shares: DealShare[] = [];
+
+  const setterPct = project.setterId ? Math.min(100, Math.max(0, rules.split.setterPct)) : 0;
+  const repPool = calc.baseAmount + calc.redlineAmount;
+  if (setterPct > 0) {
+    const setterAmount = repPool * (setterPct / 100);
+    shares.push({
+      role: 'setter',
+      repId: project.setterId ?? null,
+      amount: setterAmount,
+      bonusAmount: 0,
+      breakdown: `Setter ${setterPct}% of ${usd(repPool)}`,
+    });
+  }
+  shares.push({
+    role: 'closer',
+    repId: project.closerId ?? null,
+    amount: repPool * (1 - setterPct / 100) + calc.totalBonuses,
+    bonusAmount: calc.totalBonuses,
+    breakdown: [calc.breakdown, setterPct > 0 ? `- Setter split ${setterPct}%` : ''].filter(Boolean).join('\n'),
+  });
+
+  if (rules.managerOverride.enabled && project.managerId) {
+    const watts = project.kW * 1000;
+    shares.push({
+      role: 'manager',
+      repId: project.managerId,
+      amount: watts * rules.managerOverride.perWatt,
+      bonusAmount: 0,
+      breakdown: `Override $${rules.managerOverride.perWatt.toFixed(2)}/W × ${watts.toLocaleString('en-US')} W`,
+    });
+  }
+  return shares.filter(share => share.amount > 0);
+}
+
+/**
+ * Commission lines due for the milestones the project has reached and that
+ * aren't in `existing` yet. Line IDs are deterministic, so calling this again
+ * after every stage change never pays a milestone twice.
+ */
+export function generateDealCommissions(
+  project: Project,
+  rules: CommissionRules,
+  existing: Commission[],
+  context: DealContext = {}
+): Commission[] {
+  const reached = milestonesReached(project, context.stageOrder);
+  if (reached.length === 0) return [];
+
+  const tier = getApplicableTier(project as unknown as Record<string, any>, rules);
+  const schedule = tier?.payoutSchedule?.length ? tier.payoutSchedule : DEFAULT_PAYOUT_SCHEDULE;
+  const shares = calculateDealShares(project, rules, context);
+  const existingIds = new Set(existing.map(c => c.id));
+  const today = context.today || new Date().toISOString().slice(0, 10);
+
+  const lines: Commission[] = [];
+  schedule
+    .filter(step => step.pct > 0 && reached.includes(step.milestone))
+    .forEach(step => {
+      shares.forEach(share => {
+        const id = `${project.id}-${step.milestone}-${share.role}`;
+        if (existingIds.has(id)) return;
+        lines.push({
+          id,
+          leadId: project.leadId,
+          projectId: project.id,
+          repId: share.repId ?? undefined,
+          role: share.role,
+          kind: share.role === 'manager' ? 'override' : 'commission',
+          milestone: step.milestone,
+          amountUsd: round2(share.amount * (step.pct / 100)),
+          bonusUsd: share.bonusAmount > 0 ? round2(share.bonusAmount * (step.pct / 100)) : undefined,
+          status: 'PENDING',
+          breakdown: `${step.pct}% at ${step.milestone} of ${usd(share.amount)}\n${share.breakdown}`,
+          expectedPayDate: today,
+          createdAt: new Date().toISOString(),
+        });
+      });
+    });
+  return lines;
+}
+
+// ============================================================================
+// CANCELLATION
+// ============================================================================
+
+const belongsTo = (commission: Commission, project: Project) =>
+  commission.projectId ? commission.projectId === project.id : commission.leadId === project.leadId;
+
+/**
+ * Settle a cancelled project's commissions: unpaid lines are cancelled and
+ * paid lines inside the clawback window get a negative line to recover them
+ * from the rep's next payout. Lines already locked in a payout run will be
+ * paid with it, so they are clawed back too. Returns the full updated
+ * commission list.
+ */
+export function applyCancellation(project: Project, commissions: Commission[], rules: CommissionRules): Commission[] {
+  if (!project.cancelledAt) return commissions;
+  const cancelledAt = new Date(project.cancelledAt).getTime();
+  const clawedBack = new Set(commissions.filter(c => c.clawbackOf).map(c => c.clawbackOf));
+
+  const updated = commissions.map(c =>
+    belongsTo(c, project) && c.kind !== 'clawback' && !c.payoutRunId && (c.status === 'PENDING' || c.status === 'APPROVED')
+      ? { ...c, status: 'CANCELLED' as const }
+      : c
+  );
+
+  if (!rules.clawback.enabled) return updated;
+  const windowMs = rules.clawback.windowDays * 24 * 60 * 60 * 1000;
+  const clawbacks: Commission[] = commissions
+    .filter(c => belongsTo(c, project) && (c.status === 'PAID' || !!c.payoutRunId) && c.kind !== 'clawback' && c.amountUsd > 0)
+    .filter(c => !clawedBack.has(c.id))
+    .filter(c => rules.clawback.windowDays <= 0 || !c.paidAt || cancelledAt - new Date(c.paidAt).getTime() <= windowMs)
+    .map(c => ({
+      id: `${c.id}-clawback`,
+      leadId: c.leadId,
+      dealName: c.dealName,
+      projectId: project.id,
+      repId: c.repId,
+      role: c.role,
+      kind: 'clawback' as const,
+      clawbackOf: c.id,
+      milestone: c.milestone,
+      amountUsd: -c.amountUsd,
+      bonusUsd: c.bonusUsd ? -c.bonusUsd : undefined,
+      status: 'PENDING' as const,
+      breakdown: `Clawback of ${c.milestone} payment: project cancelled${project.cancelReason ? ` (${project.cancelReason})` : ''}`,
+      expectedPayDate: project.cancelledAt.slice(0, 10),
+      createdAt: new Date().toISOString(),
+    }));
+  return [...updated, ...clawbacks];
+}
@@ -1,18 +1,24 @@
 // services/commissionRules.ts
 // Commission Structure Builder - Configurable commission tiers and bonuses
+// Pure rules shared by the server, which generates commissions from them, and
+// the screens that edit and preview them (services/commissionRulesConfig.ts).
 
-import { getActiveCompanyId } from './companyStore';
+import type { Project } from '../types';
 
-const COMMISSION_RULES_KEY = 'primus_commission_rules';
-
-// Simple UUID generator
-function generateId(): string {
-  return 'cr_' + Date.now().toString(36) + '_' + Math.random().toString(36).substring(2, 9);
-}
+// Effective date of rules saved before versions existed: they cover every past deal
+export const EARLIEST_EFFECTIVE_DATE = '1970-01-01';
 
 // Commission tier applies to these deal types
 export type DealType = 'install' | 'bankFinance' | 'cash' | 'lease' | 'ppa' | 'loan';
 
+// Project milestones a tier can pay out on
+export type PayoutMilestone = 'SIGNED' | 'INSTALL' | 'PTO';
+
+export interface PayoutStep {
+  milestone: PayoutMilestone;
+  pct: number; // Share of the deal's commission released at this milestone
+}
+
 export interface CommissionTier {
   id: string;
   label: string;
@@ -21,31 +27,89 @@ export interface CommissionTier {
   minDealValue?: number;
   maxDealValue?: number;
   isDefault?: boolean;
+  payoutSchedule?: PayoutStep[]; // DEFAULT_PAYOUT_SCHEDULE when absent
 }
 
+export type ConditionOperator = 'gte' | 'lte' | 'eq' | 'gt' | 'lt' | 'neq' | 'in' | 'notIn';
+
+// Compares one field of the deal (see CONDITION_FIELD_OPTIONS)
 export interface BonusCondition {
-  field: string; // e.g., "estimatedBill", "systemSize", "kW"
-  operator: 'gte' | 'lte' | 'eq' | 'gt' | 'lt';
+  field: string; // e.g., "estimatedBill", "kW", "dealType"
+  operator: ConditionOperator;
+  value: number | string | string[]; // Lists for 'in' / 'notIn'
+}
+
+export type AggregateMetric = 'kW' | 'deals' | 'contractValue';
+export type AggregatePeriod = 'month' | 'quarter' | 'year';
+
+// Compares the closer's total over the calendar period the deal was signed in,
+// this deal included
+export interface AggregateCondition {
+  aggregate: AggregateMetric;
+  period: AggregatePeriod;
+  operator: 'gte' | 'lte' | 'eq' | 'gt' | 'lt' | 'neq';
   value: number;
 }
 
+export interface ConditionGroup {
+  match: 'all' | 'any';
+  conditions: BonusConditionNode[];
+}
+
+export type BonusConditionNode = BonusCondition | AggregateCondition | ConditionGroup;
+
 export interface CommissionBonus {
   id: string;
   label: string;
-  condition: BonusCondition;
+  condition: BonusConditionNode;
   amount: number; // Flat bonus amount in dollars
   isPercentage?: boolean; // If true, amount is a percentage
   isActive: boolean;
 }
 
+// Setter/closer split of the rep commission
+export interface CommissionSplit {
+  setterPct: number; // Setter's share when the deal has a setter; the closer keeps the rest
+}
+
+// Paid to the closer's manager on top of the rep commission
+export interface ManagerOverride {
+  enabled: boolean;
+  perWatt: number;
+}
+
+// Extra pay for selling above the baseline price per watt
+export interface RedlinePay {
+  enabled: boolean;
+  baselinePricePerWatt: number;
+  sharePct: number; // Share of the price above baseline that goes to the reps
+}
+
+export interface ClawbackPolicy {
+  enabled: boolean;
+  windowDays: number; // Payments older than this when the deal cancels are kept (0 = always claw back)
+}
+
 export interface CommissionRules {
   companyId: string;
   tiers: CommissionTier[];
   bonuses: CommissionBonus[];
+  split: CommissionSplit;
+  managerOverride: ManagerOverride;
+  redline: RedlinePay;
+  clawback: ClawbackPolicy;
+  effectiveFrom: string; // YYYY-MM-DD; deals signed on or after this date use this version
   version: number;
   updatedAt: string;
 }
 
+export const PAYOUT_MILESTONES: PayoutMilestone[] = ['SIGNED', 'INSTALL', 'PTO'];
+
+export const DEFAULT_PAYOUT_SCHEDULE: PayoutStep[] = [
+  { milestone: 'INSTALL', pct: 50 },
+  { milestone: 'PTO', pct: 50 },
+];
+
 // Default commission tiers for solar sales
 export const DEFAULT_COMMISSION_TIERS: CommissionTier[] = [
   {
@@ -54,21 +118,33 @@ export const DEFAULT_COMMISSION_TIERS: CommissionTier[] = [
     rate: 0.06, // 6%
     appliesTo: ['install', 'cash'],
     isDefault: true,
+    payoutSchedule: DEFAULT_PAYOUT_SCHEDULE,
   },
   {
     id: 'tier_financed',
     label: 'Financed Deal',
     rate: 0.05, // 5%
     appliesTo: ['bankFinance', 'loan'],
+    payoutSchedule: [
+      { milestone: 'SIGNED', pct: 25 },
+      { milestone: 'INSTALL', pct: 50 },
+      { milestone: 'PTO', pct: 25 },
+    ],
   },
   {
     id: 'tier_lease_ppa',
     label: 'Lease/PPA',
     rate: 0.04, // 4%
     appliesTo: ['lease', 'ppa'],
+    payoutSchedule: [{ milestone: 'PTO', pct: 100 }],
   },
 ];
 
+export const DEFAULT_COMMISSION_SPLIT: CommissionSplit = { setterPct: 30 };
+export const DEFAULT_MANAGER_OVERRIDE: ManagerOverride = { enabled: true, perWatt: 0.05 };
+export const DEFAULT_REDLINE: RedlinePay = { enabled: false, baselinePricePerWatt: 2.8, sharePct: 50 };
+export const DEFAULT_CLAWBACK: ClawbackPolicy = { enabled: true, windowDays: 365 };
+
 // Default bonuses
 export const DEFAULT_COMMISSION_BONUSES: CommissionBonus[] = [
   {
@@ -94,156 +170,248 @@ export const DEFAULT_COMMISSION_BONUSES: CommissionBonus[] = [
   },
 ];
 
-// Load commission rules for a company
-export function loadCommissionRules(companyId?: string): CommissionRules {
-  const activeCompany = companyId || getActiveCompanyId();
-  const key = `${COMMISSION_RULES_KEY}_${activeCompany}`;
-
-  try {
-    const stored = localStorage.getItem(key);
-    if (stored) {
-      return JSON.parse(stored);
-    }
-  } catch (e) {
-    console.warn('Failed to load commission rules:', e);
-  }
-
-  // Return default rules
+export function defaultRules(companyId: string): CommissionRules {
   return {
-    companyId: activeCompany,
+    companyId,
     tiers: [...DEFAULT_COMMISSION_TIERS],
     bonuses: [...DEFAULT_COMMISSION_BONUSES],
+    split: { ...DEFAULT_COMMISSION_SPLIT },
+    managerOverride: { ...DEFAULT_MANAGER_OVERRIDE },
+    redline: { ...DEFAULT_REDLINE },
+    clawback: { ...DEFAULT_CLAWBACK },
+    effectiveFrom: EARLIEST_EFFECTIVE_DATE,
     version: 1,
     updatedAt: new Date().toISOString(),
   };
 }
 
-// Save commission rules for a company
-export function saveCommissionRules(companyId: string | undefined, rules: CommissionRules): void {
-  const activeCompany = companyId || getActiveCompanyId();
-  const key = `${COMMISSION_RULES_KEY}_${activeCompany}`;
+// ============================================================================
+// RULE VERSIONS
+// ============================================================================
 
-  rules.companyId = activeCompany;
-  rules.version = (rules.version || 0) + 1;
-  rules.updatedAt = new Date().toISOString();
+// Every saved version of a company's rules, oldest effective date first.
+// Versions saved before splits, overrides, redline and clawbacks existed get the defaults.
+export function normalizeRuleVersions(companyId: string, versions: Partial<CommissionRules>[]): CommissionRules[] {
+  return versions
+    .map(v => ({ ...defaultRules(companyId), ...v, companyId }))
+    .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+}
 
-  localStorage.setItem(key, JSON.stringify(rules));
+// Rules in force on a date (YYYY-MM-DD or ISO timestamp); dates before the
+// first version use the first version
+export function rulesInForce(versions: CommissionRules[], date: string, companyId: string): CommissionRules {
+  const day = date.slice(0, 10);
+  const inForce = versions.filter(v => v.effectiveFrom <= day);
+  return inForce[inForce.length - 1] || versions[0] || defaultRules(companyId);
 }
 
-// Add a new commission tier
-export function addCommissionTier(companyId: string | undefined, tier: Omit<CommissionTier, 'id'>): CommissionTier {
-  const rules = loadCommissionRules(companyId);
-  const newTier: CommissionTier = {
-    ...tier,
-    id: generateId(),
+// The versions with rules added as the version effective from rules.effectiveFrom,
+// replacing any version with the same effective date
+export function addRuleVersion(versions: CommissionRules[], companyId: string, rules: CommissionRules): CommissionRules[] {
+  const saved: CommissionRules = {
+    ...rules,
+    companyId,
+    effectiveFrom: rules.effectiveFrom || new Date().toISOString().slice(0, 10),
+    version: Math.max(rules.version || 0, ...versions.map(v => v.version)) + 1,
+    updatedAt: new Date().toISOString(),
   };
-  rules.tiers.push(newTier);
-  saveCommissionRules(companyId, rules);
-  return newTier;
+  return [...versions.filter(v => v.effectiveFrom !== saved.effectiveFrom), saved]
+    .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
 }
 
-// Update a commission tier
-export function updateCommissionTier(companyId: string | undefined, tierId: string, updates: Partial<CommissionTier>): void {
-  const rules = loadCommissionRules(companyId);
-  const tierIdx = rules.tiers.findIndex(t => t.id === tierId);
-  if (tierIdx !== -1) {
-    rules.tiers[tierIdx] = { ...rules.tiers[tierIdx], ...updates, id: tierId };
-    saveCommissionRules(companyId, rules);
-  }
+// ============================================================================
+// BONUS CONDITIONS
+// ============================================================================
+
+// Groups nest at most this deep; deeper conditions never match
+export const MAX_CONDITION_DEPTH = 4;
+
+// The closer's other deals, for aggregate conditions
+export type AggregateDeal = Pick<Project, 'kW' | 'createdAt'> &
+  Partial<Pick<Project, 'id' | 'contractPrice' | 'closerId' | 'cancelledAt'>>;
+
+export function isConditionGroup(node: BonusConditionNode): node is ConditionGroup {
+  return Array.isArray((node as ConditionGroup).conditions);
 }
 
-// Delete a commission tier
-export function deleteCommissionTier(companyId: string | undefined, tierId: string): boolean {
-  const rules = loadCommissionRules(companyId);
-  const originalLength = rules.tiers.length;
-  rules.tiers = rules.tiers.filter(t => t.id !== tierId);
-  if (rules.tiers.length < originalLength) {
-    saveCommissionRules(companyId, rules);
-    return true;
-  }
-  return false;
+export function isAggregateCondition(node: BonusConditionNode): node is AggregateCondition {
+  return typeof (node as AggregateCondition).aggregate === 'string';
 }
 
-// Add a new bonus
-export function addCommissionBonus(companyId: string | undefined, bonus: Omit<CommissionBonus, 'id'>): CommissionBonus {
-  const rules = loadCommissionRules(companyId);
-  const newBonus: CommissionBonus = {
-    ...bonus,
-    id: generateId(),
-  };
-  rules.bonuses.push(newBonus);
-  saveCommissionRules(companyId, rules);
-  return newBonus;
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Fields derived from the project rather than stored on it
+// The project's financing (set from the signed contract), else a legacy deal type
+const dealTypeOf = (data: Record<string, any>): DealType => data.financingType || data.dealType || 'install';
+
+function resolveField(field: string, data: Record<string, any>): unknown {
+  switch (field) {
+    case 'dealType':
+      return dealTypeOf(data);
+    case 'dealValue':
+      return data.dealValue || data.contractPrice;
+    case 'selfGenerated':
+      return !data.setterId || data.setterId === data.closerId ? 'yes' : 'no';
+    case 'daysToInstall': {
+      const installed = data.actualDates?.INSTALL;
+      if (!installed || !data.createdAt) return undefined;
+      return Math.max(0, Math.floor((new Date(installed).getTime() - new Date(data.createdAt).getTime()) / DAY_MS));
+    }
+    default:
+      return Object.prototype.hasOwnProperty.call(data, field) ? data[field] : undefined;
+  }
 }
 
-// Update a bonus
-export function updateCommissionBonus(companyId: string | undefined, bonusId: string, updates: Partial<CommissionBonus>): void {
-  const rules = loadCommissionRules(companyId);
-  const bonusIdx = rules.bonuses.findIndex(b => b.id === bonusId);
-  if (bonusIdx !== -1) {
-    rules.bonuses[bonusIdx] = { ...rules.bonuses[bonusIdx], ...updates, id: bonusId };
-    saveCommissionRules(companyId, rules);
+function compareNumbers(operator: ConditionOperator, actual: number, expected: number): boolean {
+  switch (operator) {
+    case 'gte': return actual >= expected;
+    case 'lte': return actual <= expected;
+    case 'gt': return actual > expected;
+    case 'lt': return actual < expected;
+    case 'eq': return actual === expected;
+    case 'neq': return actual !== expected;
+    default: return false;
   }
 }
 
-// Delete a bonus
-export function deleteCommissionBonus(companyId: string | undefined, bonusId: string): boolean {
-  const rules = loadCommissionRules(companyId);
-  const originalLength = rules.bonuses.length;
-  rules.bonuses = rules.bonuses.filter(b => b.id !== bonusId);
-  if (rules.bonuses.length < originalLength) {
-    saveCommissionRules(companyId, rules);
-    return true;
+function evaluateFieldCondition(condition: BonusCondition, data: Record<string, any>): boolean {
+  const fieldValue = resolveField(condition.field, data);
+  if (fieldValue === undefined || fieldValue === null || fieldValue === '') return false;
+
+  if (condition.operator === 'in' || condition.operator === 'notIn') {
+    const list = (Array.isArray(condition.value) ? condition.value : [condition.value]).map(String);
+    return list.includes(String(fieldValue)) === (condition.operator === 'in');
   }
+
+  if (typeof condition.value === 'number') {
+    const numValue = Number(fieldValue);
+    if (isNaN(numValue)) return false;
+    return compareNumbers(condition.operator, numValue, condition.value);
+  }
+
+  if (typeof condition.value !== 'string') return false;
+  if (condition.operator === 'eq') return String(fieldValue) === condition.value;
+  if (condition.operator === 'neq') return String(fieldValue) !== condition.value;
   return false;
 }
 
-// Toggle bonus active state
-export function toggleBonusActive(companyId: string | undefined, bonusId: string): void {
-  const rules = loadCommissionRules(companyId);
-  const bonus = rules.bonuses.find(b => b.id === bonusId);
-  if (bonus) {
-    bonus.isActive = !bonus.isActive;
-    saveCommissionRules(companyId, rules);
-  }
+// Calendar period containing a date, e.g. "2026-10", "2026-Q4", "2026"
+function periodKey(date: string, period: AggregatePeriod): string {
+  const year = date.slice(0, 4);
+  const month = Number(date.slice(5, 7));
+  if (period === 'year') return year;
+  if (period === 'quarter') return `${year}-Q${Math.ceil(month / 3)}`;
+  return date.slice(0, 7);
 }
 
-// Reset to defaults
-export function resetCommissionRulesToDefaults(companyId?: string): void {
-  const activeCompany = companyId || getActiveCompanyId();
-  saveCommissionRules(activeCompany, {
-    companyId: activeCompany,
-    tiers: [...DEFAULT_COMMISSION_TIERS],
-    bonuses: [...DEFAULT_COMMISSION_BONUSES],
-    version: 1,
-    updatedAt: new Date().toISOString(),
-  });
+/**
+ * The closer's total over the period the deal was signed in. The deal itself
+ * counts even when it isn't in `deals` yet; cancelled deals don't count.
+ */
+export function aggregateRepTotal(
+  data: Record<string, any>,
+  deals: AggregateDeal[],
+  metric: AggregateMetric,
+  period: AggregatePeriod
+): number {
+  const signed = String(data.createdAt || new Date().toISOString()).slice(0, 10);
+  const key = periodKey(signed, period);
+  const counted = deals.filter(d =>
+    !d.cancelledAt &&
+    d.id !== data.id &&
+    (d.closerId ?? null) === (data.closerId ?? null) &&
+    periodKey(d.createdAt.slice(0, 10), period) === key
+  );
+  if (!data.cancelledAt) counted.push(data as AggregateDeal);
+
+  switch (metric) {
+    case 'deals': return counted.length;
+    case 'kW': return counted.reduce((sum, d) => sum + (Number(d.kW) || 0), 0);
+    case 'contractValue': return counted.reduce((sum, d) => sum + (Number(d.contractPrice) || 0), 0);
+    default: return 0;
+  }
 }
 
-// Evaluate a bonus condition against project/lead data
-function evaluateCondition(condition: BonusCondition, data: Record<string, any>): boolean {
-  const fieldValue = data[condition.field];
-  if (fieldValue === undefined || fieldValue === null) return false;
+/**
+ * Evaluate a bonus condition against project/lead data. Conditions are data,
+ * never code: unknown fields, operators or malformed nodes simply don't match,
+ * and empty groups don't match either.
+ */
+export function evaluateCondition(
+  node: BonusConditionNode,
+  data: Record<string, any>,
+  deals: AggregateDeal[] = [],
+  depth = 0
+): boolean {
+  if (!node || typeof node !== 'object' || depth > MAX_CONDITION_DEPTH) return false;
+
+  if (isConditionGroup(node)) {
+    if (node.conditions.length === 0) return false;
+    const results = node.conditions.map(child => evaluateCondition(child, data, deals, depth + 1));
+    return node.match === 'any' ? results.some(Boolean) : results.every(Boolean);
+  }
 
-  const numValue = Number(fieldValue);
-  if (isNaN(numValue)) return false;
+  if (isAggregateCondition(node)) {
+    if (typeof node.value !== 'number') return false;
+    return compareNumbers(node.operator, aggregateRepTotal(data, deals, node.aggregate, node.period), node.value);
+  }
 
-  switch (condition.operator) {
-    case 'gte': return numValue >= condition.value;
-    case 'lte': return numValue <= condition.value;
-    case 'gt': return numValue > condition.value;
-    case 'lt': return numValue < condition.value;
-    case 'eq': return numValue === condition.value;
-    default: return false;
+  return typeof node.field === 'string' && evaluateFieldCondition(node, data);
+}
+
+/**
+ * Problems that would stop a condition from ever matching, for the editor
+ */
+export function validateCondition(node: BonusConditionNode, depth = 0): string | null {
+  if (depth > MAX_CONDITION_DEPTH) return `Groups can be nested at most ${MAX_CONDITION_DEPTH} deep`;
+  if (isConditionGroup(node)) {
+    if (node.conditions.length === 0) return 'Every group needs at least one condition';
+    for (const child of node.conditions) {
+      const error = validateCondition(child, depth + 1);
+      if (error) return error;
+    }
+    return null;
+  }
+  if (isAggregateCondition(node)) {
+    return typeof node.value === 'number' && !isNaN(node.value) ? null : 'Rep totals need a number to compare with';
+  }
+  const field = CONDITION_FIELD_OPTIONS.find(f => f.value === node.field);
+  if (!field) return `Unknown field "${node.field}"`;
+  if ((node.operator === 'in' || node.operator === 'notIn') && (!Array.isArray(node.value) || node.value.length === 0)) {
+    return `Pick at least one value for ${field.label}`;
   }
+  if (field.type === 'number' && (typeof node.value !== 'number' || isNaN(node.value))) {
+    return `${field.label} needs a number to compare with`;
+  }
+  return null;
+}
+
+/**
+ * One-line summary, e.g. "Rep kW sold this month ≥ 50 AND Deal Type is Cash Purchase"
+ */
+export function describeCondition(node: BonusConditionNode, depth = 0): string {
+  if (isConditionGroup(node)) {
+    const parts = node.conditions.map(child => describeCondition(child, depth + 1));
+    const joined = parts.join(node.match === 'any' ? ' OR ' : ' AND ');
+    return depth > 0 && parts.length > 1 ? `(${joined})` : joined;
+  }
+  if (isAggregateCondition(node)) {
+    const metric = AGGREGATE_METRIC_OPTIONS.find(m => m.value === node.aggregate)?.label || node.aggregate;
+    const period = AGGREGATE_PERIOD_OPTIONS.find(p => p.value === node.period)?.label || node.period;
+    return `${metric} ${period} ${OPERATOR_SYMBOLS[node.operator]} ${node.value.toLocaleString('en-US')}`;
+  }
+  const field = CONDITION_FIELD_OPTIONS.find(f => f.value === node.field);
+  const label = (value: string | number) => field?.options?.find(o => o.value === String(value))?.label || String(value);
+  const value = Array.isArray(node.value) ? node.value.map(label).join(', ') : label(node.value);
+  return `${field?.label || node.field} ${OPERATOR_SYMBOLS[node.operator]} ${value}`;
 }
 
 // Get the applicable commission tier for a project
 export function getApplicableTier(project: Record<string, any>, rules: CommissionRules): CommissionTier | null {
-  const dealType = project.financingType || project.dealType || 'install';
+  const dealType = dealTypeOf(project);
   
   // Find tier that applies to this deal type
-  let tier = rules.tiers.find(t => t.appliesTo.includes(dealType as DealType));
+  let tier = rules.tiers.find(t => t.appliesTo.includes(dealType));
   
   // If no specific tier, use default
   if (!tier) {
@@ -251,24 +419,40 @@ export function getApplicableTier(project: Record<string, any>, rules: Commissio
   }
   
   // Check min/max deal value constraints
-  if (tier && project.dealValue) {
-    if (tier.minDealValue && project.dealValue < tier.minDealValue) return null;
-    if (tier.maxDealValue && project.dealValue > tier.maxDealValue) return null;
+  const dealValue = project.dealValue || project.contractPrice;
+  if (tier && dealValue) {
+    if (tier.minDealValue && dealValue < tier.minDealValue) return null;
+    if (tier.maxDealValue && dealValue > tier.maxDealValue) return null;
   }
 
   return tier || null;
 }
 
-// Get all applicable bonuses for a project/lead
-export function getApplicableBonuses(data: Record<string, any>, rules: CommissionRules): CommissionBonus[] {
+// Get all applicable bonuses for a project/lead; `deals` feeds rep-total conditions
+export function getApplicableBonuses(
+  data: Record<string, any>,
+  rules: CommissionRules,
+  deals: AggregateDeal[] = []
+): CommissionBonus[] {
   return rules.bonuses.filter(bonus => 
-    bonus.isActive && evaluateCondition(bonus.condition, data)
+    bonus.isActive && evaluateCondition(bonus.condition, data, deals)
   );
 }
 
+/**
+ * Rep share of the price sold above the baseline $/W
+ */
+export function calculateRedline(dealValue: number, kW: number, redline: RedlinePay): number {
+  if (!redline.enabled || kW <= 0) return 0;
+  const watts = kW * 1000;
+  const overBaseline = dealValue / watts - redline.baselinePricePerWatt;
+  return overBaseline > 0 ? Math.round(overBaseline * watts * (redline.sharePct / 100)) : 0;
+}
+
 // Calculate total commission for a project
 export interface CommissionCalculation {
   baseAmount: number;
+  redlineAmount: number;
   tierUsed: CommissionTier | null;
   bonusesApplied: { bonus: CommissionBonus; amount: number }[];
   totalBonuses: number;
@@ -278,39 +462,42 @@ export interface CommissionCalculation {
 
 export function calculateCommission(
   project: Record<string, any>,
-  rules?: CommissionRules,
-  companyId?: string
+  rules: CommissionRules,
+  deals: AggregateDeal[] = []
 ): CommissionCalculation {
-  const effectiveRules = rules || loadCommissionRules(companyId);
-  
-  // Get deal value (could be systemValue, dealValue, or calculated from kW)
-  const dealValue = project.dealValue || project.systemValue || (project.kW || 0) * 3000; // ~$3/watt estimate
+  // The signed contract price; projects without one pay no percentage commission
+  const dealValue = project.dealValue || project.contractPrice || project.systemValue || 0;
   
   // Find applicable tier
-  const tier = getApplicableTier(project, effectiveRules);
+  const tier = getApplicableTier(project, rules);
   const baseAmount = tier ? dealValue * tier.rate : 0;
+  const redlineAmount = calculateRedline(dealValue, project.kW || 0, rules.redline);
   
   // Calculate bonuses
-  const applicableBonuses = getApplicableBonuses(project, effectiveRules);
+  const applicableBonuses = getApplicableBonuses(project, rules, deals);
   const bonusDetails = applicableBonuses.map(bonus => ({
     bonus,
     amount: bonus.isPercentage ? dealValue * (bonus.amount / 100) : bonus.amount,
   }));
   
   const totalBonuses = bonusDetails.reduce((sum, b) => sum + b.amount, 0);
-  const totalCommission = baseAmount + totalBonuses;
+  const totalCommission = baseAmount + redlineAmount + totalBonuses;
   
   // Build breakdown string
   const breakdownParts: string[] = [];
   if (tier) {
     breakdownParts.push(`Base (${tier.label} @ ${(tier.rate * 100).toFixed(1)}%): $${baseAmount.toLocaleString()}`);
   }
+  if (redlineAmount > 0) {
+    breakdownParts.push(`+ Redline over $${rules.redline.baselinePricePerWatt.toFixed(2)}/W: $${redlineAmount.toLocaleString()}`);
+  }
   bonusDetails.forEach(bd => {
     breakdownParts.push(`+ ${bd.bonus.label}: $${bd.amount.toLocaleString()}`);
   });
   
   return {
     baseAmount,
+    redlineAmount,
     tierUsed: tier,
     bonusesApplied: bonusDetails,
     totalBonuses,
@@ -329,20 +516,65 @@ export const DEAL_TYPE_OPTIONS: { value: DealType; label: string }[] = [
   { value: 'ppa', label: 'PPA' },
 ];
 
+const YES_NO_OPTIONS = [
+  { value: 'yes', label: 'Yes' },
+  { value: 'no', label: 'No' },
+];
+
+export interface ConditionFieldOption {
+  value: string;
+  label: string;
+  type: 'number' | 'enum';
+  options?: { value: string; label: string }[]; // Choices for enum fields
+}
+
 // Condition field options for bonuses
-export const CONDITION_FIELD_OPTIONS: { value: string; label: string }[] = [
-  { value: 'estimatedBill', label: 'Monthly Electric Bill ($)' },
-  { value: 'kW', label: 'System Size (kW)' },
-  { value: 'dealValue', label: 'Deal Value ($)' },
-  { value: 'daysToClose', label: 'Days to Close' },
-  { value: 'panelCount', label: 'Number of Panels' },
+export const CONDITION_FIELD_OPTIONS: ConditionFieldOption[] = [
+  { value: 'estimatedBill', label: 'Monthly Electric Bill ($)', type: 'number' },
+  { value: 'kW', label: 'System Size (kW)', type: 'number' },
+  { value: 'dealValue', label: 'Deal Value ($)', type: 'number' },
+  { value: 'daysToClose', label: 'Days to Close', type: 'number' },
+  { value: 'daysToInstall', label: 'Days from Signing to Install', type: 'number' },
+  { value: 'panelCount', label: 'Number of Panels', type: 'number' },
+  { value: 'dealType', label: 'Deal Type', type: 'enum', options: DEAL_TYPE_OPTIONS },
+  { value: 'selfGenerated', label: 'Self-Generated (no setter)', type: 'enum', options: YES_NO_OPTIONS },
+];
+
+export const AGGREGATE_METRIC_OPTIONS: { value: AggregateMetric; label: string }[] = [
+  { value: 'kW', label: 'Rep kW sold' },
+  { value: 'deals', label: 'Rep deals closed' },
+  { value: 'contractValue', label: 'Rep contract value ($)' },
+];
+
+export const AGGREGATE_PERIOD_OPTIONS: { value: AggregatePeriod; label: string }[] = [
+  { value: 'month', label: 'this month' },
+  { value: 'quarter', label: 'this quarter' },
+  { value: 'year', label: 'this year' },
 ];
 
-// Operator options
-export const OPERATOR_OPTIONS: { value: BonusCondition['operator']; label: string }[] = [
+const OPERATOR_SYMBOLS: Record<ConditionOperator, string> = {
+  gte: '≥',
+  gt: '>',
+  lte: '≤',
+  lt: '<',
+  eq: '=',
+  neq: '≠',
+  in: 'is',
+  notIn: 'is not',
+};
+
+// Operator options for number fields and rep totals
+export const OPERATOR_OPTIONS: { value: AggregateCondition['operator']; label: string }[] = [
   { value: 'gte', label: '≥ (Greater or Equal)' },
   { value: 'gt', label: '> (Greater Than)' },
   { value: 'lte', label: '≤ (Less or Equal)' },
   { value: 'lt', label: '< (Less Than)' },
   { value: 'eq', label: '= (Equals)' },
+  { value: 'neq', label: '≠ (Not Equal)' },
+];
+
+// Operator options for enum fields
+export const ENUM_OPERATOR_OPTIONS: { value: ConditionOperator; label: string }[] = [
+  { value: 'in', label: 'is any of' },
+  { value: 'notIn', label: 'is none of' },
 ];
@@ -0,0 +1,194 @@
+// services/commissionRulesConfig.ts
+// Commission Rules Configuration - every effective-dated version of a company's rules
+// Cached locally for the screens that preview pay; the server copy
+// (api/company?action=commissionRules) is what commissions are generated from.
+
+import { getActiveCompanyId } from './companyStore';
+import { companyApi } from './api';
+import {
+  CommissionRules,
+  CommissionTier,
+  CommissionBonus,
+  addRuleVersion,
+  defaultRules,
+  normalizeRuleVersions,
+  rulesInForce,
+} from './commissionRules';
+
+// ============================================================================
+// STORAGE KEYS
+// ============================================================================
+
+const COMMISSION_RULES_KEY = 'primus_commission_rules';
+const COMMISSION_RULE_VERSIONS_KEY = 'primus_commission_rule_versions';
+
+// Simple UUID generator
+function generateId(): string {
+  return 'cr_' + Date.now().toString(36) + '_' + Math.random().toString(36).substring(2, 9);
+}
+
+function cacheCommissionRuleVersions(companyId: string, versions: CommissionRules[]): void {
+  try {
+    localStorage.setItem(`${COMMISSION_RULE_VERSIONS_KEY}_${companyId}`, JSON.stringify(versions));
+  } catch (error) {
+    console.error('Failed to save commission rules:', error);
+  }
+}
+
+// ============================================================================
+// LOAD / SAVE FUNCTIONS
+// ============================================================================
+
+// Every saved version of a company's rules, oldest effective date first
+export function loadCommissionRuleVersions(companyId?: string): CommissionRules[] {
+  const activeCompany = companyId || getActiveCompanyId();
+
+  try {
+    const stored = localStorage.getItem(`${COMMISSION_RULE_VERSIONS_KEY}_${activeCompany}`);
+    // Rules saved before versions existed become the first version
+    const legacy = stored ? null : localStorage.getItem(`${COMMISSION_RULES_KEY}_${activeCompany}`);
+    const versions: Partial<CommissionRules>[] = stored ? JSON.parse(stored) : legacy ? [JSON.parse(legacy)] : [];
+    return normalizeRuleVersions(activeCompany, versions);
+  } catch (e) {
+    console.warn('Failed to load commission rules:', e);
+    return [];
+  }
+}
+
+// Rules in force on a date (YYYY-MM-DD or ISO timestamp)
+export function loadCommissionRulesAt(date: string, companyId?: string): CommissionRules {
+  const activeCompany = companyId || getActiveCompanyId();
+  return rulesInForce(loadCommissionRuleVersions(activeCompany), date, activeCompany);
+}
+
+// Load the commission rules in force today
+export function loadCommissionRules(companyId?: string): CommissionRules {
+  return loadCommissionRulesAt(new Date().toISOString().slice(0, 10), companyId);
+}
+
+/**
+ * Save commission rules as the version effective from rules.effectiveFrom
+ * (local cache + server). Returns the server error message, if any.
+ */
+export async function saveCommissionRules(companyId: string | undefined, rules: CommissionRules): Promise<string | null> {
+  const activeCompany = companyId || getActiveCompanyId();
+  cacheCommissionRuleVersions(activeCompany, addRuleVersion(loadCommissionRuleVersions(activeCompany), activeCompany, rules));
+  const result = await companyApi.updateCommissionRules(rules);
+  if (!result.success || !result.data) {
+    return result.error || 'Failed to save commission rules on the server';
+  }
+  cacheCommissionRuleVersions(activeCompany, normalizeRuleVersions(activeCompany, result.data));
+  return null;
+}
+
+/**
+ * Refresh the local cache from the server copy. Versions saved on this
+ * device before the server kept them are uploaded once.
+ */
+export async function syncCommissionRulesFromServer(companyId?: string): Promise<CommissionRules[]> {
+  const activeCompany = companyId || getActiveCompanyId();
+  const result = await companyApi.getCommissionRules();
+  if (!result.success || !result.data) {
+    return loadCommissionRuleVersions(activeCompany);
+  }
+  let versions = normalizeRuleVersions(activeCompany, result.data);
+  const local = loadCommissionRuleVersions(activeCompany);
+  if (versions.length === 0 && local.length > 0) {
+    for (const rules of local) {
+      const uploaded = await companyApi.updateCommissionRules(rules);
+      if (!uploaded.success || !uploaded.data) return local;
+      versions = normalizeRuleVersions(activeCompany, uploaded.data);
+    }
+  }
+  cacheCommissionRuleVersions(activeCompany, versions);
+  return versions;
+}
+
+async function saveOrThrow(companyId: string | undefined, rules: CommissionRules): Promise<void> {
+  const error = await saveCommissionRules(companyId, rules);
+  if (error) throw new Error(error);
+}
+
+// Add a new commission tier
+export async function addCommissionTier(companyId: string | undefined, tier: Omit<CommissionTier, 'id'>): Promise<CommissionTier> {
+  const rules = loadCommissionRules(companyId);
+  const newTier: CommissionTier = {
+    ...tier,
+    id: generateId(),
+  };
+  rules.tiers.push(newTier);
+  await saveOrThrow(companyId, rules);
+  return newTier;
+}
+
+// Update a commission tier
+export async function updateCommissionTier(companyId: string | undefined, tierId: string, updates: Partial<CommissionTier>): Promise<void> {
+  const rules = loadCommissionRules(companyId);
+  const tierIdx = rules.tiers.findIndex(t => t.id === tierId);
+  if (tierIdx !== -1) {
+    rules.tiers[tierIdx] = { ...rules.tiers[tierIdx], ...updates, id: tierId };
+    await saveOrThrow(companyId, rules);
+  }
+}
+
+// Delete a commission tier
+export async function deleteCommissionTier(companyId: string | undefined, tierId: string): Promise<boolean> {
+  const rules = loadCommissionRules(companyId);
+  const originalLength = rules.tiers.length;
+  rules.tiers = rules.tiers.filter(t => t.id !== tierId);
+  if (rules.tiers.length < originalLength) {
+    await saveOrThrow(companyId, rules);
+    return true;
+  }
+  return false;
+}
+
+// Add a new bonus
+export async function addCommissionBonus(companyId: string | undefined, bonus: Omit<CommissionBonus, 'id'>): Promise<CommissionBonus> {
+  const rules = loadCommissionRules(companyId);
+  const newBonus: CommissionBonus = {
+    ...bonus,
+    id: generateId(),
+  };
+  rules.bonuses.push(newBonus);
+  await saveOrThrow(companyId, rules);
+  return newBonus;
+}
+
+// Update a bonus
+export async function updateCommissionBonus(companyId: string | undefined, bonusId: string, updates: Partial<CommissionBonus>): Promise<void> {
+  const rules = loadCommissionRules(companyId);
+  const bonusIdx = rules.bonuses.findIndex(b => b.id === bonusId);
+  if (bonusIdx !== -1) {
+    rules.bonuses[bonusIdx] = { ...rules.bonuses[bonusIdx], ...updates, id: bonusId };
+    await saveOrThrow(companyId, rules);
+  }
+}
+
+// Delete a bonus
+export async function deleteCommissionBonus(companyId: string | undefined, bonusId: string): Promise<boolean> {
+  const rules = loadCommissionRules(companyId);
+  const originalLength = rules.bonuses.length;
+  rules.bonuses = rules.bonuses.filter(b => b.id !== bonusId);
+  if (rules.bonuses.length < originalLength) {
+    await saveOrThrow(companyId, rules);
+    return true;
+  }
+  return false;
+}
+
+// Toggle bonus active state
+export async function toggleBonusActive(companyId: string | undefined, bonusId: string): Promise<void> {
+  const rules = loadCommissionRules(companyId);
+  const bonus = rules.bonuses.find(b => b.id === bonusId);
+  if (bonus) {
+    bonus.isActive = !bonus.isActive;
+    await saveOrThrow(companyId, rules);
+  }
+}
+
+// Reset to defaults, effective today
+export async function resetCommissionRulesToDefaults(companyId?: string): Promise<string | null> {
+  const activeCompany = companyId || getActiveCompanyId();
+  return saveCommissionRules(activeCompany, { ...defaultRules(activeCompany), effectiveFrom: new Date().toISOString().slice(0, 10) });
+}
@@ -0,0 +1,108 @@
+// services/commissionSimulator.ts
+// Commission Simulator - replay recent deals through draft rules
+// Compares what each rep would earn on the last N months of signed projects
+// under a draft CommissionRules against the rules those deals were paid under.
+
+import type { Lead, Project, Rep } from '../types';
+import type { CommissionRules } from './commissionRules';
+import { calculateDealShares } from './commissionEngine';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RepSimulation {
+  repId: string | null;
+  repName: string;
+  deals: number;
+  live: number;
+  draft: number;
+  delta: number;
+}
+
+export interface RuleSimulation {
+  since: string; // YYYY-MM-DD
+  projects: number;
+  missingContractPrice: number; // Projects paid on overrides and flat bonuses only
+  reps: RepSimulation[];
+  live: number;
+  draft: number;
+  delta: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// ============================================================================
+// SIMULATION
+// ============================================================================
+
+/**
+ * Replay projects signed in the last `months` months through both rule sets.
+ * `live` is either one rule set or the rules in force for each project.
+ * Cancelled projects are left out.
+ */
+export function simulateRules(
+  projects: Project[],
+  leads: Lead[],
+  draft: CommissionRules,
+  live: CommissionRules | ((project: Project) => CommissionRules),
+  options: { months: number; reps?: Rep[]; today?: Date }
+): RuleSimulation {
+  const since = new Date(options.today || new Date());
+  since.setMonth(since.getMonth() - options.months);
+  const sinceDay = since.toISOString().slice(0, 10);
+  const liveFor = typeof live === 'function' ? live : () => live;
+
+  const replayed = projects.filter(p => !p.cancelledAt && p.createdAt.slice(0, 10) >= sinceDay);
+  const byRep = new Map<string, RepSimulation & { dealIds: Set<string> }>();
+
+  const add = (repId: string | null, projectId: string, key: 'live' | 'draft', amount: number) => {
+    const id = repId || '';
+    if (!byRep.has(id)) {
+      byRep.set(id, {
+        repId,
+        repName: options.reps?.find(r => r.id === repId)?.name || repId || 'Unassigned',
+        deals: 0,
+        live: 0,
+        draft: 0,
+        delta: 0,
+        dealIds: new Set(),
+      });
+    }
+    const rep = byRep.get(id)!;
+    rep.dealIds.add(projectId);
+    rep[key] += amount;
+  };
+
+  replayed.forEach(project => {
+    const lead = leads.find(l => l.id === project.leadId);
+    const daysToClose = lead
+      ? Math.max(0, Math.floor((new Date(project.createdAt).getTime() - new Date(lead.createdAt).getTime()) / (1000 * 60 * 60 * 24)))
+      : undefined;
+    const context = { estimatedBill: lead?.estimatedBill, daysToClose, deals: projects };
+    calculateDealShares(project, liveFor(project), context).forEach(share => add(share.repId, project.id, 'live', share.amount));
+    calculateDealShares(project, draft, context).forEach(share => add(share.repId, project.id, 'draft', share.amount));
+  });
+
+  const reps: RepSimulation[] = [...byRep.values()]
+    .map(({ dealIds, ...rep }) => ({
+      ...rep,
+      deals: dealIds.size,
+      live: round2(rep.live),
+      draft: round2(rep.draft),
+      delta: round2(rep.draft - rep.live),
+    }))
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta) || a.repName.localeCompare(b.repName));
+
+  const liveTotal = round2(reps.reduce((sum, r) => sum + r.live, 0));
+  const draftTotal = round2(reps.reduce((sum, r) => sum + r.draft, 0));
+  return {
+    since: sinceDay,
+    projects: replayed.length,
+    missingContractPrice: replayed.filter(p => !p.contractPrice).length,
+    reps,
+    live: liveTotal,
+    draft: draftTotal,
+    delta: round2(draftTotal - liveTotal),
+  };
+}
@@ -1,6 +1,8 @@
 // services/companyStore.ts
 // Global Company Store - Multi-Company Architecture for Primus Home Pro
 
+import type { Rep, Installer } from '../types';
+
 // Simple UUID generator (no external dependency)
 function uuidv4(): string {
   return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
@@ -33,28 +35,8 @@ export interface Team {
   createdAt: string;
 }
 
-export interface Rep {
-  id: string;
-  name: string;
-  email: string;
-  phone: string;
-  role: 'admin' | 'manager' | 'rep' | 'installer' | 'finance';
-  teamId: string | null;
-  avatarUrl?: string;
-  hireDate: string;
-  isActive: boolean;
-}
-
-export interface Installer {
-  id: string;
-  name: string;
-  phone: string;
-  email: string;
-  licenseNumber?: string;
-  rating: number; // 0-5
-  totalInstalls: number;
-  isActive: boolean;
-}
+// Rep and Installer are shared with the api/ handlers via types.ts
+export type { Rep, Installer };
 
 export interface Company {
   id: string;
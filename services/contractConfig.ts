@@ -0,0 +1,79 @@
+// services/contractConfig.ts
+// Contract Template Configuration - per-company agreement templates
+// Cached locally for the template picker; the server copy
+// (api/company?action=contractTemplates) is what api/contracts merges.
+
+import { getActiveCompanyId } from './companyStore';
+import { companyApi } from './api';
+import { DEFAULT_CONTRACT_TEMPLATES, ContractTemplateConfig } from './contractTemplates';
+
+// ============================================================================
+// STORAGE KEY
+// ============================================================================
+
+const CONTRACT_TEMPLATES_STORAGE_KEY = 'primus_contract_templates';
+
+function cloneTemplates(config: ContractTemplateConfig): ContractTemplateConfig {
+  return JSON.parse(JSON.stringify(config));
+}
+
+// ============================================================================
+// LOAD / SAVE FUNCTIONS
+// ============================================================================
+
+/**
+ * Load the contract templates for a company
+ */
+export function loadContractTemplates(companyId?: string): ContractTemplateConfig {
+  const id = companyId || getActiveCompanyId();
+  try {
+    const stored = localStorage.getItem(CONTRACT_TEMPLATES_STORAGE_KEY);
+    if (stored) {
+      const allConfigs = JSON.parse(stored);
+      if (allConfigs[id]) {
+        return { ...cloneTemplates(DEFAULT_CONTRACT_TEMPLATES), ...allConfigs[id] };
+      }
+    }
+  } catch (error) {
+    console.error('Failed to load contract templates:', error);
+  }
+  return cloneTemplates(DEFAULT_CONTRACT_TEMPLATES);
+}
+
+function cacheContractTemplates(companyId: string, config: ContractTemplateConfig): void {
+  try {
+    const stored = localStorage.getItem(CONTRACT_TEMPLATES_STORAGE_KEY);
+    const allConfigs = stored ? JSON.parse(stored) : {};
+    allConfigs[companyId] = config;
+    localStorage.setItem(CONTRACT_TEMPLATES_STORAGE_KEY, JSON.stringify(allConfigs));
+  } catch (error) {
+    console.error('Failed to save contract templates:', error);
+  }
+}
+
+/**
+ * Save the contract templates for a company (local cache + server)
+ * Returns the server error message, if any
+ */
+export async function saveContractTemplates(companyId: string, config: ContractTemplateConfig): Promise<string | null> {
+  cacheContractTemplates(companyId, config);
+  const result = await companyApi.updateContractTemplates(config);
+  return result.success ? null : result.error || 'Failed to save contract templates on the server';
+}
+
+/**
+ * Refresh the local cache from the server copy
+ */
+export async function syncContractTemplatesFromServer(companyId?: string): Promise<ContractTemplateConfig> {
+  const id = companyId || getActiveCompanyId();
+  const result = await companyApi.getContractTemplates();
+  if (result.success && result.data) {
+    cacheContractTemplates(id, result.data);
+    return result.data;
+  }
+  return loadContractTemplates(id);
+}
+
+export async function resetContractTemplatesToDefaults(companyId: string): Promise<string | null> {
+  return saveContractTemplates(companyId, cloneTemplates(DEFAULT_CONTRACT_TEMPLATES));
+}
@@ -0,0 +1,151 @@
+// services/contractTemplates.ts
+// Contract Templates - installation agreement text with {{merge.fields}}
+// Templates are per company (services/contractConfig.ts); api/contracts merges
+// one against the lead and analysis and freezes the result before anyone signs.
+
+import type { Lead, SolarAnalysis } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ContractTemplate {
+  id: string;
+  name: string;
+  title: string; // Heading printed on the contract
+  body: string; // Paragraphs separated by blank lines; {{field}} placeholders
+}
+
+export interface ContractTemplateConfig {
+  templates: ContractTemplate[];
+  defaultTemplateId: string;
+}
+
+export interface MergeField {
+  key: string;
+  label: string;
+}
+
+// ============================================================================
+// MERGE FIELDS
+// ============================================================================
+
+export const MERGE_FIELDS: MergeField[] = [
+  { key: 'customer.name', label: 'Homeowner name' },
+  { key: 'customer.coName', label: 'Co-homeowner name (blank if none)' },
+  { key: 'customer.address', label: 'Installation address' },
+  { key: 'customer.email', label: 'Homeowner email' },
+  { key: 'customer.phone', label: 'Homeowner phone' },
+  { key: 'rep.name', label: 'Sales rep name' },
+  { key: 'company.name', label: 'Company name' },
+  { key: 'system.sizeKw', label: 'System size (kW)' },
+  { key: 'system.equipment', label: 'Modules, inverters and batteries' },
+  { key: 'system.annualKwh', label: 'Estimated first-year production (kWh)' },
+  { key: 'price.total', label: 'Gross system price' },
+  { key: 'price.taxCredit', label: 'Estimated federal tax credit' },
+  { key: 'price.net', label: 'Net price after tax credit' },
+  { key: 'price.monthlyPayment', label: 'Estimated monthly payment' },
+  { key: 'date', label: 'Contract date' },
+];
+
+const MERGE_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+// Shown to every signer and recorded with their signature
+export const ESIGN_CONSENT_TEXT =
+  'I agree to use electronic records and signatures for this agreement. I understand my electronic signature is legally binding ' +
+  'and has the same effect as a handwritten signature, and that I may request a paper copy at any time.';
+
+// ============================================================================
+// DEFAULT TEMPLATES
+// ============================================================================
+
+export const DEFAULT_CONTRACT_TEMPLATES: ContractTemplateConfig = {
+  templates: [
+    {
+      id: 'residential_install',
+      name: 'Residential Installation Agreement',
+      title: 'Residential Solar Installation Agreement',
+      body: [
+        'This agreement is made on {{date}} between {{company.name}} ("Contractor") and {{customer.name}} {{customer.coName}} ("Customer") for the installation of a solar energy system at {{customer.address}}.',
+        '1. AGREEMENT TO INSTALL. Customer agrees to purchase, and Contractor agrees to install in a workmanlike manner, a {{system.sizeKw}} kW photovoltaic system consisting of {{system.equipment}}, estimated to produce {{system.annualKwh}} kWh in its first year.',
+        '2. PRICE. The total system price is {{price.total}}. Customer acknowledges that the estimated federal tax credit of {{price.taxCredit}} is a tax incentive, not a rebate, and depends on Customer\'s tax liability. The estimated net price after the credit is {{price.net}}, with an estimated monthly payment of {{price.monthlyPayment}} where the system is financed.',
+        '3. PRODUCTION ESTIMATES. Production and savings figures are estimates based on typical weather, the roof design and the utility rate plan in effect today. They are not a guarantee.',
+        '4. RIGHT TO CANCEL. Customer may cancel this agreement without penalty within three business days of signing by giving written notice to Contractor.',
+        '5. ELECTRONIC SIGNATURES. The parties agree that this agreement may be signed electronically and that electronic signatures are legally binding and equivalent to handwritten signatures.',
+        'Sales representative: {{rep.name}}',
+      ].join('\n\n'),
+    },
+  ],
+  defaultTemplateId: 'residential_install',
+};
+
+// ============================================================================
+// MERGING
+// ============================================================================
+
+export function getContractTemplate(config: ContractTemplateConfig, id?: string): ContractTemplate | undefined {
+  return config.templates.find(t => t.id === id)
+    || config.templates.find(t => t.id === config.defaultTemplateId)
+    || config.templates[0];
+}
+
+/**
+ * Placeholders in a template that aren't known merge fields
+ */
+export function unknownMergeFields(text: string): string[] {
+  const known = new Set(MERGE_FIELDS.map(f => f.key));
+  const unknown = new Set<string>();
+  for (const match of text.matchAll(MERGE_PATTERN)) {
+    if (!known.has(match[1])) unknown.add(match[1]);
+  }
+  return Array.from(unknown);
+}
+
+const usd = (value: number) => `$${Math.round(value).toLocaleString('en-US')}`;
+
+export function buildMergeData(
+  lead: Lead,
+  analysis: SolarAnalysis,
+  parties: { coHomeownerName?: string; repName: string; companyName: string },
+  date: Date
+): Record<string, string> {
+  const equipment = analysis.equipment;
+  return {
+    'customer.name': lead.name,
+    'customer.coName': parties.coHomeownerName ? `and ${parties.coHomeownerName}` : '',
+    'customer.address': lead.address,
+    'customer.email': lead.email || '',
+    'customer.phone': lead.phone || '',
+    'rep.name': parties.repName,
+    'company.name': parties.companyName,
+    'system.sizeKw': String(analysis.systemSizeKw),
+    'system.equipment': equipment
+      ? [
+          `${equipment.moduleQty} ${equipment.moduleName} modules`,
+          `${equipment.inverterQty} ${equipment.inverterName} inverter${equipment.inverterQty === 1 ? '' : 's'}`,
+          ...(equipment.batteryQty > 0 ? [`${equipment.batteryQty} ${equipment.batteryName} batter${equipment.batteryQty === 1 ? 'y' : 'ies'}`] : []),
+        ].join(', ')
+      : 'modules, inverters and racking selected by Contractor',
+    'system.annualKwh': analysis.annualProductionKwh ? analysis.annualProductionKwh.toLocaleString('en-US') : 'the estimated',
+    'price.total': usd(analysis.systemCost),
+    'price.taxCredit': usd(analysis.taxCredit30),
+    'price.net': usd(analysis.netCost),
+    'price.monthlyPayment': usd(analysis.estimatedMonthlyPayment),
+    'date': date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' }),
+  };
+}
+
+/**
+ * Replace every placeholder; throws when a template uses an unknown field so a
+ * contract never goes out with raw {{braces}} in it
+ */
+export function mergeTemplate(text: string, data: Record<string, string>): string {
+  const unknown = unknownMergeFields(text);
+  if (unknown.length > 0) {
+    throw new Error(`Unknown merge field${unknown.length === 1 ? '' : 's'}: ${unknown.join(', ')}`);
+  }
+  return text
+    .replace(MERGE_PATTERN, (_, key: string) => data[key] ?? '')
+    .replace(/[ \t]{2,}/g, ' ')
+    .replace(/ +([.,)])/g, '$1');
+}
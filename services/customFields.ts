@@ -17,10 +17,11 @@ export type CustomFieldType =
   | 'email'
   | 'phone'
   | 'currency'
-  | 'textarea';
+  | 'textarea'
+  | 'photo'; // Site survey photos (services/siteSurvey.ts)
 
-// Where the field applies
-export type CustomFieldScope = 'lead' | 'project' | 'both';
+// Where the field applies; "both" means leads and projects, not the survey
+export type CustomFieldScope = 'lead' | 'project' | 'both' | 'survey';
 
 export interface CustomFieldOption {
   value: string;
@@ -195,6 +196,125 @@ export const DEFAULT_CUSTOM_FIELDS: CustomField[] = [
   },
 ];
 
+// Default site survey checklist: the photos and measurements design needs
+export const DEFAULT_SURVEY_FIELDS: CustomField[] = [
+  {
+    id: 'cf_survey_main_panel_photo',
+    name: 'Main Panel Photo',
+    key: 'main_panel_photo',
+    type: 'photo',
+    scope: 'survey',
+    required: true,
+    helpText: 'Panel open, with the label and main breaker readable',
+    order: 100,
+    visible: true,
+    createdAt: new Date().toISOString(),
+  },
+  {
+    id: 'cf_survey_roof_photo',
+    name: 'Roof Photos',
+    key: 'roof_photo',
+    type: 'photo',
+    scope: 'survey',
+    required: true,
+    helpText: 'Every roof face the array may use',
+    order: 101,
+    visible: true,
+    createdAt: new Date().toISOString(),
+  },
+  {
+    id: 'cf_survey_attic_photo',
+    name: 'Attic Photos',
+    key: 'attic_photo',
+    type: 'photo',
+    scope: 'survey',
+    required: true,
+    helpText: 'Rafters or trusses, with a tape measure for spacing',
+    order: 102,
+    visible: true,
+    createdAt: new Date().toISOString(),
+  },
+  {
+    id: 'cf_survey_meter_photo',
+    name: 'Meter Photo',
+    key: 'meter_photo',
+    type: 'photo',
+    scope: 'survey',
+    required: true,
+    helpText: 'Meter number readable',
+    order: 103,
+    visible: true,
+    createdAt: new Date().toISOString(),
+  },
+  {
+    id: 'cf_survey_main_breaker',
+    name: 'Main Breaker (A)',
+    key: 'main_breaker_amps',
+    type: 'number',
+    scope: 'survey',
+    required: true,
+    placeholder: 'e.g., 200',
+    validation: { min: 0, max: 1000 },
+    order: 104,
+    visible: true,
+    createdAt: new Date().toISOString(),
+  },
+  {
+    id: 'cf_survey_busbar',
+    name: 'Busbar Rating (A)',
+    key: 'busbar_amps',
+    type: 'number',
+    scope: 'survey',
+    required: true,
+    placeholder: 'e.g., 225',
+    validation: { min: 0, max: 1000 },
+    order: 105,
+    visible: true,
+    createdAt: new Date().toISOString(),
+  },
+  {
+    id: 'cf_survey_rafter_spacing',
+    name: 'Rafter Spacing (in)',
+    key: 'rafter_spacing_in',
+    type: 'number',
+    scope: 'survey',
+    required: true,
+    placeholder: 'e.g., 24',
+    validation: { min: 0, max: 96 },
+    order: 106,
+    visible: true,
+    createdAt: new Date().toISOString(),
+  },
+  {
+    id: 'cf_survey_roof_condition',
+    name: 'Roof Condition',
+    key: 'roof_condition',
+    type: 'select',
+    scope: 'survey',
+    required: true,
+    options: [
+      { value: 'good', label: 'Good', color: '#10b981' },
+      { value: 'fair', label: 'Fair', color: '#f59e0b' },
+      { value: 'replace', label: 'Needs Replacement', color: '#ef4444' },
+    ],
+    order: 107,
+    visible: true,
+    createdAt: new Date().toISOString(),
+  },
+  {
+    id: 'cf_survey_notes',
+    name: 'Surveyor Notes',
+    key: 'survey_notes',
+    type: 'textarea',
+    scope: 'survey',
+    required: false,
+    placeholder: 'Shading, access, anything design should know',
+    order: 108,
+    visible: true,
+    createdAt: new Date().toISOString(),
+  },
+];
+
 // Load custom fields configuration
 export function loadCustomFields(companyId?: string): CustomFieldsConfig {
   const activeCompany = companyId || getActiveCompanyId();
@@ -212,7 +332,7 @@ export function loadCustomFields(companyId?: string): CustomFieldsConfig {
   // Return default config
   return {
     companyId: activeCompany,
-    fields: [...DEFAULT_CUSTOM_FIELDS],
+    fields: [...DEFAULT_CUSTOM_FIELDS, ...DEFAULT_SURVEY_FIELDS],
     version: 1,
   };
 }
@@ -232,7 +352,7 @@ export function saveCustomFields(companyId: string | undefined, config: CustomFi
 export function getFieldsForScope(scope: CustomFieldScope, companyId?: string): CustomField[] {
   const config = loadCustomFields(companyId);
   return config.fields
-    .filter(f => f.visible && (f.scope === scope || f.scope === 'both'))
+    .filter(f => f.visible && (f.scope === scope || (f.scope === 'both' && scope !== 'survey')))
     .sort((a, b) => a.order - b.order);
 }
 
@@ -246,6 +366,16 @@ export function getProjectFields(companyId?: string): CustomField[] {
   return getFieldsForScope('project', companyId);
 }
 
+// Get the site survey checklist; companies whose saved fields predate the
+// survey get the default checklist until they add survey fields of their own
+export function getSurveyFields(companyId?: string): CustomField[] {
+  const config = loadCustomFields(companyId);
+  if (!config.fields.some(f => f.scope === 'survey')) {
+    return DEFAULT_SURVEY_FIELDS.filter(f => f.visible);
+  }
+  return getFieldsForScope('survey', companyId);
+}
+
 // Add a new custom field
 export function addCustomField(companyId: string | undefined, field: Omit<CustomField, 'id' | 'createdAt' | 'order'>): CustomField {
   const config = loadCustomFields(companyId);
@@ -317,7 +447,7 @@ export function resetCustomFieldsToDefaults(companyId?: string): void {
   const activeCompany = companyId || getActiveCompanyId();
   saveCustomFields(activeCompany, {
     companyId: activeCompany,
-    fields: [...DEFAULT_CUSTOM_FIELDS],
+    fields: [...DEFAULT_CUSTOM_FIELDS, ...DEFAULT_SURVEY_FIELDS],
     version: 1,
   });
 }
@@ -347,8 +477,8 @@ export function getFieldByKey(key: string, companyId?: string): CustomField | un
 
 // Validate field value based on field configuration
 export function validateFieldValue(field: CustomField, value: any): { valid: boolean; error?: string } {
-  // Required check
-  if (field.required && (value === undefined || value === null || value === '')) {
+  // Required check (an empty list of photos or options counts as missing)
+  if (field.required && (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0))) {
     return { valid: false, error: `${field.name} is required` };
   }
   
@@ -437,6 +567,9 @@ export function getFieldDisplayValue(field: CustomField, value: any): string {
       
     case 'checkbox':
       return value ? 'Yes' : 'No';
+
+    case 'photo':
+      return Array.isArray(value) ? `${value.length} photo${value.length === 1 ? '' : 's'}` : '—';
       
     case 'currency':
       return `$${parseFloat(value).toLocaleString()}`;
@@ -462,10 +595,12 @@ export const FIELD_TYPE_OPTIONS: { value: CustomFieldType; label: string; icon:
   { value: 'email', label: 'Email', icon: 'Mail' },
   { value: 'phone', label: 'Phone', icon: 'Phone' },
   { value: 'url', label: 'URL', icon: 'Link' },
+  { value: 'photo', label: 'Photo', icon: 'Camera' },
 ];
 
 export const SCOPE_OPTIONS: { value: CustomFieldScope; label: string }[] = [
   { value: 'lead', label: 'Leads Only' },
   { value: 'project', label: 'Projects Only' },
   { value: 'both', label: 'Leads & Projects' },
+  { value: 'survey', label: 'Site Survey' },
 ];
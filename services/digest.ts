@@ -6,6 +6,8 @@ import { loadOrDefault } from '../utils/storage';
 import { Lead, Project, Commission } from '../types';
 import { notify, setLastDigestTime, isDigestNeeded, getLastDigestTime } from './notifications';
 import { loadSLA, calculateSLAStatus } from './slaRules';
+import { lastContactedAt } from './leadActivity';
+import { loadLeadPipeline, isClosedStatus, isWonStatus } from './leadPipeline';
 
 const LEADS_KEY = 'primus_leads';
 const PROJECTS_KEY = 'primus_projects';
@@ -56,6 +58,7 @@ export function generateDailyDigest(companyId?: string): DailyDigest {
   const leads = allLeads.filter(l => !l.companyId || l.companyId === activeCompany);
   const projects = allProjects.filter(p => !p.companyId || p.companyId === activeCompany);
   const commissions = allCommissions.filter(c => !c.companyId || c.companyId === activeCompany);
+  const leadPipeline = loadLeadPipeline(activeCompany);
 
   const sections: DigestSection[] = [];
   const stats = {
@@ -97,10 +100,11 @@ export function generateDailyDigest(companyId?: string): DailyDigest {
   // ========================================
   // 2. STALE LEADS (48+ hours untouched)
   // ========================================
+  // Leads never contacted count from when they came in
+  const lastTouch = (l: Lead) => lastContactedAt(l) || l.createdAt;
   const staleLeads = leads.filter(l => {
-    if (l.status === 'WON' || l.status === 'LOST') return false;
-    const lastActivity = l.lastContactedAt || l.createdAt;
-    return daysSince(lastActivity) >= 2;
+    if (isClosedStatus(l.status, leadPipeline)) return false;
+    return daysSince(lastTouch(l)) >= 2;
   });
   
   stats.staleLeads = staleLeads.length;
@@ -111,8 +115,10 @@ export function generateDailyDigest(companyId?: string): DailyDigest {
       items: [
         `${staleLeads.length} lead${staleLeads.length > 1 ? 's' : ''} not contacted in 48+ hours`,
         ...staleLeads.slice(0, 5).map(l => {
-          const days = daysSince(l.lastContactedAt || l.createdAt);
-          return `• ${l.name} - ${days} days since last contact`;
+          const days = daysSince(lastTouch(l));
+          return lastContactedAt(l)
+            ? `• ${l.name} - ${days} days since last contact`
+            : `• ${l.name} - never contacted (${days} days old)`;
         })
       ],
       severity: staleLeads.length > 5 ? 'critical' : 'warning',
@@ -217,7 +223,7 @@ export function generateDailyDigest(companyId?: string): DailyDigest {
     if (lead.assignedTo) {
       const current = repLeadCounts.get(lead.assignedTo) || { total: 0, won: 0, stale: 0 };
       current.total++;
-      if (lead.status === 'WON') current.won++;
+      if (isWonStatus(lead.status, leadPipeline)) current.won++;
       if (staleLeads.includes(lead)) current.stale++;
       repLeadCounts.set(lead.assignedTo, current);
     }
@@ -0,0 +1,246 @@
+// services/equipmentCatalog.ts
+// Equipment Catalog - modules, inverters and batteries a company installs
+// Each company keeps its own catalog (services/equipmentConfig.ts) with unit
+// costs and warehouse stock; designs pick from it and projects carry a copy of
+// the resulting bill of materials.
+
+import type { Project, ProjectEquipment, SystemDesign } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PvModule {
+  id: string;
+  manufacturer: string;
+  model: string;
+  watts: number; // STC rating
+  lengthMm: number;
+  widthMm: number;
+  efficiencyPct: number;
+  unitCost: number; // $ per module
+  stockQty: number; // On hand in the warehouse
+}
+
+export type InverterKind = 'string' | 'micro';
+
+export interface Inverter {
+  id: string;
+  manufacturer: string;
+  model: string;
+  kind: InverterKind; // Micros are one per module
+  acKw: number; // Continuous AC output per unit
+  maxDcAcRatio: number; // Largest array DC / inverter AC the manufacturer allows
+  efficiencyPct: number; // CEC weighted
+  unitCost: number;
+  stockQty: number;
+}
+
+export interface Battery {
+  id: string;
+  manufacturer: string;
+  model: string;
+  capacityKwh: number; // Usable
+  powerKw: number; // Continuous
+  unitCost: number;
+  stockQty: number;
+}
+
+export interface EquipmentCatalog {
+  modules: PvModule[];
+  inverters: Inverter[];
+  batteries: Battery[];
+  defaultModuleId: string;
+  defaultInverterId: string;
+}
+
+// ============================================================================
+// DEFAULT CATALOG
+// ============================================================================
+
+export const DEFAULT_MODULES: PvModule[] = [
+  { id: 'qcells_qtron_425', manufacturer: 'Qcells', model: 'Q.TRON BLK M-G2+ 425', watts: 425, lengthMm: 1722, widthMm: 1134, efficiencyPct: 21.8, unitCost: 135, stockQty: 240 },
+  { id: 'rec_alpha_410', manufacturer: 'REC', model: 'Alpha Pure-R 410', watts: 410, lengthMm: 1730, widthMm: 1118, efficiencyPct: 21.2, unitCost: 150, stockQty: 120 },
+  { id: 'canadian_hiku6_400', manufacturer: 'Canadian Solar', model: 'HiKu6 CS6R-400MS', watts: 400, lengthMm: 1722, widthMm: 1134, efficiencyPct: 20.5, unitCost: 110, stockQty: 180 },
+  { id: 'silfab_prime_400', manufacturer: 'Silfab', model: 'Prime SIL-400 HC+', watts: 400, lengthMm: 1800, widthMm: 1037, efficiencyPct: 21.4, unitCost: 140, stockQty: 60 },
+];
+
+export const DEFAULT_INVERTERS: Inverter[] = [
+  { id: 'enphase_iq8m', manufacturer: 'Enphase', model: 'IQ8M-72-2-US', kind: 'micro', acKw: 0.325, maxDcAcRatio: 1.4, efficiencyPct: 97.5, unitCost: 185, stockQty: 300 },
+  { id: 'enphase_iq8plus', manufacturer: 'Enphase', model: 'IQ8PLUS-72-2-US', kind: 'micro', acKw: 0.29, maxDcAcRatio: 1.35, efficiencyPct: 97, unitCost: 165, stockQty: 150 },
+  { id: 'solaredge_se7600h', manufacturer: 'SolarEdge', model: 'SE7600H-US', kind: 'string', acKw: 7.6, maxDcAcRatio: 1.55, efficiencyPct: 99, unitCost: 1650, stockQty: 8 },
+  { id: 'sma_sb7_7', manufacturer: 'SMA', model: 'Sunny Boy 7.7-US', kind: 'string', acKw: 7.68, maxDcAcRatio: 1.5, efficiencyPct: 97, unitCost: 1500, stockQty: 4 },
+];
+
+export const DEFAULT_BATTERIES: Battery[] = [
+  { id: 'tesla_powerwall3', manufacturer: 'Tesla', model: 'Powerwall 3', capacityKwh: 13.5, powerKw: 11.5, unitCost: 9200, stockQty: 6 },
+  { id: 'enphase_iq5p', manufacturer: 'Enphase', model: 'IQ Battery 5P', capacityKwh: 5, powerKw: 3.84, unitCost: 4300, stockQty: 10 },
+  { id: 'franklin_apower2', manufacturer: 'FranklinWH', model: 'aPower 2', capacityKwh: 15, powerKw: 10, unitCost: 9800, stockQty: 3 },
+];
+
+export const DEFAULT_MODULE_ID = 'qcells_qtron_425';
+export const DEFAULT_INVERTER_ID = 'enphase_iq8m';
+
+export const DEFAULT_EQUIPMENT_CATALOG: EquipmentCatalog = {
+  modules: DEFAULT_MODULES,
+  inverters: DEFAULT_INVERTERS,
+  batteries: DEFAULT_BATTERIES,
+  defaultModuleId: DEFAULT_MODULE_ID,
+  defaultInverterId: DEFAULT_INVERTER_ID,
+};
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+/**
+ * Module by ID, falling back to the catalog default (designs can outlive the
+ * catalog entry they were drawn with)
+ */
+export function getModule(id?: string, catalog: EquipmentCatalog = DEFAULT_EQUIPMENT_CATALOG): PvModule {
+  return catalog.modules.find(m => m.id === id)
+    || catalog.modules.find(m => m.id === catalog.defaultModuleId)
+    || catalog.modules[0]
+    || DEFAULT_MODULES.find(m => m.id === DEFAULT_MODULE_ID)!;
+}
+
+export function getInverter(id?: string, catalog: EquipmentCatalog = DEFAULT_EQUIPMENT_CATALOG): Inverter {
+  return catalog.inverters.find(i => i.id === id)
+    || catalog.inverters.find(i => i.id === catalog.defaultInverterId)
+    || catalog.inverters[0]
+    || DEFAULT_INVERTERS.find(i => i.id === DEFAULT_INVERTER_ID)!;
+}
+
+// Batteries are optional, so there is no fallback
+export function getBattery(id?: string, catalog: EquipmentCatalog = DEFAULT_EQUIPMENT_CATALOG): Battery | undefined {
+  return id ? catalog.batteries.find(b => b.id === id) : undefined;
+}
+
+export function formatEquipment(item: { manufacturer: string; model: string }): string {
+  return `${item.manufacturer} ${item.model}`;
+}
+
+// ============================================================================
+// SIZING
+// ============================================================================
+
+export interface InverterSizing {
+  qty: number;
+  acKw: number;
+  dcAcRatio: number;
+  warnings: string[];
+}
+
+const MIN_DC_AC_RATIO = 0.8; // Below this the inverter is paying for capacity it never uses
+
+/**
+ * Units needed for an array: one micro per module, or enough string inverters
+ * to stay within the manufacturer's DC/AC ratio
+ */
+export function sizeInverters(dcKw: number, moduleQty: number, inverter: Inverter): InverterSizing {
+  const qty = inverter.kind === 'micro'
+    ? moduleQty
+    : dcKw > 0 ? Math.ceil(dcKw / (inverter.acKw * inverter.maxDcAcRatio)) : 0;
+  const acKw = Math.round(qty * inverter.acKw * 100) / 100;
+  const dcAcRatio = acKw > 0 ? Math.round((dcKw / acKw) * 100) / 100 : 0;
+
+  const warnings: string[] = [];
+  if (qty > 0 && dcAcRatio > inverter.maxDcAcRatio) {
+    warnings.push(`DC/AC ratio ${dcAcRatio} exceeds the ${inverter.maxDcAcRatio} ${inverter.model} allows — expect clipping`);
+  }
+  if (qty > 0 && dcAcRatio < MIN_DC_AC_RATIO) {
+    warnings.push(`DC/AC ratio ${dcAcRatio} leaves the inverter oversized for the array`);
+  }
+  return { qty, acKw, dcAcRatio, warnings };
+}
+
+/**
+ * Bill of materials for a system. A design with panels fixes the module count;
+ * otherwise it's the fewest modules that reach the quoted size.
+ */
+export function equipmentForSystem(
+  systemSizeKw: number,
+  design: SystemDesign | undefined,
+  catalog: EquipmentCatalog = DEFAULT_EQUIPMENT_CATALOG
+): ProjectEquipment {
+  const module = getModule(design?.moduleId, catalog);
+  const inverter = getInverter(design?.inverterId, catalog);
+  const battery = getBattery(design?.batteryId, catalog);
+
+  const placed = design ? design.faces.reduce((sum, face) => sum + face.panels.length, 0) : 0;
+  const moduleQty = placed > 0 ? placed : Math.ceil((systemSizeKw * 1000) / module.watts);
+  const dcKw = (moduleQty * module.watts) / 1000;
+  const sizing = sizeInverters(dcKw, moduleQty, inverter);
+  const batteryQty = battery ? Math.max(1, design?.batteryQty ?? 1) : 0;
+
+  return {
+    moduleId: module.id,
+    moduleName: formatEquipment(module),
+    moduleWatts: module.watts,
+    moduleQty,
+    inverterId: inverter.id,
+    inverterName: formatEquipment(inverter),
+    inverterKind: inverter.kind,
+    inverterQty: sizing.qty,
+    dcAcRatio: sizing.dcAcRatio,
+    batteryId: battery?.id,
+    batteryName: battery ? formatEquipment(battery) : undefined,
+    batteryQty,
+    equipmentCost: Math.round(
+      moduleQty * module.unitCost + sizing.qty * inverter.unitCost + batteryQty * (battery?.unitCost ?? 0)
+    ),
+  };
+}
+
+// ============================================================================
+// STOCK
+// ============================================================================
+
+export interface StockLine {
+  itemId: string;
+  name: string;
+  needed: number;
+  available: number; // Left for this project after earlier projects are allocated
+}
+
+// Equipment is on the roof (and out of the warehouse) from inspection onward
+const INSTALLED_STAGES = ['INSPECTION', 'PTO'];
+
+function equipmentLines(equipment: ProjectEquipment): { itemId: string; name: string; qty: number }[] {
+  const lines = [
+    { itemId: equipment.moduleId, name: equipment.moduleName, qty: equipment.moduleQty },
+    { itemId: equipment.inverterId, name: equipment.inverterName, qty: equipment.inverterQty },
+  ];
+  if (equipment.batteryId && equipment.batteryQty > 0) {
+    lines.push({ itemId: equipment.batteryId, name: equipment.batteryName || equipment.batteryId, qty: equipment.batteryQty });
+  }
+  return lines.filter(line => line.qty > 0);
+}
+
+function stockQtyFor(itemId: string, catalog: EquipmentCatalog): number {
+  const item = [...catalog.modules, ...catalog.inverters, ...catalog.batteries].find(i => i.id === itemId);
+  return item?.stockQty ?? 0;
+}
+
+/**
+ * Allocate warehouse stock to projects that haven't been installed yet, oldest
+ * first, and report each project's lines with what is left for it. Projects
+ * without equipment (or already installed) are omitted.
+ */
+export function allocateStock(projects: Project[], catalog: EquipmentCatalog): Record<string, StockLine[]> {
+  const remaining = new Map<string, number>();
+  const result: Record<string, StockLine[]> = {};
+
+  const pending = projects
+    .filter(p => p.equipment && !INSTALLED_STAGES.includes(p.stage))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  for (const project of pending) {
+    result[project.id] = equipmentLines(project.equipment!).map(line => {
+      const available = remaining.has(line.itemId) ? remaining.get(line.itemId)! : stockQtyFor(line.itemId, catalog);
+      remaining.set(line.itemId, Math.max(0, available - line.qty));
+      return { itemId: line.itemId, name: line.name, needed: line.qty, available };
+    });
+  }
+  return result;
+}
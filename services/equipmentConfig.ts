@@ -0,0 +1,79 @@
+// services/equipmentConfig.ts
+// Equipment Configuration - per-company module, inverter and battery catalog
+// Cached locally for instant reads; the server copy (api/company?action=equipment)
+// is what api/solar-analysis designs against.
+
+import { getActiveCompanyId } from './companyStore';
+import { companyApi } from './api';
+import { DEFAULT_EQUIPMENT_CATALOG, EquipmentCatalog } from './equipmentCatalog';
+
+// ============================================================================
+// STORAGE KEY
+// ============================================================================
+
+const EQUIPMENT_STORAGE_KEY = 'primus_equipment_catalog';
+
+function cloneCatalog(catalog: EquipmentCatalog): EquipmentCatalog {
+  return JSON.parse(JSON.stringify(catalog));
+}
+
+// ============================================================================
+// LOAD / SAVE FUNCTIONS
+// ============================================================================
+
+/**
+ * Load the equipment catalog for a company
+ */
+export function loadEquipment(companyId?: string): EquipmentCatalog {
+  const id = companyId || getActiveCompanyId();
+  try {
+    const stored = localStorage.getItem(EQUIPMENT_STORAGE_KEY);
+    if (stored) {
+      const allCatalogs = JSON.parse(stored);
+      if (allCatalogs[id]) {
+        return { ...cloneCatalog(DEFAULT_EQUIPMENT_CATALOG), ...allCatalogs[id] };
+      }
+    }
+  } catch (error) {
+    console.error('Failed to load equipment catalog:', error);
+  }
+  return cloneCatalog(DEFAULT_EQUIPMENT_CATALOG);
+}
+
+function cacheEquipment(companyId: string, catalog: EquipmentCatalog): void {
+  try {
+    const stored = localStorage.getItem(EQUIPMENT_STORAGE_KEY);
+    const allCatalogs = stored ? JSON.parse(stored) : {};
+    allCatalogs[companyId] = catalog;
+    localStorage.setItem(EQUIPMENT_STORAGE_KEY, JSON.stringify(allCatalogs));
+  } catch (error) {
+    console.error('Failed to save equipment catalog:', error);
+  }
+}
+
+/**
+ * Save the equipment catalog for a company (local cache + server)
+ * Returns the server error message, if any
+ */
+export async function saveEquipment(companyId: string, catalog: EquipmentCatalog): Promise<string | null> {
+  cacheEquipment(companyId, catalog);
+  const result = await companyApi.updateEquipment(catalog);
+  return result.success ? null : result.error || 'Failed to save equipment on the server';
+}
+
+/**
+ * Refresh the local cache from the server copy
+ */
+export async function syncEquipmentFromServer(companyId?: string): Promise<EquipmentCatalog> {
+  const id = companyId || getActiveCompanyId();
+  const result = await companyApi.getEquipment();
+  if (result.success && result.data) {
+    cacheEquipment(id, result.data);
+    return result.data;
+  }
+  return loadEquipment(id);
+}
+
+export async function resetEquipmentToDefaults(companyId: string): Promise<string | null> {
+  return saveEquipment(companyId, cloneCatalog(DEFAULT_EQUIPMENT_CATALOG));
+}
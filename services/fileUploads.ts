@@ -0,0 +1,54 @@
+// services/fileUploads.ts
+// File Uploads - survey photos and utility letters
+// Files are uploaded to api/files and records keep only the file ID, so a
+// project stays small in the local cache and in every sync. Signed out, the
+// demo keeps files on this device instead.
+
+import { getActiveCompanyId } from './companyStore';
+import { loadSession } from './auth';
+import { filesApi } from './api';
+import { loadCompanyMap, saveForCompany } from '../utils/storage';
+
+const LOCAL_FILES_KEY = 'primus_files';
+
+// Files already fetched this session, by ID
+const fetched = new Map<string, string>();
+
+/**
+ * Upload a file given as a data URL; returns the ID to keep on the record
+ */
+export async function uploadFile(fileName: string, mimeType: string, dataUrl: string): Promise<string> {
+  if (loadSession()) {
+    const result = await filesApi.upload(fileName, mimeType, dataUrl);
+    if (!result.success || !result.data) {
+      throw new Error(result.error || `Failed to upload ${fileName}`);
+    }
+    fetched.set(result.data.id, dataUrl);
+    return result.data.id;
+  }
+
+  const companyId = getActiveCompanyId();
+  const id = 'file_' + Date.now().toString(36) + '_' + Math.random().toString(36).substring(2, 7);
+  saveForCompany(LOCAL_FILES_KEY, companyId, { ...loadCompanyMap<Record<string, string>>(LOCAL_FILES_KEY)[companyId], [id]: dataUrl });
+  fetched.set(id, dataUrl);
+  return id;
+}
+
+/**
+ * The file's content as a data URL for an <img> or download link; null when
+ * it can't be found
+ */
+export async function loadFileUrl(fileId: string): Promise<string | null> {
+  const cached = fetched.get(fileId);
+  if (cached) return cached;
+
+  let dataUrl: string | null = null;
+  if (loadSession()) {
+    const result = await filesApi.get(fileId);
+    dataUrl = result.success && result.data?.dataUrl ? result.data.dataUrl : null;
+  } else {
+    dataUrl = loadCompanyMap<Record<string, string>>(LOCAL_FILES_KEY)[getActiveCompanyId()]?.[fileId] || null;
+  }
+  if (dataUrl) fetched.set(fileId, dataUrl);
+  return dataUrl;
+}
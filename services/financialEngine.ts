@@ -0,0 +1,431 @@
+// services/financialEngine.ts
+// Solar Financial Engine - pricing and payment math shared by the app and api/ handlers
+// Pure functions only (no localStorage), so the server computes exactly what the client shows
+
+import type { FinancingOption } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// Price per watt for systems in [minKw, maxKw); maxKw null = no upper bound
+export interface PriceBand {
+  minKw: number;
+  maxKw: number | null;
+  pricePerWatt: number;
+}
+
+export interface PricingAdder {
+  id: string;
+  name: string;
+  type: 'flat' | 'perWatt';
+  amount: number; // $ (flat) or $/W (perWatt)
+}
+
+export interface LoanProduct {
+  id: string;
+  name: string;
+  apr: number; // percent, e.g. 4.99
+  termYears: number;
+  dealerFeePct: number; // percent of the financed contract price
+}
+
+export interface LeaseProduct {
+  id: string;
+  name: string;
+  monthlyPerKw: number; // Year-1 lease payment per kW of system size
+  escalatorPct: number;
+  termYears: number;
+}
+
+export interface PpaProduct {
+  id: string;
+  name: string;
+  ratePerKwh: number; // Year-1 price per kWh produced
+  escalatorPct: number;
+  termYears: number;
+}
+
+export interface PricingConfig {
+  priceBands: PriceBand[];
+  adders: PricingAdder[];
+  loanProducts: LoanProduct[];
+  defaultLoanProductId: string;
+  leaseProducts: LeaseProduct[];
+  ppaProducts: PpaProduct[];
+  cashDiscountPct: number; // percent off the base price for cash deals
+  taxCreditPct: number; // federal ITC, percent
+  targetOffsetPct: number; // share of the bill the system is designed to offset
+  utilityEscalatorPct: number; // expected annual utility rate increase
+  degradationPct: number; // annual panel output loss
+}
+
+export interface PricingOptions {
+  adderIds?: string[];
+  loanProductId?: string;
+  annualProductionKwh?: number; // Year-1 production; estimated from sun hours when omitted
+}
+
+export interface SystemPrice {
+  pricePerWatt: number;
+  basePrice: number;
+  addersTotal: number;
+  cashPrice: number;
+  dealerFee: number;
+  financedPrice: number;
+  loanProduct: LoanProduct | null;
+}
+
+export interface Financials {
+  pricePerWatt: number;
+  systemCost: number;
+  taxCredit30: number;
+  netCost: number;
+  estimatedMonthlyPayment: number;
+  estimatedMonthlySavings: number;
+  estimatedUtilityBillBefore: number;
+}
+
+// ============================================================================
+// DEFAULTS (match the figures the app shipped with: $2.85/W, 4.99% / 20 yr, 85% offset)
+// ============================================================================
+
+export const DEFAULT_BILL = 220;
+
+export const DEFAULT_PRICING_CONFIG: PricingConfig = {
+  priceBands: [
+    { minKw: 0, maxKw: null, pricePerWatt: 2.85 },
+  ],
+  adders: [
+    { id: 'battery', name: 'Battery Storage', type: 'flat', amount: 12000 },
+    { id: 'mpu', name: 'Main Panel Upgrade', type: 'flat', amount: 2500 },
+  ],
+  loanProducts: [
+    { id: 'loan_20yr', name: '20-Year Loan', apr: 4.99, termYears: 20, dealerFeePct: 0 },
+  ],
+  defaultLoanProductId: 'loan_20yr',
+  leaseProducts: [
+    { id: 'lease_25yr', name: '25-Year Lease', monthlyPerKw: 15, escalatorPct: 2.9, termYears: 25 },
+  ],
+  ppaProducts: [
+    { id: 'ppa_25yr', name: '25-Year PPA', ratePerKwh: 0.21, escalatorPct: 2.9, termYears: 25 },
+  ],
+  cashDiscountPct: 0,
+  taxCreditPct: 30,
+  targetOffsetPct: 85,
+  utilityEscalatorPct: 4,
+  degradationPct: 0.5,
+};
+
+export const ANALYSIS_YEARS = 25;
+
+const DEFAULT_SUN_HOURS = 5.5;
+const SYSTEM_DERATE = 0.8; // Inverter, wiring and soiling losses
+
+// ============================================================================
+// PRICING
+// ============================================================================
+
+/**
+ * Price per watt for a system size; falls back to the closest band
+ */
+export function getPricePerWatt(config: PricingConfig, systemSizeKw: number): number {
+  const bands = [...config.priceBands].sort((a, b) => a.minKw - b.minKw);
+  if (bands.length === 0) return DEFAULT_PRICING_CONFIG.priceBands[0].pricePerWatt;
+  const band = bands.find(b => systemSizeKw >= b.minKw && (b.maxKw === null || systemSizeKw < b.maxKw));
+  if (band) return band.pricePerWatt;
+  return systemSizeKw < bands[0].minKw ? bands[0].pricePerWatt : bands[bands.length - 1].pricePerWatt;
+}
+
+export function getLoanProduct(config: PricingConfig, loanProductId?: string): LoanProduct | null {
+  const id = loanProductId || config.defaultLoanProductId;
+  return config.loanProducts.find(p => p.id === id) || config.loanProducts[0] || null;
+}
+
+export function calculateAddersTotal(config: PricingConfig, systemSizeKw: number, adderIds: string[] = []): number {
+  return config.adders
+    .filter(a => adderIds.includes(a.id))
+    .reduce((sum, a) => sum + (a.type === 'perWatt' ? a.amount * systemSizeKw * 1000 : a.amount), 0);
+}
+
+/**
+ * Cash and financed contract price for a system.
+ * The dealer fee is grossed up so the installer nets the cash price after the lender's cut.
+ */
+export function calculateSystemPrice(
+  config: PricingConfig,
+  systemSizeKw: number,
+  options: PricingOptions = {}
+): SystemPrice {
+  const pricePerWatt = getPricePerWatt(config, systemSizeKw);
+  const basePrice = systemSizeKw * 1000 * pricePerWatt;
+  const addersTotal = calculateAddersTotal(config, systemSizeKw, options.adderIds);
+  const grossPrice = basePrice + addersTotal;
+  const cashPrice = grossPrice * (1 - config.cashDiscountPct / 100);
+
+  const loanProduct = getLoanProduct(config, options.loanProductId);
+  const feeRate = Math.min(0.99, (loanProduct?.dealerFeePct || 0) / 100);
+  const financedPrice = grossPrice / (1 - feeRate);
+
+  return {
+    pricePerWatt,
+    basePrice,
+    addersTotal,
+    cashPrice,
+    dealerFee: financedPrice - grossPrice,
+    financedPrice,
+    loanProduct,
+  };
+}
+
+/**
+ * Standard amortized monthly payment
+ */
+export function monthlyPayment(principal: number, aprPct: number, termYears: number): number {
+  const n = termYears * 12;
+  if (n <= 0) return principal;
+  const r = aprPct / 100 / 12;
+  if (r === 0) return principal / n;
+  return (principal * r) / (1 - Math.pow(1 + r, -n));
+}
+
+// ============================================================================
+// FINANCIALS
+// ============================================================================
+
+/**
+ * Headline financials for a SolarAnalysis: financed system cost, tax credit,
+ * loan payment on the net cost, and monthly savings against the post-solar bill
+ * (from the tariff engine when known, otherwise the target offset).
+ */
+export function computeFinancials(
+  systemSizeKw: number,
+  estimatedBill: number | undefined,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG,
+  options: PricingOptions = {},
+  monthlyBillAfter?: number
+): Financials {
+  const price = calculateSystemPrice(config, systemSizeKw, options);
+  const systemCost = price.financedPrice;
+  const taxCredit = systemCost * (config.taxCreditPct / 100);
+  const netCost = systemCost - taxCredit;
+
+  const loan = price.loanProduct;
+  const payment = loan ? monthlyPayment(netCost, loan.apr, loan.termYears) : 0;
+
+  const baselineBill = estimatedBill ?? DEFAULT_BILL;
+  const remainingBill = monthlyBillAfter ?? baselineBill * (1 - config.targetOffsetPct / 100);
+  const savings = Math.max(0, baselineBill - payment - remainingBill);
+
+  return {
+    pricePerWatt: price.pricePerWatt,
+    systemCost: Math.round(systemCost),
+    taxCredit30: Math.round(taxCredit),
+    netCost: Math.round(netCost),
+    estimatedMonthlyPayment: Math.round(payment),
+    estimatedMonthlySavings: Math.round(savings),
+    estimatedUtilityBillBefore: baselineBill,
+  };
+}
+
+/**
+ * System size recommended for a monthly bill (4-12 kW)
+ */
+export function recommendSystemSizeKw(estimatedBill?: number): number {
+  const bill = estimatedBill ?? DEFAULT_BILL;
+  return Math.max(4, Math.min(12, Math.round((bill / 35) * 10) / 10));
+}
+
+/**
+ * System size that covers the target offset of annual usage at a specific yield (4-12 kW)
+ */
+export function sizeSystemForUsageKw(annualUsageKwh: number, specificYield: number, targetOffsetPct: number): number {
+  if (!(specificYield > 0)) return recommendSystemSizeKw();
+  const kw = (annualUsageKwh * (targetOffsetPct / 100)) / specificYield;
+  return Math.max(4, Math.min(12, Math.round(kw * 10) / 10));
+}
+
+/**
+ * Rough year-1 production from peak sun hours (replaced by a production model when available)
+ */
+export function estimateAnnualProductionKwh(systemSizeKw: number, sunHoursPerDay = DEFAULT_SUN_HOURS): number {
+  return systemSizeKw * sunHoursPerDay * 365 * SYSTEM_DERATE;
+}
+
+// ============================================================================
+// FINANCING COMPARISON
+// ============================================================================
+
+// Annual utility spend with and without solar, one entry per year
+export interface UtilityBillProjection {
+  withoutSolar: number[];
+  withSolar: number[];
+}
+
+/**
+ * Project utility bills over the analysis period from the current monthly bill,
+ * the utility escalator, the target offset and panel degradation.
+ */
+export function projectUtilityBills(
+  estimatedBill: number | undefined,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG,
+  years = ANALYSIS_YEARS
+): UtilityBillProjection {
+  const annualBill = (estimatedBill ?? DEFAULT_BILL) * 12;
+  const withoutSolar: number[] = [];
+  const withSolar: number[] = [];
+  for (let y = 0; y < years; y++) {
+    const bill = annualBill * Math.pow(1 + config.utilityEscalatorPct / 100, y);
+    const offset = Math.min(1, (config.targetOffsetPct / 100) * Math.pow(1 - config.degradationPct / 100, y));
+    withoutSolar.push(bill);
+    withSolar.push(bill * (1 - offset));
+  }
+  return { withoutSolar, withSolar };
+}
+
+/**
+ * Internal rate of return (percent) for yearly cash flows; flows[0] is the upfront amount
+ */
+export function calculateIrr(flows: number[]): number | null {
+  if (!(flows[0] < 0) || !flows.some(f => f > 0)) return null;
+  const npv = (rate: number) => flows.reduce((sum, f, t) => sum + f / Math.pow(1 + rate, t), 0);
+  let low = -0.99;
+  let high = 1;
+  if (npv(low) * npv(high) > 0) return null;
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (npv(low) * npv(mid) <= 0) high = mid;
+    else low = mid;
+  }
+  return Math.round(((low + high) / 2) * 1000) / 10;
+}
+
+interface PaymentSchedule {
+  id: string;
+  type: FinancingOption['type'];
+  name: string;
+  upfrontCost: number;
+  escalatorPct: number;
+  termYears: number;
+  yearlyPayments: number[]; // Payments to the installer/financier, per year
+  yearlyCredits: number[]; // Tax credit and other inflows, per year
+}
+
+function summarizeOption(schedule: PaymentSchedule, bills: UtilityBillProjection): FinancingOption {
+  const years = bills.withoutSolar.length;
+  const flows: number[] = [-schedule.upfrontCost];
+  let totalCost = schedule.upfrontCost;
+  let cumulative = -schedule.upfrontCost;
+  let paybackYear: number | null = null;
+
+  for (let y = 0; y < years; y++) {
+    const spend = (schedule.yearlyPayments[y] || 0) + bills.withSolar[y] - (schedule.yearlyCredits[y] || 0);
+    const savings = bills.withoutSolar[y] - spend;
+    totalCost += spend;
+    cumulative += savings;
+    flows.push(savings);
+    if (paybackYear === null && cumulative >= 0) paybackYear = y + 1;
+  }
+  const totalWithoutSolar = bills.withoutSolar.reduce((sum, b) => sum + b, 0);
+
+  return {
+    id: schedule.id,
+    type: schedule.type,
+    name: schedule.name,
+    upfrontCost: Math.round(schedule.upfrontCost),
+    monthlyPayment: Math.round((schedule.yearlyPayments[0] || 0) / 12),
+    escalatorPct: schedule.escalatorPct,
+    termYears: schedule.termYears,
+    totalCost25: Math.round(totalCost),
+    netSavings25: Math.round(totalWithoutSolar - totalCost),
+    paybackYear,
+    irr: calculateIrr(flows),
+  };
+}
+
+function escalatingPayments(yearOnePayment: number, escalatorPct: number, termYears: number, years: number): number[] {
+  return Array.from({ length: years }, (_, y) =>
+    y < termYears ? yearOnePayment * Math.pow(1 + escalatorPct / 100, y) : 0
+  );
+}
+
+/**
+ * Side-by-side comparison of cash, every loan product, every lease and every PPA.
+ * Pass `bills` to price savings against a detailed utility projection.
+ */
+export function compareFinancing(
+  systemSizeKw: number,
+  estimatedBill: number | undefined,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG,
+  options: PricingOptions = {},
+  bills: UtilityBillProjection = projectUtilityBills(estimatedBill, config)
+): FinancingOption[] {
+  const years = bills.withoutSolar.length;
+  const none = () => new Array(years).fill(0);
+  const production = options.annualProductionKwh ?? estimateAnnualProductionKwh(systemSizeKw);
+  const schedules: PaymentSchedule[] = [];
+
+  // Cash: pay the cash price upfront, receive the tax credit in year 1
+  const cash = calculateSystemPrice(config, systemSizeKw, options);
+  const cashCredits = none();
+  cashCredits[0] = cash.cashPrice * (config.taxCreditPct / 100);
+  schedules.push({
+    id: 'cash',
+    type: 'cash',
+    name: 'Cash Purchase',
+    upfrontCost: cash.cashPrice,
+    escalatorPct: 0,
+    termYears: 0,
+    yearlyPayments: none(),
+    yearlyCredits: cashCredits,
+  });
+
+  // Loans: amortized on the financed price net of the tax credit (re-amortized)
+  config.loanProducts.forEach(loan => {
+    const price = calculateSystemPrice(config, systemSizeKw, { ...options, loanProductId: loan.id });
+    const netCost = price.financedPrice * (1 - config.taxCreditPct / 100);
+    const annual = monthlyPayment(netCost, loan.apr, loan.termYears) * 12;
+    schedules.push({
+      id: loan.id,
+      type: 'loan',
+      name: loan.name,
+      upfrontCost: 0,
+      escalatorPct: 0,
+      termYears: loan.termYears,
+      yearlyPayments: escalatingPayments(annual, 0, loan.termYears, years),
+      yearlyCredits: none(),
+    });
+  });
+
+  // Leases: fixed payment per kW with an annual escalator; the lessor keeps the tax credit
+  config.leaseProducts.forEach(lease => {
+    schedules.push({
+      id: lease.id,
+      type: 'lease',
+      name: lease.name,
+      upfrontCost: 0,
+      escalatorPct: lease.escalatorPct,
+      termYears: lease.termYears,
+      yearlyPayments: escalatingPayments(lease.monthlyPerKw * systemSizeKw * 12, lease.escalatorPct, lease.termYears, years),
+      yearlyCredits: none(),
+    });
+  });
+
+  // PPAs: pay per kWh produced (degrading output) at an escalating rate
+  config.ppaProducts.forEach(ppa => {
+    const yearlyPayments = escalatingPayments(production * ppa.ratePerKwh, ppa.escalatorPct, ppa.termYears, years)
+      .map((payment, y) => payment * Math.pow(1 - config.degradationPct / 100, y));
+    schedules.push({
+      id: ppa.id,
+      type: 'ppa',
+      name: ppa.name,
+      upfrontCost: 0,
+      escalatorPct: ppa.escalatorPct,
+      termYears: ppa.termYears,
+      yearlyPayments,
+      yearlyCredits: none(),
+    });
+  });
+
+  return schedules.map(schedule => summarizeOption(schedule, bills));
+}
@@ -1,6 +1,13 @@
 import { GoogleGenAI } from "@google/genai";
-import { Lead, SolarAnalysis, ProjectStage, ComplianceAnalysis, LeadRouting, Commission, BusinessInsight, UserProfile } from "../types";
+import { Lead, SolarAnalysis, SystemDesign, ProjectStage, ComplianceAnalysis, LeadRouting, Commission, BusinessInsight, UserProfile } from "../types";
 import { loadOrDefault } from "../utils/storage";
+import { getAuthHeaders } from "./auth";
+import type { PricingOptions } from "./financialEngine";
+import { loadPricing } from "./pricingConfig";
+import { loadEquipment } from "./equipmentConfig";
+import { DEFAULT_ROOF, type RoofPlane } from "./productionModel";
+import { estimateSolar } from "./solarEstimate";
+import { isWonStatus } from "./leadPipeline";
 
 // ============================================================================
 // HYBRID MODE: Backend API for main functions, Client-Side for image analysis
@@ -54,7 +61,7 @@ async function callBackendAPI<T>(endpoint: string, body: object): Promise<T> {
   try {
     const response = await fetch(`${API_BASE}${endpoint}`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
       body: JSON.stringify(body),
     });
 
@@ -78,30 +85,25 @@ async function callBackendAPI<T>(endpoint: string, body: object): Promise<T> {
  * Solar Analysis - POST /api/solar-analysis
  * Analyzes roof and generates financial projections
  */
-export async function simulateSolarAnalysis(lead: Lead): Promise<SolarAnalysis> {
+export async function simulateSolarAnalysis(
+  lead: Lead,
+  options: PricingOptions = {},
+  roof: RoofPlane = DEFAULT_ROOF,
+  design?: SystemDesign
+): Promise<SolarAnalysis> {
   try {
-    const result = await callBackendAPI<SolarAnalysis>('/solar-analysis', { lead });
+    const result = await callBackendAPI<SolarAnalysis>('/solar-analysis', { lead, roof, design, ...options });
     return result;
   } catch (e) {
     console.error("Solar Analysis Error:", e);
-    // Fallback with basic calculations
-    const bill = lead.estimatedBill ?? 220;
-    const systemSizeKw = Math.max(4, Math.min(12, Math.round((bill / 35) * 10) / 10));
+    // Fallback priced locally with the same engine the server uses
+    const { fields } = estimateSolar(lead, loadPricing(), options, roof, design, loadEquipment());
     return {
       leadId: lead.id,
-      roofPitch: "Medium",
-      usableAreaSqft: Math.round(systemSizeKw * 65),
-      sunHoursPerDay: 5.5,
-      systemSizeKw,
       viabilityScore: 75,
       summary: "⚠️ Analysis temporarily unavailable. Basic estimate shown.",
       groundingUrls: [],
-      systemCost: Math.round(systemSizeKw * 1000 * 2.85),
-      taxCredit30: Math.round(systemSizeKw * 1000 * 2.85 * 0.3),
-      netCost: Math.round(systemSizeKw * 1000 * 2.85 * 0.7),
-      estimatedMonthlyPayment: Math.round((systemSizeKw * 1000 * 2.85 * 0.7) / 240),
-      estimatedMonthlySavings: Math.round(bill * 0.3),
-      estimatedUtilityBillBefore: bill,
+      ...fields,
     };
   }
 }
@@ -221,7 +223,7 @@ export async function generateBusinessInsights(
   } catch (e) {
     console.error("Business Insights Error:", e);
     // Return basic fallback insights
-    const won = leads.filter(l => l.status === 'CLOSED_WON').length;
+    const won = leads.filter(l => isWonStatus(l.status)).length;
     const hot = leads.filter(l => l.routing?.quality === 'HOT').length;
     
     return [
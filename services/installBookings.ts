@@ -0,0 +1,108 @@
+// services/installBookings.ts
+// Install Bookings - the company's install schedule as the calendar edits it
+// While signed in, every booking, unscheduling and weather hold is applied by
+// api/install-schedule to the stored schedule and the copy here is a cache.
+// Signed out, the calendar plans against local demo data.
+
+import type { Project } from '../types';
+import { getActiveCompanyId } from './companyStore';
+import { loadSession } from './auth';
+import { installScheduleApi, type ApiResponse } from './api';
+import {
+  EMPTY_SCHEDULE,
+  scheduleInstall,
+  toggleWeatherHold,
+  unscheduleInstall,
+  type InstallSchedule,
+  type WeatherHold,
+} from './installSchedule';
+import { loadCompanyMap, saveForCompany } from '../utils/storage';
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+const INSTALL_SCHEDULE_KEY = 'primus_install_schedule';
+
+/**
+ * Load the cached install schedule for a company
+ */
+export function loadInstallSchedule(companyId?: string): InstallSchedule {
+  return { ...EMPTY_SCHEDULE, ...loadCompanyMap<InstallSchedule>(INSTALL_SCHEDULE_KEY)[companyId || getActiveCompanyId()] };
+}
+
+function cacheInstallSchedule(companyId: string, schedule: InstallSchedule): void {
+  saveForCompany(INSTALL_SCHEDULE_KEY, companyId, schedule);
+}
+
+/**
+ * Refresh the cached schedule from the server copy
+ */
+export async function syncInstallScheduleFromServer(companyId: string = getActiveCompanyId()): Promise<InstallSchedule> {
+  if (!loadSession()) return loadInstallSchedule(companyId);
+  const result = await installScheduleApi.get();
+  if (result.success && result.data) {
+    cacheInstallSchedule(companyId, result.data);
+  }
+  return loadInstallSchedule(companyId);
+}
+
+// Apply a change on the server when signed in, otherwise to the local copy
+async function applyChange(
+  companyId: string,
+  send: () => Promise<ApiResponse<InstallSchedule>>,
+  local: (schedule: InstallSchedule) => InstallSchedule
+): Promise<InstallSchedule> {
+  let next: InstallSchedule;
+  if (loadSession()) {
+    const result = await send();
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Failed to update the install schedule');
+    }
+    next = result.data;
+  } else {
+    next = local(loadInstallSchedule(companyId));
+  }
+  cacheInstallSchedule(companyId, next);
+  return next;
+}
+
+// ============================================================================
+// CHANGES
+// ============================================================================
+
+/**
+ * Book (or rebook) a project's install onto a crew; returns the new schedule
+ */
+export function bookInstall(
+  companyId: string,
+  project: Project,
+  installerId: string,
+  crewId: string,
+  startDate: string
+): Promise<InstallSchedule> {
+  return applyChange(
+    companyId,
+    () => installScheduleApi.book(project.id, installerId, crewId, startDate),
+    schedule => scheduleInstall(schedule, project, installerId, crewId, startDate)
+  );
+}
+
+export function cancelInstall(companyId: string, appointmentId: string): Promise<InstallSchedule> {
+  return applyChange(
+    companyId,
+    () => installScheduleApi.unschedule(appointmentId),
+    schedule => unscheduleInstall(schedule, appointmentId)
+  );
+}
+
+/**
+ * Hold installs on a day, or release the hold if there already is one
+ */
+export function setWeatherHold(companyId: string, hold: WeatherHold): Promise<InstallSchedule> {
+  return applyChange(
+    companyId,
+    () => installScheduleApi.toggleWeatherHold(hold),
+    schedule => toggleWeatherHold(schedule, hold)
+  );
+}
@@ -0,0 +1,291 @@
+// services/installSchedule.ts
+// Install Scheduling - crew calendar and capacity planning
+// Books install appointments onto installer crews, works out how many working
+// days each install takes from the crew's kW/day capacity, flags conflicts,
+// and compares the signed backlog against crew capacity for the coming weeks.
+// Pure rules shared by api/install-schedule, which stores the company's
+// schedule, and the install calendar (services/installBookings.ts).
+
+import type { Crew, Installer, Project } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface InstallAppointment {
+  id: string;
+  projectId: string;
+  installerId: string;
+  crewId: string;
+  startDate: string; // YYYY-MM-DD; the install runs over the crew's next working days
+  kW: number;
+  createdAt: string;
+}
+
+// No installs on this day, for one installer or (null) every installer
+export interface WeatherHold {
+  date: string;
+  installerId: string | null;
+  reason?: string;
+}
+
+export interface InstallSchedule {
+  appointments: InstallAppointment[];
+  weatherHolds: WeatherHold[];
+}
+
+export interface ScheduledCrew {
+  installer: Installer;
+  crew: Crew;
+}
+
+export type ConflictType = 'double_booked' | 'weather_hold' | 'inactive_crew' | 'permit_pending';
+
+export interface ScheduleConflict {
+  appointmentId: string;
+  type: ConflictType;
+  message: string;
+}
+
+export interface CapacityWeek {
+  weekStart: string; // Monday
+  capacityKw: number;
+  scheduledKw: number;
+}
+
+export interface CapacityForecast {
+  weeks: CapacityWeek[];
+  capacityKw: number; // Over the whole horizon
+  scheduledKw: number;
+  backlogKw: number; // Signed projects not yet installed, scheduled or not
+  weeksOfBacklog: number | null; // Null when there is no capacity
+  overCapacity: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const EMPTY_SCHEDULE: InstallSchedule = { appointments: [], weatherHolds: [] };
+
+// Monday to Friday
+const WORK_DAYS = [1, 2, 3, 4, 5];
+
+// Longest install we plan for, so a tiny crew capacity can't loop for ever
+const MAX_INSTALL_DAYS = 30;
+
+// ============================================================================
+// CALENDAR
+// ============================================================================
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+// Monday of the week containing `date`
+export function weekStart(date: string): string {
+  const day = new Date(`${date.slice(0, 10)}T00:00:00Z`).getUTCDay();
+  return addDays(date, day === 0 ? -6 : 1 - day);
+}
+
+export function isHeld(date: string, installerId: string, holds: WeatherHold[]): boolean {
+  return holds.some(h => h.date === date && (h.installerId === null || h.installerId === installerId));
+}
+
+export function isWorkDay(date: string, installerId: string, holds: WeatherHold[]): boolean {
+  return WORK_DAYS.includes(new Date(`${date}T00:00:00Z`).getUTCDay()) && !isHeld(date, installerId, holds);
+}
+
+/**
+ * Active crews of active installers, in installer order
+ */
+export function listCrews(installers: Installer[]): ScheduledCrew[] {
+  return installers
+    .filter(installer => installer.isActive)
+    .flatMap(installer => (installer.crews || []).filter(crew => crew.isActive).map(crew => ({ installer, crew })));
+}
+
+export function findCrew(installers: Installer[], installerId: string, crewId: string): ScheduledCrew | null {
+  const installer = installers.find(i => i.id === installerId);
+  const crew = installer?.crews?.find(c => c.id === crewId);
+  return installer && crew ? { installer, crew } : null;
+}
+
+/**
+ * Working days an install of this size takes the crew
+ */
+export function installDays(kW: number, crew: Crew): number {
+  if (crew.capacityKwPerDay <= 0) return MAX_INSTALL_DAYS;
+  return Math.min(MAX_INSTALL_DAYS, Math.max(1, Math.ceil(kW / crew.capacityKwPerDay)));
+}
+
+/**
+ * Dates the appointment occupies: its length in working days from the start
+ * date, skipping weekends and weather holds, so a hold pushes the rest of the
+ * install back a day
+ */
+export function appointmentDates(appointment: InstallAppointment, crew: Crew | undefined, holds: WeatherHold[]): string[] {
+  const needed = crew ? installDays(appointment.kW, crew) : 1;
+  const dates: string[] = [];
+  let date = appointment.startDate;
+  for (let guard = 0; dates.length < needed && guard < MAX_INSTALL_DAYS * 3; guard++) {
+    if (isWorkDay(date, appointment.installerId, holds)) dates.push(date);
+    date = addDays(date, 1);
+  }
+  return dates;
+}
+
+// ============================================================================
+// BOOKING
+// ============================================================================
+
+/**
+ * Book (or rebook) a project's install; a project has at most one appointment
+ */
+export function scheduleInstall(
+  schedule: InstallSchedule,
+  project: Project,
+  installerId: string,
+  crewId: string,
+  startDate: string
+): InstallSchedule {
+  const existing = schedule.appointments.find(a => a.projectId === project.id);
+  const appointment: InstallAppointment = {
+    id: existing?.id || `appt_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`,
+    projectId: project.id,
+    installerId,
+    crewId,
+    startDate,
+    kW: project.kW,
+    createdAt: existing?.createdAt || new Date().toISOString(),
+  };
+  return {
+    ...schedule,
+    appointments: [...schedule.appointments.filter(a => a.projectId !== project.id), appointment],
+  };
+}
+
+export function unscheduleInstall(schedule: InstallSchedule, appointmentId: string): InstallSchedule {
+  return { ...schedule, appointments: schedule.appointments.filter(a => a.id !== appointmentId) };
+}
+
+export function toggleWeatherHold(schedule: InstallSchedule, hold: WeatherHold): InstallSchedule {
+  const matches = (h: WeatherHold) => h.date === hold.date && h.installerId === hold.installerId;
+  return {
+    ...schedule,
+    weatherHolds: schedule.weatherHolds.some(matches)
+      ? schedule.weatherHolds.filter(h => !matches(h))
+      : [...schedule.weatherHolds, hold],
+  };
+}
+
+// ============================================================================
+// CONFLICTS
+// ============================================================================
+
+/**
+ * Appointments that can't go ahead as booked: a crew booked twice on the same
+ * day, a start date on a weather hold, a crew that is no longer active, or a
+ * project whose permit isn't approved yet
+ */
+export function findConflicts(schedule: InstallSchedule, installers: Installer[], projects: Project[]): ScheduleConflict[] {
+  const conflicts: ScheduleConflict[] = [];
+  const booked = new Map<string, string>(); // crew|date -> appointment ID
+
+  [...schedule.appointments]
+    .sort((a, b) => a.startDate.localeCompare(b.startDate) || a.createdAt.localeCompare(b.createdAt))
+    .forEach(appointment => {
+      const found = findCrew(installers, appointment.installerId, appointment.crewId);
+      if (!found || !found.crew.isActive || !found.installer.isActive) {
+        conflicts.push({ appointmentId: appointment.id, type: 'inactive_crew', message: 'Crew is no longer active' });
+      }
+      if (isHeld(appointment.startDate, appointment.installerId, schedule.weatherHolds)) {
+        conflicts.push({ appointmentId: appointment.id, type: 'weather_hold', message: `Weather hold on ${appointment.startDate}` });
+      }
+
+      appointmentDates(appointment, found?.crew, schedule.weatherHolds).forEach(date => {
+        const key = `${appointment.crewId}|${date}`;
+        const other = booked.get(key);
+        if (other) {
+          const otherProject = schedule.appointments.find(a => a.id === other)?.projectId;
+          conflicts.push({
+            appointmentId: appointment.id,
+            type: 'double_booked',
+            message: `${found?.crew.name || 'Crew'} is already on ${otherProject} on ${date}`,
+          });
+        } else {
+          booked.set(key, appointment.id);
+        }
+      });
+
+      const permit = projects.find(p => p.id === appointment.projectId)?.permit;
+      if (permit && permit.status !== 'approved') {
+        conflicts.push({ appointmentId: appointment.id, type: 'permit_pending', message: 'Permit not approved yet' });
+      }
+    });
+  return conflicts;
+}
+
+// ============================================================================
+// CAPACITY FORECAST
+// ============================================================================
+
+/**
+ * Projects signed but not yet installed
+ */
+export function installBacklog(projects: Project[], stageOrder: string[]): Project[] {
+  const installIndex = stageOrder.indexOf('INSTALL');
+  return projects.filter(p => {
+    if (p.cancelledAt) return false;
+    const index = stageOrder.indexOf(p.stage);
+    return installIndex === -1 ? index < stageOrder.length - 1 : index !== -1 && index <= installIndex;
+  });
+}
+
+/**
+ * Crew capacity week by week against what's booked, and how many weeks of
+ * capacity the signed backlog would fill. Over capacity when the backlog is
+ * more than the crews can install over the horizon.
+ */
+export function capacityForecast(
+  installers: Installer[],
+  projects: Project[],
+  schedule: InstallSchedule,
+  stageOrder: string[],
+  weeks: number,
+  today: string = new Date().toISOString().slice(0, 10)
+): CapacityForecast {
+  const crews = listCrews(installers);
+  const firstWeek = weekStart(today);
+
+  const forecastWeeks: CapacityWeek[] = Array.from({ length: weeks }, (_, w) => {
+    const start = addDays(firstWeek, w * 7);
+    const days = Array.from({ length: 7 }, (_, d) => addDays(start, d)).filter(date => date >= today);
+    const capacityKw = crews.reduce((sum, { installer, crew }) =>
+      sum + days.filter(date => isWorkDay(date, installer.id, schedule.weatherHolds)).length * crew.capacityKwPerDay, 0);
+    return { weekStart: start, capacityKw: Math.round(capacityKw * 10) / 10, scheduledKw: 0 };
+  });
+
+  schedule.appointments.forEach(appointment => {
+    const found = findCrew(installers, appointment.installerId, appointment.crewId);
+    const dates = appointmentDates(appointment, found?.crew, schedule.weatherHolds);
+    dates.forEach(date => {
+      const week = forecastWeeks.find(w => date >= w.weekStart && date < addDays(w.weekStart, 7) && date >= today);
+      if (week) week.scheduledKw = Math.round((week.scheduledKw + appointment.kW / dates.length) * 10) / 10;
+    });
+  });
+
+  const capacityKw = forecastWeeks.reduce((sum, w) => sum + w.capacityKw, 0);
+  const backlogKw = installBacklog(projects, stageOrder).reduce((sum, p) => sum + (p.kW || 0), 0);
+  const weeklyCapacity = weeks > 0 ? capacityKw / weeks : 0;
+  return {
+    weeks: forecastWeeks,
+    capacityKw: Math.round(capacityKw * 10) / 10,
+    scheduledKw: Math.round(forecastWeeks.reduce((sum, w) => sum + w.scheduledKw, 0) * 10) / 10,
+    backlogKw: Math.round(backlogKw * 10) / 10,
+    weeksOfBacklog: weeklyCapacity > 0 ? Math.round((backlogKw / weeklyCapacity) * 10) / 10 : null,
+    overCapacity: backlogKw > capacityKw,
+  };
+}
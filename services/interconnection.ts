@@ -0,0 +1,200 @@
+// services/interconnection.ts
+// Interconnection Tracking - the utility application that ends in PTO
+// Moves each project's interconnection application through its status machine,
+// flags utilities that are past their typical turnaround, and estimates the
+// days left until permission to operate for the revenue forecast.
+
+import type { InterconnectionLetter, InterconnectionRecord, InterconnectionStatus, Lead, NemProgram } from '../types';
+import { getRatePlan } from './tariffEngine';
+import { uploadFile } from './fileUploads';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface UtilityTurnaround {
+  utility: string;
+  approvalDays: number; // Submission to approval
+  meterSwapDays: number; // Approval to meter swap
+  ptoDays: number; // Meter swap to PTO letter
+}
+
+export interface InterconnectionDetails {
+  applicationId?: string;
+  rejectedReason?: string;
+  meterSwapDate?: string;
+}
+
+// ============================================================================
+// UTILITY TURNAROUND TABLE
+// Typical days for residential applications, for reminders and forecasting
+// only; utilities publish their own targets.
+// ============================================================================
+
+export const UTILITY_TURNAROUND: UtilityTurnaround[] = [
+  { utility: 'PG&E', approvalDays: 20, meterSwapDays: 10, ptoDays: 5 },
+  { utility: 'SCE', approvalDays: 15, meterSwapDays: 10, ptoDays: 5 },
+  { utility: 'SDG&E', approvalDays: 15, meterSwapDays: 7, ptoDays: 5 },
+  { utility: 'SMUD', approvalDays: 10, meterSwapDays: 7, ptoDays: 3 },
+  { utility: 'APS', approvalDays: 15, meterSwapDays: 10, ptoDays: 5 },
+  { utility: 'NV Energy', approvalDays: 20, meterSwapDays: 10, ptoDays: 5 },
+];
+
+// Utilities not in the table
+export const DEFAULT_TURNAROUND: UtilityTurnaround = { utility: 'Generic', approvalDays: 15, meterSwapDays: 10, ptoDays: 5 };
+
+// Largest letter we upload
+export const MAX_LETTER_BYTES = 2 * 1024 * 1024;
+
+// An overdue utility is assumed to need about another week
+const OVERDUE_SLIP_DAYS = 7;
+
+export const INTERCONNECTION_STATUS_LABELS: Record<InterconnectionStatus, string> = {
+  not_submitted: 'Not Submitted',
+  submitted: 'Submitted',
+  rejected: 'Rejected',
+  approved: 'Approved',
+  meter_swapped: 'Meter Swapped',
+  pto_granted: 'PTO Granted',
+};
+
+// Allowed next statuses; approved can skip the meter swap for utilities that reuse the meter
+export const INTERCONNECTION_TRANSITIONS: Record<InterconnectionStatus, InterconnectionStatus[]> = {
+  not_submitted: ['submitted'],
+  submitted: ['approved', 'rejected'],
+  rejected: ['submitted'],
+  approved: ['meter_swapped', 'pto_granted'],
+  meter_swapped: ['pto_granted'],
+  pto_granted: [],
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const daysBetween = (start: string, end: string) =>
+  Math.round((new Date(end.slice(0, 10)).getTime() - new Date(start.slice(0, 10)).getTime()) / DAY_MS);
+
+export function getUtilityTurnaround(utility: string): UtilityTurnaround {
+  const name = utility.trim().toLowerCase();
+  return UTILITY_TURNAROUND.find(u => u.utility.toLowerCase() === name) || DEFAULT_TURNAROUND;
+}
+
+// ============================================================================
+// STATUS MACHINE
+// ============================================================================
+
+/**
+ * New application, with the utility and NEM program taken from the lead's rate plan
+ */
+export function startInterconnection(lead?: Lead): InterconnectionRecord {
+  const plan = lead?.ratePlanId ? getRatePlan(lead.ratePlanId) : null;
+  const utility = plan && plan.utility !== 'Generic' ? plan.utility : '';
+  const nemProgram: NemProgram = plan?.netMetering.scheme || 'NEM3';
+  return { utility, nemProgram, status: 'not_submitted' };
+}
+
+/**
+ * Move the application to its next status. Submitting needs the utility's
+ * application ID and PTO needs the PTO letter on file.
+ */
+export function transitionInterconnection(
+  record: InterconnectionRecord,
+  to: InterconnectionStatus,
+  date: string = today(),
+  details: InterconnectionDetails = {}
+): InterconnectionRecord {
+  if (!INTERCONNECTION_TRANSITIONS[record.status].includes(to)) {
+    throw new Error(`Can't go from ${INTERCONNECTION_STATUS_LABELS[record.status]} to ${INTERCONNECTION_STATUS_LABELS[to]}`);
+  }
+  const next: InterconnectionRecord = { ...record, ...details, status: to };
+
+  switch (to) {
+    case 'submitted':
+      if (!record.utility.trim()) throw new Error('Utility is required');
+      if (!next.applicationId?.trim()) throw new Error('Application ID is required');
+      return { ...next, submittedAt: date, rejectedReason: undefined };
+    case 'rejected':
+      return { ...next, rejectedReason: details.rejectedReason?.trim() || undefined };
+    case 'approved':
+      return { ...next, approvedAt: date };
+    case 'meter_swapped':
+      return { ...next, meterSwapDate: date };
+    case 'pto_granted':
+      if (!record.ptoLetter) throw new Error('Upload the PTO letter first');
+      return { ...next, ptoGrantedAt: date };
+    default:
+      return next;
+  }
+}
+
+/**
+ * Upload a letter; the project keeps a reference to the stored file
+ */
+export async function readLetter(file: File): Promise<InterconnectionLetter> {
+  if (file.size > MAX_LETTER_BYTES) {
+    throw new Error(`${file.name} is larger than ${MAX_LETTER_BYTES / (1024 * 1024)} MB`);
+  }
+  const mimeType = file.type || 'application/octet-stream';
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error(`Failed to read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+  return {
+    fileName: file.name,
+    mimeType,
+    fileId: await uploadFile(file.name, mimeType, dataUrl),
+    uploadedAt: new Date().toISOString(),
+  };
+}
+
+// ============================================================================
+// REMINDERS AND FORECASTING
+// ============================================================================
+
+/**
+ * Days the utility is past its typical turnaround on the current step
+ * (0 when on time or when the next step is ours)
+ */
+export function interconnectionOverdueDays(record: InterconnectionRecord, asOf: string = today()): number {
+  const turnaround = getUtilityTurnaround(record.utility);
+  switch (record.status) {
+    case 'submitted':
+      return record.submittedAt ? Math.max(0, daysBetween(record.submittedAt, asOf) - turnaround.approvalDays) : 0;
+    case 'approved':
+      if (record.meterSwapDate) return Math.max(0, daysBetween(record.meterSwapDate, asOf));
+      return record.approvedAt ? Math.max(0, daysBetween(record.approvedAt, asOf) - turnaround.meterSwapDays) : 0;
+    case 'meter_swapped':
+      return record.meterSwapDate ? Math.max(0, daysBetween(record.meterSwapDate, asOf) - turnaround.ptoDays) : 0;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Expected days until PTO from where the application stands today
+ */
+export function estimateDaysToPto(record: InterconnectionRecord, asOf: string = today()): number {
+  const t = getUtilityTurnaround(record.utility);
+  const remaining = (elapsedSince: string | undefined, typical: number) =>
+    elapsedSince ? Math.max(typical - daysBetween(elapsedSince, asOf), 0) || OVERDUE_SLIP_DAYS : typical;
+
+  switch (record.status) {
+    case 'not_submitted':
+    case 'rejected':
+      return t.approvalDays + t.meterSwapDays + t.ptoDays;
+    case 'submitted':
+      return remaining(record.submittedAt, t.approvalDays) + t.meterSwapDays + t.ptoDays;
+    case 'approved': {
+      const untilSwap = record.meterSwapDate ? daysBetween(asOf, record.meterSwapDate) : null;
+      const swap = untilSwap !== null && untilSwap >= 0 ? untilSwap : remaining(record.approvedAt, t.meterSwapDays);
+      return swap + t.ptoDays;
+    }
+    case 'meter_swapped':
+      return remaining(record.meterSwapDate, t.ptoDays);
+    default:
+      return 0;
+  }
+}
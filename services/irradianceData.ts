@@ -0,0 +1,137 @@
+// services/irradianceData.ts
+// Bundled typical-meteorological-year (TMY) irradiance dataset
+// Monthly mean daily global horizontal irradiance (GHI, kWh/m²/day, Jan-Dec) for
+// representative TMY3 stations, rounded to 0.1. Replace with a finer NSRDB grid
+// export when bankable estimates are needed; the production model only needs
+// `findNearestStation` to keep returning a station.
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TmyStation {
+  id: string;
+  name: string;
+  lat: number;
+  lon: number;
+  ghi: number[]; // 12 monthly means, kWh/m²/day
+}
+
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+// ============================================================================
+// STATIONS
+// ============================================================================
+
+export const TMY_STATIONS: TmyStation[] = [
+  { id: 'sacramento', name: 'Sacramento, CA', lat: 38.5, lon: -121.5, ghi: [2.0, 3.0, 4.5, 6.0, 7.2, 7.9, 7.8, 7.0, 5.8, 4.2, 2.6, 1.9] },
+  { id: 'san_francisco', name: 'San Francisco, CA', lat: 37.6, lon: -122.4, ghi: [2.3, 3.2, 4.5, 5.8, 6.6, 7.0, 6.9, 6.2, 5.3, 3.9, 2.7, 2.1] },
+  { id: 'fresno', name: 'Fresno, CA', lat: 36.8, lon: -119.7, ghi: [2.1, 3.2, 4.8, 6.3, 7.4, 8.0, 7.9, 7.1, 5.9, 4.4, 2.8, 1.9] },
+  { id: 'redding', name: 'Redding, CA', lat: 40.5, lon: -122.3, ghi: [1.8, 2.7, 4.2, 5.8, 7.1, 8.0, 8.1, 7.2, 5.8, 3.9, 2.3, 1.6] },
+  { id: 'los_angeles', name: 'Los Angeles, CA', lat: 33.9, lon: -118.4, ghi: [3.0, 3.8, 5.0, 6.2, 6.5, 6.7, 7.1, 6.6, 5.5, 4.3, 3.3, 2.8] },
+  { id: 'san_diego', name: 'San Diego, CA', lat: 32.7, lon: -117.2, ghi: [3.2, 4.0, 5.1, 6.2, 6.3, 6.5, 6.9, 6.6, 5.6, 4.4, 3.5, 3.0] },
+  { id: 'riverside', name: 'Riverside, CA', lat: 33.9, lon: -117.4, ghi: [3.2, 4.1, 5.4, 6.6, 7.3, 7.9, 7.8, 7.2, 6.0, 4.6, 3.5, 2.9] },
+  { id: 'phoenix', name: 'Phoenix, AZ', lat: 33.4, lon: -112.0, ghi: [3.3, 4.3, 5.7, 7.2, 8.1, 8.4, 7.6, 7.0, 6.2, 4.9, 3.7, 3.0] },
+  { id: 'tucson', name: 'Tucson, AZ', lat: 32.1, lon: -110.9, ghi: [3.5, 4.5, 5.9, 7.3, 8.1, 8.3, 7.1, 6.7, 6.2, 5.1, 3.9, 3.3] },
+  { id: 'las_vegas', name: 'Las Vegas, NV', lat: 36.1, lon: -115.2, ghi: [3.0, 4.0, 5.5, 7.0, 7.9, 8.4, 8.0, 7.3, 6.2, 4.7, 3.4, 2.7] },
+  { id: 'albuquerque', name: 'Albuquerque, NM', lat: 35.0, lon: -106.6, ghi: [3.2, 4.2, 5.5, 6.9, 7.7, 8.1, 7.5, 6.8, 5.9, 4.6, 3.4, 2.9] },
+  { id: 'salt_lake', name: 'Salt Lake City, UT', lat: 40.8, lon: -111.9, ghi: [2.0, 3.0, 4.3, 5.6, 6.7, 7.6, 7.5, 6.6, 5.4, 3.8, 2.3, 1.8] },
+  { id: 'denver', name: 'Denver, CO', lat: 39.7, lon: -105.0, ghi: [2.4, 3.3, 4.6, 5.7, 6.3, 7.0, 6.8, 6.1, 5.2, 3.9, 2.6, 2.1] },
+  { id: 'seattle', name: 'Seattle, WA', lat: 47.6, lon: -122.3, ghi: [0.9, 1.6, 2.7, 4.0, 5.2, 5.8, 6.3, 5.3, 3.8, 2.1, 1.1, 0.7] },
+  { id: 'portland', name: 'Portland, OR', lat: 45.6, lon: -122.6, ghi: [1.1, 1.8, 2.9, 4.2, 5.4, 6.0, 6.6, 5.7, 4.2, 2.4, 1.3, 0.9] },
+  { id: 'dallas', name: 'Dallas, TX', lat: 32.9, lon: -97.0, ghi: [2.8, 3.6, 4.7, 5.6, 6.2, 6.9, 7.0, 6.4, 5.3, 4.2, 3.0, 2.5] },
+  { id: 'houston', name: 'Houston, TX', lat: 29.8, lon: -95.4, ghi: [2.7, 3.4, 4.3, 5.1, 5.7, 6.1, 6.0, 5.6, 4.9, 4.1, 3.0, 2.5] },
+  { id: 'san_antonio', name: 'San Antonio, TX', lat: 29.5, lon: -98.5, ghi: [3.0, 3.8, 4.8, 5.5, 6.0, 6.7, 6.9, 6.4, 5.3, 4.3, 3.3, 2.8] },
+  { id: 'miami', name: 'Miami, FL', lat: 25.8, lon: -80.3, ghi: [3.5, 4.3, 5.3, 6.1, 6.1, 5.6, 5.8, 5.5, 4.9, 4.4, 3.7, 3.3] },
+  { id: 'tampa', name: 'Tampa, FL', lat: 28.0, lon: -82.5, ghi: [3.2, 4.0, 5.2, 6.3, 6.6, 6.2, 5.9, 5.5, 5.0, 4.4, 3.6, 3.0] },
+  { id: 'atlanta', name: 'Atlanta, GA', lat: 33.6, lon: -84.4, ghi: [2.6, 3.4, 4.5, 5.6, 6.0, 6.3, 6.1, 5.6, 4.8, 4.0, 2.9, 2.3] },
+  { id: 'charlotte', name: 'Charlotte, NC', lat: 35.2, lon: -80.9, ghi: [2.5, 3.3, 4.4, 5.6, 6.0, 6.3, 6.1, 5.5, 4.6, 3.8, 2.8, 2.2] },
+  { id: 'new_york', name: 'New York, NY', lat: 40.8, lon: -73.9, ghi: [1.9, 2.7, 3.8, 4.8, 5.5, 6.0, 5.9, 5.2, 4.2, 3.0, 1.9, 1.5] },
+  { id: 'philadelphia', name: 'Philadelphia, PA', lat: 39.9, lon: -75.2, ghi: [2.0, 2.8, 3.9, 4.9, 5.6, 6.1, 6.0, 5.3, 4.3, 3.1, 2.1, 1.7] },
+  { id: 'boston', name: 'Boston, MA', lat: 42.4, lon: -71.0, ghi: [1.8, 2.7, 3.8, 4.7, 5.5, 6.0, 6.0, 5.2, 4.2, 2.9, 1.8, 1.5] },
+  { id: 'chicago', name: 'Chicago, IL', lat: 41.8, lon: -87.8, ghi: [1.8, 2.6, 3.6, 4.7, 5.7, 6.3, 6.2, 5.4, 4.3, 2.9, 1.8, 1.4] },
+  { id: 'minneapolis', name: 'Minneapolis, MN', lat: 44.9, lon: -93.2, ghi: [1.7, 2.7, 3.9, 4.9, 5.8, 6.3, 6.3, 5.4, 4.1, 2.7, 1.7, 1.3] },
+  { id: 'honolulu', name: 'Honolulu, HI', lat: 21.3, lon: -157.9, ghi: [4.0, 4.7, 5.4, 5.9, 6.3, 6.5, 6.6, 6.4, 5.9, 5.0, 4.2, 3.8] },
+];
+
+// CA-North is the default market, so unknown locations fall back to Sacramento
+export const DEFAULT_STATION_ID = 'sacramento';
+
+// ============================================================================
+// ZIP CODE GRID (3-digit prefix ranges → approximate centroid)
+// ============================================================================
+
+const ZIP_PREFIX_GRID: { from: number; to: number; point: GeoPoint }[] = [
+  { from: 10, to: 27, point: { lat: 42.3, lon: -71.5 } },    // MA
+  { from: 70, to: 89, point: { lat: 40.3, lon: -74.5 } },    // NJ
+  { from: 100, to: 149, point: { lat: 41.5, lon: -74.5 } },  // NY
+  { from: 150, to: 196, point: { lat: 40.5, lon: -77.5 } },  // PA
+  { from: 270, to: 289, point: { lat: 35.5, lon: -79.5 } },  // NC
+  { from: 300, to: 319, point: { lat: 33.7, lon: -84.4 } },  // GA
+  { from: 320, to: 339, point: { lat: 28.5, lon: -82.0 } },  // FL (north/central)
+  { from: 340, to: 349, point: { lat: 26.2, lon: -80.5 } },  // FL (south)
+  { from: 550, to: 567, point: { lat: 45.0, lon: -93.5 } },  // MN
+  { from: 600, to: 629, point: { lat: 41.5, lon: -88.5 } },  // IL
+  { from: 750, to: 769, point: { lat: 32.8, lon: -97.0 } },  // TX (north)
+  { from: 770, to: 779, point: { lat: 29.8, lon: -95.4 } },  // TX (Houston)
+  { from: 780, to: 789, point: { lat: 29.8, lon: -98.0 } },  // TX (south/central)
+  { from: 790, to: 799, point: { lat: 32.0, lon: -102.0 } }, // TX (west)
+  { from: 800, to: 816, point: { lat: 39.7, lon: -105.0 } }, // CO
+  { from: 840, to: 847, point: { lat: 40.7, lon: -111.9 } }, // UT
+  { from: 850, to: 865, point: { lat: 33.4, lon: -112.0 } }, // AZ
+  { from: 870, to: 884, point: { lat: 35.1, lon: -106.6 } }, // NM
+  { from: 889, to: 898, point: { lat: 36.2, lon: -115.1 } }, // NV
+  { from: 900, to: 918, point: { lat: 34.0, lon: -118.3 } }, // CA (Los Angeles)
+  { from: 919, to: 921, point: { lat: 32.8, lon: -117.1 } }, // CA (San Diego)
+  { from: 922, to: 925, point: { lat: 33.9, lon: -117.2 } }, // CA (Inland Empire)
+  { from: 926, to: 928, point: { lat: 33.7, lon: -117.8 } }, // CA (Orange County)
+  { from: 930, to: 935, point: { lat: 35.0, lon: -119.3 } }, // CA (Central Coast / Kern)
+  { from: 936, to: 938, point: { lat: 36.7, lon: -119.8 } }, // CA (Fresno)
+  { from: 939, to: 951, point: { lat: 37.5, lon: -122.0 } }, // CA (Bay Area)
+  { from: 952, to: 953, point: { lat: 37.9, lon: -121.3 } }, // CA (Stockton / Modesto)
+  { from: 954, to: 955, point: { lat: 39.5, lon: -123.3 } }, // CA (North Coast)
+  { from: 956, to: 958, point: { lat: 38.6, lon: -121.4 } }, // CA (Sacramento)
+  { from: 959, to: 961, point: { lat: 40.2, lon: -121.9 } }, // CA (Far North)
+  { from: 967, to: 968, point: { lat: 21.3, lon: -157.9 } }, // HI
+  { from: 970, to: 979, point: { lat: 45.0, lon: -122.8 } }, // OR
+  { from: 980, to: 994, point: { lat: 47.5, lon: -122.0 } }, // WA
+];
+
+/**
+ * Pull the ZIP code out of a free-form address ("123 Main St, Sacramento, CA 95814")
+ */
+export function extractZip(address: string): string | null {
+  const matches = address.match(/\b\d{5}(?:-\d{4})?\b/g);
+  return matches ? matches[matches.length - 1].slice(0, 5) : null;
+}
+
+export function locateZip(zip: string): GeoPoint | null {
+  const prefix = parseInt(zip.slice(0, 3), 10);
+  if (Number.isNaN(prefix)) return null;
+  return ZIP_PREFIX_GRID.find(cell => prefix >= cell.from && prefix <= cell.to)?.point || null;
+}
+
+// ============================================================================
+// STATION LOOKUP
+// ============================================================================
+
+export function distanceKm(a: GeoPoint, b: GeoPoint): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
+
+export function getStation(id: string): TmyStation {
+  return TMY_STATIONS.find(s => s.id === id) || TMY_STATIONS.find(s => s.id === DEFAULT_STATION_ID)!;
+}
+
+export function findNearestStation(point: GeoPoint): TmyStation {
+  return TMY_STATIONS.reduce((nearest, station) =>
+    distanceKm(point, station) < distanceKm(point, nearest) ? station : nearest
+  );
+}
@@ -0,0 +1,82 @@
+// services/leadActivity.ts
+// Lead Activity - the timeline of every touch on a lead
+// Calls (with their outcome), texts, emails, door knocks, appointments and
+// notes are logged against the lead with who logged them and when. "Last
+// contacted" is read from the timeline rather than kept as a separate field.
+
+import type { CallOutcome, Lead, LeadActivity, LeadActivityType } from '../types';
+import { getCurrentAuditUser } from './auditLog';
+
+// ============================================================================
+// LABELS
+// ============================================================================
+
+export const ACTIVITY_TYPE_LABELS: Record<LeadActivityType, string> = {
+  call: 'Call',
+  sms: 'Text',
+  email: 'Email',
+  door_knock: 'Door Knock',
+  appointment: 'Appointment',
+  note: 'Note',
+};
+
+export const CALL_OUTCOME_LABELS: Record<CallOutcome, string> = {
+  connected: 'Connected',
+  voicemail: 'Left Voicemail',
+  no_answer: 'No Answer',
+  wrong_number: 'Wrong Number',
+  do_not_call: 'Do Not Call',
+};
+
+// Notes are internal; every other activity is a touch with the homeowner
+const CONTACT_TYPES: LeadActivityType[] = ['call', 'sms', 'email', 'door_knock', 'appointment'];
+
+// ============================================================================
+// TIMELINE
+// ============================================================================
+
+export type NewLeadActivity = Omit<LeadActivity, 'id' | 'authorId' | 'authorName' | 'occurredAt'> & {
+  occurredAt?: string;
+};
+
+/**
+ * Log an activity on a lead as the current user
+ */
+export function addLeadActivity(lead: Lead, activity: NewLeadActivity): Lead {
+  if (activity.type === 'call' && !activity.outcome) throw new Error('Pick the call outcome');
+  if (activity.type === 'appointment' && !activity.appointmentAt) throw new Error('Pick the appointment time');
+  if (activity.type === 'note' && !activity.body?.trim()) throw new Error('Note is empty');
+
+  const author = getCurrentAuditUser();
+  const entry: LeadActivity = {
+    ...activity,
+    id: 'act_' + Date.now().toString(36) + '_' + Math.random().toString(36).substring(2, 7),
+    occurredAt: activity.occurredAt || new Date().toISOString(),
+    authorId: author.userId,
+    authorName: author.userName,
+    body: activity.body?.trim() || undefined,
+  };
+  const activities = [...(lead.activities || []), entry]
+    .sort((a, b) => a.occurredAt.localeCompare(b.occurredAt));
+  return { ...lead, activities };
+}
+
+export function removeLeadActivity(lead: Lead, activityId: string): Lead {
+  return { ...lead, activities: (lead.activities || []).filter(a => a.id !== activityId) };
+}
+
+/**
+ * Timeline for display, newest first
+ */
+export function leadTimeline(lead: Lead): LeadActivity[] {
+  return [...(lead.activities || [])].sort((a, b) => b.occurredAt.localeCompare(a.occurredAt));
+}
+
+/**
+ * When the lead was last contacted (any activity but a note), or null if never
+ */
+export function lastContactedAt(lead: Lead): string | null {
+  const contacts = (lead.activities || []).filter(a => CONTACT_TYPES.includes(a.type));
+  if (contacts.length === 0) return null;
+  return contacts.reduce((latest, a) => (a.occurredAt > latest ? a.occurredAt : latest), contacts[0].occurredAt);
+}
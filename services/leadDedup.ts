@@ -0,0 +1,302 @@
+// services/leadDedup.ts
+// Lead Deduplication - finds leads that are probably the same household
+// Hand-entered leads, CSV imports and web forms regularly create the same
+// homeowner twice. Two leads are compared on email, phone, a normalized
+// street address and a fuzzy name match; each signal adds to a confidence
+// score. Merging keeps the surviving lead's values and fills in the rest
+// from the duplicates. Pure functions only, so the leads API can run the same
+// check on web-form submissions and merge leads the same way.
+
+import type { Lead, Project } from '../types';
+import { extractZip } from './irradianceData';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DedupFields = Pick<Lead, 'id' | 'name' | 'address' | 'email' | 'phone'>;
+
+export interface DuplicateMatch {
+  leadId: string;
+  confidence: number; // 0-1
+  reasons: string[];
+}
+
+export interface DuplicateCluster {
+  id: string; // The member lead IDs, sorted and joined
+  leadIds: string[];
+  confidence: number; // Strongest match between two members
+  reasons: string[];
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+// Weight of each signal; signals combine as independent evidence (1 - Π(1 - w))
+const EMAIL_WEIGHT = 0.9;
+const PHONE_WEIGHT = 0.85;
+const ADDRESS_WEIGHT = 0.75;
+const NAME_WEIGHT = 0.5; // Scaled by the name similarity
+
+// Names this close count as the same person ("Jon Smith" / "John Smith")
+const NAME_SIMILARITY_MIN = 0.85;
+
+// A matching name alone (0.5) isn't enough; an address alone (a spouse) is
+export const PROBABLE_DUPLICATE_CONFIDENCE = 0.6;
+
+const STREET_WORDS: Record<string, string> = {
+  street: 'st', avenue: 'ave', av: 'ave', road: 'rd', drive: 'dr', lane: 'ln',
+  boulevard: 'blvd', court: 'ct', place: 'pl', terrace: 'ter', circle: 'cir',
+  parkway: 'pkwy', highway: 'hwy', trail: 'trl',
+  north: 'n', south: 's', east: 'e', west: 'w',
+  apartment: 'apt', suite: 'ste', unit: 'apt', '#': 'apt',
+};
+
+const NAME_NOISE = new Set(['mr', 'mrs', 'ms', 'miss', 'dr', 'jr', 'sr', 'ii', 'iii', 'iv']);
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+export function normalizeEmail(email?: string): string {
+  return (email || '').trim().toLowerCase();
+}
+
+/**
+ * Last ten digits, so "+1 (602) 555-0100" and "602.555.0100" match
+ */
+export function normalizePhone(phone?: string): string {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.length >= 10 ? digits.slice(-10) : '';
+}
+
+/**
+ * Street line with standard abbreviations ("123 N. Main Street, Apt 4" →
+ * "123 n main st apt 4"). City and state are dropped because imports spell
+ * them inconsistently; the ZIP is compared separately.
+ */
+export function normalizeAddress(address?: string): string {
+  const street = (address || '').split(',')[0].toLowerCase().replace(/#/g, ' # ');
+  return street
+    .replace(/[^a-z0-9#\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => STREET_WORDS[word] || word)
+    .join(' ');
+}
+
+/**
+ * Lowercase name tokens without titles or suffixes; "Smith, John" is read as
+ * "John Smith"
+ */
+export function normalizeName(name?: string): string[] {
+  const raw = name || '';
+  const ordered = /^[^,]+,[^,]+$/.test(raw) ? raw.split(',').reverse().join(' ') : raw;
+  return ordered
+    .toLowerCase()
+    .replace(/[^a-z\s'-]/g, ' ')
+    .replace(/['-]/g, '')
+    .split(/\s+/)
+    .filter(token => token && !NAME_NOISE.has(token));
+}
+
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+const ratio = (a: string, b: string) =>
+  a || b ? 1 - editDistance(a, b) / Math.max(a.length, b.length) : 0;
+
+/**
+ * 0-1 similarity of two names, ignoring word order ("Maria Lopez" / "Lopez Maria")
+ */
+export function nameSimilarity(a?: string, b?: string): number {
+  const ta = normalizeName(a);
+  const tb = normalizeName(b);
+  if (ta.length === 0 || tb.length === 0) return 0;
+  return Math.max(ratio(ta.join(' '), tb.join(' ')), ratio([...ta].sort().join(' '), [...tb].sort().join(' ')));
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+/**
+ * How likely two leads are the same household, and why
+ */
+export function matchLeads(a: DedupFields, b: DedupFields): { confidence: number; reasons: string[] } {
+  const signals: { weight: number; reason: string }[] = [];
+
+  const email = normalizeEmail(a.email);
+  if (email && email === normalizeEmail(b.email)) signals.push({ weight: EMAIL_WEIGHT, reason: 'Same email' });
+
+  const phone = normalizePhone(a.phone);
+  if (phone && phone === normalizePhone(b.phone)) signals.push({ weight: PHONE_WEIGHT, reason: 'Same phone' });
+
+  const street = normalizeAddress(a.address);
+  const zipA = extractZip(a.address || '');
+  const zipB = extractZip(b.address || '');
+  if (street && street === normalizeAddress(b.address) && (!zipA || !zipB || zipA === zipB)) {
+    signals.push({ weight: ADDRESS_WEIGHT, reason: 'Same address' });
+  }
+
+  const similarity = nameSimilarity(a.name, b.name);
+  if (similarity >= NAME_SIMILARITY_MIN) {
+    signals.push({ weight: NAME_WEIGHT * similarity, reason: similarity === 1 ? 'Same name' : 'Similar name' });
+  }
+
+  const confidence = 1 - signals.reduce((miss, s) => miss * (1 - s.weight), 1);
+  return { confidence: Math.round(confidence * 100) / 100, reasons: signals.map(s => s.reason) };
+}
+
+/**
+ * Existing leads a new or incoming lead probably duplicates, strongest first
+ */
+export function findDuplicates(candidate: DedupFields, leads: DedupFields[]): DuplicateMatch[] {
+  return leads
+    .filter(l => l.id !== candidate.id)
+    .map(l => ({ leadId: l.id, ...matchLeads(candidate, l) }))
+    .filter(m => m.confidence >= PROBABLE_DUPLICATE_CONFIDENCE)
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+export function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+// Leads only get compared when they share one of these, which keeps the
+// review queue from comparing every lead with every other
+function blockingKeys(lead: DedupFields): string[] {
+  const keys = normalizeName(lead.name).filter(t => t.length >= 3).map(t => `n:${t.slice(0, 3)}`);
+  const email = normalizeEmail(lead.email);
+  const phone = normalizePhone(lead.phone);
+  const street = normalizeAddress(lead.address);
+  if (email) keys.push(`e:${email}`);
+  if (phone) keys.push(`p:${phone}`);
+  if (street) keys.push(`a:${street}`);
+  return Array.from(new Set(keys));
+}
+
+/**
+ * Groups of leads that are probably the same household, most confident
+ * first. Pairs a user has marked as not duplicates don't link leads.
+ */
+export function findDuplicateClusters(leads: DedupFields[], dismissedPairs: string[] = []): DuplicateCluster[] {
+  const dismissed = new Set(dismissedPairs);
+  const blocks = new Map<string, number[]>();
+  leads.forEach((lead, i) => {
+    blockingKeys(lead).forEach(key => {
+      const block = blocks.get(key);
+      if (block) block.push(i);
+      else blocks.set(key, [i]);
+    });
+  });
+
+  // Union-find over matching pairs
+  const parent = leads.map((_, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+  const pairs = new Map<string, { a: number; b: number; confidence: number; reasons: string[] }>();
+
+  blocks.forEach(members => {
+    for (let x = 0; x < members.length; x++) {
+      for (let y = x + 1; y < members.length; y++) {
+        const a = members[x];
+        const b = members[y];
+        const key = pairKey(leads[a].id, leads[b].id);
+        if (pairs.has(key) || dismissed.has(key)) continue;
+        const match = matchLeads(leads[a], leads[b]);
+        if (match.confidence < PROBABLE_DUPLICATE_CONFIDENCE) continue;
+        pairs.set(key, { a, b, ...match });
+        parent[root(a)] = root(b);
+      }
+    }
+  });
+
+  const clusters = new Map<number, DuplicateCluster>();
+  pairs.forEach(({ a, confidence, reasons }) => {
+    const r = root(a);
+    const cluster = clusters.get(r) || { id: '', leadIds: [], confidence: 0, reasons: [] };
+    cluster.confidence = Math.max(cluster.confidence, confidence);
+    cluster.reasons = Array.from(new Set([...cluster.reasons, ...reasons]));
+    clusters.set(r, cluster);
+  });
+  leads.forEach((lead, i) => clusters.get(root(i))?.leadIds.push(lead.id));
+
+  return Array.from(clusters.values())
+    .map(c => ({ ...c, id: [...c.leadIds].sort().join('|') }))
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+// ============================================================================
+// MERGING
+// ============================================================================
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || value === '' ||
+  (typeof value === 'number' && value <= 0) ||
+  (Array.isArray(value) && value.length === 0);
+
+const filledFields = (lead: Lead) => Object.values(lead).filter(v => !isBlank(v)).length;
+
+/**
+ * Lead that should survive a merge: the one with a project, then a signed
+ * contract, then the most history and detail, then the oldest
+ */
+export function suggestSurvivor(leads: Lead[], projects: Project[]): string {
+  const score = (lead: Lead) =>
+    (projects.some(p => p.leadId === lead.id) ? 1000 : 0) +
+    (lead.signedContractId ? 500 : 0) +
+    (lead.activities?.length || 0) * 10 +
+    filledFields(lead);
+  return [...leads].sort((a, b) => score(b) - score(a) || a.createdAt.localeCompare(b.createdAt))[0].id;
+}
+
+function fillBlank<K extends keyof Lead>(merged: Lead, dup: Lead, key: K): void {
+  if (isBlank(merged[key]) && !isBlank(dup[key])) merged[key] = dup[key];
+}
+
+/**
+ * Survivor's fields filled in from the duplicates, in order
+ */
+export function mergeLeadFields(survivor: Lead, duplicates: Lead[]): Lead {
+  const merged: Lead = { ...survivor };
+  duplicates.forEach(dup => {
+    (Object.keys(dup) as (keyof Lead)[]).forEach(key => fillBlank(merged, dup, key));
+  });
+
+  const all = [survivor, ...duplicates];
+  const notes = Array.from(new Set(all.map(l => l.notes?.trim()).filter(Boolean)));
+  const tags = Array.from(new Set(all.flatMap(l => l.aiTags || [])));
+  const customFields: NonNullable<Lead['customFields']> = {};
+  [...all].reverse().forEach(l => Object.entries(l.customFields || {}).forEach(([id, value]) => {
+    if (!isBlank(value)) customFields[id] = value;
+  }));
+  const activities = Array.from(new Map(all.flatMap(l => l.activities || []).map(a => [a.id, a])).values())
+    .sort((a, b) => a.occurredAt.localeCompare(b.occurredAt));
+
+  return {
+    ...merged,
+    notes: notes.length > 0 ? notes.join('\n\n') : undefined,
+    aiTags: tags.length > 0 ? tags : undefined,
+    customFields: Object.keys(customFields).length > 0 ? customFields : survivor.customFields,
+    activities: activities.length > 0 ? activities : undefined,
+    createdAt: all.map(l => l.createdAt).sort()[0],
+    lostReason: survivor.lostReason, // Belongs to the survivor's status
+  };
+}
+
+/**
+ * Timeline note recorded on the survivor of a merge
+ */
+export function mergeNote(duplicates: Lead[]): string {
+  return `Merged duplicate ${duplicates.map(d => `${d.name} (${d.id})`).join(', ')} into this lead`;
+}
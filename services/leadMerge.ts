@@ -0,0 +1,140 @@
+// services/leadMerge.ts
+// Lead Merge - folds duplicate leads into one surviving lead
+// The survivor keeps its own values and picks up whatever it's missing from
+// the duplicates; notes, tags, custom fields and activity timelines are
+// combined (see leadDedup). Projects, commissions, contracts, proposals and
+// appointments that pointed at a duplicate move to the survivor, and the
+// merge is recorded in the audit log. While signed in, api/leads does the
+// whole merge in one request.
+// Clusters a user has reviewed and found to be different households are
+// remembered so the review queue doesn't offer them again.
+
+import type { Lead } from '../types';
+import { getActiveCompanyId } from './companyStore';
+import { logUpdate, logDelete } from './auditLog';
+import { loadSession } from './auth';
+import { leadsApi, type LeadMergeResult } from './api';
+import { addLeadActivity } from './leadActivity';
+import { reassignAppointments, syncAppointmentsFromServer } from './appointments';
+import { DuplicateCluster, mergeLeadFields, mergeNote, pairKey } from './leadDedup';
+import {
+  loadAllLeads,
+  saveLeads,
+  loadAllProjects,
+  saveProjects,
+  loadAllCommissions,
+  saveCommissions,
+  loadCompanyMap,
+  saveForCompany,
+  syncLeadsFromServer,
+  syncProjectsFromServer,
+  syncCommissionsFromServer,
+} from '../utils/storage';
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+const DISMISSED_KEY = 'primus_lead_duplicates_dismissed';
+
+/**
+ * Lead ID pairs (see pairKey) marked as not duplicates
+ */
+export function loadDismissedPairs(companyId?: string): string[] {
+  return loadCompanyMap<string[]>(DISMISSED_KEY)[companyId || getActiveCompanyId()] || [];
+}
+
+/**
+ * Mark every lead in a cluster as a different household from the others
+ */
+export function dismissDuplicateCluster(cluster: DuplicateCluster, companyId: string = getActiveCompanyId()): void {
+  const pairs = new Set(loadDismissedPairs(companyId));
+  cluster.leadIds.forEach((a, i) => cluster.leadIds.slice(i + 1).forEach(b => pairs.add(pairKey(a, b))));
+  saveForCompany(DISMISSED_KEY, companyId, Array.from(pairs));
+}
+
+// ============================================================================
+// MERGE
+// ============================================================================
+
+/**
+ * Merge duplicate leads into the survivor and delete them. Projects,
+ * commissions, contracts, proposals and appointments on the duplicates move
+ * to the survivor.
+ */
+export async function mergeLeads(survivorId: string, duplicateIds: string[], companyId: string = getActiveCompanyId()): Promise<LeadMergeResult> {
+  const leads = loadAllLeads();
+  const survivor = leads.find(l => l.id === survivorId);
+  if (!survivor) throw new Error('Lead not found');
+  const ids = duplicateIds.filter(id => id !== survivorId);
+  const duplicates = ids.map(id => {
+    const lead = leads.find(l => l.id === id);
+    if (!lead) throw new Error(`Lead ${id} not found`);
+    return lead;
+  });
+  if (duplicates.length === 0) throw new Error('Pick at least one duplicate to merge');
+
+  const result = loadSession()
+    ? await mergeOnServer(survivorId, ids, companyId)
+    : mergeLocally(leads, survivor, duplicates, companyId);
+
+  logUpdate('Lead', survivorId, survivor, result.lead, {
+    mergedLeadIds: ids,
+    projectsMoved: result.projectsMoved,
+    commissionsMoved: result.commissionsMoved,
+    contractsMoved: result.contractsMoved,
+    proposalsMoved: result.proposalsMoved,
+    appointmentsMoved: result.appointmentsMoved,
+  });
+  duplicates.forEach(d => logDelete('Lead', d.id, d, { mergedInto: survivorId }));
+  return result;
+}
+
+// The server merges and moves every record in one request; the local copies
+// are then reloaded from it rather than edited here and sent back
+async function mergeOnServer(survivorId: string, ids: string[], companyId: string): Promise<LeadMergeResult> {
+  const result = await leadsApi.merge(survivorId, ids);
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to merge leads');
+  }
+  await Promise.all([
+    syncLeadsFromServer(),
+    syncProjectsFromServer(),
+    syncCommissionsFromServer(),
+    syncAppointmentsFromServer(companyId),
+  ]);
+  return result.data;
+}
+
+// Signed out there are no contracts or proposals to move
+function mergeLocally(leads: Lead[], survivor: Lead, duplicates: Lead[], companyId: string): LeadMergeResult {
+  const ids = duplicates.map(d => d.id);
+  const merged = addLeadActivity(mergeLeadFields(survivor, duplicates), { type: 'note', body: mergeNote(duplicates) });
+  saveLeads(leads.filter(l => !ids.includes(l.id)).map(l => (l.id === survivor.id ? merged : l)));
+
+  const projects = loadAllProjects();
+  const movedProjects = projects.filter(p => ids.includes(p.leadId));
+  if (movedProjects.length > 0) {
+    saveProjects(projects.map(p => (ids.includes(p.leadId) ? { ...p, leadId: survivor.id } : p)));
+    movedProjects.forEach(p => logUpdate('Project', p.id, p, { ...p, leadId: survivor.id }, {
+      previousLeadId: p.leadId,
+      newLeadId: survivor.id,
+      via: 'lead merge',
+    }));
+  }
+
+  const commissions = loadAllCommissions();
+  const commissionsMoved = commissions.filter(c => ids.includes(c.leadId)).length;
+  if (commissionsMoved > 0) {
+    saveCommissions(commissions.map(c => (ids.includes(c.leadId) ? { ...c, leadId: survivor.id } : c)));
+  }
+
+  return {
+    lead: merged,
+    projectsMoved: movedProjects.length,
+    commissionsMoved,
+    contractsMoved: 0,
+    proposalsMoved: 0,
+    appointmentsMoved: reassignAppointments(ids, survivor.id, companyId),
+  };
+}
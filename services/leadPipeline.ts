@@ -0,0 +1,254 @@
+// services/leadPipeline.ts
+// Lead Pipeline Configuration - Customizable lead statuses per company
+// Mirrors the project pipeline (services/pipelineConfig.ts) for the sales side:
+// each company orders its own statuses, marks which ones close a lead as won
+// or lost, lists the fields a lead needs before it can enter a status, and
+// keeps a picklist of reasons a deal is lost. Each status also carries the
+// close probability and days-to-close the revenue forecast weights it by.
+// The status types, default pipeline and validation live in services/leadStatuses.ts;
+// the server copy (api/company?action=leadPipeline) is what the API classifies leads by.
+
+import type { Lead } from '../types';
+import { getActiveCompanyId } from './companyStore';
+import { getLeadFields } from './customFields';
+import { companyApi } from './api';
+import { DEFAULT_LEAD_STATUSES, DEFAULT_LOST_REASONS, LeadPipelineConfig, LeadStatusConfig, leadStatusOutcome } from './leadStatuses';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type LeadFunnelStage = 'new' | 'working' | 'proposal' | 'won' | 'lost';
+
+
+// ============================================================================
+// REQUIRED FIELDS
+// ============================================================================
+
+// Built-in lead fields a status can require; custom lead fields are added by ID
+export const REQUIRED_FIELD_OPTIONS: { key: keyof Lead; label: string }[] = [
+  { key: 'phone', label: 'Phone' },
+  { key: 'email', label: 'Email' },
+  { key: 'address', label: 'Address' },
+  { key: 'estimatedBill', label: 'Monthly Bill' },
+  { key: 'assignedTo', label: 'Assigned Rep' },
+  { key: 'setterId', label: 'Setter' },
+];
+
+const STATUS_COLOR_CLASSES: Record<string, string> = {
+  blue: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+  purple: 'bg-purple-500/20 text-purple-400 border-purple-500/30',
+  amber: 'bg-amber-500/20 text-amber-400 border-amber-500/30',
+  orange: 'bg-orange-500/20 text-orange-400 border-orange-500/30',
+  cyan: 'bg-cyan-500/20 text-cyan-400 border-cyan-500/30',
+  emerald: 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30',
+  red: 'bg-red-500/20 text-red-400 border-red-500/30',
+  pink: 'bg-pink-500/20 text-pink-400 border-pink-500/30',
+};
+
+// ============================================================================
+// STORAGE KEY
+// ============================================================================
+
+const LEAD_PIPELINE_STORAGE_KEY = 'primus_lead_pipeline';
+
+// ============================================================================
+// LOAD / SAVE FUNCTIONS
+// ============================================================================
+
+/**
+ * Load lead pipeline configuration for a company
+ */
+export function loadLeadPipeline(companyId?: string): LeadPipelineConfig {
+  const id = companyId || getActiveCompanyId();
+  try {
+    const stored = localStorage.getItem(LEAD_PIPELINE_STORAGE_KEY);
+    if (stored) {
+      const allConfigs = JSON.parse(stored);
+      if (allConfigs[id]) {
+        return allConfigs[id];
+      }
+    }
+  } catch (error) {
+    console.error('Failed to load lead pipeline config:', error);
+  }
+  return { statuses: [...DEFAULT_LEAD_STATUSES], lostReasons: [...DEFAULT_LOST_REASONS] };
+}
+
+function cacheLeadPipeline(companyId: string, config: LeadPipelineConfig): void {
+  try {
+    const stored = localStorage.getItem(LEAD_PIPELINE_STORAGE_KEY);
+    const allConfigs = stored ? JSON.parse(stored) : {};
+    allConfigs[companyId] = config;
+    localStorage.setItem(LEAD_PIPELINE_STORAGE_KEY, JSON.stringify(allConfigs));
+  } catch (error) {
+    console.error('Failed to save lead pipeline config:', error);
+  }
+}
+
+/**
+ * Save lead pipeline configuration for a company (local cache + server)
+ * Returns the server error message, if any
+ */
+export async function saveLeadPipeline(companyId: string, config: LeadPipelineConfig): Promise<string | null> {
+  cacheLeadPipeline(companyId, config);
+  const result = await companyApi.updateLeadPipeline(config);
+  return result.success ? null : result.error || 'Failed to save lead pipeline on the server';
+}
+
+/**
+ * Refresh the local cache from the server copy
+ */
+export async function syncLeadPipelineFromServer(companyId?: string): Promise<LeadPipelineConfig> {
+  const id = companyId || getActiveCompanyId();
+  const result = await companyApi.getLeadPipeline();
+  if (result.success && result.data) {
+    cacheLeadPipeline(id, result.data);
+    return result.data;
+  }
+  return loadLeadPipeline(id);
+}
+
+/**
+ * Reset lead pipeline to defaults
+ */
+export async function resetLeadPipelineToDefaults(companyId: string): Promise<string | null> {
+  return saveLeadPipeline(companyId, { statuses: [...DEFAULT_LEAD_STATUSES], lostReasons: [...DEFAULT_LOST_REASONS] });
+}
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+/**
+ * Statuses in pipeline order
+ */
+export function getLeadStatuses(companyId?: string): LeadStatusConfig[] {
+  return [...loadLeadPipeline(companyId).statuses].sort((a, b) => a.order - b.order);
+}
+
+export function getLeadStatusById(statusId: string, companyId?: string): LeadStatusConfig | null {
+  return loadLeadPipeline(companyId).statuses.find(s => s.id === statusId) || null;
+}
+
+/**
+ * Status new leads start in: the first open status
+ */
+export function getInitialLeadStatus(companyId?: string): string {
+  return getLeadStatuses(companyId).find(s => s.outcome === 'open')?.id || 'NEW';
+}
+
+/**
+ * Status a signed lead moves to: the first won status
+ */
+export function getWonLeadStatus(companyId?: string): string {
+  return getLeadStatuses(companyId).find(s => s.outcome === 'won')?.id || 'CLOSED_WON';
+}
+
+/**
+ * Get status display name
+ */
+export function getLeadStatusName(statusId: string, companyId?: string): string {
+  return getLeadStatusById(statusId, companyId)?.name || statusId.replace(/_/g, ' ');
+}
+
+/**
+ * Badge classes for a status
+ */
+export function getLeadStatusColor(statusId: string, companyId?: string): string {
+  const status = getLeadStatusById(statusId, companyId);
+  return STATUS_COLOR_CLASSES[status?.color || ''] || 'bg-slate-500/20 text-slate-400 border-slate-500/30';
+}
+
+/**
+ * Where a status sits in the sales funnel: the first open status is new, the
+ * last open status is the proposal, open statuses between them are working
+ */
+export function getLeadFunnelStage(statusId: string, config: LeadPipelineConfig = loadLeadPipeline()): LeadFunnelStage {
+  const outcome = leadStatusOutcome(statusId, config);
+  if (outcome !== 'open') return outcome;
+  const open = [...config.statuses].filter(s => s.outcome === 'open').sort((a, b) => a.order - b.order);
+  if (open[0]?.id === statusId) return 'new';
+  return open[open.length - 1]?.id === statusId ? 'proposal' : 'working';
+}
+
+/**
+ * Sort position of each status; unknown statuses sort last
+ */
+export function getLeadStatusOrder(companyId?: string): Record<string, number> {
+  const order: Record<string, number> = {};
+  getLeadStatuses(companyId).forEach((s, i) => { order[s.id] = i; });
+  return order;
+}
+
+export function isWonStatus(statusId: string, config: LeadPipelineConfig = loadLeadPipeline()): boolean {
+  return leadStatusOutcome(statusId, config) === 'won';
+}
+
+export function isLostStatus(statusId: string, config: LeadPipelineConfig = loadLeadPipeline()): boolean {
+  return leadStatusOutcome(statusId, config) === 'lost';
+}
+
+/**
+ * Whether the lead is won or lost and out of the active pipeline
+ */
+export function isClosedStatus(statusId: string, config: LeadPipelineConfig = loadLeadPipeline()): boolean {
+  return leadStatusOutcome(statusId, config) !== 'open';
+}
+
+// ============================================================================
+// STATUS CHANGES
+// ============================================================================
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || value === '' || (typeof value === 'number' && value <= 0);
+
+/**
+ * Labels of what the lead is missing to enter a status, including a lost
+ * reason for lost statuses
+ */
+export function missingForStatus(lead: Lead, statusId: string, companyId?: string): string[] {
+  const status = getLeadStatusById(statusId, companyId);
+  if (!status) return [];
+  const customFields = getLeadFields(companyId || getActiveCompanyId());
+  const missing = status.requiredFields.flatMap(key => {
+    const builtIn = REQUIRED_FIELD_OPTIONS.find(o => o.key === key);
+    if (builtIn) return isBlank(lead[builtIn.key]) ? [builtIn.label] : [];
+    const custom = customFields.find(f => f.id === key);
+    if (!custom) return [];
+    const value = lead.customFields?.[key];
+    return isBlank(value) || (Array.isArray(value) && value.length === 0) ? [custom.name] : [];
+  });
+  if (status.outcome === 'lost' && !lead.lostReason) missing.push('Lost reason');
+  return missing;
+}
+
+/**
+ * Move a lead to a status, enforcing the status's required fields. The lost
+ * reason is kept only while the lead sits in a lost status. Won and lost
+ * statuses are terminal: leaving one needs `reopen`, which callers confirm
+ * with the user and record in the audit log.
+ */
+export function changeLeadStatus(
+  lead: Lead,
+  statusId: string,
+  options: { lostReason?: string; reopen?: boolean; companyId?: string } = {}
+): Lead {
+  const { lostReason, reopen = false, companyId } = options;
+  const status = getLeadStatusById(statusId, companyId);
+  if (!status) throw new Error(`Unknown lead status: ${statusId}`);
+  if (statusId !== lead.status && isClosedStatus(lead.status, loadLeadPipeline(companyId)) && !reopen) {
+    throw new Error(`${getLeadStatusName(lead.status, companyId)} is final; reopen the lead to move it`);
+  }
+
+  const candidate: Lead = {
+    ...lead,
+    status: statusId,
+    lostReason: status.outcome === 'lost' ? lostReason || lead.lostReason : undefined,
+  };
+  const missing = missingForStatus(candidate, statusId, companyId);
+  if (missing.length > 0) {
+    throw new Error(`${status.name} needs: ${missing.join(', ')}`);
+  }
+  return candidate;
+}
@@ -0,0 +1,87 @@
+// services/leadStatuses.ts
+// Lead Statuses - the default lead pipeline and what each status means
+// Company pipelines are edited and stored by services/leadPipeline.ts; this
+// module has no storage so the API can classify leads too.
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type LeadStatusOutcome = 'open' | 'won' | 'lost';
+
+export interface LeadStatusConfig {
+  id: string;
+  name: string;
+  order: number;
+  color?: string;
+  outcome: LeadStatusOutcome; // Won and lost statuses are terminal
+  probability: number; // 0-1 chance a lead here closes, for the revenue forecast
+  daysToClose: number; // Typical days from this status to signed
+  requiredFields: string[]; // Lead field keys (or custom field IDs) needed to enter
+}
+
+export interface LeadPipelineConfig {
+  statuses: LeadStatusConfig[];
+  lostReasons: string[];
+}
+
+// ============================================================================
+// DEFAULT PIPELINE (backwards compatible with existing lead data)
+// ============================================================================
+
+export const DEFAULT_LEAD_STATUSES: LeadStatusConfig[] = [
+  { id: 'NEW', name: 'New', order: 0, color: 'blue', outcome: 'open', probability: 0.10, daysToClose: 45, requiredFields: [] },
+  { id: 'QUALIFIED', name: 'Qualified', order: 1, color: 'purple', outcome: 'open', probability: 0.25, daysToClose: 30, requiredFields: [] },
+  { id: 'PROPOSAL_SENT', name: 'Proposal Sent', order: 2, color: 'orange', outcome: 'open', probability: 0.45, daysToClose: 14, requiredFields: [] },
+  { id: 'CLOSED_WON', name: 'Closed Won', order: 3, color: 'emerald', outcome: 'won', probability: 0.95, daysToClose: 0, requiredFields: [] },
+  { id: 'CLOSED_LOST', name: 'Closed Lost', order: 4, color: 'red', outcome: 'lost', probability: 0, daysToClose: 0, requiredFields: [] },
+];
+
+export const DEFAULT_LOST_REASONS = [
+  'Price',
+  'Went with competitor',
+  'Bad credit / financing declined',
+  'Roof not suitable',
+  'Shading',
+  'HOA or landlord',
+  'Not interested',
+  'Unresponsive',
+];
+
+export const DEFAULT_LEAD_PIPELINE: LeadPipelineConfig = {
+  statuses: DEFAULT_LEAD_STATUSES,
+  lostReasons: DEFAULT_LOST_REASONS,
+};
+
+// ============================================================================
+// OUTCOMES
+// ============================================================================
+
+/**
+ * Whether a status is open, won or lost; statuses a company has since removed
+ * are treated as open
+ */
+export function leadStatusOutcome(statusId: string, config: LeadPipelineConfig): LeadStatusOutcome {
+  return config.statuses.find(s => s.id === statusId)?.outcome || 'open';
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Problems that would leave leads stranded: no open status to start in, or
+ * no way to win or lose a deal
+ */
+export function validateLeadPipeline(config: LeadPipelineConfig): string[] {
+  const errors: string[] = [];
+  if (!config.statuses.some(s => s.outcome === 'open')) errors.push('Add at least one open status for new leads');
+  if (!config.statuses.some(s => s.outcome === 'won')) errors.push('Add a won status');
+  if (!config.statuses.some(s => s.outcome === 'lost')) errors.push('Add a lost status');
+  if (config.statuses.some(s => s.outcome === 'lost') && config.lostReasons.length === 0) {
+    errors.push('Add at least one lost reason');
+  }
+  const ids = config.statuses.map(s => s.id);
+  if (new Set(ids).size !== ids.length) errors.push('Status IDs must be unique');
+  return errors;
+}
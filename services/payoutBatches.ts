@@ -0,0 +1,118 @@
+// services/payoutBatches.ts
+// Payout Batches - which approved commissions a payout run locks
+// Pure rules shared by api/payout-runs, which creates and settles runs, and
+// the payout screen (services/payoutRuns.ts), which previews them.
+
+import type { Commission, PayoutRun } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// Company bank details for the ACH file headers
+export interface AchOriginator {
+  companyName: string;
+  companyIdentification: string; // Usually "1" + EIN
+  originRouting: string; // Your bank (ODFI) routing number
+  bankName: string;
+}
+
+export const DEFAULT_ACH_ORIGINATOR: AchOriginator = {
+  companyName: '',
+  companyIdentification: '',
+  originRouting: '',
+  bankName: '',
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// ============================================================================
+// ELIGIBILITY
+// ============================================================================
+
+// Date a line was earned: when its milestone was reached
+export const earnedOn = (c: Commission) => c.expectedPayDate || c.createdAt?.slice(0, 10) || '';
+
+/**
+ * Approved lines earned by the end of the period that aren't in a run yet
+ */
+export function eligibleCommissions(commissions: Commission[], periodEnd: string): Commission[] {
+  return commissions.filter(c => c.status === 'APPROVED' && !c.payoutRunId && earnedOn(c) <= periodEnd);
+}
+
+/**
+ * Split a rep's selected lines into what this run pays and the clawbacks held
+ * back so the rep never nets below zero. Oldest clawbacks are recovered first.
+ */
+function netClawbacks(lines: Commission[]): { included: Commission[]; carried: Commission[] } {
+  const included = lines.filter(c => c.amountUsd >= 0);
+  const clawbacks = lines
+    .filter(c => c.amountUsd < 0)
+    .sort((a, b) => (a.createdAt || '').localeCompare(b.createdAt || ''));
+  let net = included.reduce((sum, c) => sum + c.amountUsd, 0);
+  const carried: Commission[] = [];
+  clawbacks.forEach(c => {
+    if (round2(net + c.amountUsd) >= 0) {
+      included.push(c);
+      net += c.amountUsd;
+    } else {
+      carried.push(c);
+    }
+  });
+  return { included, carried };
+}
+
+// ============================================================================
+// RUNS
+// ============================================================================
+
+/**
+ * A new locked run for the period over the selected commissions. Returns the
+ * run and the included lines stamped with its ID; the caller stores both.
+ */
+export function buildPayoutRun(
+  commissions: Commission[],
+  selectedIds: string[],
+  period: { start: string; end: string },
+  companyId: string,
+  createdBy: string
+): { run: PayoutRun; locked: Commission[] } {
+  if (!period.start || !period.end || period.start > period.end) {
+    throw new Error('Choose a pay period that ends on or after it starts');
+  }
+  const eligible = new Map(eligibleCommissions(commissions, period.end).map(c => [c.id, c]));
+  const selected = selectedIds.map(id => eligible.get(id));
+  if (selected.length === 0) {
+    throw new Error('Select at least one approved commission');
+  }
+  if (selected.some(c => !c)) {
+    throw new Error('Only approved commissions earned by the end of the period that are not already in a run can be paid');
+  }
+
+  const byRep = new Map<string, Commission[]>();
+  (selected as Commission[]).forEach(c => byRep.set(c.repId || '', [...(byRep.get(c.repId || '') || []), c]));
+  const included: Commission[] = [];
+  const carried: Commission[] = [];
+  byRep.forEach(lines => {
+    const netted = netClawbacks(lines);
+    included.push(...netted.included);
+    carried.push(...netted.carried);
+  });
+  if (included.length === 0) {
+    throw new Error('Nothing to pay: the selected clawbacks exceed the selected earnings');
+  }
+
+  const run: PayoutRun = {
+    id: `run_${Date.now().toString(36)}`,
+    companyId,
+    periodStart: period.start,
+    periodEnd: period.end,
+    status: 'locked',
+    commissionIds: included.map(c => c.id),
+    carriedForwardIds: carried.map(c => c.id),
+    totalUsd: round2(included.reduce((sum, c) => sum + c.amountUsd, 0)),
+    createdAt: new Date().toISOString(),
+    createdBy,
+  };
+  return { run, locked: included.map(c => ({ ...c, payoutRunId: run.id })) };
+}
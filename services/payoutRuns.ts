@@ -0,0 +1,403 @@
+// services/payoutRuns.ts
+// Payout Runs - pay periods that lock approved commissions into a batch
+// A run nets each rep's clawbacks against their earnings, produces per-rep
+// statements and exports a payroll CSV and an ACH (NACHA) credit file.
+// Runs are created, paid and voided by api/payout-runs together with the
+// lines they lock; the copy here is a cache for the payout screen.
+
+import type { Commission, PayoutRun, Rep, RepPayoutAccount } from '../types';
+import { getActiveCompanyId } from './companyStore';
+import { logCreate, logDelete, logExport, logUpdate } from './auditLog';
+import { toCSV } from './csv';
+import { payoutRunsApi } from './api';
+import { DEFAULT_ACH_ORIGINATOR, earnedOn, type AchOriginator } from './payoutBatches';
+import { loadCompanyMap, saveForCompany } from '../utils/storage';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RepStatement {
+  repId: string | null;
+  repName: string;
+  payoutAccount?: RepPayoutAccount;
+  lines: Commission[];
+  deals: number;
+  base: number; // Install and PTO milestone pay
+  advances: number; // Paid at signing, before the install
+  bonuses: number;
+  overrides: number;
+  clawbacks: number; // Negative
+  net: number;
+  carriedForward: number; // Clawbacks held for a later run (negative)
+}
+
+export interface NachaExport {
+  file: string;
+  skipped: string[]; // Reps paid by other means: no bank account or nothing to pay
+}
+
+// ============================================================================
+// STORAGE KEYS
+// ============================================================================
+
+const PAYOUT_RUNS_KEY = 'primus_payout_runs';
+const ACH_ORIGINATOR_KEY = 'primus_ach_originator';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// ============================================================================
+// LOAD / SAVE FUNCTIONS
+// ============================================================================
+
+/**
+ * Load the cached payout runs for a company, newest first
+ */
+export function loadPayoutRuns(companyId?: string): PayoutRun[] {
+  const runs = loadCompanyMap<PayoutRun[]>(PAYOUT_RUNS_KEY)[companyId || getActiveCompanyId()] || [];
+  return [...runs].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+function cachePayoutRuns(companyId: string, runs: PayoutRun[]): void {
+  saveForCompany(PAYOUT_RUNS_KEY, companyId, runs);
+}
+
+/**
+ * Refresh the cached runs from the server copy
+ */
+export async function syncPayoutRunsFromServer(companyId: string = getActiveCompanyId()): Promise<PayoutRun[]> {
+  const result = await payoutRunsApi.getAll();
+  if (result.success && result.data) {
+    cachePayoutRuns(companyId, result.data);
+  }
+  return loadPayoutRuns(companyId);
+}
+
+export function loadAchOriginator(companyId?: string): AchOriginator {
+  return { ...DEFAULT_ACH_ORIGINATOR, ...loadCompanyMap<AchOriginator>(ACH_ORIGINATOR_KEY)[companyId || getActiveCompanyId()] };
+}
+
+/**
+ * Save the ACH originator (local cache + server)
+ * Returns the server error message, if any
+ */
+export async function saveAchOriginator(companyId: string, originator: AchOriginator): Promise<string | null> {
+  saveForCompany(ACH_ORIGINATOR_KEY, companyId, originator);
+  const result = await payoutRunsApi.updateAchOriginator(originator);
+  return result.success ? null : result.error || 'Failed to save the ACH originator on the server';
+}
+
+export async function syncAchOriginatorFromServer(companyId: string = getActiveCompanyId()): Promise<AchOriginator> {
+  const result = await payoutRunsApi.getAchOriginator();
+  if (result.success && result.data) {
+    saveForCompany(ACH_ORIGINATOR_KEY, companyId, result.data);
+  }
+  return loadAchOriginator(companyId);
+}
+
+// ============================================================================
+// RUNS
+// ============================================================================
+
+/**
+ * Lock the selected commissions into a new run for the period. Returns the run
+ * and the included lines, now stamped with its ID.
+ */
+export async function createPayoutRun(
+  selectedIds: string[],
+  period: { start: string; end: string },
+  companyId: string = getActiveCompanyId()
+): Promise<{ run: PayoutRun; commissions: Commission[] }> {
+  const result = await payoutRunsApi.create(selectedIds, period.start, period.end);
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to create payout run');
+  }
+  const { run } = result.data;
+  cachePayoutRuns(companyId, [...loadPayoutRuns(companyId), run]);
+  logCreate('PayoutRun', run.id, run, {
+    period: `${run.periodStart} to ${run.periodEnd}`,
+    commissions: run.commissionIds.length,
+    carriedForward: run.carriedForwardIds.length,
+    totalUsd: run.totalUsd,
+  });
+  return result.data;
+}
+
+/**
+ * Record the run as paid; every line in it becomes PAID. Returns the paid run
+ * and its lines.
+ */
+export async function markPayoutRunPaid(
+  runId: string,
+  payment: { paidAt: string; payoutMethod: string },
+  companyId: string = getActiveCompanyId()
+): Promise<{ run: PayoutRun; commissions: Commission[] }> {
+  const previous = loadPayoutRuns(companyId).find(r => r.id === runId);
+  const result = await payoutRunsApi.markPaid(runId, payment);
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to mark payout run paid');
+  }
+  const paid = result.data.run;
+  cachePayoutRuns(companyId, loadPayoutRuns(companyId).map(r => (r.id === runId ? paid : r)));
+  logUpdate('PayoutRun', runId, previous || paid, paid, { action: 'markPaid', ...payment });
+  return result.data;
+}
+
+/**
+ * Delete an unpaid run and release its lines for another run. Returns the
+ * released lines.
+ */
+export async function voidPayoutRun(runId: string, companyId: string = getActiveCompanyId()): Promise<Commission[]> {
+  const result = await payoutRunsApi.void(runId);
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to void payout run');
+  }
+  cachePayoutRuns(companyId, loadPayoutRuns(companyId).filter(r => r.id !== runId));
+  logDelete('PayoutRun', runId, result.data.run, { action: 'void' });
+  return result.data.commissions;
+}
+
+// ============================================================================
+// STATEMENTS
+// ============================================================================
+
+/**
+ * One statement per rep in the run
+ */
+export function buildRepStatements(run: PayoutRun, commissions: Commission[], reps: Rep[]): RepStatement[] {
+  const included = new Set(run.commissionIds);
+  const carried = new Set(run.carriedForwardIds);
+  const byRep = new Map<string, RepStatement>();
+
+  const statementFor = (repId: string | undefined): RepStatement => {
+    const key = repId || '';
+    if (!byRep.has(key)) {
+      const rep = reps.find(r => r.id === repId);
+      byRep.set(key, {
+        repId: repId || null,
+        repName: rep?.name || (repId ? repId : 'Unassigned'),
+        payoutAccount: rep?.payoutAccount,
+        lines: [],
+        deals: 0,
+        base: 0,
+        advances: 0,
+        bonuses: 0,
+        overrides: 0,
+        clawbacks: 0,
+        net: 0,
+        carriedForward: 0,
+      });
+    }
+    return byRep.get(key)!;
+  };
+
+  commissions.forEach(c => {
+    if (carried.has(c.id)) {
+      statementFor(c.repId).carriedForward += c.amountUsd;
+      return;
+    }
+    if (!included.has(c.id)) return;
+    const statement = statementFor(c.repId);
+    statement.lines.push(c);
+    statement.net += c.amountUsd;
+    if (c.kind === 'clawback') {
+      statement.clawbacks += c.amountUsd;
+    } else if (c.kind === 'override') {
+      statement.overrides += c.amountUsd;
+    } else {
+      const bonus = c.bonusUsd || 0;
+      statement.bonuses += bonus;
+      if (c.milestone === 'SIGNED') statement.advances += c.amountUsd - bonus;
+      else statement.base += c.amountUsd - bonus;
+    }
+  });
+
+  return [...byRep.values()]
+    .map(s => ({
+      ...s,
+      deals: new Set(s.lines.map(c => c.projectId || c.leadId)).size,
+      base: round2(s.base),
+      advances: round2(s.advances),
+      bonuses: round2(s.bonuses),
+      overrides: round2(s.overrides),
+      clawbacks: round2(s.clawbacks),
+      net: round2(s.net),
+      carriedForward: round2(s.carriedForward),
+    }))
+    .sort((a, b) => a.repName.localeCompare(b.repName));
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+/**
+ * Payroll import: one row per rep with the statement totals
+ */
+export function exportPayrollCsv(run: PayoutRun, statements: RepStatement[]): string {
+  logExport('PayoutRun', statements.length, { runId: run.id, format: 'payroll_csv' });
+  return toCSV(statements.map(s => ({
+    'Rep ID': s.repId || '',
+    'Rep': s.repName,
+    'Period Start': run.periodStart,
+    'Period End': run.periodEnd,
+    'Deals': s.deals,
+    'Base': s.base.toFixed(2),
+    'Advances': s.advances.toFixed(2),
+    'Bonuses': s.bonuses.toFixed(2),
+    'Overrides': s.overrides.toFixed(2),
+    'Clawbacks': s.clawbacks.toFixed(2),
+    'Net Pay': s.net.toFixed(2),
+    'Carried Forward': s.carriedForward.toFixed(2),
+    'Payment': s.payoutAccount ? 'ACH' : 'Manual',
+  })));
+}
+
+/**
+ * A rep's statement: every line in the run, then the totals
+ */
+export function exportStatementCsv(run: PayoutRun, statement: RepStatement, dealName: (c: Commission) => string): string {
+  logExport('PayoutRun', statement.lines.length, { runId: run.id, repId: statement.repId, format: 'statement_csv' });
+  const lines = toCSV(statement.lines.map(c => ({
+    'Deal': dealName(c),
+    'Milestone': c.milestone,
+    'Role': c.role || '',
+    'Type': c.kind || 'commission',
+    'Earned': earnedOn(c),
+    'Bonus': (c.bonusUsd || 0).toFixed(2),
+    'Amount': c.amountUsd.toFixed(2),
+  })));
+  const totals = toCSV([
+    ['Rep', statement.repName],
+    ['Period', `${run.periodStart} to ${run.periodEnd}`],
+    ['Base', statement.base.toFixed(2)],
+    ['Advances', statement.advances.toFixed(2)],
+    ['Bonuses', statement.bonuses.toFixed(2)],
+    ['Overrides', statement.overrides.toFixed(2)],
+    ['Clawbacks', statement.clawbacks.toFixed(2)],
+    ['Net Pay', statement.net.toFixed(2)],
+    ['Carried Forward', statement.carriedForward.toFixed(2)],
+  ].map(([item, amount]) => ({ Item: item, Amount: amount })));
+  return `${lines}\n\n${totals}`;
+}
+
+/**
+ * ABA routing number checksum
+ */
+export function isValidRoutingNumber(routing: string): boolean {
+  if (!/^\d{9}$/.test(routing)) return false;
+  const d = routing.split('').map(Number);
+  const sum = 3 * (d[0] + d[3] + d[6]) + 7 * (d[1] + d[4] + d[7]) + (d[2] + d[5] + d[8]);
+  return sum % 10 === 0;
+}
+
+// Fixed-width NACHA fields
+const alpha = (value: string, length: number) =>
+  value.toUpperCase().replace(/[^A-Z0-9 .,&/-]/g, '').slice(0, length).padEnd(length, ' ');
+const numeric = (value: number | string, length: number) => String(value).slice(-length).padStart(length, '0');
+const yymmdd = (date: string) => date.slice(2, 10).replace(/-/g, '');
+
+/**
+ * PPD credit batch paying each rep's net by direct deposit. Reps without a
+ * valid bank account or with nothing to pay are left out and listed in `skipped`.
+ */
+export function buildNachaFile(
+  run: PayoutRun,
+  statements: RepStatement[],
+  originator: AchOriginator,
+  effectiveDate: string,
+  now: Date = new Date()
+): NachaExport {
+  if (!isValidRoutingNumber(originator.originRouting)) {
+    throw new Error('Enter a valid routing number for your bank');
+  }
+  if (!originator.companyName.trim() || !originator.companyIdentification.trim()) {
+    throw new Error('Enter the company name and ACH company ID');
+  }
+
+  const odfi = originator.originRouting.slice(0, 8);
+  const skipped: string[] = [];
+  const entries: string[] = [];
+  let entryHash = 0;
+  let totalCredit = 0;
+
+  statements.forEach(s => {
+    const account = s.payoutAccount;
+    const cents = Math.round(s.net * 100);
+    if (cents <= 0 || !account || !isValidRoutingNumber(account.routingNumber) || !account.accountNumber.trim()) {
+      skipped.push(s.repName);
+      return;
+    }
+    entryHash += Number(account.routingNumber.slice(0, 8));
+    totalCredit += cents;
+    entries.push([
+      '6',
+      account.accountType === 'savings' ? '32' : '22',
+      account.routingNumber,
+      alpha(account.accountNumber.replace(/\s/g, ''), 17),
+      numeric(cents, 10),
+      alpha(s.repId || '', 15),
+      alpha(s.repName, 22),
+      '  ',
+      '0',
+      odfi + numeric(entries.length + 1, 7),
+    ].join(''));
+  });
+
+  const hash = numeric(entryHash, 10);
+  const timestamp = now.toISOString();
+  const records = [
+    [
+      '101',
+      ` ${originator.originRouting}`,
+      alpha(originator.companyIdentification, 10),
+      yymmdd(timestamp.slice(0, 10)),
+      timestamp.slice(11, 16).replace(':', ''),
+      'A094101',
+      alpha(originator.bankName, 23),
+      alpha(originator.companyName, 23),
+      alpha(run.id, 8),
+    ].join(''),
+    [
+      '5220',
+      alpha(originator.companyName, 16),
+      alpha(`${run.periodStart} ${run.periodEnd}`, 20),
+      alpha(originator.companyIdentification, 10),
+      'PPD',
+      alpha('COMMISSION', 10),
+      yymmdd(run.periodEnd),
+      yymmdd(effectiveDate),
+      '   ',
+      '1',
+      odfi,
+      numeric(1, 7),
+    ].join(''),
+    ...entries,
+    [
+      '8220',
+      numeric(entries.length, 6),
+      hash,
+      numeric(0, 12),
+      numeric(totalCredit, 12),
+      alpha(originator.companyIdentification, 10),
+      ' '.repeat(25),
+      odfi,
+      numeric(1, 7),
+    ].join(''),
+  ];
+  const blocks = Math.ceil((records.length + 1) / 10);
+  records.push([
+    '9',
+    numeric(1, 6),
+    numeric(blocks, 6),
+    numeric(entries.length, 8),
+    hash,
+    numeric(0, 12),
+    numeric(totalCredit, 12),
+    ' '.repeat(39),
+  ].join(''));
+  while (records.length % 10 !== 0) records.push('9'.repeat(94));
+
+  logExport('PayoutRun', entries.length, { runId: run.id, format: 'nacha', totalUsd: totalCredit / 100, skipped });
+  return { file: records.join('\n') + '\n', skipped };
+}
@@ -0,0 +1,125 @@
+// services/permits.ts
+// Permit Tracking - building permits with the AHJ on each project
+// Tracks the required documents, each submission and corrections cycle, and the
+// permit number and fees, and splits the time spent in permitting between
+// waiting on the AHJ and waiting on us so the SLA clock only counts ours.
+
+import type { PermitRecord, Project } from '../types';
+import { Ahj, BATTERY_PERMIT_DOCUMENT, STANDARD_PERMIT_DOCUMENTS, findAhjForAddress } from './ahjData';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PermitClock {
+  ourDays: number; // Preparing documents and answering corrections
+  ahjDays: number; // Submitted and waiting on plan review
+  waitingOn: 'us' | 'ahj' | null; // Who holds the ball today; null once approved
+}
+
+export const PERMIT_STATUS_LABELS: Record<PermitRecord['status'], string> = {
+  not_submitted: 'Not Submitted',
+  submitted: 'In Review',
+  corrections_requested: 'Corrections Requested',
+  approved: 'Approved',
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const daysBetween = (start: string, end: string) =>
+  Math.max(0, Math.round((new Date(end).getTime() - new Date(start).getTime()) / DAY_MS));
+
+// ============================================================================
+// LIFECYCLE
+// ============================================================================
+
+/**
+ * New permit for a project, with the AHJ and document checklist looked up from
+ * the installation address. Projects outside the AHJ table get the standard
+ * checklist and an AHJ to fill in by hand.
+ */
+export function startPermit(project: Project, address: string, ahj: Ahj | null = findAhjForAddress(address)): PermitRecord {
+  const documents = [...(ahj?.documents || STANDARD_PERMIT_DOCUMENTS)];
+  if ((project.equipment?.batteryQty || 0) > 0) documents.push(BATTERY_PERMIT_DOCUMENT);
+  return {
+    ahjId: ahj?.id || '',
+    ahjName: ahj?.name || '',
+    status: 'not_submitted',
+    documents: documents.map(label => ({ label, received: false })),
+    cycles: [],
+    feesUsd: ahj?.feeUsd,
+  };
+}
+
+/**
+ * Submit, or resubmit after corrections; every required document must be in
+ */
+export function submitPermit(permit: PermitRecord, date: string = today()): PermitRecord {
+  if (permit.status === 'submitted' || permit.status === 'approved') {
+    throw new Error('Permit is already with the AHJ');
+  }
+  const missing = permit.documents.filter(d => !d.received);
+  if (missing.length > 0) {
+    throw new Error(`Missing documents: ${missing.map(d => d.label).join(', ')}`);
+  }
+  return {
+    ...permit,
+    status: 'submitted',
+    cycles: [...permit.cycles, { submittedAt: date }],
+  };
+}
+
+export function requestCorrections(permit: PermitRecord, corrections: string, date: string = today()): PermitRecord {
+  if (permit.status !== 'submitted') {
+    throw new Error('Corrections can only be requested on a submitted permit');
+  }
+  const cycles = [...permit.cycles];
+  cycles[cycles.length - 1] = { ...cycles[cycles.length - 1], correctionsRequestedAt: date, corrections: corrections.trim() || undefined };
+  return { ...permit, status: 'corrections_requested', cycles };
+}
+
+export function approvePermit(permit: PermitRecord, permitNumber: string, feesUsd?: number, date: string = today()): PermitRecord {
+  if (permit.status !== 'submitted') {
+    throw new Error('Only a submitted permit can be approved');
+  }
+  if (!permitNumber.trim()) {
+    throw new Error('Permit number is required');
+  }
+  return {
+    ...permit,
+    status: 'approved',
+    permitNumber: permitNumber.trim(),
+    feesUsd: feesUsd ?? permit.feesUsd,
+    approvedAt: date,
+  };
+}
+
+// ============================================================================
+// SLA CLOCK
+// ============================================================================
+
+/**
+ * Days in permitting split by who was waiting: from entering the stage until
+ * the first submission and between each corrections request and the
+ * resubmission are ours; from each submission until corrections or approval
+ * are the AHJ's. After approval the clock is ours again until the stage ends.
+ */
+export function permitClock(permit: PermitRecord, stageEnteredAt: string, asOf: string = today()): PermitClock {
+  let ourDays = 0;
+  let ahjDays = 0;
+  let cursor = stageEnteredAt.slice(0, 10);
+
+  permit.cycles.forEach((cycle, index) => {
+    ourDays += daysBetween(cursor, cycle.submittedAt);
+    const isLast = index === permit.cycles.length - 1;
+    const reviewEnd = cycle.correctionsRequestedAt || (isLast ? permit.approvedAt || asOf : cycle.submittedAt);
+    ahjDays += daysBetween(cycle.submittedAt, reviewEnd);
+    cursor = reviewEnd;
+  });
+  ourDays += daysBetween(cursor, asOf);
+
+  const waitingOn = permit.status === 'approved' ? null : permit.status === 'submitted' ? 'ahj' : 'us';
+  return { ourDays, ahjDays, waitingOn };
+}
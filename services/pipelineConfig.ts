@@ -1,51 +1,11 @@
 // services/pipelineConfig.ts
 // Pipeline Configuration System - Customizable stages per company
+// Stage types and the default pipeline live in services/pipelineStages.ts; the
+// server copy (api/company?action=pipeline) is what project milestones are paid by.
 
 import { getActiveCompanyId } from './companyStore';
-
-// ============================================================================
-// TYPES
-// ============================================================================
-
-export interface PipelineStage {
-  id: string;
-  name: string;
-  order: number;
-  color?: string;
-  description?: string;
-}
-
-// ============================================================================
-// DEFAULT PIPELINE (backwards compatible with existing ProjectStage type)
-// ============================================================================
-
-export const DEFAULT_PIPELINE_STAGES: PipelineStage[] = [
-  { id: 'SITE_SURVEY', name: 'Site Survey', order: 0, color: 'blue' },
-  { id: 'DESIGN', name: 'Design', order: 1, color: 'purple' },
-  { id: 'PERMITTING', name: 'Permitting', order: 2, color: 'amber' },
-  { id: 'INSTALL', name: 'Install', order: 3, color: 'orange' },
-  { id: 'INSPECTION', name: 'Inspection', order: 4, color: 'cyan' },
-  { id: 'PTO', name: 'PTO', order: 5, color: 'emerald' },
-];
-
-export const DEFAULT_PIPELINE = [
-  'SITE_SURVEY',
-  'DESIGN',
-  'PERMITTING',
-  'INSTALL',
-  'INSPECTION',
-  'PTO',
-];
-
-// Legacy mapping for display names
-export const STAGE_DISPLAY_NAMES: Record<string, string> = {
-  'SITE_SURVEY': 'Site Survey',
-  'DESIGN': 'Design',
-  'PERMITTING': 'Permitting',
-  'INSTALL': 'Install',
-  'INSPECTION': 'Inspection',
-  'PTO': 'PTO',
-};
+import { companyApi } from './api';
+import { DEFAULT_PIPELINE_STAGES, PipelineStage, STAGE_DISPLAY_NAMES, stageOrder } from './pipelineStages';
 
 // ============================================================================
 // STORAGE KEY
@@ -76,10 +36,7 @@ export function loadPipeline(companyId?: string): PipelineStage[] {
   return [...DEFAULT_PIPELINE_STAGES];
 }
 
-/**
- * Save pipeline configuration for a company
- */
-export function savePipeline(companyId: string, stages: PipelineStage[]): void {
+function cachePipeline(companyId: string, stages: PipelineStage[]): void {
   try {
     const stored = localStorage.getItem(PIPELINE_STORAGE_KEY);
     const allConfigs = stored ? JSON.parse(stored) : {};
@@ -90,12 +47,34 @@ export function savePipeline(companyId: string, stages: PipelineStage[]): void {
   }
 }
 
+/**
+ * Save pipeline configuration for a company (local cache + server)
+ * Returns the server error message, if any
+ */
+export async function savePipeline(companyId: string, stages: PipelineStage[]): Promise<string | null> {
+  cachePipeline(companyId, stages);
+  const result = await companyApi.updatePipeline(stages);
+  return result.success ? null : result.error || 'Failed to save pipeline on the server';
+}
+
+/**
+ * Refresh the local cache from the server copy
+ */
+export async function syncPipelineFromServer(companyId?: string): Promise<PipelineStage[]> {
+  const id = companyId || getActiveCompanyId();
+  const result = await companyApi.getPipeline();
+  if (result.success && result.data) {
+    cachePipeline(id, result.data);
+    return result.data;
+  }
+  return loadPipeline(id);
+}
+
 /**
  * Get pipeline as simple array of stage IDs (for compatibility)
  */
 export function getPipelineOrder(companyId?: string): string[] {
-  const stages = loadPipeline(companyId);
-  return stages.sort((a, b) => a.order - b.order).map(s => s.id);
+  return stageOrder(loadPipeline(companyId));
 }
 
 /**
@@ -143,10 +122,15 @@ export function isFinalStage(stageId: string, companyId?: string): boolean {
   return order.indexOf(stageId) === order.length - 1;
 }
 
+async function saveOrThrow(companyId: string, stages: PipelineStage[]): Promise<void> {
+  const error = await savePipeline(companyId, stages);
+  if (error) throw new Error(error);
+}
+
 /**
  * Add a new stage to pipeline
  */
-export function addStage(companyId: string, stageName: string): PipelineStage {
+export async function addStage(companyId: string, stageName: string): Promise<PipelineStage> {
   const stages = loadPipeline(companyId);
   const newStage: PipelineStage = {
     id: stageName.toUpperCase().replace(/\s+/g, '_'),
@@ -154,14 +138,14 @@ export function addStage(companyId: string, stageName: string): PipelineStage {
     order: stages.length,
   };
   stages.push(newStage);
-  savePipeline(companyId, stages);
+  await saveOrThrow(companyId, stages);
   return newStage;
 }
 
 /**
  * Remove a stage from pipeline
  */
-export function removeStage(companyId: string, stageId: string): boolean {
+export async function removeStage(companyId: string, stageId: string): Promise<boolean> {
   const stages = loadPipeline(companyId);
   const index = stages.findIndex(s => s.id === stageId);
   if (index === -1) return false;
@@ -169,27 +153,27 @@ export function removeStage(companyId: string, stageId: string): boolean {
   stages.splice(index, 1);
   // Reorder remaining stages
   stages.forEach((s, i) => { s.order = i; });
-  savePipeline(companyId, stages);
+  await saveOrThrow(companyId, stages);
   return true;
 }
 
 /**
  * Update stage name
  */
-export function updateStageName(companyId: string, stageId: string, newName: string): boolean {
+export async function updateStageName(companyId: string, stageId: string, newName: string): Promise<boolean> {
   const stages = loadPipeline(companyId);
   const stage = stages.find(s => s.id === stageId);
   if (!stage) return false;
   
   stage.name = newName;
-  savePipeline(companyId, stages);
+  await saveOrThrow(companyId, stages);
   return true;
 }
 
 /**
  * Reorder stages
  */
-export function reorderStages(companyId: string, stageIds: string[]): void {
+export async function reorderStages(companyId: string, stageIds: string[]): Promise<void> {
   const stages = loadPipeline(companyId);
   const reordered = stageIds.map((id, index) => {
     const stage = stages.find(s => s.id === id);
@@ -199,14 +183,14 @@ export function reorderStages(companyId: string, stageIds: string[]): void {
     return null;
   }).filter(Boolean) as PipelineStage[];
   
-  savePipeline(companyId, reordered);
+  await saveOrThrow(companyId, reordered);
 }
 
 /**
  * Reset pipeline to defaults
  */
-export function resetPipelineToDefaults(companyId: string): void {
-  savePipeline(companyId, [...DEFAULT_PIPELINE_STAGES]);
+export async function resetPipelineToDefaults(companyId: string): Promise<string | null> {
+  return savePipeline(companyId, [...DEFAULT_PIPELINE_STAGES]);
 }
 
 /**
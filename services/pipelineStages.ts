@@ -0,0 +1,59 @@
+// services/pipelineStages.ts
+// Pipeline Stages - the default project pipeline and stage ordering
+// Company pipelines are edited and stored by services/pipelineConfig.ts; this
+// module has no storage so the API can order stages too.
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PipelineStage {
+  id: string;
+  name: string;
+  order: number;
+  color?: string;
+  description?: string;
+}
+
+// ============================================================================
+// DEFAULT PIPELINE (backwards compatible with existing ProjectStage type)
+// ============================================================================
+
+export const DEFAULT_PIPELINE_STAGES: PipelineStage[] = [
+  { id: 'SITE_SURVEY', name: 'Site Survey', order: 0, color: 'blue' },
+  { id: 'DESIGN', name: 'Design', order: 1, color: 'purple' },
+  { id: 'PERMITTING', name: 'Permitting', order: 2, color: 'amber' },
+  { id: 'INSTALL', name: 'Install', order: 3, color: 'orange' },
+  { id: 'INSPECTION', name: 'Inspection', order: 4, color: 'cyan' },
+  { id: 'PTO', name: 'PTO', order: 5, color: 'emerald' },
+];
+
+export const DEFAULT_PIPELINE = [
+  'SITE_SURVEY',
+  'DESIGN',
+  'PERMITTING',
+  'INSTALL',
+  'INSPECTION',
+  'PTO',
+];
+
+// Legacy mapping for display names
+export const STAGE_DISPLAY_NAMES: Record<string, string> = {
+  'SITE_SURVEY': 'Site Survey',
+  'DESIGN': 'Design',
+  'PERMITTING': 'Permitting',
+  'INSTALL': 'Install',
+  'INSPECTION': 'Inspection',
+  'PTO': 'PTO',
+};
+
+// ============================================================================
+// ORDER
+// ============================================================================
+
+/**
+ * Stage IDs in pipeline order
+ */
+export function stageOrder(stages: PipelineStage[]): string[] {
+  return [...stages].sort((a, b) => a.order - b.order).map(s => s.id);
+}
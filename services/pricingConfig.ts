@@ -0,0 +1,79 @@
+// services/pricingConfig.ts
+// Pricing Configuration - per-company price bands, adders and loan products
+// Cached locally for instant reads; the server copy (api/company?action=pricing)
+// is what api/solar-analysis prices against.
+
+import { getActiveCompanyId } from './companyStore';
+import { companyApi } from './api';
+import { DEFAULT_PRICING_CONFIG, PricingConfig } from './financialEngine';
+
+// ============================================================================
+// STORAGE KEY
+// ============================================================================
+
+const PRICING_STORAGE_KEY = 'primus_pricing_config';
+
+function clonePricing(config: PricingConfig): PricingConfig {
+  return JSON.parse(JSON.stringify(config));
+}
+
+// ============================================================================
+// LOAD / SAVE FUNCTIONS
+// ============================================================================
+
+/**
+ * Load pricing configuration for a company
+ */
+export function loadPricing(companyId?: string): PricingConfig {
+  const id = companyId || getActiveCompanyId();
+  try {
+    const stored = localStorage.getItem(PRICING_STORAGE_KEY);
+    if (stored) {
+      const allConfigs = JSON.parse(stored);
+      if (allConfigs[id]) {
+        return { ...clonePricing(DEFAULT_PRICING_CONFIG), ...allConfigs[id] };
+      }
+    }
+  } catch (error) {
+    console.error('Failed to load pricing config:', error);
+  }
+  return clonePricing(DEFAULT_PRICING_CONFIG);
+}
+
+function cachePricing(companyId: string, config: PricingConfig): void {
+  try {
+    const stored = localStorage.getItem(PRICING_STORAGE_KEY);
+    const allConfigs = stored ? JSON.parse(stored) : {};
+    allConfigs[companyId] = config;
+    localStorage.setItem(PRICING_STORAGE_KEY, JSON.stringify(allConfigs));
+  } catch (error) {
+    console.error('Failed to save pricing config:', error);
+  }
+}
+
+/**
+ * Save pricing configuration for a company (local cache + server)
+ * Returns the server error message, if any
+ */
+export async function savePricing(companyId: string, config: PricingConfig): Promise<string | null> {
+  cachePricing(companyId, config);
+  const result = await companyApi.updatePricing(config);
+  return result.success ? null : result.error || 'Failed to save pricing on the server';
+}
+
+/**
+ * Refresh the local cache from the server copy
+ */
+export async function syncPricingFromServer(companyId?: string): Promise<PricingConfig> {
+  const id = companyId || getActiveCompanyId();
+  const result = await companyApi.getPricing();
+  if (result.success && result.data) {
+    cachePricing(id, result.data);
+    return result.data;
+  }
+  return loadPricing(id);
+}
+
+export async function resetPricingToDefaults(companyId: string): Promise<string | null> {
+  return savePricing(companyId, clonePricing(DEFAULT_PRICING_CONFIG));
+}
@@ -0,0 +1,217 @@
+// services/productionModel.ts
+// Solar Production Model - monthly kWh from TMY irradiance, roof geometry and shading
+// Splits monthly GHI into beam and diffuse, transposes it onto the roof plane with
+// hour-by-hour sun geometry on each month's representative day, then applies losses.
+
+import {
+  GeoPoint,
+  TmyStation,
+  extractZip,
+  locateZip,
+  findNearestStation,
+  getStation,
+  DEFAULT_STATION_ID,
+} from './irradianceData';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RoofPlane {
+  pitch: number; // Rise per 12" of run (0 = flat, 6 = 6/12)
+  azimuthDeg: number; // Compass bearing the plane faces (180 = south)
+  shadingPct: number; // Annual shading loss, 0-100
+}
+
+export interface ProductionEstimate {
+  station: TmyStation;
+  location: GeoPoint;
+  tiltDeg: number;
+  monthlyPoa: number[]; // Plane-of-array irradiance, kWh/m²/day
+  monthlyKwh: number[];
+  annualKwh: number;
+  specificYield: number; // kWh per kW-DC per year
+  peakSunHours: number; // Annual mean plane-of-array irradiance, kWh/m²/day
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_ROOF: RoofPlane = { pitch: 6, azimuthDeg: 180, shadingPct: 5 };
+
+// Inverter, wiring, temperature, soiling and mismatch losses
+export const PERFORMANCE_RATIO = 0.8;
+
+const SOLAR_CONSTANT = 1.367; // kW/m²
+const GROUND_REFLECTANCE = 0.2;
+const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+// Day of year whose extraterrestrial radiation best matches each month's mean (Klein, 1977)
+const REPRESENTATIVE_DAYS = [17, 47, 75, 105, 135, 162, 198, 228, 258, 288, 318, 344];
+// Hour-angle step for the intra-day integration (degrees; 15° = one hour)
+const HOUR_ANGLE_STEP = 2.5;
+
+export const COMPASS_OPTIONS: { value: number; label: string }[] = [
+  { value: 0, label: 'N' },
+  { value: 45, label: 'NE' },
+  { value: 90, label: 'E' },
+  { value: 135, label: 'SE' },
+  { value: 180, label: 'S' },
+  { value: 225, label: 'SW' },
+  { value: 270, label: 'W' },
+  { value: 315, label: 'NW' },
+];
+
+// ============================================================================
+// GEOMETRY HELPERS
+// ============================================================================
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+export function pitchToTiltDeg(pitch: number): number {
+  return (Math.atan(Math.max(0, pitch) / 12) * 180) / Math.PI;
+}
+
+export function formatRoofPitch(pitch: number): string {
+  return pitch <= 0 ? 'Flat' : `${pitch}/12`;
+}
+
+export function formatAzimuth(azimuthDeg: number): string {
+  const normalized = ((azimuthDeg % 360) + 360) % 360;
+  const closest = COMPASS_OPTIONS.reduce((best, option) => {
+    const diff = Math.min(Math.abs(option.value - normalized), 360 - Math.abs(option.value - normalized));
+    const bestDiff = Math.min(Math.abs(best.value - normalized), 360 - Math.abs(best.value - normalized));
+    return diff < bestDiff ? option : best;
+  });
+  return closest.label;
+}
+
+/**
+ * Resolve an address to a location on the irradiance grid
+ */
+export function locateAddress(address: string): GeoPoint {
+  const zip = extractZip(address || '');
+  const point = zip ? locateZip(zip) : null;
+  if (point) return point;
+  const fallback = getStation(DEFAULT_STATION_ID);
+  return { lat: fallback.lat, lon: fallback.lon };
+}
+
+// Daily diffuse fraction from the monthly clearness index (Erbs et al., 1982)
+function diffuseFraction(clearness: number, sunsetHourAngleDeg: number): number {
+  const k = Math.min(0.8, Math.max(0.3, clearness));
+  if (sunsetHourAngleDeg <= 81.4) {
+    return 1.391 - 3.56 * k + 4.189 * k * k - 2.137 * k * k * k;
+  }
+  return 1.311 - 3.022 * k + 3.427 * k * k - 1.821 * k * k * k;
+}
+
+/**
+ * Plane-of-array daily irradiation for one month (kWh/m²/day)
+ */
+function monthlyPlaneOfArray(ghi: number, month: number, latDeg: number, tiltDeg: number, azimuthDeg: number): number {
+  const n = REPRESENTATIVE_DAYS[month];
+  const phi = toRad(latDeg);
+  const beta = toRad(tiltDeg);
+  const gamma = toRad(azimuthDeg - 180); // Surface azimuth from south, west positive
+  const delta = toRad(23.45 * Math.sin(toRad((360 * (284 + n)) / 365)));
+
+  const cosSunset = Math.min(1, Math.max(-1, -Math.tan(phi) * Math.tan(delta)));
+  const sunsetDeg = (Math.acos(cosSunset) * 180) / Math.PI;
+  const ws = toRad(sunsetDeg);
+
+  // Extraterrestrial daily irradiation on a horizontal surface
+  const eccentricity = 1 + 0.033 * Math.cos(toRad((360 * n) / 365));
+  const h0 = (24 / Math.PI) * SOLAR_CONSTANT * eccentricity *
+    (Math.cos(phi) * Math.cos(delta) * Math.sin(ws) + ws * Math.sin(phi) * Math.sin(delta));
+  if (h0 <= 0) return 0;
+
+  const diffuse = ghi * diffuseFraction(ghi / h0, sunsetDeg);
+  const beam = ghi - diffuse;
+
+  // Ratio of beam on the tilted plane to beam on the horizontal, integrated through the day
+  let horizontal = 0;
+  let tilted = 0;
+  for (let w = -sunsetDeg; w <= sunsetDeg; w += HOUR_ANGLE_STEP) {
+    const omega = toRad(w);
+    const cosZenith = Math.cos(phi) * Math.cos(delta) * Math.cos(omega) + Math.sin(phi) * Math.sin(delta);
+    if (cosZenith <= 0) continue;
+    const cosIncidence =
+      Math.sin(delta) * Math.sin(phi) * Math.cos(beta) -
+      Math.sin(delta) * Math.cos(phi) * Math.sin(beta) * Math.cos(gamma) +
+      Math.cos(delta) * Math.cos(phi) * Math.cos(beta) * Math.cos(omega) +
+      Math.cos(delta) * Math.sin(phi) * Math.sin(beta) * Math.cos(gamma) * Math.cos(omega) +
+      Math.cos(delta) * Math.sin(beta) * Math.sin(gamma) * Math.sin(omega);
+    horizontal += cosZenith;
+    tilted += Math.max(0, cosIncidence);
+  }
+  const beamRatio = horizontal > 0 ? tilted / horizontal : 0;
+
+  return beam * beamRatio +
+    diffuse * (1 + Math.cos(beta)) / 2 +
+    ghi * GROUND_REFLECTANCE * (1 - Math.cos(beta)) / 2;
+}
+
+/**
+ * Share of a day's production in each clock hour (24 fractions summing to 1)
+ * for a month's representative day, weighted by the sun's elevation
+ */
+export function hourlySolarShape(month: number, latDeg: number): number[] {
+  const n = REPRESENTATIVE_DAYS[month];
+  const phi = toRad(latDeg);
+  const delta = toRad(23.45 * Math.sin(toRad((360 * (284 + n)) / 365)));
+  const weights = Array.from({ length: 24 }, (_, hour) => {
+    const omega = toRad((hour + 0.5 - 12) * 15);
+    return Math.max(0, Math.cos(phi) * Math.cos(delta) * Math.cos(omega) + Math.sin(phi) * Math.sin(delta));
+  });
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return weights.map(w => (total > 0 ? w / total : 0));
+}
+
+// ============================================================================
+// PRODUCTION ESTIMATE
+// ============================================================================
+
+/**
+ * Estimate production for a system on a single roof plane at a location
+ */
+export function estimateProduction(
+  systemSizeKw: number,
+  location: GeoPoint,
+  roof: RoofPlane = DEFAULT_ROOF
+): ProductionEstimate {
+  const station = findNearestStation(location);
+  const tiltDeg = pitchToTiltDeg(roof.pitch);
+  const shading = Math.min(100, Math.max(0, roof.shadingPct)) / 100;
+
+  const monthlyPoa = station.ghi.map((ghi, month) =>
+    monthlyPlaneOfArray(ghi, month, location.lat, tiltDeg, roof.azimuthDeg)
+  );
+  const monthlyKwh = monthlyPoa.map((poa, month) =>
+    Math.round(systemSizeKw * poa * DAYS_IN_MONTH[month] * PERFORMANCE_RATIO * (1 - shading))
+  );
+  const annualKwh = monthlyKwh.reduce((sum, kwh) => sum + kwh, 0);
+  const annualPoa = monthlyPoa.reduce((sum, poa, month) => sum + poa * DAYS_IN_MONTH[month], 0);
+
+  return {
+    station,
+    location,
+    tiltDeg: Math.round(tiltDeg * 10) / 10,
+    monthlyPoa: monthlyPoa.map(poa => Math.round(poa * 100) / 100),
+    monthlyKwh,
+    annualKwh,
+    specificYield: systemSizeKw > 0 ? Math.round(annualKwh / systemSizeKw) : 0,
+    peakSunHours: Math.round((annualPoa / 365) * 10) / 10,
+  };
+}
+
+/**
+ * Convenience wrapper: locate the address, then estimate production
+ */
+export function estimateProductionForAddress(
+  systemSizeKw: number,
+  address: string,
+  roof: RoofPlane = DEFAULT_ROOF
+): ProductionEstimate {
+  return estimateProduction(systemSizeKw, locateAddress(address), roof);
+}
@@ -22,10 +22,14 @@ export type Role = typeof ROLES[keyof typeof ROLES];
 export const PERMISSIONS = {
   // Lead Permissions
   VIEW_LEADS: ['admin', 'manager', 'rep'],
+  CREATE_LEADS: ['admin', 'manager', 'rep'],
   EDIT_LEADS: ['admin', 'manager'],
   DELETE_LEADS: ['admin'],
   ROUTE_LEADS: ['admin', 'manager'],
   ASSIGN_LEADS: ['admin', 'manager'],
+  ISSUE_PROPOSALS: ['admin', 'manager', 'rep'],
+  SEND_CONTRACTS: ['admin', 'manager', 'rep'],
+  VOID_CONTRACTS: ['admin', 'manager'],
   
   // Project Permissions
   VIEW_PROJECTS: ['admin', 'manager', 'installer'],
@@ -171,7 +175,7 @@ export function canManageRole(managerRole: Role, targetRole: Role): boolean {
 export const PERMISSION_GROUPS = {
   SALES: {
     label: 'Sales',
-    permissions: ['VIEW_LEADS', 'EDIT_LEADS', 'DELETE_LEADS', 'ROUTE_LEADS', 'ASSIGN_LEADS'] as Permission[],
+    permissions: ['VIEW_LEADS', 'CREATE_LEADS', 'EDIT_LEADS', 'DELETE_LEADS', 'ROUTE_LEADS', 'ASSIGN_LEADS', 'ISSUE_PROPOSALS', 'SEND_CONTRACTS', 'VOID_CONTRACTS'] as Permission[],
   },
   OPERATIONS: {
     label: 'Operations',
@@ -0,0 +1,169 @@
+// services/recordSync.ts
+// Record Sync - shares leads, projects and commissions through the api/ backend
+// Screens work on the localStorage copy (utils/storage.ts). While someone is
+// signed in, every save is compared with the previous copy and the changed
+// records are sent to the server, and screens reload the company's records
+// from the server when they open, so reps see each other's work. Signed out,
+// the app runs on local demo data only. A change the server refuses is undone
+// locally and reported to onSyncFailure listeners.
+
+import type { Lead, Project, Commission } from '../types';
+import { loadSession } from './auth';
+import { leadsApi, projectsApi, commissionsApi, type ApiResponse } from './api';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SyncedCollection = 'leads' | 'projects' | 'commissions';
+
+export interface SyncedRecord {
+  id: string;
+  companyId?: string;
+}
+
+// The local copy after a failed push was replaced with the server's
+export interface SyncFailure {
+  collection: SyncedCollection;
+  errors: string[];
+  records: SyncedRecord[] | null; // Null when the server copy couldn't be loaded either
+}
+
+type SyncFailureListener = (failure: SyncFailure) => void;
+
+// Whole collection in one page
+const PULL_PAGE_SIZE = 10000;
+
+// A request that fails is tried once more before the change is given up
+const RETRY_DELAY_MS = 1000;
+
+const failureListeners = new Set<SyncFailureListener>();
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const clientFor = (collection: SyncedCollection) => ({
+  getAll: (): Promise<ApiResponse<SyncedRecord[]>> => {
+    if (collection === 'leads') return leadsApi.getAll({ pageSize: PULL_PAGE_SIZE });
+    if (collection === 'projects') return projectsApi.getAll({ pageSize: PULL_PAGE_SIZE });
+    return commissionsApi.getAll({ pageSize: PULL_PAGE_SIZE });
+  },
+  create: (record: SyncedRecord): Promise<ApiResponse<unknown>> => {
+    if (collection === 'leads') return leadsApi.create(record as Lead);
+    if (collection === 'projects') return projectsApi.create(record as Project);
+    return commissionsApi.create(record as Commission);
+  },
+  update: (id: string, updates: object, clear: string[]): Promise<ApiResponse<unknown>> => {
+    if (collection === 'leads') return leadsApi.update(id, updates, clear);
+    if (collection === 'projects') return projectsApi.update(id, updates, clear);
+    return commissionsApi.update(id, updates, clear);
+  },
+  // Commissions are cancelled or clawed back, never deleted
+  remove: (id: string): Promise<ApiResponse<unknown>> | null => {
+    if (collection === 'leads') return leadsApi.delete(id);
+    if (collection === 'projects') return projectsApi.delete(id);
+    return null;
+  },
+});
+
+/**
+ * Fields that differ between two copies of a record: values to send, and
+ * fields the newer copy no longer has
+ */
+function diffRecord(before: object, after: object): { updates: Record<string, unknown>; clear: string[] } {
+  const prev = before as Record<string, unknown>;
+  const next = after as Record<string, unknown>;
+  const updates: Record<string, unknown> = {};
+  const clear: string[] = [];
+  new Set([...Object.keys(prev), ...Object.keys(next)]).forEach(key => {
+    if (next[key] === undefined) {
+      if (prev[key] !== undefined) clear.push(key);
+    } else if (JSON.stringify(prev[key]) !== JSON.stringify(next[key])) {
+      updates[key] = next[key];
+    }
+  });
+  return { updates, clear };
+}
+
+// ============================================================================
+// SYNC
+// ============================================================================
+
+/**
+ * Send what changed between two saves of a collection. Records belonging to
+ * another company are left alone. Returns the errors of requests that still
+ * failed after a retry.
+ */
+export async function pushRecordChanges<T extends SyncedRecord>(
+  collection: SyncedCollection,
+  before: T[],
+  after: T[]
+): Promise<string[]> {
+  const session = loadSession();
+  if (!session) return [];
+  const ours = (r: T) => !r.companyId || r.companyId === session.user.companyId;
+  const previous = new Map(before.filter(ours).map(r => [r.id, r]));
+  const current = after.filter(ours);
+  const currentIds = new Set(current.map(r => r.id));
+  const client = clientFor(collection);
+
+  const requests: (() => Promise<ApiResponse<unknown>> | null)[] = [];
+  current.forEach(record => {
+    const old = previous.get(record.id);
+    if (!old) {
+      requests.push(() => client.create(record));
+      return;
+    }
+    const { updates, clear } = diffRecord(old, record);
+    if (Object.keys(updates).length > 0 || clear.length > 0) {
+      requests.push(() => client.update(record.id, updates, clear));
+    }
+  });
+  previous.forEach((_, id) => {
+    if (!currentIds.has(id)) requests.push(() => client.remove(id));
+  });
+
+  // One at a time, so a large import doesn't flood the server
+  const errors: string[] = [];
+  for (const send of requests) {
+    let result = await send();
+    if (result && !result.success) {
+      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS));
+      result = await send();
+    }
+    if (result && !result.success) {
+      console.error(`Failed to sync ${collection}:`, result.error);
+      errors.push(result.error || `Failed to sync ${collection}`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * The cached records with the signed-in company's replaced by the server
+ * copy. Null when signed out or the server can't be reached.
+ */
+export async function pullRecords<T extends SyncedRecord>(collection: SyncedCollection, cached: T[]): Promise<T[] | null> {
+  const session = loadSession();
+  if (!session) return null;
+  const result = await clientFor(collection).getAll();
+  if (!result.success || !result.data) {
+    console.error(`Failed to load ${collection}:`, result.error);
+    return null;
+  }
+  const others = cached.filter(r => r.companyId && r.companyId !== session.user.companyId);
+  return [...others, ...(result.data as T[])];
+}
+
+/**
+ * Listen for pushes the server refused; returns the unsubscribe function
+ */
+export function onSyncFailure(listener: SyncFailureListener): () => void {
+  failureListeners.add(listener);
+  return () => { failureListeners.delete(listener); };
+}
+
+export function reportSyncFailure(failure: SyncFailure): void {
+  failureListeners.forEach(listener => listener(failure));
+}
@@ -4,15 +4,11 @@
  */
 
 import { Lead, Project, Commission } from '../types';
-
-// Probability weights by lead status
-const STATUS_PROBABILITY: Record<string, number> = {
-  NEW: 0.10,
-  QUALIFIED: 0.25,
-  PROPOSAL_SENT: 0.45,
-  CLOSED_WON: 0.95,
-  CLOSED_LOST: 0.0,
-};
+import { CommissionRules, calculateCommission, defaultRules } from './commissionRules';
+import { calculateDealShares } from './commissionEngine';
+import { DEFAULT_PRICING_CONFIG, PricingConfig, computeFinancials, recommendSystemSizeKw } from './financialEngine';
+import { estimateDaysToPto } from './interconnection';
+import { DEFAULT_LEAD_PIPELINE, LeadPipelineConfig } from './leadStatuses';
 
 // Project stages override lead probability (already won)
 const STAGE_PROBABILITY: Record<string, number> = {
@@ -24,10 +20,8 @@ const STAGE_PROBABILITY: Record<string, number> = {
   PTO: 1.0,
 };
 
-// Default commission rate
-const COMMISSION_RATE = 0.06;
-
-// Average days per stage (for velocity calculations)
+// Average days per stage (for velocity calculations); PTO is estimated from
+// the project's interconnection application when it has one
 const AVG_STAGE_DAYS: Record<string, number> = {
   SITE_SURVEY: 3,
   DESIGN: 7,
@@ -70,7 +64,9 @@ function getExpectedDaysToComplete(project: Project): number {
   // Sum remaining stage days
   let remainingDays = 0;
   for (let i = currentIndex; i < stageOrder.length; i++) {
-    remainingDays += AVG_STAGE_DAYS[stageOrder[i]] || 7;
+    remainingDays += stageOrder[i] === 'PTO' && project.interconnection
+      ? estimateDaysToPto(project.interconnection)
+      : AVG_STAGE_DAYS[stageOrder[i]] || 7;
   }
   
   // Apply SLA penalty
@@ -83,17 +79,10 @@ function getExpectedDaysToComplete(project: Project): number {
 /**
  * Estimate when a lead will convert to revenue
  */
-function getLeadConversionDays(lead: Lead): number {
-  // Average days from status to closed won
-  const statusDays: Record<string, number> = {
-    NEW: 45,
-    QUALIFIED: 30,
-    PROPOSAL_SENT: 14,
-    CLOSED_WON: 0,
-    CLOSED_LOST: Infinity,
-  };
-  
-  const baseDays = statusDays[lead.status] || 30;
+function getLeadConversionDays(lead: Lead, leadPipeline: LeadPipelineConfig): number {
+  // Average days from status to closed won, per the company's lead pipeline
+  const status = leadPipeline.statuses.find(s => s.id === lead.status);
+  const baseDays = status ? status.daysToClose : 30;
   
   // Adjust by priority
   const priorityMultiplier: Record<string, number> = {
@@ -106,30 +95,36 @@ function getLeadConversionDays(lead: Lead): number {
 }
 
 /**
- * Calculate expected revenue from a lead
+ * Calculate expected revenue from a lead: commission on the system its bill
+ * would be sized and priced at
  */
-function calculateLeadRevenue(lead: Lead): number {
-  const probability = STATUS_PROBABILITY[lead.status] || 0;
-  const estimatedBill = lead.estimatedBill || 0;
+function calculateLeadRevenue(lead: Lead, rules: CommissionRules, pricing: PricingConfig, leadPipeline: LeadPipelineConfig): number {
+  // Probability weight by lead status
+  const probability = leadPipeline.statuses.find(s => s.id === lead.status)?.probability || 0;
+  if (probability === 0) return 0;
+  
+  const kW = recommendSystemSizeKw(lead.estimatedBill);
+  const dealValue = computeFinancials(kW, lead.estimatedBill, pricing).systemCost;
+  const commission = calculateCommission({ kW, dealValue, estimatedBill: lead.estimatedBill }, rules).totalCommission;
   
   // Boost probability for high AI scores
   let scoreBoost = 1.0;
   if (lead.aiScore && lead.aiScore >= 80) scoreBoost = 1.15;
   else if (lead.aiScore && lead.aiScore >= 60) scoreBoost = 1.05;
   
-  return estimatedBill * COMMISSION_RATE * probability * scoreBoost;
+  return commission * probability * scoreBoost;
 }
 
 /**
- * Calculate expected revenue from a project
+ * Calculate expected revenue from a project: every share of its contract price
+ * (priced from its size when the contract price is unknown)
  */
-function calculateProjectRevenue(project: Project): number {
+function calculateProjectRevenue(project: Project, projects: Project[], rules: CommissionRules, pricing: PricingConfig): number {
   const probability = STAGE_PROBABILITY[project.stage] || 0.9;
-  const systemSize = project.kW || 8; // Default 8kW
-  const pricePerWatt = 3.0; // Average $/W
-  const systemValue = systemSize * 1000 * pricePerWatt;
+  const contractPrice = project.contractPrice ?? computeFinancials(project.kW || 8, undefined, pricing).systemCost;
+  const shares = calculateDealShares({ ...project, contractPrice }, rules, { deals: projects });
   
-  return systemValue * COMMISSION_RATE * probability;
+  return shares.reduce((sum, share) => sum + share.amount, 0) * probability;
 }
 
 /**
@@ -138,7 +133,10 @@ function calculateProjectRevenue(project: Project): number {
 export function computeRevenueForecast(
   leads: Lead[],
   projects: Project[],
-  commissions: Commission[]
+  commissions: Commission[],
+  rules: CommissionRules = defaultRules(''),
+  pricing: PricingConfig = DEFAULT_PRICING_CONFIG,
+  leadPipeline: LeadPipelineConfig = DEFAULT_LEAD_PIPELINE
 ): RevenueForecast {
   let revenue30 = 0;
   let revenue60 = 0;
@@ -150,10 +148,10 @@ export function computeRevenueForecast(
   
   // Process leads
   leads.forEach(lead => {
-    if (lead.status === 'CLOSED_LOST') return;
+    if (leadPipeline.statuses.find(s => s.id === lead.status)?.outcome === 'lost') return;
     
-    const expectedRevenue = calculateLeadRevenue(lead);
-    const daysToConvert = getLeadConversionDays(lead);
+    const expectedRevenue = calculateLeadRevenue(lead, rules, pricing, leadPipeline);
+    const daysToConvert = getLeadConversionDays(lead, leadPipeline);
     
     // Add to appropriate time bucket
     if (daysToConvert <= 30) {
@@ -184,8 +182,9 @@ export function computeRevenueForecast(
   
   projects.forEach(project => {
     if (project.stage === 'PTO') return; // Already completed
+    if (project.cancelledAt) return;
     
-    const expectedRevenue = calculateProjectRevenue(project);
+    const expectedRevenue = calculateProjectRevenue(project, projects, rules, pricing);
     const daysToComplete = getExpectedDaysToComplete(project);
     
     // Add to time buckets
@@ -0,0 +1,186 @@
+// services/roofDesign.ts
+// Roof Design - roof faces, setbacks, obstructions and panel layout
+// Faces are flat rectangles measured along the slope (x along the eave, y from
+// eave to ridge, in feet). Auto-fill packs modules in a grid inside the fire
+// setbacks and skips any position that overlaps an obstruction.
+
+import type { RoofFace, RoofObstruction, PanelPlacement, SystemDesign, PlaneProduction } from '../types';
+import { PvModule, EquipmentCatalog, DEFAULT_EQUIPMENT_CATALOG, getModule } from './equipmentCatalog';
+import { estimateProductionForAddress, ProductionEstimate } from './productionModel';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const MM_PER_FT = 304.8;
+const PANEL_GAP_FT = 0.08; // Racking clamp gap between modules
+
+function generateId(prefix: string): string {
+  return prefix + '_' + Date.now().toString(36) + '_' + Math.random().toString(36).substring(2, 9);
+}
+
+// ============================================================================
+// FACTORIES
+// ============================================================================
+
+export function createRoofFace(index: number): RoofFace {
+  return {
+    id: generateId('face'),
+    name: `Roof ${index + 1}`,
+    widthFt: 30,
+    heightFt: 16,
+    pitch: 6,
+    azimuthDeg: 180,
+    shadingPct: 5,
+    setbackFt: 3,
+    orientation: 'portrait',
+    obstructions: [],
+    panels: [],
+  };
+}
+
+export function createObstruction(): RoofObstruction {
+  return { id: generateId('obs'), label: 'Vent', xFt: 5, yFt: 5, widthFt: 2, heightFt: 2 };
+}
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+/**
+ * Module footprint on the roof plane for an orientation
+ */
+export function panelSizeFt(module: PvModule, orientation: RoofFace['orientation']): { widthFt: number; heightFt: number } {
+  const long = module.lengthMm / MM_PER_FT;
+  const short = module.widthMm / MM_PER_FT;
+  return orientation === 'portrait'
+    ? { widthFt: short, heightFt: long }
+    : { widthFt: long, heightFt: short };
+}
+
+function overlaps(
+  a: { x: number; y: number; w: number; h: number },
+  b: { x: number; y: number; w: number; h: number }
+): boolean {
+  return a.x < b.x + b.w && a.x + a.w > b.x && a.y < b.y + b.h && a.y + a.h > b.y;
+}
+
+/**
+ * Pack as many modules as fit inside the setbacks, avoiding obstructions
+ */
+export function autoFillFace(face: RoofFace, module: PvModule): PanelPlacement[] {
+  const { widthFt, heightFt } = panelSizeFt(module, face.orientation);
+  const pitchX = widthFt + PANEL_GAP_FT;
+  const pitchY = heightFt + PANEL_GAP_FT;
+  const usableW = face.widthFt - 2 * face.setbackFt;
+  const usableH = face.heightFt - 2 * face.setbackFt;
+  if (usableW < widthFt || usableH < heightFt) return [];
+
+  const cols = Math.floor((usableW + PANEL_GAP_FT) / pitchX);
+  const rows = Math.floor((usableH + PANEL_GAP_FT) / pitchY);
+  // Center the grid horizontally inside the setbacks
+  const offsetX = face.setbackFt + (usableW - (cols * pitchX - PANEL_GAP_FT)) / 2;
+
+  const panels: PanelPlacement[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const cell = { x: offsetX + col * pitchX, y: face.setbackFt + row * pitchY, w: widthFt, h: heightFt };
+      const blocked = face.obstructions.some(o =>
+        overlaps(cell, { x: o.xFt, y: o.yFt, w: o.widthFt, h: o.heightFt })
+      );
+      if (!blocked) {
+        panels.push({ xFt: Math.round(cell.x * 100) / 100, yFt: Math.round(cell.y * 100) / 100 });
+      }
+    }
+  }
+  return panels;
+}
+
+export function autoFillDesign(design: SystemDesign, module: PvModule = getModule(design.moduleId)): SystemDesign {
+  return { ...design, faces: design.faces.map(face => ({ ...face, panels: autoFillFace(face, module) })) };
+}
+
+/**
+ * Roof area inside the setbacks, less obstructions (square feet)
+ */
+export function usableAreaSqft(face: RoofFace): number {
+  const usable = Math.max(0, face.widthFt - 2 * face.setbackFt) * Math.max(0, face.heightFt - 2 * face.setbackFt);
+  const blocked = face.obstructions.reduce((sum, o) => sum + o.widthFt * o.heightFt, 0);
+  return Math.max(0, Math.round(usable - blocked));
+}
+
+export function faceKw(face: RoofFace, module: PvModule): number {
+  return Math.round(face.panels.length * module.watts) / 1000;
+}
+
+export function designPanelCount(design: SystemDesign): number {
+  return design.faces.reduce((sum, face) => sum + face.panels.length, 0);
+}
+
+export function designKw(design: SystemDesign, catalog: EquipmentCatalog = DEFAULT_EQUIPMENT_CATALOG): number {
+  const module = getModule(design.moduleId, catalog);
+  return Math.round(design.faces.reduce((sum, face) => sum + faceKw(face, module), 0) * 100) / 100;
+}
+
+// ============================================================================
+// PRODUCTION
+// ============================================================================
+
+export interface DesignProduction {
+  faces: PlaneProduction[];
+  combined: ProductionEstimate; // Monthly and annual totals across every face
+}
+
+/**
+ * Production per face (each with its own pitch, azimuth and shading) and combined
+ */
+export function estimateDesignProduction(
+  design: SystemDesign,
+  address: string,
+  catalog: EquipmentCatalog = DEFAULT_EQUIPMENT_CATALOG
+): DesignProduction | null {
+  const module = getModule(design.moduleId, catalog);
+  const planes = design.faces
+    .filter(face => face.panels.length > 0)
+    .map(face => ({
+      face,
+      kw: faceKw(face, module),
+      estimate: estimateProductionForAddress(faceKw(face, module), address, {
+        pitch: face.pitch,
+        azimuthDeg: face.azimuthDeg,
+        shadingPct: face.shadingPct,
+      }),
+    }));
+  if (planes.length === 0) return null;
+
+  const totalKw = planes.reduce((sum, p) => sum + p.kw, 0);
+  const monthlyKwh = Array.from({ length: 12 }, (_, m) =>
+    planes.reduce((sum, p) => sum + p.estimate.monthlyKwh[m], 0)
+  );
+  const annualKwh = monthlyKwh.reduce((sum, kwh) => sum + kwh, 0);
+  const first = planes[0].estimate;
+  // kW-weighted plane-of-array irradiance, so peak sun hours reflect the whole array
+  const monthlyPoa = Array.from({ length: 12 }, (_, m) =>
+    Math.round((planes.reduce((sum, p) => sum + p.estimate.monthlyPoa[m] * p.kw, 0) / totalKw) * 100) / 100
+  );
+
+  return {
+    faces: planes.map(p => ({
+      faceId: p.face.id,
+      panelCount: p.face.panels.length,
+      kw: p.kw,
+      annualKwh: p.estimate.annualKwh,
+      specificYield: p.estimate.specificYield,
+    })),
+    combined: {
+      station: first.station,
+      location: first.location,
+      tiltDeg: first.tiltDeg,
+      monthlyPoa,
+      monthlyKwh,
+      annualKwh,
+      specificYield: Math.round(annualKwh / totalKw),
+      peakSunHours: Math.round((planes.reduce((sum, p) => sum + p.estimate.peakSunHours * p.kw, 0) / totalKw) * 10) / 10,
+    },
+  };
+}
@@ -0,0 +1,114 @@
+// services/siteSurvey.ts
+// Site Survey - the checklist a surveyor fills in on site
+// The checklist is the company's custom fields scoped to "survey"
+// (services/customFields.ts): photos of the main panel, roof, attic and meter
+// plus the measurements design needs. A project can't leave the site survey
+// stage until every required item is in.
+
+import type { SiteSurveyRecord, SurveyPhoto } from '../types';
+import { CustomField, validateFieldValue } from './customFields';
+import { uploadFile } from './fileUploads';
+
+// ============================================================================
+// PHOTOS
+// ============================================================================
+
+// Photos are downscaled before they're uploaded, since phone cameras produce
+// several MB per shot; the project keeps only the uploaded file's ID
+export const MAX_PHOTO_EDGE = 1280;
+const PHOTO_QUALITY = 0.6;
+
+/**
+ * Downscale a camera photo to a JPEG and upload it
+ */
+export async function readSurveyPhoto(file: File): Promise<SurveyPhoto> {
+  if (!file.type.startsWith('image/')) {
+    throw new Error(`${file.name} is not an image`);
+  }
+  const dataUrl = await downscalePhoto(file);
+  return {
+    fileName: file.name,
+    fileId: await uploadFile(file.name, 'image/jpeg', dataUrl),
+    takenAt: new Date().toISOString(),
+  };
+}
+
+function downscalePhoto(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const scale = Math.min(1, MAX_PHOTO_EDGE / Math.max(image.width, image.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Photo processing is not supported in this browser'));
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', PHOTO_QUALITY));
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Failed to read ${file.name}`));
+    };
+    image.src = url;
+  });
+}
+
+// ============================================================================
+// CHECKLIST
+// ============================================================================
+
+export function emptySurvey(): SiteSurveyRecord {
+  return { values: {}, photos: {}, updatedAt: new Date().toISOString() };
+}
+
+/**
+ * The answer to one checklist item; photo fields are kept apart from values
+ */
+export function surveyValue(survey: SiteSurveyRecord | undefined, field: CustomField): unknown {
+  if (!survey) return field.type === 'photo' ? [] : undefined;
+  return field.type === 'photo' ? survey.photos[field.key] || [] : survey.values[field.key];
+}
+
+/**
+ * Checklist problems keyed by field key: required items not done yet and
+ * measurements outside their allowed range
+ */
+export function surveyErrors(survey: SiteSurveyRecord | undefined, fields: CustomField[]): Record<string, string> {
+  const errors: Record<string, string> = {};
+  fields.forEach(field => {
+    const result = validateFieldValue(field, surveyValue(survey, field));
+    if (!result.valid) errors[field.key] = result.error || `${field.name} is invalid`;
+  });
+  return errors;
+}
+
+export function isSurveyComplete(survey: SiteSurveyRecord | undefined, fields: CustomField[]): boolean {
+  return Object.keys(surveyErrors(survey, fields)).length === 0;
+}
+
+/**
+ * Set one checklist item, stamping when the survey became complete
+ */
+export function setSurveyValue(
+  survey: SiteSurveyRecord | undefined,
+  fields: CustomField[],
+  field: CustomField,
+  value: unknown
+): SiteSurveyRecord {
+  const base = survey || emptySurvey();
+  const next: SiteSurveyRecord = field.type === 'photo'
+    ? { ...base, photos: { ...base.photos, [field.key]: value as SurveyPhoto[] } }
+    : { ...base, values: { ...base.values, [field.key]: value } };
+  const complete = isSurveyComplete(next, fields);
+  return {
+    ...next,
+    updatedAt: new Date().toISOString(),
+    completedAt: complete ? base.completedAt || new Date().toISOString() : undefined,
+  };
+}
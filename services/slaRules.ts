@@ -2,7 +2,8 @@
 // SLA Rules Configuration System - Customizable SLA thresholds per company
 
 import { getActiveCompanyId } from './companyStore';
-import { loadPipeline, DEFAULT_PIPELINE_STAGES } from './pipelineConfig';
+import { loadPipeline } from './pipelineConfig';
+import { DEFAULT_PIPELINE_STAGES } from './pipelineStages';
 
 // ============================================================================
 // TYPES
@@ -0,0 +1,155 @@
+// services/solarEstimate.ts
+// Solar Estimate - sizes (or takes the designed) system for a lead and prices it
+// against their rate plan
+// Shared by api/solar-analysis and the offline fallback in geminiService so both
+// produce the same production, bill and financing figures.
+
+import type { Lead, SolarAnalysis, SystemDesign } from '../types';
+import {
+  PricingConfig,
+  PricingOptions,
+  DEFAULT_BILL,
+  computeFinancials,
+  compareFinancing,
+  sizeSystemForUsageKw,
+} from './financialEngine';
+import {
+  RoofPlane,
+  ProductionEstimate,
+  DEFAULT_ROOF,
+  estimateProductionForAddress,
+  formatRoofPitch,
+  locateAddress,
+} from './productionModel';
+import {
+  RatePlan,
+  TariffResult,
+  getRatePlan,
+  analyzeTariff,
+  estimateUsageFromBill,
+  projectTariffBills,
+} from './tariffEngine';
+import { designKw, designPanelCount, estimateDesignProduction, usableAreaSqft } from './roofDesign';
+import { EquipmentCatalog, DEFAULT_EQUIPMENT_CATALOG, equipmentForSystem } from './equipmentCatalog';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SolarEstimate {
+  plan: RatePlan;
+  production: ProductionEstimate;
+  tariff: TariffResult;
+  // SolarAnalysis fields derived from the above; callers add the summary and score
+  fields: Omit<SolarAnalysis, 'leadId' | 'summary' | 'viabilityScore' | 'groundingUrls'>;
+}
+
+// ============================================================================
+// ESTIMATE
+// ============================================================================
+
+interface ArrayLayout {
+  systemSizeKw: number;
+  production: ProductionEstimate;
+  layoutFields: Pick<SolarAnalysis, 'roofPitch' | 'usableAreaSqft' | 'azimuthDeg' | 'shadingPct' | 'design' | 'planeProduction'>;
+}
+
+/**
+ * A design with panels fixes the system size; otherwise a single plane is sized
+ * to the target offset of usage
+ */
+function layoutArray(
+  lead: Lead,
+  roof: RoofPlane,
+  design: SystemDesign | undefined,
+  annualUsageKwh: number,
+  targetOffsetPct: number,
+  catalog: EquipmentCatalog
+): ArrayLayout {
+  const designed = design && designPanelCount(design) > 0
+    ? estimateDesignProduction(design, lead.address, catalog)
+    : null;
+
+  if (designed) {
+    const byFace = new Map(design!.faces.map(face => [face.id, face]));
+    const used = designed.faces.map(p => byFace.get(p.faceId)!);
+    const largest = used.reduce((a, b) => (b.panels.length > a.panels.length ? b : a));
+    const systemSizeKw = designKw(design!, catalog);
+    const pitches = Array.from(new Set(used.map(face => formatRoofPitch(face.pitch))));
+    return {
+      systemSizeKw,
+      production: designed.combined,
+      layoutFields: {
+        roofPitch: pitches.join(', '),
+        usableAreaSqft: used.reduce((sum, face) => sum + usableAreaSqft(face), 0),
+        azimuthDeg: largest.azimuthDeg,
+        // kW-weighted across faces
+        shadingPct: Math.round(designed.faces.reduce((sum, p) => sum + byFace.get(p.faceId)!.shadingPct * p.kw, 0) / systemSizeKw),
+        design,
+        planeProduction: designed.faces,
+      },
+    };
+  }
+
+  const perKw = estimateProductionForAddress(1, lead.address, roof);
+  const systemSizeKw = sizeSystemForUsageKw(annualUsageKwh, perKw.specificYield, targetOffsetPct);
+  return {
+    systemSizeKw,
+    production: estimateProductionForAddress(systemSizeKw, lead.address, roof),
+    layoutFields: {
+      roofPitch: formatRoofPitch(roof.pitch),
+      usableAreaSqft: Math.round(systemSizeKw * 65),
+      azimuthDeg: roof.azimuthDeg,
+      shadingPct: roof.shadingPct,
+    },
+  };
+}
+
+export function estimateSolar(
+  lead: Lead,
+  pricing: PricingConfig,
+  options: PricingOptions = {},
+  roof: RoofPlane = DEFAULT_ROOF,
+  design?: SystemDesign,
+  catalog: EquipmentCatalog = DEFAULT_EQUIPMENT_CATALOG
+): SolarEstimate {
+  const bill = lead.estimatedBill ?? DEFAULT_BILL;
+  const plan = getRatePlan(lead.ratePlanId);
+
+  // Usage from metered history or back-solved from the bill, then the array is
+  // laid out against it and billed month by month
+  const location = locateAddress(lead.address);
+  const usage = lead.usageHistory?.monthlyKwh ?? estimateUsageFromBill(plan, bill, location.lat);
+  const annualUsage = usage.reduce((sum, kwh) => sum + kwh, 0);
+  const targetOffsetPct = lead.targetOffsetPct ?? pricing.targetOffsetPct;
+  const { systemSizeKw, production, layoutFields } = layoutArray(lead, roof, design, annualUsage, targetOffsetPct, catalog);
+  const tariff = analyzeTariff(plan, bill, production.monthlyKwh, location.lat, usage);
+
+  const pricingOptions = { ...options, annualProductionKwh: production.annualKwh };
+  // Metered usage can disagree with the quoted bill, so financials use the modeled bill
+  const monthlyBillBefore = Math.round(tariff.annualBillBefore / 12);
+  const monthlyBillAfter = Math.round(tariff.annualBillAfter / 12);
+
+  return {
+    plan,
+    production,
+    tariff,
+    fields: {
+      ...layoutFields,
+      equipment: equipmentForSystem(systemSizeKw, design, catalog),
+      sunHoursPerDay: production.peakSunHours,
+      systemSizeKw,
+      weatherStation: production.station.name,
+      monthlyProductionKwh: production.monthlyKwh,
+      annualProductionKwh: production.annualKwh,
+      specificYield: production.specificYield,
+      ratePlanId: plan.id,
+      annualUsageKwh: tariff.annualUsageKwh,
+      monthlyBillsBefore: tariff.months.map(m => m.billBefore),
+      monthlyBillsAfter: tariff.months.map(m => m.billAfter),
+      ...computeFinancials(systemSizeKw, monthlyBillBefore, pricing, pricingOptions, monthlyBillAfter),
+      estimatedUtilityBillAfter: monthlyBillAfter,
+      financingOptions: compareFinancing(systemSizeKw, monthlyBillBefore, pricing, pricingOptions, projectTariffBills(tariff, pricing)),
+    },
+  };
+}
@@ -0,0 +1,423 @@
+// services/tariffEngine.ts
+// Utility Tariff Engine - rate plans, net metering and month-by-month bills
+// Bills each month hour by hour on a representative day: household load minus
+// solar production gives imports and exports, imports are priced on the plan's
+// tiers or time-of-use periods, and exports are credited under its net metering
+// rules (NEM 2 retail credit vs NEM 3 avoided-cost credit).
+
+import {
+  ANALYSIS_YEARS,
+  DEFAULT_BILL,
+  DEFAULT_PRICING_CONFIG,
+  PricingConfig,
+  UtilityBillProjection,
+} from './financialEngine';
+import { hourlySolarShape } from './productionModel';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RateStructure = 'tiered' | 'tou';
+export type NetMeteringScheme = 'NEM2' | 'NEM3' | 'NONE';
+
+export interface RateTier {
+  upToKwh: number | null; // Monthly kWh ceiling of the tier (null = unlimited)
+  rate: number; // $/kWh
+}
+
+export interface TouPeriod {
+  name: string;
+  startHour: number; // 0-23, inclusive
+  endHour: number; // 1-24, exclusive; wraps past midnight when <= startHour
+  summerRate: number; // $/kWh
+  winterRate: number; // $/kWh
+}
+
+export interface NetMeteringRule {
+  scheme: NetMeteringScheme;
+  exportRate: number; // $/kWh credit for exports under NEM 3 (avoided cost)
+  nonBypassableCharge: number; // $/kWh on imports that export credits can't offset under NEM 2
+  annualTrueUp: boolean; // Credits roll forward and settle once a year
+}
+
+export interface RatePlan {
+  id: string;
+  name: string;
+  utility: string;
+  structure: RateStructure;
+  fixedMonthlyCharge: number;
+  minimumBill: number; // Monthly floor on the total bill
+  tiers: RateTier[]; // Used when structure is 'tiered'
+  touPeriods: TouPeriod[]; // Used when structure is 'tou'; uncovered hours bill at the cheapest period
+  summerMonths: number[]; // 1-12
+  netMetering: NetMeteringRule;
+}
+
+export interface TariffMonth {
+  month: number; // 0-11
+  usageKwh: number;
+  productionKwh: number;
+  importKwh: number;
+  exportKwh: number;
+  billBefore: number;
+  billAfter: number;
+}
+
+export interface TariffResult {
+  ratePlanId: string;
+  months: TariffMonth[];
+  annualUsageKwh: number;
+  annualBillBefore: number;
+  annualBillAfter: number;
+  annualSavings: number;
+  selfConsumptionPct: number; // Share of production used on site
+}
+
+// ============================================================================
+// RATE PLAN LIBRARY
+// Approximate published residential rates; check the current tariff sheets
+// before quoting a customer.
+// ============================================================================
+
+const CA_SUMMER = [6, 7, 8, 9];
+
+const PGE_E_TOU_C_PERIODS: TouPeriod[] = [
+  { name: 'Peak', startHour: 16, endHour: 21, summerRate: 0.49, winterRate: 0.4 },
+  { name: 'Off-Peak', startHour: 21, endHour: 16, summerRate: 0.42, winterRate: 0.37 },
+];
+
+export const RATE_PLAN_LIBRARY: RatePlan[] = [
+  {
+    id: 'pge_etouc_nem3',
+    name: 'PG&E E-TOU-C (Net Billing / NEM 3)',
+    utility: 'PG&E',
+    structure: 'tou',
+    fixedMonthlyCharge: 24,
+    minimumBill: 0,
+    tiers: [],
+    touPeriods: PGE_E_TOU_C_PERIODS,
+    summerMonths: CA_SUMMER,
+    netMetering: { scheme: 'NEM3', exportRate: 0.06, nonBypassableCharge: 0, annualTrueUp: true },
+  },
+  {
+    id: 'pge_etouc_nem2',
+    name: 'PG&E E-TOU-C (NEM 2, grandfathered)',
+    utility: 'PG&E',
+    structure: 'tou',
+    fixedMonthlyCharge: 24,
+    minimumBill: 0,
+    tiers: [],
+    touPeriods: PGE_E_TOU_C_PERIODS,
+    summerMonths: CA_SUMMER,
+    netMetering: { scheme: 'NEM2', exportRate: 0, nonBypassableCharge: 0.03, annualTrueUp: true },
+  },
+  {
+    id: 'pge_ev2a_nem3',
+    name: 'PG&E EV2-A (Net Billing / NEM 3)',
+    utility: 'PG&E',
+    structure: 'tou',
+    fixedMonthlyCharge: 24,
+    minimumBill: 0,
+    tiers: [],
+    touPeriods: [
+      { name: 'Peak', startHour: 16, endHour: 21, summerRate: 0.6, winterRate: 0.47 },
+      { name: 'Partial-Peak', startHour: 15, endHour: 16, summerRate: 0.49, winterRate: 0.45 },
+      { name: 'Partial-Peak', startHour: 21, endHour: 24, summerRate: 0.49, winterRate: 0.45 },
+      { name: 'Off-Peak', startHour: 0, endHour: 15, summerRate: 0.3, winterRate: 0.3 },
+    ],
+    summerMonths: CA_SUMMER,
+    netMetering: { scheme: 'NEM3', exportRate: 0.06, nonBypassableCharge: 0, annualTrueUp: true },
+  },
+  {
+    id: 'pge_e1_nem2',
+    name: 'PG&E E-1 Tiered (NEM 2, grandfathered)',
+    utility: 'PG&E',
+    structure: 'tiered',
+    fixedMonthlyCharge: 24,
+    minimumBill: 0,
+    tiers: [
+      { upToKwh: 300, rate: 0.4 },
+      { upToKwh: null, rate: 0.5 },
+    ],
+    touPeriods: [],
+    summerMonths: CA_SUMMER,
+    netMetering: { scheme: 'NEM2', exportRate: 0, nonBypassableCharge: 0.03, annualTrueUp: true },
+  },
+  {
+    id: 'sce_tou_d_4_9_nem3',
+    name: 'SCE TOU-D-4-9PM (Net Billing / NEM 3)',
+    utility: 'SCE',
+    structure: 'tou',
+    fixedMonthlyCharge: 24,
+    minimumBill: 0,
+    tiers: [],
+    touPeriods: [
+      { name: 'On-Peak', startHour: 16, endHour: 21, summerRate: 0.55, winterRate: 0.5 },
+      { name: 'Off-Peak', startHour: 21, endHour: 16, summerRate: 0.36, winterRate: 0.34 },
+    ],
+    summerMonths: CA_SUMMER,
+    netMetering: { scheme: 'NEM3', exportRate: 0.05, nonBypassableCharge: 0, annualTrueUp: true },
+  },
+  {
+    id: 'flat_retail_nem',
+    name: 'Flat Rate with Retail Net Metering',
+    utility: 'Generic',
+    structure: 'tiered',
+    fixedMonthlyCharge: 12,
+    minimumBill: 0,
+    tiers: [{ upToKwh: null, rate: 0.16 }],
+    touPeriods: [],
+    summerMonths: CA_SUMMER,
+    netMetering: { scheme: 'NEM2', exportRate: 0, nonBypassableCharge: 0, annualTrueUp: true },
+  },
+];
+
+// CA-North is the default market and new interconnections there are on net billing
+export const DEFAULT_RATE_PLAN_ID = 'pge_etouc_nem3';
+
+export function getRatePlan(id?: string): RatePlan {
+  return RATE_PLAN_LIBRARY.find(p => p.id === id)
+    || RATE_PLAN_LIBRARY.find(p => p.id === DEFAULT_RATE_PLAN_ID)!;
+}
+
+// ============================================================================
+// LOAD PROFILES
+// ============================================================================
+
+// Typical residential share of annual usage by month (summer cooling peak)
+const MONTHLY_USAGE_SHAPE = [0.085, 0.075, 0.075, 0.07, 0.075, 0.09, 0.105, 0.105, 0.09, 0.075, 0.075, 0.08];
+
+// Typical residential share of daily usage by clock hour (evening peak)
+const HOURLY_LOAD_SHAPE = normalize([
+  0.03, 0.027, 0.025, 0.024, 0.024, 0.027, 0.034, 0.04, 0.04, 0.038, 0.036, 0.036,
+  0.036, 0.037, 0.038, 0.041, 0.047, 0.055, 0.061, 0.062, 0.058, 0.051, 0.043, 0.036,
+]);
+
+const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+const DEFAULT_LATITUDE = 38.5;
+
+function normalize(values: number[]): number[] {
+  const total = values.reduce((sum, v) => sum + v, 0);
+  return values.map(v => v / total);
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// ============================================================================
+// PRICING HELPERS
+// ============================================================================
+
+function inPeriod(period: TouPeriod, hour: number): boolean {
+  return period.endHour > period.startHour
+    ? hour >= period.startHour && hour < period.endHour
+    : hour >= period.startHour || hour < period.endHour;
+}
+
+/**
+ * Energy rate ($/kWh) in effect for a clock hour of a month on a TOU plan
+ */
+export function touRate(plan: RatePlan, month: number, hour: number): number {
+  const summer = plan.summerMonths.includes(month + 1);
+  const rateOf = (p: TouPeriod) => (summer ? p.summerRate : p.winterRate);
+  const period = plan.touPeriods.find(p => inPeriod(p, hour));
+  if (period) return rateOf(period);
+  return plan.touPeriods.length ? Math.min(...plan.touPeriods.map(rateOf)) : 0;
+}
+
+/**
+ * Price a month's kWh through the plan's tiers
+ */
+export function tieredCharge(plan: RatePlan, kwh: number): number {
+  let remaining = kwh;
+  let floor = 0;
+  let charge = 0;
+  for (const tier of plan.tiers) {
+    if (remaining <= 0) break;
+    const width = tier.upToKwh === null ? remaining : Math.max(0, tier.upToKwh - floor);
+    const used = Math.min(remaining, width);
+    charge += used * tier.rate;
+    remaining -= used;
+    if (tier.upToKwh !== null) floor = tier.upToKwh;
+  }
+  return charge;
+}
+
+interface EnergyFlows {
+  importKwh: number;
+  exportKwh: number;
+  charge: number; // Net energy charge; negative when export credits exceed it
+}
+
+/**
+ * Net energy charge for one month, netting load against production hour by hour
+ */
+function monthlyEnergy(plan: RatePlan, month: number, usageKwh: number, productionKwh: number, latitude: number): EnergyFlows {
+  const days = DAYS_IN_MONTH[month];
+  const solarShape = hourlySolarShape(month, latitude);
+  const nem = plan.netMetering;
+
+  let importKwh = 0;
+  let exportKwh = 0;
+  let importCost = 0; // TOU only
+  let exportValue = 0; // Exports at the retail rate of their hour (TOU only)
+
+  for (let hour = 0; hour < 24; hour++) {
+    const load = (usageKwh / days) * HOURLY_LOAD_SHAPE[hour];
+    const solar = (productionKwh / days) * solarShape[hour];
+    const imported = Math.max(0, load - solar) * days;
+    const exported = Math.max(0, solar - load) * days;
+    importKwh += imported;
+    exportKwh += exported;
+    if (plan.structure === 'tou') {
+      const rate = touRate(plan, month, hour);
+      importCost += imported * rate;
+      exportValue += exported * rate;
+    }
+  }
+
+  let charge: number;
+  if (plan.structure === 'tou') {
+    charge = importCost;
+    if (nem.scheme === 'NEM2') charge -= exportValue;
+  } else if (nem.scheme === 'NEM2') {
+    // Tiered NEM 2 nets kWh over the month; a surplus is credited at the first tier
+    const net = importKwh - exportKwh;
+    charge = net >= 0 ? tieredCharge(plan, net) : net * (plan.tiers[0]?.rate || 0);
+  } else {
+    charge = tieredCharge(plan, importKwh);
+  }
+
+  if (nem.scheme === 'NEM2') charge += importKwh * nem.nonBypassableCharge;
+  if (nem.scheme === 'NEM3') charge -= exportKwh * nem.exportRate;
+
+  return { importKwh, exportKwh, charge };
+}
+
+/**
+ * Turn monthly energy charges into payable bills: fixed charge, rolled-forward
+ * credits (annual true-up; leftover credit is forfeited) and the minimum bill
+ */
+function settleBills(plan: RatePlan, charges: number[]): number[] {
+  let bank = 0;
+  return charges.map(charge => {
+    let energyDue: number;
+    if (charge < 0) {
+      if (plan.netMetering.annualTrueUp) bank += -charge;
+      energyDue = 0;
+    } else {
+      const applied = Math.min(bank, charge);
+      bank -= applied;
+      energyDue = charge - applied;
+    }
+    return roundCents(Math.max(plan.minimumBill, plan.fixedMonthlyCharge + energyDue));
+  });
+}
+
+// ============================================================================
+// BILL CALCULATION
+// ============================================================================
+
+/**
+ * Month-by-month bills before and after solar
+ */
+export function calculateBills(
+  plan: RatePlan,
+  monthlyUsageKwh: number[],
+  monthlyProductionKwh: number[],
+  latitude = DEFAULT_LATITUDE
+): TariffResult {
+  const before = monthlyUsageKwh.map((usage, m) => monthlyEnergy(plan, m, usage, 0, latitude));
+  const after = monthlyUsageKwh.map((usage, m) => monthlyEnergy(plan, m, usage, monthlyProductionKwh[m] || 0, latitude));
+  const billsBefore = settleBills(plan, before.map(f => f.charge));
+  const billsAfter = settleBills(plan, after.map(f => f.charge));
+
+  const months: TariffMonth[] = monthlyUsageKwh.map((usage, m) => ({
+    month: m,
+    usageKwh: Math.round(usage),
+    productionKwh: Math.round(monthlyProductionKwh[m] || 0),
+    importKwh: Math.round(after[m].importKwh),
+    exportKwh: Math.round(after[m].exportKwh),
+    billBefore: billsBefore[m],
+    billAfter: billsAfter[m],
+  }));
+
+  const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+  const annualBillBefore = roundCents(sum(billsBefore));
+  const annualBillAfter = roundCents(sum(billsAfter));
+  const production = sum(months.map(m => m.productionKwh));
+  const exported = sum(months.map(m => m.exportKwh));
+
+  return {
+    ratePlanId: plan.id,
+    months,
+    annualUsageKwh: Math.round(sum(monthlyUsageKwh)),
+    annualBillBefore,
+    annualBillAfter,
+    annualSavings: roundCents(annualBillBefore - annualBillAfter),
+    selfConsumptionPct: production > 0 ? Math.round(((production - exported) / production) * 100) : 0,
+  };
+}
+
+/**
+ * Monthly usage that reproduces an average monthly bill on a plan
+ */
+export function estimateUsageFromBill(
+  plan: RatePlan,
+  monthlyBill: number | undefined,
+  latitude = DEFAULT_LATITUDE
+): number[] {
+  const target = (monthlyBill ?? DEFAULT_BILL) * 12;
+  const usageFor = (annualKwh: number) => MONTHLY_USAGE_SHAPE.map(share => annualKwh * share);
+  const none = new Array(12).fill(0);
+  const annualBill = (annualKwh: number) => calculateBills(plan, usageFor(annualKwh), none, latitude).annualBillBefore;
+
+  let low = 0;
+  let high = 100000;
+  if (annualBill(low) >= target) return usageFor(0);
+  for (let i = 0; i < 40; i++) {
+    const mid = (low + high) / 2;
+    if (annualBill(mid) < target) low = mid;
+    else high = mid;
+  }
+  return usageFor(Math.round((low + high) / 2));
+}
+
+/**
+ * Bills for a lead: usage from metered history when available, otherwise
+ * back-solved from the average monthly bill
+ */
+export function analyzeTariff(
+  plan: RatePlan,
+  monthlyBill: number | undefined,
+  monthlyProductionKwh: number[],
+  latitude = DEFAULT_LATITUDE,
+  monthlyUsageKwh?: number[]
+): TariffResult {
+  const usage = monthlyUsageKwh && monthlyUsageKwh.length === 12
+    ? monthlyUsageKwh
+    : estimateUsageFromBill(plan, monthlyBill, latitude);
+  return calculateBills(plan, usage, monthlyProductionKwh, latitude);
+}
+
+/**
+ * Long-range utility spend from a year-1 tariff result, for compareFinancing:
+ * bills escalate with the utility escalator and savings shrink with degradation
+ */
+export function projectTariffBills(
+  result: TariffResult,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG,
+  years = ANALYSIS_YEARS
+): UtilityBillProjection {
+  const withoutSolar: number[] = [];
+  const withSolar: number[] = [];
+  for (let y = 0; y < years; y++) {
+    const escalation = Math.pow(1 + config.utilityEscalatorPct / 100, y);
+    const retained = Math.pow(1 - config.degradationPct / 100, y);
+    withoutSolar.push(result.annualBillBefore * escalation);
+    withSolar.push((result.annualBillBefore - result.annualSavings * retained) * escalation);
+  }
+  return { withoutSolar, withSolar };
+}
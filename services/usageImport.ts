@@ -0,0 +1,255 @@
+// services/usageImport.ts
+// Usage Import - Green Button (XML / CSV) exports to 12 months of kWh
+// Utilities publish interval or billing data in the Green Button format; this
+// rolls the readings up into calendar months for the 12 months ending with the
+// latest reading so the tariff engine and system sizing can use actual usage.
+
+import type { UsageHistory, UsageSource } from '../types';
+import { parseCSV } from './csv';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface UsageReading {
+  start: Date;
+  kwh: number;
+}
+
+export interface UsageImportResult {
+  monthlyKwh: (number | null)[]; // Jan-Dec; null where the export has no readings
+  periodStart: string; // ISO date of the first month included
+  periodEnd: string; // ISO date of the last month included
+  readingCount: number;
+  source: UsageSource;
+}
+
+export const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// ============================================================================
+// GREEN BUTTON XML (ESPI)
+// ============================================================================
+
+// ESPI codes: unit of measure for watt-hours, energy delivered to the customer
+// (as opposed to exported from their system), and the electricity commodities
+const UOM_WH = 72;
+const FLOW_FORWARD = 1;
+const ELECTRIC_COMMODITIES = [1, 2];
+
+interface ReadingType {
+  multiplier: number;
+  uom: number;
+  flowDirection: number | null;
+  commodity: number | null;
+}
+
+function tagValue(xml: string, tag: string): string | null {
+  const match = xml.match(new RegExp(`<(?:\\w+:)?${tag}>([^<]*)</(?:\\w+:)?${tag}>`));
+  return match ? match[1].trim() : null;
+}
+
+function optionalNumber(xml: string, tag: string): number | null {
+  const value = tagValue(xml, tag);
+  return value === null ? null : Number(value);
+}
+
+function linkHrefs(entry: string, rel: string): string[] {
+  return (entry.match(/<(?:\w+:)?link\b[^>]*>/g) || [])
+    .filter(link => new RegExp(`\\brel="${rel}"`).test(link))
+    .map(link => link.match(/\bhref="([^"]*)"/)?.[1].replace(/\/$/, '') || '');
+}
+
+function readingTypeOf(xml: string): ReadingType {
+  return {
+    multiplier: optionalNumber(xml, 'powerOfTenMultiplier') ?? 0,
+    uom: optionalNumber(xml, 'uom') ?? UOM_WH,
+    flowDirection: optionalNumber(xml, 'flowDirection'),
+    commodity: optionalNumber(xml, 'commodity'),
+  };
+}
+
+const isDeliveredElectricEnergy = (type: ReadingType) =>
+  type.uom === UOM_WH &&
+  (type.flowDirection === null || type.flowDirection === FLOW_FORWARD) &&
+  (type.commodity === null || ELECTRIC_COMMODITIES.includes(type.commodity));
+
+function intervalReadings(xml: string, type: ReadingType): UsageReading[] {
+  // Interval values are integers in Wh scaled by the ReadingType's power of ten
+  const scale = Math.pow(10, type.multiplier) / 1000;
+  const readings: UsageReading[] = [];
+  const blocks = xml.match(/<(?:\w+:)?IntervalReading>[\s\S]*?<\/(?:\w+:)?IntervalReading>/g) || [];
+  for (const block of blocks) {
+    const start = Number(tagValue(block, 'start'));
+    const value = Number(tagValue(block, 'value'));
+    if (!Number.isFinite(start) || !Number.isFinite(value)) continue;
+    readings.push({ start: new Date(start * 1000), kwh: value * scale });
+  }
+  return readings;
+}
+
+/**
+ * An ESPI feed can carry several meter readings (consumption, solar export,
+ * gas), each described by its own ReadingType. Interval blocks are matched to
+ * their MeterReading by link, and only delivered electric energy is kept.
+ */
+export function parseGreenButtonXml(xml: string): UsageReading[] {
+  const entries = xml.match(/<(?:\w+:)?entry\b[\s\S]*?<\/(?:\w+:)?entry>/g) || [];
+  const hasContent = (entry: string, type: string) => new RegExp(`<(?:\\w+:)?${type}\\b`).test(entry);
+
+  // A bare fragment without the Atom feed has a single reading type
+  if (entries.length === 0) {
+    const type = readingTypeOf(xml);
+    return isDeliveredElectricEnergy(type) ? intervalReadings(xml, type) : [];
+  }
+
+  const readingTypes = new Map<string, ReadingType>();
+  entries.filter(entry => hasContent(entry, 'ReadingType')).forEach(entry => {
+    linkHrefs(entry, 'self').forEach(href => readingTypes.set(href, readingTypeOf(entry)));
+  });
+  const meterReadingTypes = new Map<string, ReadingType>();
+  entries.filter(entry => hasContent(entry, 'MeterReading')).forEach(entry => {
+    const typeHref = linkHrefs(entry, 'related').find(href => readingTypes.has(href));
+    const type = typeHref ? readingTypes.get(typeHref) : undefined;
+    if (type) linkHrefs(entry, 'self').forEach(href => meterReadingTypes.set(href, type));
+  });
+  // Single-reading exports sometimes leave out the MeterReading links
+  const onlyType = readingTypes.size === 1 ? Array.from(readingTypes.values())[0] : undefined;
+
+  const readings: UsageReading[] = [];
+  entries.filter(entry => hasContent(entry, 'IntervalBlock')).forEach(entry => {
+    const meterReading = [...linkHrefs(entry, 'self'), ...linkHrefs(entry, 'up')]
+      .map(href => href.replace(/\/IntervalBlock(\/[^/]*)?$/, ''))
+      .find(href => meterReadingTypes.has(href));
+    const type = meterReading ? meterReadingTypes.get(meterReading) : onlyType;
+    if (type && isDeliveredElectricEnergy(type)) readings.push(...intervalReadings(entry, type));
+  });
+  return readings;
+}
+
+// ============================================================================
+// GREEN BUTTON CSV
+// ============================================================================
+
+// ISO dates parse as UTC midnight, which lands in the previous month west of Greenwich
+function parseLocalDate(value: string): Date {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00`) : new Date(value);
+}
+
+/**
+ * Utility CSV exports start with account details; readings follow a header row
+ * with a date column (DATE / START DATE) and a usage column (USAGE / IMPORT (kWh))
+ */
+export function parseGreenButtonCsv(csv: string): UsageReading[] {
+  const lines = csv.split(/\r?\n/).filter(line => line.trim());
+  const headerIndex = lines.findIndex(line => {
+    const upper = line.toUpperCase();
+    return upper.includes('DATE') && (upper.includes('USAGE') || upper.includes('IMPORT'));
+  });
+  if (headerIndex === -1) {
+    throw new Error('No header row with date and usage columns found');
+  }
+
+  const rows = parseCSV(lines.slice(headerIndex).join('\n'));
+  const headers = Object.keys(rows[0] || {});
+  const findHeader = (test: (upper: string) => boolean) => headers.find(h => test(h.toUpperCase()));
+  const dateCol = findHeader(h => h === 'DATE' || h === 'START DATE');
+  const usageCol = findHeader(h => h === 'USAGE' || h.startsWith('IMPORT'));
+  const unitsCol = findHeader(h => h === 'UNITS');
+  if (!dateCol || !usageCol) {
+    throw new Error('No header row with date and usage columns found');
+  }
+
+  const readings: UsageReading[] = [];
+  for (const row of rows) {
+    const start = parseLocalDate(String(row[dateCol] ?? ''));
+    const value = parseFloat(String(row[usageCol] ?? '').replace(/[^0-9.\-]/g, ''));
+    if (Number.isNaN(start.getTime()) || Number.isNaN(value)) continue;
+    const units = unitsCol ? String(row[unitsCol] ?? '').toUpperCase() : '';
+    if (units && units !== 'KWH') continue; // Skip gas (therms) rows in combined exports
+    readings.push({ start, kwh: value });
+  }
+  return readings;
+}
+
+// ============================================================================
+// AGGREGATION
+// ============================================================================
+
+function monthKey(date: Date): number {
+  return date.getFullYear() * 12 + date.getMonth();
+}
+
+function monthStartIso(key: number): string {
+  const year = Math.floor(key / 12);
+  const month = key % 12;
+  return `${year}-${String(month + 1).padStart(2, '0')}-01`;
+}
+
+/**
+ * Sum readings into the 12 calendar months ending with the latest reading
+ */
+export function aggregateMonthly(readings: UsageReading[], source: UsageSource): UsageImportResult {
+  if (readings.length === 0) {
+    throw new Error('The file contains no electric usage readings');
+  }
+  // A year of 15-minute intervals is too many arguments to spread into Math.max
+  const lastKey = readings.reduce((max, r) => Math.max(max, monthKey(r.start)), -Infinity);
+  const firstKey = lastKey - 11;
+  const totals: (number | null)[] = new Array(12).fill(null);
+
+  let readingCount = 0;
+  for (const reading of readings) {
+    const key = monthKey(reading.start);
+    if (key < firstKey || key > lastKey) continue;
+    const month = reading.start.getMonth();
+    totals[month] = (totals[month] ?? 0) + reading.kwh;
+    readingCount++;
+  }
+
+  return {
+    monthlyKwh: totals.map(total => (total === null ? null : Math.round(total))),
+    periodStart: monthStartIso(firstKey),
+    periodEnd: monthStartIso(lastKey),
+    readingCount,
+    source,
+  };
+}
+
+/**
+ * Parse a Green Button export, detecting XML vs CSV from the content
+ */
+export function importGreenButton(content: string): UsageImportResult {
+  const trimmed = content.trim();
+  if (trimmed.startsWith('<')) {
+    return aggregateMonthly(parseGreenButtonXml(trimmed), 'green_button_xml');
+  }
+  return aggregateMonthly(parseGreenButtonCsv(trimmed), 'green_button_csv');
+}
+
+/**
+ * Finalize an import (or a manual grid) as a lead's usage history;
+ * every month must have a value
+ */
+export function toUsageHistory(
+  monthlyKwh: (number | null)[],
+  source: UsageSource,
+  period?: { periodStart: string; periodEnd: string }
+): UsageHistory {
+  const missing = monthlyKwh
+    .map((kwh, month) => (kwh === null || !Number.isFinite(kwh) || kwh < 0 ? MONTH_NAMES[month] : null))
+    .filter((name): name is string => name !== null);
+  if (monthlyKwh.length !== 12 || missing.length > 0) {
+    throw new Error(`Enter usage for every month (missing: ${missing.join(', ') || 'all'})`);
+  }
+  return {
+    monthlyKwh: monthlyKwh as number[],
+    source,
+    importedAt: new Date().toISOString(),
+    periodStart: period?.periodStart,
+    periodEnd: period?.periodEnd,
+  };
+}
+
+export function annualUsageKwh(history: UsageHistory): number {
+  return history.monthlyKwh.reduce((sum, kwh) => sum + kwh, 0);
+}
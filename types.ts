@@ -1,10 +1,7 @@
 
-export type LeadStatus =
-  | "NEW"
-  | "QUALIFIED"
-  | "PROPOSAL_SENT"
-  | "CLOSED_WON"
-  | "CLOSED_LOST";
+// Status IDs come from the company's lead pipeline (services/leadPipeline.ts);
+// the defaults are NEW, QUALIFIED, PROPOSAL_SENT, CLOSED_WON and CLOSED_LOST
+export type LeadStatus = string;
 
 export interface LeadRouting {
   score: number; // 0-100
@@ -13,6 +10,34 @@ export interface LeadRouting {
   reasoning: string;
 }
 
+export type UsageSource = "green_button_xml" | "green_button_csv" | "manual";
+
+// 12 months of metered electricity usage for a lead (services/usageImport.ts)
+export interface UsageHistory {
+  monthlyKwh: number[]; // Jan-Dec
+  source: UsageSource;
+  importedAt: string;
+  periodStart?: string; // First month covered by an imported export
+  periodEnd?: string;
+}
+
+export type LeadActivityType = "call" | "sms" | "email" | "door_knock" | "appointment" | "note";
+
+export type CallOutcome = "connected" | "voicemail" | "no_answer" | "wrong_number" | "do_not_call";
+
+// One touch on a lead's timeline (services/leadActivity.ts)
+export interface LeadActivity {
+  id: string;
+  type: LeadActivityType;
+  occurredAt: string; // ISO date-time
+  authorId: string;
+  authorName: string;
+  body?: string;
+  outcome?: CallOutcome; // Calls only
+  direction?: "inbound" | "outbound"; // Calls, texts and emails
+  appointmentAt?: string; // Appointments: when it's booked for
+}
+
 export interface Lead {
   id: string;
   name: string;
@@ -21,7 +46,11 @@ export interface Lead {
   phone?: string;
   notes?: string;
   status: LeadStatus;
+  lostReason?: string; // From the company's lost-reason picklist, while in a lost status
   estimatedBill?: number;
+  ratePlanId?: string; // Utility rate plan (services/tariffEngine.ts RATE_PLAN_LIBRARY)
+  usageHistory?: UsageHistory; // Actual usage; replaces the bill-based estimate when present
+  targetOffsetPct?: number; // Share of annual usage to size the system for (company default otherwise)
   age?: number;
   createdAt: string;
   routing?: LeadRouting; // New field for AI Router data
@@ -33,6 +62,14 @@ export interface Lead {
   assignedTo?: string | null;
   // Multi-company support
   companyId?: string;
+  // Values for company-defined custom fields, keyed by field ID
+  customFields?: Record<string, any>;
+  // Completed e-signature contract (api/contracts.ts)
+  signedContractId?: string;
+  // Appointment setter credited with a split of the closer's commission
+  setterId?: string | null;
+  // Calls, texts, emails, door knocks, appointments and notes, oldest first
+  activities?: LeadActivity[];
 }
 
 export type ProjectStage =
@@ -46,7 +83,7 @@ export type ProjectStage =
 export interface Project {
   id: string;
   leadId: string;
-  stage: ProjectStage;
+  stage: string; // Company pipeline stage ID (services/pipelineConfig.ts); ProjectStage by default
   kW: number;
   createdAt: string;
   lastUpdated: string;
@@ -57,10 +94,194 @@ export interface Project {
   // Installer assignment
   installerName?: string;
   installerId?: string;
+  // Equipment being installed (services/equipmentCatalog.ts)
+  equipment?: ProjectEquipment;
+  // Site survey checklist and photos (services/siteSurvey.ts)
+  siteSurvey?: SiteSurveyRecord;
+  // Building permit with the AHJ (services/permits.ts)
+  permit?: PermitRecord;
+  // Utility interconnection application through PTO (services/interconnection.ts)
+  interconnection?: InterconnectionRecord;
+  // Deal terms and the people paid on it (services/commissionEngine.ts)
+  contractPrice?: number; // Gross price the customer signed for
+  financingType?: FinancingType;
+  closerId?: string | null;
+  setterId?: string | null;
+  managerId?: string | null;
+  cancelledAt?: string; // Cancelled deals claw back commissions already advanced
+  cancelReason?: string;
   // Multi-company support
   companyId?: string;
 }
 
+// Bill of materials carried from the design onto the project; names and costs
+// are copied so the record survives catalog edits
+export interface ProjectEquipment {
+  moduleId: string;
+  moduleName: string;
+  moduleWatts: number;
+  moduleQty: number;
+  inverterId: string;
+  inverterName: string;
+  inverterKind: "string" | "micro";
+  inverterQty: number;
+  dcAcRatio: number;
+  batteryId?: string;
+  batteryName?: string;
+  batteryQty: number;
+  equipmentCost: number;
+}
+
+export type PermitStatus = "not_submitted" | "submitted" | "corrections_requested" | "approved";
+
+export interface PermitDocument {
+  label: string;
+  received: boolean;
+}
+
+// One submission to the AHJ; a corrections request closes it and the next
+// resubmission opens a new cycle
+export interface PermitCycle {
+  submittedAt: string; // YYYY-MM-DD
+  correctionsRequestedAt?: string;
+  corrections?: string;
+}
+
+export interface PermitRecord {
+  ahjId: string; // services/ahjData.ts, or "" when the AHJ was entered by hand
+  ahjName: string;
+  status: PermitStatus;
+  documents: PermitDocument[];
+  cycles: PermitCycle[];
+  permitNumber?: string;
+  feesUsd?: number;
+  approvedAt?: string;
+}
+
+export type InterconnectionStatus =
+  | "not_submitted"
+  | "submitted"
+  | "rejected"
+  | "approved"
+  | "meter_swapped"
+  | "pto_granted";
+
+export type NemProgram = "NEM2" | "NEM3" | "NONE";
+
+// Letter from the utility; the file itself is in api/files storage
+export interface InterconnectionLetter {
+  fileName: string;
+  mimeType: string;
+  fileId: string;
+  uploadedAt: string;
+}
+
+export interface InterconnectionRecord {
+  utility: string;
+  applicationId?: string;
+  nemProgram: NemProgram;
+  status: InterconnectionStatus;
+  submittedAt?: string; // YYYY-MM-DD of the latest submission
+  rejectedReason?: string;
+  approvedAt?: string;
+  meterSwapDate?: string; // Scheduled until the status is meter_swapped
+  ptoGrantedAt?: string;
+  approvalLetter?: InterconnectionLetter;
+  ptoLetter?: InterconnectionLetter;
+}
+
+// Photo taken on the site survey, downscaled; the image is in api/files storage
+export interface SurveyPhoto {
+  fileName: string;
+  fileId: string;
+  takenAt: string;
+}
+
+// An uploaded photo or document. dataUrl is only present when the file
+// itself is fetched, never on the records that refer to it.
+export interface StoredFile {
+  id: string;
+  companyId: string;
+  fileName: string;
+  mimeType: string;
+  sizeBytes: number;
+  uploadedAt: string;
+  uploadedBy: string;
+  dataUrl?: string;
+}
+
+// Answers to the company's site survey checklist (custom fields scoped to "survey")
+export interface SiteSurveyRecord {
+  values: Record<string, any>; // Keyed by custom field key
+  photos: Record<string, SurveyPhoto[]>; // Photo fields, keyed by custom field key
+  surveyor?: string;
+  updatedAt: string;
+  completedAt?: string; // Set once every required item is in
+}
+
+// Subset of commission DealTypes a homeowner can choose between on a proposal
+export type FinancingType = "cash" | "loan" | "lease" | "ppa";
+
+export interface FinancingOption {
+  id: string; // "cash" or the loan/lease/PPA product ID
+  type: FinancingType;
+  name: string;
+  upfrontCost: number;
+  monthlyPayment: number; // Year 1
+  escalatorPct: number; // Annual payment increase
+  termYears: number;
+  totalCost25: number; // Everything paid over 25 years, including the remaining utility bill
+  netSavings25: number; // 25-yr utility cost without solar minus totalCost25
+  paybackYear: number | null; // First year cumulative savings turn positive
+  irr: number | null; // Percent; null when nothing is paid upfront
+}
+
+// Roof design (services/roofDesign.ts); positions are feet on the roof plane,
+// x along the eave and y from the eave up the slope
+export interface RoofObstruction {
+  id: string;
+  label: string;
+  xFt: number;
+  yFt: number;
+  widthFt: number;
+  heightFt: number;
+}
+
+export interface PanelPlacement {
+  xFt: number;
+  yFt: number;
+}
+
+export interface RoofFace {
+  id: string;
+  name: string;
+  widthFt: number; // Along the eave
+  heightFt: number; // Eave to ridge, along the slope
+  pitch: number; // Rise per 12" of run
+  azimuthDeg: number; // 180 = south
+  shadingPct: number;
+  setbackFt: number; // Fire code setback from every edge
+  orientation: "portrait" | "landscape";
+  obstructions: RoofObstruction[];
+  panels: PanelPlacement[];
+}
+
+export interface SystemDesign {
+  moduleId: string;
+  inverterId?: string; // Company default inverter when absent
+  batteryId?: string;
+  batteryQty?: number;
+  faces: RoofFace[];
+}
+
+export interface PlaneProduction {
+  faceId: string;
+  panelCount: number;
+  kw: number;
+  annualKwh: number;
+  specificYield: number;
+}
+
 export interface SolarAnalysis {
   leadId: string;
   roofPitch: string;
@@ -71,13 +292,149 @@ export interface SolarAnalysis {
   summary: string;
   groundingUrls?: string[]; // URLs from Google Maps/Search grounding
 
+  // Production (services/productionModel.ts)
+  azimuthDeg?: number; // Compass bearing the array faces (180 = south)
+  shadingPct?: number; // Annual shading loss, 0-100
+  weatherStation?: string; // TMY station the irradiance came from
+  monthlyProductionKwh?: number[]; // Jan-Dec
+  annualProductionKwh?: number;
+  specificYield?: number; // kWh per kW-DC per year
+  design?: SystemDesign; // Multi-plane layout the system was sized from
+  planeProduction?: PlaneProduction[]; // Per-face results for the design
+  equipment?: ProjectEquipment; // Bill of materials from the company catalog
+
+  // Utility bills (services/tariffEngine.ts)
+  ratePlanId?: string;
+  annualUsageKwh?: number;
+  monthlyBillsBefore?: number[]; // Jan-Dec
+  monthlyBillsAfter?: number[]; // Jan-Dec
+
   // Financials
+  pricePerWatt?: number; // From the company's pricing configuration
   systemCost: number;
   taxCredit30: number;
   netCost: number;
   estimatedMonthlyPayment: number;
   estimatedMonthlySavings: number;
   estimatedUtilityBillBefore?: number;
+  estimatedUtilityBillAfter?: number; // Average monthly bill with solar
+  financingOptions?: FinancingOption[]; // Side-by-side cash / loan / lease / PPA
+}
+
+// Issued proposals (api/proposals.ts). A version's snapshot and PDF never change
+// once issued; customer opens are recorded separately as ProposalView records.
+export interface ProposalBrand {
+  name: string;
+  logoUrl: string;
+  primaryColor: string;
+  accentColor: string;
+}
+
+export interface ProposalSnapshot {
+  lead: Lead;
+  analysis: SolarAnalysis;
+  financingOptions: FinancingOption[]; // As priced when the version was issued
+  brand: ProposalBrand;
+  repName: string;
+}
+
+export interface ProposalVersion {
+  id: string;
+  leadId: string;
+  version: number; // 1, 2, ... per lead
+  issuedAt: string;
+  issuedBy: string; // User ID of the rep who issued it
+  snapshot: ProposalSnapshot;
+  pdfBase64: string;
+  pdfSha256: string; // Fingerprint printed on the customer view to settle disputes
+  shareToken: string; // Read-only customer link
+  companyId?: string;
+}
+
+// Version list entry: the headline numbers without the snapshot or PDF body
+export interface ProposalSummary {
+  id: string;
+  leadId: string;
+  version: number;
+  issuedAt: string;
+  issuedBy: string;
+  repName: string;
+  systemSizeKw: number;
+  systemCost: number;
+  estimatedMonthlyPayment: number;
+  estimatedMonthlySavings: number;
+  pdfSha256: string;
+  shareToken: string;
+  viewCount: number;
+  lastViewedAt?: string;
+}
+
+export interface ProposalView {
+  id: string;
+  proposalId: string;
+  viewedAt: string;
+  format: "html" | "pdf";
+  userAgent?: string;
+  ip?: string;
+}
+
+// E-signature (api/contracts.ts). The merged text is frozen when the contract is
+// created and every signature is bound to documentSha256.
+export type ContractSignerRole = "homeowner" | "co_homeowner" | "rep";
+
+// Pen strokes captured on the 600×200 signature pad, as [x, y] points
+export type SignatureStroke = [number, number][];
+
+// A co-homeowner or rep named when the contract is created
+export interface ContractParty {
+  name: string;
+  email?: string;
+}
+
+export interface ContractSigner {
+  id: string;
+  role: ContractSignerRole;
+  name: string;
+  email?: string;
+  consentedAt?: string; // Agreed to ESIGN_CONSENT_TEXT
+  signedAt?: string;
+  typedName?: string;
+  strokes?: SignatureStroke[];
+  ip?: string;
+  userAgent?: string;
+}
+
+export type ContractStatus = "out_for_signature" | "completed" | "voided";
+
+export interface ContractEvent {
+  at: string;
+  type: "created" | "consented" | "signed" | "completed" | "voided";
+  signerId?: string;
+  userId?: string; // Session that made the request
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface Contract {
+  id: string;
+  leadId: string;
+  templateId: string;
+  title: string;
+  body: string; // Merged agreement text
+  proposalId: string; // Issued proposal version the price and terms come from
+  proposalVersion: number;
+  financingOptionId?: string; // Option the homeowner chose from that version's financingOptions
+  financingType?: FinancingType;
+  documentSha256: string; // Hash of the unsigned PDF every signer agreed to
+  signers: ContractSigner[]; // Sign in this order
+  status: ContractStatus;
+  events: ContractEvent[];
+  createdAt: string;
+  createdBy: string;
+  completedAt?: string;
+  signedPdfBase64?: string; // Agreement, signatures and certificate of completion
+  signedPdfSha256?: string;
+  companyId?: string;
 }
 
 export interface ComplianceAnalysis {
@@ -97,7 +454,11 @@ export interface BusinessInsight {
   impactScore: number; // 1-10
 }
 
-export type CommissionStatus = "PENDING" | "APPROVED" | "PAID";
+export type CommissionStatus = "PENDING" | "APPROVED" | "PAID" | "CANCELLED";
+
+// Who a commission line pays and what part of the deal it's for
+export type CommissionRole = "closer" | "setter" | "manager";
+export type CommissionKind = "commission" | "override" | "clawback";
 
 export interface Commission {
   id: string;
@@ -106,13 +467,81 @@ export interface Commission {
   amountUsd: number;
   status: CommissionStatus;
   milestone: ProjectStage | "SIGNED";
+  role?: CommissionRole;
+  kind?: CommissionKind;
+  clawbackOf?: string; // Paid commission this negative line recovers
+  breakdown?: string; // How the amount was calculated
+  bonusUsd?: number; // Portion of amountUsd paid as bonuses
+  payoutRunId?: string; // Payout run the line is locked into
   expectedPayDate?: string;
   paidAt?: string;
   payoutMethod?: string;
+  // Server-side linkage
+  projectId?: string;
+  repId?: string;
+  createdAt?: string;
+  approvedAt?: string;
   // Multi-company support
   companyId?: string;
 }
 
+export interface Rep {
+  id: string;
+  name: string;
+  email: string;
+  phone: string;
+  role: 'admin' | 'manager' | 'rep' | 'installer' | 'finance';
+  teamId: string | null;
+  avatarUrl?: string;
+  hireDate: string;
+  isActive: boolean;
+  payoutAccount?: RepPayoutAccount;
+}
+
+// Direct-deposit account for ACH payroll files
+export interface RepPayoutAccount {
+  routingNumber: string; // 9-digit ABA
+  accountNumber: string;
+  accountType: 'checking' | 'savings';
+}
+
+export type PayoutRunStatus = 'locked' | 'paid';
+
+// A pay period's batch of approved commissions, locked until it is paid or voided
+export interface PayoutRun {
+  id: string;
+  companyId: string;
+  periodStart: string; // YYYY-MM-DD
+  periodEnd: string;
+  status: PayoutRunStatus;
+  commissionIds: string[];
+  carriedForwardIds: string[]; // Clawbacks left for a later run so no rep nets below zero
+  totalUsd: number;
+  createdAt: string;
+  createdBy: string;
+  paidAt?: string;
+  payoutMethod?: string;
+}
+
+export interface Crew {
+  id: string;
+  name: string;
+  capacityKwPerDay: number; // kW the crew can install in a working day
+  isActive: boolean;
+}
+
+export interface Installer {
+  id: string;
+  name: string;
+  phone: string;
+  email: string;
+  licenseNumber?: string;
+  rating: number; // 0-5
+  totalInstalls: number;
+  isActive: boolean;
+  crews?: Crew[];
+}
+
 export type PlanId = "FREE" | "PRO" | "TEAM" | "DEALER";
 
 export interface UserProfile {
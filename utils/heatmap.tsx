@@ -3,11 +3,13 @@ import type { SolarAnalysis } from "../types";
 
 export function generateSolarHeatmap(analysis: SolarAnalysis) {
   const score = analysis.viabilityScore;
-  // Inverse relation: High sun hours = low shading
-  const shading = Math.max(
+  // Modeled shading when the production model ran; older analyses infer it from sun hours
+  const shading = analysis.shadingPct ?? Math.max(
     0,
     100 - (analysis.sunHoursPerDay / 6.5) * 100
   );
+  const monthly = analysis.monthlyProductionKwh || [];
+  const peakMonth = Math.max(1, ...monthly);
 
   const panelCount = Math.floor(analysis.usableAreaSqft / 17.6);
 
@@ -73,6 +75,33 @@ export function generateSolarHeatmap(analysis: SolarAnalysis) {
         </div>
         <span>Shading Impact: <strong className={`${shading > 20 ? 'text-red-400' : 'text-slate-300'}`}>{shading.toFixed(0)}%</strong></span>
       </div>
+
+      {monthly.length === 12 && (
+        <div className="mt-3 px-1">
+          <div className="flex items-end gap-1 h-12">
+            {monthly.map((kwh, i) => (
+              <div
+                key={i}
+                className="flex-1 rounded-t-sm"
+                style={{ height: `${(kwh / peakMonth) * 100}%`, backgroundColor: color, opacity: 0.7 }}
+                title={`${'JFMAMJJASOND'[i]}: ${kwh.toLocaleString()} kWh`}
+              />
+            ))}
+          </div>
+          <div className="flex gap-1 text-[9px] text-slate-600 font-mono mt-1">
+            {'JFMAMJJASOND'.split('').map((m, i) => (
+              <span key={i} className="flex-1 text-center">{m}</span>
+            ))}
+          </div>
+          <div className="flex justify-between items-center text-[11px] text-slate-500 font-mono mt-1">
+            <span>Annual: <strong className="text-slate-300">{(analysis.annualProductionKwh || 0).toLocaleString()} kWh</strong></span>
+            <span>Yield: <strong className="text-slate-300">{analysis.specificYield} kWh/kW</strong></span>
+          </div>
+          {analysis.weatherStation && (
+            <div className="text-[10px] text-slate-600 font-mono mt-1 px-0">TMY: {analysis.weatherStation}</div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
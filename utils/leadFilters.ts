@@ -1,4 +1,5 @@
 import { Lead, LeadStatus } from '../types';
+import { DEFAULT_LEAD_STATUSES } from '../services/leadStatuses';
 
 interface FilterOptions {
   filter: LeadStatus | 'ALL';
@@ -11,14 +12,10 @@ interface FilterOptions {
 export type SortField = 'name' | 'estimatedBill' | 'status' | 'createdAt' | 'aiScore';
 export type SortDirection = 'asc' | 'desc';
 
-// Status workflow order for sorting
-const STATUS_ORDER: Record<LeadStatus, number> = {
-  'NEW': 0,
-  'QUALIFIED': 1,
-  'PROPOSAL_SENT': 2,
-  'CLOSED_WON': 3,
-  'CLOSED_LOST': 4
-};
+// Status workflow order for sorting when no company pipeline is passed in
+const STATUS_ORDER: Record<LeadStatus, number> = Object.fromEntries(
+  DEFAULT_LEAD_STATUSES.map(s => [s.id, s.order])
+);
 
 /**
  * Apply all filters to leads array
@@ -62,10 +59,16 @@ export function applyFilters(leads: Lead[], options: FilterOptions): Lead[] {
 }
 
 /**
- * Apply sorting to leads array
+ * Apply sorting to leads array; statuses sort by the company's pipeline order
+ * (getLeadStatusOrder in services/leadPipeline.ts)
  * Pure function - does not mutate input
  */
-export function applySorting(leads: Lead[], sortField: SortField, sortDirection: SortDirection): Lead[] {
+export function applySorting(
+  leads: Lead[],
+  sortField: SortField,
+  sortDirection: SortDirection,
+  statusOrder: Record<LeadStatus, number> = STATUS_ORDER
+): Lead[] {
   const sorted = [...leads];
   
   sorted.sort((a, b) => {
@@ -83,8 +86,8 @@ export function applySorting(leads: Lead[], sortField: SortField, sortDirection:
         break;
         
       case 'status':
-        const orderA = STATUS_ORDER[a.status] ?? 99;
-        const orderB = STATUS_ORDER[b.status] ?? 99;
+        const orderA = statusOrder[a.status] ?? 99;
+        const orderB = statusOrder[b.status] ?? 99;
         comparison = orderA - orderB;
         break;
         
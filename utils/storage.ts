@@ -1,4 +1,5 @@
 import { getActiveCompanyId } from '../services/companyStore';
+import { pushRecordChanges, pullRecords, reportSyncFailure, SyncedCollection, SyncedRecord } from '../services/recordSync';
 import { Lead, Project, Commission } from '../types';
 
 // ============================================================================
@@ -23,14 +24,100 @@ export function save<T>(key: string, value: T): void {
   }
 }
 
+// Values kept per company under one key, as { [companyId]: value }
+export function loadCompanyMap<T>(key: string): Record<string, T> {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error(`Failed to load ${key}:`, error);
+    return {};
+  }
+}
+
+export function saveForCompany<T>(key: string, companyId: string, value: T): void {
+  try {
+    const all = loadCompanyMap<T>(key);
+    all[companyId] = value;
+    localStorage.setItem(key, JSON.stringify(all));
+  } catch (error) {
+    console.error(`Failed to save ${key}:`, error);
+  }
+}
+
 // ============================================================================
-// COMPANY-FILTERED DATA LOADERS
+// SERVER-SYNCED COLLECTIONS
 // ============================================================================
 
 const LEADS_KEY = 'primus_leads';
 const PROJECTS_KEY = 'primus_projects';
 const COMMISSIONS_KEY = 'primus_commissions';
 
+// Save locally and send the changes to the server (services/recordSync.ts).
+// The first save only writes the seed data, so there is nothing to send.
+// When the server refuses a change, the local copy goes back to the server's
+// and the screens showing it are told to reload.
+function saveSynced<T extends SyncedRecord>(key: string, collection: SyncedCollection, records: T[]): void {
+  const previous = localStorage.getItem(key) !== null ? loadOrDefault<T[]>(key, []) : null;
+  save(key, records);
+  if (!previous) return;
+  pushRecordChanges(collection, previous, records).then(async errors => {
+    if (errors.length === 0) return;
+    reportSyncFailure({ collection, errors, records: await syncFromServer<T>(key, collection) });
+  });
+}
+
+// Replace the local copy with the server's, without sending it back
+async function syncFromServer<T extends SyncedRecord>(key: string, collection: SyncedCollection): Promise<T[] | null> {
+  const records = await pullRecords(collection, loadOrDefault<T[]>(key, []));
+  if (records) save(key, records);
+  return records;
+}
+
+/**
+ * Reload leads from the server; null when signed out or offline
+ */
+export function syncLeadsFromServer(): Promise<Lead[] | null> {
+  return syncFromServer<Lead>(LEADS_KEY, 'leads');
+}
+
+export function syncProjectsFromServer(): Promise<Project[] | null> {
+  return syncFromServer<Project>(PROJECTS_KEY, 'projects');
+}
+
+export function syncCommissionsFromServer(): Promise<Commission[] | null> {
+  return syncFromServer<Commission>(COMMISSIONS_KEY, 'commissions');
+}
+
+// Merge records the server has already changed into the local copy, without sending them back
+function applyServerRecords<T extends SyncedRecord>(key: string, changed: T[]): T[] {
+  const byId = new Map(changed.map(r => [r.id, r]));
+  const cached = loadOrDefault<T[]>(key, []);
+  const known = new Set(cached.map(r => r.id));
+  const records = [...cached.map(r => byId.get(r.id) || r), ...changed.filter(r => !known.has(r.id))];
+  save(key, records);
+  return records;
+}
+
+/**
+ * Apply commission lines the server has already changed (payout runs, project
+ * milestones) to the local copy without sending them back; returns every line
+ */
+export function applyServerCommissions(changed: Commission[]): Commission[] {
+  return applyServerRecords(COMMISSIONS_KEY, changed);
+}
+
+/**
+ * Apply a project the server has already changed; returns every project
+ */
+export function applyServerProject(project: Project): Project[] {
+  return applyServerRecords(PROJECTS_KEY, [project]);
+}
+
+// ============================================================================
+// COMPANY-FILTERED DATA LOADERS
+// ============================================================================
+
 /**
  * Load all leads (unfiltered - for internal use)
  */
@@ -53,7 +140,7 @@ export function loadLeadsForActiveCompany(): Lead[] {
  * Save leads (preserves company isolation)
  */
 export function saveLeads(leads: Lead[]): void {
-  save(LEADS_KEY, leads);
+  saveSynced(LEADS_KEY, 'leads', leads);
 }
 
 /**
@@ -90,7 +177,7 @@ export function loadProjectsForActiveCompany(): Project[] {
  * Save projects
  */
 export function saveProjects(projects: Project[]): void {
-  save(PROJECTS_KEY, projects);
+  saveSynced(PROJECTS_KEY, 'projects', projects);
 }
 
 /**
@@ -127,7 +214,7 @@ export function loadCommissionsForActiveCompany(): Commission[] {
  * Save commissions
  */
 export function saveCommissions(commissions: Commission[]): void {
-  save(COMMISSIONS_KEY, commissions);
+  saveSynced(COMMISSIONS_KEY, 'commissions', commissions);
 }
 
 /**